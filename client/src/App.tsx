@@ -19,7 +19,19 @@ import Landing from "@/pages/landing";
 import JoinTeam from "@/pages/join-team";
 import Login from "@/pages/login";
 import WhatsAppSimple from "@/pages/whatsapp-simple";
+import WhatsApp from "@/pages/whatsapp";
 import WhatsAppTemplates from "@/pages/whatsapp-templates";
+import CustomFields from "@/pages/custom-fields";
+import Duplicates from "@/pages/duplicates";
+import PipelineSettings from "@/pages/pipeline-settings";
+import Products from "@/pages/products";
+import Suppressions from "@/pages/suppressions";
+import Preferences from "@/pages/preferences";
+import MailboxSettings from "@/pages/mailbox";
+import BookingSettings from "@/pages/booking-settings";
+import Book from "@/pages/book";
+import CalendarSettings from "@/pages/calendar-settings";
+import Holidays from "@/pages/holidays";
 import Sidebar from "@/components/layout/sidebar";
 
 function Router() {
@@ -41,6 +53,9 @@ function Router() {
       {/* Public routes for non-authenticated users */}
       <Route path="/join-team" component={JoinTeam} />
       <Route path="/login" component={Login} />
+      <Route path="/preferences/:token" component={Preferences} />
+      <Route path="/book/:slug/:typeSlug" component={Book} />
+      <Route path="/book/:slug" component={Book} />
       
       {/* Protected routes */}
       {!isAuthenticated ? (
@@ -53,8 +68,11 @@ function Router() {
               <Switch>
                 <Route path="/" component={Dashboard} />
                 <Route path="/contacts" component={Contacts} />
+                <Route path="/contacts/duplicates" component={Duplicates} />
                 <Route path="/leads" component={Leads} />
                 <Route path="/pipeline" component={Pipeline} />
+                <Route path="/pipeline-settings" component={PipelineSettings} />
+                <Route path="/products" component={Products} />
                 <Route path="/tasks" component={Tasks} />
                 <Route path="/reports" component={Reports} />
                 <Route path="/email-templates" component={EmailTemplates} />
@@ -62,7 +80,14 @@ function Router() {
                 <Route path="/billing" component={Billing} />
                 <Route path="/team" component={Team} />
                 <Route path="/whatsapp" component={WhatsAppSimple} />
+                <Route path="/whatsapp-inbox" component={WhatsApp} />
                 <Route path="/whatsapp-templates" component={WhatsAppTemplates} />
+                <Route path="/custom-fields" component={CustomFields} />
+                <Route path="/suppressions" component={Suppressions} />
+                <Route path="/mailbox" component={MailboxSettings} />
+                <Route path="/booking-page" component={BookingSettings} />
+                <Route path="/calendar-settings" component={CalendarSettings} />
+                <Route path="/holidays" component={Holidays} />
                 <Route component={NotFound} />
               </Switch>
             </div>
@@ -0,0 +1,132 @@
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Trophy } from "lucide-react";
+import { channelLabels } from "./sequence-step-editor";
+import type { CampaignMetrics, StepTestResult } from "@shared/campaigns";
+import type { CampaignSequenceRecord } from "@shared/schema";
+
+interface AbTestResultsProps {
+  sequence: CampaignSequenceRecord;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const criteriaLabels: Record<StepTestResult["criteria"], string> = {
+  open_rate: "open rate",
+  click_rate: "click rate",
+  conversion_rate: "conversion rate",
+};
+
+const criteriaRate = (metrics: CampaignMetrics, criteria: StepTestResult["criteria"]) =>
+  criteria === "open_rate" ? metrics.openRate : criteria === "click_rate" ? metrics.clickRate : metrics.conversionRate;
+
+export default function AbTestResults({ sequence, open, onOpenChange }: AbTestResultsProps) {
+  const { data: results = [], isLoading } = useQuery<StepTestResult[]>({
+    queryKey: [`/api/campaigns/sequences/${sequence.id}/ab-results`],
+    enabled: open,
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[900px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>A/B Results: {sequence.name}</DialogTitle>
+          <DialogDescription>
+            Rates are per send. A conversion is a reply, a booked meeting or a won deal after the contact got the step.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading results...</p>
+        ) : results.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No step in this sequence has variants yet.</p>
+        ) : (
+          <div className="space-y-4">
+            {results.map((result) => (
+              <Card key={result.stepId}>
+                <CardHeader>
+                  <div className="flex items-center justify-between">
+                    <CardTitle className="text-base">
+                      Step {result.stepNumber}: {channelLabels[result.channel]}
+                    </CardTitle>
+                    {result.winner ? (
+                      <Badge className="bg-green-600">
+                        <Trophy className="h-3 w-3 mr-1" />
+                        {result.winner.variantId} promoted {format(new Date(result.winner.decidedAt), "MMM dd")}
+                      </Badge>
+                    ) : result.significant ? (
+                      <Badge>Winner found, promoted on the next send</Badge>
+                    ) : (
+                      <Badge variant="secondary">Testing</Badge>
+                    )}
+                  </div>
+                  <CardDescription>
+                    Judged on {criteriaLabels[result.criteria]}
+                    {result.leaderId && ` • ${result.leaderId} leads with ${result.confidence}% confidence`}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Variant</TableHead>
+                        <TableHead className="text-right">Weight</TableHead>
+                        <TableHead className="text-right">Sent</TableHead>
+                        <TableHead className="text-right">Opened</TableHead>
+                        <TableHead className="text-right">Clicked</TableHead>
+                        <TableHead className="text-right">Converted</TableHead>
+                        <TableHead className="w-40">{criteriaLabels[result.criteria]}</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {result.variants.map((variant) => (
+                        <TableRow key={variant.id}>
+                          <TableCell>
+                            <div className="font-medium">
+                              {variant.id}
+                              {variant.id === (result.winner?.variantId ?? result.leaderId) && (
+                                <Trophy className="inline h-3 w-3 ml-1 text-yellow-600" />
+                              )}
+                            </div>
+                            {variant.subject && (
+                              <div className="text-xs text-muted-foreground truncate max-w-[220px]">{variant.subject}</div>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-right">{variant.weight}%</TableCell>
+                          <TableCell className="text-right">{variant.metrics.sent}</TableCell>
+                          <TableCell className="text-right">
+                            {variant.metrics.opened} ({variant.metrics.openRate}%)
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {variant.metrics.clicked} ({variant.metrics.clickRate}%)
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {variant.metrics.converted} ({variant.metrics.conversionRate}%)
+                          </TableCell>
+                          <TableCell>
+                            <Progress value={criteriaRate(variant.metrics, result.criteria)} />
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,519 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  AlertTriangle,
+  CheckSquare,
+  Clock,
+  Eye,
+  GripVertical,
+  Mail,
+  MessageCircle,
+  MessageSquare,
+  Plus,
+  Smartphone,
+  Trash2,
+} from "lucide-react";
+import SequenceStepEditor, { channelLabels } from "./sequence-step-editor";
+import {
+  extractMergeTags,
+  sequenceIssues,
+  type ABTestConfig,
+  type CampaignChannel,
+  type CampaignSequenceInput,
+  type CampaignStep,
+} from "@shared/campaigns";
+import type { CampaignSequenceRecord, Contact, CustomFieldDefinition } from "@shared/schema";
+
+interface SequenceBuilderProps {
+  sequence?: CampaignSequenceRecord; // a new sequence when absent
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+interface StepPreview {
+  subject?: string;
+  message: string;
+  conditionsMet: boolean;
+}
+
+const channelIcons: Record<CampaignChannel, typeof Mail> = {
+  email: Mail,
+  sms: MessageSquare,
+  whatsapp: MessageCircle,
+  push: Smartphone,
+  task: CheckSquare,
+  wait: Clock,
+};
+
+// The steps the palette offers
+const paletteChannels: CampaignChannel[] = ["email", "whatsapp", "task", "wait"];
+
+const newSequence = (): CampaignSequenceInput => ({
+  name: "",
+  status: "draft",
+  triggers: [],
+  steps: [],
+  personalization: {
+    mergeTags: {
+      firstName: "contact.firstName",
+      lastName: "contact.lastName",
+      company: "contact.company",
+    },
+    dynamicContent: [],
+    sendTimeOptimization: {
+      enabled: false,
+      timezone: "UTC",
+      preferredHours: { start: 9, end: 17 },
+      excludeDays: [],
+    },
+  },
+  abTesting: { enabled: false, testType: "subject", variants: [], splitPercentage: 0, winnerCriteria: "open_rate" },
+});
+
+const toInput = ({ name, status, triggers, steps, personalization, abTesting }: CampaignSequenceRecord): CampaignSequenceInput => ({
+  name,
+  status: status as CampaignSequenceInput["status"],
+  triggers,
+  steps,
+  personalization,
+  abTesting,
+});
+
+const newStep = (channel: CampaignChannel): CampaignStep => ({
+  id: `step-${Math.random().toString(36).slice(2, 10)}`,
+  sequence: 0,
+  channel,
+  delay: channel === "wait" ? 24 * 60 : 0,
+  content: { subject: channel === "email" || channel === "task" ? "" : undefined, message: "", mergeTags: [] },
+  sendTimeOptimization: false,
+});
+
+const mergeTagsIn = (step: CampaignStep) => extractMergeTags(`${step.content.subject ?? ""} ${step.content.message}`);
+
+// Steps are numbered by position, so renumber after every change to the order
+const renumber = (steps: CampaignStep[]) => steps.map((step, index) => ({ ...step, sequence: index + 1 }));
+
+const formatDelay = (delay: number) => {
+  if (delay === 0) return "immediately";
+  if (delay % (24 * 60) === 0) return `after ${delay / (24 * 60)}d`;
+  if (delay % 60 === 0) return `after ${delay / 60}h`;
+  return `after ${delay}m`;
+};
+
+export default function SequenceBuilder({ sequence, open, onOpenChange }: SequenceBuilderProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState<CampaignSequenceInput>(newSequence);
+  const [selectedStepId, setSelectedStepId] = useState<string | null>(null);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [newTag, setNewTag] = useState({ key: "", value: "" });
+  const [previewContactId, setPreviewContactId] = useState<string>("");
+  const [preview, setPreview] = useState<StepPreview | null>(null);
+
+  useEffect(() => {
+    if (open) {
+      const initial = sequence ? toInput(sequence) : newSequence();
+      setDraft(initial);
+      setSelectedStepId(initial.steps[0]?.id ?? null);
+      setPreview(null);
+    }
+  }, [open, sequence]);
+
+  const { data: contacts = [] } = useQuery<Contact[]>({
+    queryKey: ["/api/contacts"],
+    enabled: open,
+  });
+
+  const { data: customFieldDefinitions = [] } = useQuery<CustomFieldDefinition[]>({
+    queryKey: ["/api/custom-fields"],
+    enabled: open,
+  });
+  const contactFields = customFieldDefinitions.filter((field) => field.entityType === "contact");
+
+  const issues = sequenceIssues(draft);
+  const selectedIndex = draft.steps.findIndex((step) => step.id === selectedStepId);
+  const selectedStep = draft.steps[selectedIndex];
+  const mergeTags = [
+    ...Object.keys(draft.personalization.mergeTags),
+    ...contactFields.map((field) => `custom.${field.key}`),
+  ];
+
+  const setSteps = (steps: CampaignStep[]) => setDraft((current) => ({ ...current, steps: renumber(steps) }));
+
+  const addStep = (channel: CampaignChannel) => {
+    const step = newStep(channel);
+    setSteps([...draft.steps, step]);
+    setSelectedStepId(step.id);
+    setPreview(null);
+  };
+
+  const removeStep = (id: string) => {
+    setSteps(draft.steps.filter((step) => step.id !== id));
+    if (selectedStepId === id) setSelectedStepId(null);
+  };
+
+  const moveStep = (from: number, to: number) => {
+    if (from === to) return;
+    const steps = [...draft.steps];
+    const [moved] = steps.splice(from, 1);
+    steps.splice(to, 0, moved);
+    setSteps(steps);
+  };
+
+  const setAbTesting = (changes: Partial<ABTestConfig>) =>
+    setDraft((current) => ({ ...current, abTesting: { ...current.abTesting, ...changes } }));
+
+  const setMergeTags = (mergeTags: Record<string, string>) =>
+    setDraft((current) => ({ ...current, personalization: { ...current.personalization, mergeTags } }));
+
+  const saveMutation = useMutation({
+    mutationFn: async (status: CampaignSequenceInput["status"]) => {
+      const body = {
+        ...draft,
+        status,
+        steps: draft.steps.map((step) => ({
+          ...step,
+          content: { ...step.content, mergeTags: mergeTagsIn(step) },
+        })),
+      };
+      const response = sequence
+        ? await apiRequest("PUT", `/api/campaigns/sequences/${sequence.id}`, body)
+        : await apiRequest("POST", "/api/campaigns/sequences", body);
+      return await response.json();
+    },
+    onSuccess: (saved: CampaignSequenceRecord) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/campaigns/sequences"] });
+      toast({
+        title: sequence ? "Sequence Updated" : "Sequence Created",
+        description: saved.status === "active" ? `${saved.name} is active` : `${saved.name} saved as ${saved.status}`,
+      });
+      onOpenChange(false);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save sequence",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const previewMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/campaigns/preview", {
+        step: selectedStep,
+        personalization: draft.personalization,
+        contactId: parseInt(previewContactId),
+      });
+      return await response.json();
+    },
+    onSuccess: (result: StepPreview) => setPreview(result),
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to preview step",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // An active sequence is saved as it is, so it has to stay valid
+  const currentStatus = draft.status;
+  const canSave = draft.name.trim().length > 0 && !(currentStatus === "active" && issues.length > 0);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[1100px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{sequence ? `Edit ${sequence.name}` : "Create Sequence"}</DialogTitle>
+          <DialogDescription>
+            Drag steps to reorder them. Each step waits its delay after the previous one.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="sequence-name">Name</Label>
+          <Input
+            id="sequence-name"
+            value={draft.name}
+            onChange={(e) => setDraft((current) => ({ ...current, name: e.target.value }))}
+            placeholder="Trial onboarding"
+          />
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-[320px_1fr] gap-6">
+          <div className="space-y-3">
+            <div className="space-y-2">
+              {draft.steps.map((step, index) => {
+                const Icon = channelIcons[step.channel];
+                const hasIssue = issues.some((issue) => issue.stepId === step.id);
+                return (
+                  <div
+                    key={step.id}
+                    draggable
+                    onDragStart={() => setDragIndex(index)}
+                    onDragOver={(e) => e.preventDefault()}
+                    onDrop={() => {
+                      if (dragIndex !== null) moveStep(dragIndex, index);
+                      setDragIndex(null);
+                    }}
+                    onDragEnd={() => setDragIndex(null)}
+                    onClick={() => {
+                      setSelectedStepId(step.id);
+                      setPreview(null);
+                    }}
+                    className={`flex items-center gap-2 rounded-md border p-2 cursor-pointer ${
+                      step.id === selectedStepId ? "border-primary bg-muted" : ""
+                    } ${dragIndex === index ? "opacity-50" : ""}`}
+                  >
+                    <GripVertical className="h-4 w-4 text-muted-foreground cursor-grab" />
+                    <Icon className="h-4 w-4" />
+                    <div className="flex-1 min-w-0">
+                      <div className="text-sm font-medium">
+                        {index + 1}. {channelLabels[step.channel]}
+                        {hasIssue && <AlertTriangle className="inline h-3 w-3 ml-1 text-orange-600" />}
+                      </div>
+                      <div className="text-xs text-muted-foreground truncate">
+                        {formatDelay(step.delay)}
+                        {step.conditions?.length ? " • conditional" : ""}
+                        {step.content.subject ? ` • ${step.content.subject}` : ""}
+                      </div>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        removeStep(step.id);
+                      }}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                );
+              })}
+              {draft.steps.length === 0 && (
+                <p className="text-sm text-muted-foreground">Add the first step below.</p>
+              )}
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+              {paletteChannels.map((channel) => {
+                const Icon = channelIcons[channel];
+                return (
+                  <Button key={channel} variant="outline" size="sm" onClick={() => addStep(channel)}>
+                    <Plus className="h-3 w-3 mr-1" />
+                    <Icon className="h-3 w-3 mr-1" />
+                    {channelLabels[channel]}
+                  </Button>
+                );
+              })}
+            </div>
+
+            <div className="space-y-2 pt-2">
+              <Label>Merge tags</Label>
+              <p className="text-xs text-muted-foreground">
+                Map a tag to a contact field such as <code>contact.firstName</code>, or to fixed text. Custom fields are
+                available as <code>{"{{custom.key}}"}</code>. Map a tag such as <code>demoLink</code> to{" "}
+                <code>booking.your-page</code> to link a booking page.
+              </p>
+              {Object.entries(draft.personalization.mergeTags).map(([key, value]) => (
+                <div key={key} className="flex items-center gap-2">
+                  <Badge variant="outline" className="shrink-0">{key}</Badge>
+                  <Input
+                    value={value}
+                    onChange={(e) => setMergeTags({ ...draft.personalization.mergeTags, [key]: e.target.value })}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => {
+                      const { [key]: _removed, ...rest } = draft.personalization.mergeTags;
+                      setMergeTags(rest);
+                    }}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <div className="flex gap-2">
+                <Input
+                  placeholder="tag"
+                  value={newTag.key}
+                  onChange={(e) => setNewTag({ ...newTag, key: e.target.value.replace(/[^\w]/g, "") })}
+                />
+                <Input
+                  placeholder="contact.company"
+                  value={newTag.value}
+                  onChange={(e) => setNewTag({ ...newTag, value: e.target.value })}
+                />
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={!newTag.key || !newTag.value}
+                  onClick={() => {
+                    setMergeTags({ ...draft.personalization.mergeTags, [newTag.key]: newTag.value });
+                    setNewTag({ key: "", value: "" });
+                  }}
+                >
+                  <Plus className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+
+            <div className="space-y-2 pt-2">
+              <div className="flex items-center justify-between">
+                <Label>A/B testing</Label>
+                <Switch
+                  checked={draft.abTesting.enabled}
+                  onCheckedChange={(enabled) => setAbTesting({ enabled })}
+                />
+              </div>
+              {draft.abTesting.enabled && (
+                <>
+                  <Select
+                    value={draft.abTesting.testType}
+                    onValueChange={(testType) => setAbTesting({ testType: testType as ABTestConfig["testType"] })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="subject">Test email subjects</SelectItem>
+                      <SelectItem value="content">Test subjects and messages</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Select
+                    value={draft.abTesting.winnerCriteria}
+                    onValueChange={(winnerCriteria) => setAbTesting({ winnerCriteria: winnerCriteria as ABTestConfig["winnerCriteria"] })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="open_rate">Winner by open rate</SelectItem>
+                      <SelectItem value="click_rate">Winner by click rate</SelectItem>
+                      <SelectItem value="conversion_rate">Winner by conversion rate</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground">
+                    The leading variant is promoted once every variant has enough sends and the lead is 95% certain.
+                  </p>
+                </>
+              )}
+            </div>
+          </div>
+
+          <div className="space-y-6">
+            {selectedStep ? (
+              <>
+                <SequenceStepEditor
+                  key={selectedStep.id}
+                  step={selectedStep}
+                  index={selectedIndex}
+                  steps={draft.steps}
+                  mergeTags={mergeTags}
+                  customFields={contactFields}
+                  abTesting={draft.abTesting}
+                  onChange={(step) => setSteps(draft.steps.map((other) => (other.id === step.id ? step : other)))}
+                />
+
+                {selectedStep.channel !== "wait" && (
+                  <div className="space-y-3 rounded-md border p-4">
+                    <div className="flex gap-2">
+                      <div className="flex-1">
+                        <Select value={previewContactId} onValueChange={setPreviewContactId}>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Preview for a contact" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {contacts.map((contact) => (
+                              <SelectItem key={contact.id} value={String(contact.id)}>
+                                {contact.firstName} {contact.lastName}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <Button
+                        variant="outline"
+                        onClick={() => previewMutation.mutate()}
+                        disabled={!previewContactId || previewMutation.isPending}
+                      >
+                        <Eye className="h-4 w-4 mr-2" />
+                        Preview
+                      </Button>
+                    </div>
+                    {preview && (
+                      <div className="space-y-2">
+                        {!preview.conditionsMet && (
+                          <Badge variant="secondary">Conditions not met: this contact would not get this step</Badge>
+                        )}
+                        {preview.subject !== undefined && <div className="font-medium">{preview.subject}</div>}
+                        <div className="whitespace-pre-wrap text-sm">{preview.message}</div>
+                      </div>
+                    )}
+                  </div>
+                )}
+              </>
+            ) : (
+              <p className="text-sm text-muted-foreground">Select a step to edit it.</p>
+            )}
+          </div>
+        </div>
+
+        {issues.length > 0 && (
+          <div className="rounded-md border border-orange-200 bg-orange-50 p-3 space-y-1">
+            <div className="flex items-center gap-2 text-sm font-medium text-orange-800">
+              <AlertTriangle className="h-4 w-4" />
+              Fix these before activating
+            </div>
+            <ul className="list-disc pl-6 text-sm text-orange-800">
+              {issues.map((issue, index) => (
+                <li key={index}>{issue.message}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => saveMutation.mutate(currentStatus)}
+            disabled={!canSave || saveMutation.isPending}
+          >
+            {currentStatus === "active" ? "Save" : `Save as ${currentStatus}`}
+          </Button>
+          {currentStatus !== "active" && (
+            <Button
+              className="bg-green-600 hover:bg-green-700"
+              onClick={() => saveMutation.mutate("active")}
+              disabled={!draft.name.trim() || issues.length > 0 || saveMutation.isPending}
+            >
+              Save & Activate
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
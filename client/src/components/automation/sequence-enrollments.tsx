@@ -0,0 +1,224 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/usePermissions";
+import { Pause, Play, UserPlus, X } from "lucide-react";
+import type { CampaignEnrollment, CampaignSequenceRecord, Contact } from "@shared/schema";
+
+interface SequenceEnrollmentsProps {
+  sequence: CampaignSequenceRecord;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+type EnrollmentAction = "pause" | "resume" | "exit";
+
+const statusVariants: Record<string, "default" | "secondary" | "outline" | "destructive"> = {
+  active: "default",
+  paused: "secondary",
+  completed: "outline",
+  exited: "destructive",
+};
+
+const exitReasonLabels: Record<string, string> = {
+  replied: "Replied",
+  meeting_booked: "Meeting booked",
+  deal_won: "Deal won",
+  manual: "Removed",
+  merged: "Contact merged",
+  conditions_not_met: "Conditions not met",
+  unsubscribed: "Opted out",
+};
+
+export default function SequenceEnrollments({ sequence, open, onOpenChange }: SequenceEnrollmentsProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { can } = usePermissions();
+  const [contactId, setContactId] = useState<string>("");
+
+  const { data: enrollments = [], isLoading } = useQuery<CampaignEnrollment[]>({
+    queryKey: [`/api/campaigns/sequences/${sequence.id}/enrollments`],
+    enabled: open,
+  });
+
+  const { data: contacts = [] } = useQuery<Contact[]>({
+    queryKey: ["/api/contacts"],
+    enabled: open,
+  });
+
+  const contactName = (id: number) => {
+    const contact = contacts.find((contact) => contact.id === id);
+    return contact ? `${contact.firstName} ${contact.lastName}` : `Contact #${id}`;
+  };
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/campaigns/sequences/${sequence.id}/enrollments`] });
+    queryClient.invalidateQueries({ queryKey: ["/api/campaigns/sequences"] });
+  };
+
+  const enrollMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest("POST", `/api/campaigns/sequences/${sequence.id}/enrollments`, { contactId: id });
+      return response.json();
+    },
+    onSuccess: (enrollment: CampaignEnrollment) => {
+      invalidate();
+      setContactId("");
+      toast({
+        title: "Contact enrolled",
+        description: `${contactName(enrollment.contactId)} starts ${sequence.name}.`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to enroll contact",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const actionMutation = useMutation({
+    mutationFn: async ({ id, action }: { id: number; action: EnrollmentAction }) => {
+      const response = await apiRequest("PATCH", `/api/campaigns/enrollments/${id}`, { action });
+      return response.json();
+    },
+    onSuccess: invalidate,
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update enrollment",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const canSend = can("campaigns:send");
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[800px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{sequence.name}</DialogTitle>
+          <DialogDescription>
+            Contacts leave the sequence on their own when they reply, book a meeting or win a deal.
+          </DialogDescription>
+        </DialogHeader>
+
+        {canSend && (
+          <div className="flex gap-2">
+            <div className="flex-1">
+              <Select value={contactId} onValueChange={setContactId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a contact to enroll" />
+                </SelectTrigger>
+                <SelectContent>
+                  {contacts.map((contact) => (
+                    <SelectItem key={contact.id} value={String(contact.id)}>
+                      {contact.firstName} {contact.lastName}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button
+              onClick={() => enrollMutation.mutate(parseInt(contactId))}
+              disabled={!contactId || sequence.status !== "active" || enrollMutation.isPending}
+            >
+              <UserPlus className="h-4 w-4 mr-2" />
+              Enroll
+            </Button>
+          </div>
+        )}
+        {canSend && sequence.status !== "active" && (
+          <p className="text-sm text-muted-foreground">Activate the sequence to enroll contacts.</p>
+        )}
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading enrollments...</p>
+        ) : enrollments.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No one is enrolled yet.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Contact</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Step</TableHead>
+                <TableHead>Next step</TableHead>
+                {canSend && <TableHead />}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {enrollments.map((enrollment) => (
+                <TableRow key={enrollment.id}>
+                  <TableCell className="font-medium">{contactName(enrollment.contactId)}</TableCell>
+                  <TableCell>
+                    <Badge variant={statusVariants[enrollment.status] ?? "outline"}>{enrollment.status}</Badge>
+                    {enrollment.exitReason && (
+                      <div className="text-xs text-muted-foreground mt-1">
+                        {exitReasonLabels[enrollment.exitReason] ?? enrollment.exitReason}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {Math.min(enrollment.currentStep + 1, sequence.steps.length)} of {sequence.steps.length}
+                  </TableCell>
+                  <TableCell>
+                    {enrollment.nextRunAt && enrollment.status === "active"
+                      ? format(new Date(enrollment.nextRunAt), "MMM dd, HH:mm")
+                      : "—"}
+                  </TableCell>
+                  {canSend && (
+                    <TableCell className="text-right whitespace-nowrap">
+                      {enrollment.status === "active" && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => actionMutation.mutate({ id: enrollment.id, action: "pause" })}
+                        >
+                          <Pause className="h-4 w-4" />
+                        </Button>
+                      )}
+                      {enrollment.status === "paused" && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => actionMutation.mutate({ id: enrollment.id, action: "resume" })}
+                        >
+                          <Play className="h-4 w-4" />
+                        </Button>
+                      )}
+                      {(enrollment.status === "active" || enrollment.status === "paused") && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => actionMutation.mutate({ id: enrollment.id, action: "exit" })}
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
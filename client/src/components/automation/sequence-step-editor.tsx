@@ -0,0 +1,376 @@
+import { useRef, useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Trash2 } from "lucide-react";
+import {
+  campaignChannels,
+  isMessageChannel,
+  isUnsentChannel,
+  stepConditionOperators,
+  type ABTestConfig,
+  type CampaignChannel,
+  type CampaignStep,
+  type ContentVariant,
+  type StepCondition,
+  type StepFallbackAction,
+} from "@shared/campaigns";
+import type { CustomFieldDefinition } from "@shared/schema";
+
+export const channelLabels: Record<CampaignChannel, string> = {
+  email: "Email",
+  sms: "SMS",
+  whatsapp: "WhatsApp",
+  push: "Push",
+  task: "Task",
+  wait: "Wait",
+};
+
+const operatorLabels: Record<string, string> = {
+  equals: "equals",
+  not_equals: "does not equal",
+  greater_than: "is greater than",
+  less_than: "is less than",
+  contains: "contains",
+};
+
+const contactConditionFields = [
+  { value: "leadScore", label: "Lead score" },
+  { value: "leadStatus", label: "Lead status" },
+  { value: "source", label: "Source" },
+  { value: "company", label: "Company" },
+  { value: "position", label: "Position" },
+];
+
+const delayUnits = [
+  { value: "minutes", label: "minutes", minutes: 1 },
+  { value: "hours", label: "hours", minutes: 60 },
+  { value: "days", label: "days", minutes: 24 * 60 },
+];
+
+// The largest unit the delay is a whole number of
+const delayUnit = (delay: number) =>
+  [...delayUnits].reverse().find((unit) => delay > 0 && delay % unit.minutes === 0) ?? delayUnits[0];
+
+// Condition values are typed from what was entered, so "50" compares as a number
+const parseConditionValue = (value: string): StepCondition["value"] => {
+  if (value === "true" || value === "false") return value === "true";
+  return value.trim() !== "" && !isNaN(Number(value)) ? Number(value) : value;
+};
+
+interface SequenceStepEditorProps {
+  step: CampaignStep;
+  index: number;
+  steps: CampaignStep[];
+  mergeTags: string[];
+  customFields: CustomFieldDefinition[];
+  abTesting: ABTestConfig;
+  onChange: (step: CampaignStep) => void;
+}
+
+export default function SequenceStepEditor({ step, index, steps, mergeTags, customFields, abTesting, onChange }: SequenceStepEditorProps) {
+  const messageRef = useRef<HTMLTextAreaElement>(null);
+  // Kept per step editor, so a delay of 0 days doesn't fall back to minutes while typing
+  const [unit, setUnit] = useState(() => delayUnit(step.delay));
+  const conditions = step.conditions ?? [];
+  const laterSteps = steps.slice(index + 1);
+
+  const update = (changes: Partial<CampaignStep>) => onChange({ ...step, ...changes });
+  const updateContent = (changes: Partial<CampaignStep["content"]>) => update({ content: { ...step.content, ...changes } });
+
+  // Inserts the tag where the cursor is, or at the end when the message isn't focused
+  const insertMergeTag = (tag: string) => {
+    const message = step.content.message;
+    const position = messageRef.current?.selectionStart ?? message.length;
+    updateContent({ message: `${message.slice(0, position)}{{${tag}}}${message.slice(position)}` });
+  };
+
+  const updateCondition = (conditionIndex: number, changes: Partial<StepCondition>) => {
+    update({
+      conditions: conditions.map((condition, i) => (i === conditionIndex ? { ...condition, ...changes } : condition)),
+    });
+  };
+
+  // Changing the variants starts the test over, so a promoted winner no longer applies
+  const variants = step.content.abVariants ?? [];
+  const setVariants = (abVariants: ContentVariant[]) =>
+    updateContent({ abVariants: abVariants.length > 0 ? abVariants : undefined, abWinner: undefined });
+  const updateVariant = (variantIndex: number, changes: Partial<ContentVariant>) =>
+    setVariants(variants.map((variant, i) => (i === variantIndex ? { ...variant, ...changes } : variant)));
+
+  // New variants start from the step's content and split the weight evenly
+  const addVariant = () => {
+    const base = variants.length > 0 ? variants : [{ id: "A", weight: 0, subject: step.content.subject, message: step.content.message }];
+    const letters = Array.from({ length: 26 }, (_, i) => String.fromCharCode(65 + i));
+    const id = letters.find((letter) => !base.some((variant) => variant.id === letter)) ?? `V${base.length + 1}`;
+    const next = [...base, { id, weight: 0, subject: step.content.subject, message: step.content.message }];
+    const share = Math.floor(100 / next.length);
+    setVariants(next.map((variant, i) => ({ ...variant, weight: i === 0 ? 100 - share * (next.length - 1) : share })));
+  };
+
+  const conditionFields = [
+    ...contactConditionFields,
+    ...customFields.map((field) => ({ value: `custom.${field.key}`, label: field.label })),
+  ];
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label>Step type</Label>
+          <Select value={step.channel} onValueChange={(channel) => update({ channel: channel as CampaignChannel })}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {campaignChannels.filter((channel) => !isUnsentChannel(channel) || channel === step.channel).map((channel) => (
+                <SelectItem key={channel} value={channel}>
+                  {channelLabels[channel]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>{index === 0 ? "Wait after enrolling" : "Wait after the previous step"}</Label>
+          <div className="flex gap-2">
+            <Input
+              type="number"
+              min={0}
+              value={step.delay / unit.minutes}
+              onChange={(e) => update({ delay: Math.max(0, Math.round(Number(e.target.value) * unit.minutes)) })}
+            />
+            <Select
+              value={unit.value}
+              onValueChange={(value) => {
+                const next = delayUnits.find((candidate) => candidate.value === value) ?? delayUnits[0];
+                setUnit(next);
+                update({ delay: Math.round((step.delay / unit.minutes) * next.minutes) });
+              }}
+            >
+              <SelectTrigger className="w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {delayUnits.map((candidate) => (
+                  <SelectItem key={candidate.value} value={candidate.value}>
+                    {candidate.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      </div>
+
+      {step.channel !== "wait" && (
+        <>
+          {(step.channel === "email" || step.channel === "task") && (
+            <div className="space-y-2">
+              <Label>{step.channel === "email" ? "Subject" : "Task title"}</Label>
+              <Input
+                value={step.content.subject ?? ""}
+                onChange={(e) => updateContent({ subject: e.target.value })}
+                placeholder={step.channel === "email" ? "Welcome {{firstName}}" : "Call {{firstName}} about the demo"}
+              />
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label>{step.channel === "task" ? "Task description" : "Message"}</Label>
+            <Textarea
+              ref={messageRef}
+              rows={6}
+              value={step.content.message}
+              onChange={(e) => updateContent({ message: e.target.value })}
+            />
+            <div className="flex flex-wrap gap-1">
+              {mergeTags.map((tag) => (
+                <Badge key={tag} variant="outline" className="cursor-pointer" onClick={() => insertMergeTag(tag)}>
+                  {`{{${tag}}}`}
+                </Badge>
+              ))}
+            </div>
+          </div>
+
+          {isMessageChannel(step.channel) && (
+            <div className="flex items-center justify-between">
+              <div>
+                <Label>Send in preferred hours</Label>
+                <p className="text-xs text-muted-foreground">Moves the send into the sequence's preferred hours and days</p>
+              </div>
+              <Switch
+                checked={step.sendTimeOptimization}
+                onCheckedChange={(sendTimeOptimization) => update({ sendTimeOptimization })}
+              />
+            </div>
+          )}
+
+          {isMessageChannel(step.channel) && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <div>
+                  <Label>A/B variants</Label>
+                  <p className="text-xs text-muted-foreground">
+                    {abTesting.enabled
+                      ? "Each contact gets one variant, picked by weight"
+                      : "Turn on A/B testing for the sequence to send these"}
+                  </p>
+                </div>
+                <Button variant="ghost" size="sm" onClick={addVariant}>
+                  <Plus className="h-4 w-4 mr-1" />
+                  Variant
+                </Button>
+              </div>
+              {step.content.abWinner && (
+                <Badge>
+                  Variant {step.content.abWinner.variantId} won with {step.content.abWinner.confidence}% confidence
+                </Badge>
+              )}
+              {variants.map((variant, variantIndex) => (
+                <div key={variant.id} className="space-y-2 rounded-md border p-3">
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline">{variant.id}</Badge>
+                    <Input
+                      type="number"
+                      min={0}
+                      max={100}
+                      className="w-20"
+                      value={variant.weight}
+                      onChange={(e) => updateVariant(variantIndex, { weight: Math.max(0, Number(e.target.value)) })}
+                    />
+                    <span className="text-sm text-muted-foreground flex-1">% of contacts</span>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setVariants(variants.filter((_, i) => i !== variantIndex))}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  {step.channel === "email" && (
+                    <Input
+                      placeholder="Subject"
+                      value={variant.subject ?? ""}
+                      onChange={(e) => updateVariant(variantIndex, { subject: e.target.value })}
+                    />
+                  )}
+                  {abTesting.testType === "content" && (
+                    <Textarea
+                      rows={3}
+                      value={variant.message}
+                      onChange={(e) => updateVariant(variantIndex, { message: e.target.value })}
+                    />
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label>Only run when</Label>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => update({ conditions: [...conditions, { field: "leadScore", operator: "greater_than", value: 50 }] })}
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Condition
+          </Button>
+        </div>
+        {conditions.length === 0 && (
+          <p className="text-xs text-muted-foreground">Runs for every contact.</p>
+        )}
+        {conditions.map((condition, conditionIndex) => (
+          <div key={conditionIndex} className="flex gap-2">
+            <Select value={condition.field} onValueChange={(field) => updateCondition(conditionIndex, { field })}>
+              <SelectTrigger>
+                <SelectValue placeholder="Field" />
+              </SelectTrigger>
+              <SelectContent>
+                {conditionFields.map((field) => (
+                  <SelectItem key={field.value} value={field.value}>
+                    {field.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={condition.operator}
+              onValueChange={(operator) => updateCondition(conditionIndex, { operator: operator as StepCondition["operator"] })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {stepConditionOperators.map((operator) => (
+                  <SelectItem key={operator} value={operator}>
+                    {operatorLabels[operator]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              value={String(condition.value)}
+              onChange={(e) => updateCondition(conditionIndex, { value: parseConditionValue(e.target.value) })}
+            />
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => update({ conditions: conditions.filter((_, i) => i !== conditionIndex) })}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+
+        {conditions.length > 0 && (
+          <div className="flex items-center gap-2">
+            <span className="text-sm text-muted-foreground whitespace-nowrap">Otherwise</span>
+            <Select
+              value={step.otherwise?.action ?? "skip"}
+              onValueChange={(action) => update({
+                otherwise: action === "jump"
+                  ? { action, stepId: laterSteps[0]?.id }
+                  : { action: action as StepFallbackAction },
+              })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="skip">skip to the next step</SelectItem>
+                <SelectItem value="exit">remove the contact from the sequence</SelectItem>
+                <SelectItem value="jump" disabled={laterSteps.length === 0}>jump to a later step</SelectItem>
+              </SelectContent>
+            </Select>
+            {step.otherwise?.action === "jump" && (
+              <Select
+                value={step.otherwise.stepId}
+                onValueChange={(stepId) => update({ otherwise: { action: "jump", stepId } })}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Step" />
+                </SelectTrigger>
+                <SelectContent>
+                  {laterSteps.map((later, laterIndex) => (
+                    <SelectItem key={later.id} value={later.id}>
+                      Step {index + laterIndex + 2}: {channelLabels[later.channel]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
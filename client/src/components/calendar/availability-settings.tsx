@@ -0,0 +1,323 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { CalendarOff, Clock, Plus, Trash } from "lucide-react";
+import TimeZoneSelect from "./time-zone-select";
+import type { AvailabilityOverride } from "@shared/schema";
+import type { WeeklyHours, WorkingPeriod } from "@shared/availability";
+
+interface Availability {
+  timeZone: string;
+  weeklyHours: WeeklyHours;
+  holidayCalendarId: number | null;
+  saved: boolean;
+  overrides: AvailabilityOverride[];
+  holidayCalendars: { id: number; name: string; isDefault: boolean }[];
+}
+
+// Monday first, as most calendars show the week
+const weekdays = [
+  { day: 1, label: "Monday" },
+  { day: 2, label: "Tuesday" },
+  { day: 3, label: "Wednesday" },
+  { day: 4, label: "Thursday" },
+  { day: 5, label: "Friday" },
+  { day: 6, label: "Saturday" },
+  { day: 0, label: "Sunday" },
+];
+
+const NO_HOLIDAYS = "none";
+const defaultPeriod: WorkingPeriod = { start: "09:00", end: "17:00" };
+const browserTimeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+export default function AvailabilitySettings() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [timeZone, setTimeZone] = useState(browserTimeZone);
+  const [weeklyHours, setWeeklyHours] = useState<WeeklyHours>([]);
+  const [holidayCalendarId, setHolidayCalendarId] = useState<number | null>(null);
+  const [override, setOverride] = useState({ date: "", dayOff: true, start: "09:00", end: "12:00", reason: "" });
+
+  const { data: availability, isLoading } = useQuery<Availability>({
+    queryKey: ["/api/calendar/availability"],
+  });
+
+  useEffect(() => {
+    if (availability) {
+      // Until saved, suggest the browser's zone rather than UTC
+      setTimeZone(availability.saved ? availability.timeZone : browserTimeZone);
+      setWeeklyHours(availability.weeklyHours);
+      setHolidayCalendarId(availability.holidayCalendarId);
+    }
+  }, [availability]);
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ["/api/calendar/availability"] });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PUT", "/api/calendar/availability", { timeZone, weeklyHours, holidayCalendarId });
+      return response.json();
+    },
+    onSuccess: () => {
+      refresh();
+      toast({
+        title: "Availability saved",
+        description: "New meetings and your booking page follow these hours.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save availability",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const addOverrideMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/calendar/availability/overrides", {
+        date: override.date,
+        periods: override.dayOff ? [] : [{ start: override.start, end: override.end }],
+        reason: override.reason || null,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      refresh();
+      setOverride({ ...override, date: "", reason: "" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save date override",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const removeOverrideMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/calendar/availability/overrides/${id}`);
+    },
+    onSuccess: refresh,
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete date override",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const periodsOf = (day: number) => weeklyHours.filter((period) => period.day === day);
+
+  const setPeriods = (day: number, periods: WorkingPeriod[]) => {
+    setWeeklyHours([
+      ...weeklyHours.filter((period) => period.day !== day),
+      ...periods.map((period) => ({ ...period, day })),
+    ]);
+  };
+
+  const invalidPeriod = weeklyHours.some((period) => period.start >= period.end);
+
+  if (isLoading || !availability) {
+    return <p className="text-sm text-gray-500">Loading...</p>;
+  }
+
+  return (
+    <>
+      <Card className="mb-8">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Clock className="w-5 h-5" />
+            Working Hours
+          </CardTitle>
+          <CardDescription>
+            Meetings are only offered in these hours, in your time zone. Holidays from the calendar you follow are days off.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <Label>Time zone</Label>
+              <TimeZoneSelect value={timeZone} onChange={(zone) => zone && setTimeZone(zone)} className="mt-1" />
+              {!availability.saved && (
+                <p className="text-xs text-muted-foreground mt-1">Detected from your browser. Save to use it.</p>
+              )}
+            </div>
+            <div>
+              <Label>Holidays</Label>
+              <Select
+                value={holidayCalendarId ? String(holidayCalendarId) : NO_HOLIDAYS}
+                onValueChange={(value) => setHolidayCalendarId(value === NO_HOLIDAYS ? null : parseInt(value))}
+              >
+                <SelectTrigger className="mt-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_HOLIDAYS}>No holidays</SelectItem>
+                  {availability.holidayCalendars.map((calendar) => (
+                    <SelectItem key={calendar.id} value={String(calendar.id)}>
+                      {calendar.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            {weekdays.map(({ day, label }) => {
+              const periods = periodsOf(day);
+              return (
+                <div key={day} className="flex items-start gap-4">
+                  <div className="flex items-center gap-2 w-32 pt-2">
+                    <Checkbox
+                      id={`day-${day}`}
+                      checked={periods.length > 0}
+                      onCheckedChange={(checked) => setPeriods(day, checked ? [defaultPeriod] : [])}
+                    />
+                    <Label htmlFor={`day-${day}`}>{label}</Label>
+                  </div>
+                  {periods.length === 0 ? (
+                    <p className="text-sm text-muted-foreground pt-2">Unavailable</p>
+                  ) : (
+                    <div className="space-y-2">
+                      {periods.map((period, index) => (
+                        <div key={index} className="flex items-center gap-2">
+                          <Input
+                            type="time"
+                            value={period.start}
+                            onChange={(e) => setPeriods(day, periods.map((p, i) => (i === index ? { ...p, start: e.target.value } : p)))}
+                            className="w-32"
+                          />
+                          <span className="text-sm text-muted-foreground">to</span>
+                          <Input
+                            type="time"
+                            value={period.end}
+                            onChange={(e) => setPeriods(day, periods.map((p, i) => (i === index ? { ...p, end: e.target.value } : p)))}
+                            className="w-32"
+                          />
+                          {index === 0 ? (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setPeriods(day, [...periods, { start: "13:00", end: "17:00" }])}
+                              disabled={periods.length >= 3}
+                            >
+                              <Plus className="w-4 h-4" />
+                            </Button>
+                          ) : (
+                            <Button variant="ghost" size="sm" onClick={() => setPeriods(day, periods.filter((_, i) => i !== index))}>
+                              <Trash className="w-4 h-4" />
+                            </Button>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          {invalidPeriod && <p className="text-sm text-red-600">Each period must end after it starts.</p>}
+          <Button onClick={() => saveMutation.mutate()} disabled={invalidPeriod || saveMutation.isPending}>
+            {saveMutation.isPending ? "Saving..." : "Save Working Hours"}
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card className="mb-8">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <CalendarOff className="w-5 h-5" />
+            Date Overrides
+          </CardTitle>
+          <CardDescription>
+            Days off such as vacations, or different hours on a single day. An override wins over a holiday.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {availability.overrides.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No upcoming overrides.</p>
+          ) : (
+            <div className="space-y-2">
+              {availability.overrides.map((item) => (
+                <div key={item.id} className="flex items-center justify-between rounded-md border p-3">
+                  <div className="flex items-center gap-3">
+                    <span className="font-medium">{format(new Date(`${item.date}T00:00:00`), "EEE, MMM d, yyyy")}</span>
+                    {item.periods.length === 0 ? (
+                      <Badge variant="secondary">Day off</Badge>
+                    ) : (
+                      <Badge variant="outline">{item.periods.map((period) => `${period.start}-${period.end}`).join(", ")}</Badge>
+                    )}
+                    {item.reason && <span className="text-sm text-muted-foreground">{item.reason}</span>}
+                  </div>
+                  <Button variant="ghost" size="sm" onClick={() => removeOverrideMutation.mutate(item.id)}>
+                    <Trash className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+            <div>
+              <Label htmlFor="override-date">Date</Label>
+              <Input
+                id="override-date"
+                type="date"
+                value={override.date}
+                onChange={(e) => setOverride({ ...override, date: e.target.value })}
+                className="mt-1"
+              />
+            </div>
+            <div>
+              <div className="flex items-center gap-2 mb-2">
+                <Checkbox
+                  id="override-day-off"
+                  checked={override.dayOff}
+                  onCheckedChange={(checked) => setOverride({ ...override, dayOff: !!checked })}
+                />
+                <Label htmlFor="override-day-off">Day off</Label>
+              </div>
+              {!override.dayOff && (
+                <div className="flex items-center gap-1">
+                  <Input type="time" value={override.start} onChange={(e) => setOverride({ ...override, start: e.target.value })} />
+                  <Input type="time" value={override.end} onChange={(e) => setOverride({ ...override, end: e.target.value })} />
+                </div>
+              )}
+            </div>
+            <div>
+              <Label htmlFor="override-reason">Reason</Label>
+              <Input
+                id="override-reason"
+                value={override.reason}
+                onChange={(e) => setOverride({ ...override, reason: e.target.value })}
+                placeholder="Vacation"
+                className="mt-1"
+              />
+            </div>
+            <Button
+              onClick={() => addOverrideMutation.mutate()}
+              disabled={!override.date || (!override.dayOff && override.start >= override.end) || addOverrideMutation.isPending}
+            >
+              Add Override
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </>
+  );
+}
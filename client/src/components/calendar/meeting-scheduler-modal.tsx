@@ -12,8 +12,9 @@ import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { Calendar, Clock, Video, Phone, MapPin, Loader2, CheckCircle } from "lucide-react";
 import { z } from "zod";
-import type { Contact } from "@shared/schema";
+import type { BookingType, Contact } from "@shared/schema";
 import { format, addDays, startOfDay } from "date-fns";
+import { zonedParts, zonedTimeToUtc } from "@shared/availability";
 
 const meetingSchema = z.object({
   meetingType: z.enum(["call", "video", "in-person", "demo", "follow-up"]),
@@ -26,6 +27,19 @@ const meetingSchema = z.object({
 
 type MeetingFormData = z.infer<typeof meetingSchema>;
 
+interface Slot {
+  start: string;
+  end: string;
+  available: boolean;
+}
+
+// Dates offered to pick from, starting tomorrow
+const DAYS_OFFERED = 14;
+const SEARCH_DAYS = 28;
+
+// Quick Schedule books with you unless a team meeting type is picked
+const WITH_ME = "me";
+
 interface MeetingSchedulerModalProps {
   contact: Contact | null;
   open: boolean;
@@ -41,6 +55,7 @@ export default function MeetingSchedulerModal({
   const queryClient = useQueryClient();
   const [selectedDates, setSelectedDates] = useState<string[]>([]);
   const [selectedTimes, setSelectedTimes] = useState<string[]>([]);
+  const [quickHost, setQuickHost] = useState(WITH_ME);
 
   const form = useForm<MeetingFormData>({
     resolver: zodResolver(meetingSchema),
@@ -54,58 +69,70 @@ export default function MeetingSchedulerModal({
     },
   });
 
-  // Generate available time slots
-  const timeSlots = [
-    "09:00", "09:30", "10:00", "10:30", "11:00", "11:30",
-    "12:00", "12:30", "13:00", "13:30", "14:00", "14:30",
-    "15:00", "15:30", "16:00", "16:30", "17:00"
-  ];
+  // Your time zone; dates and times below are in it
+  const { data: availability } = useQuery<{ timeZone: string }>({
+    queryKey: ["/api/calendar/availability"],
+    enabled: open,
+  });
+  const timeZone = availability?.timeZone ?? "UTC";
 
-  // Generate next 14 business days
-  const generateBusinessDays = () => {
-    const days = [];
-    let current = addDays(new Date(), 1); // Start tomorrow
-    let added = 0;
-    
-    while (added < 14) {
-      const dayOfWeek = current.getDay();
-      if (dayOfWeek !== 0 && dayOfWeek !== 6) { // Skip weekends
-        days.push({
-          date: format(current, 'yyyy-MM-dd'),
-          label: format(current, 'EEE, MMM d')
-        });
-        added++;
-      }
-      current = addDays(current, 1);
-    }
-    return days;
-  };
+  const { data: teamTypes = [] } = useQuery<BookingType[]>({
+    queryKey: ["/api/calendar/team-meeting-types"],
+    enabled: open,
+  });
+
+  // Free slots in your working hours, skipping your days off and holidays
+  const duration = form.watch("duration");
+  const from = startOfDay(addDays(new Date(), 1));
+  const slotsUrl = `/api/calendar/available-slots?startDate=${from.toISOString()}&endDate=${addDays(from, SEARCH_DAYS).toISOString()}&duration=${duration}`;
+  const { data: slots = [], isLoading: slotsLoading } = useQuery<Slot[]>({
+    queryKey: [slotsUrl],
+    enabled: open && !!availability,
+  });
+
+  const freeSlots = slots
+    .filter((slot) => slot.available)
+    .map((slot) => ({ start: slot.start, ...zonedParts(new Date(slot.start), timeZone) }));
+  const businessDays = Array.from(new Set(freeSlots.map((slot) => slot.date)))
+    .slice(0, DAYS_OFFERED)
+    .map((date) => ({ date, label: format(new Date(`${date}T00:00:00`), "EEE, MMM d") }));
+  const timeSlots = Array.from(new Set(
+    freeSlots
+      .filter((slot) => selectedDates.length === 0 ? businessDays.some((day) => day.date === slot.date) : selectedDates.includes(slot.date))
+      .map((slot) => slot.time)
+  )).sort();
 
-  const businessDays = generateBusinessDays();
+  // The selected times that are free on the selected dates
+  const proposedTimes = freeSlots
+    .filter((slot) => selectedDates.includes(slot.date) && selectedTimes.includes(slot.time))
+    .map((slot) => slot.start);
+
+  // What a time here is for the contact, on the first selected date
+  const contactTimeZone = contact?.timeZone && contact.timeZone !== timeZone ? contact.timeZone : null;
+  const contactTime = (time: string) => {
+    const date = selectedDates[0] ?? businessDays[0]?.date;
+    if (!contactTimeZone || !date) return null;
+    return zonedParts(zonedTimeToUtc(date, time, timeZone), contactTimeZone).time;
+  };
 
   const scheduleMeetingMutation = useMutation({
     mutationFn: async (data: MeetingFormData) => {
       if (!contact) throw new Error("Contact is required");
-      
-      // Convert selected dates and times to proposed time slots
-      const proposedTimes: string[] = [];
-      data.preferredDates.forEach(date => {
-        data.preferredTimes.forEach(time => {
-          proposedTimes.push(`${date}T${time}:00.000Z`);
-        });
-      });
 
-      return await apiRequest("POST", "/api/calendar/schedule-meeting", {
+      const response = await apiRequest("POST", "/api/calendar/schedule-meeting", {
         contactId: contact.id,
         proposedTimes,
         meetingType: data.meetingType,
         duration: data.duration,
         description: data.description || `${data.meetingType} meeting with ${contact.firstName} ${contact.lastName}`
       });
+      return response.json();
     },
     onSuccess: (response: any) => {
       queryClient.invalidateQueries({ queryKey: ["/api/contacts"] });
       queryClient.invalidateQueries({ queryKey: ["/api/calendar/upcoming-meetings"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/contacts/${contact?.id}/meetings`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
       
       toast({
         title: "Meeting scheduled successfully",
@@ -129,14 +156,18 @@ export default function MeetingSchedulerModal({
     mutationFn: async (urgency: "high" | "medium" | "low") => {
       if (!contact) throw new Error("Contact is required");
       
-      return await apiRequest("POST", "/api/calendar/auto-schedule-follow-up", {
+      const response = await apiRequest("POST", "/api/calendar/auto-schedule-follow-up", {
         contactId: contact.id,
-        urgency
+        urgency,
+        bookingTypeId: quickHost === WITH_ME ? null : parseInt(quickHost),
       });
+      return response.json();
     },
     onSuccess: (response: any) => {
       queryClient.invalidateQueries({ queryKey: ["/api/contacts"] });
       queryClient.invalidateQueries({ queryKey: ["/api/calendar/upcoming-meetings"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/contacts/${contact?.id}/meetings`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
       
       toast({
         title: "Meeting auto-scheduled",
@@ -215,6 +246,21 @@ export default function MeetingSchedulerModal({
             <p className="text-sm text-blue-700 dark:text-blue-300 mb-3">
               Let our system automatically find the best available time slot
             </p>
+            {teamTypes.length > 0 && (
+              <Select value={quickHost} onValueChange={setQuickHost}>
+                <SelectTrigger className="mb-3 bg-white dark:bg-transparent">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={WITH_ME}>With me</SelectItem>
+                  {teamTypes.map((type) => (
+                    <SelectItem key={type.id} value={String(type.id)}>
+                      {type.name} ({type.hostMode === "collective" ? "everyone together" : "round robin"}, {type.duration} min)
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
             <div className="flex gap-2">
               <Button
                 variant="outline"
@@ -368,6 +414,14 @@ export default function MeetingSchedulerModal({
               {/* Date Selection */}
               <div className="space-y-3">
                 <FormLabel>Preferred Dates</FormLabel>
+                <p className="text-xs text-muted-foreground">
+                  Days you have free time, in your time zone ({timeZone})
+                </p>
+                {slotsLoading ? (
+                  <p className="text-sm text-muted-foreground">Finding your free times...</p>
+                ) : businessDays.length === 0 && (
+                  <p className="text-sm text-muted-foreground">No free times in the next {SEARCH_DAYS} days. Check your working hours on My Calendar.</p>
+                )}
                 <div className="grid grid-cols-2 sm:grid-cols-3 gap-2 max-h-32 overflow-y-auto">
                   {businessDays.map((day) => (
                     <Button
@@ -393,6 +447,11 @@ export default function MeetingSchedulerModal({
               {/* Time Selection */}
               <div className="space-y-3">
                 <FormLabel>Preferred Times</FormLabel>
+                {contactTimeZone && (
+                  <p className="text-xs text-muted-foreground">
+                    {contact?.firstName}'s local time ({contactTimeZone}) is shown below each time
+                  </p>
+                )}
                 <div className="grid grid-cols-4 sm:grid-cols-6 gap-2 max-h-32 overflow-y-auto">
                   {timeSlots.map((time) => (
                     <Button
@@ -407,11 +466,15 @@ export default function MeetingSchedulerModal({
                         <CheckCircle className="w-3 h-3 mr-1" />
                       )}
                       {time}
+                      {contactTime(time) && (
+                        <span className="ml-1 opacity-70">/ {contactTime(time)}</span>
+                      )}
                     </Button>
                   ))}
                 </div>
                 <p className="text-xs text-muted-foreground">
                   {selectedTimes.length} time(s) selected
+                  {selectedDates.length > 0 && selectedTimes.length > 0 && ` • ${proposedTimes.length} free slot(s) to try`}
                 </p>
               </div>
 
@@ -421,7 +484,7 @@ export default function MeetingSchedulerModal({
                 </Button>
                 <Button 
                   type="submit" 
-                  disabled={scheduleMeetingMutation.isPending || selectedDates.length === 0 || selectedTimes.length === 0}
+                  disabled={scheduleMeetingMutation.isPending || proposedTimes.length === 0}
                   className="bg-green-600 hover:bg-green-700"
                 >
                   {scheduleMeetingMutation.isPending ? (
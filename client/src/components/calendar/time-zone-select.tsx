@@ -0,0 +1,35 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+// Every IANA zone the browser knows, for example "Asia/Jakarta"
+const timeZones = Intl.supportedValuesOf("timeZone");
+
+const NOT_SET = "none";
+
+interface TimeZoneSelectProps {
+  value: string | null | undefined;
+  onChange: (timeZone: string | null) => void;
+  // Offers "Not set" for optional zones such as a contact's
+  allowNone?: boolean;
+  className?: string;
+}
+
+export default function TimeZoneSelect({ value, onChange, allowNone, className }: TimeZoneSelectProps) {
+  // UTC isn't always in the browser's list
+  const options = value && !timeZones.includes(value) ? [value, ...timeZones] : timeZones;
+
+  return (
+    <Select value={value || NOT_SET} onValueChange={(zone) => onChange(zone === NOT_SET ? null : zone)}>
+      <SelectTrigger className={className}>
+        <SelectValue placeholder="Select time zone" />
+      </SelectTrigger>
+      <SelectContent className="max-h-72">
+        {allowNone && <SelectItem value={NOT_SET}>Not set</SelectItem>}
+        {options.map((zone) => (
+          <SelectItem key={zone} value={zone}>
+            {zone.replace(/_/g, " ")}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -6,6 +6,7 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import CustomFieldInputs from "@/components/custom-fields/custom-field-inputs";
 import { insertContactSchema, type Contact, type InsertContact } from "@shared/schema";
 
 interface ContactFormProps {
@@ -36,6 +37,7 @@ export default function ContactForm({
       leadStatus: "new",
       source: "",
       notes: "",
+      customFields: {},
     },
   });
 
@@ -53,6 +55,7 @@ export default function ContactForm({
         leadStatus: contact.leadStatus || "new",
         source: contact.source || "",
         notes: contact.notes || "",
+        customFields: contact.customFields || {},
       });
     }
   }, [contact, form]);
@@ -213,6 +216,13 @@ export default function ContactForm({
         </div>
       </div>
 
+      {/* Custom Fields */}
+      <CustomFieldInputs
+        entityType="contact"
+        values={form.watch("customFields") || {}}
+        onChange={(values) => form.setValue("customFields", values)}
+      />
+
       {/* Additional Notes */}
       <div>
         <Label htmlFor="notes">Notes</Label>
@@ -3,12 +3,13 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
-import { MoreHorizontal, Mail, Phone, Edit, Trash, Calendar, Send } from "lucide-react";
+import { MoreHorizontal, Mail, Phone, Edit, Trash, Calendar, Send, Clock } from "lucide-react";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { Contact } from "@shared/schema";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/usePermissions";
 import EditContactModal from "@/components/modals/edit-contact-modal";
 import EmailComposeModal from "@/components/email/email-compose-modal";
 import MeetingSchedulerModal from "@/components/calendar/meeting-scheduler-modal";
@@ -24,6 +25,7 @@ interface ContactListProps {
 export default function ContactList({ contacts, isLoading, onContactClick, selectedContactId }: ContactListProps) {
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const { can } = usePermissions();
   const [editContact, setEditContact] = useState<Contact | null>(null);
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
   const [emailContact, setEmailContact] = useState<Contact | null>(null);
@@ -188,6 +190,12 @@ export default function ContactList({ contacts, isLoading, onContactClick, selec
                       <div className="text-sm text-gray-500 dark:text-muted-foreground">
                         {contact.email}
                       </div>
+                      {contact.timeZone && (
+                        <div className="text-xs text-gray-500 dark:text-muted-foreground flex items-center gap-1" title={contact.timeZone}>
+                          <Clock className="w-3 h-3" />
+                          {new Date().toLocaleTimeString("en-US", { timeStyle: "short", timeZone: contact.timeZone })} local time
+                        </div>
+                      )}
                     </div>
                   </div>
                 </TableCell>
@@ -206,6 +214,13 @@ export default function ContactList({ contacts, isLoading, onContactClick, selec
                 </TableCell>
                 <TableCell>
                   <span className="font-medium">{contact.leadScore || 0}</span>
+                  {contact.emailEngagement?.sent ? (
+                    <div className="text-xs text-gray-500 dark:text-muted-foreground">
+                      {contact.emailEngagement.opened}/{contact.emailEngagement.sent} opened
+                      {contact.emailEngagement.clicked > 0 && `, ${contact.emailEngagement.clicked} clicked`}
+                      {contact.emailEngagement.bounced > 0 && ", bounced"}
+                    </div>
+                  ) : null}
                 </TableCell>
                 <TableCell>
                   {formatDate(contact.lastContactDate)}
@@ -234,13 +249,15 @@ export default function ContactList({ contacts, isLoading, onContactClick, selec
                         <Phone className="h-4 w-4 mr-2" />
                         Call
                       </DropdownMenuItem>
-                      <DropdownMenuItem
-                        className="text-destructive"
-                        onClick={(e) => handleDelete(contact.id, e)}
-                      >
-                        <Trash className="h-4 w-4 mr-2" />
-                        Delete
-                      </DropdownMenuItem>
+                      {can("contacts:delete") && (
+                        <DropdownMenuItem
+                          className="text-destructive"
+                          onClick={(e) => handleDelete(contact.id, e)}
+                        >
+                          <Trash className="h-4 w-4 mr-2" />
+                          Delete
+                        </DropdownMenuItem>
+                      )}
                     </DropdownMenuContent>
                   </DropdownMenu>
                 </TableCell>
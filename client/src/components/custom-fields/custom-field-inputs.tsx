@@ -0,0 +1,128 @@
+import { useQuery } from "@tanstack/react-query";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { CustomFieldDefinition, CustomFieldValue, CustomFieldValues } from "@shared/schema";
+
+interface CustomFieldInputsProps {
+  entityType: "contact" | "deal";
+  values: CustomFieldValues;
+  onChange: (values: CustomFieldValues) => void;
+}
+
+export default function CustomFieldInputs({ entityType, values, onChange }: CustomFieldInputsProps) {
+  const { data: definitions = [] } = useQuery<CustomFieldDefinition[]>({
+    queryKey: ["/api/custom-fields"],
+  });
+
+  const fields = definitions.filter((definition) => definition.entityType === entityType);
+
+  if (fields.length === 0) {
+    return null;
+  }
+
+  const setValue = (key: string, value: CustomFieldValue) => {
+    onChange({ ...values, [key]: value });
+  };
+
+  const renderInput = (definition: CustomFieldDefinition) => {
+    const value = values[definition.key];
+    const id = `custom-${definition.key}`;
+
+    switch (definition.fieldType) {
+      case "number":
+        return (
+          <Input
+            id={id}
+            type="number"
+            value={typeof value === "number" ? value : ""}
+            onChange={(e) => setValue(definition.key, e.target.value === "" ? null : Number(e.target.value))}
+            className="mt-1"
+          />
+        );
+      case "date":
+        return (
+          <Input
+            id={id}
+            type="date"
+            value={typeof value === "string" ? value : ""}
+            onChange={(e) => setValue(definition.key, e.target.value || null)}
+            className="mt-1"
+          />
+        );
+      case "boolean":
+        return (
+          <div className="mt-2">
+            <Switch
+              id={id}
+              checked={value === true}
+              onCheckedChange={(checked) => setValue(definition.key, checked)}
+            />
+          </div>
+        );
+      case "select":
+        return (
+          <Select
+            value={typeof value === "string" ? value : ""}
+            onValueChange={(selected) => setValue(definition.key, selected)}
+          >
+            <SelectTrigger id={id} className="mt-1">
+              <SelectValue placeholder={`Select ${definition.label.toLowerCase()}`} />
+            </SelectTrigger>
+            <SelectContent>
+              {(definition.options ?? []).map((option) => (
+                <SelectItem key={option} value={option}>
+                  {option}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        );
+      case "multi-select": {
+        const selected = Array.isArray(value) ? value : [];
+        return (
+          <div className="mt-2 flex flex-wrap gap-4">
+            {(definition.options ?? []).map((option) => (
+              <label key={option} className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={selected.includes(option)}
+                  onCheckedChange={(checked) =>
+                    setValue(
+                      definition.key,
+                      checked ? [...selected, option] : selected.filter((item) => item !== option)
+                    )
+                  }
+                />
+                {option}
+              </label>
+            ))}
+          </div>
+        );
+      }
+      default:
+        return (
+          <Input
+            id={id}
+            value={typeof value === "string" ? value : ""}
+            onChange={(e) => setValue(definition.key, e.target.value)}
+            className="mt-1"
+          />
+        );
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      {fields.map((definition) => (
+        <div key={definition.id}>
+          <Label htmlFor={`custom-${definition.key}`}>
+            {definition.label}{definition.isRequired ? " *" : ""}
+          </Label>
+          {renderInput(definition)}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -7,6 +7,7 @@ import { Progress } from "@/components/ui/progress";
 import { Brain, Zap, TrendingUp, MessageSquare, Target, Sparkles } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
+import { useJob } from "@/hooks/useJob";
 
 interface AIInsight {
   contactId: number;
@@ -24,36 +25,38 @@ interface FollowUpRecommendation {
 }
 
 export default function AIAutomationPanel() {
-  const [isProcessing, setIsProcessing] = useState(false);
+  const [isStarting, setIsStarting] = useState(false);
+  const [scoringJobId, setScoringJobId] = useState<number | null>(null);
   const [insights, setInsights] = useState<AIInsight[]>([]);
-  const [progress, setProgress] = useState(0);
   const { toast } = useToast();
 
+  const scoringJob = useJob(scoringJobId, (job) => {
+    if (job.status === "completed") {
+      setInsights(job.result?.results || []);
+      toast({
+        title: "AI Scoring Complete",
+        description: `Updated scores for ${job.result?.processed ?? 0} contacts`,
+      });
+    } else {
+      toast({
+        title: "AI Scoring Failed",
+        description: job.lastError || "Please configure DeepSeek API key for AI features",
+        variant: "destructive",
+      });
+    }
+  });
+  const isProcessing = isStarting || scoringJob.isRunning;
+  const progress = scoringJob.progress;
+
+  // Scoring runs as a background job; its progress is polled by useJob
   const runAILeadScoring = async () => {
-    setIsProcessing(true);
-    setProgress(0);
+    setIsStarting(true);
     setInsights([]);
 
     try {
-      const response = await fetch("/api/ai/auto-score-all-leads", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json"
-        }
-      });
-
-      if (response.ok) {
-        const data = await response.json();
-        setInsights(data.results || []);
-        setProgress(100);
-        
-        toast({
-          title: "AI Scoring Complete",
-          description: `Updated scores for ${data.processed} contacts`,
-        });
-      } else {
-        throw new Error("AI service unavailable");
-      }
+      const response = await apiRequest("POST", "/api/ai/auto-score-all-leads");
+      const job = await response.json();
+      setScoringJobId(job.id);
     } catch (error) {
       toast({
         title: "AI Service Required",
@@ -61,7 +64,7 @@ export default function AIAutomationPanel() {
         variant: "destructive",
       });
     } finally {
-      setIsProcessing(false);
+      setIsStarting(false);
     }
   };
 
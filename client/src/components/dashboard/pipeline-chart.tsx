@@ -1,11 +1,11 @@
 import { PieChart, Pie, Cell, ResponsiveContainer, Legend, Tooltip } from "recharts";
+import { stageColor } from "@/hooks/usePipelines";
+import type { StageOutcome } from "@shared/schema";
 
+// Deal counts per stage of the organization's default pipeline
 interface PipelineData {
-  prospecting: number;
-  qualified: number;
-  proposal: number;
-  negotiation: number;
-  closedWon: number;
+  name: string;
+  stages: { id: number; name: string; outcome: StageOutcome; count: number }[];
 }
 
 interface PipelineChartProps {
@@ -26,18 +26,16 @@ export default function PipelineChart({ data }: PipelineChartProps) {
     );
   }
 
-  const chartData = [
-    { name: "Prospecting", value: data.prospecting, color: "#E5E7EB" },
-    { name: "Qualified", value: data.qualified, color: "#FEF3C7" },
-    { name: "Proposal", value: data.proposal, color: "#DBEAFE" },
-    { name: "Negotiation", value: data.negotiation, color: "#F3E8FF" },
-    { name: "Closed Won", value: data.closedWon, color: "#D1FAE5" },
-  ];
+  const chartData = data.stages.map((stage, index) => ({
+    name: stage.name,
+    value: stage.count,
+    color: stageColor(stage, index).chart,
+  }));
 
   return (
     <div className="bg-white dark:bg-card p-6 rounded-xl shadow-sm border border-gray-200 dark:border-border">
       <div className="flex items-center justify-between mb-6">
-        <h3 className="text-lg font-semibold text-gray-900 dark:text-foreground">Sales Pipeline</h3>
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-foreground">{data.name}</h3>
         <button className="text-sm text-primary hover:text-primary/80">
           View Details
         </button>
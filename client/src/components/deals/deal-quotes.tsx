@@ -0,0 +1,147 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Download, ExternalLink, FileText, Send } from "lucide-react";
+import type { Quote } from "@shared/schema";
+
+interface DealQuotesProps {
+  dealId: number;
+}
+
+const formatCurrency = (amount: string) =>
+  new Intl.NumberFormat("en-US", { style: "currency", currency: "USD" }).format(parseFloat(amount));
+
+export default function DealQuotes({ dealId }: DealQuotesProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [expiresAt, setExpiresAt] = useState("");
+  const [terms, setTerms] = useState("");
+
+  const { data: quotes = [], isLoading } = useQuery<Quote[]>({
+    queryKey: [`/api/deals/${dealId}/quotes`],
+  });
+
+  const createQuoteMutation = useMutation({
+    // Leaving expiry or terms empty uses the server defaults
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/deals/${dealId}/quotes`, {
+        expiresAt: expiresAt || undefined,
+        terms: terms.trim() || undefined,
+      });
+      return response.json();
+    },
+    onSuccess: (quote: Quote) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/deals/${dealId}/quotes`] });
+      toast({
+        title: "Quote generated",
+        description: `${quote.quoteNumber} version ${quote.version} is ready.`,
+      });
+      setExpiresAt("");
+      setTerms("");
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to generate quote",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const sendQuoteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest("POST", `/api/quotes/${id}/send`, {});
+      return response.json();
+    },
+    onSuccess: (quote: Quote) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/deals/${dealId}/quotes`] });
+      toast({
+        title: "Quote sent",
+        description: `${quote.quoteNumber} was emailed to ${quote.sentTo}.`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to send quote",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-3">
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Loading quotes...</p>
+      ) : quotes.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No quotes generated yet.</p>
+      ) : (
+        <div className="space-y-2">
+          {quotes.map((quote) => (
+            <div key={quote.id} className="flex items-center justify-between p-2 border rounded-md text-sm">
+              <div>
+                <div className="font-medium flex items-center gap-2">
+                  <FileText className="h-4 w-4" />
+                  {quote.quoteNumber} v{quote.version}
+                  <Badge variant={quote.status === "sent" ? "default" : "outline"}>
+                    {quote.status === "sent" ? "Sent" : "Draft"}
+                  </Badge>
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  {formatCurrency(quote.total)} • Valid until {format(new Date(quote.expiresAt), "MMM dd, yyyy")}
+                  {quote.sentAt && ` • Sent ${format(new Date(quote.sentAt), "MMM dd")} to ${quote.sentTo}`}
+                </div>
+              </div>
+              <div className="flex items-center">
+                <Button variant="ghost" size="sm" asChild>
+                  <a href={`/api/quotes/${quote.id}/html`} target="_blank" rel="noreferrer">
+                    <ExternalLink className="h-4 w-4" />
+                  </a>
+                </Button>
+                <Button variant="ghost" size="sm" asChild>
+                  <a href={`/api/quotes/${quote.id}/pdf`}>
+                    <Download className="h-4 w-4" />
+                  </a>
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  disabled={sendQuoteMutation.isPending}
+                  onClick={() => sendQuoteMutation.mutate(quote.id)}
+                >
+                  <Send className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="grid grid-cols-3 gap-2 items-end">
+        <div>
+          <Label htmlFor={`quote-expiry-${dealId}`} className="text-xs">Valid until</Label>
+          <Input id={`quote-expiry-${dealId}`} type="date" value={expiresAt} onChange={(e) => setExpiresAt(e.target.value)} />
+        </div>
+        <div className="col-span-2 flex justify-end">
+          <Button variant="outline" size="sm" onClick={() => createQuoteMutation.mutate()} disabled={createQuoteMutation.isPending}>
+            <FileText className="h-4 w-4 mr-2" />
+            {createQuoteMutation.isPending ? "Generating..." : quotes.length ? "New Version" : "Generate Quote"}
+          </Button>
+        </div>
+      </div>
+      <Textarea
+        placeholder="Terms (leave empty for the standard terms)"
+        value={terms}
+        onChange={(e) => setTerms(e.target.value)}
+        rows={2}
+      />
+    </div>
+  );
+}
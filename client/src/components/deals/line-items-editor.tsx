@@ -0,0 +1,198 @@
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Trash } from "lucide-react";
+import { calculateLine, calculateTotals, type LinePricing } from "@shared/pricing";
+import type { DealLineItem, DealLineItemInput, Product } from "@shared/schema";
+
+// Inputs stay strings while editing so partly typed numbers aren't lost
+export interface LineItemDraft {
+  productId: number | null;
+  name: string;
+  quantity: string;
+  unitPrice: string;
+  discount: string;
+  taxRate: string;
+}
+
+interface LineItemsEditorProps {
+  value: LineItemDraft[];
+  onChange: (lines: LineItemDraft[]) => void;
+}
+
+const CUSTOM_ITEM = "custom";
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat("en-US", { style: "currency", currency: "USD" }).format(amount);
+
+const toPricing = (line: LineItemDraft): LinePricing => ({
+  quantity: parseFloat(line.quantity) || 0,
+  unitPrice: parseFloat(line.unitPrice) || 0,
+  discount: parseFloat(line.discount) || 0,
+  taxRate: parseFloat(line.taxRate) || 0,
+});
+
+export function fromLineItems(lineItems: DealLineItem[]): LineItemDraft[] {
+  return lineItems.map((line) => ({
+    productId: line.productId,
+    name: line.name,
+    quantity: String(parseFloat(line.quantity)),
+    unitPrice: line.unitPrice,
+    discount: String(parseFloat(line.discount)),
+    taxRate: String(parseFloat(line.taxRate)),
+  }));
+}
+
+export function toLineItemInputs(lines: LineItemDraft[]): DealLineItemInput[] {
+  return lines.map((line) => ({ ...toPricing(line), productId: line.productId, name: line.name }));
+}
+
+// What the deal will be worth once saved: line amounts after discount, before tax
+export function lineItemsValue(lines: LineItemDraft[]): number {
+  return calculateTotals(lines.map(toPricing)).amount;
+}
+
+export default function LineItemsEditor({ value, onChange }: LineItemsEditorProps) {
+  const { data: products = [] } = useQuery<Product[]>({
+    queryKey: ["/api/products"],
+  });
+
+  const activeProducts = products.filter((product) => product.isActive);
+  const totals = calculateTotals(value.map(toPricing));
+
+  const updateLine = (index: number, changes: Partial<LineItemDraft>) => {
+    onChange(value.map((line, lineIndex) => (lineIndex === index ? { ...line, ...changes } : line)));
+  };
+
+  const selectProduct = (index: number, selected: string) => {
+    const product = products.find((candidate) => String(candidate.id) === selected);
+    updateLine(
+      index,
+      product
+        ? { productId: product.id, name: product.name, unitPrice: product.unitPrice, taxRate: String(parseFloat(product.taxRate)) }
+        : { productId: null }
+    );
+  };
+
+  const addLine = () => {
+    onChange([...value, { productId: null, name: "", quantity: "1", unitPrice: "", discount: "0", taxRate: "0" }]);
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label>Line Items</Label>
+      {value.length > 0 && (
+        <div className="grid grid-cols-12 gap-2 text-xs font-medium text-muted-foreground">
+          <span className="col-span-4">Product</span>
+          <span className="col-span-2">Qty</span>
+          <span className="col-span-2">Price</span>
+          <span className="col-span-1">Disc %</span>
+          <span className="col-span-1">Tax %</span>
+          <span className="col-span-2 text-right">Amount</span>
+        </div>
+      )}
+      {value.map((line, index) => (
+        <div key={index} className="grid grid-cols-12 gap-2 items-center">
+          <div className="col-span-4 space-y-1">
+            <Select value={line.productId ? String(line.productId) : CUSTOM_ITEM} onValueChange={(selected) => selectProduct(index, selected)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={CUSTOM_ITEM}>Custom item</SelectItem>
+                {/* Archived products stay selectable on lines that already use them */}
+                {products
+                  .filter((product) => product.isActive || product.id === line.productId)
+                  .map((product) => (
+                    <SelectItem key={product.id} value={String(product.id)}>
+                      {product.name}
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+            {!line.productId && (
+              <Input placeholder="Item name" value={line.name} onChange={(e) => updateLine(index, { name: e.target.value })} />
+            )}
+          </div>
+          <Input
+            className="col-span-2"
+            type="number"
+            min="0"
+            step="any"
+            value={line.quantity}
+            onChange={(e) => updateLine(index, { quantity: e.target.value })}
+          />
+          <Input
+            className="col-span-2"
+            type="number"
+            min="0"
+            step="0.01"
+            value={line.unitPrice}
+            onChange={(e) => updateLine(index, { unitPrice: e.target.value })}
+          />
+          <Input
+            className="col-span-1 px-2"
+            type="number"
+            min="0"
+            max="100"
+            value={line.discount}
+            onChange={(e) => updateLine(index, { discount: e.target.value })}
+          />
+          <Input
+            className="col-span-1 px-2"
+            type="number"
+            min="0"
+            max="100"
+            value={line.taxRate}
+            onChange={(e) => updateLine(index, { taxRate: e.target.value })}
+          />
+          <div className="col-span-2 flex items-center justify-end gap-1 text-sm">
+            {formatCurrency(calculateLine(toPricing(line)).amount)}
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              className="h-6 w-6 p-0"
+              onClick={() => onChange(value.filter((_, lineIndex) => lineIndex !== index))}
+            >
+              <Trash className="h-3 w-3" />
+            </Button>
+          </div>
+        </div>
+      ))}
+      <div className="flex items-center justify-between">
+        <Button type="button" variant="outline" size="sm" onClick={addLine}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Line
+        </Button>
+        {activeProducts.length === 0 && value.length === 0 && (
+          <span className="text-xs text-muted-foreground">No products in the price book yet</span>
+        )}
+      </div>
+      {value.length > 0 && (
+        <div className="text-sm space-y-1 border-t pt-2">
+          {totals.discountAmount > 0 && (
+            <div className="flex justify-between text-muted-foreground">
+              <span>Discounts</span>
+              <span>-{formatCurrency(totals.discountAmount)}</span>
+            </div>
+          )}
+          <div className="flex justify-between font-medium">
+            <span>Deal value</span>
+            <span>{formatCurrency(totals.amount)}</span>
+          </div>
+          {totals.taxAmount > 0 && (
+            <div className="flex justify-between text-muted-foreground">
+              <span>Tax / total incl. tax</span>
+              <span>
+                {formatCurrency(totals.taxAmount)} / {formatCurrency(totals.total)}
+              </span>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,33 @@
+import { useQuery } from "@tanstack/react-query";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { User } from "@shared/schema";
+
+interface OwnerSelectProps {
+  value: string | null | undefined;
+  onChange: (ownerId: string) => void;
+  placeholder?: string;
+}
+
+export const memberName = (member: Pick<User, "firstName" | "lastName" | "email">) =>
+  `${member.firstName ?? ""} ${member.lastName ?? ""}`.trim() || member.email || "Unknown user";
+
+export default function OwnerSelect({ value, onChange, placeholder = "Select owner" }: OwnerSelectProps) {
+  const { data: members = [] } = useQuery<User[]>({
+    queryKey: ["/api/team/members"],
+  });
+
+  return (
+    <Select value={value ?? undefined} onValueChange={onChange}>
+      <SelectTrigger>
+        <SelectValue placeholder={placeholder} />
+      </SelectTrigger>
+      <SelectContent>
+        {members.map((member) => (
+          <SelectItem key={member.id} value={member.id}>
+            {memberName(member)}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
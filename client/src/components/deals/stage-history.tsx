@@ -0,0 +1,68 @@
+import { useQuery } from "@tanstack/react-query";
+import { format, formatDistanceStrict } from "date-fns";
+import { ArrowRight } from "lucide-react";
+import type { DealStageTransition } from "@shared/schema";
+
+interface StageHistoryEntry extends DealStageTransition {
+  user: { id: string; email: string | null; firstName: string | null; lastName: string | null } | null;
+}
+
+interface StageHistoryProps {
+  dealId: number;
+}
+
+const formatValue = (value: string | null) =>
+  value === null
+    ? null
+    : new Intl.NumberFormat("en-US", { style: "currency", currency: "USD", minimumFractionDigits: 0 }).format(parseFloat(value));
+
+export default function StageHistory({ dealId }: StageHistoryProps) {
+  const { data: history = [], isLoading } = useQuery<StageHistoryEntry[]>({
+    queryKey: [`/api/deals/${dealId}/stage-history`],
+  });
+
+  if (isLoading) {
+    return <p className="text-sm text-muted-foreground">Loading stage history...</p>;
+  }
+
+  if (history.length === 0) {
+    return <p className="text-sm text-muted-foreground">No stage changes recorded yet.</p>;
+  }
+
+  return (
+    <ol className="space-y-3 border-l pl-4">
+      {history.map((entry, index) => {
+        const next = history[index + 1];
+        const enteredAt = new Date(entry.createdAt ?? 0);
+        const leftAt = next ? new Date(next.createdAt ?? 0) : new Date();
+        const userName = entry.user
+          ? `${entry.user.firstName ?? ""} ${entry.user.lastName ?? ""}`.trim() || entry.user.email
+          : null;
+
+        return (
+          <li key={entry.id} className="text-sm">
+            <div className="flex items-center gap-1 font-medium">
+              {entry.fromStageName ? (
+                <>
+                  {entry.fromStageName}
+                  <ArrowRight className="h-3 w-3" />
+                  {entry.toStageName}
+                </>
+              ) : (
+                <>Created in {entry.toStageName}</>
+              )}
+            </div>
+            <div className="text-xs text-muted-foreground">
+              {format(enteredAt, "MMM dd, yyyy HH:mm")}
+              {userName && ` • ${userName}`}
+              {entry.value !== null && ` • ${formatValue(entry.value)}`}
+            </div>
+            <div className="text-xs text-muted-foreground">
+              {next ? "Spent" : "In stage for"} {formatDistanceStrict(enteredAt, leftAt)}
+            </div>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
@@ -1,5 +1,5 @@
 import { useState } from "react";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -10,9 +10,10 @@ import { zodResolver } from "@hookform/resolvers/zod";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { Mail, Send, Loader2, Sparkles, User, Users } from "lucide-react";
+import { Mail, Send, Loader2, Sparkles, User, Users, Reply, X } from "lucide-react";
 import { z } from "zod";
-import type { Contact } from "@shared/schema";
+import type { Contact, Mailbox } from "@shared/schema";
+import EmailThreads, { type ContactEmail } from "./email-threads";
 
 const emailSchema = z.object({
   emailType: z.enum(["follow-up", "welcome", "custom"]),
@@ -42,6 +43,13 @@ export default function EmailComposeModal({
   const queryClient = useQueryClient();
   const [selectedContacts, setSelectedContacts] = useState<number[]>([]);
   const [isGeneratingContent, setIsGeneratingContent] = useState(false);
+  const [replyTo, setReplyTo] = useState<ContactEmail | null>(null);
+
+  // With a connected mailbox, custom emails go out from the user's own address
+  const { data: mailbox } = useQuery<Omit<Mailbox, "encryptedPassword" | "syncState"> | null>({
+    queryKey: ["/api/mailbox"],
+    enabled: open && mode === 'single',
+  });
 
   const form = useForm<EmailFormData>({
     resolver: zodResolver(emailSchema),
@@ -65,6 +73,12 @@ export default function EmailComposeModal({
           return await apiRequest("POST", "/api/email/send-welcome", {
             contactId: contact.id
           });
+        } else if (mailbox) {
+          return await apiRequest("POST", `/api/contacts/${contact.id}/emails`, {
+            subject: data.subject,
+            body: data.content,
+            replyToId: replyTo?.id,
+          });
         } else {
           return await apiRequest("POST", "/api/email/send-follow-up", {
             contactId: contact.id,
@@ -82,6 +96,9 @@ export default function EmailComposeModal({
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/contacts"] });
+      if (contact) {
+        queryClient.invalidateQueries({ queryKey: [`/api/contacts/${contact.id}/emails`] });
+      }
       toast({
         title: "Email sent successfully",
         description: mode === 'single' 
@@ -91,6 +108,7 @@ export default function EmailComposeModal({
       onOpenChange(false);
       form.reset();
       setSelectedContacts([]);
+      setReplyTo(null);
     },
     onError: (error: any) => {
       toast({
@@ -152,6 +170,12 @@ export default function EmailComposeModal({
     form.setValue("content", template.content);
   };
 
+  const startReply = (message: ContactEmail) => {
+    setReplyTo(message);
+    form.setValue("emailType", "custom");
+    form.setValue("subject", /^re:/i.test(message.subject) ? message.subject : `Re: ${message.subject}`);
+  };
+
   const onSubmit = (data: EmailFormData) => {
     if (mode === 'bulk' && selectedContacts.length === 0) {
       toast({
@@ -183,8 +207,30 @@ export default function EmailComposeModal({
           </DialogDescription>
         </DialogHeader>
 
+        {mode === 'single' && contact && (
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Conversation</label>
+            <EmailThreads contactId={contact.id} onReply={mailbox ? startReply : undefined} />
+          </div>
+        )}
+
         <Form {...form}>
           <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            {mode === 'single' && mailbox && form.watch("emailType") === "custom" && (
+              <div className="flex items-center justify-between rounded-md bg-muted p-2 text-sm">
+                <span className="flex items-center gap-2">
+                  {replyTo ? <Reply className="h-4 w-4" /> : <Mail className="h-4 w-4" />}
+                  {replyTo ? `Replying to "${replyTo.subject}" from ` : "Sending from "}
+                  {mailbox.emailAddress}
+                </span>
+                {replyTo && (
+                  <Button type="button" variant="ghost" size="sm" onClick={() => setReplyTo(null)}>
+                    <X className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            )}
+
             {mode === 'bulk' && (
               <div className="space-y-3">
                 <label className="text-sm font-medium">Select Recipients</label>
@@ -0,0 +1,80 @@
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ArrowDownLeft, ArrowUpRight, Reply } from "lucide-react";
+import type { EmailMessage } from "@shared/schema";
+
+export type ContactEmail = Omit<EmailMessage, "trackingToken" | "links">;
+
+interface EmailThreadsProps {
+  contactId: number;
+  onReply?: (message: ContactEmail) => void;
+}
+
+// Emails without a thread (older Mailgun sends) each stand alone
+const threadKey = (message: ContactEmail) => message.threadId ?? `message-${message.id}`;
+
+// The contact's email history grouped into threads, newest thread first
+export default function EmailThreads({ contactId, onReply }: EmailThreadsProps) {
+  const { data: emails = [], isLoading } = useQuery<ContactEmail[]>({
+    queryKey: [`/api/contacts/${contactId}/emails`],
+  });
+
+  const threads = new Map<string, ContactEmail[]>();
+  for (const email of [...emails].sort((a, b) => new Date(a.sentAt).getTime() - new Date(b.sentAt).getTime())) {
+    threads.set(threadKey(email), [...(threads.get(threadKey(email)) ?? []), email]);
+  }
+  const sorted = Array.from(threads.values()).sort(
+    (a, b) => new Date(b[b.length - 1].sentAt).getTime() - new Date(a[a.length - 1].sentAt).getTime()
+  );
+
+  if (isLoading) {
+    return <p className="text-sm text-muted-foreground">Loading emails...</p>;
+  }
+  if (sorted.length === 0) {
+    return <p className="text-sm text-muted-foreground">No emails with this contact yet.</p>;
+  }
+
+  return (
+    <div className="max-h-64 overflow-y-auto space-y-3">
+      {sorted.map((thread) => {
+        const latest = thread[thread.length - 1];
+        return (
+          <div key={threadKey(latest)} className="border rounded-lg p-3">
+            <div className="flex items-center justify-between mb-2">
+              <div className="font-medium text-sm truncate">
+                {thread[0].subject}
+                {thread.length > 1 && <Badge variant="secondary" className="ml-2">{thread.length}</Badge>}
+              </div>
+              {onReply && latest.status !== "failed" && (
+                <Button type="button" variant="ghost" size="sm" onClick={() => onReply(latest)}>
+                  <Reply className="w-4 h-4 mr-1" />
+                  Reply
+                </Button>
+              )}
+            </div>
+            <div className="space-y-2">
+              {thread.map((email) => (
+                <div key={email.id} className="text-xs">
+                  <div className="flex items-center gap-1 text-muted-foreground">
+                    {email.direction === "inbound" ? (
+                      <ArrowDownLeft className="w-3 h-3 text-green-600" />
+                    ) : (
+                      <ArrowUpRight className="w-3 h-3 text-blue-600" />
+                    )}
+                    {email.direction === "inbound" ? email.fromEmail : `To ${email.toEmail}`}
+                    {" • "}
+                    {format(new Date(email.sentAt), "MMM dd, yyyy HH:mm")}
+                    {email.status === "failed" && <span className="text-red-600"> • Failed</span>}
+                  </div>
+                  {email.body && <p className="mt-1 line-clamp-2 whitespace-pre-line">{email.body}</p>}
+                </div>
+              ))}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,53 @@
+import { useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { Download } from "lucide-react";
+
+type ExportFormat = "csv" | "xlsx" | "vcf";
+
+interface ExportMenuProps {
+  // e.g. "/api/contacts/export"
+  endpoint: string;
+  // The same filters the page sends to its list endpoint
+  params: URLSearchParams;
+  formats?: ExportFormat[];
+}
+
+const formatLabels: Record<ExportFormat, string> = {
+  csv: "CSV (.csv)",
+  xlsx: "Excel (.xlsx)",
+  vcf: "vCard (.vcf)",
+};
+
+export default function ExportMenu({ endpoint, params, formats = ["csv", "xlsx"] }: ExportMenuProps) {
+  const queryClient = useQueryClient();
+
+  // The server answers with an attachment, so a plain navigation downloads the
+  // file without loading large exports into the page
+  const startDownload = (format: ExportFormat) => {
+    const query = new URLSearchParams(params);
+    query.set("format", format);
+    const link = document.createElement("a");
+    link.href = `${endpoint}?${query.toString()}`;
+    link.click();
+    queryClient.invalidateQueries({ queryKey: ["/api/exports"] });
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline">
+          <Download className="w-4 h-4 mr-2" />
+          Export
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {formats.map((format) => (
+          <DropdownMenuItem key={format} onClick={() => startDownload(format)}>
+            {formatLabels[format]}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -11,27 +11,46 @@ import {
   UsersIcon,
   Zap,
   MessageCircle,
-  FileText
+  FileText,
+  ListPlus,
+  Package,
+  ShieldOff,
+  Inbox,
+  MessagesSquare,
+  CalendarClock,
+  CalendarDays,
+  CalendarOff
 } from "lucide-react";
 import UserMenu from "./user-menu";
+import { usePermissions } from "@/hooks/usePermissions";
+import type { Permission } from "@shared/permissions";
 
-const navigation = [
+const navigation: { name: string; href: string; icon: typeof BarChart3; permission?: Permission }[] = [
   { name: "Dashboard", href: "/", icon: BarChart3 },
   { name: "Contacts", href: "/contacts", icon: Users },
   { name: "Leads", href: "/leads", icon: UserPlus },
   { name: "Sales Pipeline", href: "/pipeline", icon: Filter },
+  { name: "Products", href: "/products", icon: Package },
   { name: "Tasks & Follow-ups", href: "/tasks", icon: CheckSquare },
   { name: "Reports", href: "/reports", icon: BarChart },
   { name: "Email Templates", href: "/email-templates", icon: Mail },
+  { name: "My Mailbox", href: "/mailbox", icon: Inbox },
+  { name: "My Calendar", href: "/calendar-settings", icon: CalendarDays },
+  { name: "Booking Page", href: "/booking-page", icon: CalendarClock },
   { name: "WhatsApp Business", href: "/whatsapp", icon: MessageCircle },
+  { name: "WhatsApp Inbox", href: "/whatsapp-inbox", icon: MessagesSquare },
   { name: "WhatsApp Templates", href: "/whatsapp-templates", icon: FileText },
   { name: "AI Automation", href: "/automation", icon: Zap },
+  { name: "Custom Fields", href: "/custom-fields", icon: ListPlus, permission: "customFields:manage" },
+  { name: "Suppression List", href: "/suppressions", icon: ShieldOff, permission: "campaigns:manage" },
+  { name: "Holidays", href: "/holidays", icon: CalendarOff, permission: "holidays:manage" },
   { name: "Team Management", href: "/team", icon: UsersIcon },
-  { name: "Billing & Plans", href: "/billing", icon: CreditCard },
+  { name: "Billing & Plans", href: "/billing", icon: CreditCard, permission: "billing:view" },
 ];
 
 export default function Sidebar() {
   const [location] = useLocation();
+  const { can } = usePermissions();
 
   return (
     <div className="w-64 bg-white dark:bg-card shadow-lg border-r border-gray-200 dark:border-border flex flex-col">
@@ -47,7 +66,7 @@ export default function Sidebar() {
 
       {/* Navigation */}
       <nav className="flex-1 p-4 space-y-2">
-        {navigation.map((item) => {
+        {navigation.filter((item) => !item.permission || can(item.permission)).map((item) => {
           const isActive = location === item.href;
           const Icon = item.icon;
           
@@ -11,6 +11,7 @@ import { insertContactSchema, type InsertContact } from "@shared/schema";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import TimeZoneSelect from "@/components/calendar/time-zone-select";
 
 interface AddContactModalProps {
   open: boolean;
@@ -53,10 +54,12 @@ export default function AddContactModal({ open, onOpenChange }: AddContactModalP
       form.reset();
       onOpenChange(false);
     },
-    onError: () => {
+    onError: (error: any) => {
       toast({
         title: "Error",
-        description: "Failed to create contact.",
+        description: error.message?.startsWith("409")
+          ? "A contact with this email already exists."
+          : "Failed to create contact.",
         variant: "destructive",
       });
     },
@@ -194,6 +197,16 @@ export default function AddContactModal({ open, onOpenChange }: AddContactModalP
             </div>
           </div>
 
+          <div>
+            <Label>Time Zone</Label>
+            <TimeZoneSelect
+              value={form.watch("timeZone")}
+              onChange={(timeZone) => form.setValue("timeZone", timeZone)}
+              allowNone
+            />
+            <p className="text-xs text-muted-foreground mt-1">Meeting times are shown to the contact in this zone</p>
+          </div>
+
           <div>
             <Label htmlFor="notes">Notes</Label>
             <Textarea
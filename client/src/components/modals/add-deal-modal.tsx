@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
@@ -26,6 +26,7 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Button } from "@/components/ui/button";
 import { CalendarIcon } from "lucide-react";
@@ -39,7 +40,11 @@ import { format } from "date-fns";
 import { cn } from "@/lib/utils";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { insertDealSchema, type InsertDeal, type Contact } from "@shared/schema";
+import CustomFieldInputs from "@/components/custom-fields/custom-field-inputs";
+import LineItemsEditor, { lineItemsValue, toLineItemInputs, type LineItemDraft } from "@/components/deals/line-items-editor";
+import OwnerSelect from "@/components/deals/owner-select";
+import { usePipelines } from "@/hooks/usePipelines";
+import { insertDealSchema, type InsertDeal, type Contact, type CustomFieldValues, type DealLineItemInput } from "@shared/schema";
 
 interface AddDealModalProps {
   open: boolean;
@@ -48,31 +53,28 @@ interface AddDealModalProps {
 
 const formSchema = z.object({
   title: z.string().min(1, "Title is required"),
-  value: z.string().min(1, "Value is required"),
-  stage: z.string().optional(),
+  // Required unless the deal has line items, which set the value instead
+  value: z.string().optional(),
+  stageId: z.coerce.number({ required_error: "Stage is required" }),
   probability: z.coerce.number().optional(),
   contactId: z.coerce.number().optional(),
+  ownerId: z.string().optional(),
   expectedCloseDate: z.date({
     required_error: "Expected close date is required",
   }),
   notes: z.string().optional(),
+  customFields: z.record(z.any()).optional(),
 });
 
 type FormData = z.infer<typeof formSchema>;
 
-const dealStages = [
-  { value: "prospecting", label: "Prospecting" },
-  { value: "qualified", label: "Qualified" },
-  { value: "proposal", label: "Proposal" },
-  { value: "negotiation", label: "Negotiation" },
-  { value: "closed-won", label: "Closed Won" },
-  { value: "closed-lost", label: "Closed Lost" },
-];
-
 export default function AddDealModal({ open, onOpenChange }: AddDealModalProps) {
   const [isCalendarOpen, setIsCalendarOpen] = useState(false);
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const { pipelines, defaultPipeline, getStage } = usePipelines();
+  const [pipelineId, setPipelineId] = useState<number | undefined>();
+  const [lineItems, setLineItems] = useState<LineItemDraft[]>([]);
 
   const { data: contacts } = useQuery({
     queryKey: ["/api/contacts"],
@@ -83,16 +85,31 @@ export default function AddDealModal({ open, onOpenChange }: AddDealModalProps)
     defaultValues: {
       title: "",
       value: "",
-      stage: "prospecting",
       probability: 10,
       expectedCloseDate: new Date(),
       notes: "",
       contactId: undefined,
+      customFields: {},
     },
   });
 
+  const pipeline = pipelines.find((candidate) => candidate.id === pipelineId) ?? defaultPipeline;
+
+  const selectStage = (stageId: number) => {
+    form.setValue("stageId", stageId);
+    form.setValue("probability", getStage(stageId)?.probability ?? 0);
+  };
+
+  // New deals start in the first stage of the default pipeline
+  useEffect(() => {
+    if (open && defaultPipeline && !form.getValues("stageId")) {
+      setPipelineId(defaultPipeline.id);
+      selectStage(defaultPipeline.stages[0].id);
+    }
+  }, [open, defaultPipeline]);
+
   const createDealMutation = useMutation({
-    mutationFn: async (data: InsertDeal) => {
+    mutationFn: async (data: InsertDeal & { lineItems?: DealLineItemInput[] }) => {
       const response = await apiRequest("POST", "/api/deals", data);
       return response.json();
     },
@@ -104,6 +121,7 @@ export default function AddDealModal({ open, onOpenChange }: AddDealModalProps)
         description: "The deal has been successfully created.",
       });
       form.reset();
+      setLineItems([]);
       onOpenChange(false);
     },
     onError: (error: any) => {
@@ -116,35 +134,29 @@ export default function AddDealModal({ open, onOpenChange }: AddDealModalProps)
   });
 
   const handleSubmit = (data: FormData) => {
-    const dealData: InsertDeal = {
-      organizationId: 1,
+    if (lineItems.length === 0 && !data.value) {
+      form.setError("value", { message: "Value is required" });
+      return;
+    }
+    const dealData: InsertDeal & { lineItems?: DealLineItemInput[] } = {
       title: data.title,
-      value: data.value,
-      stage: data.stage || "prospecting",
-      probability: data.probability || 10,
+      value: lineItems.length > 0 ? String(lineItemsValue(lineItems)) : data.value,
+      stageId: data.stageId,
+      probability: data.probability ?? 0,
       contactId: data.contactId || null,
+      ownerId: data.ownerId,
       expectedCloseDate: data.expectedCloseDate,
       notes: data.notes || null,
+      customFields: data.customFields || {},
+      lineItems: lineItems.length > 0 ? toLineItemInputs(lineItems) : undefined,
     };
     console.log('Submitting deal data:', dealData);
     createDealMutation.mutate(dealData);
   };
 
-  const getProbabilityByStage = (stage: string) => {
-    const probabilities: Record<string, number> = {
-      "prospecting": 10,
-      "qualified": 25,
-      "proposal": 50,
-      "negotiation": 75,
-      "closed-won": 100,
-      "closed-lost": 0,
-    };
-    return probabilities[stage] || 10;
-  };
-
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="sm:max-w-[500px]">
+      <DialogContent className="sm:max-w-[700px] max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>Add New Deal</DialogTitle>
           <DialogDescription>
@@ -176,25 +188,52 @@ export default function AddDealModal({ open, onOpenChange }: AddDealModalProps)
                   <FormItem>
                     <FormLabel>Deal Value ($)</FormLabel>
                     <FormControl>
-                      <Input placeholder="50000" {...field} />
+                      <Input
+                        placeholder="50000"
+                        {...field}
+                        value={lineItems.length > 0 ? String(lineItemsValue(lineItems)) : field.value ?? ""}
+                        disabled={lineItems.length > 0}
+                      />
                     </FormControl>
                     <FormMessage />
                   </FormItem>
                 )}
               />
 
+              <div className="space-y-2">
+                <Label>Pipeline</Label>
+                <Select
+                  value={pipeline ? String(pipeline.id) : undefined}
+                  onValueChange={(value) => {
+                    const next = pipelines.find((candidate) => candidate.id === parseInt(value));
+                    setPipelineId(next?.id);
+                    if (next) selectStage(next.stages[0].id);
+                  }}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select pipeline" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {pipelines.map((option) => (
+                      <SelectItem key={option.id} value={String(option.id)}>
+                        {option.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
               <FormField
                 control={form.control}
-                name="stage"
+                name="stageId"
                 render={({ field }) => (
                   <FormItem>
                     <FormLabel>Stage</FormLabel>
                     <Select 
-                      onValueChange={(value) => {
-                        field.onChange(value);
-                        form.setValue("probability", getProbabilityByStage(value));
-                      }} 
-                      defaultValue={field.value ?? ""}
+                      onValueChange={(value) => selectStage(parseInt(value))} 
+                      value={field.value ? String(field.value) : ""}
                     >
                       <FormControl>
                         <SelectTrigger>
@@ -202,9 +241,9 @@ export default function AddDealModal({ open, onOpenChange }: AddDealModalProps)
                         </SelectTrigger>
                       </FormControl>
                       <SelectContent>
-                        {dealStages.map((stage) => (
-                          <SelectItem key={stage.value} value={stage.value}>
-                            {stage.label}
+                        {pipeline?.stages.map((stage) => (
+                          <SelectItem key={stage.id} value={String(stage.id)}>
+                            {stage.name}
                           </SelectItem>
                         ))}
                       </SelectContent>
@@ -213,9 +252,7 @@ export default function AddDealModal({ open, onOpenChange }: AddDealModalProps)
                   </FormItem>
                 )}
               />
-            </div>
 
-            <div className="grid grid-cols-2 gap-4">
               <FormField
                 control={form.control}
                 name="probability"
@@ -236,7 +273,11 @@ export default function AddDealModal({ open, onOpenChange }: AddDealModalProps)
                   </FormItem>
                 )}
               />
+            </div>
+
+            <LineItemsEditor value={lineItems} onChange={setLineItems} />
 
+            <div className="grid grid-cols-2 gap-4">
               <FormField
                 control={form.control}
                 name="contactId"
@@ -264,8 +305,19 @@ export default function AddDealModal({ open, onOpenChange }: AddDealModalProps)
                   </FormItem>
                 )}
               />
-            </div>
 
+              <FormField
+                control={form.control}
+                name="ownerId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Owner</FormLabel>
+                    <OwnerSelect value={field.value} onChange={field.onChange} placeholder="Me" />
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
             <FormField
               control={form.control}
               name="expectedCloseDate"
@@ -329,6 +381,12 @@ export default function AddDealModal({ open, onOpenChange }: AddDealModalProps)
               )}
             />
 
+            <CustomFieldInputs
+              entityType="deal"
+              values={(form.watch("customFields") || {}) as CustomFieldValues}
+              onChange={(values) => form.setValue("customFields", values)}
+            />
+
             <div className="flex justify-end space-x-2 pt-4">
               <Button
                 type="button"
@@ -9,8 +9,9 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
-import { insertContactSchema } from "@shared/schema";
+import { insertContactSchema, consentChannels, type ConsentChannel, type ConsentStatus } from "@shared/schema";
 import { apiRequest } from "@/lib/queryClient";
+import TimeZoneSelect from "@/components/calendar/time-zone-select";
 import { useToast } from "@/hooks/use-toast";
 import type { Contact } from "@shared/schema";
 import { z } from "zod";
@@ -18,6 +19,12 @@ import { z } from "zod";
 const editContactSchema = insertContactSchema.partial();
 type EditContactFormData = z.infer<typeof editContactSchema>;
 
+const consentChannelLabels: Record<ConsentChannel, string> = {
+  email: "Email",
+  whatsapp: "WhatsApp",
+  sms: "SMS",
+};
+
 interface EditContactModalProps {
   contact: Contact | null;
   open: boolean;
@@ -27,6 +34,7 @@ interface EditContactModalProps {
 export default function EditContactModal({ contact, open, onOpenChange }: EditContactModalProps) {
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const [consent, setConsent] = useState<Partial<Record<ConsentChannel, ConsentStatus>>>({});
 
   const form = useForm<EditContactFormData>({
     resolver: zodResolver(editContactSchema),
@@ -39,6 +47,7 @@ export default function EditContactModal({ contact, open, onOpenChange }: EditCo
       position: "",
       leadStatus: "new",
       source: "",
+      timeZone: null,
       notes: "",
       tags: [],
     },
@@ -56,16 +65,28 @@ export default function EditContactModal({ contact, open, onOpenChange }: EditCo
         position: contact.position || "",
         leadStatus: contact.leadStatus || "new",
         source: contact.source || "",
+        timeZone: contact.timeZone || null,
         notes: contact.notes || "",
         tags: contact.tags || [],
       });
+      setConsent(Object.fromEntries(
+        consentChannels.flatMap((channel) => contact.consent?.[channel] ? [[channel, contact.consent[channel]!.status]] : [])
+      ));
     }
   }, [contact, form]);
 
   const updateContactMutation = useMutation({
     mutationFn: async (data: EditContactFormData) => {
       if (!contact) throw new Error("No contact selected");
-      return await apiRequest("PATCH", `/api/contacts/${contact.id}`, data);
+      const response = await apiRequest("PATCH", `/api/contacts/${contact.id}`, data);
+      // Consent is recorded per channel, and only where it changed
+      for (const channel of consentChannels) {
+        const status = consent[channel];
+        if (status && status !== contact.consent?.[channel]?.status) {
+          await apiRequest("PUT", `/api/contacts/${contact.id}/consent`, { channel, status });
+        }
+      }
+      return response;
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/contacts"] });
@@ -218,32 +239,48 @@ export default function EditContactModal({ contact, open, onOpenChange }: EditCo
               />
             </div>
 
-            <FormField
-              control={form.control}
-              name="source"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Source</FormLabel>
-                  <Select onValueChange={field.onChange} value={field.value || ""}>
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="source"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Source</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value || ""}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select source" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="Website">Website</SelectItem>
+                        <SelectItem value="Referral">Referral</SelectItem>
+                        <SelectItem value="Social Media">Social Media</SelectItem>
+                        <SelectItem value="Email Campaign">Email Campaign</SelectItem>
+                        <SelectItem value="Cold Call">Cold Call</SelectItem>
+                        <SelectItem value="Trade Show">Trade Show</SelectItem>
+                        <SelectItem value="Other">Other</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="timeZone"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Time Zone</FormLabel>
                     <FormControl>
-                      <SelectTrigger>
-                        <SelectValue placeholder="Select source" />
-                      </SelectTrigger>
+                      <TimeZoneSelect value={field.value} onChange={field.onChange} allowNone />
                     </FormControl>
-                    <SelectContent>
-                      <SelectItem value="Website">Website</SelectItem>
-                      <SelectItem value="Referral">Referral</SelectItem>
-                      <SelectItem value="Social Media">Social Media</SelectItem>
-                      <SelectItem value="Email Campaign">Email Campaign</SelectItem>
-                      <SelectItem value="Cold Call">Cold Call</SelectItem>
-                      <SelectItem value="Trade Show">Trade Show</SelectItem>
-                      <SelectItem value="Other">Other</SelectItem>
-                    </SelectContent>
-                  </Select>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
 
             <FormField
               control={form.control}
@@ -264,6 +301,34 @@ export default function EditContactModal({ contact, open, onOpenChange }: EditCo
               )}
             />
 
+            <div>
+              <Label>Consent</Label>
+              <div className="grid grid-cols-3 gap-4 mt-2">
+                {consentChannels.map((channel) => (
+                  <div key={channel}>
+                    <div className="text-sm text-gray-500 mb-1">{consentChannelLabels[channel]}</div>
+                    <Select
+                      value={consent[channel] ?? ""}
+                      onValueChange={(value) => setConsent({ ...consent, [channel]: value as ConsentStatus })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Not asked" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="opted_in">Opted in</SelectItem>
+                        <SelectItem value="opted_out">Opted out</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    {contact.consent?.[channel] && (
+                      <div className="text-xs text-gray-500 mt-1">
+                        {contact.consent[channel]!.source.replace(/_/g, " ")}, {new Date(contact.consent[channel]!.updatedAt).toLocaleDateString()}
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+
             <DialogFooter>
               <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
                 Cancel
@@ -0,0 +1,356 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Upload, Download, CheckCircle, AlertCircle } from "lucide-react";
+import type { CustomFieldDefinition } from "@shared/schema";
+
+interface ImportContactsModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+type Step = "upload" | "map" | "preview" | "done";
+type ImportRow = Record<string, string>;
+
+interface ImportRowResult {
+  rowNumber: number;
+  status: "valid" | "invalid" | "duplicate";
+  errors: string[];
+  duplicateOfContactId?: number;
+}
+
+interface ImportAnalysis {
+  results: ImportRowResult[];
+  summary: { total: number; valid: number; invalid: number; duplicate: number };
+  remainingContacts: number;
+}
+
+interface ImportCommitResult {
+  imported: number;
+  rejected: ImportRowResult[];
+  errorReport: string | null;
+}
+
+const SKIP = "__skip";
+const PREVIEW_LIMIT = 50;
+
+const contactFields = [
+  { value: "firstName", label: "First Name" },
+  { value: "lastName", label: "Last Name" },
+  { value: "email", label: "Email" },
+  { value: "phone", label: "Phone" },
+  { value: "company", label: "Company" },
+  { value: "position", label: "Position" },
+  { value: "source", label: "Lead Source" },
+  { value: "tags", label: "Tags (comma separated)" },
+  { value: "leadStatus", label: "Lead Status" },
+  { value: "leadScore", label: "Lead Score" },
+  { value: "notes", label: "Notes" },
+];
+
+const statusBadgeClass: Record<ImportRowResult["status"], string> = {
+  valid: "bg-green-100 text-green-800",
+  invalid: "bg-red-100 text-red-800",
+  duplicate: "bg-yellow-100 text-yellow-800",
+};
+
+const readFileAsBase64 = (file: File) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result).split(",")[1] ?? "");
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+export default function ImportContactsModal({ open, onOpenChange }: ImportContactsModalProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [step, setStep] = useState<Step>("upload");
+  const [file, setFile] = useState<File | null>(null);
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [rows, setRows] = useState<ImportRow[]>([]);
+  const [mapping, setMapping] = useState<Record<string, string>>({});
+  const [analysis, setAnalysis] = useState<ImportAnalysis | null>(null);
+  const [result, setResult] = useState<ImportCommitResult | null>(null);
+
+  const { data: customFieldDefinitions = [] } = useQuery<CustomFieldDefinition[]>({
+    queryKey: ["/api/custom-fields"],
+  });
+  const targetFields = [
+    ...contactFields,
+    ...customFieldDefinitions
+      .filter((definition) => definition.entityType === "contact")
+      .map((definition) => ({ value: `custom.${definition.key}`, label: definition.label })),
+  ];
+
+  const reset = () => {
+    setStep("upload");
+    setFile(null);
+    setHeaders([]);
+    setRows([]);
+    setMapping({});
+    setAnalysis(null);
+    setResult(null);
+  };
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (!isOpen) reset();
+    onOpenChange(isOpen);
+  };
+
+  const onError = (error: any) => {
+    toast({
+      title: "Import failed",
+      description: error.message || "Please check the file and try again",
+      variant: "destructive",
+    });
+  };
+
+  const parseMutation = useMutation({
+    mutationFn: async (selectedFile: File) => {
+      const content = await readFileAsBase64(selectedFile);
+      const response = await apiRequest("POST", "/api/contacts/import/parse", {
+        fileName: selectedFile.name,
+        content,
+      });
+      return response.json();
+    },
+    onSuccess: (data: { headers: string[]; rows: ImportRow[]; suggestedMapping: Record<string, string> }) => {
+      setHeaders(data.headers);
+      setRows(data.rows);
+      setMapping(data.suggestedMapping);
+      setStep("map");
+    },
+    onError,
+  });
+
+  const previewMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/contacts/import/preview", { rows, mapping });
+      return response.json();
+    },
+    onSuccess: (data: ImportAnalysis) => {
+      setAnalysis(data);
+      setStep("preview");
+    },
+    onError,
+  });
+
+  const commitMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/contacts/import/commit", { rows, mapping });
+      return response.json();
+    },
+    onSuccess: (data: ImportCommitResult) => {
+      setResult(data);
+      setStep("done");
+      queryClient.invalidateQueries({ queryKey: ["/api/contacts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/leads"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+    },
+    onError,
+  });
+
+  const downloadErrorReport = () => {
+    if (!result?.errorReport) return;
+    const blob = new Blob([result.errorReport], { type: "text/csv;charset=utf-8" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `import-errors-${file?.name.replace(/\.[^.]+$/, "") ?? "contacts"}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const mappedTargets = Object.values(mapping).filter(Boolean);
+  const hasRequiredMappings = ["firstName", "lastName", "email"].every((field) => mappedTargets.includes(field));
+  const importableCount = analysis ? Math.min(analysis.summary.valid, analysis.remainingContacts) : 0;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[800px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Contacts</DialogTitle>
+          <DialogDescription>
+            {step === "upload" && "Upload a CSV or Excel (.xlsx) file with one contact per row."}
+            {step === "map" && `Match the ${headers.length} columns in ${file?.name} to contact fields.`}
+            {step === "preview" && "Review validation results before importing."}
+            {step === "done" && "Your import has finished."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === "upload" && (
+          <div className="space-y-4">
+            <div className="border-2 border-dashed rounded-lg p-8 text-center">
+              <Upload className="w-10 h-10 mx-auto text-gray-400 mb-3" />
+              <Input
+                type="file"
+                accept=".csv,.xlsx"
+                onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+                className="max-w-sm mx-auto"
+              />
+              <p className="text-sm text-gray-500 mt-3">
+                The first row must contain column headers. First name, last name and email are required.
+              </p>
+            </div>
+          </div>
+        )}
+
+        {step === "map" && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Column</TableHead>
+                <TableHead>Sample</TableHead>
+                <TableHead>Import as</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {headers.map((header) => (
+                <TableRow key={header}>
+                  <TableCell className="font-medium">{header}</TableCell>
+                  <TableCell className="text-sm text-gray-500 max-w-[200px] truncate">
+                    {rows.find((row) => row[header])?.[header] ?? ""}
+                  </TableCell>
+                  <TableCell>
+                    <Select
+                      value={mapping[header] || SKIP}
+                      onValueChange={(value) => setMapping({ ...mapping, [header]: value === SKIP ? "" : value })}
+                    >
+                      <SelectTrigger className="w-[220px]">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={SKIP}>Don't import</SelectItem>
+                        {targetFields.map((field) => (
+                          <SelectItem
+                            key={field.value}
+                            value={field.value}
+                            disabled={mapping[header] !== field.value && mappedTargets.includes(field.value)}
+                          >
+                            {field.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        {step === "preview" && analysis && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap gap-2">
+              <Badge variant="outline">{analysis.summary.total} rows</Badge>
+              <Badge className={statusBadgeClass.valid}>{analysis.summary.valid} ready</Badge>
+              <Badge className={statusBadgeClass.duplicate}>{analysis.summary.duplicate} duplicates</Badge>
+              <Badge className={statusBadgeClass.invalid}>{analysis.summary.invalid} with errors</Badge>
+            </div>
+
+            {analysis.summary.valid > analysis.remainingContacts && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>
+                  Your plan has room for {analysis.remainingContacts} more contacts, so only the first{" "}
+                  {analysis.remainingContacts} valid rows will be imported.
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-16">Row</TableHead>
+                  <TableHead className="w-28">Status</TableHead>
+                  <TableHead>Details</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {analysis.results
+                  .filter((row) => row.status !== "valid")
+                  .slice(0, PREVIEW_LIMIT)
+                  .map((row) => (
+                    <TableRow key={row.rowNumber}>
+                      <TableCell>{row.rowNumber}</TableCell>
+                      <TableCell>
+                        <Badge className={statusBadgeClass[row.status]}>{row.status}</Badge>
+                      </TableCell>
+                      <TableCell className="text-sm">{row.errors.join("; ")}</TableCell>
+                    </TableRow>
+                  ))}
+              </TableBody>
+            </Table>
+            {analysis.summary.invalid + analysis.summary.duplicate > PREVIEW_LIMIT && (
+              <p className="text-sm text-gray-500">
+                Showing the first {PREVIEW_LIMIT} problem rows. The full list is available as an error report after importing.
+              </p>
+            )}
+            <p className="text-sm text-gray-500">
+              Duplicates match an existing contact (or an earlier row) by email or phone number and will be skipped.
+            </p>
+          </div>
+        )}
+
+        {step === "done" && result && (
+          <div className="text-center space-y-4 py-6">
+            <CheckCircle className="w-12 h-12 text-green-500 mx-auto" />
+            <p className="text-lg font-medium">{result.imported} contacts imported</p>
+            {result.rejected.length > 0 && (
+              <>
+                <p className="text-sm text-gray-500">{result.rejected.length} rows were not imported.</p>
+                <Button variant="outline" onClick={downloadErrorReport}>
+                  <Download className="w-4 h-4 mr-2" />
+                  Download error report
+                </Button>
+              </>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {step === "upload" && (
+            <Button onClick={() => file && parseMutation.mutate(file)} disabled={!file || parseMutation.isPending}>
+              {parseMutation.isPending ? "Reading file..." : "Next"}
+            </Button>
+          )}
+          {step === "map" && (
+            <>
+              <Button variant="outline" onClick={reset}>Back</Button>
+              <Button onClick={() => previewMutation.mutate()} disabled={!hasRequiredMappings || previewMutation.isPending}>
+                {previewMutation.isPending ? "Validating..." : "Preview"}
+              </Button>
+            </>
+          )}
+          {step === "preview" && (
+            <>
+              <Button variant="outline" onClick={() => setStep("map")}>Back</Button>
+              <Button onClick={() => commitMutation.mutate()} disabled={importableCount === 0 || commitMutation.isPending}>
+                {commitMutation.isPending ? "Importing..." : `Import ${importableCount} contacts`}
+              </Button>
+            </>
+          )}
+          {step === "done" && (
+            <Button onClick={() => handleOpenChange(false)}>Done</Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,198 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { Contact, CustomFieldDefinition, CustomFieldValue } from "@shared/schema";
+
+interface MergeContactsModalProps {
+  contacts: Contact[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+interface MergeRow {
+  field: string;
+  label: string;
+  value: (contact: Contact) => unknown;
+}
+
+const contactRows: MergeRow[] = [
+  { field: "firstName", label: "First Name", value: (contact) => contact.firstName },
+  { field: "lastName", label: "Last Name", value: (contact) => contact.lastName },
+  { field: "email", label: "Email", value: (contact) => contact.email },
+  { field: "phone", label: "Phone", value: (contact) => contact.phone },
+  { field: "company", label: "Company", value: (contact) => contact.company },
+  { field: "position", label: "Position", value: (contact) => contact.position },
+  { field: "source", label: "Lead Source", value: (contact) => contact.source },
+  { field: "leadStatus", label: "Lead Status", value: (contact) => contact.leadStatus },
+  { field: "leadScore", label: "Lead Score", value: (contact) => contact.leadScore },
+  { field: "timeZone", label: "Time Zone", value: (contact) => contact.timeZone },
+  { field: "notes", label: "Notes", value: (contact) => contact.notes },
+];
+
+const isBlank = (value: unknown) =>
+  value === null || value === undefined || value === "" || (Array.isArray(value) && value.length === 0);
+
+const formatValue = (value: unknown) => {
+  if (isBlank(value)) return <span className="text-gray-400">—</span>;
+  if (Array.isArray(value)) return value.join(", ");
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  return String(value);
+};
+
+export default function MergeContactsModal({ contacts, open, onOpenChange }: MergeContactsModalProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [survivorId, setSurvivorId] = useState<number | null>(null);
+  const [choices, setChoices] = useState<Record<string, number>>({});
+
+  const { data: customFieldDefinitions = [] } = useQuery<CustomFieldDefinition[]>({
+    queryKey: ["/api/custom-fields"],
+  });
+
+  // The oldest record survives by default, since it usually has the most history attached
+  useEffect(() => {
+    if (open && contacts.length > 0) {
+      const oldest = [...contacts].sort(
+        (a, b) => new Date(a.createdAt ?? 0).getTime() - new Date(b.createdAt ?? 0).getTime()
+      )[0];
+      setSurvivorId(oldest.id);
+      setChoices({});
+    }
+  }, [open, contacts]);
+
+  const rows: MergeRow[] = [
+    ...contactRows,
+    ...customFieldDefinitions
+      .filter((definition) => definition.entityType === "contact")
+      .map((definition) => ({
+        field: `custom.${definition.key}`,
+        label: definition.label,
+        value: (contact: Contact): CustomFieldValue | undefined => contact.customFields?.[definition.key],
+      })),
+  ];
+
+  // Mirrors the server default: keep the survivor's value unless it is empty
+  const selectedFor = (row: MergeRow) => {
+    if (choices[row.field] !== undefined) return choices[row.field];
+    const survivor = contacts.find((contact) => contact.id === survivorId);
+    if (survivor && !isBlank(row.value(survivor))) return survivor.id;
+    return contacts.find((contact) => !isBlank(row.value(contact)))?.id ?? survivorId;
+  };
+
+  // Only fields where the contacts disagree need a decision
+  const conflictingRows = rows.filter(
+    (row) => new Set(contacts.map((contact) => JSON.stringify(row.value(contact) ?? null))).size > 1
+  );
+
+  const mergeMutation = useMutation({
+    mutationFn: async () => {
+      const fields = Object.fromEntries(
+        conflictingRows.map((row) => [row.field, selectedFor(row)])
+      );
+      const response = await apiRequest("POST", "/api/contacts/merge", {
+        survivorId,
+        mergeIds: contacts.map((contact) => contact.id).filter((id) => id !== survivorId),
+        fields,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/contacts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/contacts/duplicates"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/leads"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/deals"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+      toast({
+        title: "Contacts merged",
+        description: "Activities, tasks and deals now belong to the surviving contact.",
+      });
+      onOpenChange(false);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to merge contacts",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[900px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Merge {contacts.length} Contacts</DialogTitle>
+          <DialogDescription>
+            Choose which record to keep and which value to keep for each field. The other records are deleted and
+            their activities, tasks, deals and AI insights move to the one you keep. Tags are combined.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-40">Keep record</TableHead>
+              {contacts.map((contact) => (
+                <TableHead key={contact.id}>
+                  <RadioGroup
+                    value={survivorId ? String(survivorId) : undefined}
+                    onValueChange={(value) => setSurvivorId(parseInt(value))}
+                  >
+                    <label className="flex items-center gap-2 font-medium text-gray-900">
+                      <RadioGroupItem value={String(contact.id)} />
+                      #{contact.id}
+                      {contact.id === survivorId && <Badge variant="secondary">Keep</Badge>}
+                    </label>
+                  </RadioGroup>
+                </TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {conflictingRows.map((row) => (
+              <TableRow key={row.field}>
+                <TableCell className="font-medium">{row.label}</TableCell>
+                {contacts.map((contact) => (
+                  <TableCell key={contact.id}>
+                    <RadioGroup
+                      value={String(selectedFor(row))}
+                      onValueChange={(value) => setChoices({ ...choices, [row.field]: parseInt(value) })}
+                    >
+                      <label className="flex items-start gap-2 text-sm">
+                        <RadioGroupItem value={String(contact.id)} className="mt-0.5" />
+                        <span className="break-all">{formatValue(row.value(contact))}</span>
+                      </label>
+                    </RadioGroup>
+                  </TableCell>
+                ))}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+        {conflictingRows.length === 0 && (
+          <p className="text-sm text-gray-500">These records have identical details.</p>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={() => mergeMutation.mutate()} disabled={!survivorId || mergeMutation.isPending}>
+            {mergeMutation.isPending ? "Merging..." : "Merge Contacts"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
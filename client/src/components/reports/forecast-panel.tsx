@@ -0,0 +1,201 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Bar, CartesianGrid, ComposedChart, Legend, Line, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { usePipelines } from "@/hooks/usePipelines";
+
+type ForecastPeriod = "month" | "quarter";
+
+interface ForecastAmounts {
+  closedWon: number;
+  commit: number;
+  bestCase: number;
+  pipeline: number;
+  weighted: number;
+  forecast: number;
+  openDeals: number;
+  wonDeals: number;
+}
+
+interface ForecastData {
+  period: ForecastPeriod;
+  periods: (ForecastAmounts & { label: string; start: string; end: string; isPast: boolean })[];
+  owners: (ForecastAmounts & { ownerId: string | null; name: string })[];
+  totals: ForecastAmounts;
+}
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat("en-US", { style: "currency", currency: "USD", minimumFractionDigits: 0, maximumFractionDigits: 0 }).format(amount);
+
+export default function ForecastPanel() {
+  const [period, setPeriod] = useState<ForecastPeriod>("month");
+  const [pipelineId, setPipelineId] = useState("all");
+  const { pipelines } = usePipelines();
+
+  const params = new URLSearchParams({ period, periods: period === "month" ? "6" : "4" });
+  if (pipelineId !== "all") params.set("pipelineId", pipelineId);
+
+  const { data: forecast, isLoading } = useQuery<ForecastData>({
+    queryKey: [`/api/forecast?${params.toString()}`],
+  });
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap gap-2">
+        <Select value={period} onValueChange={(value) => setPeriod(value as ForecastPeriod)}>
+          <SelectTrigger className="w-36">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="month">By month</SelectItem>
+            <SelectItem value="quarter">By quarter</SelectItem>
+          </SelectContent>
+        </Select>
+        {pipelines.length > 1 && (
+          <Select value={pipelineId} onValueChange={setPipelineId}>
+            <SelectTrigger className="w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All pipelines</SelectItem>
+              {pipelines.map((pipeline) => (
+                <SelectItem key={pipeline.id} value={String(pipeline.id)}>
+                  {pipeline.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+
+      {isLoading || !forecast ? (
+        <p className="text-sm text-muted-foreground">Building forecast...</p>
+      ) : (
+        <>
+          <div className="grid gap-6 md:grid-cols-4">
+            {[
+              { label: "Closed Won", value: forecast.totals.closedWon },
+              { label: "Commit", value: forecast.totals.commit },
+              { label: "Best Case", value: forecast.totals.bestCase },
+              { label: "Weighted Pipeline", value: forecast.totals.weighted },
+            ].map((metric) => (
+              <Card key={metric.label}>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-sm font-medium">{metric.label}</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="text-2xl font-bold">{formatCurrency(metric.value)}</div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Forecast vs Actual</CardTitle>
+              <p className="text-sm text-muted-foreground">
+                The call is closed won plus open commit deals. In past periods, any gap is committed deals that slipped.
+              </p>
+            </CardHeader>
+            <CardContent>
+              <ResponsiveContainer width="100%" height={300}>
+                <ComposedChart data={forecast.periods}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="label" />
+                  <YAxis />
+                  <Tooltip formatter={(value: number) => formatCurrency(value)} />
+                  <Legend />
+                  <Bar dataKey="closedWon" name="Closed Won" stackId="forecast" fill="#10B981" />
+                  <Bar dataKey="commit" name="Commit" stackId="forecast" fill="#3B82F6" />
+                  <Line type="monotone" dataKey="bestCase" name="Best Case" stroke="#F59E0B" />
+                  <Line type="monotone" dataKey="weighted" name="Weighted" stroke="#8B5CF6" />
+                </ComposedChart>
+              </ResponsiveContainer>
+
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Period</TableHead>
+                    <TableHead className="text-right">Closed Won</TableHead>
+                    <TableHead className="text-right">Commit</TableHead>
+                    <TableHead className="text-right">Best Case</TableHead>
+                    <TableHead className="text-right">Pipeline</TableHead>
+                    <TableHead className="text-right">Weighted</TableHead>
+                    <TableHead className="text-right">Call</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {forecast.periods.map((row) => (
+                    <TableRow key={row.start}>
+                      <TableCell className="font-medium">
+                        {row.label}
+                        {row.isPast && <Badge variant="outline" className="ml-2">Closed</Badge>}
+                      </TableCell>
+                      <TableCell className="text-right">{formatCurrency(row.closedWon)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(row.commit)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(row.bestCase)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(row.pipeline)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(row.weighted)}</TableCell>
+                      <TableCell className="text-right font-bold">
+                        {formatCurrency(row.forecast)}
+                        {row.isPast && row.forecast > 0 && (
+                          <div className="text-xs font-normal text-muted-foreground">
+                            {Math.round((row.closedWon / row.forecast) * 100)}% closed
+                          </div>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>By Owner</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Owner</TableHead>
+                    <TableHead className="text-right">Closed Won</TableHead>
+                    <TableHead className="text-right">Commit</TableHead>
+                    <TableHead className="text-right">Best Case</TableHead>
+                    <TableHead className="text-right">Pipeline</TableHead>
+                    <TableHead className="text-right">Weighted</TableHead>
+                    <TableHead className="text-right">Open Deals</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {forecast.owners.map((owner) => (
+                    <TableRow key={owner.ownerId ?? "unassigned"}>
+                      <TableCell className="font-medium">{owner.name}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(owner.closedWon)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(owner.commit)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(owner.bestCase)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(owner.pipeline)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(owner.weighted)}</TableCell>
+                      <TableCell className="text-right">{owner.openDeals}</TableCell>
+                    </TableRow>
+                  ))}
+                  {forecast.owners.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={7} className="text-center text-muted-foreground">
+                        No deals expected to close in this range
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
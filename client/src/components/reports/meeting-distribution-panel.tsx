@@ -0,0 +1,107 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import type { BookingHostMode } from "@shared/booking";
+
+interface AssignmentDistribution {
+  bookingTypeId: number | null;
+  name: string;
+  hostMode: BookingHostMode;
+  meetings: number;
+  members: {
+    userId: string;
+    name: string;
+    assigned: number;
+    eligible: number;
+    leadOwner: number;
+  }[];
+}
+
+const hostModeLabels: Record<BookingHostMode, string> = {
+  owner: "One host",
+  "round-robin": "Round robin",
+  collective: "Everyone together",
+};
+
+const percent = (part: number, whole: number) => (whole > 0 ? `${Math.round((part / whole) * 100)}%` : "—");
+
+// How team meetings were spread across each pool, so managers can spot a
+// member who gets more or fewer meetings than the others
+export default function MeetingDistributionPanel() {
+  const [days, setDays] = useState("30");
+
+  const { data: distributions = [], isLoading } = useQuery<AssignmentDistribution[]>({
+    queryKey: [`/api/calendar/assignments?days=${days}`],
+  });
+
+  return (
+    <div className="space-y-6">
+      <Select value={days} onValueChange={setDays}>
+        <SelectTrigger className="w-44">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="30">Last 30 days</SelectItem>
+          <SelectItem value="90">Last 90 days</SelectItem>
+          <SelectItem value="365">Last 12 months</SelectItem>
+        </SelectContent>
+      </Select>
+
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Loading...</p>
+      ) : distributions.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No team meeting types yet. Make a meeting type round robin or collective on a booking page to share meetings
+          across the team.
+        </p>
+      ) : (
+        distributions.map((distribution) => (
+          <Card key={distribution.bookingTypeId ?? "deleted"}>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                {distribution.name}
+                <Badge variant="secondary">{hostModeLabels[distribution.hostMode]}</Badge>
+              </CardTitle>
+              <CardDescription>
+                {distribution.meetings} meeting{distribution.meetings === 1 ? "" : "s"} booked
+                {distribution.hostMode === "round-robin" && distribution.members.length > 0 &&
+                  ` • an even split is ${percent(1, distribution.members.length)} each`}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Member</TableHead>
+                    <TableHead className="text-right">Meetings</TableHead>
+                    <TableHead className="text-right">Share</TableHead>
+                    <TableHead className="text-right">Free for</TableHead>
+                    <TableHead className="text-right">Got when free</TableHead>
+                    {distribution.hostMode === "round-robin" && <TableHead className="text-right">As lead owner</TableHead>}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {distribution.members.map((member) => (
+                    <TableRow key={member.userId}>
+                      <TableCell className="font-medium">{member.name}</TableCell>
+                      <TableCell className="text-right">{member.assigned}</TableCell>
+                      <TableCell className="text-right">{percent(member.assigned, distribution.meetings)}</TableCell>
+                      <TableCell className="text-right">{member.eligible}</TableCell>
+                      <TableCell className="text-right">{percent(member.assigned, member.eligible)}</TableCell>
+                      {distribution.hostMode === "round-robin" && (
+                        <TableCell className="text-right">{member.leadOwner}</TableCell>
+                      )}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        ))
+      )}
+    </div>
+  );
+}
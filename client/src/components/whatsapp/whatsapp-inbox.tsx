@@ -0,0 +1,318 @@
+import { useEffect, useRef, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { format, formatDistanceToNow } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { AlertCircle, Check, CheckCheck, Clock, MessageCircle, RotateCcw, Send, XCircle } from "lucide-react";
+import type { WhatsappConversation, WhatsappMessageRecord } from "@shared/schema";
+
+type InboxConversation = WhatsappConversation & {
+  contact: { id: number; firstName: string; lastName: string; company: string | null } | null;
+};
+
+interface TeamMember {
+  id: string;
+  firstName: string | null;
+  lastName: string | null;
+  email: string | null;
+}
+
+type InboxFilter = "open" | "mine" | "unassigned" | "closed";
+
+const filterLabels: Record<InboxFilter, string> = {
+  open: "Open",
+  mine: "Mine",
+  unassigned: "Unassigned",
+  closed: "Closed",
+};
+
+const filterQuery: Record<InboxFilter, string> = {
+  open: "status=open",
+  mine: "status=open&assignedTo=me",
+  unassigned: "status=open&assignedTo=unassigned",
+  closed: "status=closed",
+};
+
+const REPLY_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+const contactName = (conversation: InboxConversation) =>
+  conversation.contact
+    ? `${conversation.contact.firstName} ${conversation.contact.lastName}`.trim()
+    : `+${conversation.phone}`;
+
+const memberName = (member: TeamMember) =>
+  `${member.firstName ?? ""} ${member.lastName ?? ""}`.trim() || member.email || member.id;
+
+function StatusIcon({ message }: { message: WhatsappMessageRecord }) {
+  switch (message.status) {
+    case "read":
+      return <CheckCheck className="w-3 h-3 text-blue-500" />;
+    case "delivered":
+      return <CheckCheck className="w-3 h-3" />;
+    case "sent":
+      return <Check className="w-3 h-3" />;
+    case "failed":
+      return <XCircle className="w-3 h-3 text-red-500" />;
+    default:
+      return null;
+  }
+}
+
+// The organization's shared WhatsApp inbox: conversations on the left, the
+// selected one's messages, assignment and reply box on the right
+export default function WhatsAppInbox() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [filter, setFilter] = useState<InboxFilter>("open");
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [reply, setReply] = useState("");
+  const messagesEnd = useRef<HTMLDivElement>(null);
+
+  const conversationsUrl = `/api/whatsapp/conversations?${filterQuery[filter]}`;
+  const { data: conversations = [], isLoading } = useQuery<InboxConversation[]>({
+    queryKey: [conversationsUrl],
+    refetchInterval: 15000,
+  });
+
+  const { data: members = [] } = useQuery<TeamMember[]>({
+    queryKey: ["/api/team/members"],
+  });
+
+  const selected = conversations.find((conversation) => conversation.id === selectedId);
+  const messagesUrl = `/api/whatsapp/conversations/${selectedId}/messages`;
+  const { data: messages = [] } = useQuery<WhatsappMessageRecord[]>({
+    queryKey: [messagesUrl],
+    enabled: selectedId !== null,
+    refetchInterval: 15000,
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({
+      predicate: (query) => String(query.queryKey[0]).startsWith("/api/whatsapp/conversations"),
+    });
+  };
+
+  const readMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("POST", `/api/whatsapp/conversations/${id}/read`);
+    },
+    onSuccess: refresh,
+  });
+
+  // Opening a conversation with unread messages marks it read
+  useEffect(() => {
+    if (selected && selected.unreadCount > 0 && !readMutation.isPending) {
+      readMutation.mutate(selected.id);
+    }
+  }, [selected?.id, selected?.unreadCount]);
+
+  useEffect(() => {
+    messagesEnd.current?.scrollIntoView({ block: "end" });
+  }, [messages.length, selectedId]);
+
+  const updateMutation = useMutation({
+    mutationFn: async (update: { assignedTo?: string | null; status?: "open" | "closed" }) => {
+      const response = await apiRequest("PATCH", `/api/whatsapp/conversations/${selectedId}`, update);
+      return response.json();
+    },
+    onSuccess: refresh,
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update conversation",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const replyMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", messagesUrl, { body: reply });
+      return response.json();
+    },
+    onSuccess: () => {
+      setReply("");
+      refresh();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to send WhatsApp message",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const canReply = !!selected?.lastInboundAt && Date.now() - new Date(selected.lastInboundAt).getTime() < REPLY_WINDOW_MS;
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      <Card className="lg:col-span-1">
+        <CardHeader className="space-y-3">
+          <CardTitle className="flex items-center gap-2">
+            <MessageCircle className="w-5 h-5" />
+            Conversations
+          </CardTitle>
+          <div className="flex flex-wrap gap-1">
+            {(Object.keys(filterLabels) as InboxFilter[]).map((option) => (
+              <Button
+                key={option}
+                size="sm"
+                variant={filter === option ? "default" : "outline"}
+                onClick={() => setFilter(option)}
+              >
+                {filterLabels[option]}
+              </Button>
+            ))}
+          </div>
+        </CardHeader>
+        <CardContent className="p-0">
+          {isLoading ? (
+            <p className="p-4 text-sm text-muted-foreground">Loading...</p>
+          ) : conversations.length === 0 ? (
+            <p className="p-4 text-sm text-muted-foreground">No conversations here.</p>
+          ) : (
+            <div className="max-h-[560px] overflow-y-auto divide-y">
+              {conversations.map((conversation) => (
+                <button
+                  key={conversation.id}
+                  type="button"
+                  onClick={() => setSelectedId(conversation.id)}
+                  className={`w-full text-left px-4 py-3 hover:bg-gray-50 dark:hover:bg-muted ${
+                    conversation.id === selectedId ? "bg-gray-50 dark:bg-muted" : ""
+                  }`}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className={`truncate text-sm ${conversation.unreadCount > 0 ? "font-semibold" : "font-medium"}`}>
+                      {contactName(conversation)}
+                    </span>
+                    {conversation.unreadCount > 0 && (
+                      <Badge className="bg-green-600 hover:bg-green-600">{conversation.unreadCount}</Badge>
+                    )}
+                  </div>
+                  <p className="text-xs text-muted-foreground truncate">{conversation.lastMessagePreview}</p>
+                  {conversation.lastMessageAt && (
+                    <p className="text-xs text-muted-foreground">
+                      {formatDistanceToNow(new Date(conversation.lastMessageAt), { addSuffix: true })}
+                    </p>
+                  )}
+                </button>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="lg:col-span-2">
+        {!selected ? (
+          <CardContent className="p-12 text-center text-sm text-muted-foreground">
+            Select a conversation to read and reply.
+          </CardContent>
+        ) : (
+          <>
+            <CardHeader>
+              <div className="flex flex-wrap items-center justify-between gap-3">
+                <div>
+                  <CardTitle>{contactName(selected)}</CardTitle>
+                  <p className="text-sm text-muted-foreground">
+                    +{selected.phone}
+                    {selected.contact?.company && ` • ${selected.contact.company}`}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Select
+                    value={selected.assignedTo ?? "unassigned"}
+                    onValueChange={(value) => updateMutation.mutate({ assignedTo: value === "unassigned" ? null : value })}
+                  >
+                    <SelectTrigger className="w-44">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="unassigned">Unassigned</SelectItem>
+                      {members.map((member) => (
+                        <SelectItem key={member.id} value={member.id}>
+                          {memberName(member)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => updateMutation.mutate({ status: selected.status === "closed" ? "open" : "closed" })}
+                    disabled={updateMutation.isPending}
+                  >
+                    {selected.status === "closed" ? (
+                      <>
+                        <RotateCcw className="w-4 h-4 mr-1" />
+                        Reopen
+                      </>
+                    ) : (
+                      <>
+                        <Check className="w-4 h-4 mr-1" />
+                        Close
+                      </>
+                    )}
+                  </Button>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="h-[400px] overflow-y-auto space-y-2 rounded-md bg-gray-50 dark:bg-muted p-3">
+                {messages.map((message) => (
+                  <div
+                    key={message.id}
+                    className={`flex ${message.direction === "outbound" ? "justify-end" : "justify-start"}`}
+                  >
+                    <div
+                      className={`max-w-[75%] rounded-lg px-3 py-2 text-sm ${
+                        message.direction === "outbound"
+                          ? "bg-green-100 dark:bg-green-900/30"
+                          : "bg-white dark:bg-card border"
+                      }`}
+                    >
+                      <p className="whitespace-pre-line break-words">{message.body}</p>
+                      <div className="flex items-center justify-end gap-1 mt-1 text-xs text-muted-foreground">
+                        {format(new Date(message.sentAt), "MMM dd, HH:mm")}
+                        {message.direction === "outbound" && <StatusIcon message={message} />}
+                      </div>
+                      {message.status === "failed" && message.errorMessage && (
+                        <p className="text-xs text-red-600 mt-1">{message.errorMessage}</p>
+                      )}
+                    </div>
+                  </div>
+                ))}
+                <div ref={messagesEnd} />
+              </div>
+
+              {canReply ? (
+                <div className="flex gap-2">
+                  <Textarea
+                    value={reply}
+                    onChange={(e) => setReply(e.target.value)}
+                    placeholder="Type a reply..."
+                    rows={2}
+                    className="flex-1"
+                  />
+                  <Button onClick={() => replyMutation.mutate()} disabled={!reply.trim() || replyMutation.isPending}>
+                    {replyMutation.isPending ? <Clock className="w-4 h-4" /> : <Send className="w-4 h-4" />}
+                  </Button>
+                </div>
+              ) : (
+                <div className="flex items-center gap-2 text-sm text-yellow-700 dark:text-yellow-400">
+                  <AlertCircle className="h-4 w-4" />
+                  More than 24 hours since the contact last wrote. WhatsApp only allows template messages until they reply.
+                </div>
+              )}
+            </CardContent>
+          </>
+        )}
+      </Card>
+    </div>
+  );
+}
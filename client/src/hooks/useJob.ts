@@ -0,0 +1,33 @@
+import { useEffect, useRef } from "react";
+import { useQuery } from "@tanstack/react-query";
+import type { Job } from "@shared/schema";
+
+const POLL_INTERVAL_MS = 1000;
+
+const isFinished = (job: Job | undefined) => job?.status === "completed" || job?.status === "dead";
+
+// Polls a background job until it completes or lands in the dead-letter list.
+// onFinished runs once per job with its final state.
+export function useJob(jobId: number | null, onFinished?: (job: Job) => void) {
+  const { data: job } = useQuery<Job>({
+    queryKey: [`/api/jobs/${jobId}`],
+    enabled: jobId !== null,
+    refetchInterval: (query) => (isFinished(query.state.data) ? false : POLL_INTERVAL_MS),
+  });
+
+  const reportedJobId = useRef<number | null>(null);
+  useEffect(() => {
+    if (job && job.id === jobId && isFinished(job) && reportedJobId.current !== job.id) {
+      reportedJobId.current = job.id;
+      onFinished?.(job);
+    }
+  }, [job, jobId, onFinished]);
+
+  const progress = job?.progress?.total ? Math.round((job.progress.done / job.progress.total) * 100) : 0;
+
+  return {
+    job,
+    progress,
+    isRunning: jobId !== null && !isFinished(job),
+  };
+}
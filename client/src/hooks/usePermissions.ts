@@ -0,0 +1,12 @@
+import { useAuth } from "./useAuth";
+import { hasPermission, type Permission } from "@shared/permissions";
+
+export function usePermissions() {
+  const { user } = useAuth();
+  const role = (user as { organizationRole?: string | null } | undefined)?.organizationRole;
+
+  return {
+    role,
+    can: (permission: Permission) => hasPermission(role, permission),
+  };
+}
@@ -0,0 +1,32 @@
+import { useQuery } from "@tanstack/react-query";
+import type { PipelineStage, PipelineWithStages } from "@shared/schema";
+
+// Open stages cycle through these; won and lost stages always use green and red
+const openStageColors = [
+  { className: "bg-gray-100 dark:bg-gray-800", chart: "#E5E7EB" },
+  { className: "bg-blue-100 dark:bg-blue-900/30", chart: "#DBEAFE" },
+  { className: "bg-yellow-100 dark:bg-yellow-900/30", chart: "#FEF3C7" },
+  { className: "bg-orange-100 dark:bg-orange-900/30", chart: "#FFEDD5" },
+  { className: "bg-purple-100 dark:bg-purple-900/30", chart: "#F3E8FF" },
+];
+
+export function stageColor(stage: Pick<PipelineStage, "outcome">, index: number) {
+  if (stage.outcome === "won") return { className: "bg-green-100 dark:bg-green-900/30", chart: "#D1FAE5" };
+  if (stage.outcome === "lost") return { className: "bg-red-100 dark:bg-red-900/30", chart: "#FEE2E2" };
+  return openStageColors[index % openStageColors.length];
+}
+
+export function usePipelines() {
+  const { data: pipelines = [], isLoading } = useQuery<PipelineWithStages[]>({
+    queryKey: ["/api/pipelines"],
+  });
+
+  const stages = pipelines.flatMap((pipeline) => pipeline.stages);
+
+  return {
+    pipelines,
+    isLoading,
+    defaultPipeline: pipelines.find((pipeline) => pipeline.isDefault) ?? pipelines[0],
+    getStage: (stageId: number | null | undefined) => stages.find((stage) => stage.id === stageId),
+  };
+}
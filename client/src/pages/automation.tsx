@@ -7,9 +7,16 @@ import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
-import { AlertTriangle, TrendingUp, Users, Zap, Target, Mail, MessageSquare, Phone, Clock, CheckCircle, Play, Pause, Plus, Brain, Send } from "lucide-react";
+import { AlertTriangle, TrendingUp, Users, Zap, Target, Mail, MessageSquare, Phone, Clock, CheckCircle, Play, Pause, Plus, Brain, Pencil, BarChart3 } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useJob } from "@/hooks/useJob";
+import { usePermissions } from "@/hooks/usePermissions";
+import SequenceEnrollments from "@/components/automation/sequence-enrollments";
+import SequenceBuilder from "@/components/automation/sequence-builder";
+import AbTestResults from "@/components/automation/ab-test-results";
+import type { CampaignSequenceRecord, Job } from "@shared/schema";
+import type { EnrollmentCounts } from "@shared/campaigns";
 
 interface AutomationMetrics {
   processed: number;
@@ -41,18 +48,7 @@ interface ChurnAnalysis {
   }>;
 }
 
-interface CampaignSequence {
-  id: string;
-  name: string;
-  channels: string[];
-  status: 'active' | 'paused' | 'draft';
-  steps: Array<{
-    id: string;
-    sequence: number;
-    channel: string;
-    delay: number;
-  }>;
-}
+type CampaignSequence = CampaignSequenceRecord & { enrollments: EnrollmentCounts };
 
 interface NPSData {
   npsScore: number;
@@ -68,6 +64,11 @@ interface NPSData {
 export default function AutomationPage() {
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const { can } = usePermissions();
+  const [enrollmentSequenceId, setEnrollmentSequenceId] = useState<number | null>(null);
+  // "new" opens the builder on an empty sequence
+  const [builderSequenceId, setBuilderSequenceId] = useState<number | "new" | null>(null);
+  const [resultsSequenceId, setResultsSequenceId] = useState<number | null>(null);
 
   const { data: campaigns, isLoading: campaignsLoading } = useQuery({
     queryKey: ["/api/campaigns/sequences"],
@@ -81,19 +82,42 @@ export default function AutomationPage() {
     queryKey: ["/api/automation/nps-dashboard"],
   });
 
+  const [bulkScoringJobId, setBulkScoringJobId] = useState<number | null>(null);
+
   const bulkScoringMutation = useMutation({
     mutationFn: async () => {
       const response = await apiRequest("POST", "/api/automation/bulk-score-leads");
       return await response.json();
     },
-    onSuccess: (data: AutomationMetrics) => {
+    onSuccess: (job: Job) => {
+      setBulkScoringJobId(job.id);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to start lead scoring",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const bulkScoringJob = useJob(bulkScoringJobId, (job) => {
+    if (job.status === "completed") {
+      const data = job.result as AutomationMetrics;
       toast({
         title: "Bulk Lead Scoring Complete",
         description: `Processed ${data.processed} contacts, triggered ${data.automationTriggered} automations`,
       });
       queryClient.invalidateQueries({ queryKey: ["/api/contacts"] });
-    },
+    } else {
+      toast({
+        title: "Error",
+        description: job.lastError || "Lead scoring failed",
+        variant: "destructive",
+      });
+    }
   });
+  const isBulkScoring = bulkScoringMutation.isPending || bulkScoringJob.isRunning;
 
   const lifecycleRulesMutation = useMutation({
     mutationFn: async () => {
@@ -109,13 +133,27 @@ export default function AutomationPage() {
     },
   });
 
-  const triggerCampaignMutation = useMutation({
-    mutationFn: ({ sequenceId, contactId }: { sequenceId: string; contactId: number }) =>
-      apiRequest("POST", `/api/campaigns/trigger/${sequenceId}`, { contactId }),
-    onSuccess: (data: any) => {
+  const sequenceStatusMutation = useMutation({
+    mutationFn: async ({ id, name, triggers, steps, personalization, abTesting, status }: CampaignSequence) => {
+      const response = await apiRequest("PUT", `/api/campaigns/sequences/${id}`, {
+        name, triggers, steps, personalization, abTesting, status,
+      });
+      return await response.json();
+    },
+    onSuccess: (sequence: CampaignSequenceRecord) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/campaigns/sequences"] });
       toast({
-        title: "Campaign Triggered",
-        description: data?.message || "Campaign triggered successfully",
+        title: sequence.status === "active" ? "Sequence Activated" : "Sequence Paused",
+        description: sequence.status === "active"
+          ? `${sequence.name} is sending again`
+          : `${sequence.name} holds its contacts until it is activated`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update sequence",
+        variant: "destructive",
       });
     },
   });
@@ -134,6 +172,8 @@ export default function AutomationPage() {
   }
 
   const sequences: CampaignSequence[] = Array.isArray(campaigns) ? campaigns : [];
+  const enrollmentSequence = sequences.find((sequence) => sequence.id === enrollmentSequenceId);
+  const resultsSequence = sequences.find((sequence) => sequence.id === resultsSequenceId);
   const churnAnalysis: ChurnAnalysis = (churnData && typeof churnData === 'object' && 'churnAnalysis' in churnData) ? (churnData as any).churnAnalysis : {
     totalContacts: 0,
     atRiskContacts: 0,
@@ -183,11 +223,12 @@ export default function AutomationPage() {
                 <CardContent>
                   <Button 
                     onClick={() => bulkScoringMutation.mutate()}
-                    disabled={bulkScoringMutation.isPending}
+                    disabled={isBulkScoring}
                     className="w-full bg-purple-600 hover:bg-purple-700"
                   >
-                    {bulkScoringMutation.isPending ? "Processing..." : "Run AI Scoring"}
+                    {isBulkScoring ? `Processing... ${bulkScoringJob.progress}%` : "Run AI Scoring"}
                   </Button>
+                  {bulkScoringJob.isRunning && <Progress value={bulkScoringJob.progress} className="mt-3" />}
                 </CardContent>
               </Card>
 
@@ -273,45 +314,16 @@ export default function AutomationPage() {
                   Multi-channel automation sequences
                 </p>
               </div>
-              <Button className="bg-green-600 hover:bg-green-700">
-                <Plus className="h-4 w-4 mr-2" />
-                Create Sequence
-              </Button>
+              {can("campaigns:manage") && (
+                <Button className="bg-green-600 hover:bg-green-700" onClick={() => setBuilderSequenceId("new")}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Create Sequence
+                </Button>
+              )}
             </div>
 
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-              {[
-                {
-                  id: "welcome",
-                  name: "Welcome Series",
-                  channels: ["email", "sms"],
-                  status: "active",
-                  steps: 5,
-                  sent: 342,
-                  opened: 287,
-                  clicked: 156
-                },
-                {
-                  id: "nurture",
-                  name: "Lead Nurture",
-                  channels: ["email", "whatsapp"],
-                  status: "active",
-                  steps: 7,
-                  sent: 189,
-                  opened: 134,
-                  clicked: 67
-                },
-                {
-                  id: "reengagement",
-                  name: "Re-engagement",
-                  channels: ["email", "push"],
-                  status: "paused",
-                  steps: 3,
-                  sent: 78,
-                  opened: 23,
-                  clicked: 8
-                }
-              ].map((sequence) => (
+              {sequences.map((sequence) => (
                 <Card key={sequence.id}>
                   <CardHeader>
                     <div className="flex items-center justify-between">
@@ -321,33 +333,56 @@ export default function AutomationPage() {
                       </Badge>
                     </div>
                     <CardDescription>
-                      {sequence.steps} steps • {sequence.channels.join(", ")}
+                      {sequence.steps.length} steps • {sequence.channels.join(", ")}
                     </CardDescription>
                   </CardHeader>
                   <CardContent>
                     <div className="space-y-3">
                       <div className="grid grid-cols-3 gap-2 text-sm">
                         <div className="text-center">
-                          <div className="font-semibold">{sequence.sent}</div>
-                          <div className="text-muted-foreground">Sent</div>
+                          <div className="font-semibold">{sequence.enrollments.active + sequence.enrollments.paused}</div>
+                          <div className="text-muted-foreground">Enrolled</div>
                         </div>
                         <div className="text-center">
-                          <div className="font-semibold">{sequence.opened}</div>
-                          <div className="text-muted-foreground">Opened</div>
+                          <div className="font-semibold">{sequence.enrollments.completed}</div>
+                          <div className="text-muted-foreground">Completed</div>
                         </div>
                         <div className="text-center">
-                          <div className="font-semibold">{sequence.clicked}</div>
-                          <div className="text-muted-foreground">Clicked</div>
+                          <div className="font-semibold">{sequence.enrollments.exited}</div>
+                          <div className="text-muted-foreground">Exited</div>
                         </div>
                       </div>
-                      <div className="flex gap-2">
-                        <Button size="sm" variant="outline" className="flex-1">
-                          {sequence.status === "active" ? <Pause className="h-3 w-3 mr-1" /> : <Play className="h-3 w-3 mr-1" />}
-                          {sequence.status === "active" ? "Pause" : "Start"}
-                        </Button>
-                        <Button size="sm" variant="ghost" className="flex-1">
-                          <Send className="h-3 w-3 mr-1" />
-                          Test
+                      <div className="flex flex-wrap gap-2">
+                        {can("campaigns:manage") && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            className="flex-1"
+                            disabled={sequenceStatusMutation.isPending}
+                            onClick={() => sequenceStatusMutation.mutate({
+                              ...sequence,
+                              status: sequence.status === "active" ? "paused" : "active",
+                            })}
+                          >
+                            {sequence.status === "active" ? <Pause className="h-3 w-3 mr-1" /> : <Play className="h-3 w-3 mr-1" />}
+                            {sequence.status === "active" ? "Pause" : "Activate"}
+                          </Button>
+                        )}
+                        {can("campaigns:manage") && (
+                          <Button size="sm" variant="ghost" className="flex-1" onClick={() => setBuilderSequenceId(sequence.id)}>
+                            <Pencil className="h-3 w-3 mr-1" />
+                            Edit
+                          </Button>
+                        )}
+                        {sequence.steps.some((step) => (step.content.abVariants?.length ?? 0) >= 2) && (
+                          <Button size="sm" variant="ghost" className="flex-1" onClick={() => setResultsSequenceId(sequence.id)}>
+                            <BarChart3 className="h-3 w-3 mr-1" />
+                            A/B
+                          </Button>
+                        )}
+                        <Button size="sm" variant="ghost" className="flex-1" onClick={() => setEnrollmentSequenceId(sequence.id)}>
+                          <Users className="h-3 w-3 mr-1" />
+                          Enrollments
                         </Button>
                       </div>
                     </div>
@@ -355,6 +390,25 @@ export default function AutomationPage() {
                 </Card>
               ))}
             </div>
+            <SequenceBuilder
+              sequence={sequences.find((sequence) => sequence.id === builderSequenceId)}
+              open={builderSequenceId !== null}
+              onOpenChange={(open) => !open && setBuilderSequenceId(null)}
+            />
+            {resultsSequence && (
+              <AbTestResults
+                sequence={resultsSequence}
+                open={resultsSequence !== undefined}
+                onOpenChange={(open) => !open && setResultsSequenceId(null)}
+              />
+            )}
+            {enrollmentSequence && (
+              <SequenceEnrollments
+                sequence={enrollmentSequence}
+                open={enrollmentSequence !== undefined}
+                onOpenChange={(open) => !open && setEnrollmentSequenceId(null)}
+              />
+            )}
           </TabsContent>
 
           <TabsContent value="churn" className="space-y-6">
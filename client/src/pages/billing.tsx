@@ -17,6 +17,7 @@ import {
   Zap
 } from "lucide-react";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { usePermissions } from "@/hooks/usePermissions";
 
 interface PlanFeature {
   name: string;
@@ -37,6 +38,8 @@ interface Plan {
 export default function Billing() {
   const { toast } = useToast();
   const [selectedPlan, setSelectedPlan] = useState<string | null>(null);
+  const { can } = usePermissions();
+  const canManageBilling = can("billing:manage");
 
   const { data: currentPlan, isLoading: planLoading } = useQuery({
     queryKey: ["/api/billing/current-plan"],
@@ -231,9 +234,11 @@ export default function Billing() {
                   You're approaching your contact limit. Consider upgrading to avoid service interruption.
                 </p>
               </div>
-              <Button variant="outline" size="sm" className="ml-auto">
-                Upgrade Now
-              </Button>
+              {canManageBilling && (
+                <Button variant="outline" size="sm" className="ml-auto">
+                  Upgrade Now
+                </Button>
+              )}
             </div>
           </CardContent>
         </Card>
@@ -275,7 +280,7 @@ export default function Billing() {
                     </li>
                   ))}
                 </ul>
-                {!plan.current && (
+                {!plan.current && canManageBilling && (
                   <Button 
                     onClick={() => handleChangePlan(plan.id)}
                     disabled={changePlanMutation.isPending}
@@ -285,7 +290,7 @@ export default function Billing() {
                      plan.price === 0 ? 'Downgrade' : 'Upgrade'}
                   </Button>
                 )}
-                {plan.current && plan.price > 0 && (
+                {plan.current && plan.price > 0 && canManageBilling && (
                   <Button 
                     onClick={() => cancelSubscriptionMutation.mutate()}
                     disabled={cancelSubscriptionMutation.isPending}
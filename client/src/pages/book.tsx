@@ -0,0 +1,309 @@
+import { useMemo, useState } from "react";
+import { Link } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { addDays, format, startOfDay } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { AlertCircle, ArrowLeft, CalendarCheck, Clock, MapPin, Video } from "lucide-react";
+import { bookingPath, type BookingQuestion } from "@shared/booking";
+
+interface PublicBookingType {
+  slug: string;
+  name: string;
+  description: string | null;
+  meetingType: string;
+  duration: number;
+  location: string | null;
+  questions: BookingQuestion[];
+}
+
+interface PublicBookingPage {
+  slug: string;
+  title: string;
+  description: string | null;
+  hostName: string;
+  organizationName: string | null;
+  types: PublicBookingType[];
+}
+
+interface Slot {
+  start: string;
+  end: string;
+}
+
+interface Booked {
+  title: string;
+  startTime: string;
+  endTime: string;
+  meetingLink: string | null;
+  location: string | null;
+}
+
+const DAYS_SHOWN = 14;
+
+// Public page prospects reach from a shared link or a campaign's booking merge tag.
+// Without a meeting type it lists the host's types; with one it offers slots and the form.
+export default function Book({ params }: { params: { slug: string; typeSlug?: string } }) {
+  const pageUrl = `/api/book/${params.slug}`;
+  const { data: page, isLoading, error } = useQuery<PublicBookingPage>({
+    queryKey: [pageUrl],
+  });
+  const type = page?.types.find((option) => option.slug === params.typeSlug);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 dark:bg-background p-4">
+      <Card className="w-full max-w-2xl">
+        <CardHeader className="text-center">
+          <div className="mx-auto mb-2 w-12 h-12 rounded-full bg-blue-100 dark:bg-blue-900/30 flex items-center justify-center">
+            <CalendarCheck className="h-6 w-6 text-blue-600" />
+          </div>
+          <CardTitle>{page?.title ?? "Book a Meeting"}</CardTitle>
+          {page && (
+            <CardDescription>
+              {page.hostName}
+              {page.organizationName && ` • ${page.organizationName}`}
+            </CardDescription>
+          )}
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <p className="text-sm text-center text-muted-foreground">Loading...</p>
+          ) : error || !page || (params.typeSlug && !type) ? (
+            <div className="flex items-center justify-center gap-2 text-sm text-red-600">
+              <AlertCircle className="h-4 w-4" />
+              This booking link isn't available.
+            </div>
+          ) : type ? (
+            <BookingForm page={page} type={type} />
+          ) : (
+            <div className="space-y-3">
+              {page.description && (
+                <p className="text-sm text-muted-foreground whitespace-pre-line text-center">{page.description}</p>
+              )}
+              {page.types.length === 0 ? (
+                <p className="text-sm text-center text-muted-foreground">Nothing can be booked right now.</p>
+              ) : (
+                page.types.map((option) => (
+                  <Link key={option.slug} href={bookingPath(page.slug, option.slug) + window.location.search}>
+                    <div className="rounded-md border p-4 cursor-pointer hover:bg-gray-50 dark:hover:bg-muted">
+                      <div className="font-medium">{option.name}</div>
+                      <p className="text-sm text-muted-foreground flex items-center gap-1">
+                        <Clock className="w-3 h-3" />
+                        {option.duration} minutes
+                      </p>
+                      {option.description && <p className="text-sm mt-1">{option.description}</p>}
+                    </div>
+                  </Link>
+                ))
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+function BookingForm({ page, type }: { page: PublicBookingPage; type: PublicBookingType }) {
+  // Campaign links carry the contact's name and email
+  const prefill = new URLSearchParams(window.location.search);
+  const [form, setForm] = useState({
+    name: prefill.get("name") ?? "",
+    email: prefill.get("email") ?? "",
+    phone: "",
+    company: "",
+  });
+  const [answers, setAnswers] = useState<Record<string, string>>({});
+  const [day, setDay] = useState<string | null>(null);
+  const [slot, setSlot] = useState<Slot | null>(null);
+  const [booked, setBooked] = useState<Booked | null>(null);
+
+  const from = useMemo(() => startOfDay(new Date()), []);
+  const slotsUrl = `/api/book/${page.slug}/${type.slug}/slots?from=${from.toISOString()}&to=${addDays(from, DAYS_SHOWN).toISOString()}`;
+  const { data: slots = [], isLoading } = useQuery<Slot[]>({
+    queryKey: [slotsUrl],
+  });
+
+  const days = new Map<string, Slot[]>();
+  for (const option of slots) {
+    const key = format(new Date(option.start), "yyyy-MM-dd");
+    days.set(key, [...(days.get(key) ?? []), option]);
+  }
+  const selectedDay = day && days.has(day) ? day : Array.from(days.keys())[0] ?? null;
+
+  const bookMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/book/${page.slug}/${type.slug}`, {
+        start: slot!.start,
+        name: form.name,
+        email: form.email,
+        phone: form.phone || undefined,
+        company: form.company || undefined,
+        answers,
+      });
+      return response.json();
+    },
+    onSuccess: (result: Booked) => setBooked(result),
+    onError: (error: any) => {
+      // Someone else took the slot in the meantime
+      if (String(error.message).startsWith("409")) {
+        setSlot(null);
+        queryClient.invalidateQueries({ queryKey: [slotsUrl] });
+      }
+    },
+  });
+
+  const missingAnswer = type.questions.some((question) => question.required && !answers[question.id]?.trim());
+
+  if (booked) {
+    return (
+      <div className="space-y-3 text-center">
+        <p className="font-medium">You're booked!</p>
+        <p className="text-sm">{booked.title}</p>
+        <p className="text-sm text-muted-foreground">
+          {format(new Date(booked.startTime), "EEEE, MMMM d, yyyy HH:mm")} - {format(new Date(booked.endTime), "HH:mm")}
+        </p>
+        {booked.meetingLink && (
+          <p className="text-sm flex items-center justify-center gap-1">
+            <Video className="w-4 h-4" />
+            <a href={booked.meetingLink} className="text-blue-600 hover:underline">{booked.meetingLink}</a>
+          </p>
+        )}
+        {booked.location && (
+          <p className="text-sm flex items-center justify-center gap-1">
+            <MapPin className="w-4 h-4" />
+            {booked.location}
+          </p>
+        )}
+        <p className="text-xs text-muted-foreground">An invitation is on its way to {form.email}.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <Link href={bookingPath(page.slug) + window.location.search}>
+          <span className="text-sm text-blue-600 hover:underline cursor-pointer inline-flex items-center gap-1">
+            <ArrowLeft className="w-3 h-3" />
+            All meeting types
+          </span>
+        </Link>
+        <h3 className="font-medium mt-2">{type.name}</h3>
+        <p className="text-sm text-muted-foreground flex items-center gap-1">
+          <Clock className="w-3 h-3" />
+          {type.duration} minutes
+          {type.location && ` • ${type.location}`}
+        </p>
+        {type.description && <p className="text-sm mt-1 whitespace-pre-line">{type.description}</p>}
+      </div>
+
+      {!slot ? (
+        isLoading ? (
+          <p className="text-sm text-muted-foreground">Finding open times...</p>
+        ) : days.size === 0 ? (
+          <p className="text-sm text-muted-foreground">No open times in the next {DAYS_SHOWN} days.</p>
+        ) : (
+          <div className="space-y-4">
+            {bookMutation.isError && (
+              <div className="flex items-center gap-2 text-sm text-red-600">
+                <AlertCircle className="h-4 w-4" />
+                That time was just taken. Please pick another.
+              </div>
+            )}
+            <p className="text-xs text-muted-foreground">
+              Times are shown in your time zone ({Intl.DateTimeFormat().resolvedOptions().timeZone.replace(/_/g, " ")})
+            </p>
+            <div className="flex flex-wrap gap-2">
+              {Array.from(days.keys()).map((key) => (
+                <Button
+                  key={key}
+                  size="sm"
+                  variant={key === selectedDay ? "default" : "outline"}
+                  onClick={() => setDay(key)}
+                >
+                  {format(new Date(`${key}T00:00:00`), "EEE, MMM d")}
+                </Button>
+              ))}
+            </div>
+            <div className="grid grid-cols-3 sm:grid-cols-4 gap-2">
+              {(selectedDay ? days.get(selectedDay) ?? [] : []).map((option) => (
+                <Button key={option.start} variant="outline" onClick={() => { bookMutation.reset(); setSlot(option); }}>
+                  {format(new Date(option.start), "HH:mm")}
+                </Button>
+              ))}
+            </div>
+          </div>
+        )
+      ) : (
+        <div className="space-y-4">
+          <div className="flex items-center justify-between rounded-md bg-blue-50 dark:bg-blue-900/20 p-3 text-sm">
+            {format(new Date(slot.start), "EEEE, MMMM d, HH:mm")} - {format(new Date(slot.end), "HH:mm")}
+            <Button variant="ghost" size="sm" onClick={() => setSlot(null)}>
+              Change
+            </Button>
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="book-name">Name *</Label>
+              <Input id="book-name" value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} className="mt-1" />
+            </div>
+            <div>
+              <Label htmlFor="book-email">Email *</Label>
+              <Input id="book-email" type="email" value={form.email} onChange={(e) => setForm({ ...form, email: e.target.value })} className="mt-1" />
+            </div>
+            <div>
+              <Label htmlFor="book-phone">Phone</Label>
+              <Input id="book-phone" value={form.phone} onChange={(e) => setForm({ ...form, phone: e.target.value })} className="mt-1" />
+            </div>
+            <div>
+              <Label htmlFor="book-company">Company</Label>
+              <Input id="book-company" value={form.company} onChange={(e) => setForm({ ...form, company: e.target.value })} className="mt-1" />
+            </div>
+          </div>
+          {type.questions.map((question) => (
+            <div key={question.id}>
+              <Label htmlFor={`book-${question.id}`}>
+                {question.label}
+                {question.required && " *"}
+              </Label>
+              {question.type === "textarea" ? (
+                <Textarea
+                  id={`book-${question.id}`}
+                  value={answers[question.id] ?? ""}
+                  onChange={(e) => setAnswers({ ...answers, [question.id]: e.target.value })}
+                  rows={3}
+                  className="mt-1"
+                />
+              ) : (
+                <Input
+                  id={`book-${question.id}`}
+                  value={answers[question.id] ?? ""}
+                  onChange={(e) => setAnswers({ ...answers, [question.id]: e.target.value })}
+                  className="mt-1"
+                />
+              )}
+            </div>
+          ))}
+          {bookMutation.isError && (
+            <div className="flex items-center gap-2 text-sm text-red-600">
+              <AlertCircle className="h-4 w-4" />
+              We couldn't book this meeting. Check your details and try again.
+            </div>
+          )}
+          <Button
+            className="w-full"
+            onClick={() => bookMutation.mutate()}
+            disabled={!form.name.trim() || !form.email.trim() || missingAnswer || bookMutation.isPending}
+          >
+            {bookMutation.isPending ? "Booking..." : "Confirm Booking"}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
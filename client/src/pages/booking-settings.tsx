@@ -0,0 +1,601 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { memberName } from "@/components/deals/owner-select";
+import { CalendarClock, Copy, Edit, Plus, Trash, Trash2, Users } from "lucide-react";
+import { meetingTypes, type BookingPage, type BookingType, type CampaignSequenceRecord, type MeetingType, type User } from "@shared/schema";
+import { bookingPath, type BookingHostMode, type BookingQuestion, type BookingTypeInput, type RoundRobinBalance } from "@shared/booking";
+
+const meetingTypeLabels: Record<MeetingType, string> = {
+  call: "Phone call",
+  video: "Video call",
+  "in-person": "In person",
+  demo: "Demo",
+  "follow-up": "Follow-up",
+};
+
+const hostModeLabels: Record<BookingHostMode, string> = {
+  owner: "Just me",
+  "round-robin": "Round robin",
+  collective: "Everyone together",
+};
+
+const balanceLabels: Record<RoundRobinBalance, string> = {
+  load: "Fewest upcoming meetings",
+  "lead-owner": "Lead owner first",
+};
+
+const emptyType: BookingTypeInput = {
+  slug: "",
+  name: "",
+  description: "",
+  meetingType: "call",
+  duration: 30,
+  location: "",
+  questions: [],
+  sequenceId: null,
+  isActive: true,
+  hostMode: "owner",
+  poolUserIds: [],
+  balanceBy: "load",
+};
+
+const slugify = (value: string) =>
+  value.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "").slice(0, 60);
+
+export default function BookingSettings() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [pageForm, setPageForm] = useState({ slug: "", title: "", description: "", isActive: true });
+  const [editing, setEditing] = useState<{ id: number | null; type: BookingTypeInput } | null>(null);
+
+  const { data, isLoading } = useQuery<{ page: BookingPage | null; types: BookingType[] }>({
+    queryKey: ["/api/booking-page"],
+  });
+  const page = data?.page ?? null;
+  const types = data?.types ?? [];
+
+  const { data: sequences = [] } = useQuery<CampaignSequenceRecord[]>({
+    queryKey: ["/api/campaigns/sequences"],
+  });
+  const { data: members = [] } = useQuery<User[]>({
+    queryKey: ["/api/team/members"],
+  });
+
+  useEffect(() => {
+    if (page) {
+      setPageForm({ slug: page.slug, title: page.title, description: page.description ?? "", isActive: page.isActive });
+    }
+  }, [page]);
+
+  const pageUrl = (typeSlug?: string) => page ? `${window.location.origin}${bookingPath(page.slug, typeSlug)}` : "";
+
+  const copy = (text: string) => {
+    navigator.clipboard.writeText(text);
+    toast({ title: "Copied", description: text });
+  };
+
+  const savePageMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PUT", "/api/booking-page", {
+        ...pageForm,
+        description: pageForm.description || null,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/booking-page"] });
+      toast({ title: "Booking page saved", description: "Share the link so prospects can book time with you." });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save booking page",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const saveTypeMutation = useMutation({
+    mutationFn: async ({ id, type }: { id: number | null; type: BookingTypeInput }) => {
+      const body = { ...type, description: type.description || null, location: type.location || null };
+      const response = id
+        ? await apiRequest("PUT", `/api/booking-page/types/${id}`, body)
+        : await apiRequest("POST", "/api/booking-page/types", body);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/booking-page"] });
+      setEditing(null);
+      toast({ title: "Meeting type saved", description: "Prospects can book it from your page." });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save meeting type",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteTypeMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/booking-page/types/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/booking-page"] });
+      toast({ title: "Meeting type deleted", description: "Meetings already booked are kept." });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete meeting type",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateEditing = (changes: Partial<BookingTypeInput>) =>
+    editing && setEditing({ ...editing, type: { ...editing.type, ...changes } });
+
+  const updateQuestion = (index: number, changes: Partial<BookingQuestion>) =>
+    editing && updateEditing({
+      questions: editing.type.questions.map((question, i) => (i === index ? { ...question, ...changes } : question)),
+    });
+
+  return (
+    <div className="p-8 max-w-5xl mx-auto overflow-auto">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">Booking Page</h1>
+        <p className="text-gray-600">
+          A public link where prospects pick a time with you. Bookings land on your calendar and the contact's timeline.
+        </p>
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-gray-500">Loading...</p>
+      ) : (
+        <>
+          <Card className="mb-8">
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <CardTitle className="flex items-center gap-2">
+                  <CalendarClock className="w-5 h-5" />
+                  Your page
+                </CardTitle>
+                {page && (
+                  <Badge variant={page.isActive ? "secondary" : "outline"}>{page.isActive ? "Live" : "Off"}</Badge>
+                )}
+              </div>
+              {page && (
+                <CardDescription className="flex items-center gap-2">
+                  <a href={bookingPath(page.slug)} target="_blank" rel="noreferrer" className="text-blue-600 hover:underline">
+                    {pageUrl()}
+                  </a>
+                  <Button variant="ghost" size="sm" onClick={() => copy(pageUrl())}>
+                    <Copy className="w-4 h-4" />
+                  </Button>
+                </CardDescription>
+              )}
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="booking-title">Title</Label>
+                  <Input
+                    id="booking-title"
+                    value={pageForm.title}
+                    onChange={(e) => setPageForm({
+                      ...pageForm,
+                      title: e.target.value,
+                      slug: page ? pageForm.slug : slugify(e.target.value),
+                    })}
+                    placeholder="Meet with Jane"
+                    className="mt-1"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="booking-slug">Link</Label>
+                  <div className="flex items-center mt-1">
+                    <span className="text-sm text-muted-foreground mr-1">/book/</span>
+                    <Input
+                      id="booking-slug"
+                      value={pageForm.slug}
+                      onChange={(e) => setPageForm({ ...pageForm, slug: e.target.value.toLowerCase() })}
+                      placeholder="jane"
+                    />
+                  </div>
+                </div>
+              </div>
+              <div>
+                <Label htmlFor="booking-description">Welcome message</Label>
+                <Textarea
+                  id="booking-description"
+                  value={pageForm.description}
+                  onChange={(e) => setPageForm({ ...pageForm, description: e.target.value })}
+                  rows={2}
+                  className="mt-1"
+                />
+              </div>
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id="booking-active"
+                    checked={pageForm.isActive}
+                    onCheckedChange={(checked) => setPageForm({ ...pageForm, isActive: checked })}
+                  />
+                  <Label htmlFor="booking-active">Taking bookings</Label>
+                </div>
+                <Button
+                  onClick={() => savePageMutation.mutate()}
+                  disabled={!pageForm.slug || !pageForm.title || savePageMutation.isPending}
+                >
+                  {savePageMutation.isPending ? "Saving..." : page ? "Save Page" : "Create Page"}
+                </Button>
+              </div>
+              {page && (
+                <p className="text-xs text-muted-foreground">
+                  To link to it from a campaign, map a merge tag such as <code>demoLink</code> to{" "}
+                  <code>booking.{page.slug}</code>, or <code>booking.{page.slug}/&lt;meeting type link&gt;</code> for one
+                  meeting type. The link fills in the contact's name and email.
+                </p>
+              )}
+            </CardContent>
+          </Card>
+
+          {page && (
+            <Card>
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <div>
+                    <CardTitle>Meeting types</CardTitle>
+                    <CardDescription>What prospects can book, how long it takes and what you ask them first</CardDescription>
+                  </div>
+                  <Button onClick={() => setEditing({ id: null, type: emptyType })}>
+                    <Plus className="w-4 h-4 mr-2" />
+                    Add Meeting Type
+                  </Button>
+                </div>
+              </CardHeader>
+              <CardContent>
+                {types.length === 0 ? (
+                  <p className="text-sm text-gray-500">No meeting types yet. Add one to start taking bookings.</p>
+                ) : (
+                  <div className="divide-y">
+                    {types.map((type) => (
+                      <div key={type.id} className="flex items-center justify-between py-3">
+                        <div>
+                          <div className="font-medium flex items-center gap-2">
+                            {type.name}
+                            {!type.isActive && <Badge variant="outline">Off</Badge>}
+                          </div>
+                          <p className="text-sm text-muted-foreground">
+                            {type.duration} min • {meetingTypeLabels[type.meetingType as MeetingType] ?? type.meetingType}
+                            {type.questions.length > 0 && ` • ${type.questions.length} question${type.questions.length === 1 ? "" : "s"}`}
+                            {type.sequenceId && ` • Follow-up: ${sequences.find((sequence) => sequence.id === type.sequenceId)?.name ?? "sequence"}`}
+                            {type.hostMode !== "owner" && ` • ${hostModeLabels[type.hostMode]} across ${type.poolUserIds.length} members`}
+                          </p>
+                        </div>
+                        <div className="flex gap-1">
+                          <Button variant="ghost" size="sm" onClick={() => copy(pageUrl(type.slug))}>
+                            <Copy className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setEditing({
+                              id: type.id,
+                              type: {
+                                slug: type.slug,
+                                name: type.name,
+                                description: type.description ?? "",
+                                meetingType: type.meetingType as MeetingType,
+                                duration: type.duration,
+                                location: type.location ?? "",
+                                questions: type.questions,
+                                sequenceId: type.sequenceId,
+                                isActive: type.isActive,
+                                hostMode: type.hostMode,
+                                poolUserIds: type.poolUserIds,
+                                balanceBy: type.balanceBy,
+                              },
+                            })}
+                          >
+                            <Edit className="w-4 h-4" />
+                          </Button>
+                          <Button variant="ghost" size="sm" onClick={() => deleteTypeMutation.mutate(type.id)}>
+                            <Trash className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          )}
+        </>
+      )}
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editing?.id ? "Edit Meeting Type" : "New Meeting Type"}</DialogTitle>
+          </DialogHeader>
+          {editing && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label>Name</Label>
+                  <Input
+                    value={editing.type.name}
+                    onChange={(e) => updateEditing({
+                      name: e.target.value,
+                      slug: editing.id ? editing.type.slug : slugify(e.target.value),
+                    })}
+                    placeholder="30 minute demo"
+                    className="mt-1"
+                  />
+                </div>
+                <div>
+                  <Label>Link</Label>
+                  <Input
+                    value={editing.type.slug}
+                    onChange={(e) => updateEditing({ slug: e.target.value.toLowerCase() })}
+                    placeholder="demo"
+                    className="mt-1"
+                  />
+                </div>
+                <div>
+                  <Label>Kind of meeting</Label>
+                  <Select
+                    value={editing.type.meetingType}
+                    onValueChange={(value) => updateEditing({ meetingType: value as MeetingType })}
+                  >
+                    <SelectTrigger className="mt-1">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {meetingTypes.map((option) => (
+                        <SelectItem key={option} value={option}>
+                          {meetingTypeLabels[option]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label>Duration (minutes)</Label>
+                  <Select
+                    value={String(editing.type.duration)}
+                    onValueChange={(value) => updateEditing({ duration: parseInt(value) })}
+                  >
+                    <SelectTrigger className="mt-1">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {[15, 30, 45, 60, 90, 120].map((minutes) => (
+                        <SelectItem key={minutes} value={String(minutes)}>
+                          {minutes} minutes
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div>
+                <Label>Location</Label>
+                <Input
+                  value={editing.type.location ?? ""}
+                  onChange={(e) => updateEditing({ location: e.target.value })}
+                  placeholder={editing.type.meetingType === "video" ? "A video link is created for each meeting" : "Office address or phone number"}
+                  className="mt-1"
+                />
+              </div>
+              <div>
+                <Label>Description</Label>
+                <Textarea
+                  value={editing.type.description ?? ""}
+                  onChange={(e) => updateEditing({ description: e.target.value })}
+                  rows={2}
+                  className="mt-1"
+                />
+              </div>
+              <div>
+                <Label>Follow-up sequence</Label>
+                <Select
+                  value={editing.type.sequenceId ? String(editing.type.sequenceId) : "none"}
+                  onValueChange={(value) => updateEditing({ sequenceId: value === "none" ? null : parseInt(value) })}
+                >
+                  <SelectTrigger className="mt-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Don't enroll</SelectItem>
+                    {sequences.map((sequence) => (
+                      <SelectItem key={sequence.id} value={String(sequence.id)}>
+                        {sequence.name}{sequence.status !== "active" ? ` (${sequence.status})` : ""}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground mt-1">
+                  People who book are enrolled once the sequence is active.
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                <Label className="flex items-center gap-2">
+                  <Users className="w-4 h-4" />
+                  Hosted by
+                </Label>
+                <div className="grid grid-cols-2 gap-4">
+                  <Select
+                    value={editing.type.hostMode}
+                    onValueChange={(value) => {
+                      const hostMode = value as BookingHostMode;
+                      // Start a new pool with the page owner in it
+                      const poolUserIds = hostMode !== "owner" && editing.type.poolUserIds.length === 0 && page
+                        ? [page.userId]
+                        : editing.type.poolUserIds;
+                      updateEditing({ hostMode, poolUserIds });
+                    }}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(hostModeLabels) as BookingHostMode[]).map((mode) => (
+                        <SelectItem key={mode} value={mode}>
+                          {hostModeLabels[mode]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {editing.type.hostMode === "round-robin" && (
+                    <Select
+                      value={editing.type.balanceBy}
+                      onValueChange={(value) => updateEditing({ balanceBy: value as RoundRobinBalance })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(balanceLabels) as RoundRobinBalance[]).map((balance) => (
+                          <SelectItem key={balance} value={balance}>
+                            {balanceLabels[balance]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                </div>
+                {editing.type.hostMode !== "owner" && (
+                  <>
+                    <p className="text-xs text-muted-foreground">
+                      {editing.type.hostMode === "round-robin"
+                        ? editing.type.balanceBy === "lead-owner"
+                          ? "Each meeting goes to the contact's deal owner when they're free, otherwise to whoever has the fewest upcoming meetings."
+                          : "Each meeting goes to the free member with the fewest upcoming meetings."
+                        : "Only times when every member is free are offered, and everyone is invited."}
+                    </p>
+                    <div className="grid grid-cols-2 gap-2 rounded-md border p-3">
+                      {members.map((member) => (
+                        <div key={member.id} className="flex items-center gap-2">
+                          <Checkbox
+                            id={`pool-${member.id}`}
+                            checked={editing.type.poolUserIds.includes(member.id)}
+                            onCheckedChange={(checked) => updateEditing({
+                              poolUserIds: checked
+                                ? [...editing.type.poolUserIds, member.id]
+                                : editing.type.poolUserIds.filter((userId) => userId !== member.id),
+                            })}
+                          />
+                          <Label htmlFor={`pool-${member.id}`} className="font-normal">{memberName(member)}</Label>
+                        </div>
+                      ))}
+                    </div>
+                    {editing.type.poolUserIds.length < 2 && (
+                      <p className="text-xs text-red-600">Pick at least two members.</p>
+                    )}
+                  </>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label>Questions</Label>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={editing.type.questions.length >= 10}
+                    onClick={() => updateEditing({
+                      questions: [
+                        ...editing.type.questions,
+                        { id: `q-${Math.random().toString(36).slice(2, 10)}`, label: "", type: "text", required: false },
+                      ],
+                    })}
+                  >
+                    <Plus className="w-4 h-4 mr-1" />
+                    Add Question
+                  </Button>
+                </div>
+                {editing.type.questions.map((question, index) => (
+                  <div key={question.id} className="flex items-center gap-2">
+                    <Input
+                      value={question.label}
+                      onChange={(e) => updateQuestion(index, { label: e.target.value })}
+                      placeholder="What would you like to discuss?"
+                    />
+                    <Select
+                      value={question.type}
+                      onValueChange={(value) => updateQuestion(index, { type: value as BookingQuestion["type"] })}
+                    >
+                      <SelectTrigger className="w-32">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="text">Short</SelectItem>
+                        <SelectItem value="textarea">Long</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <div className="flex items-center gap-1">
+                      <Switch
+                        checked={question.required}
+                        onCheckedChange={(checked) => updateQuestion(index, { required: checked })}
+                      />
+                      <span className="text-xs text-muted-foreground">Required</span>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => updateEditing({ questions: editing.type.questions.filter((_, i) => i !== index) })}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="booking-type-active"
+                  checked={editing.type.isActive}
+                  onCheckedChange={(checked) => updateEditing({ isActive: checked })}
+                />
+                <Label htmlFor="booking-type-active">Bookable</Label>
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => editing && saveTypeMutation.mutate(editing)}
+              disabled={
+                !editing?.type.name
+                || !editing?.type.slug
+                || (editing.type.hostMode !== "owner" && editing.type.poolUserIds.length < 2)
+                || saveTypeMutation.isPending
+              }
+            >
+              {saveTypeMutation.isPending ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,298 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import AvailabilitySettings from "@/components/calendar/availability-settings";
+import { AlertCircle, CalendarDays, Copy, Link2, Loader2, RefreshCw, Unplug } from "lucide-react";
+import type { CalendarAccount } from "@shared/schema";
+
+type CalendarAccountSummary = Omit<CalendarAccount, "encryptedPassword">;
+
+interface CalendarConnection {
+  feedPath: string | null;
+  account: CalendarAccountSummary | null;
+}
+
+const emptyForm = { serverUrl: "", username: "", password: "" };
+
+export default function CalendarSettings() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState(emptyForm);
+
+  const { data, isLoading } = useQuery<CalendarConnection>({
+    queryKey: ["/api/calendar/connection"],
+  });
+  const account = data?.account ?? null;
+  const feedUrl = data?.feedPath ? `${window.location.origin}${data.feedPath}` : null;
+
+  useEffect(() => {
+    if (account) {
+      setForm({ serverUrl: account.serverUrl, username: account.username, password: "" });
+    }
+  }, [account]);
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ["/api/calendar/connection"] });
+
+  const feedMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/calendar/feed");
+      return response.json();
+    },
+    onSuccess: () => {
+      refresh();
+      toast({
+        title: feedUrl ? "New feed link created" : "Calendar feed created",
+        description: feedUrl ? "The old link no longer works." : "Subscribe to the link from your calendar app.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to create calendar feed",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const stopFeedMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", "/api/calendar/feed");
+    },
+    onSuccess: refresh,
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to turn off calendar feed",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PUT", "/api/calendar/account", {
+        ...form,
+        password: form.password || undefined,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      refresh();
+      toast({
+        title: "Calendar connected",
+        description: "Busy times from your calendar will block booking slots within a few minutes.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to connect calendar",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const syncMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/calendar/account/sync");
+      return response.json();
+    },
+    onSuccess: (result: { busyTimes: number; meetingsWritten: number }) => {
+      refresh();
+      toast({
+        title: "Calendar synced",
+        description: `${result.busyTimes} busy time${result.busyTimes === 1 ? "" : "s"} read, ${result.meetingsWritten} meeting${result.meetingsWritten === 1 ? "" : "s"} written.`,
+      });
+    },
+    onError: (error: any) => {
+      refresh();
+      toast({
+        title: "Error",
+        description: error.message || "Failed to sync calendar",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const disconnectMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", "/api/calendar/account");
+    },
+    onSuccess: () => {
+      refresh();
+      setForm(emptyForm);
+      toast({
+        title: "Calendar disconnected",
+        description: "Its events no longer block your booking slots.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to disconnect calendar",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const copy = (text: string) => {
+    navigator.clipboard.writeText(text);
+    toast({ title: "Copied", description: text });
+  };
+
+  const canSave = form.serverUrl && form.username && (account || form.password);
+
+  return (
+    <div className="p-8 max-w-4xl mx-auto overflow-auto">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">My Calendar</h1>
+        <p className="text-gray-600">
+          Set when you can be booked, see your CRM meetings in your own calendar, and keep prospects from booking times
+          you're already busy
+        </p>
+      </div>
+
+      <AvailabilitySettings />
+
+      {isLoading ? (
+        <p className="text-sm text-gray-500">Loading...</p>
+      ) : (
+        <>
+          <Card className="mb-8">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Link2 className="w-5 h-5" />
+                Calendar Feed
+              </CardTitle>
+              <CardDescription>
+                A private link to your meetings that Google Calendar, Outlook or Apple Calendar can subscribe to. Anyone with
+                the link can see your meetings.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {feedUrl && (
+                <div className="flex items-center gap-2">
+                  <Input value={feedUrl} readOnly className="font-mono text-xs" />
+                  <Button variant="outline" size="sm" onClick={() => copy(feedUrl)}>
+                    <Copy className="w-4 h-4" />
+                  </Button>
+                </div>
+              )}
+              <div className="flex gap-2">
+                <Button variant={feedUrl ? "outline" : "default"} onClick={() => feedMutation.mutate()} disabled={feedMutation.isPending}>
+                  {feedUrl ? "Create New Link" : "Create Feed"}
+                </Button>
+                {feedUrl && (
+                  <Button variant="outline" onClick={() => stopFeedMutation.mutate()} disabled={stopFeedMutation.isPending}>
+                    Turn Off
+                  </Button>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+
+          {account && (
+            <Card className="mb-8">
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <CardTitle className="flex items-center gap-2">
+                    <CalendarDays className="w-5 h-5" />
+                    {account.username}
+                  </CardTitle>
+                  <Badge variant={account.status === "error" ? "destructive" : "secondary"}>
+                    {account.status === "error" ? "Sync failing" : "Connected"}
+                  </Badge>
+                </div>
+                <CardDescription>
+                  {account.lastSyncedAt
+                    ? `Last synced ${formatDistanceToNow(new Date(account.lastSyncedAt), { addSuffix: true })}`
+                    : "Waiting for the first sync"}
+                  {" • Synced every 15 minutes"}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <p className="text-xs text-muted-foreground break-all">{account.calendarUrl}</p>
+                {account.lastError && (
+                  <div className="flex items-center gap-2 text-sm text-red-600">
+                    <AlertCircle className="h-4 w-4" />
+                    {account.lastError}
+                  </div>
+                )}
+                <div className="flex gap-2">
+                  <Button variant="outline" onClick={() => syncMutation.mutate()} disabled={syncMutation.isPending}>
+                    {syncMutation.isPending ? (
+                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    ) : (
+                      <RefreshCw className="w-4 h-4 mr-2" />
+                    )}
+                    Sync Now
+                  </Button>
+                  <Button variant="outline" onClick={() => disconnectMutation.mutate()} disabled={disconnectMutation.isPending}>
+                    <Unplug className="w-4 h-4 mr-2" />
+                    Disconnect
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          <Card>
+            <CardHeader>
+              <CardTitle>{account ? "Connection Settings" : "Connect a Calendar"}</CardTitle>
+              <CardDescription>
+                Any CalDAV calendar works, such as iCloud, Fastmail, Nextcloud or Radicale. Enter the server address or a
+                calendar's own address; iCloud needs an app-specific password.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="md:col-span-2">
+                  <Label htmlFor="calendar-url">CalDAV address</Label>
+                  <Input
+                    id="calendar-url"
+                    value={form.serverUrl}
+                    onChange={(e) => setForm({ ...form, serverUrl: e.target.value })}
+                    placeholder="https://caldav.example.com/"
+                    className="mt-1"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="calendar-username">Username</Label>
+                  <Input
+                    id="calendar-username"
+                    value={form.username}
+                    onChange={(e) => setForm({ ...form, username: e.target.value })}
+                    className="mt-1"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="calendar-password">Password</Label>
+                  <Input
+                    id="calendar-password"
+                    type="password"
+                    value={form.password}
+                    onChange={(e) => setForm({ ...form, password: e.target.value })}
+                    placeholder={account ? "Leave blank to keep the saved password" : ""}
+                    className="mt-1"
+                  />
+                </div>
+              </div>
+
+              <Button onClick={() => saveMutation.mutate()} disabled={!canSave || saveMutation.isPending}>
+                {saveMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                {saveMutation.isPending ? "Finding your calendar..." : account ? "Save Settings" : "Connect Calendar"}
+              </Button>
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
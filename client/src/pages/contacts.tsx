@@ -4,18 +4,27 @@ import TopBar from "@/components/layout/topbar";
 import ContactList from "@/components/contacts/contact-list";
 import AddContactModal from "@/components/modals/add-contact-modal";
 import AIContactInsights from "@/components/contacts/ai-contact-insights";
+import ImportContactsModal from "@/components/modals/import-contacts-modal";
+import ExportMenu from "@/components/export/export-menu";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Brain, Sparkles, Loader2 } from "lucide-react";
+import { Brain, Sparkles, Loader2, Upload, GitMerge } from "lucide-react";
+import { Link } from "wouter";
 import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/usePermissions";
+import { useJob } from "@/hooks/useJob";
+import { apiRequest } from "@/lib/queryClient";
 import type { Contact } from "@shared/schema";
 
 export default function Contacts() {
   const [isAddContactOpen, setIsAddContactOpen] = useState(false);
   const [searchQuery, setSearchQuery] = useState("");
   const [selectedContact, setSelectedContact] = useState<Contact | null>(null);
-  const [isRunningBulkAI, setIsRunningBulkAI] = useState(false);
+  const [isStartingBulkAI, setIsStartingBulkAI] = useState(false);
+  const [bulkAIJobId, setBulkAIJobId] = useState<number | null>(null);
+  const [isImportOpen, setIsImportOpen] = useState(false);
   const { toast } = useToast();
+  const { can } = usePermissions();
 
   const { data: contacts, isLoading, refetch } = useQuery({
     queryKey: ["/api/contacts", { search: searchQuery }],
@@ -29,24 +38,29 @@ export default function Contacts() {
     },
   });
 
-  const runBulkAIScoring = async () => {
-    setIsRunningBulkAI(true);
-    try {
-      const response = await fetch("/api/ai/auto-score-all-leads", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" }
+  const bulkAIJob = useJob(bulkAIJobId, (job) => {
+    if (job.status === "completed") {
+      toast({
+        title: "AI Scoring Complete",
+        description: `Updated scores for ${job.result?.processed ?? 0} contacts`,
+      });
+      refetch();
+    } else {
+      toast({
+        title: "AI Scoring Failed",
+        description: job.lastError || "Configure DeepSeek API key to enable AI features",
+        variant: "destructive",
       });
+    }
+  });
+  const isRunningBulkAI = isStartingBulkAI || bulkAIJob.isRunning;
 
-      if (response.ok) {
-        const data = await response.json();
-        toast({
-          title: "AI Scoring Complete",
-          description: `Updated scores for ${data.processed} contacts`,
-        });
-        refetch();
-      } else {
-        throw new Error("AI service unavailable");
-      }
+  const runBulkAIScoring = async () => {
+    setIsStartingBulkAI(true);
+    try {
+      const response = await apiRequest("POST", "/api/ai/auto-score-all-leads");
+      const job = await response.json();
+      setBulkAIJobId(job.id);
     } catch (error) {
       toast({
         title: "AI Service Required",
@@ -54,7 +68,7 @@ export default function Contacts() {
         variant: "destructive",
       });
     } finally {
-      setIsRunningBulkAI(false);
+      setIsStartingBulkAI(false);
     }
   };
 
@@ -76,6 +90,28 @@ export default function Contacts() {
       />
       
       <main className="flex-1 overflow-y-auto p-6 bg-gray-50 dark:bg-background">
+        <div className="flex justify-end gap-2 mb-4">
+          {can("contacts:merge") && (
+            <Button variant="outline" asChild>
+              <Link href="/contacts/duplicates">
+                <GitMerge className="w-4 h-4 mr-2" />
+                Find Duplicates
+              </Link>
+            </Button>
+          )}
+          {can("contacts:import") && (
+            <Button variant="outline" onClick={() => setIsImportOpen(true)}>
+              <Upload className="w-4 h-4 mr-2" />
+              Import Contacts
+            </Button>
+          )}
+          <ExportMenu
+            endpoint="/api/contacts/export"
+            params={new URLSearchParams(searchQuery ? { search: searchQuery } : {})}
+            formats={["csv", "xlsx", "vcf"]}
+          />
+        </div>
+
         <div className="mb-6">
           <Card>
             <CardHeader>
@@ -102,7 +138,7 @@ export default function Contacts() {
                   {isRunningBulkAI ? (
                     <>
                       <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                      Analyzing All Contacts...
+                      Analyzing All Contacts... {bulkAIJob.progress}%
                     </>
                   ) : (
                     <>
@@ -141,6 +177,11 @@ export default function Contacts() {
         open={isAddContactOpen} 
         onOpenChange={setIsAddContactOpen} 
       />
+
+      <ImportContactsModal
+        open={isImportOpen}
+        onOpenChange={setIsImportOpen}
+      />
     </div>
   );
 }
@@ -0,0 +1,220 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/usePermissions";
+import { ListPlus, Trash } from "lucide-react";
+import { customFieldTypes, type CustomFieldDefinition, type CustomFieldType } from "@shared/schema";
+
+type EntityType = "contact" | "deal";
+
+const fieldTypeLabels: Record<CustomFieldType, string> = {
+  "text": "Text",
+  "number": "Number",
+  "date": "Date",
+  "select": "Select",
+  "multi-select": "Multi-select",
+  "boolean": "Yes / No",
+};
+
+// "Contract Value (USD)" -> "contract_value_usd"
+const toFieldKey = (label: string) =>
+  label.toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^[^a-z]+|_+$/g, "");
+
+export default function CustomFields() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { can } = usePermissions();
+  const [entityType, setEntityType] = useState<EntityType>("contact");
+  const [label, setLabel] = useState("");
+  const [fieldType, setFieldType] = useState<CustomFieldType>("text");
+  const [options, setOptions] = useState("");
+  const [isRequired, setIsRequired] = useState(false);
+
+  const { data: definitions = [], isLoading } = useQuery<CustomFieldDefinition[]>({
+    queryKey: ["/api/custom-fields"],
+  });
+
+  const createFieldMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("POST", "/api/custom-fields", {
+        entityType,
+        label,
+        key: toFieldKey(label),
+        fieldType,
+        options: options.split(",").map((option) => option.trim()).filter(Boolean),
+        isRequired,
+        sortOrder: definitions.filter((definition) => definition.entityType === entityType).length,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/custom-fields"] });
+      toast({
+        title: "Field added",
+        description: `"${label}" is now available on every ${entityType}.`,
+      });
+      setLabel("");
+      setOptions("");
+      setIsRequired(false);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to add field",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteFieldMutation = useMutation({
+    mutationFn: async (id: number) => {
+      return await apiRequest("DELETE", `/api/custom-fields/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/custom-fields"] });
+      toast({
+        title: "Field removed",
+        description: "The custom field has been removed.",
+      });
+    },
+  });
+
+  const needsOptions = fieldType === "select" || fieldType === "multi-select";
+
+  const renderFieldList = (type: EntityType) => {
+    const fields = definitions.filter((definition) => definition.entityType === type);
+
+    if (fields.length === 0) {
+      return <p className="text-sm text-gray-500">No custom fields yet.</p>;
+    }
+
+    return (
+      <div className="space-y-3">
+        {fields.map((definition) => (
+          <div key={definition.id} className="flex items-center justify-between p-4 border rounded-lg">
+            <div>
+              <div className="font-medium">
+                {definition.label}
+                {definition.isRequired && <span className="text-destructive"> *</span>}
+              </div>
+              <div className="text-sm text-gray-500">
+                <code>{`{{custom.${definition.key}}}`}</code>
+                {definition.options && definition.options.length > 0 && ` • ${definition.options.join(", ")}`}
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <Badge variant="outline">{fieldTypeLabels[definition.fieldType as CustomFieldType] ?? definition.fieldType}</Badge>
+              {can("customFields:manage") && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => deleteFieldMutation.mutate(definition.id)}
+                >
+                  <Trash className="w-4 h-4" />
+                </Button>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  return (
+    <div className="p-8 max-w-6xl mx-auto overflow-auto">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">Custom Fields</h1>
+        <p className="text-gray-600">Capture the structured data your team needs on contacts and deals</p>
+      </div>
+
+      <Tabs value={entityType} onValueChange={(value) => setEntityType(value as EntityType)}>
+        <TabsList className="mb-6">
+          <TabsTrigger value="contact">Contact fields</TabsTrigger>
+          <TabsTrigger value="deal">Deal fields</TabsTrigger>
+        </TabsList>
+
+        {can("customFields:manage") && (
+          <Card className="mb-8">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <ListPlus className="w-5 h-5" />
+                Add {entityType} field
+              </CardTitle>
+              <CardDescription>
+                Fields can be filtered on the leads page and used in campaigns as merge tags.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+                <div className="md:col-span-2">
+                  <Label htmlFor="field-label">Label</Label>
+                  <Input
+                    id="field-label"
+                    value={label}
+                    onChange={(e) => setLabel(e.target.value)}
+                    placeholder="Industry"
+                    className="mt-1"
+                  />
+                </div>
+                <div>
+                  <Label>Type</Label>
+                  <Select value={fieldType} onValueChange={(value) => setFieldType(value as CustomFieldType)}>
+                    <SelectTrigger className="mt-1">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {customFieldTypes.map((type) => (
+                        <SelectItem key={type} value={type}>
+                          {fieldTypeLabels[type]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="flex items-center gap-2 pb-2">
+                  <Switch id="field-required" checked={isRequired} onCheckedChange={setIsRequired} />
+                  <Label htmlFor="field-required">Required</Label>
+                </div>
+                {needsOptions && (
+                  <div className="md:col-span-4">
+                    <Label htmlFor="field-options">Options (comma separated)</Label>
+                    <Input
+                      id="field-options"
+                      value={options}
+                      onChange={(e) => setOptions(e.target.value)}
+                      placeholder="SaaS, Retail, Manufacturing"
+                      className="mt-1"
+                    />
+                  </div>
+                )}
+              </div>
+              <div className="flex justify-end mt-4">
+                <Button
+                  onClick={() => createFieldMutation.mutate()}
+                  disabled={!toFieldKey(label) || createFieldMutation.isPending}
+                >
+                  {createFieldMutation.isPending ? "Adding..." : "Add Field"}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        <TabsContent value="contact">
+          {isLoading ? <p className="text-sm text-gray-500">Loading...</p> : renderFieldList("contact")}
+        </TabsContent>
+        <TabsContent value="deal">
+          {isLoading ? <p className="text-sm text-gray-500">Loading...</p> : renderFieldList("deal")}
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import TopBar from "@/components/layout/topbar";
+import MergeContactsModal from "@/components/modals/merge-contacts-modal";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Copy, GitMerge } from "lucide-react";
+import type { Contact } from "@shared/schema";
+
+interface DuplicateGroup {
+  contacts: Contact[];
+  reasons: ("email" | "phone" | "name_company")[];
+}
+
+const reasonLabels: Record<DuplicateGroup["reasons"][number], string> = {
+  email: "Same email",
+  phone: "Same phone",
+  name_company: "Similar name, same company",
+};
+
+export default function Duplicates() {
+  const [selectedGroup, setSelectedGroup] = useState<DuplicateGroup | null>(null);
+
+  const { data: groups = [], isLoading } = useQuery<DuplicateGroup[]>({
+    queryKey: ["/api/contacts/duplicates"],
+  });
+
+  return (
+    <div className="flex-1 flex flex-col min-h-0">
+      <TopBar
+        title="Duplicate Contacts"
+        subtitle="Review contacts that look like the same person and merge them"
+      />
+
+      <main className="flex-1 overflow-y-auto p-6 bg-gray-50 dark:bg-background">
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Looking for duplicates...</p>
+        ) : groups.length === 0 ? (
+          <Card>
+            <CardContent className="p-8 text-center">
+              <Copy className="w-10 h-10 mx-auto text-gray-400 mb-3" />
+              <p className="font-medium">No duplicates found</p>
+              <p className="text-sm text-gray-500">
+                Contacts are compared by email, phone number, and name within the same company.
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-500">{groups.length} possible duplicate groups</p>
+            {groups.map((group) => (
+              <Card key={group.contacts.map((contact) => contact.id).join("-")}>
+                <CardContent className="p-4 flex items-center justify-between gap-4">
+                  <div className="space-y-2">
+                    <div className="flex flex-wrap gap-2">
+                      {group.reasons.map((reason) => (
+                        <Badge key={reason} variant="outline">{reasonLabels[reason]}</Badge>
+                      ))}
+                    </div>
+                    {group.contacts.map((contact) => (
+                      <div key={contact.id} className="text-sm">
+                        <span className="font-medium">{contact.firstName} {contact.lastName}</span>
+                        <span className="text-gray-500">
+                          {" "}• {contact.email}
+                          {contact.phone && ` • ${contact.phone}`}
+                          {contact.company && ` • ${contact.company}`}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                  <Button onClick={() => setSelectedGroup(group)}>
+                    <GitMerge className="w-4 h-4 mr-2" />
+                    Review & Merge
+                  </Button>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </main>
+
+      <MergeContactsModal
+        contacts={selectedGroup?.contacts ?? []}
+        open={!!selectedGroup}
+        onOpenChange={(open) => !open && setSelectedGroup(null)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,299 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/usePermissions";
+import { CalendarOff, Trash } from "lucide-react";
+import type { Holiday, HolidayCalendar } from "@shared/schema";
+
+type HolidayCalendarWithHolidays = HolidayCalendar & { holidays: Holiday[] };
+
+interface HolidayPresetSummary {
+  id: string;
+  name: string;
+  holidayCount: number;
+}
+
+const NO_PRESET = "none";
+
+export default function Holidays() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { can } = usePermissions();
+  const [form, setForm] = useState({ name: "", preset: NO_PRESET, isDefault: false });
+
+  const { data: calendars = [], isLoading } = useQuery<HolidayCalendarWithHolidays[]>({
+    queryKey: ["/api/holiday-calendars"],
+  });
+  const { data: presets = [] } = useQuery<HolidayPresetSummary[]>({
+    queryKey: ["/api/holiday-calendars/presets"],
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/holiday-calendars"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/calendar/availability"] });
+  };
+
+  const onError = (fallback: string) => (error: any) => {
+    toast({
+      title: "Error",
+      description: error.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("POST", "/api/holiday-calendars", {
+        name: form.name,
+        isDefault: form.isDefault,
+        preset: form.preset === NO_PRESET ? undefined : form.preset,
+      });
+    },
+    onSuccess: () => {
+      refresh();
+      toast({
+        title: "Holiday calendar created",
+        description: `Team members can now follow ${form.name}.`,
+      });
+      setForm({ name: "", preset: NO_PRESET, isDefault: false });
+    },
+    onError: onError("Failed to create holiday calendar"),
+  });
+
+  const makeDefaultMutation = useMutation({
+    mutationFn: async (id: number) => {
+      return await apiRequest("PUT", `/api/holiday-calendars/${id}`, { isDefault: true });
+    },
+    onSuccess: refresh,
+    onError: onError("Failed to update holiday calendar"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      return await apiRequest("DELETE", `/api/holiday-calendars/${id}`);
+    },
+    onSuccess: () => {
+      refresh();
+      toast({
+        title: "Holiday calendar deleted",
+        description: "Team members who followed it no longer have holidays.",
+      });
+    },
+    onError: onError("Failed to delete holiday calendar"),
+  });
+
+  return (
+    <div className="p-8 max-w-6xl mx-auto overflow-auto">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">Holidays</h1>
+        <p className="text-gray-600">
+          Public holidays your team doesn't take meetings on. Each member picks the calendar they follow on My Calendar.
+        </p>
+      </div>
+
+      {can("holidays:manage") && (
+        <Card className="mb-8">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <CalendarOff className="w-5 h-5" />
+              New holiday calendar
+            </CardTitle>
+            <CardDescription>
+              Start from a preset or add holidays yourself. Members who haven't chosen a calendar follow the default one.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+              <div>
+                <Label htmlFor="holiday-calendar-name">Name</Label>
+                <Input
+                  id="holiday-calendar-name"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  placeholder="Indonesia"
+                  className="mt-1"
+                />
+              </div>
+              <div>
+                <Label>Preset</Label>
+                <Select
+                  value={form.preset}
+                  onValueChange={(preset) => {
+                    const chosen = presets.find((option) => option.id === preset);
+                    setForm({ ...form, preset, name: form.name || chosen?.name || "" });
+                  }}
+                >
+                  <SelectTrigger className="mt-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_PRESET}>Empty calendar</SelectItem>
+                    {presets.map((preset) => (
+                      <SelectItem key={preset.id} value={preset.id}>
+                        {preset.name} ({preset.holidayCount} days)
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex items-center gap-2 pb-2">
+                <Checkbox
+                  id="holiday-calendar-default"
+                  checked={form.isDefault}
+                  onCheckedChange={(checked) => setForm({ ...form, isDefault: !!checked })}
+                />
+                <Label htmlFor="holiday-calendar-default">Default for the team</Label>
+              </div>
+              <Button onClick={() => createMutation.mutate()} disabled={!form.name.trim() || createMutation.isPending}>
+                {createMutation.isPending ? "Creating..." : "Create"}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {isLoading ? (
+        <p className="text-sm text-gray-500">Loading...</p>
+      ) : calendars.length === 0 ? (
+        <p className="text-sm text-gray-500">No holiday calendars yet.</p>
+      ) : (
+        <div className="space-y-8">
+          {calendars.map((calendar) => (
+            <Card key={calendar.id}>
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <CardTitle className="flex items-center gap-2">
+                    {calendar.name}
+                    {calendar.isDefault && <Badge variant="secondary">Default</Badge>}
+                  </CardTitle>
+                  {can("holidays:manage") && (
+                    <div className="flex gap-2">
+                      {!calendar.isDefault && (
+                        <Button variant="outline" size="sm" onClick={() => makeDefaultMutation.mutate(calendar.id)}>
+                          Make Default
+                        </Button>
+                      )}
+                      <Button variant="ghost" size="sm" onClick={() => deleteMutation.mutate(calendar.id)}>
+                        <Trash className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  )}
+                </div>
+                <CardDescription>{calendar.holidays.length} holidays</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <HolidayList calendar={calendar} canManage={can("holidays:manage")} onChange={refresh} onError={onError} />
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function HolidayList({
+  calendar,
+  canManage,
+  onChange,
+  onError,
+}: {
+  calendar: HolidayCalendarWithHolidays;
+  canManage: boolean;
+  onChange: () => void;
+  onError: (fallback: string) => (error: any) => void;
+}) {
+  const [holiday, setHoliday] = useState({ date: "", name: "" });
+
+  const addMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("POST", `/api/holiday-calendars/${calendar.id}/holidays`, holiday);
+    },
+    onSuccess: () => {
+      onChange();
+      setHoliday({ date: "", name: "" });
+    },
+    onError: onError("Failed to add holiday"),
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (id: number) => {
+      return await apiRequest("DELETE", `/api/holiday-calendars/${calendar.id}/holidays/${id}`);
+    },
+    onSuccess: onChange,
+    onError: onError("Failed to delete holiday"),
+  });
+
+  return (
+    <div className="space-y-4">
+      {calendar.holidays.length > 0 && (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Date</TableHead>
+              <TableHead>Holiday</TableHead>
+              {canManage && <TableHead />}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {calendar.holidays.map((item) => (
+              <TableRow key={item.id}>
+                <TableCell>{format(new Date(`${item.date}T00:00:00`), "EEE, MMM dd, yyyy")}</TableCell>
+                <TableCell className="font-medium">{item.name}</TableCell>
+                {canManage && (
+                  <TableCell className="text-right">
+                    <Button variant="ghost" size="sm" onClick={() => removeMutation.mutate(item.id)}>
+                      <Trash className="w-4 h-4" />
+                    </Button>
+                  </TableCell>
+                )}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      {canManage && (
+        <div className="flex items-end gap-4">
+          <div>
+            <Label htmlFor={`holiday-date-${calendar.id}`}>Date</Label>
+            <Input
+              id={`holiday-date-${calendar.id}`}
+              type="date"
+              value={holiday.date}
+              onChange={(e) => setHoliday({ ...holiday, date: e.target.value })}
+              className="mt-1"
+            />
+          </div>
+          <div className="flex-1">
+            <Label htmlFor={`holiday-name-${calendar.id}`}>Name</Label>
+            <Input
+              id={`holiday-name-${calendar.id}`}
+              value={holiday.name}
+              onChange={(e) => setHoliday({ ...holiday, name: e.target.value })}
+              placeholder="Company anniversary"
+              className="mt-1"
+            />
+          </div>
+          <Button
+            variant="outline"
+            onClick={() => addMutation.mutate()}
+            disabled={!holiday.date || !holiday.name.trim() || addMutation.isPending}
+          >
+            Add Holiday
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
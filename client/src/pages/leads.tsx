@@ -13,15 +13,17 @@ import { Input } from "@/components/ui/input";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { MoreHorizontal, Mail, Phone, Edit, TrendingUp, Zap, Filter, Plus, Calendar, Target, Users, CheckSquare, ArrowUpDown, Search } from "lucide-react";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger, DropdownMenuSeparator } from "@/components/ui/dropdown-menu";
-import { Contact } from "@shared/schema";
+import { Contact, type CustomFieldDefinition } from "@shared/schema";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import EmailComposeModal from "@/components/email/email-compose-modal";
 import MeetingSchedulerModal from "@/components/calendar/meeting-scheduler-modal";
+import ExportMenu from "@/components/export/export-menu";
 
 export default function Leads() {
   const [statusFilter, setStatusFilter] = useState("all");
   const [scoreFilter, setScoreFilter] = useState("all");
+  const [customFilters, setCustomFilters] = useState<Record<string, string>>({});
   const [searchQuery, setSearchQuery] = useState("");
   const [selectedLeads, setSelectedLeads] = useState<number[]>([]);
   const [sortBy, setSortBy] = useState<"name" | "score" | "date">("score");
@@ -36,31 +38,55 @@ export default function Leads() {
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
+  // Shared by the list and the export so both see the same leads
+  const leadParams = new URLSearchParams();
+  if (statusFilter !== "all") leadParams.append("status", statusFilter);
+  if (scoreFilter !== "all") leadParams.append("score", scoreFilter);
+  if (searchQuery) leadParams.append("search", searchQuery);
+  Object.entries(customFilters).forEach(([key, value]) => leadParams.append(`custom[${key}]`, value));
+  leadParams.append("sortBy", sortBy);
+  leadParams.append("sortOrder", sortOrder);
+
   const { data: leads, isLoading } = useQuery({
     queryKey: ["/api/leads", { 
       status: statusFilter !== "all" ? statusFilter : undefined, 
       score: scoreFilter !== "all" ? scoreFilter : undefined,
       search: searchQuery || undefined,
+      custom: customFilters,
       sortBy,
       sortOrder
     }],
     queryFn: async () => {
-      const params = new URLSearchParams();
-      if (statusFilter !== "all") params.append("status", statusFilter);
-      if (scoreFilter !== "all") params.append("score", scoreFilter);
-      if (searchQuery) params.append("search", searchQuery);
-      params.append("sortBy", sortBy);
-      params.append("sortOrder", sortOrder);
-      
-      const response = await fetch(`/api/leads?${params.toString()}`, { credentials: "include" });
+      const response = await fetch(`/api/leads?${leadParams.toString()}`, { credentials: "include" });
       if (!response.ok) throw new Error("Failed to fetch leads");
       return response.json();
     },
   });
 
+  // Only fields with a fixed set of values get a filter dropdown
+  const { data: customFieldDefinitions = [] } = useQuery<CustomFieldDefinition[]>({
+    queryKey: ["/api/custom-fields"],
+  });
+  const filterableFields = customFieldDefinitions.filter(
+    (definition) => definition.entityType === "contact" &&
+      ["select", "multi-select", "boolean"].includes(definition.fieldType)
+  );
+
+  const setCustomFilter = (key: string, value: string) => {
+    setCustomFilters((prev) => {
+      const { [key]: _removed, ...rest } = prev;
+      return value === "all" ? rest : { ...rest, [key]: value };
+    });
+  };
+
   const { data: analytics } = useQuery({
     queryKey: ["/api/analytics/conversion-funnel"],
-  }) as { data?: { funnel: any; conversionRates: any } };
+  }) as {
+    data?: {
+      funnel: { name: string; count: number }[];
+      conversionRates: { from: string; to: string; rate: string | number }[];
+    };
+  };
 
   const leadScoringMutation = useMutation({
     mutationFn: async () => {
@@ -247,10 +273,13 @@ export default function Leads() {
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
               <Card>
                 <CardHeader>
-                  <CardTitle className="flex items-center">
-                    <Filter className="h-5 w-5 mr-2" />
-                    Filters & Search
-                  </CardTitle>
+                  <div className="flex items-center justify-between">
+                    <CardTitle className="flex items-center">
+                      <Filter className="h-5 w-5 mr-2" />
+                      Filters & Search
+                    </CardTitle>
+                    <ExportMenu endpoint="/api/leads/export" params={leadParams} formats={["csv", "xlsx", "vcf"]} />
+                  </div>
                 </CardHeader>
                 <CardContent className="space-y-4">
                   {/* Search */}
@@ -298,6 +327,32 @@ export default function Leads() {
                       </Select>
                     </div>
                   </div>
+
+                  {filterableFields.length > 0 && (
+                    <div className="grid grid-cols-2 gap-4">
+                      {filterableFields.map((definition) => (
+                        <div key={definition.id}>
+                          <label className="text-sm font-medium">{definition.label}</label>
+                          <Select
+                            value={customFilters[definition.key] ?? "all"}
+                            onValueChange={(value) => setCustomFilter(definition.key, value)}
+                          >
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="all">All</SelectItem>
+                              {(definition.fieldType === "boolean" ? ["true", "false"] : definition.options ?? []).map((option) => (
+                                <SelectItem key={option} value={option}>
+                                  {definition.fieldType === "boolean" ? (option === "true" ? "Yes" : "No") : option}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                      ))}
+                    </div>
+                  )}
                 </CardContent>
               </Card>
 
@@ -574,26 +629,14 @@ export default function Leads() {
                   </CardHeader>
                   <CardContent>
                     <div className="space-y-4">
-                      <div className="flex justify-between items-center">
-                        <span>Total Leads</span>
-                        <span className="font-bold">{analytics.funnel?.totalLeads || 0}</span>
-                      </div>
-                      <div className="flex justify-between items-center">
-                        <span>Qualified Leads</span>
-                        <span className="font-bold">{analytics.funnel?.qualifiedLeads || 0}</span>
-                      </div>
-                      <div className="flex justify-between items-center">
-                        <span>Proposal Stage</span>
-                        <span className="font-bold">{analytics.funnel?.proposalStage || 0}</span>
-                      </div>
-                      <div className="flex justify-between items-center">
-                        <span>Negotiation</span>
-                        <span className="font-bold">{analytics.funnel?.negotiationStage || 0}</span>
-                      </div>
-                      <div className="flex justify-between items-center">
-                        <span>Closed Won</span>
-                        <span className="font-bold text-green-600">{analytics.funnel?.closedWon || 0}</span>
-                      </div>
+                      {analytics.funnel.map((step, index) => (
+                        <div key={step.name} className="flex justify-between items-center">
+                          <span>{step.name}</span>
+                          <span className={`font-bold ${index === analytics.funnel.length - 1 ? "text-green-600" : ""}`}>
+                            {step.count}
+                          </span>
+                        </div>
+                      ))}
                     </div>
                   </CardContent>
                 </Card>
@@ -605,22 +648,14 @@ export default function Leads() {
                   </CardHeader>
                   <CardContent>
                     <div className="space-y-4">
-                      <div className="flex justify-between items-center">
-                        <span>Lead → Qualified</span>
-                        <span className="font-bold">{analytics.conversionRates?.leadToQualified || 0}%</span>
-                      </div>
-                      <div className="flex justify-between items-center">
-                        <span>Qualified → Proposal</span>
-                        <span className="font-bold">{analytics.conversionRates?.qualifiedToProposal || 0}%</span>
-                      </div>
-                      <div className="flex justify-between items-center">
-                        <span>Proposal → Negotiation</span>
-                        <span className="font-bold">{analytics.conversionRates?.proposalToNegotiation || 0}%</span>
-                      </div>
-                      <div className="flex justify-between items-center">
-                        <span>Negotiation → Close</span>
-                        <span className="font-bold text-green-600">{analytics.conversionRates?.negotiationToClose || 0}%</span>
-                      </div>
+                      {analytics.conversionRates.map((rate, index) => (
+                        <div key={`${rate.from}-${rate.to}`} className="flex justify-between items-center">
+                          <span>{rate.from} → {rate.to}</span>
+                          <span className={`font-bold ${index === analytics.conversionRates.length - 1 ? "text-green-600" : ""}`}>
+                            {rate.rate}%
+                          </span>
+                        </div>
+                      ))}
                     </div>
                   </CardContent>
                 </Card>
@@ -0,0 +1,313 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { AlertCircle, Inbox, Loader2, RefreshCw, Unplug } from "lucide-react";
+import type { Mailbox } from "@shared/schema";
+
+type MailboxSummary = Omit<Mailbox, "encryptedPassword" | "syncState">;
+
+interface MailboxForm {
+  emailAddress: string;
+  displayName: string;
+  imapHost: string;
+  imapPort: string;
+  imapSecure: boolean;
+  smtpHost: string;
+  smtpPort: string;
+  smtpSecure: boolean;
+  username: string;
+  password: string;
+}
+
+const emptyForm: MailboxForm = {
+  emailAddress: "",
+  displayName: "",
+  imapHost: "",
+  imapPort: "993",
+  imapSecure: true,
+  smtpHost: "",
+  smtpPort: "465",
+  smtpSecure: true,
+  username: "",
+  password: "",
+};
+
+export default function MailboxSettings() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState<MailboxForm>(emptyForm);
+
+  const { data: mailbox, isLoading } = useQuery<MailboxSummary | null>({
+    queryKey: ["/api/mailbox"],
+  });
+
+  useEffect(() => {
+    if (mailbox) {
+      setForm({
+        emailAddress: mailbox.emailAddress,
+        displayName: mailbox.displayName ?? "",
+        imapHost: mailbox.imapHost,
+        imapPort: String(mailbox.imapPort),
+        imapSecure: mailbox.imapSecure,
+        smtpHost: mailbox.smtpHost,
+        smtpPort: String(mailbox.smtpPort),
+        smtpSecure: mailbox.smtpSecure,
+        username: mailbox.username,
+        password: "",
+      });
+    }
+  }, [mailbox]);
+
+  const update = (changes: Partial<MailboxForm>) => setForm({ ...form, ...changes });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PUT", "/api/mailbox", {
+        ...form,
+        displayName: form.displayName || null,
+        password: form.password || undefined,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/mailbox"] });
+      toast({
+        title: "Mailbox connected",
+        description: "Email with your contacts will show up in the CRM within a few minutes.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to connect mailbox",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const syncMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/mailbox/sync");
+      return response.json();
+    },
+    onSuccess: (result: { imported: number }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/mailbox"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/contacts"] });
+      toast({
+        title: "Mailbox synced",
+        description: `${result.imported} new email${result.imported === 1 ? "" : "s"} logged on your contacts.`,
+      });
+    },
+    onError: (error: any) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/mailbox"] });
+      toast({
+        title: "Error",
+        description: error.message || "Failed to sync mailbox",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const disconnectMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", "/api/mailbox");
+    },
+    onSuccess: () => {
+      queryClient.setQueryData(["/api/mailbox"], null);
+      setForm(emptyForm);
+      toast({
+        title: "Mailbox disconnected",
+        description: "Emails already synced stay on your contacts.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to disconnect mailbox",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const canSave = form.emailAddress && form.imapHost && form.smtpHost && form.username && (mailbox || form.password);
+
+  return (
+    <div className="p-8 max-w-4xl mx-auto overflow-auto">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">My Mailbox</h1>
+        <p className="text-gray-600">
+          Connect your email account so replies from contacts land in the CRM and your emails go out from your own address
+        </p>
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-gray-500">Loading...</p>
+      ) : (
+        <>
+          {mailbox && (
+            <Card className="mb-8">
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <CardTitle className="flex items-center gap-2">
+                    <Inbox className="w-5 h-5" />
+                    {mailbox.emailAddress}
+                  </CardTitle>
+                  <Badge variant={mailbox.status === "error" ? "destructive" : "secondary"}>
+                    {mailbox.status === "error" ? "Sync failing" : "Connected"}
+                  </Badge>
+                </div>
+                <CardDescription>
+                  {mailbox.lastSyncedAt
+                    ? `Last synced ${formatDistanceToNow(new Date(mailbox.lastSyncedAt), { addSuffix: true })}`
+                    : "Waiting for the first sync"}
+                  {" • Synced every 5 minutes"}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {mailbox.lastError && (
+                  <div className="flex items-center gap-2 text-sm text-red-600">
+                    <AlertCircle className="h-4 w-4" />
+                    {mailbox.lastError}
+                  </div>
+                )}
+                <div className="flex gap-2">
+                  <Button variant="outline" onClick={() => syncMutation.mutate()} disabled={syncMutation.isPending}>
+                    {syncMutation.isPending ? (
+                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    ) : (
+                      <RefreshCw className="w-4 h-4 mr-2" />
+                    )}
+                    Sync Now
+                  </Button>
+                  <Button variant="outline" onClick={() => disconnectMutation.mutate()} disabled={disconnectMutation.isPending}>
+                    <Unplug className="w-4 h-4 mr-2" />
+                    Disconnect
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          <Card>
+            <CardHeader>
+              <CardTitle>{mailbox ? "Connection Settings" : "Connect a Mailbox"}</CardTitle>
+              <CardDescription>
+                Use the IMAP and SMTP settings from your email provider. Gmail and Outlook need an app password.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="mailbox-email">Email address</Label>
+                  <Input
+                    id="mailbox-email"
+                    type="email"
+                    value={form.emailAddress}
+                    onChange={(e) => update({ emailAddress: e.target.value })}
+                    placeholder="you@company.com"
+                    className="mt-1"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="mailbox-name">Sender name</Label>
+                  <Input
+                    id="mailbox-name"
+                    value={form.displayName}
+                    onChange={(e) => update({ displayName: e.target.value })}
+                    placeholder="Your name"
+                    className="mt-1"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="mailbox-username">Username</Label>
+                  <Input
+                    id="mailbox-username"
+                    value={form.username}
+                    onChange={(e) => update({ username: e.target.value })}
+                    placeholder="Usually your email address"
+                    className="mt-1"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="mailbox-password">Password</Label>
+                  <Input
+                    id="mailbox-password"
+                    type="password"
+                    value={form.password}
+                    onChange={(e) => update({ password: e.target.value })}
+                    placeholder={mailbox ? "Leave blank to keep the saved password" : ""}
+                    className="mt-1"
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div className="space-y-3">
+                  <h3 className="text-sm font-medium">Incoming mail (IMAP)</h3>
+                  <div className="grid grid-cols-3 gap-2">
+                    <Input
+                      className="col-span-2"
+                      value={form.imapHost}
+                      onChange={(e) => update({ imapHost: e.target.value })}
+                      placeholder="imap.example.com"
+                    />
+                    <Input
+                      type="number"
+                      value={form.imapPort}
+                      onChange={(e) => update({ imapPort: e.target.value })}
+                    />
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      id="mailbox-imap-secure"
+                      checked={form.imapSecure}
+                      onCheckedChange={(checked) => update({ imapSecure: checked, imapPort: checked ? "993" : "143" })}
+                    />
+                    <Label htmlFor="mailbox-imap-secure">Use SSL/TLS</Label>
+                  </div>
+                </div>
+                <div className="space-y-3">
+                  <h3 className="text-sm font-medium">Outgoing mail (SMTP)</h3>
+                  <div className="grid grid-cols-3 gap-2">
+                    <Input
+                      className="col-span-2"
+                      value={form.smtpHost}
+                      onChange={(e) => update({ smtpHost: e.target.value })}
+                      placeholder="smtp.example.com"
+                    />
+                    <Input
+                      type="number"
+                      value={form.smtpPort}
+                      onChange={(e) => update({ smtpPort: e.target.value })}
+                    />
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      id="mailbox-smtp-secure"
+                      checked={form.smtpSecure}
+                      onCheckedChange={(checked) => update({ smtpSecure: checked, smtpPort: checked ? "465" : "587" })}
+                    />
+                    <Label htmlFor="mailbox-smtp-secure">Use SSL/TLS</Label>
+                  </div>
+                </div>
+              </div>
+
+              <Button onClick={() => saveMutation.mutate()} disabled={!canSave || saveMutation.isPending}>
+                {saveMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                {saveMutation.isPending ? "Checking connection..." : mailbox ? "Save Settings" : "Connect Mailbox"}
+              </Button>
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
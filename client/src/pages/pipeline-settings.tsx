@@ -0,0 +1,311 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/usePermissions";
+import { usePipelines } from "@/hooks/usePipelines";
+import { ArrowDown, ArrowUp, Plus, Trash, Workflow } from "lucide-react";
+import { stageOutcomes, type PipelineInput, type PipelineWithStages, type StageOutcome } from "@shared/schema";
+
+const outcomeLabels: Record<StageOutcome, string> = {
+  open: "Open",
+  won: "Won",
+  lost: "Lost",
+};
+
+const emptyPipeline: PipelineInput = {
+  name: "",
+  isDefault: false,
+  stages: [
+    { name: "New", probability: 10, outcome: "open" },
+    { name: "Won", probability: 100, outcome: "won" },
+    { name: "Lost", probability: 0, outcome: "lost" },
+  ],
+};
+
+const toDraft = (pipeline: PipelineWithStages): PipelineInput => ({
+  name: pipeline.name,
+  isDefault: pipeline.isDefault,
+  sortOrder: pipeline.sortOrder,
+  stages: pipeline.stages.map(({ id, name, probability, outcome }) => ({
+    id,
+    name,
+    probability,
+    outcome: outcome as StageOutcome,
+  })),
+});
+
+export default function PipelineSettings() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { can } = usePermissions();
+  const { pipelines, isLoading } = usePipelines();
+  // null while creating a new pipeline
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [draft, setDraft] = useState<PipelineInput>(emptyPipeline);
+
+  const selected = pipelines.find((pipeline) => pipeline.id === selectedId);
+
+  useEffect(() => {
+    if (selectedId === null && pipelines.length > 0 && draft === emptyPipeline) {
+      setSelectedId(pipelines[0].id);
+      setDraft(toDraft(pipelines[0]));
+    }
+  }, [pipelines]);
+
+  const selectPipeline = (pipeline: PipelineWithStages | null) => {
+    setSelectedId(pipeline?.id ?? null);
+    setDraft(pipeline ? toDraft(pipeline) : emptyPipeline);
+  };
+
+  const invalidatePipelines = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/pipelines"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/deals"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+  };
+
+  const savePipelineMutation = useMutation({
+    mutationFn: async () => {
+      const response = selected
+        ? await apiRequest("PUT", `/api/pipelines/${selected.id}`, draft)
+        : await apiRequest("POST", "/api/pipelines", { ...draft, sortOrder: pipelines.length });
+      return response.json();
+    },
+    onSuccess: async (pipeline) => {
+      invalidatePipelines();
+      // Reload the draft so newly added stages carry their ids on the next save
+      await queryClient.refetchQueries({ queryKey: ["/api/pipelines"] });
+      const saved = queryClient.getQueryData<PipelineWithStages[]>(["/api/pipelines"])?.find((candidate) => candidate.id === pipeline.id);
+      selectPipeline(saved ?? null);
+      toast({
+        title: "Pipeline saved",
+        description: `"${pipeline.name}" has been saved.`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save pipeline",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deletePipelineMutation = useMutation({
+    mutationFn: async (id: number) => {
+      return await apiRequest("DELETE", `/api/pipelines/${id}`);
+    },
+    onSuccess: () => {
+      invalidatePipelines();
+      selectPipeline(pipelines.find((pipeline) => pipeline.isDefault) ?? null);
+      toast({
+        title: "Pipeline deleted",
+        description: "The pipeline and its stages have been removed.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete pipeline",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateStage = (index: number, changes: Partial<PipelineInput["stages"][number]>) => {
+    setDraft({
+      ...draft,
+      stages: draft.stages.map((stage, stageIndex) => (stageIndex === index ? { ...stage, ...changes } : stage)),
+    });
+  };
+
+  const moveStage = (index: number, offset: number) => {
+    const stages = [...draft.stages];
+    const [stage] = stages.splice(index, 1);
+    stages.splice(index + offset, 0, stage);
+    setDraft({ ...draft, stages });
+  };
+
+  const removeStage = (index: number) => {
+    setDraft({ ...draft, stages: draft.stages.filter((_, stageIndex) => stageIndex !== index) });
+  };
+
+  const addStage = () => {
+    // New open stages go before the first closing stage
+    const firstClosed = draft.stages.findIndex((stage) => stage.outcome !== "open");
+    const stages = [...draft.stages];
+    stages.splice(firstClosed === -1 ? stages.length : firstClosed, 0, { name: "", probability: 50, outcome: "open" });
+    setDraft({ ...draft, stages });
+  };
+
+  if (!can("pipelines:manage")) {
+    return (
+      <div className="p-8 max-w-6xl mx-auto">
+        <p className="text-gray-600">You don't have permission to manage pipelines.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-8 max-w-6xl mx-auto overflow-auto">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">Pipelines</h1>
+        <p className="text-gray-600">Define the stages deals move through, their default probabilities and which ones close a deal</p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <div className="space-y-3">
+          {isLoading ? (
+            <p className="text-sm text-gray-500">Loading...</p>
+          ) : (
+            pipelines.map((pipeline) => (
+              <button
+                key={pipeline.id}
+                onClick={() => selectPipeline(pipeline)}
+                className={`w-full text-left p-4 border rounded-lg ${pipeline.id === selectedId ? "border-primary bg-primary/5" : ""}`}
+              >
+                <div className="font-medium flex items-center gap-2">
+                  {pipeline.name}
+                  {pipeline.isDefault && <Badge variant="secondary">Default</Badge>}
+                </div>
+                <div className="text-sm text-gray-500">{pipeline.stages.length} stages</div>
+              </button>
+            ))
+          )}
+          <Button variant="outline" className="w-full" onClick={() => selectPipeline(null)}>
+            <Plus className="w-4 h-4 mr-2" />
+            New Pipeline
+          </Button>
+        </div>
+
+        <Card className="md:col-span-2">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Workflow className="w-5 h-5" />
+              {selected ? `Edit ${selected.name}` : "New pipeline"}
+            </CardTitle>
+            <CardDescription>
+              Moving a deal into a stage applies its probability. Won and lost stages set the deal's close date.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+              <div className="md:col-span-2">
+                <Label htmlFor="pipeline-name">Name</Label>
+                <Input
+                  id="pipeline-name"
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  placeholder="Partner Sales"
+                  className="mt-1"
+                />
+              </div>
+              <div className="flex items-center gap-2 pb-2">
+                <Switch
+                  id="pipeline-default"
+                  checked={!!draft.isDefault}
+                  disabled={!!selected?.isDefault}
+                  onCheckedChange={(checked) => setDraft({ ...draft, isDefault: checked })}
+                />
+                <Label htmlFor="pipeline-default">Default pipeline</Label>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <div className="grid grid-cols-12 gap-2 text-sm font-medium text-gray-500">
+                <span className="col-span-5">Stage</span>
+                <span className="col-span-2">Probability</span>
+                <span className="col-span-2">Outcome</span>
+              </div>
+              {draft.stages.map((stage, index) => (
+                <div key={stage.id ?? `new-${index}`} className="grid grid-cols-12 gap-2 items-center">
+                  <Input
+                    className="col-span-5"
+                    value={stage.name}
+                    onChange={(e) => updateStage(index, { name: e.target.value })}
+                    placeholder="Stage name"
+                  />
+                  <Input
+                    className="col-span-2"
+                    type="number"
+                    min="0"
+                    max="100"
+                    value={stage.probability}
+                    onChange={(e) => updateStage(index, { probability: parseInt(e.target.value) || 0 })}
+                  />
+                  <div className="col-span-2">
+                    <Select value={stage.outcome} onValueChange={(value) => updateStage(index, { outcome: value as StageOutcome })}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {stageOutcomes.map((outcome) => (
+                          <SelectItem key={outcome} value={outcome}>
+                            {outcomeLabels[outcome]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="col-span-3 flex justify-end">
+                    <Button variant="ghost" size="sm" disabled={index === 0} onClick={() => moveStage(index, -1)}>
+                      <ArrowUp className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={index === draft.stages.length - 1}
+                      onClick={() => moveStage(index, 1)}
+                    >
+                      <ArrowDown className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={draft.stages.length === 1}
+                      onClick={() => removeStage(index)}
+                    >
+                      <Trash className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+              <Button variant="outline" size="sm" onClick={addStage}>
+                <Plus className="w-4 h-4 mr-2" />
+                Add Stage
+              </Button>
+            </div>
+
+            <div className="flex justify-between">
+              {selected && !selected.isDefault ? (
+                <Button
+                  variant="outline"
+                  className="text-destructive"
+                  onClick={() => deletePipelineMutation.mutate(selected.id)}
+                  disabled={deletePipelineMutation.isPending}
+                >
+                  Delete Pipeline
+                </Button>
+              ) : (
+                <span />
+              )}
+              <Button
+                onClick={() => savePipelineMutation.mutate()}
+                disabled={!draft.name.trim() || savePipelineMutation.isPending}
+              >
+                {savePipelineMutation.isPending ? "Saving..." : "Save Pipeline"}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
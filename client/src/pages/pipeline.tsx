@@ -1,7 +1,13 @@
 import { useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Link } from "wouter";
 import TopBar from "@/components/layout/topbar";
 import AddDealModal from "@/components/modals/add-deal-modal";
+import ExportMenu from "@/components/export/export-menu";
+import StageHistory from "@/components/deals/stage-history";
+import DealQuotes from "@/components/deals/deal-quotes";
+import LineItemsEditor, { fromLineItems, lineItemsValue, toLineItemInputs, type LineItemDraft } from "@/components/deals/line-items-editor";
+import OwnerSelect, { memberName } from "@/components/deals/owner-select";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -13,70 +19,36 @@ import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigge
 import { 
   DollarSign, 
   Calendar, 
-  User, 
   MoreVertical, 
   Edit, 
   Trash, 
   TrendingUp,
   Target,
-  Clock,
   CheckCircle,
   Search,
   Filter,
   Mail,
   Phone,
   FileText,
-  BarChart3
+  BarChart3,
+  Settings
 } from "lucide-react";
-import { Deal, Contact } from "@shared/schema";
+import { Deal, Contact, PipelineStage, forecastCategories, type DealLineItem, type ForecastCategory, type User } from "@shared/schema";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/usePermissions";
+import { usePipelines, stageColor } from "@/hooks/usePipelines";
 import { format } from "date-fns";
 
-const pipelineStages = [
-  { 
-    id: "prospecting", 
-    title: "Prospecting", 
-    color: "bg-gray-100 dark:bg-gray-800",
-    icon: Target,
-    description: "Initial contact and qualification"
-  },
-  { 
-    id: "qualified", 
-    title: "Qualified", 
-    color: "bg-blue-100 dark:bg-blue-900/30",
-    icon: User,
-    description: "Qualified leads ready for proposal"
-  },
-  { 
-    id: "proposal", 
-    title: "Proposal", 
-    color: "bg-yellow-100 dark:bg-yellow-900/30",
-    icon: Clock,
-    description: "Proposal sent, awaiting response"
-  },
-  { 
-    id: "negotiation", 
-    title: "Negotiation", 
-    color: "bg-orange-100 dark:bg-orange-900/30",
-    icon: TrendingUp,
-    description: "In active negotiation"
-  },
-  { 
-    id: "closed-won", 
-    title: "Closed Won", 
-    color: "bg-green-100 dark:bg-green-900/30",
-    icon: CheckCircle,
-    description: "Successfully closed deals"
-  },
-  { 
-    id: "closed-lost", 
-    title: "Closed Lost", 
-    color: "bg-red-100 dark:bg-red-900/30",
-    icon: Trash,
-    description: "Lost opportunities"
-  },
-];
+// Won and lost stages keep their own icons; open stages share one
+const stageIcon = (stage: PipelineStage) =>
+  stage.outcome === "won" ? CheckCircle : stage.outcome === "lost" ? Trash : Target;
+
+const forecastCategoryLabels: Record<ForecastCategory, string> = {
+  pipeline: "Pipeline",
+  best_case: "Best Case",
+  commit: "Commit",
+};
 
 interface DealWithContact extends Deal {
   contact?: Contact;
@@ -86,11 +58,20 @@ export default function Pipeline() {
   const [isAddDealOpen, setIsAddDealOpen] = useState(false);
   const [editDealOpen, setEditDealOpen] = useState(false);
   const [selectedDeal, setSelectedDeal] = useState<DealWithContact | null>(null);
+  // null until the lines are edited, so saving leaves untouched lines alone
+  const [editLineItems, setEditLineItems] = useState<LineItemDraft[] | null>(null);
   const [searchQuery, setSearchQuery] = useState("");
   const [filterStage, setFilterStage] = useState<string>("all");
   const [filterProbability, setFilterProbability] = useState<string>("all");
+  const [selectedPipelineId, setSelectedPipelineId] = useState<number | null>(null);
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const { can } = usePermissions();
+  const { pipelines, defaultPipeline, isLoading: pipelinesLoading } = usePipelines();
+
+  const pipeline = pipelines.find((candidate) => candidate.id === selectedPipelineId) ?? defaultPipeline;
+  const pipelineStages = pipeline?.stages ?? [];
+  const stageOutcome = (deal: Deal) => pipelineStages.find((stage) => stage.id === deal.stageId)?.outcome;
 
   const { data: deals = [], isLoading } = useQuery({
     queryKey: ["/api/deals"],
@@ -100,6 +81,20 @@ export default function Pipeline() {
     queryKey: ["/api/contacts"],
   });
 
+  const { data: members = [] } = useQuery<User[]>({
+    queryKey: ["/api/team/members"],
+  });
+  const ownerName = (deal: Deal) => {
+    const owner = members.find((member) => member.id === deal.ownerId);
+    return owner ? memberName(owner) : null;
+  };
+
+  const { data: selectedDealLineItems = [] } = useQuery<DealLineItem[]>({
+    queryKey: [`/api/deals/${selectedDeal?.id}/line-items`],
+    enabled: editDealOpen && !!selectedDeal,
+  });
+  const dealLines = editLineItems ?? fromLineItems(selectedDealLineItems);
+
   const deleteDealMutation = useMutation({
     mutationFn: async (id: number) => {
       const response = await apiRequest("DELETE", `/api/deals/${id}`);
@@ -123,17 +118,27 @@ export default function Pipeline() {
   });
 
   const updateDealStageMutation = useMutation({
-    mutationFn: async ({ id, stage, probability }: { id: number; stage: string; probability: number }) => {
-      const response = await apiRequest("PATCH", `/api/deals/${id}`, { stage, probability });
+    // The server applies the stage's default probability and close date
+    mutationFn: async ({ id, stageId }: { id: number; stageId: number }) => {
+      const response = await apiRequest("PATCH", `/api/deals/${id}`, { stageId });
       return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (_deal, { id }) => {
       queryClient.invalidateQueries({ queryKey: ["/api/deals"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/deals/${id}/stage-history`] });
       toast({
         title: "Deal updated",
         description: "Deal stage has been updated.",
       });
     },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to move deal",
+        variant: "destructive",
+      });
+    },
   });
 
   const enrichDealsWithContacts = (deals: Deal[]): DealWithContact[] => {
@@ -143,11 +148,21 @@ export default function Pipeline() {
     }));
   };
 
+  // The export endpoint applies the same filters as getFilteredDeals
+  const exportParams = new URLSearchParams();
+  if (searchQuery) exportParams.append("search", searchQuery);
+  if (pipeline) exportParams.append("pipelineId", String(pipeline.id));
+  if (filterStage !== "all") exportParams.append("stageId", filterStage);
+  if (filterProbability !== "all") exportParams.append("probability", filterProbability);
+
   const getFilteredDeals = () => {
     const safeDeals = Array.isArray(deals) ? deals : [];
     const enrichedDeals = enrichDealsWithContacts(safeDeals);
     
     return enrichedDeals.filter(deal => {
+      // Only the selected pipeline's deals
+      if (!pipelineStages.some(stage => stage.id === deal.stageId)) return false;
+
       // Search filter
       if (searchQuery) {
         const searchLower = searchQuery.toLowerCase();
@@ -160,7 +175,7 @@ export default function Pipeline() {
       }
       
       // Stage filter
-      if (filterStage !== "all" && deal.stage !== filterStage) return false;
+      if (filterStage !== "all" && deal.stageId !== parseInt(filterStage)) return false;
       
       // Probability filter
       if (filterProbability !== "all") {
@@ -176,13 +191,13 @@ export default function Pipeline() {
     });
   };
 
-  const getDealsByStage = (stage: string) => {
+  const getDealsByStage = (stageId: number) => {
     const filteredDeals = getFilteredDeals();
-    return filteredDeals.filter(deal => deal.stage === stage);
+    return filteredDeals.filter(deal => deal.stageId === stageId);
   };
 
-  const getStageValue = (stage: string) => {
-    const stageDeals = getDealsByStage(stage);
+  const getStageValue = (stageId: number) => {
+    const stageDeals = getDealsByStage(stageId);
     return stageDeals.reduce((sum, deal) => sum + parseFloat(deal.value || "0"), 0);
   };
 
@@ -206,24 +221,11 @@ export default function Pipeline() {
     return `${firstName?.charAt(0) || ""}${lastName?.charAt(0) || ""}`.toUpperCase();
   };
 
-  const handleStageChange = (dealId: number, newStage: string) => {
-    const stageProbabilities: Record<string, number> = {
-      "prospecting": 10,
-      "qualified": 25,
-      "proposal": 50,
-      "negotiation": 75,
-      "closed-won": 100,
-      "closed-lost": 0,
-    };
-    
-    updateDealStageMutation.mutate({
-      id: dealId,
-      stage: newStage,
-      probability: stageProbabilities[newStage] || 10
-    });
+  const handleStageChange = (dealId: number, stageId: number) => {
+    updateDealStageMutation.mutate({ id: dealId, stageId });
   };
 
-  if (isLoading) {
+  if (isLoading || pipelinesLoading) {
     return (
       <div className="flex-1 flex flex-col">
         <TopBar 
@@ -271,6 +273,27 @@ export default function Pipeline() {
             </div>
             
             <div className="flex gap-2">
+              {pipelines.length > 1 && (
+                <Select
+                  value={pipeline ? String(pipeline.id) : undefined}
+                  onValueChange={(value) => {
+                    setSelectedPipelineId(parseInt(value));
+                    setFilterStage("all");
+                  }}
+                >
+                  <SelectTrigger className="w-44">
+                    <SelectValue placeholder="Pipeline" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {pipelines.map(option => (
+                      <SelectItem key={option.id} value={String(option.id)}>
+                        {option.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+
               <Select value={filterStage} onValueChange={setFilterStage}>
                 <SelectTrigger className="w-40">
                   <Filter className="h-4 w-4 mr-2" />
@@ -279,8 +302,8 @@ export default function Pipeline() {
                 <SelectContent>
                   <SelectItem value="all">All Stages</SelectItem>
                   {pipelineStages.map(stage => (
-                    <SelectItem key={stage.id} value={stage.id}>
-                      {stage.title}
+                    <SelectItem key={stage.id} value={String(stage.id)}>
+                      {stage.name}
                     </SelectItem>
                   ))}
                 </SelectContent>
@@ -299,6 +322,17 @@ export default function Pipeline() {
                 </SelectContent>
               </Select>
               
+              <ExportMenu endpoint="/api/deals/export" params={exportParams} />
+
+              {can("pipelines:manage") && (
+                <Link href="/pipeline-settings">
+                  <Button variant="outline">
+                    <Settings className="h-4 w-4 mr-2" />
+                    Pipelines
+                  </Button>
+                </Link>
+              )}
+
               {(searchQuery || filterStage !== "all" || filterProbability !== "all") && (
                 <Button 
                   variant="outline" 
@@ -336,7 +370,7 @@ export default function Pipeline() {
                 <div>
                   <p className="text-green-100 text-sm">Active Deals</p>
                   <p className="text-2xl font-bold">
-                    {getFilteredDeals().filter(d => !['closed-won', 'closed-lost'].includes(d.stage || '')).length}
+                    {getFilteredDeals().filter(d => stageOutcome(d) === "open").length}
                   </p>
                 </div>
                 <Target className="h-8 w-8 text-green-200" />
@@ -367,9 +401,9 @@ export default function Pipeline() {
                   <p className="text-2xl font-bold">
                     {(() => {
                       const allDeals = getFilteredDeals();
-                      const closedDeals = allDeals.filter(d => d.stage && ['closed-won', 'closed-lost'].includes(d.stage));
+                      const closedDeals = allDeals.filter(d => stageOutcome(d) !== "open");
                       return closedDeals.length > 0 ? 
-                        Math.round((getDealsByStage('closed-won').length / closedDeals.length) * 100) : 0;
+                        Math.round((closedDeals.filter(d => stageOutcome(d) === "won").length / closedDeals.length) * 100) : 0;
                     })()}%
                   </p>
                 </div>
@@ -381,19 +415,19 @@ export default function Pipeline() {
 
         {/* Pipeline Overview */}
         <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-4 mb-6">
-          {pipelineStages.map((stage) => {
+          {pipelineStages.map((stage, index) => {
             const stageDeals = getDealsByStage(stage.id);
             const stageValue = getStageValue(stage.id);
-            const IconComponent = stage.icon;
+            const IconComponent = stageIcon(stage);
             
             return (
               <Card key={stage.id} className="transition-all hover:shadow-md">
                 <CardHeader className="pb-2">
                   <CardTitle className="text-sm font-medium flex items-center gap-2">
-                    <div className={`p-1.5 rounded-md ${stage.color}`}>
+                    <div className={`p-1.5 rounded-md ${stageColor(stage, index).className}`}>
                       <IconComponent className="h-3 w-3" />
                     </div>
-                    {stage.title}
+                    {stage.name}
                   </CardTitle>
                 </CardHeader>
                 <CardContent>
@@ -410,15 +444,17 @@ export default function Pipeline() {
         </div>
 
         {/* Pipeline Kanban Board */}
-        <div className="grid grid-cols-1 lg:grid-cols-6 gap-4 h-full">
-          {pipelineStages.map((stage) => {
+        <div className="flex gap-4 h-full overflow-x-auto pb-2">
+          {pipelineStages.map((stage, index) => {
             const stageDeals = getDealsByStage(stage.id);
             
             return (
-              <div key={stage.id} className="space-y-4">
-                <div className={`${stage.color} rounded-lg p-3`}>
-                  <h3 className="font-semibold text-sm">{stage.title}</h3>
-                  <p className="text-xs text-muted-foreground mt-1">{stage.description}</p>
+              <div key={stage.id} className="space-y-4 min-w-[240px] flex-1">
+                <div className={`${stageColor(stage, index).className} rounded-lg p-3`}>
+                  <h3 className="font-semibold text-sm">{stage.name}</h3>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {stage.outcome === "open" ? `${stage.probability}% default probability` : stage.outcome === "won" ? "Won deals" : "Lost deals"}
+                  </p>
                   <div className="text-xs font-medium mt-2">
                     {stageDeals.length} deals • {formatCurrency(getStageValue(stage.id))}
                   </div>
@@ -438,13 +474,13 @@ export default function Pipeline() {
                             </DropdownMenuTrigger>
                             <DropdownMenuContent align="end">
                               {pipelineStages
-                                .filter(s => s.id !== deal.stage)
+                                .filter(s => s.id !== deal.stageId)
                                 .map(targetStage => (
                                   <DropdownMenuItem
                                     key={targetStage.id}
                                     onClick={() => handleStageChange(deal.id, targetStage.id)}
                                   >
-                                    Move to {targetStage.title}
+                                    Move to {targetStage.name}
                                   </DropdownMenuItem>
                                 ))}
                               <DropdownMenuSeparator />
@@ -468,6 +504,7 @@ export default function Pipeline() {
                               <DropdownMenuItem
                                 onClick={() => {
                                   setSelectedDeal(deal);
+                                  setEditLineItems(null);
                                   setEditDealOpen(true);
                                 }}
                               >
@@ -515,12 +552,17 @@ export default function Pipeline() {
                             </div>
                           )}
 
-                          {deal.expectedCloseDate && (
-                            <div className="flex items-center gap-1 text-xs text-muted-foreground">
-                              <Calendar className="h-3 w-3" />
-                              {format(new Date(deal.expectedCloseDate), "MMM dd")}
-                            </div>
-                          )}
+                          <div className="flex items-center justify-between text-xs text-muted-foreground">
+                            {deal.expectedCloseDate ? (
+                              <div className="flex items-center gap-1">
+                                <Calendar className="h-3 w-3" />
+                                {format(new Date(deal.expectedCloseDate), "MMM dd")}
+                              </div>
+                            ) : (
+                              <span />
+                            )}
+                            {ownerName(deal) && <span className="truncate">{ownerName(deal)}</span>}
+                          </div>
                         </div>
                       </CardContent>
                     </Card>
@@ -546,7 +588,7 @@ export default function Pipeline() {
       {/* Edit Deal Modal */}
       {editDealOpen && selectedDeal && (
         <Dialog open={editDealOpen} onOpenChange={setEditDealOpen}>
-          <DialogContent className="max-w-md">
+          <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
             <DialogHeader>
               <DialogTitle>Edit Deal</DialogTitle>
               <DialogDescription>
@@ -563,29 +605,44 @@ export default function Pipeline() {
                 />
               </div>
               
-              <div>
-                <label className="text-sm font-medium">Deal Value</label>
-                <Input 
-                  type="number" 
-                  defaultValue={selectedDeal.value || ""} 
-                  onChange={(e) => setSelectedDeal({...selectedDeal, value: e.target.value})}
-                />
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="text-sm font-medium">Deal Value</label>
+                  {dealLines.length > 0 ? (
+                    <Input type="number" value={lineItemsValue(dealLines)} disabled />
+                  ) : (
+                    <Input 
+                      type="number" 
+                      defaultValue={selectedDeal.value || ""} 
+                      onChange={(e) => setSelectedDeal({...selectedDeal, value: e.target.value})}
+                    />
+                  )}
+                </div>
+                <div>
+                  <label className="text-sm font-medium">Owner</label>
+                  <OwnerSelect
+                    value={selectedDeal.ownerId}
+                    onChange={(ownerId) => setSelectedDeal({...selectedDeal, ownerId})}
+                  />
+                </div>
               </div>
+
+              <LineItemsEditor value={dealLines} onChange={setEditLineItems} />
               
               <div className="grid grid-cols-2 gap-4">
                 <div>
                   <label className="text-sm font-medium">Stage</label>
                   <Select 
-                    defaultValue={selectedDeal.stage || "prospecting"}
-                    onValueChange={(value) => setSelectedDeal({...selectedDeal, stage: value})}
+                    defaultValue={selectedDeal.stageId ? String(selectedDeal.stageId) : undefined}
+                    onValueChange={(value) => setSelectedDeal({...selectedDeal, stageId: parseInt(value)})}
                   >
                     <SelectTrigger>
                       <SelectValue />
                     </SelectTrigger>
                     <SelectContent>
                       {pipelineStages.map(stage => (
-                        <SelectItem key={stage.id} value={stage.id}>
-                          {stage.title}
+                        <SelectItem key={stage.id} value={String(stage.id)}>
+                          {stage.name}
                         </SelectItem>
                       ))}
                     </SelectContent>
@@ -603,13 +660,33 @@ export default function Pipeline() {
                 </div>
               </div>
               
-              <div>
-                <label className="text-sm font-medium">Expected Close Date</label>
-                <Input 
-                  type="date" 
-                  defaultValue={selectedDeal.expectedCloseDate ? new Date(selectedDeal.expectedCloseDate).toISOString().split('T')[0] : ""} 
-                  onChange={(e) => setSelectedDeal({...selectedDeal, expectedCloseDate: new Date(e.target.value)})}
-                />
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="text-sm font-medium">Expected Close Date</label>
+                  <Input 
+                    type="date" 
+                    defaultValue={selectedDeal.expectedCloseDate ? new Date(selectedDeal.expectedCloseDate).toISOString().split('T')[0] : ""} 
+                    onChange={(e) => setSelectedDeal({...selectedDeal, expectedCloseDate: new Date(e.target.value)})}
+                  />
+                </div>
+                <div>
+                  <label className="text-sm font-medium">Forecast Category</label>
+                  <Select 
+                    defaultValue={selectedDeal.forecastCategory}
+                    onValueChange={(value) => setSelectedDeal({...selectedDeal, forecastCategory: value})}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {forecastCategories.map(category => (
+                        <SelectItem key={category} value={category}>
+                          {forecastCategoryLabels[category]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
               </div>
               
               <div>
@@ -620,6 +697,21 @@ export default function Pipeline() {
                   onChange={(e) => setSelectedDeal({...selectedDeal, notes: e.target.value})}
                 />
               </div>
+
+              <div>
+                <label className="text-sm font-medium">Quotes</label>
+                <p className="text-xs text-muted-foreground">Save line item changes before generating a new version.</p>
+                <div className="mt-2">
+                  <DealQuotes dealId={selectedDeal.id} />
+                </div>
+              </div>
+
+              <div>
+                <label className="text-sm font-medium">Stage History</label>
+                <div className="mt-2 max-h-48 overflow-y-auto">
+                  <StageHistory dealId={selectedDeal.id} />
+                </div>
+              </div>
             </div>
 
             <DialogFooter>
@@ -632,14 +724,20 @@ export default function Pipeline() {
                     await apiRequest("PATCH", `/api/deals/${selectedDeal.id}`, {
                       title: selectedDeal.title,
                       value: selectedDeal.value,
-                      stage: selectedDeal.stage,
+                      ownerId: selectedDeal.ownerId,
+                      stageId: selectedDeal.stageId,
                       probability: selectedDeal.probability,
+                      forecastCategory: selectedDeal.forecastCategory,
                       expectedCloseDate: selectedDeal.expectedCloseDate,
-                      notes: selectedDeal.notes
+                      notes: selectedDeal.notes,
+                      lineItems: editLineItems ? toLineItemInputs(editLineItems) : undefined
                     });
                     
                     queryClient.invalidateQueries({ queryKey: ["/api/deals"] });
                     queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+                    queryClient.invalidateQueries({ queryKey: [`/api/deals/${selectedDeal.id}/stage-history`] });
+                    queryClient.invalidateQueries({ queryKey: [`/api/deals/${selectedDeal.id}/line-items`] });
+                    queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith("/api/forecast") });
                     
                     toast({
                       title: "Deal updated",
@@ -0,0 +1,156 @@
+import { useEffect, useRef, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { AlertCircle, CheckCircle, Mail } from "lucide-react";
+import type { ConsentChannel, ConsentStatus } from "@shared/schema";
+
+interface ChannelPreference {
+  channel: ConsentChannel;
+  address: string;
+  status: ConsentStatus | null;
+  suppressed: boolean;
+}
+
+interface Preferences {
+  organizationName: string;
+  firstName: string;
+  channels: ChannelPreference[];
+}
+
+const channelLabels: Record<ConsentChannel, string> = {
+  email: "Email",
+  whatsapp: "WhatsApp",
+  sms: "SMS",
+};
+
+// Public page recipients reach from the links at the bottom of marketing emails
+export default function Preferences({ params }: { params: { token: string } }) {
+  const { toast } = useToast();
+  const preferencesUrl = `/api/preferences/${params.token}`;
+  const [subscribed, setSubscribed] = useState<Partial<Record<ConsentChannel, boolean>>>({});
+  const [unsubscribed, setUnsubscribed] = useState(false);
+  const unsubscribeStarted = useRef(false);
+
+  const { data: preferences, isLoading, error } = useQuery<Preferences>({
+    queryKey: [preferencesUrl],
+  });
+
+  useEffect(() => {
+    if (preferences) {
+      setSubscribed(Object.fromEntries(
+        preferences.channels.map((preference) => [preference.channel, preference.status !== "opted_out"])
+      ));
+    }
+  }, [preferences]);
+
+  const unsubscribeMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", `/api/email/t/${params.token}/unsubscribe`);
+    },
+    onSuccess: () => {
+      setUnsubscribed(true);
+      queryClient.invalidateQueries({ queryKey: [preferencesUrl] });
+    },
+  });
+
+  // The unsubscribe link in the email lands here with ?unsubscribe=email
+  useEffect(() => {
+    const urlParams = new URLSearchParams(window.location.search);
+    if (urlParams.get("unsubscribe") === "email" && !unsubscribeStarted.current) {
+      unsubscribeStarted.current = true;
+      unsubscribeMutation.mutate();
+    }
+  }, []);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PUT", preferencesUrl, subscribed);
+      return response.json();
+    },
+    onSuccess: (updated: Preferences) => {
+      queryClient.setQueryData([preferencesUrl], updated);
+      toast({
+        title: "Preferences saved",
+        description: "We'll only contact you the ways you chose.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save preferences",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 dark:bg-background p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <div className="mx-auto mb-2 w-12 h-12 rounded-full bg-blue-100 dark:bg-blue-900/30 flex items-center justify-center">
+            <Mail className="h-6 w-6 text-blue-600" />
+          </div>
+          <CardTitle>Communication Preferences</CardTitle>
+          {preferences && (
+            <CardDescription>
+              Hi {preferences.firstName}, choose how {preferences.organizationName || "we"} may contact you.
+            </CardDescription>
+          )}
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {isLoading ? (
+            <p className="text-sm text-center text-muted-foreground">Loading your preferences...</p>
+          ) : error || !preferences ? (
+            <div className="flex items-center gap-2 text-sm text-red-600">
+              <AlertCircle className="h-4 w-4" />
+              This link is no longer valid.
+            </div>
+          ) : (
+            <>
+              {unsubscribed && (
+                <div className="flex items-center gap-2 rounded-md bg-green-50 dark:bg-green-900/20 p-3 text-sm text-green-800 dark:text-green-400">
+                  <CheckCircle className="h-4 w-4" />
+                  You've been unsubscribed from our emails.
+                </div>
+              )}
+              {unsubscribeMutation.isError && (
+                <div className="flex items-center gap-2 text-sm text-red-600">
+                  <AlertCircle className="h-4 w-4" />
+                  We couldn't unsubscribe you. Turn off email below and save instead.
+                </div>
+              )}
+
+              {preferences.channels.map((preference) => (
+                <div key={preference.channel} className="flex items-center justify-between rounded-md border p-3">
+                  <div>
+                    <Label htmlFor={`channel-${preference.channel}`}>{channelLabels[preference.channel]}</Label>
+                    <p className="text-xs text-muted-foreground">{preference.address}</p>
+                    {preference.suppressed && preference.status !== "opted_out" && (
+                      <p className="text-xs text-yellow-700 dark:text-yellow-400">
+                        Messages to this address are currently blocked.
+                      </p>
+                    )}
+                  </div>
+                  <Switch
+                    id={`channel-${preference.channel}`}
+                    checked={subscribed[preference.channel] ?? true}
+                    onCheckedChange={(checked) => setSubscribed({ ...subscribed, [preference.channel]: checked })}
+                  />
+                </div>
+              ))}
+
+              <Button className="w-full" onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending}>
+                {saveMutation.isPending ? "Saving..." : "Save Preferences"}
+              </Button>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
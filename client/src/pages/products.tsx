@@ -0,0 +1,275 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/usePermissions";
+import { Edit, Package, Trash } from "lucide-react";
+import type { Product } from "@shared/schema";
+
+interface ProductDraft {
+  name: string;
+  sku: string;
+  description: string;
+  unitPrice: string;
+  taxRate: string;
+}
+
+const emptyProduct: ProductDraft = { name: "", sku: "", description: "", unitPrice: "", taxRate: "0" };
+
+const formatCurrency = (amount: string) =>
+  new Intl.NumberFormat("en-US", { style: "currency", currency: "USD" }).format(parseFloat(amount));
+
+export default function Products() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { can } = usePermissions();
+  // null while adding a new product
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [draft, setDraft] = useState<ProductDraft>(emptyProduct);
+
+  const { data: products = [], isLoading } = useQuery<Product[]>({
+    queryKey: ["/api/products"],
+  });
+
+  const resetForm = () => {
+    setEditingId(null);
+    setDraft(emptyProduct);
+  };
+
+  const editProduct = (product: Product) => {
+    setEditingId(product.id);
+    setDraft({
+      name: product.name,
+      sku: product.sku ?? "",
+      description: product.description ?? "",
+      unitPrice: product.unitPrice,
+      taxRate: String(parseFloat(product.taxRate)),
+    });
+  };
+
+  const saveProductMutation = useMutation({
+    mutationFn: async () => {
+      const product = {
+        name: draft.name,
+        sku: draft.sku || null,
+        description: draft.description || null,
+        unitPrice: draft.unitPrice,
+        taxRate: draft.taxRate || "0",
+      };
+      const response = editingId
+        ? await apiRequest("PATCH", `/api/products/${editingId}`, product)
+        : await apiRequest("POST", "/api/products", product);
+      return response.json();
+    },
+    onSuccess: (product: Product) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+      toast({
+        title: "Product saved",
+        description: `"${product.name}" is in the price book.`,
+      });
+      resetForm();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save product",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const archiveProductMutation = useMutation({
+    mutationFn: async ({ id, isActive }: { id: number; isActive: boolean }) => {
+      return await apiRequest("PATCH", `/api/products/${id}`, { isActive });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update product",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteProductMutation = useMutation({
+    mutationFn: async (id: number) => {
+      return await apiRequest("DELETE", `/api/products/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+      toast({
+        title: "Product deleted",
+        description: "The product has been removed from the price book.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete product",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const canManage = can("products:manage");
+
+  return (
+    <div className="p-8 max-w-6xl mx-auto overflow-auto">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">Products</h1>
+        <p className="text-gray-600">The price book your team picks from when adding line items to deals</p>
+      </div>
+
+      {canManage && (
+        <Card className="mb-8">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Package className="w-5 h-5" />
+              {editingId ? "Edit product" : "Add product"}
+            </CardTitle>
+            <CardDescription>
+              Price changes apply to new line items. Deals keep the price they were quoted at.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              <div className="md:col-span-2">
+                <Label htmlFor="product-name">Name</Label>
+                <Input
+                  id="product-name"
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  placeholder="Enterprise License"
+                  className="mt-1"
+                />
+              </div>
+              <div className="md:col-span-2">
+                <Label htmlFor="product-sku">SKU</Label>
+                <Input
+                  id="product-sku"
+                  value={draft.sku}
+                  onChange={(e) => setDraft({ ...draft, sku: e.target.value })}
+                  placeholder="ENT-001"
+                  className="mt-1"
+                />
+              </div>
+              <div>
+                <Label htmlFor="product-price">Unit price ($)</Label>
+                <Input
+                  id="product-price"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={draft.unitPrice}
+                  onChange={(e) => setDraft({ ...draft, unitPrice: e.target.value })}
+                  className="mt-1"
+                />
+              </div>
+              <div>
+                <Label htmlFor="product-tax">Tax rate (%)</Label>
+                <Input
+                  id="product-tax"
+                  type="number"
+                  min="0"
+                  max="100"
+                  step="0.01"
+                  value={draft.taxRate}
+                  onChange={(e) => setDraft({ ...draft, taxRate: e.target.value })}
+                  className="mt-1"
+                />
+              </div>
+              <div className="md:col-span-2">
+                <Label htmlFor="product-description">Description</Label>
+                <Input
+                  id="product-description"
+                  value={draft.description}
+                  onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                  className="mt-1"
+                />
+              </div>
+            </div>
+            <div className="flex justify-end gap-2">
+              {editingId && (
+                <Button variant="outline" onClick={resetForm}>
+                  Cancel
+                </Button>
+              )}
+              <Button
+                onClick={() => saveProductMutation.mutate()}
+                disabled={!draft.name.trim() || !draft.unitPrice || saveProductMutation.isPending}
+              >
+                {saveProductMutation.isPending ? "Saving..." : editingId ? "Save Product" : "Add Product"}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardContent className="pt-6">
+          {isLoading ? (
+            <p className="text-sm text-gray-500">Loading...</p>
+          ) : products.length === 0 ? (
+            <p className="text-sm text-gray-500">No products yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Product</TableHead>
+                  <TableHead>SKU</TableHead>
+                  <TableHead className="text-right">Unit price</TableHead>
+                  <TableHead className="text-right">Tax</TableHead>
+                  <TableHead>Active</TableHead>
+                  {canManage && <TableHead />}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {products.map((product) => (
+                  <TableRow key={product.id}>
+                    <TableCell>
+                      <div className="font-medium">{product.name}</div>
+                      {product.description && <div className="text-sm text-gray-500">{product.description}</div>}
+                    </TableCell>
+                    <TableCell>{product.sku || "—"}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(product.unitPrice)}</TableCell>
+                    <TableCell className="text-right">{parseFloat(product.taxRate)}%</TableCell>
+                    <TableCell>
+                      {canManage ? (
+                        <Switch
+                          checked={!!product.isActive}
+                          onCheckedChange={(isActive) => archiveProductMutation.mutate({ id: product.id, isActive })}
+                        />
+                      ) : (
+                        !product.isActive && <Badge variant="outline">Archived</Badge>
+                      )}
+                    </TableCell>
+                    {canManage && (
+                      <TableCell className="text-right">
+                        <Button variant="ghost" size="sm" onClick={() => editProduct(product)}>
+                          <Edit className="w-4 h-4" />
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => deleteProductMutation.mutate(product.id)}>
+                          <Trash className="w-4 h-4" />
+                        </Button>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -42,6 +42,10 @@ import {
   Star
 } from "lucide-react";
 import TopBar from "@/components/layout/topbar";
+import ForecastPanel from "@/components/reports/forecast-panel";
+import MeetingDistributionPanel from "@/components/reports/meeting-distribution-panel";
+import { usePipelines } from "@/hooks/usePipelines";
+import { usePermissions } from "@/hooks/usePermissions";
 
 interface ReportData {
   salesMetrics: {
@@ -75,6 +79,40 @@ interface ReportData {
     count: number;
     conversionRate: number;
   }>;
+  stageAnalytics?: {
+    pipeline: string;
+    timeInStage: Array<{
+      stageId: number;
+      name: string;
+      completedStays: number;
+      averageDays: number;
+      medianDays: number;
+      currentDeals: number;
+      currentAverageDays: number;
+    }>;
+    stageConversion: Array<{
+      from: string;
+      to: string;
+      entered: number;
+      converted: number;
+      rate: number;
+    }>;
+  };
+  revenueBreakdown?: {
+    byProduct: Array<{
+      productId: number | null;
+      name: string;
+      revenue: number;
+      quantity: number;
+      deals: number;
+    }>;
+    byOwner: Array<{
+      ownerId: string | null;
+      name: string;
+      revenue: number;
+      deals: number;
+    }>;
+  };
 }
 
 export default function Reports() {
@@ -97,10 +135,13 @@ export default function Reports() {
     queryKey: ["/api/tasks"],
   });
 
+  const { getStage } = usePipelines();
+  const { can } = usePermissions();
+
   // Calculate real metrics from actual data
   const calculateRealMetrics = () => {
-    const wonDeals = deals.filter((d: any) => d.stage === "closed-won");
-    const lostDeals = deals.filter((d: any) => d.stage === "closed-lost");
+    const wonDeals = deals.filter((d: any) => getStage(d.stageId)?.outcome === "won");
+    const lostDeals = deals.filter((d: any) => getStage(d.stageId)?.outcome === "lost");
     const totalRevenue = wonDeals.reduce((sum: number, deal: any) => sum + parseFloat(deal.value || 0), 0);
     const averageDealSize = wonDeals.length > 0 ? totalRevenue / wonDeals.length : 0;
     const conversionRate = deals.length > 0 ? (wonDeals.length / deals.length) * 100 : 0;
@@ -294,12 +335,15 @@ export default function Reports() {
           </div>
 
           <Tabs defaultValue="overview" className="space-y-6">
-            <TabsList className="grid w-full grid-cols-5">
+            <TabsList className={`grid w-full ${can("assignments:view") ? "grid-cols-8" : "grid-cols-7"}`}>
               <TabsTrigger value="overview">Overview</TabsTrigger>
               <TabsTrigger value="sales">Sales</TabsTrigger>
+              <TabsTrigger value="stages">Stages</TabsTrigger>
+              <TabsTrigger value="forecast">Forecast</TabsTrigger>
               <TabsTrigger value="leads">Leads</TabsTrigger>
               <TabsTrigger value="activities">Activities</TabsTrigger>
               <TabsTrigger value="performance">Performance</TabsTrigger>
+              {can("assignments:view") && <TabsTrigger value="meetings">Meetings</TabsTrigger>}
             </TabsList>
 
             {/* Overview Tab */}
@@ -555,8 +599,149 @@ export default function Reports() {
                   </CardContent>
                 </Card>
               </div>
+
+              {reportData?.revenueBreakdown && (
+                <div className="grid gap-6 md:grid-cols-2">
+                  <Card>
+                    <CardHeader>
+                      <CardTitle>Revenue by Product</CardTitle>
+                      <p className="text-sm text-muted-foreground">
+                        Won line items, after discounts and before tax
+                      </p>
+                    </CardHeader>
+                    <CardContent>
+                      <div className="space-y-3">
+                        {reportData.revenueBreakdown.byProduct.map((row) => (
+                          <div key={`${row.productId ?? "line"}-${row.name}`} className="flex items-center justify-between text-sm">
+                            <div>
+                              <div className="font-medium">{row.name}</div>
+                              <div className="text-xs text-muted-foreground">
+                                {row.quantity > 0 && `${row.quantity} sold • `}{row.deals} deals
+                              </div>
+                            </div>
+                            <span className="font-bold">{formatCurrency(row.revenue)}</span>
+                          </div>
+                        ))}
+                        {reportData.revenueBreakdown.byProduct.length === 0 && (
+                          <p className="text-sm text-muted-foreground">No won deals in this period.</p>
+                        )}
+                      </div>
+                    </CardContent>
+                  </Card>
+
+                  <Card>
+                    <CardHeader>
+                      <CardTitle>Revenue by Owner</CardTitle>
+                      <p className="text-sm text-muted-foreground">
+                        Won deal value attributed to each deal's owner
+                      </p>
+                    </CardHeader>
+                    <CardContent>
+                      <ResponsiveContainer width="100%" height={250}>
+                        <BarChart data={reportData.revenueBreakdown.byOwner}>
+                          <CartesianGrid strokeDasharray="3 3" />
+                          <XAxis dataKey="name" />
+                          <YAxis />
+                          <Tooltip formatter={(value: number) => formatCurrency(value)} />
+                          <Bar dataKey="revenue" name="Revenue" fill="#10B981" />
+                        </BarChart>
+                      </ResponsiveContainer>
+                      <div className="space-y-2 mt-4">
+                        {reportData.revenueBreakdown.byOwner.map((row) => (
+                          <div key={row.ownerId ?? "unassigned"} className="flex items-center justify-between text-sm">
+                            <span>{row.name}</span>
+                            <span className="text-muted-foreground">
+                              {row.deals} won • {formatCurrency(row.revenue)}
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                    </CardContent>
+                  </Card>
+                </div>
+              )}
+            </TabsContent>
+
+            {/* Stages Tab */}
+            <TabsContent value="stages" className="space-y-6">
+              {reportData?.stageAnalytics ? (
+                <div className="grid gap-6 md:grid-cols-2">
+                  <Card>
+                    <CardHeader>
+                      <CardTitle>Time in Stage</CardTitle>
+                      <p className="text-sm text-muted-foreground">
+                        Average days deals in {reportData.stageAnalytics.pipeline} spent in each stage before moving on
+                      </p>
+                    </CardHeader>
+                    <CardContent>
+                      <ResponsiveContainer width="100%" height={250}>
+                        <BarChart data={reportData.stageAnalytics.timeInStage}>
+                          <CartesianGrid strokeDasharray="3 3" />
+                          <XAxis dataKey="name" />
+                          <YAxis />
+                          <Tooltip formatter={(value: number) => `${value} days`} />
+                          <Bar dataKey="averageDays" name="Average" fill="#3B82F6" />
+                          <Bar dataKey="medianDays" name="Median" fill="#10B981" />
+                        </BarChart>
+                      </ResponsiveContainer>
+                      <div className="space-y-2 mt-4">
+                        {reportData.stageAnalytics.timeInStage.map((stage) => (
+                          <div key={stage.stageId} className="flex items-center justify-between text-sm">
+                            <span>{stage.name}</span>
+                            <span className="text-muted-foreground">
+                              {stage.completedStays} moved on • {stage.currentDeals} here now
+                              {stage.currentDeals > 0 && ` for ${stage.currentAverageDays} days on average`}
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                    </CardContent>
+                  </Card>
+
+                  <Card>
+                    <CardHeader>
+                      <CardTitle>Stage Conversion</CardTitle>
+                      <p className="text-sm text-muted-foreground">
+                        Share of deals entering a stage that went on to the next one
+                      </p>
+                    </CardHeader>
+                    <CardContent>
+                      <div className="space-y-4">
+                        {reportData.stageAnalytics.stageConversion.map((step) => (
+                          <div key={`${step.from}-${step.to}`} className="space-y-1">
+                            <div className="flex items-center justify-between text-sm">
+                              <span>{step.from} → {step.to}</span>
+                              <span className="font-bold">{formatPercentage(step.rate)}</span>
+                            </div>
+                            <div className="w-full bg-gray-200 rounded-full h-2">
+                              <div className="bg-blue-600 h-2 rounded-full" style={{ width: `${step.rate}%` }} />
+                            </div>
+                            <div className="text-xs text-muted-foreground">
+                              {step.converted} of {step.entered} deals
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    </CardContent>
+                  </Card>
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">No stage history yet.</p>
+              )}
             </TabsContent>
 
+            {/* Forecast Tab */}
+            <TabsContent value="forecast" className="space-y-6">
+              <ForecastPanel />
+            </TabsContent>
+
+            {/* Team meeting distribution */}
+            {can("assignments:view") && (
+              <TabsContent value="meetings" className="space-y-6">
+                <MeetingDistributionPanel />
+              </TabsContent>
+            )}
+
             {/* Activities Tab */}
             <TabsContent value="activities" className="space-y-6">
               <div className="grid gap-6 md:grid-cols-4">
@@ -0,0 +1,177 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/usePermissions";
+import { ShieldOff, Trash } from "lucide-react";
+import { consentChannels, type ConsentChannel, type Suppression, type SuppressionReason } from "@shared/schema";
+
+const channelLabels: Record<ConsentChannel, string> = {
+  email: "Email",
+  whatsapp: "WhatsApp",
+  sms: "SMS",
+};
+
+const reasonLabels: Record<SuppressionReason, string> = {
+  unsubscribed: "Unsubscribed",
+  bounced: "Bounced",
+  complained: "Spam complaint",
+  manual: "Added manually",
+};
+
+export default function Suppressions() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { can } = usePermissions();
+  const [channel, setChannel] = useState<ConsentChannel>("email");
+  const [address, setAddress] = useState("");
+
+  const { data: suppressions = [], isLoading } = useQuery<Suppression[]>({
+    queryKey: ["/api/suppressions"],
+  });
+
+  const addMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("POST", "/api/suppressions", { channel, address });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/suppressions"] });
+      toast({
+        title: "Address suppressed",
+        description: `Nothing will be sent to ${address} by ${channelLabels[channel]}.`,
+      });
+      setAddress("");
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to add to suppression list",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (id: number) => {
+      return await apiRequest("DELETE", `/api/suppressions/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/suppressions"] });
+      toast({
+        title: "Address removed",
+        description: "Contacts who opted out stay opted out until they opt back in.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to remove from suppression list",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="p-8 max-w-6xl mx-auto overflow-auto">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">Suppression List</h1>
+        <p className="text-gray-600">
+          Addresses nothing is sent to: unsubscribes, bounces, spam complaints and ones you add
+        </p>
+      </div>
+
+      {can("campaigns:manage") && (
+        <Card className="mb-8">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <ShieldOff className="w-5 h-5" />
+              Suppress an address
+            </CardTitle>
+            <CardDescription>
+              Emails, WhatsApp messages and SMS to a suppressed address are skipped, including campaign steps.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+              <div>
+                <Label>Channel</Label>
+                <Select value={channel} onValueChange={(value) => setChannel(value as ConsentChannel)}>
+                  <SelectTrigger className="mt-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {consentChannels.map((option) => (
+                      <SelectItem key={option} value={option}>
+                        {channelLabels[option]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="md:col-span-2">
+                <Label htmlFor="suppression-address">{channel === "email" ? "Email address" : "Phone number"}</Label>
+                <Input
+                  id="suppression-address"
+                  value={address}
+                  onChange={(e) => setAddress(e.target.value)}
+                  placeholder={channel === "email" ? "name@example.com" : "+62 812 3456 7890"}
+                  className="mt-1"
+                />
+              </div>
+              <Button onClick={() => addMutation.mutate()} disabled={!address.trim() || addMutation.isPending}>
+                {addMutation.isPending ? "Adding..." : "Suppress"}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {isLoading ? (
+        <p className="text-sm text-gray-500">Loading...</p>
+      ) : suppressions.length === 0 ? (
+        <p className="text-sm text-gray-500">No suppressed addresses.</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Address</TableHead>
+              <TableHead>Channel</TableHead>
+              <TableHead>Reason</TableHead>
+              <TableHead>Added</TableHead>
+              {can("campaigns:manage") && <TableHead />}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {suppressions.map((suppression) => (
+              <TableRow key={suppression.id}>
+                <TableCell className="font-medium">{suppression.address}</TableCell>
+                <TableCell>{channelLabels[suppression.channel as ConsentChannel] ?? suppression.channel}</TableCell>
+                <TableCell>
+                  <Badge variant={suppression.reason === "manual" ? "outline" : "secondary"}>
+                    {reasonLabels[suppression.reason as SuppressionReason] ?? suppression.reason}
+                  </Badge>
+                </TableCell>
+                <TableCell>{format(new Date(suppression.createdAt), "MMM dd, yyyy")}</TableCell>
+                {can("campaigns:manage") && (
+                  <TableCell className="text-right">
+                    <Button variant="ghost" size="sm" onClick={() => removeMutation.mutate(suppression.id)}>
+                      <Trash className="w-4 h-4" />
+                    </Button>
+                  </TableCell>
+                )}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+}
@@ -13,9 +13,11 @@ import {
   Shield,
   User,
   MoreVertical,
-  Copy
+  Copy,
+  Download
 } from "lucide-react";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { usePermissions } from "@/hooks/usePermissions";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -37,16 +39,28 @@ interface TeamMember {
 interface Invitation {
   id: number;
   email: string;
+  token: string;
   role: string;
   status: string;
   expiresAt: Date;
   createdAt: Date;
 }
 
+interface ExportLog {
+  id: number;
+  entityType: string;
+  format: string;
+  filters: Record<string, unknown>;
+  rowCount: number;
+  createdAt: Date;
+  user: { id: string; email: string | null; firstName: string | null; lastName: string | null } | null;
+}
+
 export default function Team() {
   const { toast } = useToast();
   const [inviteEmail, setInviteEmail] = useState("");
   const [inviteRole, setInviteRole] = useState("member");
+  const { role, can } = usePermissions();
 
   const { data: teamMembers, isLoading: membersLoading } = useQuery({
     queryKey: ["/api/team/members"],
@@ -54,8 +68,14 @@ export default function Team() {
 
   const { data: invitations, isLoading: invitationsLoading } = useQuery({
     queryKey: ["/api/team/invitations"],
+    enabled: can("team:invite"),
   }) as { data?: Invitation[]; isLoading: boolean };
 
+  const { data: exportLogs } = useQuery({
+    queryKey: ["/api/exports"],
+    enabled: can("exports:view"),
+  }) as { data?: ExportLog[] };
+
   const inviteMemberMutation = useMutation({
     mutationFn: async (data: { email: string; role: string }) => {
       return await apiRequest("POST", "/api/team/invite", data);
@@ -68,10 +88,10 @@ export default function Team() {
       setInviteEmail("");
       queryClient.invalidateQueries({ queryKey: ["/api/team/invitations"] });
     },
-    onError: () => {
+    onError: (error: any) => {
       toast({
         title: "Error",
-        description: "Failed to send invitation. Please try again.",
+        description: error.message || "Failed to send invitation. Please try again.",
         variant: "destructive",
       });
     },
@@ -112,6 +132,7 @@ export default function Team() {
         title: "Invitation Resent",
         description: "Invitation has been resent successfully.",
       });
+      queryClient.invalidateQueries({ queryKey: ["/api/team/invitations"] });
     },
   });
 
@@ -172,40 +193,42 @@ export default function Team() {
       </div>
 
       {/* Invite New Member */}
-      <Card className="mb-8">
-        <CardHeader>
-          <CardTitle className="flex items-center gap-2">
-            <UserPlus className="w-5 h-5" />
-            Invite Team Member
-          </CardTitle>
-        </CardHeader>
-        <CardContent>
-          <div className="flex gap-4">
-            <div className="flex-1">
-              <Input
-                placeholder="Enter email address"
-                value={inviteEmail}
-                onChange={(e) => setInviteEmail(e.target.value)}
-                onKeyPress={(e) => e.key === 'Enter' && handleInvite()}
-              />
+      {can("team:invite") && (
+        <Card className="mb-8">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <UserPlus className="w-5 h-5" />
+              Invite Team Member
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="flex gap-4">
+              <div className="flex-1">
+                <Input
+                  placeholder="Enter email address"
+                  value={inviteEmail}
+                  onChange={(e) => setInviteEmail(e.target.value)}
+                  onKeyPress={(e) => e.key === 'Enter' && handleInvite()}
+                />
+              </div>
+              <select
+                value={inviteRole}
+                onChange={(e) => setInviteRole(e.target.value)}
+                className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="member">Member</option>
+                <option value="admin">Admin</option>
+              </select>
+              <Button 
+                onClick={handleInvite}
+                disabled={inviteMemberMutation.isPending}
+              >
+                {inviteMemberMutation.isPending ? "Sending..." : "Send Invite"}
+              </Button>
             </div>
-            <select
-              value={inviteRole}
-              onChange={(e) => setInviteRole(e.target.value)}
-              className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-            >
-              <option value="member">Member</option>
-              <option value="admin">Admin</option>
-            </select>
-            <Button 
-              onClick={handleInvite}
-              disabled={inviteMemberMutation.isPending}
-            >
-              {inviteMemberMutation.isPending ? "Sending..." : "Send Invite"}
-            </Button>
-          </div>
-        </CardContent>
-      </Card>
+          </CardContent>
+        </Card>
+      )}
 
       {/* Pending Invitations */}
       {invitations && invitations.length > 0 && (
@@ -252,7 +275,7 @@ export default function Team() {
                           <Mail className="w-4 h-4 mr-2" />
                           Resend Invitation
                         </DropdownMenuItem>
-                        <DropdownMenuItem onClick={() => navigator.clipboard.writeText(`${window.location.origin}/join-team?token=${invitation.id}&email=${encodeURIComponent(invitation.email)}`)}>
+                        <DropdownMenuItem onClick={() => navigator.clipboard.writeText(`${window.location.origin}/join-team?token=${invitation.token}&email=${encodeURIComponent(invitation.email)}`)}>
                           <Copy className="w-4 h-4 mr-2" />
                           Copy Invite Link
                         </DropdownMenuItem>
@@ -306,7 +329,9 @@ export default function Team() {
                   ) : (
                     <Badge variant="secondary">Inactive</Badge>
                   )}
-                  {member.organizationRole !== "owner" && (
+                  {/* Admins manage members; only the owner manages other admins */}
+                  {member.organizationRole !== "owner" && can("team:manage") &&
+                    (member.organizationRole !== "admin" || role === "owner") && (
                     <DropdownMenu>
                       <DropdownMenuTrigger asChild>
                         <Button variant="ghost" size="sm">
@@ -374,6 +399,40 @@ export default function Team() {
           </CardContent>
         </Card>
       )}
+
+      {/* Export History */}
+      {exportLogs && exportLogs.length > 0 && (
+        <Card className="mt-8">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Download className="w-5 h-5" />
+              Export History
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-4">
+              {exportLogs.map((log: ExportLog) => (
+                <div key={log.id} className="flex items-center justify-between p-4 border rounded-lg">
+                  <div>
+                    <div className="font-medium">
+                      {log.user ? `${log.user.firstName ?? ""} ${log.user.lastName ?? ""}`.trim() || log.user.email : "Unknown user"}
+                      {" "}exported {log.rowCount} {log.entityType}
+                    </div>
+                    <div className="text-sm text-gray-500">
+                      {new Date(log.createdAt).toLocaleString()}
+                      {Object.keys(log.filters ?? {}).length > 0 &&
+                        ` • Filters: ${Object.entries(log.filters).map(([key, value]) =>
+                          `${key}=${typeof value === "object" ? JSON.stringify(value) : value}`
+                        ).join(", ")}`}
+                    </div>
+                  </div>
+                  <Badge variant="outline">{log.format.toUpperCase()}</Badge>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
     </div>
   );
 }
\ No newline at end of file
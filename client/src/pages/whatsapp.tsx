@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -10,7 +10,9 @@ import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/usePermissions";
 import { apiRequest } from "@/lib/queryClient";
+import WhatsAppInbox from "@/components/whatsapp/whatsapp-inbox";
 import { MessageCircle, Send, Users, Zap, CheckCircle, Clock, AlertCircle, Phone, ShoppingCart, CreditCard, Star } from "lucide-react";
 
 interface Contact {
@@ -70,6 +72,45 @@ export default function WhatsApp() {
     queryKey: ["/api/whatsapp/templates"],
   }) as { data?: WhatsAppTemplate[] };
 
+  const { can } = usePermissions();
+  const [phoneNumberId, setPhoneNumberId] = useState("");
+  const [accessToken, setAccessToken] = useState("");
+
+  const { data: whatsappSettings } = useQuery<{ phoneNumberId: string | null }>({
+    queryKey: ["/api/whatsapp/settings"],
+  });
+
+  useEffect(() => {
+    setPhoneNumberId(whatsappSettings?.phoneNumberId ?? "");
+  }, [whatsappSettings]);
+
+  const saveSettingsMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PUT", "/api/whatsapp/settings", {
+        phoneNumberId: phoneNumberId.trim() || null,
+        accessToken: accessToken.trim() || undefined,
+      });
+      return response.json();
+    },
+    onSuccess: (settings: { phoneNumberId: string | null }) => {
+      queryClient.setQueryData(["/api/whatsapp/settings"], settings);
+      setAccessToken("");
+      toast({
+        title: "Pengaturan Disimpan",
+        description: settings.phoneNumberId
+          ? "Pesan masuk ke nomor ini akan muncul di Inbox"
+          : "Nomor WhatsApp tidak lagi terhubung ke Inbox",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Gagal menyimpan pengaturan WhatsApp",
+        variant: "destructive",
+      });
+    },
+  });
+
   const sendMessageMutation = useMutation({
     mutationFn: async (data: any) => {
       return await apiRequest("POST", "/api/whatsapp/send-message", data);
@@ -330,14 +371,20 @@ export default function WhatsApp() {
       </div>
 
       {/* Main Content */}
-      <Tabs defaultValue="quick-messages" className="space-y-6">
-        <TabsList className="grid w-full grid-cols-4">
+      <Tabs defaultValue="inbox" className="space-y-6">
+        <TabsList className="grid w-full grid-cols-5">
+          <TabsTrigger value="inbox">Inbox</TabsTrigger>
           <TabsTrigger value="quick-messages">Quick Messages</TabsTrigger>
           <TabsTrigger value="broadcast">Broadcast</TabsTrigger>
           <TabsTrigger value="templates">Templates</TabsTrigger>
           <TabsTrigger value="settings">Settings</TabsTrigger>
         </TabsList>
 
+        {/* Inbox */}
+        <TabsContent value="inbox" className="space-y-6">
+          <WhatsAppInbox />
+        </TabsContent>
+
         {/* Quick Messages */}
         <TabsContent value="quick-messages" className="space-y-6">
           <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
@@ -744,8 +791,39 @@ export default function WhatsApp() {
                 </div>
 
                 <div className="space-y-2">
-                  <Label>Phone Number</Label>
-                  <p className="text-sm text-gray-600 dark:text-gray-400">Not configured</p>
+                  <Label htmlFor="whatsapp-phone-number-id">Phone Number ID</Label>
+                  <div className="flex gap-2">
+                    <Input
+                      id="whatsapp-phone-number-id"
+                      value={phoneNumberId}
+                      onChange={(e) => setPhoneNumberId(e.target.value)}
+                      placeholder="Dari WhatsApp Manager, mis. 106540352242922"
+                      disabled={!can("campaigns:manage")}
+                    />
+                    {can("campaigns:manage") && (
+                      <Button onClick={() => saveSettingsMutation.mutate()} disabled={saveSettingsMutation.isPending}>
+                        {saveSettingsMutation.isPending ? "Menyimpan..." : "Simpan"}
+                      </Button>
+                    )}
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    Pesan masuk ke nomor ini dicatat di Inbox dan di kontak pengirimnya
+                  </p>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="whatsapp-access-token">Access Token</Label>
+                  <Input
+                    id="whatsapp-access-token"
+                    type="password"
+                    value={accessToken}
+                    onChange={(e) => setAccessToken(e.target.value)}
+                    placeholder={whatsappSettings?.phoneNumberId ? "Tersimpan; isi untuk mengganti" : "Token Cloud API untuk nomor ini"}
+                    disabled={!can("campaigns:manage")}
+                  />
+                  <p className="text-xs text-gray-500">
+                    Nomor hanya terhubung jika WhatsApp menerima token ini untuknya. Pesan keluar dikirim dari nomor ini.
+                  </p>
                 </div>
               </div>
 
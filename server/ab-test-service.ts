@@ -0,0 +1,198 @@
+import type { CampaignSend, CampaignSequenceRecord } from '@shared/schema';
+import type { ABTestConfig, CampaignContent, CampaignMetrics, CampaignStep, ContentVariant, StepTestResult } from '@shared/campaigns';
+import { storage } from './storage';
+
+// Variants need this many sends each before a winner can be called
+const MIN_SENDS_PER_VARIANT = 50;
+// Confidence, in percent, the leader must beat every other variant with
+const SIGNIFICANCE_LEVEL = 95;
+
+const criteriaFields: Record<ABTestConfig['winnerCriteria'], 'opened' | 'clicked' | 'converted'> = {
+  open_rate: 'opened',
+  click_rate: 'clicked',
+  conversion_rate: 'converted',
+};
+
+const percent = (count: number, total: number) => total > 0 ? Math.round((count / total) * 1000) / 10 : 0;
+
+// FNV-1a, so a contact lands in the same bucket on every server and every retry
+function hashToBucket(key: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return ((hash >>> 0) % 10000) / 100;
+}
+
+// Abramowitz and Stegun 7.1.26, accurate to about 1e-7
+function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erf = 1 - t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429)))) * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+class AbTestService {
+  // A step is tested while the sequence has subject or content testing on,
+  // the step has at least two variants and no winner has been promoted yet.
+  // Send-time tests are not run.
+  isTesting(sequence: CampaignSequenceRecord, step: CampaignStep): boolean {
+    const { enabled, testType } = sequence.abTesting;
+    return enabled && testType !== 'send_time' && (step.content.abVariants?.length ?? 0) >= 2 && !step.content.abWinner;
+  }
+
+  // Subject tests only take the variant's subject; content tests take its message too
+  private withVariant(sequence: CampaignSequenceRecord, content: CampaignContent, variant: ContentVariant): CampaignContent {
+    return {
+      ...content,
+      subject: variant.subject || content.subject,
+      message: sequence.abTesting.testType === 'content' && variant.message.trim() ? variant.message : content.message,
+    };
+  }
+
+  // Deterministic by contact and step, weighted by the variants' weights
+  pickVariant(variants: ContentVariant[], contactId: number, stepId: string): ContentVariant {
+    const bucket = hashToBucket(`${contactId}:${stepId}`);
+    const total = variants.reduce((sum, variant) => sum + variant.weight, 0) || 1;
+    let cumulative = 0;
+    for (const variant of variants) {
+      cumulative += (variant.weight / total) * 100;
+      if (bucket < cumulative) return variant;
+    }
+    return variants[variants.length - 1];
+  }
+
+  // The step as this contact receives it, and the variant that decided it
+  variantStep(sequence: CampaignSequenceRecord, step: CampaignStep, contactId: number): { step: CampaignStep; variantId: string | null } {
+    if (!this.isTesting(sequence, step)) {
+      return { step, variantId: null };
+    }
+
+    const variant = this.pickVariant(step.content.abVariants!, contactId, step.id);
+    return {
+      step: { ...step, content: this.withVariant(sequence, step.content, variant) },
+      variantId: variant.id,
+    };
+  }
+
+  metrics(sends: CampaignSend[]): CampaignMetrics {
+    const count = (field: keyof CampaignSend) => sends.filter(send => send[field] !== null).length;
+    const sent = sends.length;
+    const opened = count('openedAt');
+    const clicked = count('clickedAt');
+    const converted = count('convertedAt');
+    return {
+      sent,
+      delivered: count('deliveredAt'),
+      opened,
+      clicked,
+      converted,
+      unsubscribed: count('unsubscribedAt'),
+      bounced: count('bouncedAt'),
+      openRate: percent(opened, sent),
+      clickRate: percent(clicked, sent),
+      conversionRate: percent(converted, sent),
+    };
+  }
+
+  // Two-proportion z-test of the leader against each other variant; the
+  // confidence reported is the weakest of those comparisons
+  private compare(results: StepTestResult['variants'], criteria: ABTestConfig['winnerCriteria']) {
+    const field = criteriaFields[criteria];
+    const ranked = [...results].sort((a, b) => percent(b.metrics[field], b.metrics.sent) - percent(a.metrics[field], a.metrics.sent));
+    const leader = ranked[0];
+    if (!leader || leader.metrics.sent === 0) {
+      return { leaderId: null, confidence: 0, significant: false };
+    }
+
+    let confidence = 100;
+    for (const other of ranked.slice(1)) {
+      const n1 = leader.metrics.sent;
+      const n2 = other.metrics.sent;
+      if (n2 === 0) {
+        confidence = 0;
+        continue;
+      }
+      const pooled = (leader.metrics[field] + other.metrics[field]) / (n1 + n2);
+      const standardError = Math.sqrt(pooled * (1 - pooled) * (1 / n1 + 1 / n2));
+      const z = standardError > 0 ? (leader.metrics[field] / n1 - other.metrics[field] / n2) / standardError : 0;
+      confidence = Math.min(confidence, (2 * normalCdf(Math.abs(z)) - 1) * 100);
+    }
+    confidence = Math.round(confidence * 10) / 10;
+
+    const enoughSends = results.every(result => result.metrics.sent >= MIN_SENDS_PER_VARIANT);
+    return { leaderId: leader.id, confidence, significant: enoughSends && confidence >= SIGNIFICANCE_LEVEL };
+  }
+
+  private stepResults(sequence: CampaignSequenceRecord, sends: CampaignSend[]): StepTestResult[] {
+    const criteria = sequence.abTesting.winnerCriteria;
+
+    return sequence.steps.flatMap((step, index): StepTestResult[] => {
+      const variants = step.content.abVariants ?? [];
+      if (variants.length < 2) return [];
+
+      const stepSends = sends.filter(send => send.stepId === step.id);
+      const variantResults = variants.map(variant => ({
+        id: variant.id,
+        weight: variant.weight,
+        subject: variant.subject,
+        metrics: this.metrics(stepSends.filter(send => send.variantId === variant.id)),
+      }));
+
+      return [{
+        stepId: step.id,
+        stepNumber: index + 1,
+        channel: step.channel,
+        criteria,
+        ...this.compare(variantResults, criteria),
+        winner: step.content.abWinner ?? null,
+        variants: variantResults,
+      }];
+    });
+  }
+
+  async getResults(organizationId: number, sequence: CampaignSequenceRecord): Promise<StepTestResult[]> {
+    return this.stepResults(sequence, await storage.getCampaignSends(organizationId, sequence.id));
+  }
+
+  // Promotes the winner of every test that has reached significance: its
+  // content becomes the step's content and everyone gets it from then on.
+  // Returns the sequence as it is afterwards.
+  async promoteWinners(organizationId: number, sequence: CampaignSequenceRecord): Promise<CampaignSequenceRecord> {
+    if (!sequence.steps.some(step => this.isTesting(sequence, step))) {
+      return sequence;
+    }
+
+    const results = await this.getResults(organizationId, sequence);
+    let promoted = false;
+    const steps = sequence.steps.map(step => {
+      const result = results.find(candidate => candidate.stepId === step.id);
+      const winner = step.content.abVariants?.find(variant => variant.id === result?.leaderId);
+      if (!this.isTesting(sequence, step) || !result?.significant || !winner) {
+        return step;
+      }
+
+      promoted = true;
+      return {
+        ...step,
+        content: {
+          ...this.withVariant(sequence, step.content, winner),
+          abWinner: {
+            variantId: winner.id,
+            criteria: result.criteria,
+            confidence: result.confidence,
+            decidedAt: new Date().toISOString(),
+          },
+        },
+      };
+    });
+
+    if (!promoted) {
+      return sequence;
+    }
+    return await storage.updateCampaignSequence(organizationId, sequence.id, { steps }) ?? sequence;
+  }
+}
+
+export const abTestService = new AbTestService();
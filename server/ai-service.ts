@@ -1,5 +1,5 @@
 // AI Service using DeepSeek API for CRM automation
-import { Contact, Activity, Deal } from "@shared/schema";
+import { Contact, Activity, DealWithStage } from "@shared/schema";
 
 interface DeepSeekResponse {
   choices: Array<{
@@ -50,7 +50,7 @@ class AIService {
   }
 
   // AI Lead Scoring based on contact profile and activities
-  async calculateAILeadScore(contact: Contact, activities: Activity[], deals: Deal[]): Promise<{
+  async calculateAILeadScore(contact: Contact, activities: Activity[], deals: DealWithStage[]): Promise<{
     score: number;
     reasoning: string;
     recommendations: string[];
@@ -69,7 +69,7 @@ Recent Activities (${activities.length} total):
 ${activities.slice(0, 5).map(a => `- ${a.type}: ${a.title} (${a.description})`).join('\n')}
 
 Deals (${deals.length} total):
-${deals.map(d => `- ${d.title}: $${d.value} (${d.stage}, ${d.probability}% probability)`).join('\n')}
+${deals.map(d => `- ${d.title}: $${d.value} (${d.stage?.name ?? "No stage"}, ${d.probability}% probability)`).join('\n')}
 
 Provide JSON response with:
 {
@@ -214,7 +214,7 @@ Generate a professional business email with:
   }
 
   // Analyze deal probability and provide insights
-  async analyzeDealProbability(deal: Deal, contact: Contact, activities: Activity[]): Promise<{
+  async analyzeDealProbability(deal: DealWithStage, contact: Contact, activities: Activity[]): Promise<{
     suggestedProbability: number;
     insights: string[];
     nextSteps: string[];
@@ -224,7 +224,7 @@ Generate a professional business email with:
 Deal: ${deal.title}
 Current Value: $${deal.value}
 Current Probability: ${deal.probability}%
-Stage: ${deal.stage}
+Stage: ${deal.stage?.name ?? "No stage"}
 Expected Close: ${deal.expectedCloseDate}
 
 Contact: ${contact.firstName} ${contact.lastName} (${contact.position} at ${contact.company})
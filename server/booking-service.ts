@@ -0,0 +1,166 @@
+import type { BookingPage, BookingType, CalendarEvent, Contact, MeetingType } from '@shared/schema';
+import type { BookingRequest } from '@shared/booking';
+import { storage } from './storage';
+import { calendarService, type TimeSlot } from './calendar-service';
+import { campaignService } from './campaign-service';
+import { teamSchedulingService } from './team-scheduling-service';
+
+// What the public booking page shows; nothing about the host beyond their name
+export interface PublicBookingPage {
+  slug: string;
+  title: string;
+  description: string | null;
+  hostName: string;
+  organizationName: string | null;
+  types: PublicBookingType[];
+}
+
+export type PublicBookingType = Pick<BookingType, 'slug' | 'name' | 'description' | 'meetingType' | 'duration' | 'location' | 'questions'>;
+
+const publicType = ({ slug, name, description, meetingType, duration, location, questions }: BookingType): PublicBookingType =>
+  ({ slug, name, description, meetingType, duration, location, questions });
+
+class BookingService {
+  // An active page with its active meeting types, or undefined
+  async findPage(slug: string): Promise<{ page: BookingPage; types: BookingType[] } | undefined> {
+    const page = await storage.getBookingPageBySlug(slug);
+    if (!page || !page.isActive) return undefined;
+
+    const host = await storage.getOrganizationUser(page.organizationId, page.userId);
+    if (!host || !host.isActive) return undefined;
+
+    const types = (await storage.getBookingTypes(page.organizationId, page.id)).filter(type => type.isActive);
+    return { page, types };
+  }
+
+  async publicPage(page: BookingPage, types: BookingType[]): Promise<PublicBookingPage> {
+    const [host, organization] = await Promise.all([
+      storage.getOrganizationUser(page.organizationId, page.userId),
+      storage.getOrganization(page.organizationId),
+    ]);
+    return {
+      slug: page.slug,
+      title: page.title,
+      description: page.description,
+      hostName: [host?.firstName, host?.lastName].filter(Boolean).join(' ') || page.title,
+      organizationName: organization?.name ?? null,
+      types: types.map(publicType),
+    };
+  }
+
+  // Free slots for the meeting type between from and to, kept within the
+  // booking window so nothing in the past or too far ahead is offered. The
+  // host's own calendar counts when they connected one. Team types offer
+  // the times their pool can take.
+  async availableSlots(page: BookingPage, type: BookingType, from: Date, to: Date): Promise<TimeSlot[]> {
+    const window = calendarService.bookingWindow();
+    const start = from > window.from ? from : window.from;
+    const end = to < window.to ? to : window.to;
+    if (start > end) return [];
+
+    const slots = type.hostMode === 'owner'
+      ? await calendarService.getAvailableTimeSlots(page.organizationId, start, end, type.duration, page.userId)
+      : await teamSchedulingService.availableSlots(page.organizationId, type, start, end);
+    // Which members are free stays private
+    return slots
+      .filter(slot => slot.available && slot.start >= window.from && slot.start <= window.to)
+      .map(({ start, end, available }) => ({ start, end, available }));
+  }
+
+  // Why the request can't be booked, or null. Answers to required questions
+  // must be given and the start must be a free slot inside the window.
+  async bookingIssue(page: BookingPage, type: BookingType, request: BookingRequest): Promise<string | null> {
+    const missing = type.questions.find(question => question.required && !request.answers[question.id]?.trim());
+    if (missing) {
+      return `Please answer: ${missing.label}`;
+    }
+
+    const window = calendarService.bookingWindow();
+    if (request.start < window.from || request.start > window.to) {
+      return 'That time can no longer be booked';
+    }
+    const available = type.hostMode === 'owner'
+      ? await calendarService.isSlotAvailable(page.organizationId, request.start, type.duration, page.userId)
+      : await teamSchedulingService.isSlotAvailable(page.organizationId, type, request.start);
+    if (!available) {
+      return 'That time is no longer available';
+    }
+    return null;
+  }
+
+  // Books the meeting with the contact the email belongs to, creating one if
+  // it's new, and enrolls them in the meeting type's follow-up sequence
+  async book(page: BookingPage, type: BookingType, request: BookingRequest): Promise<{ event?: CalendarEvent; message: string }> {
+    const contact = await this.findOrCreateContact(page.organizationId, request);
+
+    const answers = Object.fromEntries(
+      type.questions
+        .filter(question => request.answers[question.id]?.trim())
+        .map(question => [question.id, request.answers[question.id].trim()])
+    );
+    const description = [
+      type.description,
+      ...type.questions
+        .filter(question => answers[question.id])
+        .map(question => `${question.label}: ${answers[question.id]}`),
+    ].filter(Boolean).join('\n');
+
+    const details = {
+      contact,
+      meetingType: type.meetingType as MeetingType,
+      title: `${type.name} with ${contact.firstName} ${contact.lastName}`.trim(),
+      description: description || undefined,
+      location: type.location ?? undefined,
+      bookingTypeId: type.id,
+      intakeAnswers: answers,
+    };
+    const result = type.hostMode === 'owner'
+      ? await calendarService.scheduleFollowUpMeeting(page.organizationId, {
+        ...details,
+        contactId: contact.id,
+        proposedTimes: [request.start],
+        duration: type.duration,
+        createdBy: page.userId,
+      })
+      : await teamSchedulingService.schedule(page.organizationId, type, [request.start], { ...details, organizerId: page.userId });
+    if (!result.event) {
+      return result;
+    }
+
+    if (type.sequenceId) {
+      const sequence = await storage.getCampaignSequence(page.organizationId, type.sequenceId);
+      if (sequence && sequence.status === 'active' && sequence.steps.length > 0) {
+        // Already enrolled is fine; enroll returns undefined then
+        await campaignService.enroll(page.organizationId, sequence, contact, page.userId);
+      }
+    }
+
+    return result;
+  }
+
+  private async findOrCreateContact(organizationId: number, request: BookingRequest): Promise<Contact> {
+    const [existing] = (await storage.getContactsByEmails(organizationId, [request.email])).sort((a, b) => a.id - b.id);
+    if (existing) {
+      // Fill in what the contact record is missing, never overwrite it
+      const missing = {
+        ...(!existing.phone && request.phone ? { phone: request.phone } : {}),
+        ...(!existing.company && request.company ? { company: request.company } : {}),
+      };
+      return Object.keys(missing).length > 0
+        ? (await storage.updateContact(organizationId, existing.id, missing)) ?? existing
+        : existing;
+    }
+
+    const [firstName, ...rest] = request.name.split(/\s+/);
+    return await storage.createContact(organizationId, {
+      firstName,
+      lastName: rest.join(' '),
+      email: request.email,
+      phone: request.phone || null,
+      company: request.company || null,
+      source: 'booking',
+    });
+  }
+}
+
+export const bookingService = new BookingService();
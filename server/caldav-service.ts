@@ -0,0 +1,348 @@
+import { request as httpsRequest } from 'https';
+import { lookup, type LookupOptions } from 'dns';
+import { BlockList, isIP } from 'net';
+import type { CalendarAccount, CalendarEvent, Job } from '@shared/schema';
+import { storage } from './storage';
+import { emailService } from './email-service';
+import { SyncChain, savePassword, withPassword, withStoredPassword, withoutPassword } from './connected-account';
+import { buildCalendar, isMeetingUid, meetingToIcsEvent, meetingUid, parseBusyTimes, type IcsPerson } from './icalendar';
+
+export interface CalendarAccountSettings {
+  serverUrl: string;
+  username: string;
+  password: string;
+}
+
+// What the API returns for a calendar account; the password never leaves the server
+export type CalendarAccountSummary = Omit<CalendarAccount, 'encryptedPassword'>;
+
+const SYNC_INTERVAL_MS = 15 * 60 * 1000;
+const REQUEST_TIMEOUT_MS = 15 * 1000;
+// Busy times are read from a day back, so meetings in progress still block,
+// to as far ahead as anything can be booked and then some
+const SYNC_PAST_DAYS = 1;
+const SYNC_AHEAD_DAYS = 90;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const xmlDecode = (text: string) =>
+  text
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#x([0-9a-f]+);/gi, (_match, hex: string) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_match, code: string) => String.fromCodePoint(parseInt(code, 10)))
+    .replace(/&amp;/g, '&');
+
+// The contents of every element with the local name, whatever namespace
+// prefix the server chose. Enough for the flat multistatus answers CalDAV
+// servers give; not a general XML parser.
+function elements(xml: string, name: string): string[] {
+  const pattern = new RegExp(`<(?:[\\w.-]+:)?${name}(?:\\s[^>]*)?(?:/>|>([\\s\\S]*?)</(?:[\\w.-]+:)?${name}\\s*>)`, 'g');
+  return Array.from(xml.matchAll(pattern), match => match[1] ?? '');
+}
+
+const hasElement = (xml: string, name: string) =>
+  new RegExp(`<(?:[\\w.-]+:)?${name}[\\s/>]`).test(xml);
+
+interface DavResponse {
+  href: string;
+  body: string;
+}
+
+// Each <response> in a 207 Multi-Status answer; its own href comes first
+const davResponses = (xml: string): DavResponse[] =>
+  elements(xml, 'response').map(body => ({ href: xmlDecode(elements(body, 'href')[0] ?? '').trim(), body }));
+
+const propfind = (props: string) =>
+  `<?xml version="1.0" encoding="utf-8"?>
+<D:propfind xmlns:D="DAV:" xmlns:C="urn:ietf:params:xml:ns:caldav"><D:prop>${props}</D:prop></D:propfind>`;
+
+// Calendar addresses are entered by users, so requests only go to public
+// addresses: never to this machine, the private network or cloud metadata
+const privateAddresses = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12],
+  ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 4], ['240.0.0.0', 4],
+] as const) {
+  privateAddresses.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [['::', 128], ['::1', 128], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]] as const) {
+  privateAddresses.addSubnet(network, prefix, 'ipv6');
+}
+
+const isPrivateAddress = (address: string) => privateAddresses.check(address, isIP(address) === 6 ? 'ipv6' : 'ipv4');
+
+const notPublic = (hostname: string) => new Error(`${hostname} is not a public address`);
+
+// Resolves the host as the connection is made, so the address checked is the
+// one connected to
+function publicLookup(hostname: string, options: LookupOptions, callback: (...args: any[]) => void): void {
+  lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error);
+    if (addresses.length === 0 || addresses.some(entry => isPrivateAddress(entry.address))) {
+      return callback(notPublic(hostname));
+    }
+    return options.all ? callback(null, addresses) : callback(null, addresses[0].address, addresses[0].family);
+  });
+}
+
+const formatUtc = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+class CalDavService {
+  private syncChain = new SyncChain<CalendarAccount>({
+    type: 'calendar.sync',
+    intervalMs: SYNC_INTERVAL_MS,
+    payloadKey: 'accountId',
+    missingReason: 'Calendar disconnected',
+    getAccount: (organizationId, id) => storage.getCalendarAccountById(organizationId, id),
+    sync: (account) => this.sync(account),
+  });
+
+  summary(account: CalendarAccount): CalendarAccountSummary {
+    return withoutPassword(account);
+  }
+
+  withPassword(settings: Omit<CalendarAccountSettings, 'password'> & { password?: string }, existing?: CalendarAccount): CalendarAccountSettings | null {
+    return withPassword(settings, existing);
+  }
+
+  // Every request goes over https to the origin the user entered, whatever
+  // hrefs the server answers with, so the password is only sent there.
+  // Redirects aren't followed.
+  private async request(
+    settings: CalendarAccountSettings,
+    method: string,
+    url: string,
+    options: { body?: string; depth?: '0' | '1'; contentType?: string } = {}
+  ): Promise<{ status: number; text: string }> {
+    const target = new URL(url);
+    if (target.protocol !== 'https:') {
+      throw new Error('The calendar address must use https');
+    }
+    if (target.origin !== new URL(settings.serverUrl).origin) {
+      throw new Error('The calendar server pointed to another server');
+    }
+    const hostname = target.hostname.replace(/^\[|\]$/g, '');
+    if (isIP(hostname) && isPrivateAddress(hostname)) {
+      throw notPublic(hostname);
+    }
+
+    const { status, text } = await new Promise<{ status: number; text: string }>((resolve, reject) => {
+      const request = httpsRequest(target, {
+        method,
+        lookup: publicLookup,
+        headers: {
+          Authorization: `Basic ${Buffer.from(`${settings.username}:${settings.password}`).toString('base64')}`,
+          ...(options.depth ? { Depth: options.depth } : {}),
+          ...(options.body ? { 'Content-Type': options.contentType ?? 'application/xml; charset=utf-8' } : {}),
+        },
+      }, response => {
+        const chunks: Buffer[] = [];
+        response.on('data', (chunk: Buffer) => chunks.push(chunk));
+        response.on('end', () => resolve({ status: response.statusCode ?? 0, text: Buffer.concat(chunks).toString('utf8') }));
+        response.on('error', reject);
+      });
+      request.setTimeout(REQUEST_TIMEOUT_MS, () => request.destroy(new Error('The calendar server did not answer in time')));
+      request.on('error', reject);
+      request.end(options.body);
+    });
+    if (status === 401 || status === 403) {
+      throw new Error('The calendar server did not accept the username or password');
+    }
+    return { status, text };
+  }
+
+  private async propfind(settings: CalendarAccountSettings, url: string, depth: '0' | '1', props: string): Promise<DavResponse[]> {
+    const { status, text } = await this.request(settings, 'PROPFIND', url, { depth, body: propfind(props) });
+    if (status !== 207) {
+      throw new Error(`The calendar server answered ${status} for ${url}`);
+    }
+    return davResponses(text);
+  }
+
+  // The calendar collection to use: the address itself when it is one,
+  // otherwise the first event calendar in the account's calendar home,
+  // found through the principal as RFC 4791 and RFC 5397 describe
+  async findCalendar(settings: CalendarAccountSettings): Promise<{ calendarUrl: string } | { problem: string }> {
+    try {
+      const base = new URL(settings.serverUrl).toString();
+      const [self] = await this.propfind(settings, base, '0',
+        '<D:resourcetype/><D:current-user-principal/><C:calendar-home-set/>');
+      if (!self) {
+        return { problem: 'The calendar server gave an empty answer' };
+      }
+      if (hasElement(elements(self.body, 'resourcetype')[0] ?? '', 'calendar')) {
+        return { calendarUrl: this.collectionUrl(self.href || base, base) };
+      }
+
+      let home = elements(elements(self.body, 'calendar-home-set')[0] ?? '', 'href')[0];
+      if (!home) {
+        const principal = elements(elements(self.body, 'current-user-principal')[0] ?? '', 'href')[0];
+        if (!principal) {
+          return { problem: 'No calendar found at that address' };
+        }
+        const [principalProps] = await this.propfind(settings, new URL(xmlDecode(principal).trim(), base).toString(), '0', '<C:calendar-home-set/>');
+        home = elements(elements(principalProps?.body ?? '', 'calendar-home-set')[0] ?? '', 'href')[0];
+      }
+      if (!home) {
+        return { problem: 'No calendar found at that address' };
+      }
+
+      const homeUrl = new URL(xmlDecode(home).trim(), base).toString();
+      const children = await this.propfind(settings, homeUrl, '1', '<D:resourcetype/><C:supported-calendar-component-set/>');
+      const calendar = children.find(child => {
+        if (!hasElement(elements(child.body, 'resourcetype')[0] ?? '', 'calendar')) return false;
+        const components = elements(child.body, 'supported-calendar-component-set')[0];
+        return !components || /name=["']VEVENT["']/i.test(components);
+      });
+      return calendar
+        ? { calendarUrl: this.collectionUrl(calendar.href, homeUrl) }
+        : { problem: 'The account has no calendar for events' };
+    } catch (error) {
+      return { problem: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  private collectionUrl(href: string, base: string): string {
+    const url = new URL(href, base).toString();
+    return url.endsWith('/') ? url : `${url}/`;
+  }
+
+  // Saves the user's calendar and starts syncing it
+  async connect(organizationId: number, userId: string, settings: CalendarAccountSettings, calendarUrl: string): Promise<CalendarAccount> {
+    const account = await storage.upsertCalendarAccount(organizationId, userId, {
+      serverUrl: settings.serverUrl,
+      calendarUrl,
+      username: settings.username,
+      ...savePassword(settings.password),
+      status: 'active',
+      lastError: null,
+    });
+
+    await this.syncChain.start(account, userId);
+    return account;
+  }
+
+  // Handler for calendar.sync jobs
+  async runSync(job: Job): Promise<Record<string, any>> {
+    return await this.syncChain.run(job);
+  }
+
+  // Both ways: the calendar's events become the user's busy times, and the
+  // user's upcoming meetings are written to the calendar, which also catches
+  // up on any change that couldn't be written when it was made
+  async sync(account: CalendarAccount): Promise<{ busyTimes: number; meetingsWritten: number }> {
+    const settings = withStoredPassword(account);
+    const from = new Date(Date.now() - SYNC_PAST_DAYS * DAY_MS);
+    const to = new Date(Date.now() + SYNC_AHEAD_DAYS * DAY_MS);
+
+    try {
+      const busy = await this.readBusyTimes(settings, account.calendarUrl, from, to);
+      await storage.replaceExternalBusyTimes(account.organizationId, account.id, busy.map(time => ({
+        userId: account.userId,
+        externalUid: time.uid,
+        startTime: time.start,
+        endTime: time.end,
+      })));
+
+      const meetings = await storage.getCalendarEvents(account.organizationId, { from, hostId: account.userId });
+      const organizer = await this.organizer(account.userId);
+      for (const meeting of meetings) {
+        // Collective meetings created by a colleague keep them as organizer
+        await this.write(settings, account, meeting, meeting.createdBy === account.userId ? organizer : await this.organizer(meeting.createdBy));
+      }
+
+      await storage.updateCalendarAccount(account.organizationId, account.id, {
+        status: 'active',
+        lastError: null,
+        lastSyncedAt: new Date(),
+      });
+      return { busyTimes: busy.length, meetingsWritten: meetings.length };
+    } catch (error) {
+      await storage.updateCalendarAccount(account.organizationId, account.id, {
+        status: 'error',
+        lastError: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  // Events in the range, with recurring ones expanded by the server. Our own
+  // meetings written to the calendar are already counted as meetings.
+  private async readBusyTimes(settings: CalendarAccountSettings, calendarUrl: string, from: Date, to: Date) {
+    const range = `start="${formatUtc(from)}" end="${formatUtc(to)}"`;
+    const body = `<?xml version="1.0" encoding="utf-8"?>
+<C:calendar-query xmlns:D="DAV:" xmlns:C="urn:ietf:params:xml:ns:caldav">
+  <D:prop><C:calendar-data><C:expand ${range}/></C:calendar-data></D:prop>
+  <C:filter><C:comp-filter name="VCALENDAR"><C:comp-filter name="VEVENT"><C:time-range ${range}/></C:comp-filter></C:comp-filter></C:filter>
+</C:calendar-query>`;
+
+    const { status, text } = await this.request(settings, 'REPORT', calendarUrl, { depth: '1', body });
+    if (status !== 207) {
+      throw new Error(`The calendar server answered ${status} when reading events`);
+    }
+
+    return davResponses(text)
+      .flatMap(response => elements(response.body, 'calendar-data').flatMap(data => parseBusyTimes(xmlDecode(data))))
+      .filter(time => !isMeetingUid(time.uid) && time.end > from && time.start < to);
+  }
+
+  // Who invitations and calendar copies name as organizing a meeting: its
+  // host, or the system sender for meetings nobody booked
+  async organizer(userId: string | null): Promise<IcsPerson> {
+    const user = userId ? await storage.getUser(userId) : undefined;
+    if (user?.email) {
+      return { email: user.email, name: [user.firstName, user.lastName].filter(Boolean).join(' ') || undefined };
+    }
+    return emailService.sender();
+  }
+
+  // Cancelled meetings are removed from the calendar; the rest are written
+  // over whatever version it holds
+  private async write(settings: CalendarAccountSettings, account: CalendarAccount, meeting: CalendarEvent, organizer: IcsPerson): Promise<void> {
+    const url = `${account.calendarUrl}${encodeURIComponent(meetingUid(meeting))}.ics`;
+    if (meeting.status === 'cancelled') {
+      const { status } = await this.request(settings, 'DELETE', url);
+      if (status >= 300 && status !== 404) {
+        throw new Error(`The calendar server answered ${status} when removing "${meeting.title}"`);
+      }
+      return;
+    }
+
+    const { status } = await this.request(settings, 'PUT', url, {
+      body: buildCalendar([meetingToIcsEvent(meeting, organizer)]),
+      contentType: 'text/calendar; charset=utf-8',
+    });
+    if (status >= 300) {
+      throw new Error(`The calendar server answered ${status} when writing "${meeting.title}"`);
+    }
+  }
+
+  // Writes a new or changed meeting to the calendar of each host who
+  // connected one. Never throws: a failure is recorded on the account and the
+  // next sync writes the meeting again.
+  async pushMeeting(meeting: CalendarEvent): Promise<void> {
+    if (!meeting.createdBy) return;
+    const organizer = await this.organizer(meeting.createdBy);
+
+    for (const hostId of [meeting.createdBy, ...meeting.teamMemberIds]) {
+      const account = await storage.getCalendarAccount(meeting.organizationId, hostId);
+      if (!account) continue;
+
+      try {
+        await this.write(withStoredPassword(account), account, meeting, organizer);
+      } catch (error) {
+        console.error('Error writing meeting to calendar:', error);
+        await storage.updateCalendarAccount(account.organizationId, account.id, {
+          status: 'error',
+          lastError: error instanceof Error ? error.message : String(error),
+        }).catch(() => undefined);
+      }
+    }
+  }
+}
+
+export const caldavService = new CalDavService();
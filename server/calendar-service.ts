@@ -1,27 +1,22 @@
-import type { Contact } from '@shared/schema';
+import { randomBytes } from 'crypto';
+import type { AvailabilityOverride, CalendarEvent, CalendarEventAttendee, CalendarEventStatus, CalendarFeed, Contact, MeetingType } from '@shared/schema';
+import {
+  DEFAULT_TIME_ZONE,
+  defaultWeeklyHours,
+  formatInTimeZone,
+  shiftDate,
+  weekdayOf,
+  zonedParts,
+  zonedTimeToUtc,
+  type WeeklyHours,
+  type WorkingPeriod,
+} from '@shared/availability';
 import { emailService } from './email-service';
-
-export interface CalendarEvent {
-  id: string;
-  title: string;
-  description?: string;
-  startTime: Date;
-  endTime: Date;
-  contactId?: number;
-  meetingType: 'call' | 'video' | 'in-person' | 'demo' | 'follow-up';
-  status: 'scheduled' | 'confirmed' | 'completed' | 'cancelled' | 'no-show';
-  reminderSent: boolean;
-  meetingLink?: string;
-  location?: string;
-  attendees: {
-    email: string;
-    name: string;
-    status: 'pending' | 'accepted' | 'declined';
-  }[];
-  createdBy: string;
-  createdAt: Date;
-  updatedAt: Date;
-}
+import { storage } from './storage';
+import { campaignService } from './campaign-service';
+import { caldavService } from './caldav-service';
+import { buildCalendar, meetingToIcsEvent, type IcsPerson } from './icalendar';
+import { escapeHtml } from './quote-service';
 
 export interface TimeSlot {
   start: Date;
@@ -29,43 +24,77 @@ export interface TimeSlot {
   available: boolean;
 }
 
+// A slot offered for a pool of members, with the members free at the time
+export interface TeamTimeSlot extends TimeSlot {
+  hostIds: string[];
+}
+
+// Whether a team slot needs one of the members free, or all of them at once
+export type TeamAvailabilityMode = 'any' | 'all';
+
+// Time that can't be booked: a meeting the host is in, or an event in their
+// own calendar
+type BusyPeriod = Pick<CalendarEvent, 'startTime' | 'endTime'>;
+
+// What invitees are told about a meeting. Each email carries the meeting as
+// an iCalendar attachment they can add to their calendar in one click.
+type InvitationKind = 'invitation' | 'update' | 'cancellation';
+
+// The feed covers this much past as well as everything upcoming
+const FEED_PAST_DAYS = 30;
+
+// Reminders due at night in the recipient's time zone go out the evening before
+const QUIET_HOURS = { start: '21:00', end: '08:00', sendAt: '20:00' };
+
+// Settings shared by everyone; working hours and time zones are per member
 export interface CalendarSettings {
-  workingHours: {
-    start: string; // "09:00"
-    end: string;   // "17:00"
-  };
-  workingDays: number[]; // [1,2,3,4,5] for Mon-Fri
-  timeZone: string;
   defaultMeetingDuration: number; // minutes
   bufferTime: number; // minutes between meetings
   advanceBookingDays: number; // how many days in advance can be booked
 }
 
+// A member's week in their own time zone, with the holiday calendar they follow
+export interface HostSchedule {
+  timeZone: string;
+  weeklyHours: WeeklyHours;
+  holidayCalendarId: number | null;
+}
+
+// Working time on one day, as instants
+type WorkingWindow = { start: Date; end: Date };
+
 class CalendarService {
-  private events: CalendarEvent[] = [];
   private settings: CalendarSettings = {
-    workingHours: { start: "09:00", end: "17:00" },
-    workingDays: [1, 2, 3, 4, 5], // Monday to Friday
-    timeZone: "UTC",
     defaultMeetingDuration: 30,
     bufferTime: 15,
     advanceBookingDays: 30
   };
 
-  async scheduleFollowUpMeeting(params: {
+  async scheduleFollowUpMeeting(organizationId: number, params: {
     contactId: number;
     contact: Contact;
+    dealId?: number | null;
     proposedTimes: Date[];
-    meetingType: CalendarEvent['meetingType'];
+    meetingType: MeetingType;
     duration?: number;
     description?: string;
-    createdBy: string;
-  }): Promise<{ success: boolean; eventId?: string; message: string }> {
+    location?: string;
+    attendees?: { email: string; name: string }[]; // besides the contact
+    createdBy: string | null;
+    teamMemberIds?: string[]; // colleagues hosting with createdBy, who must be free too
+    title?: string;
+    bookingTypeId?: number;
+    intakeAnswers?: Record<string, string>;
+  }): Promise<{ success: boolean; event?: CalendarEvent; message: string }> {
     try {
+      const hostIds = [params.createdBy, ...(params.teamMemberIds ?? [])];
+
       // Find the first available time slot
       const availableTime = await this.findAvailableTimeSlot(
+        organizationId,
         params.proposedTimes,
-        params.duration || this.settings.defaultMeetingDuration
+        params.duration || this.settings.defaultMeetingDuration,
+        hostIds
       );
 
       if (!availableTime) {
@@ -75,38 +104,51 @@ class CalendarService {
         };
       }
 
-      const event: CalendarEvent = {
-        id: this.generateEventId(),
-        title: `${params.meetingType} with ${params.contact.firstName} ${params.contact.lastName}`,
+      const attendees: CalendarEventAttendee[] = [
+        {
+          email: params.contact.email,
+          name: `${params.contact.firstName} ${params.contact.lastName}`,
+          status: 'pending'
+        },
+        ...(params.attendees ?? []).map(attendee => ({ ...attendee, status: 'pending' as const })),
+      ];
+
+      // Checked again as it's booked, in case someone took the time meanwhile
+      const event = await storage.createCalendarEventIfFree(organizationId, {
+        title: params.title || `${params.meetingType} with ${params.contact.firstName} ${params.contact.lastName}`,
         description: params.description || `${params.meetingType} meeting with ${params.contact.company}`,
         startTime: availableTime.start,
         endTime: availableTime.end,
         contactId: params.contactId,
+        dealId: params.dealId ?? null,
         meetingType: params.meetingType,
         status: 'scheduled',
-        reminderSent: false,
-        meetingLink: params.meetingType === 'video' ? this.generateMeetingLink() : undefined,
-        attendees: [
-          {
-            email: params.contact.email,
-            name: `${params.contact.firstName} ${params.contact.lastName}`,
-            status: 'pending'
-          }
-        ],
+        statusHistory: [{ status: 'scheduled', at: new Date().toISOString(), by: params.createdBy }],
+        attendees,
+        meetingLink: params.meetingType === 'video' ? this.generateMeetingLink() : null,
+        location: params.location || null,
         createdBy: params.createdBy,
-        createdAt: new Date(),
-        updatedAt: new Date()
-      };
+        teamMemberIds: params.teamMemberIds ?? [],
+        bookingTypeId: params.bookingTypeId ?? null,
+        intakeAnswers: params.intakeAnswers ?? null,
+      }, hostIds);
+      if (!event) {
+        return {
+          success: false,
+          message: "That time was just booked. Please pick another time."
+        };
+      }
 
-      this.events.push(event);
+      await this.logMeetingActivity(organizationId, event, params.contact);
 
-      // Send meeting invitation email
-      await this.sendMeetingInvitation(event, params.contact);
+      await this.sendMeetingInvitation(event, 'invitation');
+      await caldavService.pushMeeting(event);
 
+      const schedule = await this.getSchedule(organizationId, params.createdBy);
       return {
         success: true,
-        eventId: event.id,
-        message: `Meeting scheduled for ${availableTime.start.toLocaleString()}`
+        event,
+        message: `Meeting scheduled for ${formatInTimeZone(availableTime.start, schedule.timeZone)}`
       };
     } catch (error) {
       console.error('Error scheduling meeting:', error);
@@ -117,41 +159,196 @@ class CalendarService {
     }
   }
 
+  // The meeting goes on the contact's timeline at the time it takes place,
+  // and booking it ends the contact's campaign sequences
+  private async logMeetingActivity(organizationId: number, event: CalendarEvent, contact: Contact): Promise<void> {
+    await storage.createActivity(organizationId, {
+      contactId: contact.id,
+      type: 'meeting',
+      title: event.title,
+      description: [
+        event.description,
+        `${Math.round((event.endTime.getTime() - event.startTime.getTime()) / (1000 * 60))} minutes`,
+        event.meetingLink ?? event.location,
+      ].filter(Boolean).join(' • '),
+      date: event.startTime,
+      createdBy: event.createdBy,
+    });
+    await campaignService.checkExits(organizationId, contact.id);
+  }
+
+  // The member's saved schedule, or the default hours in UTC with the
+  // organization's default holiday calendar. Without a member, the defaults.
+  async getSchedule(organizationId: number, userId?: string | null): Promise<HostSchedule> {
+    const saved = userId ? await storage.getUserAvailability(organizationId, userId) : undefined;
+    if (saved) {
+      return { timeZone: saved.timeZone, weeklyHours: saved.weeklyHours, holidayCalendarId: saved.holidayCalendarId };
+    }
+    const holidayCalendar = await storage.getDefaultHolidayCalendar(organizationId);
+    return { timeZone: DEFAULT_TIME_ZONE, weeklyHours: defaultWeeklyHours, holidayCalendarId: holidayCalendar?.id ?? null };
+  }
+
+  // Slots on each day from startDate's to endDate's, counted in the host's
+  // time zone. The host's working hours, date overrides and holidays decide
+  // which times are offered; their meetings and connected calendar decide
+  // which of those are free.
   async getAvailableTimeSlots(
+    organizationId: number,
     startDate: Date,
     endDate: Date,
-    duration: number = this.settings.defaultMeetingDuration
+    duration: number = this.settings.defaultMeetingDuration,
+    hostId?: string | null
   ): Promise<TimeSlot[]> {
-    const slots: TimeSlot[] = [];
-    const current = new Date(startDate);
+    const { windows, booked } = await this.hostAvailability(organizationId, startDate, endDate, hostId);
+    return windows.flatMap(window => this.generateWindowSlots(window, duration, booked));
+  }
 
-    while (current <= endDate) {
-      // Check if it's a working day
-      if (this.settings.workingDays.includes(current.getDay())) {
-        const daySlots = this.generateDayTimeSlots(current, duration);
-        slots.push(...daySlots);
-      }
-      current.setDate(current.getDate() + 1);
+  // Slots for a pool of members over the same days. With 'any', a slot is
+  // offered when one member is free, on each member's own slot times. With
+  // 'all', only the working time the members share is offered, and a slot
+  // is free when none of them is busy.
+  async getTeamTimeSlots(
+    organizationId: number,
+    startDate: Date,
+    endDate: Date,
+    duration: number,
+    hostIds: string[],
+    mode: TeamAvailabilityMode
+  ): Promise<TeamTimeSlot[]> {
+    if (mode === 'any') {
+      const perHost = await Promise.all(hostIds.map(hostId =>
+        this.getAvailableTimeSlots(organizationId, startDate, endDate, duration, hostId)
+      ));
+      const byStart = new Map<number, TeamTimeSlot>();
+      perHost.forEach((slots, index) => {
+        for (const slot of slots) {
+          const merged = byStart.get(slot.start.getTime()) ?? { ...slot, available: false, hostIds: [] };
+          if (slot.available) {
+            merged.available = true;
+            merged.hostIds.push(hostIds[index]);
+          }
+          byStart.set(slot.start.getTime(), merged);
+        }
+      });
+      return Array.from(byStart.values()).sort((a, b) => a.start.getTime() - b.start.getTime());
     }
 
-    return slots;
+    if (hostIds.length === 0) return [];
+    const hosts = await Promise.all(hostIds.map(hostId =>
+      this.hostAvailability(organizationId, startDate, endDate, hostId)
+    ));
+    const shared = hosts.slice(1).reduce((common, host) => this.intersectWindows(common, host.windows), hosts[0].windows);
+    const booked = hosts.flatMap(host => host.booked);
+    return shared
+      .flatMap(window => this.generateWindowSlots(window, duration, booked))
+      .map(slot => ({ ...slot, hostIds: slot.available ? hostIds : [] }));
   }
 
-  private generateDayTimeSlots(date: Date, duration: number): TimeSlot[] {
-    const slots: TimeSlot[] = [];
-    const workStart = this.parseTime(this.settings.workingHours.start);
-    const workEnd = this.parseTime(this.settings.workingHours.end);
+  // The members of the pool free for a meeting starting at start: the one
+  // or more who could take it with 'any', everyone or nobody with 'all'
+  async freeHostsAt(organizationId: number, start: Date, duration: number, hostIds: string[], mode: TeamAvailabilityMode): Promise<string[]> {
+    const slots = await this.getTeamTimeSlots(organizationId, start, start, duration, hostIds, mode);
+    return slots.find(slot => slot.start.getTime() === start.getTime())?.hostIds ?? [];
+  }
+
+  // The host's working windows on each day from startDate's to endDate's in
+  // their time zone, in order, and what keeps them busy on those days. One
+  // query covers the whole range rather than one per slot.
+  private async hostAvailability(
+    organizationId: number,
+    startDate: Date,
+    endDate: Date,
+    hostId?: string | null
+  ): Promise<{ windows: WorkingWindow[]; booked: BusyPeriod[] }> {
+    const schedule = await this.getSchedule(organizationId, hostId);
+    const firstDay = zonedParts(startDate, schedule.timeZone).date;
+    const lastDay = zonedParts(endDate, schedule.timeZone).date;
+    const [windows, booked] = await Promise.all([
+      this.workingWindows(organizationId, hostId, schedule, firstDay, lastDay),
+      this.busyPeriods(
+        organizationId,
+        zonedTimeToUtc(firstDay, '00:00', schedule.timeZone),
+        zonedTimeToUtc(shiftDate(lastDay, 1), '00:00', schedule.timeZone),
+        hostId
+      ),
+    ]);
+    return { windows: Array.from(windows.values()).flat(), booked };
+  }
+
+  // The time two members' windows have in common
+  private intersectWindows(a: WorkingWindow[], b: WorkingWindow[]): WorkingWindow[] {
+    return a
+      .flatMap(first => b.map(second => ({
+        start: first.start > second.start ? first.start : second.start,
+        end: first.end < second.end ? first.end : second.end,
+      })))
+      .filter(window => window.start < window.end)
+      .sort((x, y) => x.start.getTime() - y.start.getTime());
+  }
+
+  // How far ahead meetings can be booked, starting now
+  bookingWindow(): { from: Date; to: Date } {
+    const from = new Date();
+    return { from, to: new Date(from.getTime() + this.settings.advanceBookingDays * 24 * 60 * 60 * 1000) };
+  }
+
+  // Whether start is one of the free slots offered on its day
+  async isSlotAvailable(organizationId: number, start: Date, duration: number, hostId?: string | null): Promise<boolean> {
+    const slots = await this.getAvailableTimeSlots(organizationId, start, start, duration, hostId);
+    return slots.some(slot => slot.available && slot.start.getTime() === start.getTime());
+  }
+
+  // The host's meetings that aren't cancelled, plus their external busy
+  // times. Without a host, every meeting in the organization counts.
+  private async busyPeriods(organizationId: number, start: Date, end: Date, hostId?: string | null, excludeId?: number): Promise<BusyPeriod[]> {
+    const [meetings, external] = await Promise.all([
+      storage.getOverlappingCalendarEvents(organizationId, start, end, excludeId, hostId),
+      hostId ? storage.getExternalBusyTimes(organizationId, hostId, start, end) : Promise.resolve([]),
+    ]);
+    return [...meetings, ...external];
+  }
 
-    const currentSlot = new Date(date);
-    currentSlot.setHours(workStart.hours, workStart.minutes, 0, 0);
+  // The host's working time on each day from firstDay to lastDay. An
+  // override replaces the day's hours, even on a holiday; a holiday is a
+  // day off; other days follow the weekly hours.
+  private async workingWindows(
+    organizationId: number,
+    hostId: string | null | undefined,
+    schedule: HostSchedule,
+    firstDay: string,
+    lastDay: string
+  ): Promise<Map<string, WorkingWindow[]>> {
+    const range = { from: firstDay, to: lastDay };
+    const [overrides, holidays] = await Promise.all([
+      hostId ? storage.getAvailabilityOverrides(organizationId, hostId, range) : Promise.resolve([] as AvailabilityOverride[]),
+      schedule.holidayCalendarId ? storage.getHolidays(organizationId, schedule.holidayCalendarId, range) : Promise.resolve([]),
+    ]);
+    const overridden = new Map(overrides.map(override => [override.date, override.periods]));
+    const holidayDates = new Set(holidays.map(holiday => holiday.date));
+
+    const windows = new Map<string, WorkingWindow[]>();
+    for (let day = firstDay; day <= lastDay; day = shiftDate(day, 1)) {
+      const weekday = weekdayOf(day);
+      const periods: WorkingPeriod[] = overridden.get(day)
+        ?? (holidayDates.has(day) ? [] : schedule.weeklyHours.filter(period => period.day === weekday));
+      windows.set(day, periods
+        .map(period => ({
+          start: zonedTimeToUtc(day, period.start, schedule.timeZone),
+          end: zonedTimeToUtc(day, period.end, schedule.timeZone),
+        }))
+        .sort((a, b) => a.start.getTime() - b.start.getTime()));
+    }
+    return windows;
+  }
 
-    const endOfDay = new Date(date);
-    endOfDay.setHours(workEnd.hours, workEnd.minutes, 0, 0);
+  private generateWindowSlots(window: WorkingWindow, duration: number, booked: BusyPeriod[]): TimeSlot[] {
+    const slots: TimeSlot[] = [];
+    const currentSlot = new Date(window.start);
 
-    while (currentSlot.getTime() + (duration * 60 * 1000) <= endOfDay.getTime()) {
+    while (currentSlot.getTime() + (duration * 60 * 1000) <= window.end.getTime()) {
       const slotEnd = new Date(currentSlot.getTime() + (duration * 60 * 1000));
       
-      const isAvailable = !this.isTimeSlotBooked(currentSlot, slotEnd);
+      const isAvailable = !this.overlapsAny(booked, currentSlot, slotEnd);
       
       slots.push({
         start: new Date(currentSlot),
@@ -166,75 +363,119 @@ class CalendarService {
     return slots;
   }
 
+  // Whether [start, end) falls inside the host's working time on its day
+  private async isWithinWorkingHours(organizationId: number, start: Date, end: Date, hostId: string | null): Promise<boolean> {
+    const schedule = await this.getSchedule(organizationId, hostId);
+    const day = zonedParts(start, schedule.timeZone).date;
+    const windows = (await this.workingWindows(organizationId, hostId, schedule, day, day)).get(day) ?? [];
+    return windows.some(window => start >= window.start && end <= window.end);
+  }
+
+  // The first proposed time every host can make
   private async findAvailableTimeSlot(
+    organizationId: number,
     proposedTimes: Date[],
-    duration: number
+    duration: number,
+    hostIds: (string | null)[]
   ): Promise<{ start: Date; end: Date } | null> {
     for (const time of proposedTimes) {
       const endTime = new Date(time.getTime() + (duration * 60 * 1000));
-      
-      if (!this.isTimeSlotBooked(time, endTime)) {
+
+      if (await this.isFreeForHosts(organizationId, time, endTime, hostIds)) {
         return { start: time, end: endTime };
       }
     }
     return null;
   }
 
-  private isTimeSlotBooked(start: Date, end: Date): boolean {
-    return this.events.some(event => {
-      if (event.status === 'cancelled') return false;
-      
-      const eventStart = new Date(event.startTime);
-      const eventEnd = new Date(event.endTime);
-      
-      // Check for overlap
-      return (start < eventEnd && end > eventStart);
-    });
+  private async isFreeForHosts(organizationId: number, start: Date, end: Date, hostIds: (string | null)[]): Promise<boolean> {
+    for (const hostId of hostIds) {
+      if (!(await this.isWithinWorkingHours(organizationId, start, end, hostId))
+        || await this.isTimeSlotBooked(organizationId, start, end, hostId)) {
+        return false;
+      }
+    }
+    return true;
   }
 
-  private async sendMeetingInvitation(event: CalendarEvent, contact: Contact): Promise<void> {
+  // Checked against the database, so bookings made by other server
+  // processes or before a restart count too
+  private async isTimeSlotBooked(organizationId: number, start: Date, end: Date, hostId: string | null, excludeId?: number): Promise<boolean> {
+    const overlapping = await this.busyPeriods(organizationId, start, end, hostId, excludeId);
+    return overlapping.length > 0;
+  }
+
+  private overlapsAny(periods: BusyPeriod[], start: Date, end: Date): boolean {
+    return periods.some(period => start < period.endTime && end > period.startTime);
+  }
+
+  // Emails every attendee, the contact first, with the meeting attached as
+  // an iCalendar REQUEST, or a CANCEL once it's cancelled. The attachment
+  // carries the meeting's UID and SEQUENCE, so a later version replaces the
+  // earlier one in the attendee's calendar.
+  private async sendMeetingInvitation(event: CalendarEvent, kind: InvitationKind): Promise<void> {
     const meetingTypeText = event.meetingType.charAt(0).toUpperCase() + event.meetingType.slice(1);
-    const formattedDate = event.startTime.toLocaleDateString();
-    const formattedTime = event.startTime.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+    const zones = await this.meetingTimeZones(event);
 
     let meetingDetails = '';
     if (event.meetingLink) {
-      meetingDetails = `\n\n📹 <strong>Meeting Link:</strong> <a href="${event.meetingLink}">${event.meetingLink}</a>`;
+      meetingDetails = `\n\n📹 <strong>Meeting Link:</strong> <a href="${escapeHtml(event.meetingLink)}">${escapeHtml(event.meetingLink)}</a>`;
     } else if (event.location) {
-      meetingDetails = `\n\n📍 <strong>Location:</strong> ${event.location}`;
+      meetingDetails = `\n\n📍 <strong>Location:</strong> ${escapeHtml(event.location)}`;
     }
 
-    const htmlContent = `
+    const heading = {
+      invitation: { title: '📅 Meeting Invitation', color: '#2563eb', subject: 'Meeting Invitation' },
+      update: { title: '📅 Meeting Updated', color: '#2563eb', subject: 'Updated Meeting' },
+      cancellation: { title: '❌ Meeting Cancelled', color: '#dc2626', subject: 'Cancelled' },
+    }[kind];
+    const intro = {
+      invitation: `<p>You have been invited to a ${meetingTypeText.toLowerCase()} meeting.</p>`,
+      update: `<p>Your ${meetingTypeText.toLowerCase()} meeting has moved. Here are the new details.</p>`,
+      cancellation: `<p>The following ${meetingTypeText.toLowerCase()} meeting has been cancelled.</p>`,
+    }[kind];
+    const closing = kind === 'cancellation'
+      ? `<p>Open the attached file to remove the meeting from your calendar. Reply to this email if you'd like to find a new time.</p>`
+      : `<div style="margin: 30px 0;">
+            <p>Please confirm your attendance by replying to this email.</p>
+            <p>If you need to reschedule, please let us know as soon as possible.</p>
+          </div>
+          
+          <div style="background-color: #ecfdf5; border-left: 4px solid #10b981; padding: 15px; margin: 20px 0;">
+            <p style="margin: 0; color: #065f46;"><strong>💡 Tip:</strong> Open the attached invitation to add this meeting to your calendar.</p>
+          </div>`;
+
+    const method = kind === 'cancellation' ? 'CANCEL' : 'REQUEST';
+    const ics = buildCalendar([meetingToIcsEvent(event, await caldavService.organizer(event.createdBy))], { method });
+
+    for (const attendee of event.attendees) {
+      // The contact (the first attendee) sees the time in their own zone,
+      // everyone else in the host's
+      const timeZone = attendee === event.attendees[0] ? zones.contact : zones.host;
+      const formattedDate = event.startTime.toLocaleDateString('en-US', { dateStyle: 'full', timeZone });
+      const formattedTime = formatInTimeZone(event.startTime, timeZone, { timeStyle: 'short' });
+      const htmlContent = `
       <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
-        <div style="background-color: #2563eb; color: white; padding: 20px; border-radius: 8px 8px 0 0;">
-          <h1 style="margin: 0; font-size: 24px;">📅 Meeting Invitation</h1>
+        <div style="background-color: ${heading.color}; color: white; padding: 20px; border-radius: 8px 8px 0 0;">
+          <h1 style="margin: 0; font-size: 24px;">${heading.title}</h1>
         </div>
         
         <div style="padding: 30px; border: 1px solid #e5e7eb; border-top: none; border-radius: 0 0 8px 8px;">
-          <h2 style="color: #333; margin-top: 0;">Hello ${contact.firstName},</h2>
+          <h2 style="color: #333; margin-top: 0;">Hello ${escapeHtml(attendee.name.split(' ')[0])},</h2>
           
-          <p>You have been invited to a ${meetingTypeText.toLowerCase()} meeting.</p>
+          ${intro}
           
           <div style="background-color: #f3f4f6; padding: 20px; border-radius: 8px; margin: 20px 0;">
             <h3 style="margin-top: 0; color: #374151;">📋 Meeting Details</h3>
-            <p><strong>Title:</strong> ${event.title}</p>
+            <p><strong>Title:</strong> ${escapeHtml(event.title)}</p>
             <p><strong>Date:</strong> ${formattedDate}</p>
             <p><strong>Time:</strong> ${formattedTime}</p>
             <p><strong>Duration:</strong> ${Math.round((event.endTime.getTime() - event.startTime.getTime()) / (1000 * 60))} minutes</p>
-            ${event.description ? `<p><strong>Description:</strong> ${event.description}</p>` : ''}
+            ${event.description ? `<p><strong>Description:</strong> ${escapeHtml(event.description)}</p>` : ''}
             ${meetingDetails}
           </div>
           
-          <div style="margin: 30px 0;">
-            <p>Please confirm your attendance by replying to this email.</p>
-            <p>If you need to reschedule, please let us know as soon as possible.</p>
-          </div>
-          
-          <div style="background-color: #ecfdf5; border-left: 4px solid #10b981; padding: 15px; margin: 20px 0;">
-            <p style="margin: 0; color: #065f46;"><strong>💡 Tip:</strong> Add this meeting to your calendar to receive reminders.</p>
-          </div>
-          
-          <p>Looking forward to our conversation!</p>
+          ${closing}
           
           <p>Best regards,<br>
           <strong>Your CRM Team</strong></p>
@@ -242,20 +483,27 @@ class CalendarService {
       </div>
     `;
 
-    await emailService.sendSingleEmail({
-      to: contact.email,
-      toName: `${contact.firstName} ${contact.lastName}`,
-      subject: `Meeting Invitation: ${event.title}`,
-      htmlContent
-    });
+      await emailService.sendSingleEmail({
+        organizationId: event.organizationId,
+        to: attendee.email,
+        toName: attendee.name,
+        subject: `${heading.subject}: ${event.title}`,
+        htmlContent,
+        attachments: [{
+          filename: kind === 'cancellation' ? 'cancel.ics' : 'invite.ics',
+          data: Buffer.from(ics),
+          contentType: `text/calendar; method=${method}; charset=UTF-8`,
+        }],
+      });
+    }
   }
 
-  async sendMeetingReminder(eventId: string): Promise<boolean> {
-    const event = this.events.find(e => e.id === eventId);
+  async sendMeetingReminder(organizationId: number, eventId: number): Promise<boolean> {
+    const event = await storage.getCalendarEvent(organizationId, eventId);
     if (!event || event.reminderSent) return false;
 
-    const contact = event.attendees[0]; // Assuming single attendee for now
-    const meetingTime = event.startTime.toLocaleString();
+    const contact = event.attendees[0]; // the contact is always the first attendee
+    const meetingTime = formatInTimeZone(event.startTime, (await this.meetingTimeZones(event)).contact);
 
     const htmlContent = `
       <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
@@ -269,10 +517,10 @@ class CalendarService {
           <p>This is a friendly reminder about your upcoming meeting:</p>
           
           <div style="background-color: #fef3c7; padding: 20px; border-radius: 8px; margin: 20px 0;">
-            <h3 style="margin-top: 0; color: #92400e;">📅 ${event.title}</h3>
+            <h3 style="margin-top: 0; color: #92400e;">📅 ${escapeHtml(event.title)}</h3>
             <p><strong>When:</strong> ${meetingTime}</p>
-            ${event.meetingLink ? `<p><strong>Join Link:</strong> <a href="${event.meetingLink}" style="color: #2563eb;">${event.meetingLink}</a></p>` : ''}
-            ${event.location ? `<p><strong>Location:</strong> ${event.location}</p>` : ''}
+            ${event.meetingLink ? `<p><strong>Join Link:</strong> <a href="${escapeHtml(event.meetingLink)}" style="color: #2563eb;">${escapeHtml(event.meetingLink)}</a></p>` : ''}
+            ${event.location ? `<p><strong>Location:</strong> ${escapeHtml(event.location)}</p>` : ''}
           </div>
           
           <p>We're looking forward to connecting with you!</p>
@@ -284,6 +532,7 @@ class CalendarService {
     `;
 
     const success = await emailService.sendSingleEmail({
+      organizationId,
       to: contact.email,
       toName: contact.name,
       subject: `Reminder: ${event.title} coming up soon`,
@@ -291,102 +540,229 @@ class CalendarService {
     });
 
     if (success) {
-      event.reminderSent = true;
-      event.updatedAt = new Date();
+      await storage.updateCalendarEvent(organizationId, event.id, { reminderSent: true });
     }
 
     return success;
   }
 
-  async getUpcomingMeetings(days: number = 7): Promise<CalendarEvent[]> {
+  // The host's time zone, and the contact's when it's known (else the host's)
+  private async meetingTimeZones(event: CalendarEvent): Promise<{ host: string; contact: string }> {
+    const [schedule, contact] = await Promise.all([
+      this.getSchedule(event.organizationId, event.createdBy),
+      event.contactId ? storage.getContact(event.organizationId, event.contactId) : Promise.resolve(undefined),
+    ]);
+    return { host: schedule.timeZone, contact: contact?.timeZone || schedule.timeZone };
+  }
+
+  // When the reminder for a meeting is due: leadMinutes before it starts,
+  // or the evening before when that falls in the contact's night
+  async reminderTime(event: CalendarEvent, leadMinutes: number): Promise<Date> {
+    const due = new Date(event.startTime.getTime() - leadMinutes * 60 * 1000);
+    const timeZone = (await this.meetingTimeZones(event)).contact;
+    const local = zonedParts(due, timeZone);
+    if (local.time >= QUIET_HOURS.start) {
+      return zonedTimeToUtc(local.date, QUIET_HOURS.sendAt, timeZone);
+    }
+    if (local.time < QUIET_HOURS.end) {
+      return zonedTimeToUtc(shiftDate(local.date, -1), QUIET_HOURS.sendAt, timeZone);
+    }
+    return due;
+  }
+
+  async getUpcomingMeetings(organizationId: number, days: number = 7): Promise<CalendarEvent[]> {
     const now = new Date();
     const futureDate = new Date(now.getTime() + (days * 24 * 60 * 60 * 1000));
 
-    return this.events.filter(event => 
-      event.startTime >= now && 
-      event.startTime <= futureDate &&
-      event.status !== 'cancelled'
-    ).sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+    return await storage.getCalendarEvents(organizationId, {
+      from: now,
+      to: futureDate,
+      statuses: ['scheduled', 'confirmed'],
+    });
   }
 
-  async updateMeetingStatus(eventId: string, status: CalendarEvent['status']): Promise<boolean> {
-    const event = this.events.find(e => e.id === eventId);
-    if (!event) return false;
+  async getEvent(organizationId: number, eventId: number): Promise<CalendarEvent | undefined> {
+    return await storage.getCalendarEvent(organizationId, eventId);
+  }
 
-    event.status = status;
-    event.updatedAt = new Date();
-    return true;
+  // Records who changed the status and when. A meeting that is cancelled,
+  // held or missed is noted on the contact's timeline.
+  async updateMeetingStatus(
+    organizationId: number,
+    eventId: number,
+    status: CalendarEventStatus,
+    changedBy: string | null
+  ): Promise<CalendarEvent | undefined> {
+    const event = await storage.getCalendarEvent(organizationId, eventId);
+    if (!event) return undefined;
+    if (event.status === status) return event;
+
+    // Invitees get a new version of a cancelled meeting
+    const cancelled = status === 'cancelled';
+    const updated = await storage.updateCalendarEvent(organizationId, event.id, {
+      status,
+      statusHistory: [...event.statusHistory, { status, at: new Date().toISOString(), by: changedBy }],
+      ...(cancelled ? { sequence: event.sequence + 1 } : {}),
+    });
+    if (updated && cancelled) {
+      await this.sendMeetingInvitation(updated, 'cancellation');
+      await caldavService.pushMeeting(updated);
+    }
+
+    const outcome: Partial<Record<CalendarEventStatus, string>> = {
+      cancelled: 'Meeting cancelled',
+      completed: 'Meeting held',
+      'no-show': 'Meeting missed',
+    };
+    if (event.contactId && outcome[status]) {
+      const { host } = await this.meetingTimeZones(event);
+      await storage.createActivity(organizationId, {
+        contactId: event.contactId,
+        type: 'note',
+        title: `${outcome[status]}: ${event.title}`,
+        description: `Scheduled for ${formatInTimeZone(event.startTime, host)}`,
+        date: new Date(),
+        createdBy: changedBy,
+      });
+    }
+
+    return updated;
+  }
+
+  // Moves an upcoming meeting to a new start, keeping its length. Invitees
+  // get the new version, their earlier answers no longer count, and the
+  // reminder is due again. Returns a message when the time isn't free or
+  // is outside the host's working hours.
+  async rescheduleMeeting(
+    organizationId: number,
+    eventId: number,
+    start: Date,
+    changedBy: string | null
+  ): Promise<{ event?: CalendarEvent; message: string } | undefined> {
+    const event = await storage.getCalendarEvent(organizationId, eventId);
+    if (!event) return undefined;
+    if (event.status !== 'scheduled' && event.status !== 'confirmed') {
+      return { message: 'Only upcoming meetings can be moved' };
+    }
+
+    const end = new Date(start.getTime() + (event.endTime.getTime() - event.startTime.getTime()));
+    const hostIds = [event.createdBy, ...event.teamMemberIds];
+    for (const hostId of hostIds) {
+      if (!(await this.isWithinWorkingHours(organizationId, start, end, hostId))) {
+        return { message: 'That time is outside working hours' };
+      }
+    }
+    for (const hostId of hostIds) {
+      if (await this.isTimeSlotBooked(organizationId, start, end, hostId, event.id)) {
+        return { message: 'That time is not free' };
+      }
+    }
+
+    // Checked again as it's moved, in case someone took the time meanwhile
+    const updated = await storage.moveCalendarEventIfFree(organizationId, event.id, start, end, hostIds, {
+      reminderSent: false,
+      attendees: event.attendees.map(attendee => ({ ...attendee, status: 'pending' as const })),
+    });
+    if (!updated) {
+      return { message: 'That time was just booked. Please pick another time.' };
+    }
+
+    const { host } = await this.meetingTimeZones(updated);
+    if (updated.contactId) {
+      await storage.createActivity(organizationId, {
+        contactId: updated.contactId,
+        type: 'note',
+        title: `Meeting moved: ${updated.title}`,
+        description: `From ${formatInTimeZone(event.startTime, host)} to ${formatInTimeZone(start, host)}`,
+        date: new Date(),
+        createdBy: changedBy,
+      });
+    }
+    await this.sendMeetingInvitation(updated, 'update');
+    await caldavService.pushMeeting(updated);
+
+    return { event: updated, message: `Meeting moved to ${formatInTimeZone(start, host)}` };
   }
 
-  private generateEventId(): string {
-    return `meeting_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  // The meetings the user hosts as an iCalendar feed, cancelled ones marked so
+  async feed(feed: CalendarFeed): Promise<string> {
+    const [events, user] = await Promise.all([
+      storage.getCalendarEvents(feed.organizationId, {
+        from: new Date(Date.now() - FEED_PAST_DAYS * 24 * 60 * 60 * 1000),
+        hostId: feed.userId,
+      }),
+      storage.getUser(feed.userId),
+    ]);
+    const organizers = new Map<string | null, IcsPerson>();
+    for (const event of events) {
+      if (!organizers.has(event.createdBy)) {
+        organizers.set(event.createdBy, await caldavService.organizer(event.createdBy));
+      }
+    }
+    return buildCalendar(events.map(event => meetingToIcsEvent(event, organizers.get(event.createdBy)!)), {
+      method: 'PUBLISH',
+      name: user?.firstName ? `${user.firstName}'s meetings` : 'Meetings',
+    });
   }
 
-  private generateMeetingLink(): string {
-    // In a real implementation, this would integrate with Zoom/Teams/Meet APIs
-    const roomId = Math.random().toString(36).substr(2, 10);
-    return `https://meet.yourcrm.com/room/${roomId}`;
+  // Feed tokens are long and random since the URL is the only key
+  async createFeed(organizationId: number, userId: string): Promise<CalendarFeed> {
+    return await storage.upsertCalendarFeed(organizationId, userId, randomBytes(24).toString('hex'));
   }
 
-  private parseTime(timeStr: string): { hours: number; minutes: number } {
-    const [hours, minutes] = timeStr.split(':').map(Number);
-    return { hours, minutes };
+  // Rooms on the video service set in VIDEO_MEETING_BASE_URL, such as a
+  // Jitsi server, which opens a room at any path. Without one, video
+  // meetings go out with their location instead of a link.
+  private generateMeetingLink(): string | null {
+    const base = process.env.VIDEO_MEETING_BASE_URL?.replace(/\/+$/, '');
+    if (!base) return null;
+    return `${base}/crm-${randomBytes(12).toString('hex')}`;
   }
 
-  // Auto-schedule follow-ups based on AI recommendations
-  async autoScheduleFollowUp(contact: Contact, urgency: 'high' | 'medium' | 'low'): Promise<string | null> {
-    const now = new Date();
-    let proposedTimes: Date[] = [];
-
-    // Generate proposed times based on urgency
-    switch (urgency) {
-      case 'high':
-        // Next 3 business days
-        for (let i = 1; i <= 3; i++) {
-          const date = new Date(now);
-          date.setDate(date.getDate() + i);
-          if (this.settings.workingDays.includes(date.getDay())) {
-            date.setHours(10, 0, 0, 0); // 10 AM
-            proposedTimes.push(new Date(date));
-            date.setHours(14, 0, 0, 0); // 2 PM
-            proposedTimes.push(new Date(date));
-          }
-        }
-        break;
-      case 'medium':
-        // Next week
-        for (let i = 7; i <= 10; i++) {
-          const date = new Date(now);
-          date.setDate(date.getDate() + i);
-          if (this.settings.workingDays.includes(date.getDay())) {
-            date.setHours(11, 0, 0, 0);
-            proposedTimes.push(new Date(date));
-          }
-        }
-        break;
-      case 'low':
-        // Next 2 weeks
-        for (let i = 14; i <= 21; i++) {
-          const date = new Date(now);
-          date.setDate(date.getDate() + i);
-          if (this.settings.workingDays.includes(date.getDay())) {
-            date.setHours(15, 0, 0, 0);
-            proposedTimes.push(new Date(date));
-          }
-        }
-        break;
-    }
+  // The days a follow-up of the urgency is booked in, counted from today in
+  // the time zone
+  followUpRange(urgency: 'high' | 'medium' | 'low', timeZone: string): { start: Date; end: Date } {
+    const range = {
+      high: { from: 1, to: 3 },    // Next 3 days
+      medium: { from: 7, to: 10 }, // Next week
+      low: { from: 14, to: 21 },   // Next 2 weeks
+    }[urgency];
+    const today = zonedParts(new Date(), timeZone).date;
+    return {
+      start: zonedTimeToUtc(shiftDate(today, range.from), '00:00', timeZone),
+      end: zonedTimeToUtc(shiftDate(today, range.to), '00:00', timeZone),
+    };
+  }
 
-    const result = await this.scheduleFollowUpMeeting({
+  // Auto-schedule follow-ups based on AI recommendations: the first free
+  // slot in the creator's working hours within the urgency's range of days
+  async autoScheduleFollowUp(
+    organizationId: number,
+    contact: Contact,
+    urgency: 'high' | 'medium' | 'low',
+    createdBy: string | null
+  ): Promise<CalendarEvent | null> {
+    const schedule = await this.getSchedule(organizationId, createdBy);
+    const range = this.followUpRange(urgency, schedule.timeZone);
+    const slots = await this.getAvailableTimeSlots(
+      organizationId,
+      range.start,
+      range.end,
+      this.settings.defaultMeetingDuration,
+      createdBy
+    );
+    const proposedTimes = slots.filter(slot => slot.available).map(slot => slot.start);
+
+    const result = await this.scheduleFollowUpMeeting(organizationId, {
       contactId: contact.id,
       contact,
       proposedTimes,
       meetingType: 'follow-up',
       description: `Follow-up meeting with ${contact.firstName} from ${contact.company}`,
-      createdBy: 'system'
+      createdBy
     });
 
-    return result.success ? result.eventId! : null;
+    return result.event ?? null;
   }
 }
 
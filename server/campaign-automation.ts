@@ -1,99 +1,21 @@
 import { Contact, Activity } from "@shared/schema";
-
-export interface CampaignSequence {
-  id: string;
-  name: string;
-  channels: ('email' | 'sms' | 'whatsapp' | 'push')[];
-  triggers: CampaignTrigger[];
-  steps: CampaignStep[];
-  personalization: PersonalizationRules;
-  abTesting: ABTestConfig;
-  status: 'active' | 'paused' | 'draft';
-  createdAt: Date;
-  updatedAt: Date;
-}
-
-export interface CampaignTrigger {
-  type: 'lead_score_change' | 'activity_completed' | 'time_based' | 'stage_change';
-  conditions: Record<string, any>;
-  delay: number; // minutes
-}
-
-export interface CampaignStep {
-  id: string;
-  sequence: number;
-  channel: 'email' | 'sms' | 'whatsapp' | 'push';
-  delay: number; // minutes from previous step
-  content: CampaignContent;
-  sendTimeOptimization: boolean;
-  conditions?: StepCondition[];
-}
-
-export interface CampaignContent {
-  subject?: string; // for email
-  message: string;
-  mergeTags: string[];
-  abVariants?: ContentVariant[];
-}
-
-export interface ContentVariant {
-  id: string;
-  weight: number; // percentage
-  subject?: string;
-  message: string;
-}
-
-export interface PersonalizationRules {
-  mergeTags: Record<string, string>;
-  dynamicContent: DynamicContentRule[];
-  sendTimeOptimization: SendTimeConfig;
-}
-
-export interface DynamicContentRule {
-  condition: string;
-  content: string;
-  fallback: string;
-}
-
-export interface SendTimeConfig {
-  enabled: boolean;
-  timezone: string;
-  preferredHours: { start: number; end: number };
-  excludeDays: number[]; // 0-6, Sunday = 0
-}
-
-export interface ABTestConfig {
-  enabled: boolean;
-  testType: 'subject' | 'content' | 'send_time';
-  variants: ABVariant[];
-  splitPercentage: number;
-  winnerCriteria: 'open_rate' | 'click_rate' | 'conversion_rate';
-}
-
-export interface ABVariant {
-  id: string;
-  name: string;
-  percentage: number;
-  content: any;
-}
-
-export interface StepCondition {
-  field: string;
-  operator: 'equals' | 'not_equals' | 'greater_than' | 'less_than' | 'contains';
-  value: any;
-}
-
-export interface CampaignMetrics {
-  sent: number;
-  delivered: number;
-  opened: number;
-  clicked: number;
-  converted: number;
-  unsubscribed: number;
-  bounced: number;
-  openRate: number;
-  clickRate: number;
-  conversionRate: number;
+import type {
+  CampaignSequence, CampaignStep, CampaignContent, MessageChannel, PersonalizationRules, SendTimeConfig, StepCondition
+} from "@shared/campaigns";
+import { storage } from "./storage";
+import { emailService } from "./email-service";
+import { consentService } from "./consent-service";
+import { emailTrackingService } from "./email-tracking";
+import { whatsappService } from "./whatsapp-service";
+import { BOOKING_MERGE_TAG_PREFIX, bookingPath } from "@shared/booking";
+
+// Running a step only needs these; built-in and stored sequences both have them
+type SequenceSettings = Pick<CampaignSequence, 'name' | 'personalization'>;
+
+interface StepContext {
+  organizationId: number;
+  assignTo: string | null; // who task steps are assigned to
+  campaignSendId?: number; // the send email steps are logged against
 }
 
 export class CampaignAutomation {
@@ -114,7 +36,7 @@ export class CampaignAutomation {
     return {
       id: 'welcome-sequence',
       name: 'New Lead Welcome Series',
-      channels: ['email', 'sms'],
+      channels: ['email', 'whatsapp'],
       triggers: [{
         type: 'lead_score_change',
         conditions: { leadStatus: 'new', minScore: 20 },
@@ -160,12 +82,12 @@ The SalesPro Team`,
           sendTimeOptimization: true
         },
         {
-          id: 'onboarding-sms',
+          id: 'onboarding-whatsapp',
           sequence: 2,
-          channel: 'sms',
+          channel: 'whatsapp',
           delay: 1440, // 24 hours
           content: {
-            message: 'Hi {{firstName}}! Don\'t forget to complete your SalesPro setup. Need help? Reply HELP or call us at {{supportPhone}}',
+            message: 'Hi {{firstName}}! Don\'t forget to complete your SalesPro setup. Need help? Just reply or call us at {{supportPhone}}',
             mergeTags: ['firstName', 'supportPhone']
           },
           sendTimeOptimization: true,
@@ -365,7 +287,7 @@ Best,
     return {
       id: 'reengagement-sequence',
       name: 'Win-Back Cold Leads',
-      channels: ['email', 'sms'],
+      channels: ['email', 'whatsapp'],
       triggers: [{
         type: 'time_based',
         conditions: { daysSinceLastActivity: 30, leadScore: { min: 20, max: 39 } },
@@ -398,12 +320,12 @@ Best regards,
           sendTimeOptimization: true
         },
         {
-          id: 'urgency-sms',
+          id: 'urgency-whatsapp',
           sequence: 2,
-          channel: 'sms',
+          channel: 'whatsapp',
           delay: 1440, // 24 hours
           content: {
-            message: 'Hi {{firstName}}! Your 30% SalesPro discount expires in 24 hours. Don\'t miss out: {{shortLink}} Questions? Text back or call {{phoneNumber}}',
+            message: 'Hi {{firstName}}! Your 30% SalesPro discount expires in 24 hours. Don\'t miss out: {{shortLink}} Questions? Reply here or call {{phoneNumber}}',
             mergeTags: ['firstName', 'shortLink', 'phoneNumber']
           },
           sendTimeOptimization: true,
@@ -483,7 +405,7 @@ Last chance,
     return {
       id: 'trial-sequence',
       name: 'Free Trial Activation & Success',
-      channels: ['email', 'push', 'sms'],
+      channels: ['email', 'whatsapp'],
       triggers: [{
         type: 'activity_completed',
         conditions: { activityType: 'trial_signup' },
@@ -522,7 +444,7 @@ The SalesPro Team`,
         {
           id: 'progress-check',
           sequence: 2,
-          channel: 'push',
+          channel: 'whatsapp',
           delay: 4320, // 3 days
           content: {
             message: 'Hey {{firstName}}! How\'s your SalesPro setup going? You\'re {{completionPercentage}}% complete. Keep it up! 🚀',
@@ -615,7 +537,7 @@ Celebrating your success,
     return {
       id: 'upgrade-sequence',
       name: 'Premium Upgrade Campaign',
-      channels: ['email', 'sms', 'whatsapp'],
+      channels: ['email', 'whatsapp'],
       triggers: [{
         type: 'lead_score_change',
         conditions: { minScore: 70, leadStatus: 'qualified', trialActive: true },
@@ -658,9 +580,9 @@ Cheering your success,
           sendTimeOptimization: true
         },
         {
-          id: 'social-proof-sms',
+          id: 'social-proof-whatsapp',
           sequence: 2,
-          channel: 'sms',
+          channel: 'whatsapp',
           delay: 2880, // 2 days
           content: {
             message: 'Hi {{firstName}}! Did you see that 89% of companies like {{company}} upgrade to Premium within their first month? Here\'s why: {{benefitsLink}}',
@@ -724,39 +646,78 @@ Cheering your success,
     };
   }
 
-  // Execute campaign step
+  // When a step should go out: no earlier than `earliest`, moved into the
+  // sequence's preferred hours when the step uses send-time optimization
+  static getSendTime(
+    step: CampaignStep,
+    contact: Contact,
+    sequence: SequenceSettings,
+    earliest: Date = new Date()
+  ): Date {
+    return step.sendTimeOptimization ?
+      this.optimizeSendTime(contact, sequence.personalization.sendTimeOptimization, earliest) :
+      earliest;
+  }
+
+  // Whether a step's conditions hold for the contact as it is now
+  static meetsStepConditions(step: CampaignStep, contact: Contact): boolean {
+    return !step.conditions || this.checkStepConditions(step.conditions, contact);
+  }
+
+  // Whether the contact may be messaged on the channel: not opted out and not
+  // on the suppression list. Push notifications have no consent of their own.
+  static async canMessage(channel: MessageChannel, contact: Contact): Promise<boolean> {
+    return channel === 'push' || await consentService.canContact(contact, channel);
+  }
+
+  // The step's content as this contact would receive it, for the sequence editor
+  static previewStep(
+    step: CampaignStep,
+    contact: Contact,
+    personalization: PersonalizationRules
+  ): { subject?: string; message: string; conditionsMet: boolean } {
+    const content = this.personalizeContent(step.content, contact, personalization);
+    return {
+      subject: step.content.subject ? content.subject : undefined,
+      message: content.message,
+      conditionsMet: this.meetsStepConditions(step, contact),
+    };
+  }
+
+  // Execute campaign step. The job queue calls this once the step's send time
+  // has come and its conditions have been checked; task steps are assigned to
+  // context.assignTo and wait steps do nothing.
   static async executeCampaignStep(
     step: CampaignStep, 
     contact: Contact, 
-    sequence: CampaignSequence
+    sequence: SequenceSettings,
+    context: StepContext
   ): Promise<void> {
+    if (step.channel === 'wait') return;
+
     // Personalize content
     const personalizedContent = this.personalizeContent(step.content, contact, sequence.personalization);
     
-    // Check step conditions
-    if (step.conditions && !this.checkStepConditions(step.conditions, contact)) {
-      console.log(`Step ${step.id} skipped due to conditions not met`);
-      return;
-    }
-    
-    // Optimize send time if enabled
-    const sendTime = step.sendTimeOptimization ? 
-      this.optimizeSendTime(contact, sequence.personalization.sendTimeOptimization) : 
-      new Date();
-    
     // Execute based on channel
     switch (step.channel) {
       case 'email':
-        await this.sendEmail(contact, personalizedContent, sendTime);
-        break;
-      case 'sms':
-        await this.sendSMS(contact, personalizedContent, sendTime);
+        await this.sendEmail(contact, personalizedContent, context);
         break;
       case 'whatsapp':
-        await this.sendWhatsApp(contact, personalizedContent, sendTime);
+        await this.sendWhatsApp(contact, personalizedContent);
         break;
+      case 'sms':
       case 'push':
-        await this.sendPushNotification(contact, personalizedContent, sendTime);
+        throw new Error(`${step.channel} steps can't be sent`);
+      case 'task':
+        await storage.createTask(context.organizationId, {
+          contactId: contact.id,
+          title: personalizedContent.subject || `Follow up with ${contact.firstName} ${contact.lastName}`,
+          description: personalizedContent.message,
+          dueDate: new Date(),
+          assignedTo: context.assignTo,
+          createdBy: context.assignTo,
+        });
         break;
     }
     
@@ -782,6 +743,12 @@ Cheering your success,
       personalizedMessage = personalizedMessage.replace(tagPattern, resolvedValue);
     });
     
+    // Custom fields are available as {{custom.<key>}} without a personalization entry
+    const customTagPattern = /{{custom\.([a-z][a-z0-9_]*)}}/g;
+    const resolveCustomTag = (_match: string, key: string) => this.resolveMergeTag(`contact.custom.${key}`, contact);
+    personalizedSubject = personalizedSubject.replace(customTagPattern, resolveCustomTag);
+    personalizedMessage = personalizedMessage.replace(customTagPattern, resolveCustomTag);
+    
     // Apply dynamic content rules
     personalization.dynamicContent.forEach(rule => {
       if (this.evaluateCondition(rule.condition, contact)) {
@@ -800,10 +767,28 @@ Cheering your success,
 
   // Resolve merge tag to actual value
   private static resolveMergeTag(tagPath: string, contact: Contact): string {
+    if (tagPath.startsWith('contact.custom.')) {
+      const value = contact.customFields?.[tagPath.replace('contact.custom.', '')];
+      if (value === null || value === undefined) return '';
+      if (Array.isArray(value)) return value.join(', ');
+      if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+      return String(value);
+    }
+
     if (tagPath.startsWith('contact.')) {
       const field = tagPath.replace('contact.', '');
       return (contact as any)[field] || '';
     }
+
+    // A booking page link with the contact's name and email filled in
+    if (tagPath.startsWith(BOOKING_MERGE_TAG_PREFIX)) {
+      const [pageSlug, typeSlug] = tagPath.slice(BOOKING_MERGE_TAG_PREFIX.length).split('/');
+      const prefill = new URLSearchParams({
+        name: `${contact.firstName} ${contact.lastName}`.trim(),
+        email: contact.email,
+      });
+      return `${emailTrackingService.baseUrl() ?? ''}${bookingPath(pageSlug, typeSlug)}?${prefill}`;
+    }
     
     // Handle calculated/dynamic values
     switch (tagPath) {
@@ -824,80 +809,66 @@ Cheering your success,
     }
   }
 
-  // Send email via configured provider
+  // Send email via Mailgun. Step messages are plain text; they go out as
+  // HTML with their URLs linked so clicks can be tracked. Throws when the
+  // send fails so the job is retried.
   private static async sendEmail(
     contact: Contact, 
-    content: CampaignContent, 
-    sendTime: Date
+    content: CampaignContent,
+    context: StepContext
   ): Promise<void> {
-    console.log(`Scheduling email to ${contact.email} at ${sendTime.toISOString()}`);
-    console.log(`Subject: ${content.subject}`);
-    console.log(`Content: ${content.message.substring(0, 100)}...`);
-    
-    // In production, integrate with SendGrid, Mailgun, etc.
-    // await emailProvider.send({
-    //   to: contact.email,
-    //   subject: content.subject,
-    //   html: content.message,
-    //   sendAt: sendTime
-    // });
-  }
-
-  // Send SMS via configured provider
-  private static async sendSMS(
-    contact: Contact, 
-    content: CampaignContent, 
-    sendTime: Date
-  ): Promise<void> {
-    console.log(`Scheduling SMS to ${contact.phone} at ${sendTime.toISOString()}`);
-    console.log(`Message: ${content.message}`);
-    
-    // In production, integrate with Twilio, AWS SNS, etc.
-    // await smsProvider.send({
-    //   to: contact.phone,
-    //   message: content.message,
-    //   sendAt: sendTime
-    // });
+    const escaped = content.message
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+    const htmlContent = `<div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">${
+      escaped
+        .replace(/https?:\/\/[^\s<]+[^\s<.,;:!?)]/g, url => `<a href="${url}">${url}</a>`)
+        .replace(/\n/g, '<br>')
+    }</div>`;
+
+    const sent = await emailService.sendSingleEmail({
+      organizationId: context.organizationId,
+      to: contact.email,
+      toName: `${contact.firstName} ${contact.lastName}`,
+      subject: content.subject || '',
+      htmlContent,
+      textContent: content.message,
+      track: {
+        organizationId: context.organizationId,
+        contactId: contact.id,
+        campaignSendId: context.campaignSendId,
+        source: 'campaign',
+      },
+    });
+    if (!sent) {
+      throw new Error(`Failed to send campaign email to ${contact.email}`);
+    }
   }
 
-  // Send WhatsApp message
+  // Sends the message as WhatsApp text. A failed send throws so the job is
+  // retried, then marked failed.
   private static async sendWhatsApp(
-    contact: Contact, 
-    content: CampaignContent, 
-    sendTime: Date
-  ): Promise<void> {
-    console.log(`Scheduling WhatsApp to ${contact.phone} at ${sendTime.toISOString()}`);
-    console.log(`Message: ${content.message}`);
-    
-    // In production, integrate with WhatsApp Business API
-    // await whatsappProvider.send({
-    //   to: contact.phone,
-    //   message: content.message,
-    //   sendAt: sendTime
-    // });
-  }
-
-  // Send push notification
-  private static async sendPushNotification(
-    contact: Contact, 
-    content: CampaignContent, 
-    sendTime: Date
+    contact: Contact,
+    content: CampaignContent
   ): Promise<void> {
-    console.log(`Scheduling push notification for contact ${contact.id} at ${sendTime.toISOString()}`);
-    console.log(`Message: ${content.message}`);
-    
-    // In production, integrate with Firebase, OneSignal, etc.
-    // await pushProvider.send({
-    //   userId: contact.id,
-    //   message: content.message,
-    //   sendAt: sendTime
-    // });
+    if (!contact.phone) {
+      throw new Error(`Contact ${contact.id} has no phone number for WhatsApp`);
+    }
+    const sent = await whatsappService.sendTextMessage(contact.phone, content.message, contact);
+    if (sent.status === 'failed') {
+      throw new Error(`Failed to send campaign WhatsApp message to contact ${contact.id}: ${sent.errorMessage ?? 'unknown error'}`);
+    }
   }
 
   // Utility functions
+  // Fields name a contact column, or a custom field as custom.<key>
   private static checkStepConditions(conditions: StepCondition[], contact: Contact): boolean {
     return conditions.every(condition => {
-      const contactValue = (contact as any)[condition.field];
+      const contactValue = condition.field.startsWith('custom.')
+        ? contact.customFields?.[condition.field.replace('custom.', '')]
+        : (contact as any)[condition.field];
       
       switch (condition.operator) {
         case 'equals':
@@ -916,10 +887,10 @@ Cheering your success,
     });
   }
 
-  private static optimizeSendTime(contact: Contact, config: SendTimeConfig): Date {
-    if (!config.enabled) return new Date();
+  private static optimizeSendTime(contact: Contact, config: SendTimeConfig, earliest: Date): Date {
+    if (!config.enabled) return earliest;
     
-    const now = new Date();
+    const now = earliest;
     const targetTime = new Date(now);
     
     // Set to preferred hours
@@ -972,7 +943,7 @@ Cheering your success,
   private static logCampaignActivity(
     contact: Contact, 
     step: CampaignStep, 
-    sequence: CampaignSequence, 
+    sequence: SequenceSettings, 
     content: CampaignContent
   ): void {
     console.log(`Campaign Activity: ${sequence.name} - ${step.id} sent to ${contact.firstName} ${contact.lastName}`);
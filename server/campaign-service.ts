@@ -0,0 +1,298 @@
+import type {
+  CampaignEnrollment, CampaignSequenceRecord, Contact, EnrollmentExitReason, InsertCampaignSequence, Job
+} from '@shared/schema';
+import { isMessageChannel, type CampaignSequenceInput, type CampaignStep, type EnrollmentCounts } from '@shared/campaigns';
+import { storage, type NewJob } from './storage';
+import { pipelineService } from './pipeline-service';
+import { CampaignAutomation } from './campaign-automation';
+import { abTestService } from './ab-test-service';
+
+export const enrollmentActions = ['pause', 'resume', 'exit'] as const;
+export type EnrollmentAction = typeof enrollmentActions[number];
+
+// A step that comes due while its sequence is paused or in draft waits this long before looking again
+const INACTIVE_SEQUENCE_RECHECK_MS = 60 * 60 * 1000;
+
+const CONVERSION_EXIT_REASONS: EnrollmentExitReason[] = ['replied', 'meeting_booked', 'deal_won'];
+
+class CampaignService {
+  // The organization's sequences, seeded from the built-in ones the first time
+  async getSequences(organizationId: number): Promise<CampaignSequenceRecord[]> {
+    let sequences = await storage.getCampaignSequences(organizationId);
+    if (sequences.length === 0) {
+      await storage.createDefaultCampaignSequences(
+        organizationId,
+        CampaignAutomation.getDefaultSequences().map(({ id, createdAt, updatedAt, ...sequence }) => ({ ...sequence, templateKey: id }))
+      );
+      sequences = await storage.getCampaignSequences(organizationId);
+    }
+    return sequences;
+  }
+
+  // Channels are derived from the message steps, in the order they are first used
+  toInsertSequence(input: CampaignSequenceInput): Omit<InsertCampaignSequence, 'organizationId'> {
+    return {
+      ...input,
+      channels: Array.from(new Set(input.steps.map(step => step.channel).filter(isMessageChannel))),
+    };
+  }
+
+  countEnrollments(enrollments: CampaignEnrollment[]): EnrollmentCounts {
+    const counts: EnrollmentCounts = { active: 0, paused: 0, completed: 0, exited: 0 };
+    for (const enrollment of enrollments) {
+      if (enrollment.status in counts) {
+        counts[enrollment.status as keyof EnrollmentCounts]++;
+      }
+    }
+    return counts;
+  }
+
+  async enroll(
+    organizationId: number,
+    sequence: CampaignSequenceRecord,
+    contact: Contact,
+    enrolledBy?: string
+  ): Promise<CampaignEnrollment | undefined> {
+    const job = this.stepJob(sequence, sequence.steps[0], contact, new Date());
+    return await storage.createCampaignEnrollment(organizationId, {
+      sequenceId: sequence.id,
+      contactId: contact.id,
+      status: 'active',
+      currentStep: 0,
+      nextRunAt: job.runAt,
+      enrolledBy,
+    }, job);
+  }
+
+  // Paused enrollments keep nextRunAt so the UI can show where they stopped
+  async pause(organizationId: number, enrollment: CampaignEnrollment): Promise<CampaignEnrollment | undefined> {
+    return await storage.updateCampaignEnrollment(organizationId, enrollment.id, { status: 'paused' }, null);
+  }
+
+  // Picks up at the step the enrollment stopped on, no earlier than it was due
+  async resume(organizationId: number, enrollment: CampaignEnrollment): Promise<CampaignEnrollment | undefined> {
+    const sequence = await storage.getCampaignSequence(organizationId, enrollment.sequenceId);
+    if (!sequence?.steps[enrollment.currentStep]) {
+      return await this.complete(organizationId, enrollment);
+    }
+
+    const runAt = new Date(Math.max(Date.now(), enrollment.nextRunAt?.getTime() ?? 0));
+    return await storage.updateCampaignEnrollment(
+      organizationId,
+      enrollment.id,
+      { status: 'active', nextRunAt: runAt },
+      { type: 'campaign.step', payload: { enrollmentId: enrollment.id }, runAt }
+    );
+  }
+
+  // Replies, meetings and won deals count as conversions for every step the
+  // contact received, which is what A/B tests judged on conversion rate use
+  async exit(organizationId: number, enrollment: CampaignEnrollment, reason: EnrollmentExitReason): Promise<CampaignEnrollment | undefined> {
+    const exited = await storage.updateCampaignEnrollment(
+      organizationId,
+      enrollment.id,
+      { status: 'exited', exitReason: reason, nextRunAt: null, endedAt: new Date() },
+      null
+    );
+    if (exited && CONVERSION_EXIT_REASONS.includes(reason)) {
+      await storage.markCampaignSendsConverted(organizationId, enrollment.id);
+    }
+    return exited;
+  }
+
+  // Why the contact should leave their sequences, judged only by what happened
+  // after they were enrolled: a reply, a meeting, or one of their deals being won
+  async exitReason(organizationId: number, enrollment: CampaignEnrollment): Promise<EnrollmentExitReason | null> {
+    const since = enrollment.enrolledAt;
+    const after = (date: Date | null) => !!date && date > since;
+
+    const activities = await storage.getContactActivities(organizationId, enrollment.contactId);
+    if (activities.some(activity => activity.type === 'reply' && after(activity.createdAt))) {
+      return 'replied';
+    }
+    if (activities.some(activity => activity.type === 'meeting' && after(activity.createdAt))) {
+      return 'meeting_booked';
+    }
+
+    const deals = await pipelineService.withStages(organizationId, await storage.getContactDeals(organizationId, enrollment.contactId));
+    for (const deal of deals.filter(deal => pipelineService.hasOutcome(deal, 'won'))) {
+      const transitions = await storage.getDealStageTransitions(organizationId, deal.id);
+      if (transitions.some(transition => transition.toStageId === deal.stageId && after(transition.createdAt))) {
+        return 'deal_won';
+      }
+    }
+
+    return null;
+  }
+
+  // Called after something happens to a contact that may end their sequences.
+  // Failures are logged rather than thrown so they never fail the request that
+  // triggered the check; the next step runs the same check anyway.
+  async checkExits(organizationId: number, contactId: number | null | undefined): Promise<void> {
+    if (!contactId) return;
+
+    try {
+      const open = await storage.getCampaignEnrollments(organizationId, { contactId, statuses: ['active', 'paused'] });
+      for (const enrollment of open) {
+        const reason = await this.exitReason(organizationId, enrollment);
+        if (reason) {
+          await this.exit(organizationId, enrollment, reason);
+        }
+      }
+    } catch (error) {
+      console.error(`Failed to check campaign exits for contact ${contactId}:`, error);
+    }
+  }
+
+  // Handler for campaign.step jobs. Runs the enrollment's current step and
+  // queues the next one, or completes the enrollment after the last step.
+  async runStep(job: Job): Promise<Record<string, any>> {
+    const organizationId = job.organizationId;
+    const enrollment = await storage.getCampaignEnrollment(organizationId, job.payload.enrollmentId);
+    if (!enrollment || enrollment.status !== 'active' || enrollment.nextJobId !== job.id) {
+      return { skipped: 'Enrollment is no longer waiting for this job' };
+    }
+
+    let sequence = await storage.getCampaignSequence(organizationId, enrollment.sequenceId);
+    const contact = await storage.getContact(organizationId, enrollment.contactId);
+    if (!sequence || !contact) {
+      return { skipped: 'Sequence or contact not found' };
+    }
+
+    if (sequence.status !== 'active') {
+      const runAt = new Date(Date.now() + INACTIVE_SEQUENCE_RECHECK_MS);
+      await storage.updateCampaignEnrollment(organizationId, enrollment.id, { nextRunAt: runAt }, {
+        type: 'campaign.step',
+        payload: { enrollmentId: enrollment.id },
+        runAt,
+      });
+      return { postponed: `Sequence is ${sequence.status}` };
+    }
+
+    const reason = await this.exitReason(organizationId, enrollment);
+    if (reason) {
+      await this.exit(organizationId, enrollment, reason);
+      return { exited: reason };
+    }
+
+    // The sequence may have lost steps since the contact was enrolled
+    if (!sequence.steps[enrollment.currentStep]) {
+      await this.complete(organizationId, enrollment);
+      return { completed: true };
+    }
+
+    // A test that has reached significance is settled before anyone else gets a variant
+    if (abTestService.isTesting(sequence, sequence.steps[enrollment.currentStep])) {
+      sequence = await abTestService.promoteWinners(organizationId, sequence);
+    }
+    const step = sequence.steps[enrollment.currentStep];
+
+    // A step whose conditions don't match is skipped unless it says to exit
+    // the contact or jump ahead to a later step
+    let nextIndex = enrollment.currentStep + 1;
+    const conditionsMet = CampaignAutomation.meetsStepConditions(step, contact);
+    let variantId: string | null = null;
+    let optedOut = false;
+    if (conditionsMet && isMessageChannel(step.channel) && !await CampaignAutomation.canMessage(step.channel, contact)) {
+      optedOut = true;
+      // Opted out of this step's channel: the step is skipped, and the contact
+      // leaves once nothing later in the sequence can still reach them
+      if (!await this.hasReachableStepAfter(sequence, enrollment.currentStep, contact)) {
+        await this.exit(organizationId, enrollment, 'unsubscribed');
+        return { stepId: step.id, exited: 'unsubscribed' };
+      }
+    } else if (conditionsMet) {
+      const assigned = abTestService.variantStep(sequence, step, contact.id);
+      variantId = assigned.variantId;
+      // The send is logged first so the email can be tracked against it, and
+      // dropped again if sending fails and the job is retried
+      const send = isMessageChannel(step.channel)
+        ? await storage.createCampaignSend(organizationId, {
+            sequenceId: sequence.id,
+            enrollmentId: enrollment.id,
+            contactId: contact.id,
+            stepId: step.id,
+            channel: step.channel,
+            variantId,
+          })
+        : undefined;
+      try {
+        await CampaignAutomation.executeCampaignStep(assigned.step, contact, sequence, {
+          organizationId,
+          assignTo: enrollment.enrolledBy,
+          campaignSendId: send?.id,
+        });
+      } catch (error) {
+        if (send) {
+          await storage.deleteCampaignSend(organizationId, send.id);
+        }
+        throw error;
+      }
+    } else if (step.otherwise?.action === 'exit') {
+      await this.exit(organizationId, enrollment, 'conditions_not_met');
+      return { stepId: step.id, exited: 'conditions_not_met' };
+    } else if (step.otherwise?.action === 'jump') {
+      const target = sequence.steps.findIndex(other => other.id === step.otherwise?.stepId);
+      if (target > enrollment.currentStep) {
+        nextIndex = target;
+      }
+    }
+
+    const now = new Date();
+    const nextStep = sequence.steps[nextIndex];
+    if (nextStep) {
+      const nextJob = this.stepJob(sequence, nextStep, contact, now, enrollment.id);
+      await storage.updateCampaignEnrollment(organizationId, enrollment.id, {
+        currentStep: nextIndex,
+        lastStepAt: now,
+        nextRunAt: nextJob.runAt,
+      }, nextJob);
+    } else {
+      await this.complete(organizationId, enrollment, { currentStep: nextIndex, lastStepAt: now });
+    }
+
+    return { stepId: step.id, conditionsMet, optedOut, variantId, nextStepId: nextStep?.id ?? null };
+  }
+
+  // Task steps always count; message steps count if the contact can still
+  // be messaged on their channel
+  private async hasReachableStepAfter(sequence: CampaignSequenceRecord, index: number, contact: Contact): Promise<boolean> {
+    const later = sequence.steps.slice(index + 1);
+    if (later.some(step => step.channel === 'task')) {
+      return true;
+    }
+    const channels = Array.from(new Set(later.map(step => step.channel).filter(isMessageChannel)));
+    for (const channel of channels) {
+      if (await CampaignAutomation.canMessage(channel, contact)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  private async complete(
+    organizationId: number,
+    enrollment: CampaignEnrollment,
+    update: { currentStep?: number; lastStepAt?: Date } = {}
+  ): Promise<CampaignEnrollment | undefined> {
+    return await storage.updateCampaignEnrollment(
+      organizationId,
+      enrollment.id,
+      { ...update, status: 'completed', nextRunAt: null, endedAt: new Date() },
+      null
+    );
+  }
+
+  // The job for a step, due its delay after `after` and moved into the
+  // sequence's preferred hours when the step asks for it
+  private stepJob(sequence: CampaignSequenceRecord, step: CampaignStep, contact: Contact, after: Date, enrollmentId?: number): NewJob {
+    const earliest = new Date(after.getTime() + step.delay * 60 * 1000);
+    return {
+      type: 'campaign.step',
+      payload: enrollmentId ? { enrollmentId } : {},
+      runAt: CampaignAutomation.getSendTime(step, contact, sequence, earliest),
+    };
+  }
+}
+
+export const campaignService = new CampaignService();
@@ -0,0 +1,89 @@
+import type { Job, JobType } from '@shared/schema';
+import { jobQueue } from './job-queue';
+import { encryptSecret, decryptSecret } from './secrets';
+
+// What the mailbox and calendar services have in common: an account the user
+// connects with a password, kept encrypted, and synced by a chain of jobs
+
+interface ConnectedAccount {
+  id: number;
+  organizationId: number;
+  encryptedPassword: string;
+}
+
+interface SyncChainOptions<A extends ConnectedAccount> {
+  type: JobType;
+  intervalMs: number;
+  // Names the account's id in the job payload
+  payloadKey: string;
+  // Reported when the account was disconnected before its job ran
+  missingReason: string;
+  getAccount(organizationId: number, id: number): Promise<A | undefined>;
+  sync(account: A): Promise<Record<string, any>>;
+}
+
+// What the API returns for an account; the password never leaves the server
+export function withoutPassword<A extends ConnectedAccount>(account: A): Omit<A, 'encryptedPassword'> {
+  const { encryptedPassword, ...summary } = account;
+  return summary;
+}
+
+export function savePassword(password: string): { encryptedPassword: string } {
+  return { encryptedPassword: encryptSecret(password) };
+}
+
+export function withStoredPassword<A extends ConnectedAccount>(account: A): A & { password: string } {
+  return { ...account, password: decryptSecret(account.encryptedPassword) };
+}
+
+// Settings as entered, with the saved password when none was entered
+// again. Null when there is no password to use.
+export function withPassword<S extends { password?: string }>(settings: S, existing?: ConnectedAccount): (S & { password: string }) | null {
+  const password = settings.password || (existing ? decryptSecret(existing.encryptedPassword) : '');
+  return password ? { ...settings, password } : null;
+}
+
+// Runs are lined up on the sync interval so an account has one chain of
+// sync jobs however many times it was (re)connected
+export class SyncChain<A extends ConnectedAccount> {
+  constructor(private options: SyncChainOptions<A>) {}
+
+  private key(account: A, suffix: string | number): string {
+    return `${this.options.type.replace('.', '-')}:${account.id}:${suffix}`;
+  }
+
+  // Syncs a newly connected account straight away
+  async start(account: A, userId: string): Promise<void> {
+    await jobQueue.enqueue(account.organizationId, this.options.type, {
+      payload: { [this.options.payloadKey]: account.id },
+      idempotencyKey: this.key(account, `connect:${Date.now()}`),
+      createdBy: userId,
+    });
+  }
+
+  private async scheduleNext(account: A): Promise<void> {
+    const slot = Math.floor(Date.now() / this.options.intervalMs) + 1;
+    await jobQueue.enqueue(account.organizationId, this.options.type, {
+      payload: { [this.options.payloadKey]: account.id },
+      runAt: new Date(slot * this.options.intervalMs),
+      idempotencyKey: this.key(account, slot),
+    });
+  }
+
+  // Job handler. A failed sync is returned as the job's result rather than
+  // thrown, so a wrong password doesn't end the schedule.
+  async run(job: Job): Promise<Record<string, any>> {
+    const account = await this.options.getAccount(job.organizationId, job.payload[this.options.payloadKey]);
+    if (!account) {
+      return { synced: false, reason: this.options.missingReason };
+    }
+
+    try {
+      return { synced: true, ...await this.options.sync(account) };
+    } catch (error) {
+      return { synced: false, reason: error instanceof Error ? error.message : String(error) };
+    } finally {
+      await this.scheduleNext(account);
+    }
+  }
+}
@@ -0,0 +1,129 @@
+import {
+  consentChannels,
+  type ConsentChannel, type ConsentStatus, type Contact, type ContactConsent, type Suppression, type SuppressionReason
+} from '@shared/schema';
+import { storage } from './storage';
+
+// Opting back in lifts suppressions for these reasons. Bounced addresses and
+// ones an admin suppressed stay on the list until someone removes them.
+const LIFTED_BY_OPT_IN: SuppressionReason[] = ['unsubscribed', 'complained'];
+
+export interface ChannelPreference {
+  channel: ConsentChannel;
+  address: string;
+  status: ConsentStatus | null; // null until the contact has opted in or out
+  suppressed: boolean;
+}
+
+interface SuppressionDetails {
+  contactId?: number | null;
+  source?: string | null;
+  createdBy?: string | null;
+}
+
+class ConsentService {
+  normalizeAddress(channel: ConsentChannel, address: string): string {
+    return channel === 'email' ? address.trim().toLowerCase() : address.replace(/\D/g, '');
+  }
+
+  // The contact's address on a channel, normalized, or null if it has none
+  addressFor(contact: Contact, channel: ConsentChannel): string | null {
+    const address = channel === 'email' ? contact.email : contact.phone;
+    const normalized = address ? this.normalizeAddress(channel, address) : '';
+    return normalized || null;
+  }
+
+  async isSuppressed(organizationId: number, channel: ConsentChannel, address: string): Promise<boolean> {
+    return !!await storage.getSuppression(organizationId, channel, this.normalizeAddress(channel, address));
+  }
+
+  // Whether the contact may be messaged on the channel: it has an address
+  // there, hasn't opted out and the address isn't suppressed
+  async canContact(contact: Contact, channel: ConsentChannel): Promise<boolean> {
+    const address = this.addressFor(contact, channel);
+    if (!address || contact.consent?.[channel]?.status === 'opted_out') {
+      return false;
+    }
+    return !await storage.getSuppression(contact.organizationId, channel, address);
+  }
+
+  // Splits contacts into those that may be messaged on the channel and those
+  // that may not, with one lookup for the whole list
+  async partition<T extends Contact>(organizationId: number, channel: ConsentChannel, contacts: T[]): Promise<{ allowed: T[]; blocked: T[] }> {
+    const addresses = contacts.flatMap(contact => this.addressFor(contact, channel) ?? []);
+    const suppressed = await storage.getSuppressedAddresses(organizationId, channel, Array.from(new Set(addresses)));
+
+    const allowed: T[] = [];
+    const blocked: T[] = [];
+    for (const contact of contacts) {
+      const address = this.addressFor(contact, channel);
+      const reachable = address && !suppressed.has(address) && contact.consent?.[channel]?.status !== 'opted_out';
+      (reachable ? allowed : blocked).push(contact);
+    }
+    return { allowed, blocked };
+  }
+
+  // What the preference center shows the contact: every channel they have an
+  // address on, with phone numbers cut down to their last digits
+  async preferences(contact: Contact): Promise<ChannelPreference[]> {
+    const preferences: ChannelPreference[] = [];
+    for (const channel of consentChannels) {
+      const address = this.addressFor(contact, channel);
+      if (!address) continue;
+      preferences.push({
+        channel,
+        address: channel === 'email' ? address : `•••• ${address.slice(-4)}`,
+        status: contact.consent?.[channel]?.status ?? null,
+        suppressed: !!await storage.getSuppression(contact.organizationId, channel, address),
+      });
+    }
+    return preferences;
+  }
+
+  async suppress(
+    organizationId: number,
+    channel: ConsentChannel,
+    address: string,
+    reason: SuppressionReason,
+    details: SuppressionDetails = {}
+  ): Promise<Suppression> {
+    return await storage.createSuppression(organizationId, {
+      channel,
+      address: this.normalizeAddress(channel, address),
+      reason,
+      source: details.source ?? null,
+      contactId: details.contactId ?? null,
+      createdBy: details.createdBy ?? null,
+    });
+  }
+
+  // Records the contact's consent on a channel. Opting out suppresses the
+  // contact's address; opting in lifts unsubscribe and complaint suppressions.
+  async setConsent(
+    contact: Contact,
+    channel: ConsentChannel,
+    status: ConsentStatus,
+    options: { source: string; createdBy?: string | null; reason?: SuppressionReason }
+  ): Promise<Contact> {
+    const organizationId = contact.organizationId;
+    const consent: ContactConsent = {
+      ...contact.consent,
+      [channel]: { status, source: options.source, updatedAt: new Date().toISOString() },
+    };
+    const updated = await storage.updateContactConsent(organizationId, contact.id, consent) ?? { ...contact, consent };
+
+    const address = this.addressFor(contact, channel);
+    if (address && status === 'opted_out') {
+      await this.suppress(organizationId, channel, address, options.reason ?? 'unsubscribed', {
+        contactId: contact.id,
+        source: options.source,
+        createdBy: options.createdBy,
+      });
+    } else if (address) {
+      await storage.deleteSuppressionsForAddress(organizationId, channel, address, LIFTED_BY_OPT_IN);
+    }
+    return updated;
+  }
+}
+
+export const consentService = new ConsentService();
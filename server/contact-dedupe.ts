@@ -0,0 +1,175 @@
+import type { Contact, CustomFieldValues, InsertContact } from '@shared/schema';
+import { storage } from './storage';
+import { whatsappService } from './whatsapp-service';
+
+export type DuplicateReason = 'email' | 'phone' | 'name_company';
+
+export interface DuplicateGroup {
+  contacts: Contact[];
+  reasons: DuplicateReason[];
+}
+
+// Fields the merge UI lets the user pick a surviving value for
+export const mergeableContactFields = [
+  'firstName', 'lastName', 'email', 'phone', 'company', 'position',
+  'source', 'leadStatus', 'leadScore', 'timeZone', 'notes'
+] as const;
+type MergeableField = (typeof mergeableContactFields)[number];
+
+// field name or "custom.<key>" -> id of the contact whose value survives
+export type MergeFieldChoices = Record<string, number>;
+
+const NAME_SIMILARITY_THRESHOLD = 0.85;
+
+// Legal-form suffixes that shouldn't stop "Acme Inc" matching "ACME"
+const companySuffixes = new Set(['inc', 'incorporated', 'llc', 'ltd', 'limited', 'corp', 'corporation', 'co', 'company', 'pt', 'tbk', 'cv', 'gmbh', 'plc']);
+
+export const normalizeEmail = (email: string | null | undefined) => email?.trim().toLowerCase() || undefined;
+
+export const normalizePhone = (phone: string | null | undefined) => {
+  const digits = phone?.replace(/\D/g, '') ?? '';
+  // Very short numbers are usually extensions or junk and would match too broadly
+  return digits.length >= 6 ? whatsappService.cleanPhoneNumber(digits) : undefined;
+};
+
+const normalizeText = (value: string) =>
+  value
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+
+const normalizeCompany = (company: string | null | undefined) =>
+  normalizeText(company ?? '')
+    .split(' ')
+    .filter(word => word && !companySuffixes.has(word))
+    .join(' ') || undefined;
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+const similarity = (a: string, b: string) =>
+  a.length === 0 && b.length === 0 ? 1 : 1 - levenshtein(a, b) / Math.max(a.length, b.length);
+
+// "Budi Santoso" also matches "Santoso Budi", which is common when first and last are swapped on entry
+function namesMatch(a: Contact, b: Contact): boolean {
+  const nameA = normalizeText(`${a.firstName} ${a.lastName}`);
+  const nameB = normalizeText(`${b.firstName} ${b.lastName}`);
+  const swappedB = normalizeText(`${b.lastName} ${b.firstName}`);
+  return Math.max(similarity(nameA, nameB), similarity(nameA, swappedB)) >= NAME_SIMILARITY_THRESHOLD;
+}
+
+const isBlank = (value: unknown) =>
+  value === null || value === undefined || value === '' || (Array.isArray(value) && value.length === 0);
+
+class ContactDedupeService {
+  async findDuplicateGroups(organizationId: number): Promise<DuplicateGroup[]> {
+    const contacts = await storage.getAllContacts(organizationId);
+
+    // Union-find over contact indexes; each union records why the two matched
+    const parent = contacts.map((_, index) => index);
+    const find = (index: number): number => (parent[index] === index ? index : (parent[index] = find(parent[index])));
+    const pairReasons = new Map<number, Set<DuplicateReason>>();
+    const union = (a: number, b: number, reason: DuplicateReason) => {
+      parent[find(a)] = find(b);
+      const reasons = pairReasons.get(a) ?? new Set<DuplicateReason>();
+      reasons.add(reason);
+      pairReasons.set(a, reasons);
+    };
+
+    const byEmail = new Map<string, number>();
+    const byPhone = new Map<string, number>();
+    const byCompany = new Map<string, number[]>();
+
+    contacts.forEach((contact, index) => {
+      const email = normalizeEmail(contact.email);
+      if (email) {
+        if (byEmail.has(email)) union(index, byEmail.get(email)!, 'email');
+        else byEmail.set(email, index);
+      }
+
+      const phone = normalizePhone(contact.phone);
+      if (phone) {
+        if (byPhone.has(phone)) union(index, byPhone.get(phone)!, 'phone');
+        else byPhone.set(phone, index);
+      }
+
+      // Names are only compared within the same company, which keeps this far from O(n²)
+      const company = normalizeCompany(contact.company);
+      if (company) {
+        const colleagues = byCompany.get(company) ?? [];
+        for (const other of colleagues) {
+          if (namesMatch(contact, contacts[other])) union(index, other, 'name_company');
+        }
+        colleagues.push(index);
+        byCompany.set(company, colleagues);
+      }
+    });
+
+    const groups = new Map<number, DuplicateGroup>();
+    contacts.forEach((contact, index) => {
+      const root = find(index);
+      const group = groups.get(root) ?? { contacts: [], reasons: [] };
+      group.contacts.push(contact);
+      for (const reason of Array.from(pairReasons.get(index) ?? [])) {
+        if (!group.reasons.includes(reason)) group.reasons.push(reason);
+      }
+      groups.set(root, group);
+    });
+
+    return Array.from(groups.values()).filter(group => group.contacts.length > 1);
+  }
+
+  // Contacts already using this email, ignoring case and surrounding whitespace
+  async findEmailConflict(organizationId: number, email: string, excludeContactId?: number): Promise<Contact | undefined> {
+    const normalized = normalizeEmail(email);
+    if (!normalized) return undefined;
+    const contacts = await storage.getAllContacts(organizationId);
+    return contacts.find(contact => contact.id !== excludeContactId && normalizeEmail(contact.email) === normalized);
+  }
+
+  // The surviving contact's values, with any field the user picked from another
+  // contact swapped in. Tags are combined and custom fields fall back to the
+  // first contact that has a value.
+  buildMergedContact(survivor: Contact, others: Contact[], choices: MergeFieldChoices): Partial<InsertContact> {
+    const all = [survivor, ...others];
+    const pick = (field: string) => all.find(contact => contact.id === choices[field]);
+
+    const merged: Partial<Record<MergeableField, unknown>> = {};
+    for (const field of mergeableContactFields) {
+      const source = pick(field) ?? (isBlank(survivor[field]) ? all.find(contact => !isBlank(contact[field])) : undefined);
+      if (source && source !== survivor) merged[field] = source[field];
+    }
+
+    const customFields: CustomFieldValues = {};
+    const customKeys = new Set(all.flatMap(contact => Object.keys(contact.customFields ?? {})));
+    for (const key of Array.from(customKeys)) {
+      const source = pick(`custom.${key}`) ?? all.find(contact => !isBlank(contact.customFields?.[key]));
+      if (source) customFields[key] = source.customFields?.[key] ?? null;
+    }
+
+    const tags = Array.from(new Set(all.flatMap(contact => contact.tags ?? [])));
+    const lastContactDate = all
+      .map(contact => contact.lastContactDate)
+      .filter((date): date is Date => !!date)
+      .sort((a, b) => b.getTime() - a.getTime())[0] ?? null;
+
+    return { ...merged, tags, customFields, lastContactDate } as Partial<InsertContact>;
+  }
+}
+
+export const contactDedupeService = new ContactDedupeService();
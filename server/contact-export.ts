@@ -0,0 +1,181 @@
+import type { Writable } from 'stream';
+import ExcelJS from 'exceljs';
+import type { Contact, Deal, CustomFieldDefinition, CustomFieldValue, PipelineWithStages } from '@shared/schema';
+
+export const exportFormats = ['csv', 'xlsx', 'vcf'] as const;
+export type ExportFormat = (typeof exportFormats)[number];
+
+type CellValue = string | number | null;
+
+export interface ExportColumn<T> {
+  header: string;
+  value: (record: T) => CellValue;
+}
+
+const CSV_CHUNK_SIZE = 500;
+
+export const exportContentTypes: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  vcf: 'text/vcard; charset=utf-8',
+};
+
+const formatDate = (date: Date | null) => (date ? date.toISOString() : null);
+
+// Same rendering as campaign merge tags: lists joined, booleans as Yes/No
+const formatCustomValue = (value: CustomFieldValue | undefined): CellValue => {
+  if (value === null || value === undefined) return null;
+  if (Array.isArray(value)) return value.join(', ');
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  return value;
+};
+
+// Cells that a spreadsheet would evaluate as a formula are prefixed with a quote.
+// Only a cell made up entirely of phone number characters is left alone, so
+// phone numbers and negative numbers survive.
+export const escapeCsvCell = (value: CellValue): string => {
+  if (value === null) return '';
+  let text = String(value);
+  if (/^[=+\-@\t\r]/.test(text) && !/^\+?[\d\s().-]+$/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// vCard text values escape backslashes, commas, semicolons and newlines (RFC 2426 §4)
+const escapeVCardText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/,/g, '\\,').replace(/;/g, '\\;').replace(/\r?\n/g, '\\n');
+
+// Lines longer than 75 octets are folded onto continuation lines starting with a space
+const foldVCardLine = (line: string) => {
+  const chunks: string[] = [];
+  let rest = line;
+  while (Buffer.byteLength(rest) > 75) {
+    let cut = 75;
+    while (Buffer.byteLength(rest.slice(0, cut)) > 75) cut--;
+    chunks.push(rest.slice(0, cut));
+    rest = ` ${rest.slice(cut)}`;
+  }
+  chunks.push(rest);
+  return chunks.join('\r\n');
+};
+
+class ContactExportService {
+  contactColumns(definitions: CustomFieldDefinition[]): ExportColumn<Contact>[] {
+    return [
+      { header: 'ID', value: contact => contact.id },
+      { header: 'First Name', value: contact => contact.firstName },
+      { header: 'Last Name', value: contact => contact.lastName },
+      { header: 'Email', value: contact => contact.email },
+      { header: 'Phone', value: contact => contact.phone },
+      { header: 'Company', value: contact => contact.company },
+      { header: 'Position', value: contact => contact.position },
+      { header: 'Time Zone', value: contact => contact.timeZone },
+      { header: 'Lead Source', value: contact => contact.source },
+      { header: 'Tags', value: contact => (contact.tags ?? []).join(', ') },
+      { header: 'Lead Status', value: contact => contact.leadStatus },
+      { header: 'Lead Score', value: contact => contact.leadScore },
+      { header: 'Notes', value: contact => contact.notes },
+      { header: 'Last Contact Date', value: contact => formatDate(contact.lastContactDate) },
+      { header: 'Created At', value: contact => formatDate(contact.createdAt) },
+      ...this.customFieldColumns<Contact>(definitions),
+    ];
+  }
+
+  dealColumns(definitions: CustomFieldDefinition[], contacts: Contact[], pipelines: PipelineWithStages[]): ExportColumn<Deal>[] {
+    const contactNames = new Map(contacts.map(contact => [contact.id, `${contact.firstName} ${contact.lastName}`]));
+    const stages = new Map(pipelines.flatMap(pipeline =>
+      pipeline.stages.map(stage => [stage.id, { pipeline: pipeline.name, stage: stage.name }] as const)
+    ));
+
+    return [
+      { header: 'ID', value: deal => deal.id },
+      { header: 'Title', value: deal => deal.title },
+      { header: 'Contact ID', value: deal => deal.contactId },
+      { header: 'Contact', value: deal => (deal.contactId ? contactNames.get(deal.contactId) ?? null : null) },
+      { header: 'Value', value: deal => (deal.value === null ? null : Number(deal.value)) },
+      { header: 'Pipeline', value: deal => (deal.stageId ? stages.get(deal.stageId)?.pipeline ?? null : null) },
+      { header: 'Stage', value: deal => (deal.stageId ? stages.get(deal.stageId)?.stage ?? null : null) },
+      { header: 'Probability', value: deal => deal.probability },
+      { header: 'Expected Close Date', value: deal => formatDate(deal.expectedCloseDate) },
+      { header: 'Actual Close Date', value: deal => formatDate(deal.actualCloseDate) },
+      { header: 'Notes', value: deal => deal.notes },
+      { header: 'Created At', value: deal => formatDate(deal.createdAt) },
+      ...this.customFieldColumns<Deal>(definitions),
+    ];
+  }
+
+  // Rows are written in chunks, waiting for the socket to drain, so large
+  // exports never build the whole file in memory
+  async streamCsv<T>(output: Writable, columns: ExportColumn<T>[], records: T[]): Promise<void> {
+    // BOM so Excel opens UTF-8 names correctly
+    await this.write(output, '\uFEFF' + columns.map(column => escapeCsvCell(column.header)).join(',') + '\r\n');
+
+    for (let start = 0; start < records.length; start += CSV_CHUNK_SIZE) {
+      const chunk = records
+        .slice(start, start + CSV_CHUNK_SIZE)
+        .map(record => columns.map(column => escapeCsvCell(column.value(record))).join(',') + '\r\n')
+        .join('');
+      await this.write(output, chunk);
+    }
+  }
+
+  // The workbook is built in one go
+  async toXlsx<T>(columns: ExportColumn<T>[], records: T[], sheetName: string): Promise<Buffer> {
+    const workbook = new ExcelJS.Workbook();
+    const sheet = workbook.addWorksheet(sheetName);
+    sheet.addRow(columns.map(column => column.header));
+    sheet.addRows(records.map(record => columns.map(column => column.value(record))));
+    return Buffer.from(await workbook.xlsx.writeBuffer());
+  }
+
+  // vCard 3.0 (RFC 2426), one card per contact
+  toVCard(contacts: Contact[]): string {
+    return contacts.map(contact => {
+      const lines = [
+        'BEGIN:VCARD',
+        'VERSION:3.0',
+        `N:${escapeVCardText(contact.lastName)};${escapeVCardText(contact.firstName)};;;`,
+        `FN:${escapeVCardText(`${contact.firstName} ${contact.lastName}`.trim())}`,
+        `EMAIL;TYPE=INTERNET:${contact.email}`,
+      ];
+      if (contact.phone) lines.push(`TEL;TYPE=CELL:${escapeVCardText(contact.phone)}`);
+      if (contact.company) lines.push(`ORG:${escapeVCardText(contact.company)}`);
+      if (contact.position) lines.push(`TITLE:${escapeVCardText(contact.position)}`);
+      if (contact.tags && contact.tags.length > 0) {
+        lines.push(`CATEGORIES:${contact.tags.map(escapeVCardText).join(',')}`);
+      }
+      if (contact.notes) lines.push(`NOTE:${escapeVCardText(contact.notes)}`);
+      if (contact.createdAt) lines.push(`REV:${contact.createdAt.toISOString()}`);
+      lines.push(`UID:crm-contact-${contact.id}`, 'END:VCARD');
+
+      return lines.map(foldVCardLine).join('\r\n');
+    }).join('\r\n') + '\r\n';
+  }
+
+  private customFieldColumns<T extends { customFields: Contact['customFields'] }>(definitions: CustomFieldDefinition[]): ExportColumn<T>[] {
+    return definitions.map(definition => ({
+      header: definition.label,
+      value: (record: T) => formatCustomValue(record.customFields?.[definition.key]),
+    }));
+  }
+
+  private write(output: Writable, chunk: string): Promise<void> {
+    return new Promise(resolve => {
+      if (output.write(chunk)) {
+        resolve();
+        return;
+      }
+      // A client that disconnects mid-download never drains
+      const done = () => {
+        output.off('drain', done);
+        output.off('close', done);
+        resolve();
+      };
+      output.once('drain', done);
+      output.once('close', done);
+    });
+  }
+}
+
+export const contactExportService = new ContactExportService();
@@ -0,0 +1,308 @@
+import { Readable } from 'stream';
+import ExcelJS from 'exceljs';
+import { z } from 'zod';
+import {
+  insertContactSchema,
+  buildCustomFieldsSchema,
+  type Contact,
+  type CustomFieldDefinition,
+  type CustomFieldValues,
+  type InsertContact
+} from '@shared/schema';
+import { storage } from './storage';
+import { normalizeEmail, normalizePhone } from './contact-dedupe';
+import { escapeCsvCell } from './contact-export';
+
+export const MAX_IMPORT_ROWS = 10000;
+const IMPORT_BATCH_SIZE = 100;
+
+export type ImportRow = Record<string, string>;
+
+// Column header -> contact field, "custom.<key>", or "" to skip the column
+export type ColumnMapping = Record<string, string>;
+
+export interface ImportRowResult {
+  rowNumber: number; // 1-based, excluding the header row
+  status: 'valid' | 'invalid' | 'duplicate';
+  errors: string[];
+  duplicateOfContactId?: number; // unset when the duplicate is an earlier row in the same file
+  contact?: InsertContact;
+}
+
+export interface ImportAnalysis {
+  results: ImportRowResult[];
+  summary: { total: number; valid: number; invalid: number; duplicate: number };
+  remainingContacts: number;
+}
+
+export interface ImportCommitResult {
+  imported: number;
+  rejected: ImportRowResult[];
+  errorReport: string | null; // CSV of rejected rows, ready for download
+}
+
+export const importableContactFields = [
+  'firstName', 'lastName', 'email', 'phone', 'company', 'position',
+  'source', 'tags', 'leadStatus', 'leadScore', 'notes'
+] as const;
+
+// Header spellings we recognise when suggesting a mapping (compared lowercased, alphanumerics only)
+const fieldAliases: Record<(typeof importableContactFields)[number], string[]> = {
+  firstName: ['firstname', 'first', 'givenname', 'namadepan'],
+  lastName: ['lastname', 'last', 'surname', 'familyname', 'namabelakang'],
+  email: ['email', 'emailaddress', 'mail'],
+  phone: ['phone', 'phonenumber', 'mobile', 'whatsapp', 'telephone', 'tel', 'hp', 'nohp'],
+  company: ['company', 'companyname', 'organization', 'organisation', 'perusahaan'],
+  position: ['position', 'title', 'jobtitle', 'role', 'jabatan'],
+  source: ['source', 'leadsource'],
+  tags: ['tags', 'tag', 'labels'],
+  leadStatus: ['status', 'leadstatus'],
+  leadScore: ['score', 'leadscore'],
+  notes: ['notes', 'note', 'comments', 'catatan'],
+};
+
+const emailSchema = z.string().email();
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+const splitList = (value: string) => value.split(/[,;]/).map(item => item.trim()).filter(Boolean);
+
+// A cell as shown in the spreadsheet; dates as YYYY-MM-DD
+const cellText = (cell: ExcelJS.Cell) => (cell.value instanceof Date ? cell.value.toISOString().slice(0, 10) : cell.text).trim();
+
+class ContactImportService {
+  // CSV and XLSX both go through ExcelJS; only the first sheet is read
+  async parseSpreadsheet(fileName: string, content: Buffer): Promise<{ headers: string[]; rows: ImportRow[] }> {
+    const workbook = new ExcelJS.Workbook();
+    if (fileName.toLowerCase().endsWith('.csv')) {
+      // CSV cells are kept as typed, so phone numbers keep their leading zeros
+      await workbook.csv.read(Readable.from(content), { map: (value: string) => value });
+    } else {
+      await workbook.xlsx.load(content);
+    }
+    const sheet = workbook.worksheets[0];
+    if (!sheet) {
+      return { headers: [], rows: [] };
+    }
+
+    const columns: { header: string; column: number }[] = [];
+    const rows: ImportRow[] = [];
+    // The first row that isn't empty holds the headers
+    let headerRead = false;
+    sheet.eachRow(row => {
+      if (!headerRead) {
+        headerRead = true;
+        row.eachCell((cell, column) => {
+          const header = cellText(cell);
+          if (header && !columns.some(existing => existing.header === header)) {
+            columns.push({ header, column });
+          }
+        });
+        return;
+      }
+      const values = columns.map(({ header, column }) => [header, cellText(row.getCell(column))]);
+      if (values.some(([, value]) => value)) {
+        rows.push(Object.fromEntries(values));
+      }
+    });
+
+    return { headers: columns.map(column => column.header), rows };
+  }
+
+  suggestMapping(headers: string[], definitions: CustomFieldDefinition[]): ColumnMapping {
+    const mapping: ColumnMapping = {};
+    const used = new Set<string>();
+
+    for (const header of headers) {
+      const normalized = normalizeHeader(header);
+      const field =
+        importableContactFields.find(candidate => fieldAliases[candidate].includes(normalized)) ??
+        definitions
+          .filter(definition => normalizeHeader(definition.key) === normalized || normalizeHeader(definition.label) === normalized)
+          .map(definition => `custom.${definition.key}`)[0];
+
+      if (field && !used.has(field)) {
+        mapping[header] = field;
+        used.add(field);
+      } else {
+        mapping[header] = '';
+      }
+    }
+
+    return mapping;
+  }
+
+  async analyzeImport(organizationId: number, rows: ImportRow[], mapping: ColumnMapping): Promise<ImportAnalysis> {
+    const [existingContacts, definitions, organization] = await Promise.all([
+      storage.getAllContacts(organizationId),
+      storage.getCustomFieldDefinitions(organizationId, 'contact'),
+      storage.getOrganization(organizationId),
+    ]);
+    const customFieldsSchema = buildCustomFieldsSchema(definitions);
+
+    const knownEmails = new Map<string, number | undefined>();
+    const knownPhones = new Map<string, number | undefined>();
+    for (const contact of existingContacts) {
+      const { email, phone } = this.duplicateKeys(contact);
+      if (email) knownEmails.set(email, contact.id);
+      if (phone) knownPhones.set(phone, contact.id);
+    }
+
+    const results = rows.map((row, index): ImportRowResult => {
+      const rowNumber = index + 1;
+      const { values, customFields } = this.mapRow(row, mapping, definitions);
+      const errors: string[] = [];
+
+      const parsed = insertContactSchema.safeParse(values);
+      if (!parsed.success) {
+        errors.push(...parsed.error.errors.map(error => `${error.path.join('.') || 'row'}: ${error.message}`));
+      }
+      if (typeof values.email === 'string' && !emailSchema.safeParse(values.email).success) {
+        errors.push('email: Invalid email address');
+      }
+      const parsedCustomFields = customFieldsSchema.safeParse(customFields);
+      if (!parsedCustomFields.success) {
+        errors.push(...parsedCustomFields.error.errors.map(error => `custom.${error.path.join('.')}: ${error.message}`));
+      }
+
+      if (errors.length > 0 || !parsed.success || !parsedCustomFields.success) {
+        return { rowNumber, status: 'invalid', errors };
+      }
+
+      const contact: InsertContact = { ...parsed.data, customFields: parsedCustomFields.data };
+      const { email, phone } = this.duplicateKeys(contact);
+      const emailMatch = email !== undefined && knownEmails.has(email);
+      const phoneMatch = phone !== undefined && knownPhones.has(phone);
+
+      if (emailMatch || phoneMatch) {
+        return {
+          rowNumber,
+          status: 'duplicate',
+          errors: [emailMatch ? `Duplicate email ${email}` : `Duplicate phone ${contact.phone}`],
+          duplicateOfContactId: emailMatch ? knownEmails.get(email!) : knownPhones.get(phone!),
+          contact,
+        };
+      }
+
+      // Later rows in the same file are checked against this one
+      if (email) knownEmails.set(email, undefined);
+      if (phone) knownPhones.set(phone, undefined);
+
+      return { rowNumber, status: 'valid', errors: [], contact };
+    });
+
+    const remainingContacts = Math.max((organization?.maxContacts ?? 0) - existingContacts.length, 0);
+    const count = (status: ImportRowResult['status']) => results.filter(result => result.status === status).length;
+
+    return {
+      results,
+      summary: { total: results.length, valid: count('valid'), invalid: count('invalid'), duplicate: count('duplicate') },
+      remainingContacts,
+    };
+  }
+
+  // Re-validates on the server rather than trusting the preview the client saw
+  async commitImport(organizationId: number, userId: string, rows: ImportRow[], mapping: ColumnMapping): Promise<ImportCommitResult> {
+    const { results, remainingContacts } = await this.analyzeImport(organizationId, rows, mapping);
+
+    const accepted: ImportRowResult[] = [];
+    const rejected: ImportRowResult[] = [];
+    for (const result of results) {
+      if (result.status !== 'valid') {
+        rejected.push(result);
+      } else if (accepted.length >= remainingContacts) {
+        rejected.push({ ...result, status: 'invalid', errors: ['Contact limit reached for your plan'] });
+      } else {
+        accepted.push(result);
+      }
+    }
+
+    let imported = 0;
+    for (let start = 0; start < accepted.length; start += IMPORT_BATCH_SIZE) {
+      const batch = accepted
+        .slice(start, start + IMPORT_BATCH_SIZE)
+        .map(result => ({ ...result.contact!, createdBy: userId }));
+      imported += (await storage.createContacts(organizationId, batch)).length;
+    }
+
+    rejected.sort((a, b) => a.rowNumber - b.rowNumber);
+
+    return {
+      imported,
+      rejected: rejected.map(({ contact, ...result }) => result),
+      errorReport: rejected.length > 0 ? this.buildErrorReport(rows, rejected) : null,
+    };
+  }
+
+  // The original columns of each rejected row, followed by why it was rejected
+  buildErrorReport(rows: ImportRow[], rejected: ImportRowResult[]): string {
+    const reportRows = rejected.map(result => ({
+      Row: result.rowNumber,
+      ...rows[result.rowNumber - 1],
+      'Import Status': result.status,
+      'Import Errors': result.errors.join('; '),
+    }));
+    const headers = Array.from(new Set(reportRows.flatMap(row => Object.keys(row))));
+    return [headers, ...reportRows.map(row => headers.map(header => (row as Record<string, string | number>)[header] ?? null))]
+      .map(cells => cells.map(escapeCsvCell).join(','))
+      .join('\n');
+  }
+
+  private mapRow(row: ImportRow, mapping: ColumnMapping, definitions: CustomFieldDefinition[]) {
+    const values: Record<string, unknown> = {};
+    const customFields: CustomFieldValues = {};
+
+    for (const [header, target] of Object.entries(mapping)) {
+      const raw = String(row[header] ?? '').trim();
+      if (!target || raw === '') continue;
+
+      if (target.startsWith('custom.')) {
+        const definition = definitions.find(candidate => candidate.key === target.slice('custom.'.length));
+        if (definition) {
+          customFields[definition.key] = this.coerceCustomValue(raw, definition);
+        }
+      } else if (target === 'tags') {
+        values.tags = splitList(raw);
+      } else if (target === 'leadScore') {
+        values.leadScore = Number(raw);
+      } else if (target === 'leadStatus') {
+        values.leadStatus = raw.toLowerCase();
+      } else if ((importableContactFields as readonly string[]).includes(target)) {
+        values[target] = target === 'email' ? raw.toLowerCase() : raw;
+      }
+    }
+
+    return { values, customFields };
+  }
+
+  // Spreadsheet cells arrive as text; the custom field schema then checks the result
+  private coerceCustomValue(raw: string, definition: CustomFieldDefinition): string | number | boolean | string[] {
+    switch (definition.fieldType) {
+      case 'number': {
+        const value = Number(raw.replace(/,/g, ''));
+        return Number.isNaN(value) ? raw : value;
+      }
+      case 'boolean':
+        if (/^(true|yes|y|1|ya)$/i.test(raw)) return true;
+        if (/^(false|no|n|0|tidak)$/i.test(raw)) return false;
+        return raw;
+      case 'multi-select':
+        return splitList(raw);
+      case 'date': {
+        if (/^\d{4}-\d{2}-\d{2}$/.test(raw)) return raw;
+        // Spreadsheet dates are calendar days, so read them back in local time rather than UTC
+        const date = new Date(raw);
+        if (Number.isNaN(date.getTime())) return raw;
+        const pad = (part: number) => String(part).padStart(2, '0');
+        return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+      }
+      default:
+        return raw;
+    }
+  }
+
+  private duplicateKeys(contact: Pick<Contact, 'email' | 'phone'> | InsertContact) {
+    return { email: normalizeEmail(contact.email), phone: normalizePhone(contact.phone) };
+  }
+}
+
+export const contactImportService = new ContactImportService();
@@ -2,6 +2,8 @@ import { createRequire } from 'module';
 const require = createRequire(import.meta.url);
 const mailgun = require('mailgun-js');
 import type { Contact } from '@shared/schema';
+import { emailTrackingService, type TrackEmailOptions } from './email-tracking';
+import { consentService } from './consent-service';
 
 if (!process.env.MAILGUN_SECRET || !process.env.MAILGUN_DOMAIN) {
   throw new Error("MAILGUN_SECRET and MAILGUN_DOMAIN environment variables must be set");
@@ -56,15 +58,31 @@ class EmailService {
   private fromEmail = process.env.MAIL_FROM_ADDRESS || 'no-reply@mediawave.co.id';
   private fromName = process.env.MAIL_FROM_NAME || 'CRMWIZH';
 
+  // The address system emails go out from
+  sender(): { email: string; name: string } {
+    return { email: this.fromEmail, name: this.fromName };
+  }
+
   async sendSingleEmail(params: {
+    organizationId: number; // whose suppression list the address is checked against
     to: string;
     toName?: string;
     subject: string;
     htmlContent: string;
     textContent?: string;
     templateVariables?: Record<string, string>;
+    attachments?: { filename: string; data: Buffer; contentType: string }[];
+    track?: TrackEmailOptions; // log the email and track opens, clicks and delivery
   }): Promise<boolean> {
+    let tracked: Awaited<ReturnType<typeof emailTrackingService.prepare>> | null = null;
     try {
+      // No email goes to an address on the organization's suppression list,
+      // whether or not it's logged
+      if (await consentService.isSuppressed(params.organizationId, 'email', params.to)) {
+        console.log(`Skipping email to suppressed address ${params.to}`);
+        return false;
+      }
+
       let processedHtml = params.htmlContent;
       let processedSubject = params.subject;
       
@@ -77,23 +95,66 @@ class EmailService {
         });
       }
 
+      // Mailgun's own tracking is off for logged emails; the plain-text part
+      // is taken from the HTML before its links are rewritten
+      let text = params.textContent || this.stripHtml(processedHtml);
+      if (params.track) {
+        tracked = await emailTrackingService.prepare(params.track, {
+          to: params.to,
+          subject: processedSubject,
+          html: processedHtml,
+        });
+      }
+      const unsubscribe = tracked ? emailTrackingService.unsubscribeUrls(tracked.message) : null;
+      if (unsubscribe) {
+        text += `\n\nUnsubscribe or manage your preferences: ${unsubscribe.preferences}`;
+      }
+
       const data = {
         from: `${this.fromName} <${this.fromEmail}>`,
         to: params.toName ? `${params.toName} <${params.to}>` : params.to,
         subject: processedSubject,
-        html: processedHtml,
-        text: params.textContent || this.stripHtml(processedHtml),
+        html: tracked ? tracked.html : processedHtml,
+        text,
+        ...(params.attachments?.length
+          ? { attachment: params.attachments.map(attachment => new mg.Attachment(attachment)) }
+          : {}),
+        ...(tracked
+          ? {
+              'o:tracking': 'no',
+              'v:organization-id': String(tracked.message.organizationId),
+              'v:email-message-id': String(tracked.message.id),
+            }
+          : {}),
+        ...(unsubscribe
+          ? {
+              'h:List-Unsubscribe': `<${unsubscribe.oneClick}>`,
+              'h:List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+            }
+          : {}),
       };
 
-      await mg.messages().send(data);
+      const response = await mg.messages().send(data);
+      if (tracked) {
+        await emailTrackingService.markSent(tracked.message, response?.id ?? null);
+      }
       return true;
     } catch (error) {
       console.error('Mailgun email error:', error);
+      if (tracked) {
+        await emailTrackingService.markFailed(tracked.message, error).catch(logError => {
+          console.error('Failed to log email failure:', logError);
+        });
+      }
       return false;
     }
   }
 
-  async sendFollowUpEmail(contact: Contact, customMessage?: string): Promise<boolean> {
+  async sendFollowUpEmail(contact: Contact, customMessage?: string, createdBy?: string): Promise<boolean> {
+    if (!await consentService.canContact(contact, 'email')) {
+      return false;
+    }
+
     const templateVariables = {
       firstName: contact.firstName,
       lastName: contact.lastName,
@@ -125,15 +186,21 @@ class EmailService {
     `;
 
     return await this.sendSingleEmail({
+      organizationId: contact.organizationId,
       to: contact.email,
       toName: `${contact.firstName} ${contact.lastName}`,
       subject,
       htmlContent,
-      templateVariables
+      templateVariables,
+      track: { organizationId: contact.organizationId, contactId: contact.id, source: 'follow_up', createdBy },
     });
   }
 
-  async sendWelcomeEmail(contact: Contact): Promise<boolean> {
+  async sendWelcomeEmail(contact: Contact, createdBy?: string): Promise<boolean> {
+    if (!await consentService.canContact(contact, 'email')) {
+      return false;
+    }
+
     const templateVariables = {
       firstName: contact.firstName,
       lastName: contact.lastName,
@@ -170,11 +237,13 @@ class EmailService {
     `;
 
     return await this.sendSingleEmail({
+      organizationId: contact.organizationId,
       to: contact.email,
       toName: `${contact.firstName} ${contact.lastName}`,
       subject,
       htmlContent,
-      templateVariables
+      templateVariables,
+      track: { organizationId: contact.organizationId, contactId: contact.id, source: 'welcome', createdBy },
     });
   }
 
@@ -183,11 +252,17 @@ class EmailService {
     subject: string;
     htmlContent: string;
     textContent?: string;
-  }): Promise<{ sent: number; failed: number }> {
+    createdBy?: string;
+  }): Promise<{ sent: number; failed: number; suppressed: number }> {
     let sent = 0;
     let failed = 0;
 
-    for (const contact of campaign.contacts) {
+    // Contacts that opted out of email or whose address is suppressed are skipped
+    const { allowed, blocked } = campaign.contacts.length > 0
+      ? await consentService.partition(campaign.contacts[0].organizationId, 'email', campaign.contacts)
+      : { allowed: [], blocked: [] };
+
+    for (const contact of allowed) {
       const templateVariables = {
         firstName: contact.firstName,
         lastName: contact.lastName,
@@ -197,12 +272,14 @@ class EmailService {
       };
 
       const success = await this.sendSingleEmail({
+        organizationId: contact.organizationId,
         to: contact.email,
         toName: `${contact.firstName} ${contact.lastName}`,
         subject: campaign.subject,
         htmlContent: campaign.htmlContent,
         textContent: campaign.textContent,
-        templateVariables
+        templateVariables,
+        track: { organizationId: contact.organizationId, contactId: contact.id, source: 'bulk', createdBy: campaign.createdBy },
       });
 
       if (success) {
@@ -215,7 +292,7 @@ class EmailService {
       await new Promise(resolve => setTimeout(resolve, 100));
     }
 
-    return { sent, failed };
+    return { sent, failed, suppressed: blocked.length };
   }
 
   private stripHtml(html: string): string {
@@ -0,0 +1,332 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import type {
+  EmailEngagement, EmailMessage, EmailMessageSource, EmailMessageStatus, InsertCampaignSend, InsertEmailMessage
+} from '@shared/schema';
+import { storage } from './storage';
+import { consentService } from './consent-service';
+
+export type TrackingEvent = Exclude<EmailMessageStatus, 'sent' | 'failed' | 'received'>;
+
+export interface TrackEmailOptions {
+  organizationId: number;
+  source: EmailMessageSource;
+  contactId?: number | null;
+  campaignSendId?: number | null;
+  createdBy?: string | null;
+}
+
+// Mailgun's signed webhook body; only the fields used here are typed
+export interface MailgunWebhookPayload {
+  signature?: { timestamp?: string; token?: string; signature?: string };
+  'event-data'?: {
+    event?: string;
+    severity?: 'permanent' | 'temporary';
+    timestamp?: number;
+    'user-variables'?: Record<string, string>;
+    message?: { headers?: { 'message-id'?: string } };
+    'delivery-status'?: { message?: string; description?: string };
+  };
+}
+
+// Statuses only move forward, so a late delivered event can't hide an open
+const statusRank: Record<EmailMessageStatus, number> = {
+  failed: 0,
+  sent: 1,
+  received: 1,
+  delivered: 2,
+  opened: 3,
+  clicked: 4,
+  unsubscribed: 5,
+  complained: 6,
+  bounced: 7,
+};
+
+// Marketing emails carry an unsubscribe link and List-Unsubscribe headers;
+// quotes are sent on request and don't
+const MARKETING_SOURCES: EmailMessageSource[] = ['campaign', 'bulk', 'follow_up', 'welcome'];
+
+// Webhooks older than this are refused so a captured request can't be replayed
+const WEBHOOK_MAX_AGE_SECONDS = 15 * 60;
+
+export const TRACKING_PIXEL = Buffer.from('R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7', 'base64');
+
+class EmailTrackingService {
+  // Links and the pixel point back at this app, as do booking links in
+  // campaigns; without a public address emails go out untracked
+  baseUrl(): string | null {
+    if (process.env.APP_BASE_URL) {
+      return process.env.APP_BASE_URL.replace(/\/+$/, '');
+    }
+    const domain = process.env.REPLIT_DOMAINS?.split(',')[0]?.trim();
+    return domain ? `https://${domain}` : null;
+  }
+
+  // Rewrites every http(s) link to a click link and appends the open pixel,
+  // then the unsubscribe footer for marketing emails. Returns the original
+  // URLs in link order; click links only carry their index, so they can
+  // never redirect anywhere the email didn't link to.
+  private instrument(html: string, token: string, marketing: boolean): { html: string; links: string[] } {
+    const baseUrl = this.baseUrl();
+    if (!baseUrl) {
+      return { html, links: [] };
+    }
+
+    const links: string[] = [];
+    const rewritten = html.replace(/href=(["'])(https?:\/\/[^"']+)\1/gi, (_match, quote: string, url: string) => {
+      links.push(url.replace(/&amp;/g, '&'));
+      return `href=${quote}${baseUrl}/api/email/t/${token}/c/${links.length - 1}${quote}`;
+    });
+
+    const preferencesUrl = `${baseUrl}/preferences/${token}`;
+    const footer = marketing
+      ? `<p style="font-family: Arial, sans-serif; font-size: 12px; color: #666; text-align: center; margin-top: 30px;">` +
+        `Don't want these emails? <a href="${preferencesUrl}?unsubscribe=email" style="color: #666;">Unsubscribe</a>` +
+        ` or <a href="${preferencesUrl}" style="color: #666;">manage your preferences</a>.</p>`
+      : '';
+    const pixel = `<img src="${baseUrl}/api/email/t/${token}/o.gif" width="1" height="1" alt="" style="display:none" />`;
+    const tracked = /<\/body>/i.test(rewritten)
+      ? rewritten.replace(/<\/body>/i, `${footer}${pixel}</body>`)
+      : rewritten + footer + pixel;
+    return { html: tracked, links };
+  }
+
+  // Where the one-click unsubscribe (RFC 8058) and preference center are for
+  // a logged marketing email, or null when it has neither
+  unsubscribeUrls(message: EmailMessage): { oneClick: string; preferences: string } | null {
+    const baseUrl = this.baseUrl();
+    if (!baseUrl || !MARKETING_SOURCES.includes(message.source as EmailMessageSource)) {
+      return null;
+    }
+    return {
+      oneClick: `${baseUrl}/api/email/t/${message.trackingToken}/unsubscribe`,
+      preferences: `${baseUrl}/preferences/${message.trackingToken}`,
+    };
+  }
+
+  // Logs an email about to be sent and returns it with the HTML to send.
+  // Emails sent from a user's mailbox also pass their threading headers.
+  async prepare(
+    options: TrackEmailOptions,
+    email: { to: string; subject: string; html: string },
+    mailboxFields: Pick<InsertEmailMessage, 'mailboxId' | 'fromEmail' | 'body' | 'messageIdHeader' | 'inReplyTo' | 'threadId'> = {}
+  ): Promise<{ message: EmailMessage; html: string }> {
+    const trackingToken = randomBytes(24).toString('hex');
+    const { html, links } = this.instrument(email.html, trackingToken, MARKETING_SOURCES.includes(options.source));
+    const message = await storage.createEmailMessage(options.organizationId, {
+      contactId: options.contactId ?? null,
+      campaignSendId: options.campaignSendId ?? null,
+      source: options.source,
+      toEmail: email.to,
+      subject: email.subject,
+      trackingToken,
+      links,
+      createdBy: options.createdBy ?? null,
+      ...mailboxFields,
+    });
+    return { message, html };
+  }
+
+  async markSent(message: EmailMessage, providerMessageId: string | null): Promise<void> {
+    await storage.updateEmailMessage(message.organizationId, message.id, {
+      providerMessageId: providerMessageId?.replace(/^<|>$/g, '') || null,
+    });
+    await this.refreshContact(message);
+  }
+
+  async markFailed(message: EmailMessage, error: unknown): Promise<void> {
+    await storage.updateEmailMessage(message.organizationId, message.id, {
+      status: 'failed',
+      errorMessage: error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  async recordOpen(token: string): Promise<void> {
+    const message = await storage.getEmailMessageByToken(token);
+    if (message && message.status !== 'failed') {
+      await this.record(message, 'opened');
+    }
+  }
+
+  // Returns the URL to redirect to, or null for an unknown token or link
+  async recordClick(token: string, index: number): Promise<string | null> {
+    const message = await storage.getEmailMessageByToken(token);
+    const url = message?.links[index];
+    if (!message || !url) {
+      return null;
+    }
+    if (message.status !== 'failed') {
+      await this.record(message, 'clicked');
+    }
+    return url;
+  }
+
+  // Unsubscribes the email's recipient from email: the contact opts out, or
+  // the address is suppressed when the email wasn't sent to a contact
+  async unsubscribe(message: EmailMessage, source: string): Promise<void> {
+    const contact = message.contactId ? await storage.getContact(message.organizationId, message.contactId) : undefined;
+    if (contact) {
+      await consentService.setConsent(contact, 'email', 'opted_out', { source });
+    } else {
+      await consentService.suppress(message.organizationId, 'email', message.toEmail, 'unsubscribed', { source });
+    }
+    await this.record(message, 'unsubscribed');
+  }
+
+  // Applies an event to the message, the campaign send it belongs to and
+  // the contact's engagement. First-event timestamps are kept; a click
+  // counts as an open and an open as a delivery.
+  async record(
+    message: EmailMessage,
+    event: TrackingEvent,
+    at: Date = new Date(),
+    details: Pick<InsertEmailMessage, 'errorMessage'> = {}
+  ): Promise<void> {
+    const update: Partial<InsertEmailMessage> = { ...details };
+    if (statusRank[event] > statusRank[message.status as EmailMessageStatus]) {
+      update.status = event;
+    }
+
+    const opened = event === 'opened' || event === 'clicked';
+    if ((event === 'delivered' || opened) && !message.deliveredAt) update.deliveredAt = at;
+    if (opened && !message.openedAt) update.openedAt = at;
+    if (event === 'opened') update.openCount = message.openCount + 1;
+    if (event === 'clicked') {
+      update.clickCount = message.clickCount + 1;
+      if (!message.clickedAt) update.clickedAt = at;
+      if (!message.openedAt) update.openCount = message.openCount + 1;
+    }
+    if (event === 'bounced' && !message.bouncedAt) update.bouncedAt = at;
+    if (event === 'complained' && !message.complainedAt) update.complainedAt = at;
+    if (event === 'unsubscribed' && !message.unsubscribedAt) update.unsubscribedAt = at;
+
+    if (Object.keys(update).length === 0) {
+      return;
+    }
+    await storage.updateEmailMessage(message.organizationId, message.id, update);
+
+    // Campaign sends have no complaint column; a complaint ends the contact's
+    // emails just like an unsubscribe does
+    if (message.campaignSendId) {
+      const sendUpdate: Partial<InsertCampaignSend> = {};
+      if (update.deliveredAt) sendUpdate.deliveredAt = update.deliveredAt;
+      if (update.openedAt) sendUpdate.openedAt = update.openedAt;
+      if (update.clickedAt) sendUpdate.clickedAt = update.clickedAt;
+      if (update.bouncedAt) sendUpdate.bouncedAt = update.bouncedAt;
+      if (update.unsubscribedAt || update.complainedAt) {
+        sendUpdate.unsubscribedAt = update.unsubscribedAt ?? update.complainedAt;
+      }
+      if (Object.keys(sendUpdate).length > 0) {
+        await storage.updateCampaignSend(message.organizationId, message.campaignSendId, sendUpdate);
+      }
+    }
+
+    await this.refreshContact(message);
+  }
+
+  private async refreshContact(message: EmailMessage): Promise<void> {
+    if (message.contactId) {
+      await this.refreshEngagement(message.organizationId, message.contactId);
+    }
+  }
+
+  // Recomputes the contact's engagement from every email sent to it from
+  // here. Emails synced from a mailbox aren't tracked, so they don't count.
+  async refreshEngagement(organizationId: number, contactId: number): Promise<EmailEngagement> {
+    const messages = (await storage.getContactEmailMessages(organizationId, contactId))
+      .filter(message => message.status !== 'failed' && message.source !== 'synced');
+    const count = (field: 'deliveredAt' | 'openedAt' | 'clickedAt' | 'bouncedAt' | 'complainedAt') =>
+      messages.filter(message => message[field] !== null).length;
+    const latest = (field: 'openedAt' | 'clickedAt') => {
+      const times = messages.flatMap(message => message[field] ? [message[field]!.getTime()] : []);
+      return times.length > 0 ? new Date(Math.max(...times)).toISOString() : null;
+    };
+
+    const engagement: EmailEngagement = {
+      sent: messages.length,
+      delivered: count('deliveredAt'),
+      opened: count('openedAt'),
+      clicked: count('clickedAt'),
+      bounced: count('bouncedAt'),
+      complained: count('complainedAt'),
+      lastOpenedAt: latest('openedAt'),
+      lastClickedAt: latest('clickedAt'),
+    };
+    await storage.updateContactEmailEngagement(organizationId, contactId, engagement);
+    return engagement;
+  }
+
+  // HMAC-SHA256 of timestamp + token with the webhook signing key
+  verifyMailgunSignature(signature: MailgunWebhookPayload['signature']): boolean {
+    const signingKey = process.env.MAILGUN_WEBHOOK_SIGNING_KEY;
+    if (!signingKey || !signature?.timestamp || !signature.token || !signature.signature) {
+      return false;
+    }
+
+    const age = Math.abs(Date.now() / 1000 - Number(signature.timestamp));
+    if (!Number.isFinite(age) || age > WEBHOOK_MAX_AGE_SECONDS) {
+      return false;
+    }
+
+    const expected = createHmac('sha256', signingKey).update(signature.timestamp + signature.token).digest('hex');
+    const received = Buffer.from(signature.signature, 'utf8');
+    return received.length === expected.length && timingSafeEqual(received, Buffer.from(expected, 'utf8'));
+  }
+
+  // Applies a verified Mailgun event. Messages are matched by the id sent
+  // along as user variables, falling back to Mailgun's message id.
+  async handleMailgunEvent(payload: MailgunWebhookPayload): Promise<{ event: string; applied: boolean }> {
+    const eventData = payload['event-data'] ?? {};
+    const name = eventData.event ?? 'unknown';
+
+    let event: TrackingEvent | null = null;
+    if (name === 'delivered' || name === 'complained' || name === 'unsubscribed') {
+      event = name;
+    } else if (name === 'failed' && eventData.severity === 'permanent') {
+      event = 'bounced';
+    }
+    // Temporary failures are retried by Mailgun and end in another event
+    if (!event) {
+      return { event: name, applied: false };
+    }
+
+    const variables = eventData['user-variables'] ?? {};
+    const organizationId = parseInt(variables['organization-id']);
+    const messageId = parseInt(variables['email-message-id']);
+    const providerMessageId = eventData.message?.headers?.['message-id'];
+    const message = !isNaN(organizationId) && !isNaN(messageId)
+      ? await storage.getEmailMessage(organizationId, messageId)
+      : providerMessageId
+        ? await storage.getEmailMessageByProviderId(providerMessageId)
+        : undefined;
+    if (!message) {
+      return { event: name, applied: false };
+    }
+
+    const at = eventData.timestamp ? new Date(eventData.timestamp * 1000) : new Date();
+    // Complaints and unsubscribes opt the contact out of email, bounces
+    // suppress the address
+    if (event === 'unsubscribed' || event === 'complained') {
+      const contact = message.contactId ? await storage.getContact(message.organizationId, message.contactId) : undefined;
+      const source = event === 'complained' ? 'spam_complaint' : 'mailgun';
+      const reason = event === 'complained' ? 'complained' : 'unsubscribed';
+      if (contact) {
+        await consentService.setConsent(contact, 'email', 'opted_out', { source, reason });
+      } else {
+        await consentService.suppress(message.organizationId, 'email', message.toEmail, reason, { source });
+      }
+    } else if (event === 'bounced') {
+      await consentService.suppress(message.organizationId, 'email', message.toEmail, 'bounced', {
+        contactId: message.contactId,
+        source: 'mailgun',
+      });
+    }
+
+    const deliveryStatus = eventData['delivery-status'];
+    await this.record(message, event, at, event === 'bounced'
+      ? { errorMessage: deliveryStatus?.description || deliveryStatus?.message || 'Bounced' }
+      : {});
+    return { event: name, applied: true };
+  }
+}
+
+export const emailTrackingService = new EmailTrackingService();
@@ -0,0 +1,190 @@
+import type { DealWithStage, ForecastCategory, User } from '@shared/schema';
+
+export const forecastPeriods = ['month', 'quarter'] as const;
+export type ForecastPeriod = (typeof forecastPeriods)[number];
+
+// Amounts for one period or one owner. The categories are cumulative, the way
+// forecast calls read them: commit is in best case, and both are in pipeline.
+export interface ForecastAmounts {
+  closedWon: number;
+  commit: number;
+  bestCase: number;
+  pipeline: number;
+  weighted: number;
+  // What the team is calling for the period: won so far plus committed deals
+  forecast: number;
+  openDeals: number;
+  wonDeals: number;
+}
+
+export interface ForecastPeriodRow extends ForecastAmounts {
+  label: string;
+  start: string;
+  end: string;
+  // Periods that have ended compare the call against what actually closed
+  isPast: boolean;
+}
+
+export interface ForecastOwnerRow extends ForecastAmounts {
+  ownerId: string | null;
+  name: string;
+}
+
+export interface Forecast {
+  period: ForecastPeriod;
+  periods: ForecastPeriodRow[];
+  owners: ForecastOwnerRow[];
+  totals: ForecastAmounts;
+}
+
+export interface OwnerRevenue {
+  ownerId: string | null;
+  name: string;
+  revenue: number;
+  deals: number;
+}
+
+interface ForecastOptions {
+  period: ForecastPeriod;
+  from: Date;
+  count: number;
+  now?: Date;
+}
+
+const emptyAmounts = (): ForecastAmounts => ({
+  closedWon: 0,
+  commit: 0,
+  bestCase: 0,
+  pipeline: 0,
+  weighted: 0,
+  forecast: 0,
+  openDeals: 0,
+  wonDeals: 0,
+});
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const monthsPerPeriod: Record<ForecastPeriod, number> = { month: 1, quarter: 3 };
+
+class ForecastService {
+  // First day of the period containing `date`, in UTC
+  startOfPeriod(date: Date, period: ForecastPeriod): Date {
+    const months = monthsPerPeriod[period];
+    const month = Math.floor(date.getUTCMonth() / months) * months;
+    return new Date(Date.UTC(date.getUTCFullYear(), month, 1));
+  }
+
+  addPeriods(date: Date, period: ForecastPeriod, count: number): Date {
+    return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + monthsPerPeriod[period] * count, 1));
+  }
+
+  // Open deals count in the period of their expected close date; won deals in
+  // the period they actually closed. Lost deals are left out.
+  buildForecast(deals: DealWithStage[], users: User[], options: ForecastOptions): Forecast {
+    const { period, count, now = new Date() } = options;
+    const from = this.startOfPeriod(options.from, period);
+    const boundaries = Array.from({ length: count + 1 }, (_, index) => this.addPeriods(from, period, index));
+
+    const periods: ForecastPeriodRow[] = boundaries.slice(0, -1).map((start, index) => ({
+      label: this.label(start, period),
+      start: start.toISOString(),
+      end: boundaries[index + 1].toISOString(),
+      isPast: boundaries[index + 1] <= now,
+      ...emptyAmounts(),
+    }));
+    const owners = new Map<string | null, ForecastOwnerRow>();
+    const totals = emptyAmounts();
+
+    const periodIndex = (date: Date | null) => {
+      if (!date) return -1;
+      const time = new Date(date).getTime();
+      return boundaries.findIndex((boundary, index) =>
+        index < count && time >= boundary.getTime() && time < boundaries[index + 1].getTime()
+      );
+    };
+
+    for (const deal of deals) {
+      const outcome = deal.stage?.outcome ?? 'open';
+      if (outcome === 'lost') continue;
+
+      const index = periodIndex(outcome === 'won' ? deal.actualCloseDate : deal.expectedCloseDate);
+      if (index === -1) continue;
+
+      const owner = owners.get(deal.ownerId) ?? { ownerId: deal.ownerId, name: this.ownerName(deal.ownerId, users), ...emptyAmounts() };
+      owners.set(deal.ownerId, owner);
+
+      for (const amounts of [periods[index], owner, totals]) {
+        this.addDeal(amounts, deal, outcome === 'won');
+      }
+    }
+
+    return {
+      period,
+      periods: periods.map(row => this.rounded(row)),
+      owners: Array.from(owners.values()).map(row => this.rounded(row)).sort((a, b) => b.forecast - a.forecast),
+      totals: this.rounded(totals),
+    };
+  }
+
+  // Won deal value attributed to each deal's owner, largest first
+  revenueByOwner(wonDeals: DealWithStage[], users: User[]): OwnerRevenue[] {
+    const owners = new Map<string | null, OwnerRevenue>();
+    for (const deal of wonDeals) {
+      const owner = owners.get(deal.ownerId) ?? { ownerId: deal.ownerId, name: this.ownerName(deal.ownerId, users), revenue: 0, deals: 0 };
+      owner.revenue += parseFloat(deal.value || '0') || 0;
+      owner.deals += 1;
+      owners.set(deal.ownerId, owner);
+    }
+    return Array.from(owners.values())
+      .map(owner => ({ ...owner, revenue: round2(owner.revenue) }))
+      .sort((a, b) => b.revenue - a.revenue);
+  }
+
+  private addDeal(amounts: ForecastAmounts, deal: DealWithStage, won: boolean) {
+    const value = parseFloat(deal.value || '0') || 0;
+
+    if (won) {
+      amounts.closedWon += value;
+      amounts.forecast += value;
+      amounts.wonDeals += 1;
+      return;
+    }
+
+    const category = deal.forecastCategory as ForecastCategory;
+    amounts.openDeals += 1;
+    amounts.pipeline += value;
+    amounts.weighted += (value * (deal.probability ?? 0)) / 100;
+    if (category === 'commit' || category === 'best_case') amounts.bestCase += value;
+    if (category === 'commit') {
+      amounts.commit += value;
+      amounts.forecast += value;
+    }
+  }
+
+  private rounded<T extends ForecastAmounts>(row: T): T {
+    return {
+      ...row,
+      closedWon: round2(row.closedWon),
+      commit: round2(row.commit),
+      bestCase: round2(row.bestCase),
+      pipeline: round2(row.pipeline),
+      weighted: round2(row.weighted),
+      forecast: round2(row.forecast),
+    };
+  }
+
+  private label(start: Date, period: ForecastPeriod): string {
+    if (period === 'quarter') {
+      return `Q${Math.floor(start.getUTCMonth() / 3) + 1} ${start.getUTCFullYear()}`;
+    }
+    return start.toLocaleString('en-US', { month: 'short', year: 'numeric', timeZone: 'UTC' });
+  }
+
+  private ownerName(ownerId: string | null, users: User[]): string {
+    const user = users.find(candidate => candidate.id === ownerId);
+    if (!user) return 'Unassigned';
+    return `${user.firstName ?? ''} ${user.lastName ?? ''}`.trim() || user.email || 'Unknown user';
+  }
+}
+
+export const forecastService = new ForecastService();
@@ -0,0 +1,291 @@
+import type { CalendarEvent } from '@shared/schema';
+import { isValidTimeZone, wallTimeToUtc } from '@shared/availability';
+
+// Writes and reads the parts of iCalendar (RFC 5545) that meetings need.
+// Invitations carry a METHOD (RFC 5546): REQUEST for a new or changed
+// meeting, CANCEL for a cancelled one. Feeds use PUBLISH, and calendars
+// stored over CalDAV have no METHOD at all.
+//
+// Reading is limited to what blocks time: when each event starts and ends.
+
+export type IcsMethod = 'REQUEST' | 'CANCEL' | 'PUBLISH';
+
+export interface IcsPerson {
+  email: string;
+  name?: string;
+}
+
+export interface IcsAttendee extends IcsPerson {
+  response: 'pending' | 'accepted' | 'declined';
+}
+
+export interface IcsEvent {
+  uid: string;
+  sequence: number;
+  start: Date;
+  end: Date;
+  summary: string;
+  description?: string | null;
+  location?: string | null;
+  url?: string | null;
+  status: 'CONFIRMED' | 'CANCELLED';
+  organizer?: IcsPerson;
+  attendees?: IcsAttendee[];
+  updatedAt?: Date;
+}
+
+// An event read back from a calendar
+export interface IcsBusyTime {
+  uid: string;
+  start: Date;
+  end: Date;
+}
+
+const PRODID = '-//CRMWIZH//Meetings//EN';
+const MAX_LINE_OCTETS = 75;
+
+const partstat: Record<IcsAttendee['response'], string> = {
+  pending: 'NEEDS-ACTION',
+  accepted: 'ACCEPTED',
+  declined: 'DECLINED',
+};
+
+const escapeText = (text: string) =>
+  text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+// Parameter values can't hold quotes, so names lose theirs
+const quoteParam = (value: string) => `"${value.replace(/"/g, '')}"`;
+
+const formatUtc = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+// Lines longer than 75 octets continue on the next line after a space,
+// never splitting a multi-byte character
+function fold(line: string): string {
+  if (Buffer.byteLength(line) <= MAX_LINE_OCTETS) return line;
+
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    // Continuation lines lose one octet to the leading space
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+const person = (property: 'ORGANIZER' | 'ATTENDEE', who: IcsPerson, params: string[] = []) =>
+  `${property}${who.name ? `;CN=${quoteParam(who.name)}` : ''}${params.map(param => `;${param}`).join('')}:mailto:${who.email}`;
+
+function eventLines(event: IcsEvent, method?: IcsMethod): string[] {
+  const stamp = formatUtc(event.updatedAt ?? new Date());
+  return [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `SEQUENCE:${event.sequence}`,
+    `DTSTAMP:${formatUtc(new Date())}`,
+    `LAST-MODIFIED:${stamp}`,
+    `DTSTART:${formatUtc(event.start)}`,
+    `DTEND:${formatUtc(event.end)}`,
+    `SUMMARY:${escapeText(event.summary)}`,
+    ...(event.description ? [`DESCRIPTION:${escapeText(event.description)}`] : []),
+    ...(event.location || event.url ? [`LOCATION:${escapeText(event.location || event.url!)}`] : []),
+    ...(event.url ? [`URL:${event.url}`] : []),
+    `STATUS:${event.status}`,
+    ...(event.organizer ? [person('ORGANIZER', event.organizer)] : []),
+    ...(event.attendees ?? []).map(attendee => person('ATTENDEE', attendee, [
+      'ROLE=REQ-PARTICIPANT',
+      `PARTSTAT=${partstat[attendee.response]}`,
+      // Only invitations ask for an answer
+      ...(method === 'REQUEST' ? ['RSVP=TRUE'] : []),
+    ])),
+    'END:VEVENT',
+  ];
+}
+
+// Meetings keep one UID for life, so each new version replaces the last in
+// the invitee's calendar. The domain marks UIDs as ours when calendars are
+// read back.
+const MEETING_UID_DOMAIN = 'meetings.crmwizh';
+
+export const meetingUid = (event: Pick<CalendarEvent, 'id' | 'organizationId'>) =>
+  `meeting-${event.organizationId}-${event.id}@${MEETING_UID_DOMAIN}`;
+
+export const isMeetingUid = (uid: string) => uid.endsWith(`@${MEETING_UID_DOMAIN}`);
+
+export function meetingToIcsEvent(event: CalendarEvent, organizer?: IcsPerson): IcsEvent {
+  return {
+    uid: meetingUid(event),
+    sequence: event.sequence,
+    start: event.startTime,
+    end: event.endTime,
+    summary: event.title,
+    description: event.description,
+    location: event.location,
+    url: event.meetingLink,
+    status: event.status === 'cancelled' ? 'CANCELLED' : 'CONFIRMED',
+    organizer,
+    attendees: event.attendees.map(attendee => ({ email: attendee.email, name: attendee.name, response: attendee.status })),
+    updatedAt: event.updatedAt,
+  };
+}
+
+// A VCALENDAR holding the events, with CRLF line endings as the RFC requires
+export function buildCalendar(events: IcsEvent[], options: { method?: IcsMethod; name?: string } = {}): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODID}`,
+    'CALSCALE:GREGORIAN',
+    ...(options.method ? [`METHOD:${options.method}`] : []),
+    ...(options.name ? [`X-WR-CALNAME:${escapeText(options.name)}`] : []),
+    ...events.flatMap(event => eventLines(event, options.method)),
+    'END:VCALENDAR',
+  ];
+  return lines.map(fold).join('\r\n') + '\r\n';
+}
+
+interface Property {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+// NAME;PARAM=value;PARAM="quoted: value":value
+function parseProperty(line: string): Property | null {
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    else if (line[i] === ':' && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon < 0) return null;
+
+  const [name, ...params] = line.slice(0, colon).split(/;(?=(?:[^"]*"[^"]*")*[^"]*$)/);
+  return {
+    name: name.toUpperCase(),
+    params: Object.fromEntries(params.map(param => {
+      const [key, ...value] = param.split('=');
+      return [key.toUpperCase(), value.join('=').replace(/^"|"$/g, '')];
+    })),
+    value: line.slice(colon + 1),
+  };
+}
+
+// Calendar apps name zones by IANA id, sometimes behind a vendor prefix such
+// as /mozilla.org/20050126_1/Europe/Berlin. Unknown zones give null.
+function ianaZone(tzid: string): string | null {
+  const candidates = [tzid, tzid.match(/([A-Za-z_]+\/[A-Za-z_+-]+)$/)?.[1]].filter((zone): zone is string => !!zone);
+  return candidates.find(isValidTimeZone) ?? null;
+}
+
+// DATE-TIME values are UTC (Z), in the TZID zone, or floating; floating
+// times and unknown zones are read in the server's own zone. DATE values
+// are midnight there.
+function parseDate(property: Property): { date: Date; allDay: boolean } | null {
+  const match = property.value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) return null;
+
+  const [, year, month, day, hour, minute, second, utc] = match;
+  const fields = [Number(year), Number(month) - 1, Number(day), Number(hour ?? 0), Number(minute ?? 0), Number(second ?? 0)] as const;
+  if (!hour) {
+    return { date: new Date(...fields), allDay: true };
+  }
+  if (utc) {
+    return { date: new Date(Date.UTC(...fields)), allDay: false };
+  }
+
+  const zone = property.params.TZID ? ianaZone(property.params.TZID) : null;
+  if (!zone) {
+    return { date: new Date(...fields), allDay: false };
+  }
+  return { date: wallTimeToUtc(Date.UTC(...fields), zone), allDay: false };
+}
+
+function parseDuration(value: string): number | null {
+  const match = value.match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return null;
+
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const ms = ((Number(weeks ?? 0) * 7 + Number(days ?? 0)) * 86400 + Number(hours ?? 0) * 3600 + Number(minutes ?? 0) * 60 + Number(seconds ?? 0)) * 1000;
+  return sign === '-' ? -ms : ms;
+}
+
+// The times of the events in an iCalendar document that take up time:
+// cancelled events and ones marked free (TRANSP:TRANSPARENT) are left out.
+// Recurring events are read as their first occurrence only, so calendars
+// should be asked for them expanded (CalDAV's calendar-data expand).
+export function parseBusyTimes(ics: string): IcsBusyTime[] {
+  const lines = ics.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const busy: IcsBusyTime[] = [];
+  const components: string[] = [];
+  let properties: Property[] = [];
+
+  for (const line of lines) {
+    const property = parseProperty(line);
+    if (!property) continue;
+
+    if (property.name === 'BEGIN') {
+      components.push(property.value.toUpperCase());
+      if (property.value.toUpperCase() === 'VEVENT') properties = [];
+      continue;
+    }
+    if (property.name === 'END') {
+      const ended = components.pop();
+      if (ended === 'VEVENT') {
+        const event = readBusyTime(properties);
+        if (event) busy.push(event);
+      }
+      continue;
+    }
+    // Alarms inside an event have properties of their own, such as DURATION
+    if (components[components.length - 1] === 'VEVENT') {
+      properties.push(property);
+    }
+  }
+
+  return busy;
+}
+
+function readBusyTime(properties: Property[]): IcsBusyTime | null {
+  const get = (name: string) => properties.find(property => property.name === name);
+  if (get('STATUS')?.value.toUpperCase() === 'CANCELLED' || get('TRANSP')?.value.toUpperCase() === 'TRANSPARENT') {
+    return null;
+  }
+
+  const uid = get('UID')?.value;
+  const dtstart = get('DTSTART');
+  const start = dtstart ? parseDate(dtstart) : null;
+  if (!uid || !start) return null;
+
+  const dtend = get('DTEND');
+  const duration = get('DURATION');
+  let end = dtend ? parseDate(dtend)?.date : undefined;
+  if (!end && duration) {
+    const length = parseDuration(duration.value);
+    end = length !== null ? new Date(start.date.getTime() + length) : undefined;
+  }
+  if (!end && start.allDay) {
+    end = new Date(start.date);
+    end.setDate(end.getDate() + 1);
+  }
+
+  // Events without length (reminders, deadlines) don't take up time
+  if (!end || end <= start.date) return null;
+  return { uid, start: start.date, end };
+}
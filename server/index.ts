@@ -1,9 +1,17 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { jobQueue } from "./job-queue";
+import { registerJobHandlers } from "./job-handlers";
 
 const app = express();
-app.use(express.json());
+app.use(express.json({
+  limit: "10mb", // contact imports upload spreadsheets as base64
+  // WhatsApp webhooks are signed over the exact bytes received
+  verify: (req: any, _res, buf) => {
+    req.rawBody = buf;
+  },
+}));
 app.use(express.urlencoded({ extended: false }));
 
 app.use((req, res, next) => {
@@ -67,4 +75,8 @@ app.use((req, res, next) => {
   }, () => {
     log(`serving on port ${port}`);
   });
+
+  // Campaign steps, meeting reminders, mailbox syncs and bulk scoring run from the job queue
+  registerJobHandlers();
+  jobQueue.start();
 })();
@@ -0,0 +1,127 @@
+import type { CalendarEvent, Job } from '@shared/schema';
+import { jobQueue } from './job-queue';
+import { storage } from './storage';
+import { aiService } from './ai-service';
+import { pipelineService } from './pipeline-service';
+import { calendarService } from './calendar-service';
+import { AdvancedLeadScoring } from './lead-scoring';
+import { campaignService } from './campaign-service';
+import { mailboxService } from './mailbox-service';
+import { caldavService } from './caldav-service';
+import { consentService } from './consent-service';
+
+// How long before a meeting its reminder goes out
+export const MEETING_REMINDER_LEAD_MINUTES = 24 * 60;
+
+// Meetings starting sooner than the lead time get their reminder right away.
+// A reminder due in the contact's night goes out the evening before. The job
+// carries the start it was queued for, so a reminder queued before the
+// meeting moved doesn't go out at the old time.
+export async function enqueueMeetingReminder(
+  organizationId: number,
+  event: CalendarEvent,
+  options: { idempotencyKey?: string; createdBy?: string; now?: boolean } = {}
+): Promise<Job> {
+  const reminderTime = (await calendarService.reminderTime(event, MEETING_REMINDER_LEAD_MINUTES)).getTime();
+
+  return await jobQueue.enqueue(organizationId, 'meeting.reminder', {
+    payload: { eventId: event.id, startTime: event.startTime.toISOString() },
+    runAt: new Date(options.now ? Date.now() : Math.max(reminderTime, Date.now())),
+    idempotencyKey: options.idempotencyKey,
+    createdBy: options.createdBy,
+  });
+}
+
+async function allStages(organizationId: number) {
+  return (await pipelineService.getPipelines(organizationId)).flatMap(pipeline => pipeline.stages);
+}
+
+export function registerJobHandlers() {
+  jobQueue.register('campaign.step', (job) => campaignService.runStep(job));
+
+  jobQueue.register('mailbox.sync', (job) => mailboxService.runSync(job));
+
+  jobQueue.register('calendar.sync', (job) => caldavService.runSync(job));
+
+  jobQueue.register('meeting.reminder', async (job) => {
+    const event = await calendarService.getEvent(job.organizationId, job.payload.eventId);
+    if (!event) {
+      return { sent: false, reason: 'Meeting not found' };
+    }
+    if (event.reminderSent || event.status === 'cancelled') {
+      return { sent: false, reason: event.reminderSent ? 'Reminder already sent' : 'Meeting cancelled' };
+    }
+    if (job.payload.startTime && job.payload.startTime !== event.startTime.toISOString()) {
+      return { sent: false, reason: 'Meeting was moved' };
+    }
+
+    // Retrying would only be stopped by the suppression list again
+    if (await consentService.isSuppressed(job.organizationId, 'email', event.attendees[0].email)) {
+      return { sent: false, reason: 'Address is on the suppression list' };
+    }
+
+    if (!(await calendarService.sendMeetingReminder(job.organizationId, event.id))) {
+      throw new Error('Reminder email could not be sent');
+    }
+    return { sent: true };
+  });
+
+  // Rule-based scoring for every contact
+  jobQueue.register('leads.score', async (job, context) => {
+    const contacts = await storage.getAllContacts(job.organizationId);
+    const stages = await allStages(job.organizationId);
+    let processed = 0;
+    let automationTriggered = 0;
+
+    for (const contact of contacts) {
+      const activities = await storage.getContactActivities(job.organizationId, contact.id);
+      const deals = pipelineService.attachStages(await storage.getContactDeals(job.organizationId, contact.id), stages);
+
+      const scoringResult = AdvancedLeadScoring.calculateLeadScore(contact, activities, deals);
+      await storage.updateContact(job.organizationId, contact.id, { leadScore: scoringResult.score });
+
+      if (scoringResult.triggers.length > 0) {
+        automationTriggered++;
+      }
+
+      processed++;
+      await context.setProgress(processed, contacts.length);
+    }
+
+    return { processed, automationTriggered };
+  });
+
+  // AI scoring for every contact. A contact the AI fails on is skipped rather
+  // than failing the job, which would rescore everyone on retry.
+  jobQueue.register('leads.ai-score', async (job, context) => {
+    const contacts = await storage.getAllContacts(job.organizationId);
+    const stages = await allStages(job.organizationId);
+    const results = [];
+    let processed = 0;
+    let checked = 0;
+
+    for (const contact of contacts) {
+      try {
+        const activities = await storage.getContactActivities(job.organizationId, contact.id);
+        const deals = pipelineService.attachStages(await storage.getContactDeals(job.organizationId, contact.id), stages);
+
+        const analysis = await aiService.calculateAILeadScore(contact, activities, deals);
+        await storage.updateContact(job.organizationId, contact.id, { leadScore: analysis.score });
+
+        results.push({
+          contactId: contact.id,
+          name: `${contact.firstName} ${contact.lastName}`,
+          oldScore: contact.leadScore,
+          newScore: analysis.score,
+          reasoning: analysis.reasoning
+        });
+        processed++;
+      } catch (error) {
+        console.error(`Failed to process contact ${contact.id}:`, error);
+      }
+      await context.setProgress(++checked, contacts.length);
+    }
+
+    return { processed, results };
+  });
+}
@@ -0,0 +1,127 @@
+import type { Job, JobType } from '@shared/schema';
+import { storage } from './storage';
+
+export interface JobContext {
+  // Records how far a long job has got; the UI polls it through /api/jobs/:id
+  setProgress(done: number, total: number): Promise<void>;
+}
+
+// Whatever a handler returns is stored as the job's result. Throwing schedules
+// a retry, or moves the job to the dead-letter list after its last attempt.
+export type JobHandler = (job: Job, context: JobContext) => Promise<Record<string, any> | void>;
+
+export interface EnqueueOptions {
+  payload?: Record<string, any>;
+  runAt?: Date;
+  idempotencyKey?: string;
+  maxAttempts?: number;
+  createdBy?: string;
+}
+
+const POLL_INTERVAL_MS = 5000;
+const BATCH_SIZE = 5;
+// A running job that has not reported for this long is assumed lost with its worker
+const LOCK_TIMEOUT_MS = 15 * 60 * 1000;
+const BASE_RETRY_DELAY_MS = 30 * 1000;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+
+class JobQueue {
+  private handlers = new Map<JobType, JobHandler>();
+  private timer: NodeJS.Timeout | null = null;
+  private polling = false;
+
+  register(type: JobType, handler: JobHandler) {
+    this.handlers.set(type, handler);
+  }
+
+  async enqueue(organizationId: number, type: JobType, options: EnqueueOptions = {}): Promise<Job> {
+    return await storage.enqueueJob(organizationId, {
+      type,
+      payload: options.payload ?? {},
+      runAt: options.runAt ?? new Date(),
+      idempotencyKey: options.idempotencyKey,
+      maxAttempts: options.maxAttempts,
+      createdBy: options.createdBy,
+    });
+  }
+
+  // 30 seconds after the first failure, doubling up to an hour
+  retryDelay(attempts: number): number {
+    return Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_DELAY_MS);
+  }
+
+  start(intervalMs = POLL_INTERVAL_MS) {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      void this.poll();
+    }, intervalMs);
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Works through every due job. A tick that fires while the previous one is
+  // still running is skipped, so jobs run one at a time per process.
+  async poll() {
+    if (this.polling) return;
+    this.polling = true;
+
+    try {
+      let claimed: Job[];
+      do {
+        claimed = await storage.claimDueJobs(BATCH_SIZE, new Date(Date.now() - LOCK_TIMEOUT_MS));
+        for (const job of claimed) {
+          await this.run(job);
+        }
+      } while (claimed.length === BATCH_SIZE);
+    } catch (error) {
+      console.error('Job queue poll failed:', error);
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private async run(job: Job) {
+    const handler = this.handlers.get(job.type as JobType);
+    const context: JobContext = {
+      // Progress doubles as a heartbeat so long jobs are not reclaimed as stale
+      setProgress: async (done, total) => {
+        await storage.updateJob(job.organizationId, job.id, { progress: { done, total }, lockedAt: new Date() });
+      },
+    };
+
+    try {
+      if (!handler) {
+        throw new Error(`No handler registered for job type "${job.type}"`);
+      }
+      // Claiming a stale job counts as an attempt, so this only trips for jobs
+      // whose worker kept dying on them
+      if (job.attempts > job.maxAttempts) {
+        throw new Error('The job was interrupted on every attempt');
+      }
+
+      const result = await handler(job, context);
+      await storage.updateJob(job.organizationId, job.id, {
+        status: 'completed',
+        result: result ?? null,
+        lastError: null,
+        lockedAt: null,
+        completedAt: new Date(),
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const exhausted = !handler || job.attempts >= job.maxAttempts;
+      console.error(`Job ${job.id} (${job.type}) failed on attempt ${job.attempts}:`, message);
+
+      await storage.updateJob(job.organizationId, job.id, exhausted
+        ? { status: 'dead', lastError: message, lockedAt: null }
+        : { status: 'queued', lastError: message, lockedAt: null, runAt: new Date(Date.now() + this.retryDelay(job.attempts)) });
+    }
+  }
+}
+
+export const jobQueue = new JobQueue();
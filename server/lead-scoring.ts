@@ -1,4 +1,4 @@
-import { Contact, Activity, Deal } from "@shared/schema";
+import { Contact, Activity, DealWithStage, EmailEngagement } from "@shared/schema";
 
 export interface LeadScoringResult {
   score: number;
@@ -18,9 +18,9 @@ export interface AutomationTrigger {
 export class AdvancedLeadScoring {
   
   // Main scoring function: Fit × Engagement model as per task specs
-  static calculateLeadScore(contact: Contact, activities: Activity[], deals: Deal[]): LeadScoringResult {
+  static calculateLeadScore(contact: Contact, activities: Activity[], deals: DealWithStage[]): LeadScoringResult {
     const fitScore = this.calculateFitScore(contact);
-    const engagementScore = this.calculateEngagementScore(activities);
+    const engagementScore = this.calculateEngagementScore(activities, contact.emailEngagement);
     const dealPotentialScore = this.calculateDealPotentialScore(deals);
     
     // Weighted scoring: Fit (40%) + Engagement (40%) + Deal Potential (20%)
@@ -119,11 +119,12 @@ export class AdvancedLeadScoring {
     return Math.min(100, score);
   }
 
-  // Behavioral Engagement Scoring - Activity frequency, recency, type
-  private static calculateEngagementScore(activities: Activity[]): number {
-    if (!activities.length) return 10; // Base score for new contacts
+  // Behavioral Engagement Scoring - Activity frequency, recency, type, email engagement
+  private static calculateEngagementScore(activities: Activity[], email?: EmailEngagement | null): number {
+    const emailScore = this.calculateEmailEngagementScore(email);
+    if (!activities.length) return Math.min(100, Math.max(0, 10 + emailScore)); // Base score for new contacts
     
-    let score = 0;
+    let score = emailScore;
     const now = new Date();
     const last7Days = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
     const last30Days = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
@@ -209,11 +210,49 @@ export class AdvancedLeadScoring {
       }
     }
     
-    return Math.min(100, score);
+    return Math.min(100, Math.max(0, score));
+  }
+
+  // Email engagement from tracked opens and clicks (-30 to 25 points)
+  private static calculateEmailEngagementScore(email?: EmailEngagement | null): number {
+    if (!email || !email.sent) return 0;
+    
+    let score = 0;
+    const delivered = Math.max(email.delivered, email.opened);
+    const openRate = delivered > 0 ? email.opened / delivered : 0;
+    const clickRate = delivered > 0 ? email.clicked / delivered : 0;
+    
+    if (openRate >= 0.5) {
+      score += 10; // Opens most emails
+    } else if (openRate >= 0.2) {
+      score += 5; // Opens some emails
+    }
+    
+    if (clickRate >= 0.2) {
+      score += 10; // Clicks through regularly
+    } else if (email.clicked > 0) {
+      score += 5; // Has clicked
+    }
+    
+    const lastEngaged = [email.lastOpenedAt, email.lastClickedAt]
+      .filter((value): value is string => !!value)
+      .map(value => new Date(value).getTime());
+    if (lastEngaged.length && Date.now() - Math.max(...lastEngaged) <= 14 * 24 * 60 * 60 * 1000) {
+      score += 5; // Engaged in the last two weeks
+    }
+    
+    // Bounces and spam complaints mean the address can't be reached
+    if (email.complained > 0) {
+      score -= 30;
+    } else if (email.bounced > 0) {
+      score -= 15;
+    }
+    
+    return score;
   }
 
   // Deal Pipeline Assessment
-  private static calculateDealPotentialScore(deals: Deal[]): number {
+  private static calculateDealPotentialScore(deals: DealWithStage[]): number {
     if (!deals.length) return 30; // Base score for prospects
     
     let totalScore = 0;
@@ -238,27 +277,13 @@ export class AdvancedLeadScoring {
       }
       
       // Stage progression (0-35 points)
-      switch (deal.stage?.toLowerCase()) {
-        case 'closed-won':
-          dealScore += 35; // Proven buyer
-          break;
-        case 'contract':
-        case 'negotiation':
-          dealScore += 30; // Advanced stage
-          break;
-        case 'proposal':
-          dealScore += 25; // Proposal stage
-          break;
-        case 'demo':
-        case 'discovery':
-          dealScore += 20; // Mid-stage
-          break;
-        case 'qualification':
-          dealScore += 15; // Qualified
-          break;
-        case 'prospecting':
-        default:
-          dealScore += 10; // Early stage
+      if (deal.stage?.outcome === 'won') {
+        dealScore += 35; // Proven buyer
+      } else if (deal.stage?.outcome === 'open') {
+        // Later stages carry higher default probabilities
+        dealScore += 10 + Math.round((deal.stage.probability / 100) * 20);
+      } else {
+        dealScore += 10; // Lost or unstaged
       }
       
       // Probability weighting (0-25 points)
@@ -0,0 +1,359 @@
+import { randomBytes, randomUUID } from 'crypto';
+import { ImapFlow } from 'imapflow';
+import nodemailer from 'nodemailer';
+import { simpleParser, type AddressObject } from 'mailparser';
+import type { Contact, EmailMessage, Job, Mailbox, MailboxFolderState } from '@shared/schema';
+import { storage } from './storage';
+import { emailTrackingService } from './email-tracking';
+import { campaignService } from './campaign-service';
+import { SyncChain, savePassword, withPassword, withStoredPassword, withoutPassword } from './connected-account';
+
+export interface MailboxSettings {
+  emailAddress: string;
+  displayName?: string | null;
+  imapHost: string;
+  imapPort: number;
+  imapSecure: boolean;
+  smtpHost: string;
+  smtpPort: number;
+  smtpSecure: boolean;
+  username: string;
+  password: string;
+}
+
+// What the API returns for a mailbox; the password never leaves the server
+export type MailboxSummary = Omit<Mailbox, 'encryptedPassword' | 'syncState'>;
+
+export interface MailboxSendOptions {
+  subject: string;
+  body: string; // plain text
+  replyTo?: EmailMessage; // an email in the contact's history this answers
+  createdBy: string;
+}
+
+const SYNC_INTERVAL_MS = 5 * 60 * 1000;
+// A newly connected mailbox brings in this much recent mail
+const INITIAL_SYNC_DAYS = 30;
+// Per folder and run; the rest is picked up by the next run
+const MAX_MESSAGES_PER_SYNC = 200;
+const MAX_BODY_LENGTH = 20000;
+const CONNECTION_TIMEOUT_MS = 15 * 1000;
+
+const stripBrackets = (id: string) => id.trim().replace(/^<|>$/g, '');
+
+class MailboxService {
+  private syncChain = new SyncChain<Mailbox>({
+    type: 'mailbox.sync',
+    intervalMs: SYNC_INTERVAL_MS,
+    payloadKey: 'mailboxId',
+    missingReason: 'Mailbox disconnected',
+    getAccount: (organizationId, id) => storage.getMailboxById(organizationId, id),
+    sync: (mailbox) => this.sync(mailbox),
+  });
+
+  summary(mailbox: Mailbox): MailboxSummary {
+    const { syncState, ...summary } = withoutPassword(mailbox);
+    return summary;
+  }
+
+  private imapClient(settings: Pick<MailboxSettings, 'imapHost' | 'imapPort' | 'imapSecure' | 'username' | 'password'>): ImapFlow {
+    return new ImapFlow({
+      host: settings.imapHost,
+      port: settings.imapPort,
+      secure: settings.imapSecure,
+      auth: { user: settings.username, pass: settings.password },
+      connectionTimeout: CONNECTION_TIMEOUT_MS,
+      logger: false,
+    });
+  }
+
+  private smtpTransport(settings: Pick<MailboxSettings, 'smtpHost' | 'smtpPort' | 'smtpSecure' | 'username' | 'password'>) {
+    return nodemailer.createTransport({
+      host: settings.smtpHost,
+      port: settings.smtpPort,
+      secure: settings.smtpSecure,
+      auth: { user: settings.username, pass: settings.password },
+      connectionTimeout: CONNECTION_TIMEOUT_MS,
+    });
+  }
+
+  withPassword(settings: Omit<MailboxSettings, 'password'> & { password?: string }, existing?: Mailbox): MailboxSettings | null {
+    return withPassword(settings, existing);
+  }
+
+  // Logs in over IMAP and SMTP with the settings. Returns what went wrong,
+  // or null when both work.
+  async testConnection(settings: MailboxSettings): Promise<string | null> {
+    const client = this.imapClient(settings);
+    try {
+      await client.connect();
+      await client.logout();
+    } catch (error) {
+      client.close();
+      return `Could not sign in to IMAP: ${error instanceof Error ? error.message : String(error)}`;
+    }
+
+    const transport = this.smtpTransport(settings);
+    try {
+      await transport.verify();
+    } catch (error) {
+      return `Could not sign in to SMTP: ${error instanceof Error ? error.message : String(error)}`;
+    } finally {
+      transport.close();
+    }
+    return null;
+  }
+
+  // Saves the user's mailbox and starts syncing it. Pointing it at another
+  // account starts the sync over.
+  async connect(organizationId: number, userId: string, settings: MailboxSettings, existing?: Mailbox): Promise<Mailbox> {
+    const sameAccount = existing
+      && existing.imapHost === settings.imapHost
+      && existing.username === settings.username
+      && existing.emailAddress.toLowerCase() === settings.emailAddress.toLowerCase();
+
+    const { password, ...fields } = settings;
+    const mailbox = await storage.upsertMailbox(organizationId, userId, {
+      ...fields,
+      displayName: settings.displayName || null,
+      ...savePassword(password),
+      syncState: sameAccount ? existing.syncState : {},
+      status: 'active',
+      lastError: null,
+    });
+
+    await this.syncChain.start(mailbox, userId);
+    return mailbox;
+  }
+
+  // Handler for mailbox.sync jobs
+  async runSync(job: Job): Promise<Record<string, any>> {
+    return await this.syncChain.run(job);
+  }
+
+  // Reads new mail from the inbox and the sent folder and logs every email
+  // to or from a known contact on that contact
+  async sync(mailbox: Mailbox): Promise<{ imported: number; skipped: number }> {
+    const client = this.imapClient(withStoredPassword(mailbox));
+    const syncState: Record<string, MailboxFolderState> = { ...mailbox.syncState };
+    let imported = 0;
+    let skipped = 0;
+
+    try {
+      await client.connect();
+      const folders = await client.list();
+      const sent = folders.find(folder => folder.specialUse === '\\Sent');
+
+      for (const path of ['INBOX', ...(sent ? [sent.path] : [])]) {
+        const lock = await client.getMailboxLock(path);
+        try {
+          const opened = client.mailbox;
+          if (!opened) continue;
+
+          const uidValidity = String(opened.uidValidity);
+          const previous = syncState[path]?.uidValidity === uidValidity ? syncState[path] : null;
+          const uids = previous
+            ? (await client.search({ uid: `${previous.lastUid + 1}:*` }, { uid: true }) || []).filter(uid => uid > previous.lastUid)
+            : await client.search({ since: new Date(Date.now() - INITIAL_SYNC_DAYS * 24 * 60 * 60 * 1000) }, { uid: true }) || [];
+          const batch = uids.sort((a, b) => a - b).slice(0, MAX_MESSAGES_PER_SYNC);
+
+          let lastUid = previous?.lastUid ?? 0;
+          if (batch.length > 0) {
+            for await (const message of client.fetch(batch.join(','), { uid: true, source: true }, { uid: true })) {
+              if (message.source && await this.importMessage(mailbox, message.source, path === sent?.path)) {
+                imported++;
+              } else {
+                skipped++;
+              }
+              lastUid = Math.max(lastUid, message.uid);
+            }
+          }
+          // Nothing new on a first sync: later runs start from the folder's end
+          if (!previous && batch.length === 0) {
+            lastUid = opened.uidNext - 1;
+          }
+          syncState[path] = { uidValidity, lastUid };
+        } finally {
+          lock.release();
+        }
+      }
+
+      await client.logout();
+    } catch (error) {
+      client.close();
+      await storage.updateMailbox(mailbox.organizationId, mailbox.id, {
+        syncState,
+        status: 'error',
+        lastError: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+
+    await storage.updateMailbox(mailbox.organizationId, mailbox.id, {
+      syncState,
+      status: 'active',
+      lastError: null,
+      lastSyncedAt: new Date(),
+    });
+    return { imported, skipped };
+  }
+
+  // Logs one raw email on the contact it was from or to. Email the mailbox
+  // owner sent counts as outbound wherever it was found. Returns whether it
+  // was logged; emails with no known contact, or logged before, are not.
+  private async importMessage(mailbox: Mailbox, source: Buffer, fromSentFolder: boolean): Promise<boolean> {
+    const parsed = await simpleParser(source);
+    const own = mailbox.emailAddress.toLowerCase();
+    const addresses = (field: AddressObject | AddressObject[] | undefined) =>
+      (Array.isArray(field) ? field : field ? [field] : [])
+        .flatMap(object => object.value)
+        .flatMap(address => address.address ? [address.address.toLowerCase()] : []);
+
+    const from = addresses(parsed.from)[0];
+    const recipients = [...addresses(parsed.to), ...addresses(parsed.cc)].filter(address => address !== own);
+    const direction = fromSentFolder || from === own ? 'outbound' : 'inbound';
+    const counterparts = direction === 'inbound' ? (from ? [from] : []) : recipients;
+
+    const found = await storage.getContactsByEmails(mailbox.organizationId, Array.from(new Set(counterparts)));
+    const contact = counterparts
+      .map(address => found.find(candidate => candidate.email.toLowerCase() === address))
+      .find(candidate => !!candidate);
+    if (!contact) {
+      return false;
+    }
+
+    const references = typeof parsed.references === 'string' ? [parsed.references] : parsed.references ?? [];
+    const inReplyTo = parsed.inReplyTo ? stripBrackets(parsed.inReplyTo) : null;
+    const messageIdHeader = parsed.messageId
+      ? stripBrackets(parsed.messageId)
+      : `${randomUUID()}@mailbox-${mailbox.id}`;
+    const subject = parsed.subject || '(no subject)';
+    const sentAt = parsed.date ?? new Date();
+
+    const message = await storage.createSyncedEmailMessage(mailbox.organizationId, {
+      contactId: contact.id,
+      mailboxId: mailbox.id,
+      source: 'synced',
+      direction,
+      status: direction === 'inbound' ? 'received' : 'sent',
+      fromEmail: from ?? null,
+      toEmail: direction === 'inbound' ? own : contact.email,
+      subject,
+      body: parsed.text?.slice(0, MAX_BODY_LENGTH) ?? null,
+      messageIdHeader,
+      inReplyTo,
+      threadId: await this.threadId(mailbox.organizationId, messageIdHeader, inReplyTo, references.map(stripBrackets)),
+      trackingToken: randomBytes(24).toString('hex'),
+      sentAt,
+      createdBy: direction === 'outbound' ? mailbox.userId : null,
+    });
+    if (!message) {
+      return false;
+    }
+
+    await this.logActivity(contact, message, sentAt);
+    return true;
+  }
+
+  // The thread an email belongs to: that of the earliest email it refers to
+  // which is already logged, else the first email its references name
+  private async threadId(organizationId: number, messageId: string, inReplyTo: string | null, references: string[]): Promise<string> {
+    const referenced = Array.from(new Set([...references, ...(inReplyTo ? [inReplyTo] : [])]));
+    const known = await storage.getEmailMessagesByHeaderIds(organizationId, referenced);
+    for (const id of referenced) {
+      const match = known.find(message => message.messageIdHeader === id || message.providerMessageId === id);
+      if (match) {
+        return match.threadId ?? match.messageIdHeader ?? id;
+      }
+    }
+    return referenced[0] ?? messageId;
+  }
+
+  // An email from the contact is a reply, which ends their sequences; either
+  // way it counts as the last time they were in touch
+  private async logActivity(contact: Contact, message: EmailMessage, at: Date): Promise<void> {
+    const inbound = message.direction === 'inbound';
+    await storage.createActivity(contact.organizationId, {
+      contactId: contact.id,
+      type: inbound ? 'reply' : 'email',
+      title: inbound ? `Email from ${contact.firstName}: ${message.subject}` : `Email sent: ${message.subject}`,
+      description: message.body ? message.body.slice(0, 1000) : null,
+      date: at,
+      createdBy: message.createdBy,
+    });
+
+    if (!contact.lastContactDate || contact.lastContactDate < at) {
+      await storage.updateContact(contact.organizationId, contact.id, { lastContactDate: at });
+    }
+    if (inbound) {
+      await campaignService.checkExits(contact.organizationId, contact.id);
+    }
+  }
+
+  // Sends a plain-text email to the contact over the mailbox's SMTP server,
+  // from the user's own address, threaded under the email it replies to
+  async send(mailbox: Mailbox, contact: Contact, options: MailboxSendOptions): Promise<EmailMessage> {
+    const settings = withStoredPassword(mailbox);
+    const domain = mailbox.emailAddress.split('@')[1] || 'localhost';
+    const messageIdHeader = `${randomUUID()}@${domain}`;
+
+    const parentId = options.replyTo
+      ? options.replyTo.messageIdHeader ?? options.replyTo.providerMessageId
+      : null;
+    const threadId = options.replyTo
+      ? options.replyTo.threadId ?? parentId ?? messageIdHeader
+      : messageIdHeader;
+    const references = Array.from(new Set([threadId, parentId].filter((id): id is string => !!id && id !== messageIdHeader)));
+
+    const tracked = await emailTrackingService.prepare(
+      { organizationId: mailbox.organizationId, contactId: contact.id, source: 'mailbox', createdBy: options.createdBy },
+      { to: contact.email, subject: options.subject, html: this.textToHtml(options.body) },
+      {
+        mailboxId: mailbox.id,
+        fromEmail: mailbox.emailAddress,
+        body: options.body,
+        messageIdHeader,
+        inReplyTo: parentId,
+        threadId,
+      }
+    );
+
+    const transport = this.smtpTransport(settings);
+    try {
+      await transport.sendMail({
+        from: mailbox.displayName ? { name: mailbox.displayName, address: mailbox.emailAddress } : mailbox.emailAddress,
+        to: { name: `${contact.firstName} ${contact.lastName}`, address: contact.email },
+        subject: options.subject,
+        text: options.body,
+        html: tracked.html,
+        messageId: `<${messageIdHeader}>`,
+        ...(parentId ? { inReplyTo: `<${parentId}>`, references: references.map(id => `<${id}>`) } : {}),
+      });
+    } catch (error) {
+      await emailTrackingService.markFailed(tracked.message, error);
+      throw error;
+    } finally {
+      transport.close();
+    }
+
+    await emailTrackingService.markSent(tracked.message, null);
+    const sent = await storage.getEmailMessage(mailbox.organizationId, tracked.message.id) ?? tracked.message;
+    await this.logActivity(contact, sent, sent.sentAt);
+    return sent;
+  }
+
+  private textToHtml(text: string): string {
+    const escaped = text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+    return `<div style="font-family: Arial, sans-serif;">${
+      escaped
+        .replace(/https?:\/\/[^\s<]+[^\s<.,;:!?)]/g, url => `<a href="${url}">${url}</a>`)
+        .replace(/\n/g, '<br>')
+    }</div>`;
+  }
+}
+
+export const mailboxService = new MailboxService();
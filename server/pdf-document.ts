@@ -0,0 +1,141 @@
+// A small PDF 1.4 writer for generated documents such as quotes. It only knows
+// the built-in Helvetica fonts, text, lines and filled rectangles, which keeps
+// documents readable in every viewer without embedding fonts.
+//
+// Coordinates are in points from the top-left corner of an A4 page; they are
+// flipped to PDF's bottom-left origin when written.
+
+export const PAGE_WIDTH = 595;
+export const PAGE_HEIGHT = 842;
+
+export interface TextOptions {
+  size?: number;
+  bold?: boolean;
+  color?: string; // #rrggbb
+  align?: 'left' | 'right' | 'center';
+}
+
+// Helvetica advance widths (per 1000 units of font size) for printable ASCII,
+// starting at the space character. Other characters use the average width.
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+const AVERAGE_WIDTH = 556;
+// Helvetica-Bold is close to Helvetica scaled up slightly
+const BOLD_FACTOR = 1.06;
+
+const toRgb = (hex: string) => {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255].map(channel => (channel / 255).toFixed(3)).join(' ');
+};
+
+// Standard fonts use WinAnsiEncoding; anything outside Latin-1 is replaced
+const escapeText = (text: string) =>
+  text
+    .replace(/[^\x20-\xff]/g, '?')
+    .replace(/\\/g, '\\\\')
+    .replace(/\(/g, '\\(')
+    .replace(/\)/g, '\\)');
+
+export class PdfDocument {
+  private pages: string[][] = [[]];
+
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  addPage() {
+    this.pages.push([]);
+  }
+
+  textWidth(text: string, size = 10, bold = false): number {
+    let units = 0;
+    for (const char of text) {
+      const code = char.charCodeAt(0);
+      units += HELVETICA_WIDTHS[code - 32] ?? AVERAGE_WIDTH;
+    }
+    return (units * size * (bold ? BOLD_FACTOR : 1)) / 1000;
+  }
+
+  // Splits text into lines no wider than maxWidth, breaking on spaces
+  wrapText(text: string, maxWidth: number, size = 10, bold = false): string[] {
+    const lines: string[] = [];
+    for (const paragraph of text.split(/\r?\n/)) {
+      let line = '';
+      for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+        const candidate = line ? `${line} ${word}` : word;
+        if (line && this.textWidth(candidate, size, bold) > maxWidth) {
+          lines.push(line);
+          line = word;
+        } else {
+          line = candidate;
+        }
+      }
+      lines.push(line);
+    }
+    return lines;
+  }
+
+  text(x: number, y: number, text: string, options: TextOptions = {}) {
+    const { size = 10, bold = false, color = '#111827', align = 'left' } = options;
+    const width = this.textWidth(text, size, bold);
+    const left = align === 'right' ? x - width : align === 'center' ? x - width / 2 : x;
+    this.current.push(
+      `BT /${bold ? 'F2' : 'F1'} ${size} Tf ${toRgb(color)} rg ${left.toFixed(2)} ${(PAGE_HEIGHT - y).toFixed(2)} Td (${escapeText(text)}) Tj ET`
+    );
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, color = '#e5e7eb', width = 0.75) {
+    this.current.push(
+      `${toRgb(color)} RG ${width} w ${x1.toFixed(2)} ${(PAGE_HEIGHT - y1).toFixed(2)} m ${x2.toFixed(2)} ${(PAGE_HEIGHT - y2).toFixed(2)} l S`
+    );
+  }
+
+  rect(x: number, y: number, width: number, height: number, color: string) {
+    this.current.push(
+      `${toRgb(color)} rg ${x.toFixed(2)} ${(PAGE_HEIGHT - y - height).toFixed(2)} ${width.toFixed(2)} ${height.toFixed(2)} re f`
+    );
+  }
+
+  toBuffer(): Buffer {
+    const objects: string[] = [];
+    const pageIds = this.pages.map((_, index) => 5 + index * 2);
+
+    objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+    objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`;
+    objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+    objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+    this.pages.forEach((operations, index) => {
+      const content = operations.join('\n');
+      objects[pageIds[index]] =
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[index] + 1} 0 R >>`;
+      objects[pageIds[index] + 1] = `<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`;
+    });
+
+    let output = '%PDF-1.4\n';
+    const offsets: number[] = [];
+    for (let id = 1; id < objects.length; id++) {
+      offsets[id] = Buffer.byteLength(output, 'latin1');
+      output += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+    }
+
+    const xrefOffset = Buffer.byteLength(output, 'latin1');
+    output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+    for (let id = 1; id < objects.length; id++) {
+      output += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+    }
+    output += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    return Buffer.from(output, 'latin1');
+  }
+
+  private get current(): string[] {
+    return this.pages[this.pages.length - 1];
+  }
+}
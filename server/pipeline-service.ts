@@ -0,0 +1,218 @@
+import type {
+  Deal,
+  DealStageTransition,
+  DealWithStage,
+  InsertPipelineStage,
+  PipelineStage,
+  PipelineWithStages,
+  StageOutcome
+} from '@shared/schema';
+import { storage } from './storage';
+
+// Seeded for each organization the first time its pipelines are read. legacyKey is
+// the stage string deals carried before pipelines were configurable.
+const defaultStages: (InsertPipelineStage & { legacyKey: string })[] = [
+  { name: 'Prospecting', probability: 10, outcome: 'open', legacyKey: 'prospecting' },
+  { name: 'Qualified', probability: 25, outcome: 'open', legacyKey: 'qualified' },
+  { name: 'Proposal', probability: 50, outcome: 'open', legacyKey: 'proposal' },
+  { name: 'Negotiation', probability: 75, outcome: 'open', legacyKey: 'negotiation' },
+  { name: 'Closed Won', probability: 100, outcome: 'won', legacyKey: 'closed-won' },
+  { name: 'Closed Lost', probability: 0, outcome: 'lost', legacyKey: 'closed-lost' },
+];
+
+export interface FunnelStep {
+  name: string;
+  count: number;
+}
+
+export interface StageDuration {
+  stageId: number;
+  name: string;
+  // Deals that have moved on from the stage, and how long they spent in it
+  completedStays: number;
+  averageDays: number;
+  medianDays: number;
+  // Deals sitting in the stage now, and for how long so far
+  currentDeals: number;
+  currentAverageDays: number;
+}
+
+export interface StageConversion {
+  from: string;
+  to: string;
+  entered: number;
+  converted: number;
+  rate: number;
+}
+
+interface StageStay {
+  dealId: number;
+  stageId: number;
+  enteredAt: Date;
+  leftAt: Date | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+const average = (values: number[]) => (values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0);
+
+const median = (values: number[]) => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+};
+
+class PipelineService {
+  // Pipelines in display order, each with its ordered stages
+  async getPipelines(organizationId: number): Promise<PipelineWithStages[]> {
+    let pipelines = await storage.getPipelines(organizationId);
+    if (pipelines.length === 0) {
+      await storage.createDefaultPipeline(organizationId, { name: 'Sales Pipeline' }, defaultStages);
+      pipelines = await storage.getPipelines(organizationId);
+    }
+
+    const stages = await storage.getPipelineStages(organizationId);
+    return pipelines.map(pipeline => ({
+      ...pipeline,
+      stages: stages.filter(stage => stage.pipelineId === pipeline.id),
+    }));
+  }
+
+  getDefaultPipeline(pipelines: PipelineWithStages[]): PipelineWithStages {
+    return pipelines.find(pipeline => pipeline.isDefault) ?? pipelines[0];
+  }
+
+  // The stage a deal is being put in: the requested one if it belongs to the
+  // organization, or the first stage of the default pipeline when none is given
+  async resolveStage(organizationId: number, stageId?: number | null): Promise<PipelineStage | undefined> {
+    const pipelines = await this.getPipelines(organizationId);
+    if (stageId) {
+      return pipelines.flatMap(pipeline => pipeline.stages).find(stage => stage.id === stageId);
+    }
+    return this.getDefaultPipeline(pipelines).stages[0];
+  }
+
+  async withStages(organizationId: number, deals: Deal[]): Promise<DealWithStage[]> {
+    const stages = (await this.getPipelines(organizationId)).flatMap(pipeline => pipeline.stages);
+    return this.attachStages(deals, stages);
+  }
+
+  attachStages(deals: Deal[], stages: PipelineStage[]): DealWithStage[] {
+    const stagesById = new Map(stages.map(stage => [stage.id, stage]));
+    return deals.map(deal => ({ ...deal, stage: (deal.stageId && stagesById.get(deal.stageId)) || null }));
+  }
+
+  hasOutcome(deal: DealWithStage, outcome: StageOutcome): boolean {
+    return (deal.stage?.outcome ?? 'open') === outcome;
+  }
+
+  // How many of the pipeline's deals have reached each open stage (sitting in it
+  // or any later open stage, or already won), followed by the won count
+  buildFunnel(pipeline: PipelineWithStages, deals: DealWithStage[]): FunnelStep[] {
+    const pipelineDeals = deals.filter(deal => deal.stage?.pipelineId === pipeline.id);
+    const won = pipelineDeals.filter(deal => this.hasOutcome(deal, 'won'));
+    const openStages = pipeline.stages.filter(stage => stage.outcome === 'open');
+
+    const steps = openStages.map((stage, index) => {
+      const laterStageIds = new Set(openStages.slice(index).map(later => later.id));
+      const reached = pipelineDeals.filter(deal => deal.stageId !== null && laterStageIds.has(deal.stageId)).length;
+      return { name: stage.name, count: reached + won.length };
+    });
+
+    return [...steps, { name: 'Won', count: won.length }];
+  }
+
+  // Time spent in each open stage of the pipeline, from stays that began on or after `since`
+  stageDurations(pipeline: PipelineWithStages, deals: Deal[], transitions: DealStageTransition[], since: Date, now = new Date()): StageDuration[] {
+    const stays = this.stageStays(deals, transitions).filter(stay => stay.enteredAt >= since);
+
+    return pipeline.stages
+      .filter(stage => stage.outcome === 'open')
+      .map(stage => {
+        const stageStays = stays.filter(stay => stay.stageId === stage.id);
+        const completed = stageStays
+          .filter(stay => stay.leftAt)
+          .map(stay => (stay.leftAt!.getTime() - stay.enteredAt.getTime()) / DAY_MS);
+        const current = stageStays
+          .filter(stay => !stay.leftAt)
+          .map(stay => (now.getTime() - stay.enteredAt.getTime()) / DAY_MS);
+
+        return {
+          stageId: stage.id,
+          name: stage.name,
+          completedStays: completed.length,
+          averageDays: round1(average(completed)),
+          medianDays: round1(median(completed)),
+          currentDeals: current.length,
+          currentAverageDays: round1(average(current)),
+        };
+      });
+  }
+
+  // For each open stage, how many of the deals that entered it (on or after
+  // `since`) later reached the next open stage, or were won from the last one
+  stageConversions(pipeline: PipelineWithStages, deals: Deal[], transitions: DealStageTransition[], since: Date): StageConversion[] {
+    const stays = this.stageStays(deals, transitions);
+    const openStages = pipeline.stages.filter(stage => stage.outcome === 'open');
+    const wonStageIds = new Set(pipeline.stages.filter(stage => stage.outcome === 'won').map(stage => stage.id));
+
+    return openStages.map((stage, index) => {
+      const next = openStages[index + 1];
+      // Skipping ahead to a later stage still counts as moving past this one
+      const targetIds = new Set([...openStages.slice(index + 1).map(later => later.id), ...Array.from(wonStageIds)]);
+
+      const entries = stays.filter(stay => stay.stageId === stage.id && stay.enteredAt >= since);
+      const enteredDeals = new Set(entries.map(stay => stay.dealId));
+      const converted = Array.from(enteredDeals).filter(dealId => {
+        const enteredAt = Math.min(...entries.filter(stay => stay.dealId === dealId).map(stay => stay.enteredAt.getTime()));
+        return stays.some(stay => stay.dealId === dealId && targetIds.has(stay.stageId) && stay.enteredAt.getTime() > enteredAt);
+      }).length;
+
+      return {
+        from: stage.name,
+        to: next ? next.name : 'Won',
+        entered: enteredDeals.size,
+        converted,
+        rate: enteredDeals.size > 0 ? round1((converted / enteredDeals.size) * 100) : 0,
+      };
+    });
+  }
+
+  // Each deal's consecutive stays, read from its transitions. For deals created
+  // before transitions were logged, the stage they were in at that point is
+  // taken to have been entered when the deal was created.
+  private stageStays(deals: Deal[], transitions: DealStageTransition[]): StageStay[] {
+    const byDeal = new Map<number, DealStageTransition[]>();
+    for (const transition of transitions) {
+      const dealTransitions = byDeal.get(transition.dealId) ?? [];
+      dealTransitions.push(transition);
+      byDeal.set(transition.dealId, dealTransitions);
+    }
+
+    return deals.flatMap(deal => {
+      const createdAt = deal.createdAt ?? new Date(0);
+      const dealTransitions = byDeal.get(deal.id) ?? [];
+      const entries = dealTransitions.map(transition => ({
+        stageId: transition.toStageId,
+        enteredAt: transition.createdAt ?? createdAt,
+      }));
+
+      const firstStageId = dealTransitions.length > 0 ? dealTransitions[0].fromStageId : deal.stageId;
+      if (firstStageId) {
+        entries.unshift({ stageId: firstStageId, enteredAt: createdAt });
+      }
+
+      return entries.map((entry, index) => ({
+        dealId: deal.id,
+        stageId: entry.stageId,
+        enteredAt: entry.enteredAt,
+        leftAt: entries[index + 1]?.enteredAt ?? null,
+      }));
+    });
+  }
+}
+
+export const pipelineService = new PipelineService();
@@ -0,0 +1,105 @@
+import type { Deal, DealLineItem, DealLineItemInput, Product } from '@shared/schema';
+import { calculateLine, calculateTotals, type DealTotals } from '@shared/pricing';
+import type { NewDealLineItem } from './storage';
+
+export interface PricedLines {
+  lines: NewDealLineItem[];
+  totals: DealTotals;
+  // Product ids that aren't in the organization's price book
+  unknownProductIds: number[];
+}
+
+export interface ProductRevenue {
+  productId: number | null;
+  name: string;
+  revenue: number;
+  quantity: number;
+  deals: number;
+}
+
+// Won deals without line items are reported under this name
+const UNITEMIZED = 'Unitemized deals';
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+class ProductService {
+  // Fills in the product's name, price and tax rate wherever the line leaves
+  // them out, then computes the stored amounts
+  priceLines(inputs: DealLineItemInput[], products: Product[]): PricedLines {
+    const productsById = new Map(products.map(product => [product.id, product]));
+    const unknownProductIds: number[] = [];
+
+    const lines = inputs.map((input): NewDealLineItem => {
+      const product = input.productId ? productsById.get(input.productId) : undefined;
+      if (input.productId && !product) {
+        unknownProductIds.push(input.productId);
+      }
+
+      const pricing = {
+        quantity: input.quantity,
+        unitPrice: input.unitPrice ?? parseFloat(product?.unitPrice ?? '0'),
+        discount: input.discount,
+        taxRate: input.taxRate ?? parseFloat(product?.taxRate ?? '0'),
+      };
+      const amounts = calculateLine(pricing);
+
+      return {
+        productId: product?.id ?? null,
+        name: input.name?.trim() || product?.name || '',
+        quantity: String(pricing.quantity),
+        unitPrice: String(pricing.unitPrice),
+        discount: String(pricing.discount),
+        taxRate: String(pricing.taxRate),
+        amount: String(amounts.amount),
+        taxAmount: String(amounts.taxAmount),
+      };
+    });
+
+    return {
+      lines,
+      totals: calculateTotals(lines.map(line => ({
+        quantity: parseFloat(line.quantity ?? '1'),
+        unitPrice: parseFloat(line.unitPrice),
+        discount: parseFloat(line.discount ?? '0'),
+        taxRate: parseFloat(line.taxRate ?? '0'),
+      }))),
+      unknownProductIds,
+    };
+  }
+
+  // Line amounts of won deals, grouped by product. One-off lines group by their
+  // name, and deals sold without lines count their whole value as unitemized.
+  revenueByProduct(wonDeals: Deal[], lineItems: DealLineItem[]): ProductRevenue[] {
+    const rows = new Map<string, ProductRevenue & { dealIds: Set<number> }>();
+    const add = (key: string, productId: number | null, name: string, dealId: number, revenue: number, quantity: number) => {
+      const row = rows.get(key) ?? { productId, name, revenue: 0, quantity: 0, deals: 0, dealIds: new Set<number>() };
+      row.revenue += revenue;
+      row.quantity += quantity;
+      row.dealIds.add(dealId);
+      rows.set(key, row);
+    };
+
+    const linesByDeal = new Map<number, DealLineItem[]>();
+    for (const line of lineItems) {
+      linesByDeal.set(line.dealId, [...(linesByDeal.get(line.dealId) ?? []), line]);
+    }
+
+    for (const deal of wonDeals) {
+      const lines = linesByDeal.get(deal.id) ?? [];
+      if (lines.length === 0) {
+        add(UNITEMIZED, null, UNITEMIZED, deal.id, parseFloat(deal.value || '0') || 0, 0);
+        continue;
+      }
+      for (const line of lines) {
+        const key = line.productId ? `product:${line.productId}` : `line:${line.name.toLowerCase()}`;
+        add(key, line.productId, line.name, deal.id, parseFloat(line.amount), parseFloat(line.quantity));
+      }
+    }
+
+    return Array.from(rows.values())
+      .map(({ dealIds, ...row }) => ({ ...row, revenue: round2(row.revenue), quantity: round2(row.quantity), deals: dealIds.size }))
+      .sort((a, b) => b.revenue - a.revenue);
+  }
+}
+
+export const productService = new ProductService();
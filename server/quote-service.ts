@@ -0,0 +1,285 @@
+import type { Contact, Deal, DealLineItem, Organization, Quote, QuoteSnapshot, User } from '@shared/schema';
+import { calculateTotals } from '@shared/pricing';
+import { PdfDocument, PAGE_HEIGHT, PAGE_WIDTH } from './pdf-document';
+
+export const DEFAULT_QUOTE_VALIDITY_DAYS = 30;
+
+export const DEFAULT_QUOTE_TERMS = [
+  'Prices are in USD. Payment is due within 30 days of invoice.',
+  'This quote is valid until the expiry date shown above. Acceptance after that date is subject to re-confirmation of prices and availability.',
+].join('\n');
+
+const BRAND_COLOR = '#2563eb';
+const MARGIN = 50;
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount);
+
+const formatDate = (date: Date | string) =>
+  new Date(date).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric', timeZone: 'UTC' });
+
+// Anything users or prospects typed goes into HTML through this
+export const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const personName = (person: { firstName?: string | null; lastName?: string | null; email?: string | null }) =>
+  `${person.firstName ?? ''} ${person.lastName ?? ''}`.trim() || person.email || '';
+
+class QuoteService {
+  // Deals without line items are quoted as a single line for their value
+  buildSnapshot(
+    organization: Organization,
+    deal: Deal,
+    contact: Contact | undefined,
+    owner: User | undefined,
+    lineItems: DealLineItem[]
+  ): QuoteSnapshot {
+    const lines: QuoteSnapshot['lines'] = lineItems.length
+      ? lineItems.map(line => ({
+          name: line.name,
+          quantity: parseFloat(line.quantity),
+          unitPrice: parseFloat(line.unitPrice),
+          discount: parseFloat(line.discount),
+          taxRate: parseFloat(line.taxRate),
+          amount: parseFloat(line.amount),
+          taxAmount: parseFloat(line.taxAmount),
+        }))
+      : [{
+          name: deal.title,
+          quantity: 1,
+          unitPrice: parseFloat(deal.value || '0') || 0,
+          discount: 0,
+          taxRate: 0,
+          amount: parseFloat(deal.value || '0') || 0,
+          taxAmount: 0,
+        }];
+
+    return {
+      organization: { name: organization.name, domain: organization.domain, email: organization.billingEmail },
+      deal: { title: deal.title },
+      contact: contact
+        ? { name: personName(contact), email: contact.email, company: contact.company, phone: contact.phone }
+        : null,
+      owner: owner ? { name: personName(owner), email: owner.email } : null,
+      lines,
+      totals: calculateTotals(lines),
+    };
+  }
+
+  fileName(quote: Quote): string {
+    return `${quote.quoteNumber}-v${quote.version}.pdf`;
+  }
+
+  title(quote: Quote): string {
+    return `Quote ${quote.quoteNumber}${quote.version > 1 ? ` (v${quote.version})` : ''}`;
+  }
+
+  renderHtml(quote: Quote): string {
+    const { organization, deal, contact, owner, lines, totals } = quote.snapshot;
+    const cell = 'padding: 8px; border-bottom: 1px solid #e5e7eb;';
+    const right = `${cell} text-align: right;`;
+
+    const rows = lines.map(line => `
+          <tr>
+            <td style="${cell}">${escapeHtml(line.name)}</td>
+            <td style="${right}">${line.quantity}</td>
+            <td style="${right}">${formatCurrency(line.unitPrice)}</td>
+            <td style="${right}">${line.discount ? `${line.discount}%` : ''}</td>
+            <td style="${right}">${line.taxRate ? `${line.taxRate}%` : ''}</td>
+            <td style="${right}">${formatCurrency(line.amount)}</td>
+          </tr>`).join('');
+
+    const totalRow = (label: string, amount: number, bold = false) => `
+          <tr>
+            <td colspan="5" style="padding: 4px 8px; text-align: right;${bold ? ' font-weight: bold;' : ''}">${label}</td>
+            <td style="padding: 4px 8px; text-align: right;${bold ? ' font-weight: bold;' : ''}">${formatCurrency(amount)}</td>
+          </tr>`;
+
+    return `<!DOCTYPE html>
+<html>
+  <head>
+    <meta charset="utf-8">
+    <title>${escapeHtml(this.title(quote))}</title>
+  </head>
+  <body style="font-family: Arial, sans-serif; color: #111827; max-width: 800px; margin: 0 auto; padding: 40px;">
+    <div style="display: flex; justify-content: space-between; border-bottom: 3px solid ${BRAND_COLOR}; padding-bottom: 16px;">
+      <div>
+        <h1 style="color: ${BRAND_COLOR}; margin: 0;">${escapeHtml(organization.name)}</h1>
+        ${organization.domain ? `<div style="color: #6b7280;">${escapeHtml(organization.domain)}</div>` : ''}
+        ${organization.email ? `<div style="color: #6b7280;">${escapeHtml(organization.email)}</div>` : ''}
+      </div>
+      <div style="text-align: right;">
+        <h2 style="margin: 0;">QUOTE</h2>
+        <div>${escapeHtml(quote.quoteNumber)} &middot; Version ${quote.version}</div>
+        <div style="color: #6b7280;">Issued ${formatDate(quote.createdAt ?? new Date())}</div>
+        <div style="color: #6b7280;">Valid until ${formatDate(quote.expiresAt)}</div>
+      </div>
+    </div>
+
+    <div style="display: flex; justify-content: space-between; margin: 24px 0;">
+      <div>
+        <div style="color: #6b7280; font-size: 12px; text-transform: uppercase;">Prepared for</div>
+        ${contact ? `
+        <div style="font-weight: bold;">${escapeHtml(contact.name)}</div>
+        ${contact.company ? `<div>${escapeHtml(contact.company)}</div>` : ''}
+        <div>${escapeHtml(contact.email)}</div>
+        ${contact.phone ? `<div>${escapeHtml(contact.phone)}</div>` : ''}` : '<div>&mdash;</div>'}
+      </div>
+      ${owner ? `
+      <div style="text-align: right;">
+        <div style="color: #6b7280; font-size: 12px; text-transform: uppercase;">Prepared by</div>
+        <div style="font-weight: bold;">${escapeHtml(owner.name)}</div>
+        ${owner.email ? `<div>${escapeHtml(owner.email)}</div>` : ''}
+      </div>` : ''}
+    </div>
+
+    <h3>${escapeHtml(deal.title)}</h3>
+    <table style="width: 100%; border-collapse: collapse;">
+      <thead>
+        <tr style="background: #f3f4f6;">
+          <th style="${cell} text-align: left;">Item</th>
+          <th style="${right}">Qty</th>
+          <th style="${right}">Unit price</th>
+          <th style="${right}">Discount</th>
+          <th style="${right}">Tax</th>
+          <th style="${right}">Amount</th>
+        </tr>
+      </thead>
+      <tbody>${rows}
+      </tbody>
+      <tfoot>${totalRow('Subtotal', totals.amount)}${totals.taxAmount ? totalRow('Tax', totals.taxAmount) : ''}${totalRow('Total', totals.total, true)}
+      </tfoot>
+    </table>
+
+    ${quote.terms ? `
+    <h3>Terms</h3>
+    <div style="color: #374151; white-space: pre-line;">${escapeHtml(quote.terms)}</div>` : ''}
+  </body>
+</html>`;
+  }
+
+  renderPdf(quote: Quote): Buffer {
+    const { organization, deal, contact, owner, lines, totals } = quote.snapshot;
+    const pdf = new PdfDocument();
+    const right = PAGE_WIDTH - MARGIN;
+    const columns = { qty: 330, price: 400, discount: 445, tax: 485, amount: right };
+    let y = MARGIN;
+
+    // Starts a new page when the next block wouldn't fit above the bottom margin
+    const ensureSpace = (height: number) => {
+      if (y + height > PAGE_HEIGHT - MARGIN) {
+        pdf.addPage();
+        y = MARGIN;
+      }
+    };
+
+    pdf.text(MARGIN, y + 18, organization.name, { size: 20, bold: true, color: BRAND_COLOR });
+    pdf.text(right, y + 18, 'QUOTE', { size: 16, bold: true, align: 'right' });
+    y += 36;
+    [organization.domain, organization.email]
+      .filter((detail): detail is string => !!detail)
+      .forEach((detail, index) => pdf.text(MARGIN, y + index * 12, detail, { size: 9, color: '#6b7280' }));
+    pdf.text(right, y, `${quote.quoteNumber} - Version ${quote.version}`, { size: 9, align: 'right' });
+    pdf.text(right, y + 12, `Issued ${formatDate(quote.createdAt ?? new Date())}`, { size: 9, color: '#6b7280', align: 'right' });
+    pdf.text(right, y + 24, `Valid until ${formatDate(quote.expiresAt)}`, { size: 9, color: '#6b7280', align: 'right' });
+    y += 34;
+    pdf.rect(MARGIN, y, right - MARGIN, 2, BRAND_COLOR);
+    y += 24;
+
+    pdf.text(MARGIN, y, 'PREPARED FOR', { size: 8, color: '#6b7280' });
+    if (owner) pdf.text(right, y, 'PREPARED BY', { size: 8, color: '#6b7280', align: 'right' });
+    y += 14;
+    const contactLines = contact ? [contact.name, contact.company, contact.email, contact.phone].filter((line): line is string => !!line) : ['-'];
+    const ownerLines = owner ? [owner.name, owner.email].filter((line): line is string => !!line) : [];
+    for (let index = 0; index < Math.max(contactLines.length, ownerLines.length); index++) {
+      if (contactLines[index]) pdf.text(MARGIN, y, contactLines[index], { bold: index === 0 });
+      if (ownerLines[index]) pdf.text(right, y, ownerLines[index], { bold: index === 0, align: 'right' });
+      y += 13;
+    }
+    y += 14;
+
+    pdf.text(MARGIN, y, deal.title, { size: 13, bold: true });
+    y += 16;
+
+    const header = () => {
+      pdf.rect(MARGIN, y, right - MARGIN, 18, '#f3f4f6');
+      pdf.text(MARGIN + 6, y + 12, 'Item', { size: 9, bold: true });
+      pdf.text(columns.qty, y + 12, 'Qty', { size: 9, bold: true, align: 'right' });
+      pdf.text(columns.price, y + 12, 'Unit price', { size: 9, bold: true, align: 'right' });
+      pdf.text(columns.discount, y + 12, 'Disc.', { size: 9, bold: true, align: 'right' });
+      pdf.text(columns.tax, y + 12, 'Tax', { size: 9, bold: true, align: 'right' });
+      pdf.text(columns.amount - 6, y + 12, 'Amount', { size: 9, bold: true, align: 'right' });
+      y += 18;
+    };
+    header();
+
+    for (const line of lines) {
+      const nameLines = pdf.wrapText(line.name, columns.qty - MARGIN - 50, 9);
+      const height = nameLines.length * 11 + 8;
+      if (y + height > PAGE_HEIGHT - MARGIN) {
+        pdf.addPage();
+        y = MARGIN;
+        header();
+      }
+      nameLines.forEach((nameLine, index) => pdf.text(MARGIN + 6, y + 13 + index * 11, nameLine, { size: 9 }));
+      pdf.text(columns.qty, y + 13, String(line.quantity), { size: 9, align: 'right' });
+      pdf.text(columns.price, y + 13, formatCurrency(line.unitPrice), { size: 9, align: 'right' });
+      pdf.text(columns.discount, y + 13, line.discount ? `${line.discount}%` : '', { size: 9, align: 'right' });
+      pdf.text(columns.tax, y + 13, line.taxRate ? `${line.taxRate}%` : '', { size: 9, align: 'right' });
+      pdf.text(columns.amount - 6, y + 13, formatCurrency(line.amount), { size: 9, align: 'right' });
+      y += height;
+      pdf.line(MARGIN, y, right, y);
+    }
+
+    const totalRows: [string, number][] = [['Subtotal', totals.amount]];
+    if (totals.taxAmount) totalRows.push(['Tax', totals.taxAmount]);
+    totalRows.push(['Total', totals.total]);
+    ensureSpace(totalRows.length * 16 + 10);
+    y += 6;
+    totalRows.forEach(([label, amount], index) => {
+      const bold = index === totalRows.length - 1;
+      pdf.text(columns.tax, y + 12, label, { size: bold ? 11 : 9, bold, align: 'right' });
+      pdf.text(columns.amount - 6, y + 12, formatCurrency(amount), { size: bold ? 11 : 9, bold, align: 'right' });
+      y += 16;
+    });
+
+    if (quote.terms) {
+      y += 20;
+      ensureSpace(30);
+      pdf.text(MARGIN, y, 'Terms', { size: 11, bold: true });
+      y += 14;
+      for (const termsLine of pdf.wrapText(quote.terms, right - MARGIN, 9)) {
+        ensureSpace(12);
+        pdf.text(MARGIN, y, termsLine, { size: 9, color: '#374151' });
+        y += 12;
+      }
+    }
+
+    return pdf.toBuffer();
+  }
+
+  // Cover email for a sent quote; the PDF goes along as an attachment
+  emailContent(quote: Quote, message?: string): { subject: string; htmlContent: string } {
+    const { organization, deal, contact, owner, totals } = quote.snapshot;
+    const greeting = contact ? `Hi ${escapeHtml(contact.name.split(' ')[0])},` : 'Hello,';
+
+    return {
+      subject: `${this.title(quote)} from ${organization.name}: ${deal.title}`,
+      htmlContent: `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <p>${greeting}</p>
+        ${message ? `<p style="white-space: pre-line;">${escapeHtml(message)}</p>` : `<p>Please find attached our quote for ${escapeHtml(deal.title)}.</p>`}
+        <div style="padding: 16px; background-color: #f8f9fa; border-radius: 8px; margin: 20px 0;">
+          <div><strong>${escapeHtml(quote.quoteNumber)}</strong> &middot; Version ${quote.version}</div>
+          <div>Total: <strong>${formatCurrency(totals.total)}</strong></div>
+          <div>Valid until ${formatDate(quote.expiresAt)}</div>
+        </div>
+        <p>Best regards,<br>
+        <strong>${escapeHtml(owner?.name || organization.name)}</strong></p>
+      </div>
+    `,
+    };
+  }
+}
+
+export const quoteService = new QuoteService();
@@ -0,0 +1,30 @@
+import type { NextFunction, Request, Response } from 'express';
+
+// Caps how often one client IP can call a route, for public endpoints that
+// send email or write records without a session. Counts are kept per
+// process in fixed windows, so several server processes each allow the limit.
+export function rateLimit(options: { windowMs: number; max: number; message: string }) {
+  const hits = new Map<string, { count: number; resetAt: number }>();
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    const now = Date.now();
+    const key = req.ip || req.socket.remoteAddress || 'unknown';
+
+    let entry = hits.get(key);
+    if (!entry || entry.resetAt <= now) {
+      // Drop expired windows now and then so the map doesn't grow forever
+      if (hits.size > 10000) {
+        hits.forEach((value, ip) => value.resetAt <= now && hits.delete(ip));
+      }
+      entry = { count: 0, resetAt: now + options.windowMs };
+      hits.set(key, entry);
+    }
+
+    entry.count++;
+    if (entry.count > options.max) {
+      res.setHeader('Retry-After', Math.ceil((entry.resetAt - now) / 1000));
+      return res.status(429).json({ message: options.message });
+    }
+    next();
+  };
+}
@@ -3,10 +3,14 @@ import { Strategy, type VerifyFunction } from "openid-client/passport";
 
 import passport from "passport";
 import session from "express-session";
-import type { Express, RequestHandler } from "express";
+import type { Express, RequestHandler, Request, Response, NextFunction } from "express";
 import memoize from "memoizee";
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
 import connectPg from "connect-pg-simple";
 import { storage } from "./storage";
+import type { User } from "@shared/schema";
+import { hasPermission, type Permission } from "@shared/permissions";
 
 if (!process.env.REPLIT_DOMAINS) {
   throw new Error("Environment variable REPLIT_DOMAINS not provided");
@@ -22,8 +26,10 @@ const getOidcConfig = memoize(
   { maxAge: 3600 * 1000 }
 );
 
+const sessionTtl = 7 * 24 * 60 * 60 * 1000; // 1 week
+const scryptAsync = promisify(scrypt);
+
 export function getSession() {
-  const sessionTtl = 7 * 24 * 60 * 60 * 1000; // 1 week
   const pgStore = connectPg(session);
   const sessionStore = new pgStore({
     conString: process.env.DATABASE_URL,
@@ -44,25 +50,124 @@ export function getSession() {
   });
 }
 
+// claims.sub is the account signed in to, which upsertUser may have found by
+// email, so a token refresh keeps it
 function updateUserSession(
   user: any,
   tokens: client.TokenEndpointResponse & client.TokenEndpointResponseHelpers
 ) {
+  const accountId = user.claims?.sub;
   user.claims = tokens.claims();
+  if (accountId) {
+    user.claims.sub = accountId;
+  }
   user.access_token = tokens.access_token;
   user.refresh_token = tokens.refresh_token;
   user.expires_at = user.claims?.exp;
 }
 
+// A Replit login whose email already has an account, such as an invited
+// member who set a password, signs in to that account, but only when Replit
+// has verified the email. Otherwise the login gets an account of its own,
+// without the email another account holds. Returns the id of the account
+// signed in to.
 async function upsertUser(
   claims: any,
-) {
-  await storage.upsertUser({
-    id: claims["sub"],
+): Promise<string> {
+  const profile = {
     email: claims["email"],
     firstName: claims["first_name"],
     lastName: claims["last_name"],
     profileImageUrl: claims["profile_image_url"],
+  };
+  const existing = profile.email ? await storage.getUserByEmail(profile.email) : undefined;
+  if (existing && existing.id !== claims["sub"]) {
+    if (claims["email_verified"] === true) {
+      const linked = (await storage.updateUser(existing.id, { profileImageUrl: profile.profileImageUrl })) ?? existing;
+      await ensureOrganization(linked);
+      return linked.id;
+    }
+    profile.email = null;
+  }
+
+  const user = await storage.upsertUser({ id: claims["sub"], ...profile });
+  await ensureOrganization(user);
+  return user.id;
+}
+
+// Users who sign up directly (not through an invitation) get their own
+// organization and own it. Returns the organization the user belongs to.
+async function ensureOrganization(user: User): Promise<number> {
+  if (user.organizationId) {
+    return user.organizationId;
+  }
+
+  const displayName = [user.firstName, user.lastName].filter(Boolean).join(" ") || user.email || "My";
+  const organization = await storage.createOrganization({
+    name: `${displayName}'s Workspace`,
+    slug: `org-${user.id}`.toLowerCase().replace(/[^a-z0-9-]/g, "-"),
+    billingEmail: user.email,
+  });
+  await storage.updateUser(user.id, {
+    organizationId: organization.id,
+    organizationRole: "owner",
+  });
+  return organization.id;
+}
+
+// Every tenant-scoped route reads req.organizationId, so it is resolved from
+// the session user here rather than trusted from the request body. Members
+// removed from their organization lose access on their next request.
+async function attachOrganization(req: Request, res: Response, next: NextFunction) {
+  try {
+    const sessionUser = req.user as any;
+    const user = await storage.getUser(sessionUser.claims.sub);
+
+    if (!user || !user.isActive || !user.organizationId) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    (req as any).organizationId = user.organizationId;
+    (req as any).organizationRole = user.organizationRole;
+    return next();
+  } catch (error) {
+    console.error("Error resolving organization:", error);
+    return res.status(500).json({ message: "Failed to resolve organization" });
+  }
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const derivedKey = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${salt}:${derivedKey.toString("hex")}`;
+}
+
+export async function verifyPassword(password: string, passwordHash: string): Promise<boolean> {
+  const [salt, key] = passwordHash.split(":");
+  if (!salt || !key) {
+    return false;
+  }
+  const expected = Buffer.from(key, "hex");
+  const derivedKey = (await scryptAsync(password, salt, 64)) as Buffer;
+  return expected.length === derivedKey.length && timingSafeEqual(expected, derivedKey);
+}
+
+// Invited members sign in with a password instead of Replit OIDC. Their session
+// carries the same claims shape so isAuthenticated and req.user.claims.sub work
+// unchanged; with no refresh token it simply expires with the session cookie.
+export function loginWithPassword(req: Request, user: User): Promise<void> {
+  const sessionUser = {
+    claims: {
+      sub: user.id,
+      email: user.email,
+      first_name: user.firstName,
+      last_name: user.lastName,
+    },
+    expires_at: Math.floor((Date.now() + sessionTtl) / 1000),
+  };
+
+  return new Promise((resolve, reject) => {
+    req.login(sessionUser, (error) => (error ? reject(error) : resolve()));
   });
 }
 
@@ -78,9 +183,9 @@ export async function setupAuth(app: Express) {
     tokens: client.TokenEndpointResponse & client.TokenEndpointResponseHelpers,
     verified: passport.AuthenticateCallback
   ) => {
-    const user = {};
+    const user: any = {};
     updateUserSession(user, tokens);
-    await upsertUser(tokens.claims());
+    user.claims.sub = await upsertUser(tokens.claims());
     verified(null, user);
   };
 
@@ -136,7 +241,7 @@ export const isAuthenticated: RequestHandler = async (req, res, next) => {
 
   const now = Math.floor(Date.now() / 1000);
   if (now <= user.expires_at) {
-    return next();
+    return attachOrganization(req, res, next);
   }
 
   const refreshToken = user.refresh_token;
@@ -149,9 +254,18 @@ export const isAuthenticated: RequestHandler = async (req, res, next) => {
     const config = await getOidcConfig();
     const tokenResponse = await client.refreshTokenGrant(config, refreshToken);
     updateUserSession(user, tokenResponse);
-    return next();
+    return attachOrganization(req, res, next);
   } catch (error) {
     res.status(401).json({ message: "Unauthorized" });
     return;
   }
-};
\ No newline at end of file
+};
+// Use after isAuthenticated, which resolves req.organizationRole from the database
+export function requirePermission(permission: Permission): RequestHandler {
+  return (req, res, next) => {
+    if (!hasPermission((req as any).organizationRole, permission)) {
+      return res.status(403).json({ message: "You don't have permission to perform this action" });
+    }
+    next();
+  };
+}
@@ -2,57 +2,394 @@ import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import { aiService } from "./ai-service";
-import { setupAuth, isAuthenticated } from "./replitAuth";
+import { setupAuth, isAuthenticated, requirePermission, hashPassword, verifyPassword, loginWithPassword } from "./replitAuth";
 import { AdvancedLeadScoring } from "./lead-scoring";
-import { CampaignAutomation } from "./campaign-automation";
 import { emailService } from "./email-service";
 import { calendarService } from "./calendar-service";
 import { whatsappService } from "./whatsapp-service";
 import { simpleWhatsAppService } from "./whatsapp-simple";
-import { insertContactSchema, insertActivitySchema, insertTaskSchema, insertDealSchema, insertEmailTemplateSchema, insertWhatsappTemplateSchema } from "@shared/schema";
+import { contactImportService, MAX_IMPORT_ROWS } from "./contact-import";
+import { contactExportService, exportFormats, exportContentTypes, type ExportFormat } from "./contact-export";
+import { contactDedupeService } from "./contact-dedupe";
+import { pipelineService } from "./pipeline-service";
+import { forecastService, forecastPeriods } from "./forecast-service";
+import { productService, type PricedLines } from "./product-service";
+import { quoteService, DEFAULT_QUOTE_TERMS, DEFAULT_QUOTE_VALIDITY_DAYS } from "./quote-service";
+import { jobQueue } from "./job-queue";
+import { enqueueMeetingReminder } from "./job-handlers";
+import { campaignService, enrollmentActions } from "./campaign-service";
+import { CampaignAutomation } from "./campaign-automation";
+import { abTestService } from "./ab-test-service";
+import { emailTrackingService, TRACKING_PIXEL } from "./email-tracking";
+import { consentService } from "./consent-service";
+import { mailboxService } from "./mailbox-service";
+import { bookingService } from "./booking-service";
+import { caldavService } from "./caldav-service";
+import { teamSchedulingService } from "./team-scheduling-service";
+import { rateLimit } from "./rate-limit";
+import { insertContactSchema, insertActivitySchema, insertTaskSchema, insertDealSchema, insertEmailTemplateSchema, insertWhatsappTemplateSchema, insertCustomFieldDefinitionSchema, pipelineWithStagesSchema, insertProductSchema, dealLineItemInputSchema, buildCustomFieldsSchema, type User, type Invitation, type CustomFieldValues, type Contact, type Deal, type InsertDeal, type PipelineStage, jobStatuses, consentChannels, consentStatuses, suppressionReasons, whatsappConversationStatuses, meetingTypes, calendarEventStatuses, type EmailMessage } from "@shared/schema";
+import { campaignSequenceInputSchema, campaignStepSchema, sequenceIssues } from "@shared/campaigns";
+import { bookingPageInputSchema, bookingRequestSchema, bookingTypeInputSchema } from "@shared/booking";
+import { availabilityInputSchema, availabilityOverrideInputSchema, holidayCalendarInputSchema, holidayInputSchema, holidayPresets, zonedParts } from "@shared/availability";
 import { z } from "zod";
+import { randomBytes, randomUUID } from "crypto";
+
+const INVITATION_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+const INVITABLE_ROLES = ["admin", "member"];
+
+// Password hashes never leave the server
+function toTeamMember(user: User) {
+  const { passwordHash, ...member } = user;
+  return member;
+}
+
+// Active members plus still-valid pending invitations count against organizations.maxUsers
+async function getRemainingSeats(organizationId: number): Promise<number> {
+  const organization = await storage.getOrganization(organizationId);
+  if (!organization) return 0;
+
+  const members = await storage.getOrganizationUsers(organizationId);
+  const pending = (await storage.getPendingInvitations(organizationId))
+    .filter(invitation => invitation.expiresAt > new Date());
+  return organization.maxUsers - members.length - pending.length;
+}
+
+async function sendInvitationEmail(req: any, invitation: Invitation) {
+  const inviteLink = `${req.protocol}://${req.hostname}/join-team?token=${invitation.token}&email=${encodeURIComponent(invitation.email)}`;
+
+  await emailService.sendSingleEmail({
+    organizationId: invitation.organizationId,
+    to: invitation.email,
+    subject: 'You\'re invited to join CRMWIZH team',
+    htmlContent: `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2 style="color: #333;">Team Invitation</h2>
+        <p>You've been invited to join the CRMWIZH team as a <strong>${invitation.role}</strong>.</p>
+        <p>Click the button below to accept the invitation and set up your account:</p>
+        <div style="text-align: center; margin: 30px 0;">
+          <a href="${inviteLink}" style="background-color: #007bff; color: white; padding: 12px 24px; text-decoration: none; border-radius: 5px; display: inline-block;">Accept Invitation</a>
+        </div>
+        <p style="color: #666; font-size: 14px;">This invitation will expire on ${invitation.expiresAt.toDateString()}.</p>
+        <hr style="border: none; border-top: 1px solid #eee; margin: 30px 0;">
+        <p style="color: #999; font-size: 12px;">If you didn't expect this invitation, you can safely ignore this email.</p>
+      </div>
+    `,
+    textContent: `You've been invited to join the CRMWIZH team as a ${invitation.role}. Visit this link to accept: ${inviteLink}`
+  });
+}
+
+// Activities, tasks and deals may only point at contacts in the caller's organization
+async function isContactInOrganization(organizationId: number, contactId?: number | null): Promise<boolean> {
+  if (!contactId) return true;
+  return !!(await storage.getContact(organizationId, contactId));
+}
+
+async function isUserInOrganization(organizationId: number, userId?: string | null): Promise<boolean> {
+  if (!userId) return true;
+  const users = await storage.getOrganizationUsers(organizationId);
+  return users.some(user => user.id === userId);
+}
+
+// customFields is validated against the organization's definitions, which only
+// exist at runtime. On update, the incoming values are merged over the stored ones.
+async function parseCustomFields(
+  organizationId: number,
+  entityType: "contact" | "deal",
+  values: CustomFieldValues | undefined,
+  existing?: CustomFieldValues | null
+): Promise<CustomFieldValues> {
+  const definitions = await storage.getCustomFieldDefinitions(organizationId, entityType);
+  return buildCustomFieldsSchema(definitions).parse({ ...existing, ...values });
+}
+
+// Multi-select fields match when they contain the value; everything else compares case-insensitively
+function matchesCustomField(value: unknown, expected: string): boolean {
+  if (Array.isArray(value)) return value.includes(expected);
+  if (value === null || value === undefined) return false;
+  return String(value).toLowerCase() === expected.toLowerCase();
+}
+
+// The contacts and leads lists and their exports share these filters, so an
+// export always contains exactly what the list showed
+async function findContacts(organizationId: number, query: any): Promise<Contact[]> {
+  const { search, status, score, custom, sortBy, sortOrder } = query;
+  let contacts = search && typeof search === "string"
+    ? await storage.searchContacts(organizationId, search)
+    : await storage.getAllContacts(organizationId);
+
+  if (status && typeof status === "string") {
+    contacts = contacts.filter(c => c.leadStatus === status);
+  }
+
+  if (score && typeof score === "string") {
+    const minScore = parseInt(score);
+    contacts = contacts.filter(c => (c.leadScore || 0) >= minScore);
+  }
+
+  // ?custom[industry]=SaaS&custom[regions]=APAC
+  if (custom && typeof custom === "object") {
+    for (const [key, expected] of Object.entries(custom)) {
+      if (typeof expected !== "string") continue;
+      contacts = contacts.filter(c => matchesCustomField(c.customFields?.[key], expected));
+    }
+  }
+
+  if (sortBy === "name" || sortBy === "score" || sortBy === "date") {
+    const direction = sortOrder === "asc" ? 1 : -1;
+    contacts = [...contacts].sort((a, b) => {
+      if (sortBy === "name") {
+        return direction * `${a.firstName} ${a.lastName}`.localeCompare(`${b.firstName} ${b.lastName}`);
+      }
+      if (sortBy === "score") {
+        return direction * ((a.leadScore || 0) - (b.leadScore || 0));
+      }
+      return direction * ((a.createdAt?.getTime() ?? 0) - (b.createdAt?.getTime() ?? 0));
+    });
+  }
+
+  return contacts;
+}
+
+// Mirrors the pipeline page filters: search covers the deal title and the contact's name and company
+async function findDeals(organizationId: number, query: any): Promise<Deal[]> {
+  const { contactId, pipelineId, stageId, probability, search } = query;
+  let deals = contactId && typeof contactId === "string"
+    ? await storage.getContactDeals(organizationId, parseInt(contactId))
+    : await storage.getAllDeals(organizationId);
+
+  if (pipelineId && typeof pipelineId === "string") {
+    const stageIds = new Set((await storage.getPipelineStages(organizationId, parseInt(pipelineId))).map(stage => stage.id));
+    deals = deals.filter(d => d.stageId !== null && stageIds.has(d.stageId));
+  }
+
+  if (stageId && typeof stageId === "string") {
+    deals = deals.filter(d => d.stageId === parseInt(stageId));
+  }
+
+  if (probability === "high" || probability === "medium" || probability === "low") {
+    deals = deals.filter(d => {
+      const value = d.probability || 0;
+      if (probability === "high") return value >= 75;
+      if (probability === "medium") return value >= 50 && value < 75;
+      return value < 50;
+    });
+  }
+
+  if (search && typeof search === "string") {
+    const searchLower = search.toLowerCase();
+    const contacts = new Map((await storage.getAllContacts(organizationId)).map(c => [c.id, c]));
+    deals = deals.filter(d => {
+      const contact = d.contactId ? contacts.get(d.contactId) : undefined;
+      return d.title.toLowerCase().includes(searchLower) ||
+        (!!contact && (
+          `${contact.firstName} ${contact.lastName}`.toLowerCase().includes(searchLower) ||
+          !!contact.company?.toLowerCase().includes(searchLower)
+        ));
+    });
+  }
+
+  return deals;
+}
+
+// Entering a stage applies its default probability unless one was sent, and
+// won/lost stages stamp the close date
+function applyStage(dealData: Partial<InsertDeal>, stage: PipelineStage) {
+  dealData.stageId = stage.id;
+  if (dealData.probability === undefined) {
+    dealData.probability = stage.probability;
+  }
+  if (stage.outcome === "open") {
+    dealData.actualCloseDate = null;
+  } else if (!dealData.actualCloseDate) {
+    dealData.actualCloseDate = new Date();
+  }
+}
 
-// Team member storage
-interface TeamMember {
-  id: string;
-  firstName: string;
-  lastName: string;
-  email: string;
-  role: string;
-  organizationRole: string;
-  isActive: boolean;
-  joinedAt: Date;
-  invitationId?: number;
-  password?: string;
-  hasCompletedSetup?: boolean;
+// Prices the deal's lineItems against the organization's products, or returns
+// undefined when the request leaves the lines alone
+async function priceLineItems(organizationId: number, body: any): Promise<PricedLines | undefined> {
+  if (body?.lineItems === undefined) return undefined;
+  const inputs = z.array(dealLineItemInputSchema).parse(body.lineItems);
+  return productService.priceLines(inputs, await storage.getProducts(organizationId));
 }
 
-interface Invitation {
-  id: number;
-  email: string;
-  role: string;
-  invitedBy: string;
-  invitedAt: Date;
-  expiresAt: Date;
-  status: 'pending' | 'accepted' | 'expired';
-  acceptedAt?: Date;
+const exportQuerySchema = z.object({
+  format: z.enum(exportFormats).default("csv"),
+});
+
+const createQuoteSchema = z.object({
+  // Defaults to DEFAULT_QUOTE_VALIDITY_DAYS from today
+  expiresAt: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).transform(value => new Date(`${value}T23:59:59Z`)).optional(),
+  terms: z.string().optional(),
+});
+
+const sendQuoteSchema = z.object({
+  // Defaults to the contact the quote was prepared for
+  to: z.string().email().optional(),
+  message: z.string().optional(),
+});
+
+const contactConsentSchema = z.object({
+  channel: z.enum(consentChannels),
+  status: z.enum(consentStatuses),
+});
+
+const suppressionInputSchema = z.object({
+  channel: z.enum(consentChannels),
+  address: z.string().trim().min(1, "Address is required"),
+  reason: z.enum(suppressionReasons).default("manual"),
+});
+
+// What the recipient wants on each channel they have an address on; channels
+// left out are not changed
+const preferencesUpdateSchema = z.object({
+  email: z.boolean().optional(),
+  whatsapp: z.boolean().optional(),
+  sms: z.boolean().optional(),
+});
+
+// The password may be left out when changing a connected mailbox's settings
+const mailboxSettingsSchema = z.object({
+  emailAddress: z.string().trim().email(),
+  displayName: z.string().trim().max(100).nullable().optional(),
+  imapHost: z.string().trim().min(1, "IMAP server is required"),
+  imapPort: z.coerce.number().int().min(1).max(65535).default(993),
+  imapSecure: z.boolean().default(true),
+  smtpHost: z.string().trim().min(1, "SMTP server is required"),
+  smtpPort: z.coerce.number().int().min(1).max(65535).default(465),
+  smtpSecure: z.boolean().default(true),
+  username: z.string().trim().min(1, "Username is required"),
+  password: z.string().optional(),
+});
+
+const mailboxSendSchema = z.object({
+  subject: z.string().trim().min(1, "Subject is required"),
+  body: z.string().min(1, "Message is required"),
+  // An email in the contact's history this one answers
+  replyToId: z.number().int().optional(),
+});
+
+const scheduleMeetingSchema = z.object({
+  contactId: z.number().int(),
+  dealId: z.number().int().nullable().optional(),
+  // Tried in order; the first one that's free is booked
+  proposedTimes: z.array(z.coerce.date()).min(1, "Propose at least one time"),
+  meetingType: z.enum(meetingTypes).default("follow-up"),
+  duration: z.number().int().min(15).max(480).optional(),
+  description: z.string().optional(),
+  location: z.string().optional(),
+  attendees: z.array(z.object({ email: z.string().email(), name: z.string().min(1) })).optional(),
+});
+
+const meetingStatusSchema = z.object({
+  status: z.enum(calendarEventStatuses),
+});
+
+const meetingTimeSchema = z.object({
+  startTime: z.coerce.date(),
+});
+
+// The password may be left out when changing a connected calendar's settings
+const calendarAccountSchema = z.object({
+  serverUrl: z.string().trim().url("Enter the calendar's address").refine(url => url.startsWith("https://"), "The calendar's address must start with https://"),
+  username: z.string().trim().min(1, "Username is required"),
+  password: z.string().optional(),
+});
+
+const calendarFeedPath = (token: string) => `/api/calendar/feed/${token}.ics`;
+
+const whatsappReplySchema = z.object({
+  body: z.string().trim().min(1, "Message is required").max(4096),
+});
+
+const whatsappConversationUpdateSchema = z.object({
+  assignedTo: z.string().nullable().optional(),
+  status: z.enum(whatsappConversationStatuses).optional(),
+});
+
+const whatsappSettingsSchema = z.object({
+  phoneNumberId: z.string().trim().regex(/^\d+$/, "Phone number ID is the number Meta shows for it, digits only").nullable(),
+  // Needed unless the connected number is saved again
+  accessToken: z.string().trim().min(1).optional(),
+});
+
+// Free-form WhatsApp messages are only allowed within 24 hours of the
+// contact's last message; after that only templates are
+const WHATSAPP_REPLY_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+// Public bookings email whatever address is given, so one client can only
+// book a few meetings an hour
+const publicBookingLimit = rateLimit({
+  windowMs: 60 * 60 * 1000,
+  max: 10,
+  message: "Too many bookings from your network. Please try again later.",
+});
+
+const autoScheduleSchema = z.object({
+  contactId: z.coerce.number().int(),
+  urgency: z.enum(["high", "medium", "low"]).default("medium"),
+  // A round-robin or collective meeting type whose pool takes the meeting
+  bookingTypeId: z.number().int().nullable().optional(),
+});
+
+const assignmentReportQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(365).default(30),
+});
+
+const forecastQuerySchema = z.object({
+  period: z.enum(forecastPeriods).default("month"),
+  periods: z.coerce.number().int().min(1).max(12).default(6),
+  // Defaults to two periods back, so recent calls can be compared with what closed
+  from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).transform(value => new Date(`${value}T00:00:00Z`)).optional(),
+  pipelineId: z.coerce.number().int().optional(),
+});
+
+// Logged before the file is sent so an interrupted download is still on record
+async function startExport(req: any, res: any, entityType: "contacts" | "leads" | "deals", format: ExportFormat, rowCount: number) {
+  const { format: _format, ...filters } = req.query;
+  await storage.createExportLog(req.organizationId, {
+    userId: req.user.claims.sub,
+    entityType,
+    format,
+    filters,
+    rowCount,
+  });
+
+  const fileName = `${entityType}-${new Date().toISOString().slice(0, 10)}.${format}`;
+  res.setHeader("Content-Type", exportContentTypes[format]);
+  res.setHeader("Content-Disposition", `attachment; filename="${fileName}"`);
+}
+
+async function sendContactExport(req: any, res: any, entityType: "contacts" | "leads") {
+  const { format } = exportQuerySchema.parse(req.query);
+  const contacts = await findContacts(req.organizationId, req.query);
+  await startExport(req, res, entityType, format, contacts.length);
+
+  if (format === "vcf") {
+    return res.send(contactExportService.toVCard(contacts));
+  }
+
+  const definitions = await storage.getCustomFieldDefinitions(req.organizationId, "contact");
+  const columns = contactExportService.contactColumns(definitions);
+  if (format === "xlsx") {
+    return res.send(await contactExportService.toXlsx(columns, contacts, entityType === "leads" ? "Leads" : "Contacts"));
+  }
+
+  await contactExportService.streamCsv(res, columns, contacts);
+  res.end();
 }
 
-const teamStore: TeamMember[] = [
-  {
-    id: "test-member-1",
-    firstName: "Febri",
-    lastName: "Test",
-    email: "febri@mediawave.co.id",
-    role: "user",
-    organizationRole: "member",
-    isActive: true,
-    joinedAt: new Date(),
-    password: "test123",
-    hasCompletedSetup: true
+function handleExportError(res: any, error: unknown, message: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ message: "Invalid export format", errors: error.errors });
+  }
+  console.error(message, error);
+  // Once streaming has started the status line is gone; cut the download short instead
+  if (res.headersSent) {
+    return res.end();
   }
-];
-const invitationStore: Invitation[] = [];
+  res.status(500).json({ message });
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Auth middleware
@@ -63,7 +400,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const userId = req.user.claims.sub;
       const user = await storage.getUser(userId);
-      res.json(user);
+      res.json(user ? toTeamMember(user) : user);
     } catch (error) {
       console.error("Error fetching user:", error);
       res.status(500).json({ message: "Failed to fetch user" });
@@ -74,42 +411,33 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post('/api/auth/login', async (req, res) => {
     try {
       const { email, password } = req.body;
-      
-      // Find team member by email
-      const teamMember = teamStore.find(member => member.email === email);
-      
-      if (!teamMember) {
-        return res.status(401).json({ message: "Invalid email or password" });
+
+      if (!email || !password) {
+        return res.status(400).json({ message: "Email and password are required" });
       }
-      
-      // Check if member has completed setup
-      if (!teamMember.hasCompletedSetup) {
-        return res.status(401).json({ message: "Please complete your account setup first" });
+
+      const user = await storage.getUserByEmail(email);
+
+      // Members who haven't accepted an invitation have no password to check
+      if (!user || !user.passwordHash || !user.isActive || !user.organizationId) {
+        return res.status(401).json({ message: "Invalid email or password" });
       }
-      
-      // Verify password (in production, use proper password hashing)
-      if (teamMember.password !== password) {
+
+      if (!(await verifyPassword(password, user.passwordHash))) {
         return res.status(401).json({ message: "Invalid email or password" });
       }
-      
-      // Create session for team member
-      (req.session as any).teamMember = {
-        id: teamMember.id,
-        email: teamMember.email,
-        firstName: teamMember.firstName,
-        lastName: teamMember.lastName,
-        role: teamMember.role,
-        organizationRole: teamMember.organizationRole
-      };
-      
+
+      const loggedInUser = await storage.updateUser(user.id, { lastLoginAt: new Date() }) ?? user;
+      await loginWithPassword(req, loggedInUser);
+
       res.json({ 
         success: true, 
         user: {
-          id: teamMember.id,
-          email: teamMember.email,
-          firstName: teamMember.firstName,
-          lastName: teamMember.lastName,
-          role: teamMember.role
+          id: loggedInUser.id,
+          email: loggedInUser.email,
+          firstName: loggedInUser.firstName,
+          lastName: loggedInUser.lastName,
+          role: loggedInUser.role
         }
       });
     } catch (error) {
@@ -119,27 +447,144 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Protected Contacts routes
-  app.get("/api/contacts", isAuthenticated, async (req, res) => {
+  app.get("/api/contacts", isAuthenticated, async (req: any, res) => {
     try {
-      const { search } = req.query;
-      let contacts;
-      
-      if (search && typeof search === "string") {
-        contacts = await storage.searchContacts(search);
-      } else {
-        contacts = await storage.getAllContacts();
-      }
-      
+      const contacts = await findContacts(req.organizationId, req.query);
       res.json(contacts);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch contacts" });
     }
   });
 
-  app.get("/api/contacts/:id", async (req, res) => {
+  app.get("/api/contacts/export", isAuthenticated, async (req: any, res) => {
+    try {
+      await sendContactExport(req, res, "contacts");
+    } catch (error) {
+      handleExportError(res, error, "Failed to export contacts");
+    }
+  });
+
+  // Groups of contacts that share an email or phone, or have near-identical names at the same company
+  app.get("/api/contacts/duplicates", isAuthenticated, requirePermission("contacts:merge"), async (req: any, res) => {
+    try {
+      const groups = await contactDedupeService.findDuplicateGroups(req.organizationId);
+      res.json(groups);
+    } catch (error) {
+      console.error("Error finding duplicate contacts:", error);
+      res.status(500).json({ message: "Failed to find duplicate contacts" });
+    }
+  });
+
+  app.post("/api/contacts/merge", isAuthenticated, requirePermission("contacts:merge"), async (req: any, res) => {
+    try {
+      const { survivorId, mergeIds, fields } = z.object({
+        survivorId: z.number().int(),
+        mergeIds: z.array(z.number().int()).min(1),
+        fields: z.record(z.number().int()).default({}),
+      }).parse(req.body);
+
+      const otherIds = Array.from(new Set(mergeIds)).filter(id => id !== survivorId);
+      if (otherIds.length === 0) {
+        return res.status(400).json({ message: "Select at least one other contact to merge" });
+      }
+
+      const survivor = await storage.getContact(req.organizationId, survivorId);
+      const others = await Promise.all(otherIds.map(id => storage.getContact(req.organizationId, id)));
+      if (!survivor || others.some(contact => !contact)) {
+        return res.status(404).json({ message: "Contact not found" });
+      }
+      const mergedContacts = others as NonNullable<(typeof others)[number]>[];
+
+      const update = contactDedupeService.buildMergedContact(survivor, mergedContacts, fields);
+      const merged = await storage.mergeContacts(req.organizationId, survivorId, otherIds, update);
+      if (!merged) {
+        return res.status(404).json({ message: "Contact not found" });
+      }
+      // The merged contacts' emails now count toward the survivor
+      const contact = { ...merged, emailEngagement: await emailTrackingService.refreshEngagement(req.organizationId, merged.id) };
+
+      await storage.createActivity(req.organizationId, {
+        contactId: contact.id,
+        type: "note",
+        title: `Merged ${mergedContacts.length} duplicate contact${mergedContacts.length === 1 ? "" : "s"}`,
+        description: mergedContacts.map(merged => `${merged.firstName} ${merged.lastName} <${merged.email}>`).join("\n"),
+        createdBy: req.user.claims.sub,
+      });
+
+      res.json(contact);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid merge request", errors: error.errors });
+      }
+      console.error("Error merging contacts:", error);
+      res.status(500).json({ message: "Failed to merge contacts" });
+    }
+  });
+
+  // Contact import wizard: parse the file, preview validation and duplicates, then commit
+  const importRequestSchema = z.object({
+    rows: z.array(z.record(z.coerce.string())).max(MAX_IMPORT_ROWS),
+    mapping: z.record(z.string()),
+  });
+
+  app.post("/api/contacts/import/parse", isAuthenticated, requirePermission("contacts:import"), async (req: any, res) => {
+    try {
+      const { fileName, content } = z.object({
+        fileName: z.string().regex(/\.(csv|xlsx)$/i, "Upload a .csv or .xlsx file"),
+        content: z.string().min(1),
+      }).parse(req.body);
+
+      const { headers, rows } = await contactImportService.parseSpreadsheet(fileName, Buffer.from(content, "base64"));
+      if (headers.length === 0) {
+        return res.status(400).json({ message: "The file has no header row" });
+      }
+      if (rows.length > MAX_IMPORT_ROWS) {
+        return res.status(400).json({ message: `Imports are limited to ${MAX_IMPORT_ROWS} rows per file` });
+      }
+
+      const definitions = await storage.getCustomFieldDefinitions(req.organizationId, "contact");
+      res.json({ headers, rows, suggestedMapping: contactImportService.suggestMapping(headers, definitions) });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message ?? "Invalid import file", errors: error.errors });
+      }
+      console.error("Error parsing import file:", error);
+      res.status(500).json({ message: "Failed to read import file" });
+    }
+  });
+
+  app.post("/api/contacts/import/preview", isAuthenticated, requirePermission("contacts:import"), async (req: any, res) => {
+    try {
+      const { rows, mapping } = importRequestSchema.parse(req.body);
+      const analysis = await contactImportService.analyzeImport(req.organizationId, rows, mapping);
+      res.json(analysis);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid import request", errors: error.errors });
+      }
+      console.error("Error previewing import:", error);
+      res.status(500).json({ message: "Failed to preview import" });
+    }
+  });
+
+  app.post("/api/contacts/import/commit", isAuthenticated, requirePermission("contacts:import"), async (req: any, res) => {
+    try {
+      const { rows, mapping } = importRequestSchema.parse(req.body);
+      const result = await contactImportService.commitImport(req.organizationId, req.user.claims.sub, rows, mapping);
+      res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid import request", errors: error.errors });
+      }
+      console.error("Error importing contacts:", error);
+      res.status(500).json({ message: "Failed to import contacts" });
+    }
+  });
+
+  app.get("/api/contacts/:id", isAuthenticated, async (req: any, res) => {
     try {
       const id = parseInt(req.params.id);
-      const contact = await storage.getContact(id);
+      const contact = await storage.getContact(req.organizationId, id);
       
       if (!contact) {
         return res.status(404).json({ message: "Contact not found" });
@@ -151,10 +596,105 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/contacts", async (req, res) => {
+  // Every email logged for the contact, newest first
+  app.get("/api/contacts/:id/emails", isAuthenticated, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const contact = await storage.getContact(req.organizationId, id);
+      if (!contact) {
+        return res.status(404).json({ message: "Contact not found" });
+      }
+
+      const messages = await storage.getContactEmailMessages(req.organizationId, id);
+      res.json(messages.map(({ trackingToken, links, ...message }) => message));
+    } catch (error) {
+      console.error("Error fetching contact emails:", error);
+      res.status(500).json({ message: "Failed to fetch contact emails" });
+    }
+  });
+
+  // Record a contact's consent on one channel, e.g. after they opted in by phone
+  app.put("/api/contacts/:id/consent", isAuthenticated, async (req: any, res) => {
+    try {
+      const { channel, status } = contactConsentSchema.parse(req.body);
+      const contact = await storage.getContact(req.organizationId, parseInt(req.params.id));
+      if (!contact) {
+        return res.status(404).json({ message: "Contact not found" });
+      }
+
+      const updated = await consentService.setConsent(contact, channel, status, {
+        source: "manual",
+        createdBy: req.user.claims.sub,
+      });
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid consent", errors: error.errors });
+      }
+      console.error("Error updating consent:", error);
+      res.status(500).json({ message: "Failed to update consent" });
+    }
+  });
+
+  // Suppression list
+  app.get("/api/suppressions", isAuthenticated, async (req: any, res) => {
+    try {
+      const channel = consentChannels.find(candidate => candidate === req.query.channel);
+      res.json(await storage.getSuppressions(req.organizationId, channel));
+    } catch (error) {
+      console.error("Error fetching suppressions:", error);
+      res.status(500).json({ message: "Failed to fetch suppression list" });
+    }
+  });
+
+  app.post("/api/suppressions", isAuthenticated, requirePermission("campaigns:manage"), async (req: any, res) => {
+    try {
+      const { channel, address, reason } = suppressionInputSchema.parse(req.body);
+      if (channel === "email" && !z.string().email().safeParse(address).success) {
+        return res.status(400).json({ message: "Enter a valid email address" });
+      }
+      if (channel !== "email" && !consentService.normalizeAddress(channel, address)) {
+        return res.status(400).json({ message: "Enter a valid phone number" });
+      }
+
+      const suppression = await consentService.suppress(req.organizationId, channel, address, reason, {
+        source: "manual",
+        createdBy: req.user.claims.sub,
+      });
+      res.status(201).json(suppression);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid suppression", errors: error.errors });
+      }
+      console.error("Error adding suppression:", error);
+      res.status(500).json({ message: "Failed to add to suppression list" });
+    }
+  });
+
+  // Removing an address doesn't change a contact's consent; a contact who
+  // opted out stays opted out until they or a user opt them back in
+  app.delete("/api/suppressions/:id", isAuthenticated, requirePermission("campaigns:manage"), async (req: any, res) => {
+    try {
+      const deleted = await storage.deleteSuppression(req.organizationId, parseInt(req.params.id));
+      if (!deleted) {
+        return res.status(404).json({ message: "Suppression not found" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error removing suppression:", error);
+      res.status(500).json({ message: "Failed to remove from suppression list" });
+    }
+  });
+
+  app.post("/api/contacts", isAuthenticated, async (req: any, res) => {
     try {
       const contactData = insertContactSchema.parse(req.body);
-      const contact = await storage.createContact(contactData);
+      const conflict = await contactDedupeService.findEmailConflict(req.organizationId, contactData.email);
+      if (conflict) {
+        return res.status(409).json({ message: "A contact with this email already exists", duplicateOfContactId: conflict.id });
+      }
+      contactData.customFields = await parseCustomFields(req.organizationId, "contact", contactData.customFields);
+      const contact = await storage.createContact(req.organizationId, contactData);
       res.status(201).json(contact);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -164,11 +704,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/contacts/:id", async (req, res) => {
+  app.patch("/api/contacts/:id", isAuthenticated, async (req: any, res) => {
     try {
       const id = parseInt(req.params.id);
       const contactData = insertContactSchema.partial().parse(req.body);
-      const contact = await storage.updateContact(id, contactData);
+      if (contactData.email) {
+        const conflict = await contactDedupeService.findEmailConflict(req.organizationId, contactData.email, id);
+        if (conflict) {
+          return res.status(409).json({ message: "A contact with this email already exists", duplicateOfContactId: conflict.id });
+        }
+      }
+      if (contactData.customFields) {
+        const existing = await storage.getContact(req.organizationId, id);
+        if (!existing) {
+          return res.status(404).json({ message: "Contact not found" });
+        }
+        contactData.customFields = await parseCustomFields(req.organizationId, "contact", contactData.customFields, existing.customFields);
+      }
+      const contact = await storage.updateContact(req.organizationId, id, contactData);
       
       if (!contact) {
         return res.status(404).json({ message: "Contact not found" });
@@ -183,10 +736,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/contacts/:id", async (req, res) => {
+  app.delete("/api/contacts/:id", isAuthenticated, requirePermission("contacts:delete"), async (req: any, res) => {
     try {
       const id = parseInt(req.params.id);
-      const deleted = await storage.deleteContact(id);
+      const deleted = await storage.deleteContact(req.organizationId, id);
       
       if (!deleted) {
         return res.status(404).json({ message: "Contact not found" });
@@ -199,15 +752,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Activities routes
-  app.get("/api/activities", isAuthenticated, async (req, res) => {
+  app.get("/api/activities", isAuthenticated, async (req: any, res) => {
     try {
       const { contactId } = req.query;
       let activities;
       
       if (contactId && typeof contactId === "string") {
-        activities = await storage.getContactActivities(parseInt(contactId));
+        activities = await storage.getContactActivities(req.organizationId, parseInt(contactId));
       } else {
-        activities = await storage.getAllActivities();
+        activities = await storage.getAllActivities(req.organizationId);
       }
       
       res.json(activities);
@@ -216,10 +769,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/activities", isAuthenticated, async (req, res) => {
+  app.post("/api/activities", isAuthenticated, async (req: any, res) => {
     try {
       const activityData = insertActivitySchema.parse(req.body);
-      const activity = await storage.createActivity(activityData);
+      if (!(await isContactInOrganization(req.organizationId, activityData.contactId))) {
+        return res.status(404).json({ message: "Contact not found" });
+      }
+      const activity = await storage.createActivity(req.organizationId, activityData);
+      // A logged reply or meeting takes the contact out of their sequences
+      await campaignService.checkExits(req.organizationId, activity.contactId);
       res.status(201).json(activity);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -230,15 +788,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Tasks routes
-  app.get("/api/tasks", isAuthenticated, async (req, res) => {
+  app.get("/api/tasks", isAuthenticated, async (req: any, res) => {
     try {
       const { contactId } = req.query;
       let tasks;
       
       if (contactId && typeof contactId === "string") {
-        tasks = await storage.getContactTasks(parseInt(contactId));
+        tasks = await storage.getContactTasks(req.organizationId, parseInt(contactId));
       } else {
-        tasks = await storage.getAllTasks();
+        tasks = await storage.getAllTasks(req.organizationId);
       }
       
       res.json(tasks);
@@ -247,10 +805,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/tasks", async (req, res) => {
+  app.post("/api/tasks", isAuthenticated, async (req: any, res) => {
     try {
       const taskData = insertTaskSchema.parse(req.body);
-      const task = await storage.createTask(taskData);
+      if (!(await isContactInOrganization(req.organizationId, taskData.contactId))) {
+        return res.status(404).json({ message: "Contact not found" });
+      }
+      const task = await storage.createTask(req.organizationId, taskData);
       res.status(201).json(task);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -260,11 +821,50 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/tasks/:id", async (req, res) => {
+  // Bulk task operations. Registered before /api/tasks/:id, which would
+  // otherwise take "bulk" for an id.
+  const bulkTaskUpdateSchema = z.object({
+    ids: z.array(z.number().int()).min(1, "Invalid task IDs"),
+    updates: insertTaskSchema.partial(),
+  });
+
+  app.patch("/api/tasks/bulk", isAuthenticated, async (req: any, res) => {
+    try {
+      const { ids, updates } = bulkTaskUpdateSchema.parse(req.body);
+      if (!(await isContactInOrganization(req.organizationId, updates.contactId))) {
+        return res.status(404).json({ message: "Contact not found" });
+      }
+
+      const results = [];
+      for (const id of ids) {
+        try {
+          const task = await storage.updateTask(req.organizationId, id, updates);
+          if (task) results.push(task);
+        } catch (error) {
+          console.error(`Failed to update task ${id}:`, error);
+        }
+      }
+      
+      res.json({ 
+        updated: results.length,
+        tasks: results 
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid task data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to bulk update tasks" });
+    }
+  });
+
+  app.patch("/api/tasks/:id", isAuthenticated, async (req: any, res) => {
     try {
       const id = parseInt(req.params.id);
       const taskData = insertTaskSchema.partial().parse(req.body);
-      const task = await storage.updateTask(id, taskData);
+      if (!(await isContactInOrganization(req.organizationId, taskData.contactId))) {
+        return res.status(404).json({ message: "Contact not found" });
+      }
+      const task = await storage.updateTask(req.organizationId, id, taskData);
       
       if (!task) {
         return res.status(404).json({ message: "Task not found" });
@@ -279,10 +879,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/tasks/:id", async (req, res) => {
+  app.delete("/api/tasks/:id", isAuthenticated, async (req: any, res) => {
     try {
       const id = parseInt(req.params.id);
-      const deleted = await storage.deleteTask(id);
+      const deleted = await storage.deleteTask(req.organizationId, id);
       
       if (!deleted) {
         return res.status(404).json({ message: "Task not found" });
@@ -294,36 +894,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Bulk task operations
-  app.patch("/api/tasks/bulk", async (req, res) => {
-    try {
-      const { ids, updates } = req.body;
-      
-      if (!Array.isArray(ids) || ids.length === 0) {
-        return res.status(400).json({ message: "Invalid task IDs" });
-      }
-      
-      const results = [];
-      for (const id of ids) {
-        try {
-          const task = await storage.updateTask(id, updates);
-          if (task) results.push(task);
-        } catch (error) {
-          console.error(`Failed to update task ${id}:`, error);
-        }
-      }
-      
-      res.json({ 
-        updated: results.length,
-        tasks: results 
-      });
-    } catch (error) {
-      res.status(500).json({ message: "Failed to bulk update tasks" });
-    }
-  });
-
   // Automated follow-up task creation
-  app.post("/api/tasks/follow-up", async (req, res) => {
+  app.post("/api/tasks/follow-up", isAuthenticated, async (req: any, res) => {
     try {
       const { contactId } = req.body;
       
@@ -331,7 +903,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Contact ID is required" });
       }
       
-      const contact = await storage.getContact(contactId);
+      const contact = await storage.getContact(req.organizationId, contactId);
       if (!contact) {
         return res.status(404).json({ message: "Contact not found" });
       }
@@ -341,7 +913,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
       followUpDate.setDate(followUpDate.getDate() + 7); // Follow up in 7 days
       
       const taskData = {
-        organizationId: contact.organizationId,
         contactId: contactId,
         title: `Follow-up with ${contact.firstName} ${contact.lastName}`,
         description: `Automated follow-up task created for ${contact.email}`,
@@ -351,7 +922,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         assignedTo: null,
       };
       
-      const task = await storage.createTask(taskData);
+      const task = await storage.createTask(req.organizationId, taskData);
       
       res.status(201).json(task);
     } catch (error) {
@@ -361,30 +932,73 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Deals routes
-  app.get("/api/deals", async (req, res) => {
+  app.get("/api/deals", isAuthenticated, async (req: any, res) => {
     try {
-      const { contactId } = req.query;
-      let deals;
-      
-      if (contactId && typeof contactId === "string") {
-        deals = await storage.getContactDeals(parseInt(contactId));
-      } else {
-        deals = await storage.getAllDeals();
-      }
-      
+      const deals = await findDeals(req.organizationId, req.query);
       res.json(deals);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch deals" });
     }
   });
 
-  app.post("/api/deals", async (req, res) => {
+  app.get("/api/deals/export", isAuthenticated, async (req: any, res) => {
+    try {
+      const { format } = exportQuerySchema.parse(req.query);
+      if (format === "vcf") {
+        return res.status(400).json({ message: "vCard export is only available for contacts" });
+      }
+
+      const [deals, contacts, definitions, pipelines] = await Promise.all([
+        findDeals(req.organizationId, req.query),
+        storage.getAllContacts(req.organizationId),
+        storage.getCustomFieldDefinitions(req.organizationId, "deal"),
+        pipelineService.getPipelines(req.organizationId),
+      ]);
+      const columns = contactExportService.dealColumns(definitions, contacts, pipelines);
+      await startExport(req, res, "deals", format, deals.length);
+
+      if (format === "xlsx") {
+        return res.send(await contactExportService.toXlsx(columns, deals, "Deals"));
+      }
+      await contactExportService.streamCsv(res, columns, deals);
+      res.end();
+    } catch (error) {
+      handleExportError(res, error, "Failed to export deals");
+    }
+  });
+
+  app.post("/api/deals", isAuthenticated, async (req: any, res) => {
     try {
       console.log('Deal creation request body:', req.body);
       const dealData = insertDealSchema.parse(req.body);
-      const deal = await storage.createDeal(dealData);
-      res.status(201).json(deal);
-    } catch (error) {
+      if (!(await isContactInOrganization(req.organizationId, dealData.contactId))) {
+        return res.status(404).json({ message: "Contact not found" });
+      }
+      // Deals belong to whoever creates them unless another rep is named
+      dealData.ownerId = dealData.ownerId ?? req.user.claims.sub;
+      if (!(await isUserInOrganization(req.organizationId, dealData.ownerId))) {
+        return res.status(400).json({ message: "Deal owner must be a member of your organization" });
+      }
+      const stage = await pipelineService.resolveStage(req.organizationId, dealData.stageId);
+      if (!stage) {
+        return res.status(400).json({ message: "Unknown pipeline stage" });
+      }
+      applyStage(dealData, stage);
+      // A deal with line items is worth their total
+      const priced = await priceLineItems(req.organizationId, req.body);
+      if (priced?.unknownProductIds.length) {
+        return res.status(400).json({ message: "Unknown product" });
+      }
+      if (priced?.lines.length) {
+        dealData.value = String(priced.totals.amount);
+      }
+      dealData.customFields = await parseCustomFields(req.organizationId, "deal", dealData.customFields);
+      const deal = await storage.createDeal(req.organizationId, dealData, req.user.claims.sub, priced?.lines);
+      if (stage.outcome === "won") {
+        await campaignService.checkExits(req.organizationId, deal.contactId);
+      }
+      res.status(201).json(deal);
+    } catch (error) {
       if (error instanceof z.ZodError) {
         console.log('Zod validation error:', error.errors);
         return res.status(400).json({ message: "Invalid deal data", errors: error.errors });
@@ -394,15 +1008,48 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/deals/:id", async (req, res) => {
+  app.patch("/api/deals/:id", isAuthenticated, async (req: any, res) => {
     try {
       const id = parseInt(req.params.id);
       const dealData = insertDealSchema.partial().parse(req.body);
-      const deal = await storage.updateDeal(id, dealData);
+      if (!(await isContactInOrganization(req.organizationId, dealData.contactId))) {
+        return res.status(404).json({ message: "Contact not found" });
+      }
+      if (!(await isUserInOrganization(req.organizationId, dealData.ownerId))) {
+        return res.status(400).json({ message: "Deal owner must be a member of your organization" });
+      }
+      const existing = await storage.getDeal(req.organizationId, id);
+      if (!existing) {
+        return res.status(404).json({ message: "Deal not found" });
+      }
+      if (dealData.stageId !== undefined && dealData.stageId !== existing.stageId) {
+        const stage = dealData.stageId ? await pipelineService.resolveStage(req.organizationId, dealData.stageId) : undefined;
+        if (!stage) {
+          return res.status(400).json({ message: "Unknown pipeline stage" });
+        }
+        applyStage(dealData, stage);
+      }
+      const priced = await priceLineItems(req.organizationId, req.body);
+      if (priced?.unknownProductIds.length) {
+        return res.status(400).json({ message: "Unknown product" });
+      }
+      if (priced?.lines.length) {
+        dealData.value = String(priced.totals.amount);
+      } else if (!priced && dealData.value !== undefined && (await storage.getDealLineItems(req.organizationId, id)).length) {
+        // The value of an itemized deal only changes through its lines
+        delete dealData.value;
+      }
+      if (dealData.customFields) {
+        dealData.customFields = await parseCustomFields(req.organizationId, "deal", dealData.customFields, existing.customFields);
+      }
+      const deal = await storage.updateDeal(req.organizationId, id, dealData, req.user.claims.sub, priced?.lines);
       
       if (!deal) {
         return res.status(404).json({ message: "Deal not found" });
       }
+      if (deal.stageId !== existing.stageId) {
+        await campaignService.checkExits(req.organizationId, deal.contactId);
+      }
       
       res.json(deal);
     } catch (error) {
@@ -413,10 +1060,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/deals/:id", async (req, res) => {
+  app.delete("/api/deals/:id", isAuthenticated, requirePermission("deals:delete"), async (req: any, res) => {
     try {
       const id = parseInt(req.params.id);
-      const deleted = await storage.deleteDeal(id);
+      const deleted = await storage.deleteDeal(req.organizationId, id);
       
       if (!deleted) {
         return res.status(404).json({ message: "Deal not found" });
@@ -428,20 +1075,265 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Every stage the deal has entered, oldest first, with who moved it
+  app.get("/api/deals/:id/stage-history", isAuthenticated, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const deal = await storage.getDeal(req.organizationId, id);
+      if (!deal) {
+        return res.status(404).json({ message: "Deal not found" });
+      }
+
+      const transitions = await storage.getDealStageTransitions(req.organizationId, id);
+      const userIds = Array.from(new Set(transitions.map(transition => transition.userId).filter((userId): userId is string => !!userId)));
+      const users = new Map(
+        (await Promise.all(userIds.map(userId => storage.getUser(userId))))
+          .filter((user): user is User => !!user)
+          .map(user => [user.id, { id: user.id, email: user.email, firstName: user.firstName, lastName: user.lastName }])
+      );
+
+      res.json(transitions.map(transition => ({
+        ...transition,
+        user: (transition.userId && users.get(transition.userId)) || null,
+      })));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch stage history" });
+    }
+  });
+
+  app.get("/api/deals/:id/line-items", isAuthenticated, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const deal = await storage.getDeal(req.organizationId, id);
+      if (!deal) {
+        return res.status(404).json({ message: "Deal not found" });
+      }
+
+      const lineItems = await storage.getDealLineItems(req.organizationId, id);
+      res.json(lineItems);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch line items" });
+    }
+  });
+
+  // Quotes. Each one is a new version of the deal's quote, frozen from the deal,
+  // its contact and its line items as they are now.
+  app.get("/api/deals/:id/quotes", isAuthenticated, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const deal = await storage.getDeal(req.organizationId, id);
+      if (!deal) {
+        return res.status(404).json({ message: "Deal not found" });
+      }
+
+      const quotes = await storage.getDealQuotes(req.organizationId, id);
+      res.json(quotes);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch quotes" });
+    }
+  });
+
+  app.post("/api/deals/:id/quotes", isAuthenticated, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const { expiresAt, terms } = createQuoteSchema.parse(req.body);
+      const deal = await storage.getDeal(req.organizationId, id);
+      if (!deal) {
+        return res.status(404).json({ message: "Deal not found" });
+      }
+
+      const [organization, contact, owner, lineItems] = await Promise.all([
+        storage.getOrganization(req.organizationId),
+        deal.contactId ? storage.getContact(req.organizationId, deal.contactId) : undefined,
+        deal.ownerId ? storage.getOrganizationUser(req.organizationId, deal.ownerId) : undefined,
+        storage.getDealLineItems(req.organizationId, id),
+      ]);
+      if (!organization) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
+
+      const snapshot = quoteService.buildSnapshot(organization, deal, contact, owner, lineItems);
+      const quote = await storage.createQuote(req.organizationId, {
+        dealId: deal.id,
+        contactId: contact?.id ?? null,
+        snapshot,
+        total: String(snapshot.totals.total),
+        terms: terms ?? DEFAULT_QUOTE_TERMS,
+        expiresAt: expiresAt ?? new Date(Date.now() + DEFAULT_QUOTE_VALIDITY_DAYS * 24 * 60 * 60 * 1000),
+        createdBy: req.user.claims.sub,
+      });
+      if (!quote) {
+        return res.status(404).json({ message: "Deal not found" });
+      }
+
+      res.status(201).json(quote);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid quote data", errors: error.errors });
+      }
+      console.error("Quote generation error:", error);
+      res.status(500).json({ message: "Failed to generate quote" });
+    }
+  });
+
+  app.get("/api/quotes/:id/html", isAuthenticated, async (req: any, res) => {
+    try {
+      const quote = await storage.getQuote(req.organizationId, parseInt(req.params.id));
+      if (!quote) {
+        return res.status(404).json({ message: "Quote not found" });
+      }
+
+      res.setHeader("Content-Type", "text/html; charset=utf-8");
+      res.send(quoteService.renderHtml(quote));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to render quote" });
+    }
+  });
+
+  app.get("/api/quotes/:id/pdf", isAuthenticated, async (req: any, res) => {
+    try {
+      const quote = await storage.getQuote(req.organizationId, parseInt(req.params.id));
+      if (!quote) {
+        return res.status(404).json({ message: "Quote not found" });
+      }
+
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `attachment; filename="${quoteService.fileName(quote)}"`);
+      res.send(quoteService.renderPdf(quote));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to render quote" });
+    }
+  });
+
+  // Emails the PDF and logs the send on the contact's timeline
+  app.post("/api/quotes/:id/send", isAuthenticated, async (req: any, res) => {
+    try {
+      const { to, message } = sendQuoteSchema.parse(req.body);
+      const quote = await storage.getQuote(req.organizationId, parseInt(req.params.id));
+      if (!quote) {
+        return res.status(404).json({ message: "Quote not found" });
+      }
+      const contact = quote.contactId ? await storage.getContact(req.organizationId, quote.contactId) : undefined;
+      if (!contact) {
+        return res.status(400).json({ message: "Add a contact to the deal before sending a quote" });
+      }
+
+      const recipient = to ?? contact.email;
+      if (await consentService.isSuppressed(req.organizationId, "email", recipient)) {
+        return res.status(409).json({ message: `${recipient} is on the suppression list` });
+      }
+      const { subject, htmlContent } = quoteService.emailContent(quote, message);
+      const sent = await emailService.sendSingleEmail({
+        organizationId: req.organizationId,
+        to: recipient,
+        toName: recipient === contact.email ? `${contact.firstName} ${contact.lastName}` : undefined,
+        subject,
+        htmlContent,
+        attachments: [{ filename: quoteService.fileName(quote), data: quoteService.renderPdf(quote), contentType: "application/pdf" }],
+        track: { organizationId: req.organizationId, contactId: contact.id, source: "quote", createdBy: req.user.claims.sub },
+      });
+      if (!sent) {
+        return res.status(500).json({ message: "Failed to send quote email" });
+      }
+
+      const updated = await storage.updateQuote(req.organizationId, quote.id, {
+        status: "sent",
+        sentAt: new Date(),
+        sentTo: recipient,
+      });
+      await storage.createActivity(req.organizationId, {
+        contactId: contact.id,
+        type: "email",
+        title: `${quoteService.title(quote)} sent`,
+        description: `${subject}\nSent to ${recipient}`,
+        createdBy: req.user.claims.sub,
+      });
+
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid send request", errors: error.errors });
+      }
+      console.error("Quote send error:", error);
+      res.status(500).json({ message: "Failed to send quote" });
+    }
+  });
+
+  // Products (price book). Everyone picks products on deals; admins maintain them.
+  app.get("/api/products", isAuthenticated, async (req: any, res) => {
+    try {
+      const products = await storage.getProducts(req.organizationId);
+      res.json(products);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch products" });
+    }
+  });
+
+  app.post("/api/products", isAuthenticated, requirePermission("products:manage"), async (req: any, res) => {
+    try {
+      const productData = insertProductSchema.parse(req.body);
+      const product = await storage.createProduct(req.organizationId, productData);
+      res.status(201).json(product);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid product data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create product" });
+    }
+  });
+
+  app.patch("/api/products/:id", isAuthenticated, requirePermission("products:manage"), async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const productData = insertProductSchema.partial().parse(req.body);
+      const product = await storage.updateProduct(req.organizationId, id, productData);
+
+      if (!product) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+
+      res.json(product);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid product data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update product" });
+    }
+  });
+
+  // Products already sold on deals can only be archived, so line items keep their product
+  app.delete("/api/products/:id", isAuthenticated, requirePermission("products:manage"), async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (await storage.isProductInUse(req.organizationId, id)) {
+        return res.status(409).json({ message: "This product is used on deals. Archive it instead." });
+      }
+      const deleted = await storage.deleteProduct(req.organizationId, id);
+
+      if (!deleted) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete product" });
+    }
+  });
+
   // Email Templates routes
-  app.get("/api/email-templates", async (req, res) => {
+  app.get("/api/email-templates", isAuthenticated, async (req: any, res) => {
     try {
-      const templates = await storage.getAllEmailTemplates();
+      const templates = await storage.getAllEmailTemplates(req.organizationId);
       res.json(templates);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch email templates" });
     }
   });
 
-  app.get("/api/email-templates/:id", async (req, res) => {
+  app.get("/api/email-templates/:id", isAuthenticated, async (req: any, res) => {
     try {
       const id = parseInt(req.params.id);
-      const template = await storage.getEmailTemplate(id);
+      const template = await storage.getEmailTemplate(req.organizationId, id);
       
       if (!template) {
         return res.status(404).json({ message: "Email template not found" });
@@ -453,10 +1345,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/email-templates", async (req, res) => {
+  app.post("/api/email-templates", isAuthenticated, requirePermission("templates:manage"), async (req: any, res) => {
     try {
       const templateData = insertEmailTemplateSchema.parse(req.body);
-      const template = await storage.createEmailTemplate(templateData);
+      const template = await storage.createEmailTemplate(req.organizationId, templateData);
       res.status(201).json(template);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -466,11 +1358,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/email-templates/:id", async (req, res) => {
+  app.patch("/api/email-templates/:id", isAuthenticated, requirePermission("templates:manage"), async (req: any, res) => {
     try {
       const id = parseInt(req.params.id);
       const templateData = insertEmailTemplateSchema.partial().parse(req.body);
-      const template = await storage.updateEmailTemplate(id, templateData);
+      const template = await storage.updateEmailTemplate(req.organizationId, id, templateData);
       
       if (!template) {
         return res.status(404).json({ message: "Email template not found" });
@@ -485,10 +1377,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/email-templates/:id", async (req, res) => {
+  app.delete("/api/email-templates/:id", isAuthenticated, requirePermission("templates:manage"), async (req: any, res) => {
     try {
       const id = parseInt(req.params.id);
-      const deleted = await storage.deleteEmailTemplate(id);
+      const deleted = await storage.deleteEmailTemplate(req.organizationId, id);
       
       if (!deleted) {
         return res.status(404).json({ message: "Email template not found" });
@@ -500,22 +1392,192 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Custom field definitions
+  app.get("/api/custom-fields", isAuthenticated, async (req: any, res) => {
+    try {
+      const { entityType } = req.query;
+      const definitions = await storage.getCustomFieldDefinitions(
+        req.organizationId,
+        typeof entityType === "string" ? entityType : undefined
+      );
+      res.json(definitions);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch custom fields" });
+    }
+  });
+
+  app.post("/api/custom-fields", isAuthenticated, requirePermission("customFields:manage"), async (req: any, res) => {
+    try {
+      const definitionData = insertCustomFieldDefinitionSchema.parse(req.body);
+
+      if ((definitionData.fieldType === "select" || definitionData.fieldType === "multi-select") && !definitionData.options?.length) {
+        return res.status(400).json({ message: "Select fields need at least one option" });
+      }
+
+      const existing = await storage.getCustomFieldDefinitions(req.organizationId, definitionData.entityType);
+      if (existing.some(definition => definition.key === definitionData.key)) {
+        return res.status(409).json({ message: `A ${definitionData.entityType} field with key "${definitionData.key}" already exists` });
+      }
+
+      const definition = await storage.createCustomFieldDefinition(req.organizationId, definitionData);
+      res.status(201).json(definition);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid custom field", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create custom field" });
+    }
+  });
+
+  app.patch("/api/custom-fields/:id", isAuthenticated, requirePermission("customFields:manage"), async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      // key, entityType and fieldType are fixed once records may hold values for them
+      const definitionData = insertCustomFieldDefinitionSchema
+        .omit({ key: true, entityType: true, fieldType: true })
+        .partial()
+        .parse(req.body);
+      const definition = await storage.updateCustomFieldDefinition(req.organizationId, id, definitionData);
+
+      if (!definition) {
+        return res.status(404).json({ message: "Custom field not found" });
+      }
+
+      res.json(definition);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid custom field", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update custom field" });
+    }
+  });
+
+  app.delete("/api/custom-fields/:id", isAuthenticated, requirePermission("customFields:manage"), async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const deleted = await storage.deleteCustomFieldDefinition(req.organizationId, id);
+
+      if (!deleted) {
+        return res.status(404).json({ message: "Custom field not found" });
+      }
+
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete custom field" });
+    }
+  });
+
+  // Pipelines and their ordered stages
+  app.get("/api/pipelines", isAuthenticated, async (req: any, res) => {
+    try {
+      const pipelines = await pipelineService.getPipelines(req.organizationId);
+      res.json(pipelines);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch pipelines" });
+    }
+  });
+
+  app.post("/api/pipelines", isAuthenticated, requirePermission("pipelines:manage"), async (req: any, res) => {
+    try {
+      const pipelineData = pipelineWithStagesSchema.parse(req.body);
+      if (pipelineData.stages.some(stage => stage.id)) {
+        return res.status(400).json({ message: "New pipelines cannot reuse existing stages" });
+      }
+
+      // Make sure the organization's default pipeline exists before adding another
+      await pipelineService.getPipelines(req.organizationId);
+      const pipeline = await storage.savePipeline(req.organizationId, null, pipelineData);
+      res.status(201).json(pipeline);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid pipeline", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create pipeline" });
+    }
+  });
+
+  app.put("/api/pipelines/:id", isAuthenticated, requirePermission("pipelines:manage"), async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const pipelineData = pipelineWithStagesSchema.parse(req.body);
+
+      const existing = await storage.getPipeline(req.organizationId, id);
+      if (!existing) {
+        return res.status(404).json({ message: "Pipeline not found" });
+      }
+
+      const currentStages = await storage.getPipelineStages(req.organizationId, id);
+      const currentIds = new Set(currentStages.map(stage => stage.id));
+      if (pipelineData.stages.some(stage => stage.id && !currentIds.has(stage.id))) {
+        return res.status(400).json({ message: "Stages can only be reordered within their own pipeline" });
+      }
+
+      const keptIds = new Set(pipelineData.stages.map(stage => stage.id));
+      const removedIds = new Set(currentStages.filter(stage => !keptIds.has(stage.id)).map(stage => stage.id));
+      if (removedIds.size > 0) {
+        const deals = await storage.getAllDeals(req.organizationId);
+        if (deals.some(deal => deal.stageId !== null && removedIds.has(deal.stageId))) {
+          return res.status(409).json({ message: "Move the deals out of a stage before removing it" });
+        }
+      }
+
+      // Another pipeline becomes the default by being marked as such, not by unmarking this one
+      const pipeline = await storage.savePipeline(req.organizationId, id, {
+        ...pipelineData,
+        isDefault: existing.isDefault || pipelineData.isDefault,
+      });
+      res.json(pipeline);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid pipeline", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update pipeline" });
+    }
+  });
+
+  app.delete("/api/pipelines/:id", isAuthenticated, requirePermission("pipelines:manage"), async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const pipeline = await storage.getPipeline(req.organizationId, id);
+      if (!pipeline) {
+        return res.status(404).json({ message: "Pipeline not found" });
+      }
+      if (pipeline.isDefault) {
+        return res.status(409).json({ message: "Make another pipeline the default before deleting this one" });
+      }
+
+      const stageIds = new Set((await storage.getPipelineStages(req.organizationId, id)).map(stage => stage.id));
+      const deals = await storage.getAllDeals(req.organizationId);
+      if (deals.some(deal => deal.stageId !== null && stageIds.has(deal.stageId))) {
+        return res.status(409).json({ message: "Move or delete this pipeline's deals before deleting it" });
+      }
+
+      await storage.deletePipeline(req.organizationId, id);
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete pipeline" });
+    }
+  });
+
   // Dashboard analytics route
-  app.get("/api/dashboard/stats", async (req, res) => {
+  app.get("/api/dashboard/stats", isAuthenticated, async (req: any, res) => {
     try {
-      const contacts = await storage.getAllContacts();
-      const activities = await storage.getAllActivities();
-      const deals = await storage.getAllDeals();
-      const tasks = await storage.getAllTasks();
+      const contacts = await storage.getAllContacts(req.organizationId);
+      const activities = await storage.getAllActivities(req.organizationId);
+      const pipelines = await pipelineService.getPipelines(req.organizationId);
+      const deals = pipelineService.attachStages(
+        await storage.getAllDeals(req.organizationId),
+        pipelines.flatMap(pipeline => pipeline.stages)
+      );
+      const tasks = await storage.getAllTasks(req.organizationId);
 
       // Calculate KPIs
       const totalContacts = contacts.length;
       const activeLeads = contacts.filter(c => c.leadStatus !== "cold").length;
-      const totalRevenue = deals
-        .filter(d => d.stage === "closed-won")
-        .reduce((sum, deal) => sum + parseFloat(deal.value || "0"), 0);
+      const wonDeals = deals.filter(d => pipelineService.hasOutcome(d, "won"));
+      const totalRevenue = wonDeals.reduce((sum, deal) => sum + parseFloat(deal.value || "0"), 0);
       
-      const convertedLeads = deals.filter(d => d.stage === "closed-won").length;
+      const convertedLeads = wonDeals.length;
       const conversionRate = activeLeads > 0 ? (convertedLeads / activeLeads) * 100 : 0;
 
       // Lead score distribution
@@ -526,13 +1588,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
         new: contacts.filter(c => (c.leadScore || 0) < 20).length,
       };
 
-      // Pipeline data
+      // Pipeline data: deals per stage of the default pipeline, lost stages left out
+      const defaultPipeline = pipelineService.getDefaultPipeline(pipelines);
       const pipelineData = {
-        prospecting: deals.filter(d => d.stage === "prospecting").length,
-        qualified: deals.filter(d => d.stage === "qualified").length,
-        proposal: deals.filter(d => d.stage === "proposal").length,
-        negotiation: deals.filter(d => d.stage === "negotiation").length,
-        closedWon: deals.filter(d => d.stage === "closed-won").length,
+        name: defaultPipeline.name,
+        stages: defaultPipeline.stages
+          .filter(stage => stage.outcome !== "lost")
+          .map(stage => ({
+            id: stage.id,
+            name: stage.name,
+            outcome: stage.outcome,
+            count: deals.filter(d => d.stageId === stage.id).length,
+          })),
       };
 
       // Recent activities (last 10)
@@ -562,28 +1629,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Lead management routes
-  app.get("/api/leads", async (req, res) => {
+  app.get("/api/leads", isAuthenticated, async (req: any, res) => {
     try {
-      const { status, score } = req.query;
-      let contacts = await storage.getAllContacts();
-      
-      if (status && typeof status === "string") {
-        contacts = contacts.filter(c => c.leadStatus === status);
-      }
-      
-      if (score && typeof score === "string") {
-        const minScore = parseInt(score);
-        contacts = contacts.filter(c => (c.leadScore || 0) >= minScore);
-      }
-      
+      const contacts = await findContacts(req.organizationId, req.query);
       res.json(contacts);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch leads" });
     }
   });
 
+  app.get("/api/leads/export", isAuthenticated, async (req: any, res) => {
+    try {
+      await sendContactExport(req, res, "leads");
+    } catch (error) {
+      handleExportError(res, error, "Failed to export leads");
+    }
+  });
+
   // Update lead score
-  app.patch("/api/contacts/:id/score", async (req, res) => {
+  app.patch("/api/contacts/:id/score", isAuthenticated, async (req: any, res) => {
     try {
       const id = parseInt(req.params.id);
       const { leadScore, leadStatus } = req.body;
@@ -592,7 +1656,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (leadScore !== undefined) updateData.leadScore = leadScore;
       if (leadStatus !== undefined) updateData.leadStatus = leadStatus;
       
-      const contact = await storage.updateContact(id, updateData);
+      const contact = await storage.updateContact(req.organizationId, id, updateData);
       
       if (!contact) {
         return res.status(404).json({ message: "Contact not found" });
@@ -605,9 +1669,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Workflow automation routes
-  app.post("/api/workflows/lead-scoring", async (req, res) => {
+  app.post("/api/workflows/lead-scoring", isAuthenticated, async (req: any, res) => {
     try {
-      const contacts = await storage.getAllContacts();
+      const contacts = await storage.getAllContacts(req.organizationId);
       let updatedCount = 0;
       
       for (const contact of contacts) {
@@ -629,7 +1693,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         else newStatus = "new";
         
         if (newScore !== contact.leadScore || newStatus !== contact.leadStatus) {
-          await storage.updateContact(contact.id, { leadScore: newScore, leadStatus: newStatus });
+          await storage.updateContact(req.organizationId, contact.id, { leadScore: newScore, leadStatus: newStatus });
           updatedCount++;
         }
       }
@@ -641,12 +1705,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Email automation routes
-  app.post("/api/email/send", async (req, res) => {
+  app.post("/api/email/send", isAuthenticated, async (req: any, res) => {
     try {
       const { contactId, templateId, variables } = req.body;
       
-      const contact = await storage.getContact(contactId);
-      const template = await storage.getEmailTemplate(templateId);
+      const contact = await storage.getContact(req.organizationId, contactId);
+      const template = await storage.getEmailTemplate(req.organizationId, templateId);
       
       if (!contact) {
         return res.status(404).json({ message: "Contact not found" });
@@ -676,12 +1740,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
       
       // Log activity
-      await storage.createActivity({
+      await storage.createActivity(req.organizationId, {
         contactId: contact.id,
         type: "email",
         title: `Email sent: ${subject}`,
         description: `Sent email using template: ${template.name}`,
-        organizationId: 1,
       });
       
       // In a real implementation, you would send the actual email here
@@ -696,9 +1759,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Task automation
-  app.post("/api/tasks/auto-create", async (req, res) => {
+  app.post("/api/tasks/auto-create", isAuthenticated, async (req: any, res) => {
     try {
-      const contacts = await storage.getAllContacts();
+      const contacts = await storage.getAllContacts(req.organizationId);
       let tasksCreated = 0;
       
       for (const contact of contacts) {
@@ -709,7 +1772,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         
         // Auto-create follow-up tasks for hot leads not contacted in 7 days
         if (contact.leadStatus === "hot" && daysSinceContact > 7) {
-          await storage.createTask({
+          await storage.createTask(req.organizationId, {
             contactId: contact.id,
             title: `Follow up with ${contact.firstName} ${contact.lastName}`,
             description: `Hot lead not contacted in ${daysSinceContact} days - urgent follow-up needed`,
@@ -717,14 +1780,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
             status: "pending",
             assignedTo: "John Smith",
             dueDate: new Date(Date.now() + 24 * 60 * 60 * 1000), // Due tomorrow
-            organizationId: 1,
           });
           tasksCreated++;
         }
         
         // Auto-create tasks for warm leads not contacted in 14 days
         else if (contact.leadStatus === "warm" && daysSinceContact > 14) {
-          await storage.createTask({
+          await storage.createTask(req.organizationId, {
             contactId: contact.id,
             title: `Check in with ${contact.firstName} ${contact.lastName}`,
             description: `Warm lead not contacted in ${daysSinceContact} days`,
@@ -732,7 +1794,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
             status: "pending",
             assignedTo: "John Smith",
             dueDate: new Date(Date.now() + 3 * 24 * 60 * 60 * 1000), // Due in 3 days
-            organizationId: 1,
           });
           tasksCreated++;
         }
@@ -745,25 +1806,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Analytics and reporting routes
-  app.get("/api/analytics/conversion-funnel", async (req, res) => {
+  app.get("/api/analytics/conversion-funnel", isAuthenticated, async (req: any, res) => {
     try {
-      const contacts = await storage.getAllContacts();
-      const deals = await storage.getAllDeals();
+      const contacts = await storage.getAllContacts(req.organizationId);
+      const pipelines = await pipelineService.getPipelines(req.organizationId);
+      const deals = pipelineService.attachStages(
+        await storage.getAllDeals(req.organizationId),
+        pipelines.flatMap(pipeline => pipeline.stages)
+      );
       
-      const funnel = {
-        totalLeads: contacts.length,
-        qualifiedLeads: contacts.filter(c => c.leadStatus !== "new").length,
-        proposalStage: deals.filter(d => d.stage === "proposal").length,
-        negotiationStage: deals.filter(d => d.stage === "negotiation").length,
-        closedWon: deals.filter(d => d.stage === "closed-won").length,
-      };
+      // Leads, then the default pipeline's stages in order
+      const funnel = [
+        { name: "Total Leads", count: contacts.length },
+        { name: "Qualified Leads", count: contacts.filter(c => c.leadStatus !== "new").length },
+        ...pipelineService.buildFunnel(pipelineService.getDefaultPipeline(pipelines), deals),
+      ];
       
-      const conversionRates = {
-        leadToQualified: funnel.totalLeads > 0 ? (funnel.qualifiedLeads / funnel.totalLeads * 100).toFixed(1) : 0,
-        qualifiedToProposal: funnel.qualifiedLeads > 0 ? (funnel.proposalStage / funnel.qualifiedLeads * 100).toFixed(1) : 0,
-        proposalToNegotiation: funnel.proposalStage > 0 ? (funnel.negotiationStage / funnel.proposalStage * 100).toFixed(1) : 0,
-        negotiationToClose: funnel.negotiationStage > 0 ? (funnel.closedWon / funnel.negotiationStage * 100).toFixed(1) : 0,
-      };
+      const conversionRates = funnel.slice(1).map((step, index) => {
+        const previous = funnel[index];
+        return {
+          from: previous.name,
+          to: step.name,
+          rate: previous.count > 0 ? (step.count / previous.count * 100).toFixed(1) : 0,
+        };
+      });
       
       res.json({ funnel, conversionRates });
     } catch (error) {
@@ -771,15 +1837,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/analytics/performance", async (req, res) => {
+  app.get("/api/analytics/performance", isAuthenticated, async (req: any, res) => {
     try {
       const { period = "30" } = req.query;
       const days = parseInt(period as string);
       const cutoffDate = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
       
-      const activities = await storage.getAllActivities();
-      const deals = await storage.getAllDeals();
-      const tasks = await storage.getAllTasks();
+      const activities = await storage.getAllActivities(req.organizationId);
+      const deals = await storage.getAllDeals(req.organizationId);
+      const tasks = await storage.getAllTasks(req.organizationId);
       
       const recentActivities = activities.filter(a => new Date(a.createdAt || 0) >= cutoffDate);
       const recentDeals = deals.filter(d => new Date(d.createdAt || 0) >= cutoffDate);
@@ -792,7 +1858,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         activitiesCompleted: recentActivities.length,
         dealsCreated: recentDeals.length,
         tasksCompleted: completedTasks.length,
-        averageLeadScore: await calculateAverageLeadScore(),
+        averageLeadScore: await calculateAverageLeadScore(req.organizationId),
         activitiesByType: {
           call: recentActivities.filter(a => a.type === "call").length,
           email: recentActivities.filter(a => a.type === "email").length,
@@ -807,43 +1873,42 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  async function calculateAverageLeadScore(): Promise<number> {
-    const contacts = await storage.getAllContacts();
+  async function calculateAverageLeadScore(organizationId: number): Promise<number> {
+    const contacts = await storage.getAllContacts(organizationId);
     const totalScore = contacts.reduce((sum, contact) => sum + (contact.leadScore || 0), 0);
     return contacts.length > 0 ? Math.round(totalScore / contacts.length) : 0;
   }
 
   // AI Automation routes with caching
-  app.post("/api/ai/lead-score/:contactId", async (req, res) => {
+  app.post("/api/ai/lead-score/:contactId", isAuthenticated, async (req: any, res) => {
     try {
       const contactId = parseInt(req.params.contactId);
       
       // Check for cached result first
-      const cachedResult = await storage.getCachedAiResult(contactId, "analysis");
+      const cachedResult = await storage.getCachedAiResult(req.organizationId, contactId, "analysis");
       if (cachedResult) {
         return res.json(cachedResult.resultData);
       }
 
-      const contact = await storage.getContact(contactId);
+      const contact = await storage.getContact(req.organizationId, contactId);
       if (!contact) {
         return res.status(404).json({ message: "Contact not found" });
       }
       
-      const activities = await storage.getContactActivities(contactId);
-      const deals = await storage.getContactDeals(contactId);
+      const activities = await storage.getContactActivities(req.organizationId, contactId);
+      const deals = await pipelineService.withStages(req.organizationId, await storage.getContactDeals(req.organizationId, contactId));
       
       const analysis = await aiService.calculateAILeadScore(contact, activities, deals);
       
       // Cache the result
-      await storage.saveAiResult({
+      await storage.saveAiResult(req.organizationId, {
         contactId,
         resultType: "analysis",
         resultData: analysis,
-        organizationId: 1,
       });
 
       // Update contact with new AI-calculated score
-      await storage.updateContact(contactId, { leadScore: analysis.score });
+      await storage.updateContact(req.organizationId, contactId, { leadScore: analysis.score });
       
       res.json(analysis);
     } catch (error) {
@@ -852,7 +1917,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/ai/sentiment-analysis", async (req, res) => {
+  app.post("/api/ai/sentiment-analysis", isAuthenticated, async (req: any, res) => {
     try {
       const { text } = req.body;
       if (!text) {
@@ -868,21 +1933,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Individual AI lead scoring endpoint
-  app.post("/api/ai/lead-score/:id", async (req, res) => {
+  app.post("/api/ai/lead-score/:id", isAuthenticated, async (req: any, res) => {
     try {
       const contactId = parseInt(req.params.id);
-      const contact = await storage.getContact(contactId);
+      const contact = await storage.getContact(req.organizationId, contactId);
       if (!contact) {
         return res.status(404).json({ message: "Contact not found" });
       }
       
-      const activities = await storage.getContactActivities(contactId);
-      const deals = await storage.getContactDeals(contactId);
+      const activities = await storage.getContactActivities(req.organizationId, contactId);
+      const deals = await pipelineService.withStages(req.organizationId, await storage.getContactDeals(req.organizationId, contactId));
       
       const analysis = await aiService.calculateAILeadScore(contact, activities, deals);
       
       // Update contact with new AI-generated score
-      await storage.updateContact(contactId, { leadScore: analysis.score });
+      await storage.updateContact(req.organizationId, contactId, { leadScore: analysis.score });
       
       res.json(analysis);
     } catch (error) {
@@ -891,30 +1956,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/ai/follow-up-recommendations/:contactId", async (req, res) => {
+  app.post("/api/ai/follow-up-recommendations/:contactId", isAuthenticated, async (req: any, res) => {
     try {
       const contactId = parseInt(req.params.contactId);
 
       // Check for cached result first
-      const cachedResult = await storage.getCachedAiResult(contactId, "recommendations");
+      const cachedResult = await storage.getCachedAiResult(req.organizationId, contactId, "recommendations");
       if (cachedResult) {
         return res.json(cachedResult.resultData);
       }
       
-      const contact = await storage.getContact(contactId);
+      const contact = await storage.getContact(req.organizationId, contactId);
       if (!contact) {
         return res.status(404).json({ message: "Contact not found" });
       }
       
-      const activities = await storage.getContactActivities(contactId);
+      const activities = await storage.getContactActivities(req.organizationId, contactId);
       const recommendations = await aiService.generateFollowUpRecommendations(contact, activities);
 
       // Cache the result
-      await storage.saveAiResult({
+      await storage.saveAiResult(req.organizationId, {
         contactId,
         resultType: "recommendations",
         resultData: recommendations,
-        organizationId: 1,
       });
       
       res.json(recommendations);
@@ -924,7 +1988,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/ai/generate-email", async (req, res) => {
+  app.post("/api/ai/generate-email", isAuthenticated, async (req: any, res) => {
     try {
       const { contactId, type = 'follow-up', context } = req.body;
       
@@ -933,12 +1997,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Check for cached result first
-      const cachedResult = await storage.getCachedAiResult(contactId, "email", type);
+      const cachedResult = await storage.getCachedAiResult(req.organizationId, contactId, "email", type);
       if (cachedResult) {
         return res.json(cachedResult.resultData);
       }
 
-      const contact = await storage.getContact(contactId);
+      const contact = await storage.getContact(req.organizationId, contactId);
       if (!contact) {
         return res.status(404).json({ message: "Contact not found" });
       }
@@ -946,12 +2010,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const emailContent = await aiService.generateEmailContent(contact, type, context);
 
       // Cache the result
-      await storage.saveAiResult({
+      await storage.saveAiResult(req.organizationId, {
         contactId,
         resultType: "email",
         purpose: type,
         resultData: emailContent,
-        organizationId: 1,
       });
 
       res.json(emailContent);
@@ -961,24 +2024,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/ai/analyze-deal/:dealId", async (req, res) => {
+  app.post("/api/ai/analyze-deal/:dealId", isAuthenticated, async (req: any, res) => {
     try {
       const dealId = parseInt(req.params.dealId);
-      const deal = await storage.getAllDeals().then(deals => deals.find(d => d.id === dealId));
+      const deal = await storage.getDeal(req.organizationId, dealId);
       if (!deal) {
         return res.status(404).json({ message: "Deal not found" });
       }
       
-      const contact = await storage.getContact(deal.contactId || 0);
+      const contact = await storage.getContact(req.organizationId, deal.contactId || 0);
       if (!contact) {
         return res.status(404).json({ message: "Contact not found" });
       }
       
-      const activities = await storage.getContactActivities(contact.id);
-      const analysis = await aiService.analyzeDealProbability(deal, contact, activities);
+      const activities = await storage.getContactActivities(req.organizationId, contact.id);
+      const [dealWithStage] = await pipelineService.withStages(req.organizationId, [deal]);
+      const analysis = await aiService.analyzeDealProbability(dealWithStage, contact, activities);
       
       // Update deal with suggested probability
-      await storage.updateDeal(dealId, { probability: analysis.suggestedProbability });
+      await storage.updateDeal(req.organizationId, dealId, { probability: analysis.suggestedProbability });
       
       res.json(analysis);
     } catch (error) {
@@ -987,49 +2051,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/ai/auto-score-all-leads", async (req, res) => {
+  // Scoring runs as a background job; poll /api/jobs/:id for progress and results
+  app.post("/api/ai/auto-score-all-leads", isAuthenticated, async (req: any, res) => {
     try {
-      const contacts = await storage.getAllContacts();
-      let processed = 0;
-      const results = [];
-      
-      for (const contact of contacts) {
-        try {
-          const activities = await storage.getContactActivities(contact.id);
-          const deals = await storage.getContactDeals(contact.id);
-          
-          const analysis = await aiService.calculateAILeadScore(contact, activities, deals);
-          await storage.updateContact(contact.id, { leadScore: analysis.score });
-          
-          results.push({
-            contactId: contact.id,
-            name: `${contact.firstName} ${contact.lastName}`,
-            oldScore: contact.leadScore,
-            newScore: analysis.score,
-            reasoning: analysis.reasoning
-          });
-          processed++;
-        } catch (error) {
-          console.error(`Failed to process contact ${contact.id}:`, error);
-        }
-      }
-      
-      res.json({ 
-        message: `AI scoring completed for ${processed} contacts`,
-        processed,
-        results
-      });
-    } catch (error) {
-      console.error("Bulk AI scoring error:", error);
-      res.status(500).json({ message: "Bulk AI scoring failed" });
-    }
-  });
-
-  // Billing routes
-  app.get('/api/billing/current-plan', isAuthenticated, async (req: any, res) => {
-    try {
-      const userId = req.user.claims.sub;
-      const user = await storage.getUser(userId);
+      const job = await jobQueue.enqueue(req.organizationId, "leads.ai-score", {
+        idempotencyKey: req.get("Idempotency-Key") || undefined,
+        createdBy: req.user.claims.sub,
+      });
+      res.status(202).json(job);
+    } catch (error) {
+      console.error("Bulk AI scoring error:", error);
+      res.status(500).json({ message: "Bulk AI scoring failed" });
+    }
+  });
+
+  // Billing routes
+  app.get('/api/billing/current-plan', isAuthenticated, requirePermission('billing:view'), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
       
       if (!user?.organizationId) {
         return res.json({ planType: 'free', amount: 0, maxContacts: 100, maxUsers: 3 });
@@ -1051,7 +2091,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/billing/usage', isAuthenticated, async (req: any, res) => {
+  app.get('/api/billing/usage', isAuthenticated, requirePermission('billing:view'), async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
       const user = await storage.getUser(userId);
@@ -1060,12 +2100,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.json({ contacts: 0, teamMembers: 1 });
       }
 
-      const contacts = await storage.getAllContacts();
-      const orgContacts = contacts.filter(c => c.organizationId === user.organizationId);
+      const contacts = await storage.getAllContacts(req.organizationId);
+      const members = await storage.getOrganizationUsers(req.organizationId);
       
       const usage = {
-        contacts: orgContacts.length,
-        teamMembers: 1 // For now, just the current user
+        contacts: contacts.length,
+        teamMembers: members.length
       };
 
       res.json(usage);
@@ -1075,7 +2115,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/billing/invoices', isAuthenticated, async (req: any, res) => {
+  app.get('/api/billing/invoices', isAuthenticated, requirePermission('billing:view'), async (req: any, res) => {
     try {
       // Mock invoice data for demo
       const invoices = [
@@ -1095,7 +2135,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/billing/change-plan', isAuthenticated, async (req: any, res) => {
+  app.post('/api/billing/change-plan', isAuthenticated, requirePermission('billing:manage'), async (req: any, res) => {
     try {
       const { planId } = req.body;
       
@@ -1131,6 +2171,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         const user = req.user;
         
         await emailService.sendSingleEmail({
+          organizationId: req.organizationId,
           to: user.claims.email,
           subject: 'Plan Upgrade Confirmation - CRMWIZH',
           htmlContent: `
@@ -1168,7 +2209,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/billing/cancel', isAuthenticated, async (req: any, res) => {
+  app.post('/api/billing/cancel', isAuthenticated, requirePermission('billing:manage'), async (req: any, res) => {
     try {
       // Mock cancellation logic
       console.log('Cancelling subscription');
@@ -1183,49 +2224,43 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Team management routes
   app.get('/api/team/members', isAuthenticated, async (req: any, res) => {
     try {
-      // Get all team members including the authenticated user and invited members
-      const allMembers = [
-        // Current authenticated user (admin/owner)
-        {
-          id: req.user.claims.sub,
-          firstName: req.user.claims.first_name || 'John',
-          lastName: req.user.claims.last_name || 'Doe',
-          email: req.user.claims.email,
-          role: 'user',
-          organizationRole: 'owner',
-          isActive: true,
-          lastLoginAt: new Date()
-        },
-        // Add all team members from teamStore
-        ...teamStore.map(member => ({
-          id: member.id,
-          firstName: member.firstName,
-          lastName: member.lastName,
-          email: member.email,
-          role: member.role,
-          organizationRole: member.organizationRole,
-          isActive: member.isActive,
-          lastLoginAt: member.joinedAt
-        }))
-      ];
-
-      res.json(allMembers);
+      const members = await storage.getOrganizationUsers(req.organizationId);
+      res.json(members.map(toTeamMember));
     } catch (error) {
       console.error('Error fetching team members:', error);
       res.status(500).json({ message: 'Failed to fetch team members' });
     }
   });
 
-  app.get('/api/team/invitations', isAuthenticated, async (req: any, res) => {
+  // Who exported what; removed members are still resolved by id
+  app.get('/api/exports', isAuthenticated, requirePermission('exports:view'), async (req: any, res) => {
+    try {
+      const logs = await storage.getExportLogs(req.organizationId);
+      const userIds = Array.from(new Set(logs.map(log => log.userId).filter((id): id is string => !!id)));
+      const users = new Map(
+        (await Promise.all(userIds.map(id => storage.getUser(id))))
+          .filter((user): user is User => !!user)
+          .map(user => [user.id, { id: user.id, email: user.email, firstName: user.firstName, lastName: user.lastName }])
+      );
+
+      res.json(logs.map(log => ({ ...log, user: (log.userId && users.get(log.userId)) || null })));
+    } catch (error) {
+      console.error('Error fetching export history:', error);
+      res.status(500).json({ message: 'Failed to fetch export history' });
+    }
+  });
+
+  app.get('/api/team/invitations', isAuthenticated, requirePermission('team:invite'), async (req: any, res) => {
     try {
-      res.json(invitationStore);
+      const invitations = await storage.getPendingInvitations(req.organizationId);
+      res.json(invitations);
     } catch (error) {
       console.error('Error fetching invitations:', error);
       res.status(500).json({ message: 'Failed to fetch invitations' });
     }
   });
 
-  app.post('/api/team/invite', isAuthenticated, async (req: any, res) => {
+  app.post('/api/team/invite', isAuthenticated, requirePermission('team:invite'), async (req: any, res) => {
     try {
       const { email, role } = req.body;
       
@@ -1233,50 +2268,41 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: 'Email and role are required' });
       }
 
-      // Create new invitation
-      const newInvitation = {
-        id: Date.now(),
+      if (!INVITABLE_ROLES.includes(role)) {
+        return res.status(400).json({ message: 'Role must be admin or member' });
+      }
+
+      const existingUser = await storage.getUserByEmail(email);
+      if (existingUser?.isActive && existingUser.organizationId === req.organizationId) {
+        return res.status(409).json({ message: 'This person is already a team member' });
+      }
+
+      const pending = await storage.getPendingInvitations(req.organizationId);
+      if (pending.some(invitation => invitation.email.toLowerCase() === email.toLowerCase() && invitation.expiresAt > new Date())) {
+        return res.status(409).json({ message: 'An invitation is already pending for this email' });
+      }
+
+      if (await getRemainingSeats(req.organizationId) <= 0) {
+        return res.status(403).json({ message: 'Your plan has no seats left. Upgrade to invite more members.' });
+      }
+
+      const invitation = await storage.createInvitation(req.organizationId, {
         email,
         role,
+        token: randomBytes(32).toString('hex'),
+        invitedBy: req.user.claims.sub,
         status: 'pending',
-        expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000), // 7 days from now
-        createdAt: new Date()
-      };
+        expiresAt: new Date(Date.now() + INVITATION_TTL_MS),
+      });
 
-      invitationStore.push(newInvitation);
-      
-      // Send invitation email
       try {
-        const inviteLink = `${req.protocol}://${req.hostname}/join-team?token=${newInvitation.id}&email=${encodeURIComponent(email)}`;
-        
-        // Import email service for sending invitations
-        const { emailService } = await import('./email-service.js');
-        
-        await emailService.sendSingleEmail({
-          to: email,
-          subject: 'You\'re invited to join CRMWIZH team',
-          htmlContent: `
-            <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
-              <h2 style="color: #333;">Team Invitation</h2>
-              <p>You've been invited to join the CRMWIZH team as a <strong>${role}</strong>.</p>
-              <p>Click the button below to accept the invitation and set up your account:</p>
-              <div style="text-align: center; margin: 30px 0;">
-                <a href="${inviteLink}" style="background-color: #007bff; color: white; padding: 12px 24px; text-decoration: none; border-radius: 5px; display: inline-block;">Accept Invitation</a>
-              </div>
-              <p style="color: #666; font-size: 14px;">This invitation will expire in 7 days.</p>
-              <hr style="border: none; border-top: 1px solid #eee; margin: 30px 0;">
-              <p style="color: #999; font-size: 12px;">If you didn't expect this invitation, you can safely ignore this email.</p>
-            </div>
-          `,
-          textContent: `You've been invited to join the CRMWIZH team as a ${role}. Visit this link to accept: ${inviteLink}`
-        });
-        
+        await sendInvitationEmail(req, invitation);
         console.log(`Invitation email sent to ${email}`);
       } catch (emailError) {
         console.error('Failed to send invitation email:', emailError);
       }
       
-      res.json({ success: true, message: 'Invitation sent successfully', invitation: newInvitation });
+      res.json({ success: true, message: 'Invitation sent successfully', invitation });
     } catch (error) {
       console.error('Error sending invitation:', error);
       res.status(500).json({ message: 'Failed to send invitation' });
@@ -1291,52 +2317,66 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!token || !email || !password || !firstName) {
         return res.status(400).json({ message: 'Missing required fields' });
       }
+
+      if (password.length < 8) {
+        return res.status(400).json({ message: 'Password must be at least 8 characters' });
+      }
       
-      // Find invitation
-      const invitation = invitationStore.find(inv => 
-        inv.id.toString() === token.toString() && 
-        inv.email === email && 
-        inv.status === 'pending'
-      );
+      const invitation = await storage.getInvitationByToken(token);
       
-      if (!invitation) {
+      if (!invitation || invitation.status !== 'pending' || invitation.email.toLowerCase() !== email.toLowerCase()) {
         return res.status(404).json({ message: 'Invalid or expired invitation' });
       }
       
-      // Check if invitation has expired
       if (new Date() > invitation.expiresAt) {
+        await storage.updateInvitation(invitation.organizationId, invitation.id, { status: 'expired' });
         return res.status(400).json({ message: 'Invitation has expired' });
       }
-      
-      // Update invitation status
-      invitation.status = 'accepted';
-      invitation.acceptedAt = new Date();
-      
-      // Create new team member account
-      const newMember = {
-        id: Date.now().toString(),
+
+      const organization = await storage.getOrganization(invitation.organizationId);
+      const members = await storage.getOrganizationUsers(invitation.organizationId);
+      if (!organization || members.length >= organization.maxUsers) {
+        return res.status(403).json({ message: 'This team has no seats left. Ask an admin to upgrade the plan.' });
+      }
+
+      // Signing in with Replit gives everyone a workspace of their own. Its
+      // owner can leave it for the team while nobody else and no contacts
+      // are in it; the empty workspace is left behind.
+      const existingUser = await storage.getUserByEmail(email);
+      if (existingUser?.isActive && existingUser.organizationId && existingUser.organizationId !== invitation.organizationId) {
+        const [ownMembers, ownContacts] = await Promise.all([
+          storage.getOrganizationUsers(existingUser.organizationId),
+          storage.getAllContacts(existingUser.organizationId),
+        ]);
+        const emptySoloWorkspace = existingUser.organizationRole === 'owner' && ownMembers.length === 1 && ownContacts.length === 0;
+        if (!emptySoloWorkspace) {
+          return res.status(409).json({ message: 'This email already belongs to another team' });
+        }
+      }
+
+      const memberData = {
         firstName,
         lastName,
-        email,
-        role: 'user',
+        organizationId: invitation.organizationId,
         organizationRole: invitation.role,
+        passwordHash: await hashPassword(password),
         isActive: true,
-        joinedAt: new Date(),
-        invitationId: invitation.id,
-        password: password, // Store password for login
-        hasCompletedSetup: true
       };
-      
-      // Add to team store
-      teamStore.push(newMember);
+      const member = existingUser
+        ? await storage.updateUser(existingUser.id, memberData)
+        : await storage.upsertUser({ id: randomUUID(), email: invitation.email, ...memberData });
+
+      await storage.updateInvitation(invitation.organizationId, invitation.id, {
+        status: 'accepted',
+        acceptedAt: new Date(),
+      });
       
       console.log(`New team member joined: ${email} as ${invitation.role}`);
-      console.log('Current teamStore:', teamStore.map(m => ({ email: m.email, role: m.organizationRole })));
       
       res.json({ 
         success: true, 
         message: 'Invitation accepted successfully',
-        member: newMember,
+        member: member ? toTeamMember(member) : undefined,
         redirectTo: '/login'
       });
     } catch (error) {
@@ -1345,27 +2385,83 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put('/api/team/members/:memberId/role', isAuthenticated, async (req: any, res) => {
+  app.put('/api/team/members/:memberId/role', isAuthenticated, requirePermission('team:manage'), async (req: any, res) => {
     try {
       const { memberId } = req.params;
       const { role } = req.body;
+
+      if (!INVITABLE_ROLES.includes(role)) {
+        return res.status(400).json({ message: 'Role must be admin or member' });
+      }
+
+      const member = await storage.getOrganizationUser(req.organizationId, memberId);
+      if (!member || !member.isActive) {
+        return res.status(404).json({ message: 'Team member not found' });
+      }
+
+      if (member.organizationRole === 'owner') {
+        return res.status(400).json({ message: "The owner's role cannot be changed" });
+      }
+
+      // Admins manage members; only the owner manages other admins
+      if (member.organizationRole === 'admin' && req.organizationRole !== 'owner') {
+        return res.status(403).json({ message: "Only the owner can manage admins" });
+      }
       
-      // Mock role update logic
-      console.log(`Updating member ${memberId} role to ${role}`);
+      const updated = await storage.updateOrganizationUser(req.organizationId, memberId, { organizationRole: role });
       
-      res.json({ success: true, message: 'Role updated successfully' });
+      res.json({ success: true, message: 'Role updated successfully', member: updated ? toTeamMember(updated) : undefined });
     } catch (error) {
       console.error('Error updating member role:', error);
       res.status(500).json({ message: 'Failed to update member role' });
     }
   });
 
-  app.delete('/api/team/members/:memberId', isAuthenticated, async (req: any, res) => {
+  app.delete('/api/team/members/:memberId', isAuthenticated, requirePermission('team:manage'), async (req: any, res) => {
     try {
       const { memberId } = req.params;
+
+      const member = await storage.getOrganizationUser(req.organizationId, memberId);
+      if (!member || !member.isActive) {
+        return res.status(404).json({ message: 'Team member not found' });
+      }
+
+      if (member.organizationRole === 'owner') {
+        return res.status(400).json({ message: 'The owner cannot be removed' });
+      }
+
+      // Admins manage members; only the owner manages other admins
+      if (member.organizationRole === 'admin' && req.organizationRole !== 'owner') {
+        return res.status(403).json({ message: "Only the owner can manage admins" });
+      }
       
-      // Mock member removal logic
-      console.log(`Removing member ${memberId}`);
+      // Their mailbox stops syncing into the organization
+      const mailbox = await storage.getMailbox(req.organizationId, memberId);
+      if (mailbox) {
+        await storage.deleteMailbox(req.organizationId, mailbox.id);
+      }
+
+      // Their calendar stops syncing and their feed stops working
+      const calendarAccount = await storage.getCalendarAccount(req.organizationId, memberId);
+      if (calendarAccount) {
+        await storage.deleteCalendarAccount(req.organizationId, calendarAccount.id);
+      }
+      await storage.deleteCalendarFeed(req.organizationId, memberId);
+      await storage.deleteUserAvailability(req.organizationId, memberId);
+      await storage.removeBookingPoolMember(req.organizationId, memberId);
+
+      // Nobody can book them from their page any more
+      const bookingPage = await storage.getBookingPage(req.organizationId, memberId);
+      if (bookingPage) {
+        await storage.deleteBookingPage(req.organizationId, bookingPage.id);
+      }
+
+      // Detach rather than delete so activities and tasks keep their createdBy/assignedTo
+      await storage.updateOrganizationUser(req.organizationId, memberId, {
+        organizationId: null,
+        organizationRole: 'member',
+        passwordHash: null,
+      });
       
       res.json({ success: true, message: 'Member removed successfully' });
     } catch (error) {
@@ -1374,14 +2470,32 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/team/invitations/:invitationId/resend', isAuthenticated, async (req: any, res) => {
+  app.post('/api/team/invitations/:invitationId/resend', isAuthenticated, requirePermission('team:invite'), async (req: any, res) => {
     try {
-      const { invitationId } = req.params;
+      const invitationId = parseInt(req.params.invitationId);
+
+      const existing = await storage.getInvitation(req.organizationId, invitationId);
+      if (!existing || existing.status === 'accepted') {
+        return res.status(404).json({ message: 'Invitation not found' });
+      }
+
+      // An expired invitation no longer holds a seat, so reviving it needs one
+      if (existing.expiresAt <= new Date() && await getRemainingSeats(req.organizationId) <= 0) {
+        return res.status(403).json({ message: 'Your plan has no seats left. Upgrade to invite more members.' });
+      }
       
-      // Mock invitation resend logic
-      console.log(`Resending invitation ${invitationId}`);
+      // Rotate the token so links from earlier emails stop working
+      const invitation = await storage.updateInvitation(req.organizationId, invitationId, {
+        token: randomBytes(32).toString('hex'),
+        status: 'pending',
+        expiresAt: new Date(Date.now() + INVITATION_TTL_MS),
+      });
+
+      if (invitation) {
+        await sendInvitationEmail(req, invitation);
+      }
       
-      res.json({ success: true, message: 'Invitation resent successfully' });
+      res.json({ success: true, message: 'Invitation resent successfully', invitation });
     } catch (error) {
       console.error('Error resending invitation:', error);
       res.status(500).json({ message: 'Failed to resend invitation' });
@@ -1392,18 +2506,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post('/api/automation/score-lead/:contactId', isAuthenticated, async (req: any, res) => {
     try {
       const contactId = parseInt(req.params.contactId);
-      const contact = await storage.getContact(contactId);
+      const contact = await storage.getContact(req.organizationId, contactId);
       if (!contact) {
         return res.status(404).json({ message: 'Contact not found' });
       }
       
-      const activities = await storage.getContactActivities(contactId);
-      const deals = await storage.getContactDeals(contactId);
+      const activities = await storage.getContactActivities(req.organizationId, contactId);
+      const deals = await pipelineService.withStages(req.organizationId, await storage.getContactDeals(req.organizationId, contactId));
       
       const scoringResult = AdvancedLeadScoring.calculateLeadScore(contact, activities, deals);
       
       // Update contact with new score
-      await storage.updateContact(contactId, { leadScore: scoringResult.score });
+      await storage.updateContact(req.organizationId, contactId, { leadScore: scoringResult.score });
       
       // Process automation triggers
       for (const trigger of scoringResult.triggers) {
@@ -1423,97 +2537,291 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Bulk Lead Scoring for all contacts
+  // Bulk Lead Scoring for all contacts, as a background job
   app.post('/api/automation/bulk-score-leads', isAuthenticated, async (req: any, res) => {
     try {
-      const contacts = await storage.getAllContacts();
-      let processed = 0;
-      let automationTriggered = 0;
-      
-      for (const contact of contacts) {
-        const activities = await storage.getContactActivities(contact.id);
-        const deals = await storage.getContactDeals(contact.id);
-        
-        const scoringResult = AdvancedLeadScoring.calculateLeadScore(contact, activities, deals);
-        
-        // Update contact score
-        await storage.updateContact(contact.id, { leadScore: scoringResult.score });
-        
-        if (scoringResult.triggers.length > 0) {
-          automationTriggered++;
-        }
-        
-        processed++;
-      }
-      
-      res.json({
-        processed,
-        automationTriggered,
-        message: `Successfully processed ${processed} contacts with ${automationTriggered} automation triggers`
+      const job = await jobQueue.enqueue(req.organizationId, 'leads.score', {
+        idempotencyKey: req.get('Idempotency-Key') || undefined,
+        createdBy: req.user.claims.sub,
       });
+      res.status(202).json(job);
     } catch (error) {
       console.error('Bulk scoring error:', error);
       res.status(500).json({ message: 'Bulk scoring failed' });
     }
   });
 
-  // Campaign Automation Endpoints
+  // Background jobs. Anyone can poll a job they started; the dead-letter list
+  // and retries are for admins.
+  app.get('/api/jobs', isAuthenticated, requirePermission('jobs:manage'), async (req: any, res) => {
+    try {
+      const status = typeof req.query.status === 'string' ? req.query.status : undefined;
+      if (status && !(jobStatuses as readonly string[]).includes(status)) {
+        return res.status(400).json({ message: `Status must be one of: ${jobStatuses.join(', ')}` });
+      }
+
+      const jobs = await storage.getJobs(req.organizationId, status);
+      res.json(jobs);
+    } catch (error) {
+      console.error('Error fetching jobs:', error);
+      res.status(500).json({ message: 'Failed to fetch jobs' });
+    }
+  });
+
+  app.get('/api/jobs/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const job = await storage.getJob(req.organizationId, parseInt(req.params.id));
+      if (!job) {
+        return res.status(404).json({ message: 'Job not found' });
+      }
+      res.json(job);
+    } catch (error) {
+      console.error('Error fetching job:', error);
+      res.status(500).json({ message: 'Failed to fetch job' });
+    }
+  });
+
+  app.post('/api/jobs/:id/retry', isAuthenticated, requirePermission('jobs:manage'), async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const job = await storage.retryJob(req.organizationId, id);
+      if (!job) {
+        const existing = await storage.getJob(req.organizationId, id);
+        return existing
+          ? res.status(409).json({ message: 'Only dead jobs can be retried' })
+          : res.status(404).json({ message: 'Job not found' });
+      }
+      res.json(job);
+    } catch (error) {
+      console.error('Error retrying job:', error);
+      res.status(500).json({ message: 'Failed to retry job' });
+    }
+  });
+
+  // Campaign sequences and enrollments. Each sequence comes with counts of its
+  // enrollments by status.
   app.get('/api/campaigns/sequences', isAuthenticated, async (req: any, res) => {
     try {
-      const sequences = CampaignAutomation.getDefaultSequences();
-      res.json(sequences);
+      const sequences = await campaignService.getSequences(req.organizationId);
+      const enrollments = await storage.getCampaignEnrollments(req.organizationId);
+      res.json(sequences.map(sequence => ({
+        ...sequence,
+        enrollments: campaignService.countEnrollments(enrollments.filter(enrollment => enrollment.sequenceId === sequence.id)),
+      })));
     } catch (error) {
       console.error('Error fetching campaign sequences:', error);
       res.status(500).json({ message: 'Failed to fetch campaigns' });
     }
   });
 
-  app.post('/api/campaigns/trigger/:sequenceId', isAuthenticated, async (req: any, res) => {
+  app.get('/api/campaigns/sequences/:id', isAuthenticated, async (req: any, res) => {
     try {
-      const { sequenceId } = req.params;
-      const { contactId } = req.body;
-      
-      const contact = await storage.getContact(contactId);
+      const sequence = await storage.getCampaignSequence(req.organizationId, parseInt(req.params.id));
+      if (!sequence) {
+        return res.status(404).json({ message: 'Campaign sequence not found' });
+      }
+      res.json(sequence);
+    } catch (error) {
+      console.error('Error fetching campaign sequence:', error);
+      res.status(500).json({ message: 'Failed to fetch campaign' });
+    }
+  });
+
+  app.post('/api/campaigns/sequences', isAuthenticated, requirePermission('campaigns:manage'), async (req: any, res) => {
+    try {
+      const input = campaignSequenceInputSchema.parse(req.body);
+      const issues = input.status === 'active' ? sequenceIssues(input) : [];
+      if (issues.length > 0) {
+        return res.status(400).json({ message: issues[0].message, errors: issues });
+      }
+      const sequence = await storage.createCampaignSequence(req.organizationId, {
+        ...campaignService.toInsertSequence(input),
+        createdBy: req.user.claims.sub,
+      });
+      res.status(201).json(sequence);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid campaign sequence', errors: error.errors });
+      }
+      console.error('Error creating campaign sequence:', error);
+      res.status(500).json({ message: 'Failed to create campaign' });
+    }
+  });
+
+  // Per-variant metrics for every A/B-tested step, with how sure the leader is
+  app.get('/api/campaigns/sequences/:id/ab-results', isAuthenticated, async (req: any, res) => {
+    try {
+      const sequence = await storage.getCampaignSequence(req.organizationId, parseInt(req.params.id));
+      if (!sequence) {
+        return res.status(404).json({ message: 'Campaign sequence not found' });
+      }
+      res.json(await abTestService.getResults(req.organizationId, sequence));
+    } catch (error) {
+      console.error('Error fetching A/B test results:', error);
+      res.status(500).json({ message: 'Failed to fetch A/B test results' });
+    }
+  });
+
+  // A step rendered for one contact with the sequence's merge tags, as the editor is showing it
+  app.post('/api/campaigns/preview', isAuthenticated, async (req: any, res) => {
+    try {
+      const { step, personalization, contactId } = z.object({
+        step: campaignStepSchema,
+        personalization: campaignSequenceInputSchema.shape.personalization,
+        contactId: z.number().int(),
+      }).parse(req.body);
+
+      const contact = await storage.getContact(req.organizationId, contactId);
       if (!contact) {
         return res.status(404).json({ message: 'Contact not found' });
       }
-      
-      const sequences = CampaignAutomation.getDefaultSequences();
-      const sequence = sequences.find(s => s.id === sequenceId);
-      
+      res.json(CampaignAutomation.previewStep(step, contact, personalization));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid preview request', errors: error.errors });
+      }
+      console.error('Error previewing campaign step:', error);
+      res.status(500).json({ message: 'Failed to preview step' });
+    }
+  });
+
+  // Enrolled contacts carry on from their current step index in the edited sequence
+  app.put('/api/campaigns/sequences/:id', isAuthenticated, requirePermission('campaigns:manage'), async (req: any, res) => {
+    try {
+      const input = campaignSequenceInputSchema.parse(req.body);
+      const issues = input.status === 'active' ? sequenceIssues(input) : [];
+      if (issues.length > 0) {
+        return res.status(400).json({ message: issues[0].message, errors: issues });
+      }
+      const sequence = await storage.updateCampaignSequence(req.organizationId, parseInt(req.params.id), campaignService.toInsertSequence(input));
       if (!sequence) {
         return res.status(404).json({ message: 'Campaign sequence not found' });
       }
-      
-      // Trigger first step of sequence
-      if (sequence.steps.length > 0) {
-        await CampaignAutomation.executeCampaignStep(sequence.steps[0], contact, sequence);
+      res.json(sequence);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid campaign sequence', errors: error.errors });
       }
-      
-      res.json({
-        success: true,
-        message: `Campaign ${sequence.name} triggered for ${contact.firstName} ${contact.lastName}`,
-        sequenceId,
-        contactId,
-        nextSteps: sequence.steps.length - 1
-      });
+      console.error('Error updating campaign sequence:', error);
+      res.status(500).json({ message: 'Failed to update campaign' });
+    }
+  });
+
+  app.delete('/api/campaigns/sequences/:id', isAuthenticated, requirePermission('campaigns:manage'), async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const open = await storage.getCampaignEnrollments(req.organizationId, { sequenceId: id, statuses: ['active', 'paused'] });
+      if (open.length > 0) {
+        return res.status(409).json({ message: 'Exit the contacts still enrolled before deleting this sequence' });
+      }
+
+      const deleted = await storage.deleteCampaignSequence(req.organizationId, id);
+      if (!deleted) {
+        return res.status(404).json({ message: 'Campaign sequence not found' });
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error('Error deleting campaign sequence:', error);
+      res.status(500).json({ message: 'Failed to delete campaign' });
+    }
+  });
+
+  app.get('/api/campaigns/sequences/:id/enrollments', isAuthenticated, async (req: any, res) => {
+    try {
+      const enrollments = await storage.getCampaignEnrollments(req.organizationId, { sequenceId: parseInt(req.params.id) });
+      res.json(enrollments);
+    } catch (error) {
+      console.error('Error fetching enrollments:', error);
+      res.status(500).json({ message: 'Failed to fetch enrollments' });
+    }
+  });
+
+  app.post('/api/campaigns/sequences/:id/enrollments', isAuthenticated, requirePermission('campaigns:send'), async (req: any, res) => {
+    try {
+      const { contactId } = z.object({ contactId: z.number().int() }).parse(req.body);
+      const sequence = await storage.getCampaignSequence(req.organizationId, parseInt(req.params.id));
+      if (!sequence) {
+        return res.status(404).json({ message: 'Campaign sequence not found' });
+      }
+      if (sequence.status !== 'active' || sequence.steps.length === 0) {
+        return res.status(409).json({ message: 'Only active sequences with steps can take enrollments' });
+      }
+
+      const contact = await storage.getContact(req.organizationId, contactId);
+      if (!contact) {
+        return res.status(404).json({ message: 'Contact not found' });
+      }
+
+      const enrollment = await campaignService.enroll(req.organizationId, sequence, contact, req.user.claims.sub);
+      if (!enrollment) {
+        return res.status(409).json({ message: `${contact.firstName} ${contact.lastName} is already enrolled in ${sequence.name}` });
+      }
+      res.status(201).json(enrollment);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid enrollment', errors: error.errors });
+      }
+      console.error('Campaign enrollment error:', error);
+      res.status(500).json({ message: 'Failed to enroll contact' });
+    }
+  });
+
+  app.get('/api/contacts/:id/enrollments', isAuthenticated, async (req: any, res) => {
+    try {
+      const enrollments = await storage.getCampaignEnrollments(req.organizationId, { contactId: parseInt(req.params.id) });
+      res.json(enrollments);
+    } catch (error) {
+      console.error('Error fetching enrollments:', error);
+      res.status(500).json({ message: 'Failed to fetch enrollments' });
+    }
+  });
+
+  // pause and resume toggle an open enrollment; exit ends it for good
+  app.patch('/api/campaigns/enrollments/:id', isAuthenticated, requirePermission('campaigns:send'), async (req: any, res) => {
+    try {
+      const { action } = z.object({ action: z.enum(enrollmentActions) }).parse(req.body);
+      const enrollment = await storage.getCampaignEnrollment(req.organizationId, parseInt(req.params.id));
+      if (!enrollment) {
+        return res.status(404).json({ message: 'Enrollment not found' });
+      }
+
+      const allowedFrom: Record<typeof action, string[]> = {
+        pause: ['active'],
+        resume: ['paused'],
+        exit: ['active', 'paused'],
+      };
+      if (!allowedFrom[action].includes(enrollment.status)) {
+        return res.status(409).json({ message: `A ${enrollment.status} enrollment can't ${action}` });
+      }
+
+      const updated = action === 'pause'
+        ? await campaignService.pause(req.organizationId, enrollment)
+        : action === 'resume'
+          ? await campaignService.resume(req.organizationId, enrollment)
+          : await campaignService.exit(req.organizationId, enrollment, 'manual');
+      res.json(updated);
     } catch (error) {
-      console.error('Campaign trigger error:', error);
-      res.status(500).json({ message: 'Campaign trigger failed' });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid enrollment action', errors: error.errors });
+      }
+      console.error('Enrollment update error:', error);
+      res.status(500).json({ message: 'Failed to update enrollment' });
     }
   });
 
   // Lifecycle Automation - Auto-assign leads based on score
   app.post('/api/automation/lifecycle-rules', isAuthenticated, async (req: any, res) => {
     try {
-      const contacts = await storage.getAllContacts();
+      const contacts = await storage.getAllContacts(req.organizationId);
       let mqlCount = 0;
       let sqlCount = 0;
       let hotLeadCount = 0;
       
+      const stages = (await pipelineService.getPipelines(req.organizationId)).flatMap(pipeline => pipeline.stages);
+      
       for (const contact of contacts) {
-        const activities = await storage.getContactActivities(contact.id);
-        const deals = await storage.getContactDeals(contact.id);
+        const activities = await storage.getContactActivities(req.organizationId, contact.id);
+        const deals = pipelineService.attachStages(await storage.getContactDeals(req.organizationId, contact.id), stages);
         
         const scoringResult = AdvancedLeadScoring.calculateLeadScore(contact, activities, deals);
         
@@ -1525,11 +2833,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
           hotLeadCount++;
           
           // Auto-assign to senior sales rep
-          await storage.createTask({
+          await storage.createTask(req.organizationId, {
             title: `HOT LEAD: Contact ${contact.firstName} ${contact.lastName} immediately`,
             description: `Lead score: ${scoringResult.score}/100. ${scoringResult.reasoning}`,
             contactId: contact.id,
-            organizationId: contact.organizationId,
             priority: 'high',
             status: 'pending',
             assignedTo: 'senior-sales-rep',
@@ -1542,11 +2849,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
           sqlCount++;
           
           // Create follow-up task
-          await storage.createTask({
+          await storage.createTask(req.organizationId, {
             title: `Follow up with qualified lead: ${contact.firstName} ${contact.lastName}`,
             description: `MQL to SQL conversion opportunity. Score: ${scoringResult.score}/100`,
             contactId: contact.id,
-            organizationId: contact.organizationId,
             priority: 'medium',
             status: 'pending',
             assignedTo: 'sales-rep',
@@ -1561,7 +2867,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         
         // Update contact status if changed
         if (newStatus !== contact.leadStatus) {
-          await storage.updateContact(contact.id, { 
+          await storage.updateContact(req.organizationId, contact.id, { 
             leadStatus: newStatus,
             leadScore: scoringResult.score
           });
@@ -1585,9 +2891,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Churn Prediction & Win-Back System
   app.get('/api/automation/churn-analysis', isAuthenticated, async (req: any, res) => {
     try {
-      const contacts = await storage.getAllContacts();
-      const activities = await storage.getAllActivities();
-      const deals = await storage.getAllDeals();
+      const contacts = await storage.getAllContacts(req.organizationId);
+      const activities = await storage.getAllActivities(req.organizationId);
+      const deals = await storage.getAllDeals(req.organizationId);
       
       const churnRisks = [];
       const winBackOpportunities = [];
@@ -1668,8 +2974,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get('/api/automation/nps-dashboard', isAuthenticated, async (req: any, res) => {
     try {
       // Mock NPS data based on contact engagement
-      const contacts = await storage.getAllContacts();
-      const activities = await storage.getAllActivities();
+      const contacts = await storage.getAllContacts(req.organizationId);
+      const activities = await storage.getAllActivities(req.organizationId);
       
       let promoters = 0;
       let passives = 0;
@@ -1732,15 +3038,50 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Reports & Analytics API
+  // Weighted pipeline and commit / best case / pipeline categories by period and owner
+  app.get('/api/forecast', isAuthenticated, async (req: any, res) => {
+    try {
+      const query = forecastQuerySchema.parse(req.query);
+      const from = query.from ?? forecastService.addPeriods(forecastService.startOfPeriod(new Date(), query.period), query.period, -2);
+
+      const [pipelines, users] = await Promise.all([
+        pipelineService.getPipelines(req.organizationId),
+        storage.getOrganizationUsers(req.organizationId),
+      ]);
+      let deals = pipelineService.attachStages(
+        await storage.getAllDeals(req.organizationId),
+        pipelines.flatMap(pipeline => pipeline.stages)
+      );
+      if (query.pipelineId) {
+        deals = deals.filter(deal => deal.stage?.pipelineId === query.pipelineId);
+      }
+
+      res.json(forecastService.buildForecast(deals, users, { period: query.period, from, count: query.periods }));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid forecast options', errors: error.errors });
+      }
+      console.error('Forecast error:', error);
+      res.status(500).json({ message: 'Failed to build forecast' });
+    }
+  });
+
   app.get('/api/reports', isAuthenticated, async (req: any, res) => {
     try {
       const { dateRange = "30", reportType = "overview" } = req.query;
       
       // Get all data for calculations
-      const contacts = await storage.getAllContacts();
-      const activities = await storage.getAllActivities();
-      const deals = await storage.getAllDeals();
-      const tasks = await storage.getAllTasks();
+      const contacts = await storage.getAllContacts(req.organizationId);
+      const activities = await storage.getAllActivities(req.organizationId);
+      const pipelines = await pipelineService.getPipelines(req.organizationId);
+      const deals = pipelineService.attachStages(
+        await storage.getAllDeals(req.organizationId),
+        pipelines.flatMap(pipeline => pipeline.stages)
+      );
+      const tasks = await storage.getAllTasks(req.organizationId);
+      const transitions = await storage.getDealStageTransitions(req.organizationId);
+      const lineItems = await storage.getDealLineItems(req.organizationId);
+      const users = await storage.getOrganizationUsers(req.organizationId);
       
       // Calculate date range
       const endDate = new Date();
@@ -1756,8 +3097,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       );
       
       // Calculate sales metrics
-      const wonDeals = filteredDeals.filter(deal => deal.stage === 'won');
-      const lostDeals = filteredDeals.filter(deal => deal.stage === 'lost');
+      const wonDeals = filteredDeals.filter(deal => pipelineService.hasOutcome(deal, 'won'));
+      const lostDeals = filteredDeals.filter(deal => pipelineService.hasOutcome(deal, 'lost'));
       const totalRevenue = wonDeals.reduce((sum, deal) => sum + (parseFloat(deal.value || '0') || 0), 0);
       const averageDealSize = wonDeals.length > 0 ? totalRevenue / wonDeals.length : 0;
       const conversionRate = filteredDeals.length > 0 ? (wonDeals.length / filteredDeals.length) * 100 : 0;
@@ -1805,7 +3146,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
         
         const weekRevenue = weekDeals
-          .filter(deal => deal.stage === 'won')
+          .filter(deal => pipelineService.hasOutcome(deal, 'won'))
           .reduce((sum, deal) => sum + (parseFloat(deal.value || '0') || 0), 0);
         
         timeSeriesData.push({
@@ -1818,16 +3159,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       // Conversion funnel
       const totalLeads = contacts.length;
-      const opportunityDeals = deals.filter(deal => deal.stage !== 'won' && deal.stage !== 'lost');
-      const proposalDeals = deals.filter(deal => deal.stage === 'proposal');
-      
       const conversionFunnel = [
-        { stage: "Leads Generated", count: totalLeads, conversionRate: 100 },
-        { stage: "Qualified Leads", count: qualifiedLeads.length, conversionRate: totalLeads > 0 ? (qualifiedLeads.length / totalLeads) * 100 : 0 },
-        { stage: "Opportunities", count: opportunityDeals.length, conversionRate: totalLeads > 0 ? (opportunityDeals.length / totalLeads) * 100 : 0 },
-        { stage: "Proposals Sent", count: proposalDeals.length, conversionRate: totalLeads > 0 ? (proposalDeals.length / totalLeads) * 100 : 0 },
-        { stage: "Deals Won", count: wonDeals.length, conversionRate: totalLeads > 0 ? (wonDeals.length / totalLeads) * 100 : 0 }
-      ];
+        { stage: "Leads Generated", count: totalLeads },
+        { stage: "Qualified Leads", count: qualifiedLeads.length },
+        ...pipelineService.buildFunnel(pipelineService.getDefaultPipeline(pipelines), deals)
+          .map(step => ({ stage: step.name, count: step.count })),
+      ].map(step => ({ ...step, conversionRate: totalLeads > 0 ? (step.count / totalLeads) * 100 : 0 }));
       
       // Calculate sales cycle (average days from creation to close)
       const closedDeals = filteredDeals.filter(deal => deal.actualCloseDate);
@@ -1838,6 +3175,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
           return sum + Math.floor((closed.getTime() - created.getTime()) / (1000 * 60 * 60 * 24));
         }, 0) / closedDeals.length : 0;
       
+      // Time in stage and stage-to-stage conversion for the default pipeline
+      const defaultPipeline = pipelineService.getDefaultPipeline(pipelines);
+      const stageAnalytics = {
+        pipeline: defaultPipeline.name,
+        timeInStage: pipelineService.stageDurations(defaultPipeline, deals, transitions, startDate, endDate),
+        stageConversion: pipelineService.stageConversions(defaultPipeline, deals, transitions, startDate),
+      };
+      
+      // Won revenue by what was sold and by who sold it
+      const revenueBreakdown = {
+        byProduct: productService.revenueByProduct(wonDeals, lineItems),
+        byOwner: forecastService.revenueByOwner(wonDeals, users),
+      };
+      
       res.json({
         salesMetrics: {
           totalRevenue,
@@ -1860,7 +3211,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
           meetingsScheduled: meetingActivities.length
         },
         timeSeriesData,
-        conversionFunnel
+        conversionFunnel,
+        stageAnalytics,
+        revenueBreakdown
       });
     } catch (error) {
       console.error('Reports API error:', error);
@@ -1872,23 +3225,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post('/api/email/send-follow-up', isAuthenticated, async (req: any, res) => {
     try {
       const { contactId, customMessage } = req.body;
-      const contact = await storage.getContact(contactId);
+      const contact = await storage.getContact(req.organizationId, contactId);
       
       if (!contact) {
         return res.status(404).json({ message: "Contact not found" });
       }
 
-      const success = await emailService.sendFollowUpEmail(contact, customMessage);
+      if (!await consentService.canContact(contact, "email")) {
+        return res.status(409).json({ message: "This contact has opted out of email" });
+      }
+
+      const success = await emailService.sendFollowUpEmail(contact, customMessage, req.user.claims.sub);
       
       if (success) {
         // Log the email activity
-        await storage.createActivity({
+        await storage.createActivity(req.organizationId, {
           contactId,
           type: "email",
           title: "Follow-up email sent",
           description: `Automated follow-up email sent to ${contact.email}`,
           date: new Date(),
-          organizationId: contact.organizationId,
           createdBy: req.user.claims.sub
         });
         
@@ -1905,22 +3261,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post('/api/email/send-welcome', isAuthenticated, async (req: any, res) => {
     try {
       const { contactId } = req.body;
-      const contact = await storage.getContact(contactId);
+      const contact = await storage.getContact(req.organizationId, contactId);
       
       if (!contact) {
         return res.status(404).json({ message: "Contact not found" });
       }
 
-      const success = await emailService.sendWelcomeEmail(contact);
+      if (!await consentService.canContact(contact, "email")) {
+        return res.status(409).json({ message: "This contact has opted out of email" });
+      }
+
+      const success = await emailService.sendWelcomeEmail(contact, req.user.claims.sub);
       
       if (success) {
-        await storage.createActivity({
+        await storage.createActivity(req.organizationId, {
           contactId,
           type: "email",
           title: "Welcome email sent",
           description: `Welcome email sent to ${contact.email}`,
           date: new Date(),
-          organizationId: contact.organizationId,
           createdBy: req.user.claims.sub
         });
         
@@ -1929,205 +3288,852 @@ export async function registerRoutes(app: Express): Promise<Server> {
         res.status(500).json({ success: false, message: "Failed to send email" });
       }
     } catch (error) {
-      console.error('Error sending welcome email:', error);
-      res.status(500).json({ message: 'Failed to send email' });
+      console.error('Error sending welcome email:', error);
+      res.status(500).json({ message: 'Failed to send email' });
+    }
+  });
+
+  app.post('/api/email/send-bulk-campaign', isAuthenticated, requirePermission('campaigns:send'), async (req: any, res) => {
+    try {
+      const { contactIds, subject, htmlContent, textContent } = req.body;
+      
+      const contacts = await Promise.all(
+        contactIds.map((id: number) => storage.getContact(req.organizationId, id))
+      );
+      
+      const validContacts = contacts.filter(contact => contact !== undefined);
+      
+      if (validContacts.length === 0) {
+        return res.status(400).json({ message: "No valid contacts found" });
+      }
+
+      const result = await emailService.sendBulkCampaign({
+        contacts: validContacts,
+        subject,
+        htmlContent,
+        textContent,
+        createdBy: req.user.claims.sub,
+      });
+      
+      // Log activities for sent emails
+      for (const contact of validContacts) {
+        await storage.createActivity(req.organizationId, {
+          contactId: contact.id,
+          type: "email",
+          title: "Campaign email sent",
+          description: `Campaign email sent: ${subject}`,
+          date: new Date(),
+          createdBy: req.user.claims.sub
+        });
+      }
+      
+      res.json({
+        success: true,
+        message: `Campaign sent to ${result.sent} contacts` +
+          (result.suppressed ? `, ${result.suppressed} skipped because they opted out` : ""),
+        details: result
+      });
+    } catch (error) {
+      console.error('Error sending bulk campaign:', error);
+      res.status(500).json({ message: 'Failed to send campaign' });
+    }
+  });
+
+  // The signed-in user's own mailbox, connected over IMAP and SMTP
+  app.get('/api/mailbox', isAuthenticated, async (req: any, res) => {
+    try {
+      const mailbox = await storage.getMailbox(req.organizationId, req.user.claims.sub);
+      res.json(mailbox ? mailboxService.summary(mailbox) : null);
+    } catch (error) {
+      console.error('Error fetching mailbox:', error);
+      res.status(500).json({ message: 'Failed to fetch mailbox' });
+    }
+  });
+
+  // Saves the mailbox after signing in to both servers with its settings
+  app.put('/api/mailbox', isAuthenticated, async (req: any, res) => {
+    try {
+      const input = mailboxSettingsSchema.parse(req.body);
+      const existing = await storage.getMailbox(req.organizationId, req.user.claims.sub);
+
+      const settings = mailboxService.withPassword(input, existing);
+      if (!settings) {
+        return res.status(400).json({ message: 'Password is required' });
+      }
+
+      const problem = await mailboxService.testConnection(settings);
+      if (problem) {
+        return res.status(400).json({ message: problem });
+      }
+
+      const mailbox = await mailboxService.connect(req.organizationId, req.user.claims.sub, settings, existing);
+      res.json(mailboxService.summary(mailbox));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid mailbox settings', errors: error.errors });
+      }
+      console.error('Error connecting mailbox:', error);
+      res.status(500).json({ message: 'Failed to connect mailbox' });
+    }
+  });
+
+  app.delete('/api/mailbox', isAuthenticated, async (req: any, res) => {
+    try {
+      const mailbox = await storage.getMailbox(req.organizationId, req.user.claims.sub);
+      if (!mailbox) {
+        return res.status(404).json({ message: 'No mailbox connected' });
+      }
+
+      await storage.deleteMailbox(req.organizationId, mailbox.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error('Error disconnecting mailbox:', error);
+      res.status(500).json({ message: 'Failed to disconnect mailbox' });
+    }
+  });
+
+  // Syncs right away instead of waiting for the next scheduled sync
+  app.post('/api/mailbox/sync', isAuthenticated, async (req: any, res) => {
+    try {
+      const mailbox = await storage.getMailbox(req.organizationId, req.user.claims.sub);
+      if (!mailbox) {
+        return res.status(404).json({ message: 'No mailbox connected' });
+      }
+
+      res.json(await mailboxService.sync(mailbox));
+    } catch (error) {
+      console.error('Error syncing mailbox:', error);
+      res.status(500).json({ message: `Mailbox sync failed: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+
+  // Sends from the user's own mailbox, optionally as a reply in a thread
+  app.post('/api/contacts/:id/emails', isAuthenticated, async (req: any, res) => {
+    try {
+      const { subject, body, replyToId } = mailboxSendSchema.parse(req.body);
+      const contact = await storage.getContact(req.organizationId, parseInt(req.params.id));
+      if (!contact) {
+        return res.status(404).json({ message: 'Contact not found' });
+      }
+
+      const mailbox = await storage.getMailbox(req.organizationId, req.user.claims.sub);
+      if (!mailbox) {
+        return res.status(400).json({ message: 'Connect your mailbox before sending from it' });
+      }
+
+      if (!await consentService.canContact(contact, 'email')) {
+        return res.status(409).json({ message: 'This contact has opted out of email' });
+      }
+
+      const replyTo = replyToId ? await storage.getEmailMessage(req.organizationId, replyToId) : undefined;
+      if (replyToId && replyTo?.contactId !== contact.id) {
+        return res.status(404).json({ message: 'Email to reply to not found' });
+      }
+
+      const message = await mailboxService.send(mailbox, contact, { subject, body, replyTo, createdBy: req.user.claims.sub });
+      const { trackingToken, links, ...sent } = message;
+      res.status(201).json(sent);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid email', errors: error.errors });
+      }
+      console.error('Error sending email from mailbox:', error);
+      res.status(500).json({ message: `Failed to send email: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+
+  app.get('/api/email/templates', isAuthenticated, async (req: any, res) => {
+    try {
+      const templates = emailService.getEmailTemplates();
+      res.json(templates);
+    } catch (error) {
+      console.error('Error fetching email templates:', error);
+      res.status(500).json({ message: 'Failed to fetch templates' });
+    }
+  });
+
+  // Calendar Management Routes
+  app.post('/api/calendar/schedule-meeting', isAuthenticated, async (req: any, res) => {
+    try {
+      const { contactId, dealId, proposedTimes, meetingType, duration, description, location, attendees } = scheduleMeetingSchema.parse(req.body);
+      const contact = await storage.getContact(req.organizationId, contactId);
+      
+      if (!contact) {
+        return res.status(404).json({ message: "Contact not found" });
+      }
+      if (dealId) {
+        const deal = await storage.getDeal(req.organizationId, dealId);
+        if (!deal || deal.contactId !== contactId) {
+          return res.status(404).json({ message: "Deal not found for this contact" });
+        }
+      }
+
+      const result = await calendarService.scheduleFollowUpMeeting(req.organizationId, {
+        contactId,
+        contact,
+        dealId,
+        proposedTimes,
+        meetingType,
+        duration,
+        description,
+        location,
+        attendees,
+        createdBy: req.user.claims.sub
+      });
+      
+      if (!result.event) {
+        return res.status(409).json(result);
+      }
+
+      await enqueueMeetingReminder(req.organizationId, result.event, { idempotencyKey: `meeting-reminder:${result.event.id}`, createdBy: req.user.claims.sub });
+      res.status(201).json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid meeting", errors: error.errors });
+      }
+      console.error('Error scheduling meeting:', error);
+      res.status(500).json({ message: 'Failed to schedule meeting' });
+    }
+  });
+
+  app.get('/api/calendar/available-slots', isAuthenticated, async (req: any, res) => {
+    try {
+      const { startDate, endDate, duration } = req.query;
+      
+      const start = new Date(startDate as string);
+      const end = new Date(endDate as string);
+      const meetingDuration = duration ? parseInt(duration as string) : 30;
+      
+      const slots = await calendarService.getAvailableTimeSlots(req.organizationId, start, end, meetingDuration, req.user.claims.sub);
+      res.json(slots);
+    } catch (error) {
+      console.error('Error fetching available slots:', error);
+      res.status(500).json({ message: 'Failed to fetch available slots' });
+    }
+  });
+
+  app.get('/api/calendar/upcoming-meetings', isAuthenticated, async (req: any, res) => {
+    try {
+      const { days } = req.query;
+      const daysAhead = days ? parseInt(days as string) : 7;
+      
+      const meetings = await calendarService.getUpcomingMeetings(req.organizationId, daysAhead);
+      res.json(meetings);
+    } catch (error) {
+      console.error('Error fetching upcoming meetings:', error);
+      res.status(500).json({ message: 'Failed to fetch meetings' });
+    }
+  });
+
+  // Every meeting with a contact, past and upcoming, including cancelled ones
+  app.get('/api/contacts/:id/meetings', isAuthenticated, async (req: any, res) => {
+    try {
+      const contact = await storage.getContact(req.organizationId, parseInt(req.params.id));
+      if (!contact) {
+        return res.status(404).json({ message: "Contact not found" });
+      }
+      res.json(await storage.getCalendarEvents(req.organizationId, { contactId: contact.id }));
+    } catch (error) {
+      console.error('Error fetching contact meetings:', error);
+      res.status(500).json({ message: 'Failed to fetch meetings' });
+    }
+  });
+
+  app.post('/api/calendar/send-reminder/:eventId', isAuthenticated, async (req: any, res) => {
+    try {
+      const event = await calendarService.getEvent(req.organizationId, parseInt(req.params.eventId));
+      
+      if (!event) {
+        return res.status(404).json({ success: false, message: "Meeting not found" });
+      }
+      if (event.reminderSent) {
+        return res.status(400).json({ success: false, message: "Reminder already sent" });
+      }
+
+      const job = await enqueueMeetingReminder(req.organizationId, event, {
+        now: true,
+        idempotencyKey: req.get('Idempotency-Key') || undefined,
+        createdBy: req.user.claims.sub,
+      });
+      res.status(202).json({ success: true, message: "Reminder queued", jobId: job.id });
+    } catch (error) {
+      console.error('Error sending meeting reminder:', error);
+      res.status(500).json({ message: 'Failed to send reminder' });
+    }
+  });
+
+  app.patch('/api/calendar/meeting/:eventId/status', isAuthenticated, async (req: any, res) => {
+    try {
+      const { status } = meetingStatusSchema.parse(req.body);
+      
+      const event = await calendarService.updateMeetingStatus(req.organizationId, parseInt(req.params.eventId), status, req.user.claims.sub);
+      
+      if (event) {
+        res.json({ success: true, message: "Meeting status updated", event });
+      } else {
+        res.status(404).json({ success: false, message: "Meeting not found" });
+      }
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid meeting status", errors: error.errors });
+      }
+      console.error('Error updating meeting status:', error);
+      res.status(500).json({ message: 'Failed to update meeting status' });
+    }
+  });
+
+  // Moves a meeting and sends invitees the new time
+  app.patch('/api/calendar/meeting/:eventId/time', isAuthenticated, async (req: any, res) => {
+    try {
+      const { startTime } = meetingTimeSchema.parse(req.body);
+
+      const result = await calendarService.rescheduleMeeting(req.organizationId, parseInt(req.params.eventId), startTime, req.user.claims.sub);
+      if (!result) {
+        return res.status(404).json({ message: "Meeting not found" });
+      }
+      if (!result.event) {
+        return res.status(409).json({ message: result.message });
+      }
+
+      await enqueueMeetingReminder(req.organizationId, result.event, {
+        idempotencyKey: `meeting-reminder:${result.event.id}:${result.event.sequence}`,
+        createdBy: req.user.claims.sub,
+      });
+      res.json({ success: true, message: result.message, event: result.event });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid meeting time", errors: error.errors });
+      }
+      console.error('Error moving meeting:', error);
+      res.status(500).json({ message: 'Failed to move meeting' });
+    }
+  });
+
+  app.post('/api/calendar/auto-schedule-follow-up', isAuthenticated, async (req: any, res) => {
+    try {
+      const { contactId, urgency, bookingTypeId } = autoScheduleSchema.parse(req.body);
+      const contact = await storage.getContact(req.organizationId, contactId);
+      
+      if (!contact) {
+        return res.status(404).json({ message: "Contact not found" });
+      }
+
+      let event;
+      if (bookingTypeId) {
+        const type = await storage.getBookingType(req.organizationId, bookingTypeId);
+        if (!type || type.hostMode === 'owner') {
+          return res.status(404).json({ message: "Team meeting type not found" });
+        }
+        event = await teamSchedulingService.autoScheduleFollowUp(req.organizationId, contact, urgency, type, req.user.claims.sub);
+      } else {
+        event = await calendarService.autoScheduleFollowUp(req.organizationId, contact, urgency, req.user.claims.sub);
+      }
+      
+      if (event) {
+        await enqueueMeetingReminder(req.organizationId, event, { idempotencyKey: `meeting-reminder:${event.id}`, createdBy: req.user.claims.sub });
+        
+        res.json({ 
+          success: true, 
+          eventId: event.id, 
+          event,
+          message: "Follow-up meeting auto-scheduled successfully" 
+        });
+      } else {
+        res.status(400).json({ 
+          success: false, 
+          message: "No available slots for auto-scheduling" 
+        });
+      }
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid auto-schedule request', errors: error.errors });
+      }
+      console.error('Error auto-scheduling follow-up:', error);
+      res.status(500).json({ message: 'Failed to auto-schedule follow-up' });
+    }
+  });
+
+  // Round-robin and collective meeting types anyone can book follow-ups with
+  app.get('/api/calendar/team-meeting-types', isAuthenticated, async (req: any, res) => {
+    try {
+      const types = await storage.getTeamBookingTypes(req.organizationId);
+      res.json(types.filter(type => type.isActive));
+    } catch (error) {
+      console.error('Error fetching team meeting types:', error);
+      res.status(500).json({ message: 'Failed to fetch team meeting types' });
+    }
+  });
+
+  // How team meetings were spread over the last days, per meeting type
+  app.get('/api/calendar/assignments', isAuthenticated, requirePermission('assignments:view'), async (req: any, res) => {
+    try {
+      const { days } = assignmentReportQuerySchema.parse(req.query);
+      const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+      res.json(await teamSchedulingService.distribution(req.organizationId, since));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid report period', errors: error.errors });
+      }
+      console.error('Error fetching meeting assignments:', error);
+      res.status(500).json({ message: 'Failed to fetch meeting assignments' });
+    }
+  });
+
+  // The signed-in user's calendar feed and connected CalDAV calendar
+  app.get('/api/calendar/connection', isAuthenticated, async (req: any, res) => {
+    try {
+      const [feed, account] = await Promise.all([
+        storage.getCalendarFeed(req.organizationId, req.user.claims.sub),
+        storage.getCalendarAccount(req.organizationId, req.user.claims.sub),
+      ]);
+      res.json({
+        feedPath: feed ? calendarFeedPath(feed.token) : null,
+        account: account ? caldavService.summary(account) : null,
+      });
+    } catch (error) {
+      console.error('Error fetching calendar connection:', error);
+      res.status(500).json({ message: 'Failed to fetch calendar settings' });
+    }
+  });
+
+  // Creates the feed, or replaces its URL so the old one stops working
+  app.post('/api/calendar/feed', isAuthenticated, async (req: any, res) => {
+    try {
+      const feed = await calendarService.createFeed(req.organizationId, req.user.claims.sub);
+      res.status(201).json({ feedPath: calendarFeedPath(feed.token) });
+    } catch (error) {
+      console.error('Error creating calendar feed:', error);
+      res.status(500).json({ message: 'Failed to create calendar feed' });
+    }
+  });
+
+  app.delete('/api/calendar/feed', isAuthenticated, async (req: any, res) => {
+    try {
+      if (!await storage.deleteCalendarFeed(req.organizationId, req.user.claims.sub)) {
+        return res.status(404).json({ message: 'No calendar feed' });
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error('Error deleting calendar feed:', error);
+      res.status(500).json({ message: 'Failed to turn off calendar feed' });
+    }
+  });
+
+  // Calendar apps subscribe without a session; the token is the key
+  app.get('/api/calendar/feed/:token.ics', async (req, res) => {
+    try {
+      const feed = await storage.getCalendarFeedByToken(req.params.token);
+      if (!feed) {
+        return res.status(404).json({ message: 'Calendar feed not found' });
+      }
+
+      res.set('Content-Type', 'text/calendar; charset=utf-8');
+      res.set('Cache-Control', 'no-store');
+      res.send(await calendarService.feed(feed));
+    } catch (error) {
+      console.error('Error serving calendar feed:', error);
+      res.status(500).json({ message: 'Failed to load calendar feed' });
+    }
+  });
+
+  // Saves the calendar after finding it on the CalDAV server with the settings
+  app.put('/api/calendar/account', isAuthenticated, async (req: any, res) => {
+    try {
+      const input = calendarAccountSchema.parse(req.body);
+      const existing = await storage.getCalendarAccount(req.organizationId, req.user.claims.sub);
+
+      const settings = caldavService.withPassword(input, existing);
+      if (!settings) {
+        return res.status(400).json({ message: 'Password is required' });
+      }
+
+      const found = await caldavService.findCalendar(settings);
+      if ('problem' in found) {
+        return res.status(400).json({ message: found.problem });
+      }
+
+      const account = await caldavService.connect(req.organizationId, req.user.claims.sub, settings, found.calendarUrl);
+      res.json(caldavService.summary(account));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid calendar settings', errors: error.errors });
+      }
+      console.error('Error connecting calendar:', error);
+      res.status(500).json({ message: 'Failed to connect calendar' });
+    }
+  });
+
+  app.delete('/api/calendar/account', isAuthenticated, async (req: any, res) => {
+    try {
+      const account = await storage.getCalendarAccount(req.organizationId, req.user.claims.sub);
+      if (!account) {
+        return res.status(404).json({ message: 'No calendar connected' });
+      }
+
+      await storage.deleteCalendarAccount(req.organizationId, account.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error('Error disconnecting calendar:', error);
+      res.status(500).json({ message: 'Failed to disconnect calendar' });
+    }
+  });
+
+  // Syncs right away instead of waiting for the next scheduled sync
+  app.post('/api/calendar/account/sync', isAuthenticated, async (req: any, res) => {
+    try {
+      const account = await storage.getCalendarAccount(req.organizationId, req.user.claims.sub);
+      if (!account) {
+        return res.status(404).json({ message: 'No calendar connected' });
+      }
+
+      res.json(await caldavService.sync(account));
+    } catch (error) {
+      console.error('Error syncing calendar:', error);
+      res.status(500).json({ message: `Calendar sync failed: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+
+  // Your working hours and time zone (the defaults until you save them),
+  // upcoming date overrides and the holiday calendars you can follow
+  app.get('/api/calendar/availability', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const [schedule, saved, holidayCalendars] = await Promise.all([
+        calendarService.getSchedule(req.organizationId, userId),
+        storage.getUserAvailability(req.organizationId, userId),
+        storage.getHolidayCalendars(req.organizationId),
+      ]);
+      const today = zonedParts(new Date(), schedule.timeZone).date;
+      const overrides = await storage.getAvailabilityOverrides(req.organizationId, userId, { from: today });
+
+      res.json({
+        ...schedule,
+        saved: !!saved,
+        overrides,
+        holidayCalendars: holidayCalendars.map(({ id, name, isDefault }) => ({ id, name, isDefault })),
+      });
+    } catch (error) {
+      console.error('Error fetching availability:', error);
+      res.status(500).json({ message: 'Failed to fetch availability' });
+    }
+  });
+
+  app.put('/api/calendar/availability', isAuthenticated, async (req: any, res) => {
+    try {
+      const input = availabilityInputSchema.parse(req.body);
+      if (input.holidayCalendarId && !(await storage.getHolidayCalendar(req.organizationId, input.holidayCalendarId))) {
+        return res.status(404).json({ message: 'Holiday calendar not found' });
+      }
+
+      const availability = await storage.upsertUserAvailability(req.organizationId, req.user.claims.sub, input);
+      res.json(availability);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid availability', errors: error.errors });
+      }
+      console.error('Error saving availability:', error);
+      res.status(500).json({ message: 'Failed to save availability' });
+    }
+  });
+
+  app.post('/api/calendar/availability/overrides', isAuthenticated, async (req: any, res) => {
+    try {
+      const input = availabilityOverrideInputSchema.parse(req.body);
+      const override = await storage.upsertAvailabilityOverride(req.organizationId, req.user.claims.sub, input);
+      res.status(201).json(override);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid date override', errors: error.errors });
+      }
+      console.error('Error saving date override:', error);
+      res.status(500).json({ message: 'Failed to save date override' });
+    }
+  });
+
+  app.delete('/api/calendar/availability/overrides/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      if (!await storage.deleteAvailabilityOverride(req.organizationId, req.user.claims.sub, parseInt(req.params.id))) {
+        return res.status(404).json({ message: 'Date override not found' });
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error('Error deleting date override:', error);
+      res.status(500).json({ message: 'Failed to delete date override' });
+    }
+  });
+
+  // Organization holiday calendars, each with its holidays
+  app.get('/api/holiday-calendars', isAuthenticated, async (req: any, res) => {
+    try {
+      const calendars = await storage.getHolidayCalendars(req.organizationId);
+      const withHolidays = await Promise.all(calendars.map(async (calendar) => ({
+        ...calendar,
+        holidays: await storage.getHolidays(req.organizationId, calendar.id),
+      })));
+      res.json(withHolidays);
+    } catch (error) {
+      console.error('Error fetching holiday calendars:', error);
+      res.status(500).json({ message: 'Failed to fetch holiday calendars' });
+    }
+  });
+
+  app.get('/api/holiday-calendars/presets', isAuthenticated, async (req: any, res) => {
+    res.json(holidayPresets.map(({ id, name, holidays }) => ({ id, name, holidayCount: holidays.length })));
+  });
+
+  app.post('/api/holiday-calendars', isAuthenticated, requirePermission('holidays:manage'), async (req: any, res) => {
+    try {
+      const { preset: presetId, ...input } = holidayCalendarInputSchema.parse(req.body);
+      const preset = presetId ? holidayPresets.find(option => option.id === presetId) : undefined;
+      if (presetId && !preset) {
+        return res.status(400).json({ message: 'Unknown holiday preset' });
+      }
+
+      const calendar = await storage.createHolidayCalendar(req.organizationId, input, preset?.holidays);
+      res.status(201).json(calendar);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid holiday calendar', errors: error.errors });
+      }
+      console.error('Error creating holiday calendar:', error);
+      res.status(500).json({ message: 'Failed to create holiday calendar' });
+    }
+  });
+
+  app.put('/api/holiday-calendars/:id', isAuthenticated, requirePermission('holidays:manage'), async (req: any, res) => {
+    try {
+      const input = holidayCalendarInputSchema.omit({ preset: true }).partial().parse(req.body);
+      const calendar = await storage.updateHolidayCalendar(req.organizationId, parseInt(req.params.id), input);
+      if (!calendar) {
+        return res.status(404).json({ message: 'Holiday calendar not found' });
+      }
+      res.json(calendar);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid holiday calendar', errors: error.errors });
+      }
+      console.error('Error updating holiday calendar:', error);
+      res.status(500).json({ message: 'Failed to update holiday calendar' });
+    }
+  });
+
+  app.delete('/api/holiday-calendars/:id', isAuthenticated, requirePermission('holidays:manage'), async (req: any, res) => {
+    try {
+      if (!await storage.deleteHolidayCalendar(req.organizationId, parseInt(req.params.id))) {
+        return res.status(404).json({ message: 'Holiday calendar not found' });
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error('Error deleting holiday calendar:', error);
+      res.status(500).json({ message: 'Failed to delete holiday calendar' });
+    }
+  });
+
+  app.post('/api/holiday-calendars/:id/holidays', isAuthenticated, requirePermission('holidays:manage'), async (req: any, res) => {
+    try {
+      const input = holidayInputSchema.parse(req.body);
+      const calendar = await storage.getHolidayCalendar(req.organizationId, parseInt(req.params.id));
+      if (!calendar) {
+        return res.status(404).json({ message: 'Holiday calendar not found' });
+      }
+
+      res.status(201).json(await storage.upsertHoliday(req.organizationId, calendar.id, input));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid holiday', errors: error.errors });
+      }
+      console.error('Error adding holiday:', error);
+      res.status(500).json({ message: 'Failed to add holiday' });
     }
   });
 
-  app.post('/api/email/send-bulk-campaign', isAuthenticated, async (req: any, res) => {
+  app.delete('/api/holiday-calendars/:id/holidays/:holidayId', isAuthenticated, requirePermission('holidays:manage'), async (req: any, res) => {
     try {
-      const { contactIds, subject, htmlContent, textContent } = req.body;
-      
-      const contacts = await Promise.all(
-        contactIds.map((id: number) => storage.getContact(id))
-      );
-      
-      const validContacts = contacts.filter(contact => contact !== undefined);
-      
-      if (validContacts.length === 0) {
-        return res.status(400).json({ message: "No valid contacts found" });
-      }
-
-      const result = await emailService.sendBulkCampaign({
-        contacts: validContacts,
-        subject,
-        htmlContent,
-        textContent
-      });
-      
-      // Log activities for sent emails
-      for (const contact of validContacts) {
-        await storage.createActivity({
-          contactId: contact.id,
-          type: "email",
-          title: "Campaign email sent",
-          description: `Campaign email sent: ${subject}`,
-          date: new Date(),
-          organizationId: contact.organizationId,
-          createdBy: req.user.claims.sub
-        });
+      if (!await storage.deleteHoliday(req.organizationId, parseInt(req.params.id), parseInt(req.params.holidayId))) {
+        return res.status(404).json({ message: 'Holiday not found' });
       }
-      
-      res.json({
-        success: true,
-        message: `Campaign sent to ${result.sent} contacts`,
-        details: result
-      });
+      res.status(204).send();
     } catch (error) {
-      console.error('Error sending bulk campaign:', error);
-      res.status(500).json({ message: 'Failed to send campaign' });
+      console.error('Error deleting holiday:', error);
+      res.status(500).json({ message: 'Failed to delete holiday' });
     }
   });
 
-  app.get('/api/email/templates', isAuthenticated, async (req, res) => {
+  // Your own public booking page and its meeting types
+  app.get('/api/booking-page', isAuthenticated, async (req: any, res) => {
     try {
-      const templates = emailService.getEmailTemplates();
-      res.json(templates);
+      const page = await storage.getBookingPage(req.organizationId, req.user.claims.sub);
+      const types = page ? await storage.getBookingTypes(req.organizationId, page.id) : [];
+      res.json({ page: page ?? null, types });
     } catch (error) {
-      console.error('Error fetching email templates:', error);
-      res.status(500).json({ message: 'Failed to fetch templates' });
+      console.error('Error fetching booking page:', error);
+      res.status(500).json({ message: 'Failed to fetch booking page' });
     }
   });
 
-  // Calendar Management Routes
-  app.post('/api/calendar/schedule-meeting', isAuthenticated, async (req: any, res) => {
+  app.put('/api/booking-page', isAuthenticated, async (req: any, res) => {
     try {
-      const { contactId, proposedTimes, meetingType, duration, description } = req.body;
-      const contact = await storage.getContact(contactId);
-      
-      if (!contact) {
-        return res.status(404).json({ message: "Contact not found" });
+      const input = bookingPageInputSchema.parse(req.body);
+      const taken = await storage.getBookingPageBySlug(input.slug);
+      if (taken && taken.userId !== req.user.claims.sub) {
+        return res.status(409).json({ message: 'That link is already taken' });
       }
 
-      const result = await calendarService.scheduleFollowUpMeeting({
-        contactId,
-        contact,
-        proposedTimes: proposedTimes.map((time: string) => new Date(time)),
-        meetingType: meetingType || 'follow-up',
-        duration,
-        description,
-        createdBy: req.user.claims.sub
+      const page = await storage.upsertBookingPage(req.organizationId, req.user.claims.sub, {
+        ...input,
+        description: input.description ?? null,
       });
-      
-      if (result.success) {
-        // Log the meeting activity
-        await storage.createActivity({
-          contactId,
-          type: "meeting",
-          title: `${meetingType || 'Follow-up'} meeting scheduled`,
-          description: description || `Meeting scheduled with ${contact.firstName} ${contact.lastName}`,
-          date: new Date(),
-          organizationId: contact.organizationId,
-          createdBy: req.user.claims.sub
-        });
+      res.json(page);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid booking page', errors: error.errors });
       }
-      
-      res.json(result);
+      console.error('Error saving booking page:', error);
+      res.status(500).json({ message: 'Failed to save booking page' });
+    }
+  });
+
+  app.post('/api/booking-page/types', isAuthenticated, async (req: any, res) => {
+    try {
+      const input = bookingTypeInputSchema.parse(req.body);
+      const page = await storage.getBookingPage(req.organizationId, req.user.claims.sub);
+      if (!page) {
+        return res.status(409).json({ message: 'Set up your booking page first' });
+      }
+      if (await storage.getBookingTypeBySlug(page.id, input.slug)) {
+        return res.status(409).json({ message: 'Another meeting type already uses that link' });
+      }
+      if (input.sequenceId && !(await storage.getCampaignSequence(req.organizationId, input.sequenceId))) {
+        return res.status(404).json({ message: 'Campaign sequence not found' });
+      }
+      const members = await storage.getOrganizationUsers(req.organizationId);
+      if (input.poolUserIds.some(userId => !members.some(member => member.id === userId))) {
+        return res.status(400).json({ message: 'Only active team members can be in the pool' });
+      }
+
+      const type = await storage.createBookingType(req.organizationId, { ...input, pageId: page.id });
+      res.status(201).json(type);
     } catch (error) {
-      console.error('Error scheduling meeting:', error);
-      res.status(500).json({ message: 'Failed to schedule meeting' });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid meeting type', errors: error.errors });
+      }
+      console.error('Error creating meeting type:', error);
+      res.status(500).json({ message: 'Failed to create meeting type' });
     }
   });
 
-  app.get('/api/calendar/available-slots', isAuthenticated, async (req, res) => {
+  app.put('/api/booking-page/types/:id', isAuthenticated, async (req: any, res) => {
     try {
-      const { startDate, endDate, duration } = req.query;
-      
-      const start = new Date(startDate as string);
-      const end = new Date(endDate as string);
-      const meetingDuration = duration ? parseInt(duration as string) : 30;
-      
-      const slots = await calendarService.getAvailableTimeSlots(start, end, meetingDuration);
-      res.json(slots);
+      const input = bookingTypeInputSchema.parse(req.body);
+      const page = await storage.getBookingPage(req.organizationId, req.user.claims.sub);
+      const type = await storage.getBookingType(req.organizationId, parseInt(req.params.id));
+      if (!page || !type || type.pageId !== page.id) {
+        return res.status(404).json({ message: 'Meeting type not found' });
+      }
+      const sameSlug = await storage.getBookingTypeBySlug(page.id, input.slug);
+      if (sameSlug && sameSlug.id !== type.id) {
+        return res.status(409).json({ message: 'Another meeting type already uses that link' });
+      }
+      if (input.sequenceId && !(await storage.getCampaignSequence(req.organizationId, input.sequenceId))) {
+        return res.status(404).json({ message: 'Campaign sequence not found' });
+      }
+      const members = await storage.getOrganizationUsers(req.organizationId);
+      if (input.poolUserIds.some(userId => !members.some(member => member.id === userId))) {
+        return res.status(400).json({ message: 'Only active team members can be in the pool' });
+      }
+
+      res.json(await storage.updateBookingType(req.organizationId, type.id, input));
     } catch (error) {
-      console.error('Error fetching available slots:', error);
-      res.status(500).json({ message: 'Failed to fetch available slots' });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid meeting type', errors: error.errors });
+      }
+      console.error('Error updating meeting type:', error);
+      res.status(500).json({ message: 'Failed to update meeting type' });
     }
   });
 
-  app.get('/api/calendar/upcoming-meetings', isAuthenticated, async (req, res) => {
+  app.delete('/api/booking-page/types/:id', isAuthenticated, async (req: any, res) => {
     try {
-      const { days } = req.query;
-      const daysAhead = days ? parseInt(days as string) : 7;
-      
-      const meetings = await calendarService.getUpcomingMeetings(daysAhead);
-      res.json(meetings);
+      const page = await storage.getBookingPage(req.organizationId, req.user.claims.sub);
+      const type = await storage.getBookingType(req.organizationId, parseInt(req.params.id));
+      if (!page || !type || type.pageId !== page.id) {
+        return res.status(404).json({ message: 'Meeting type not found' });
+      }
+      await storage.deleteBookingType(req.organizationId, type.id);
+      res.status(204).send();
     } catch (error) {
-      console.error('Error fetching upcoming meetings:', error);
-      res.status(500).json({ message: 'Failed to fetch meetings' });
+      console.error('Error deleting meeting type:', error);
+      res.status(500).json({ message: 'Failed to delete meeting type' });
     }
   });
 
-  app.post('/api/calendar/send-reminder/:eventId', isAuthenticated, async (req, res) => {
+  // Public booking pages. Prospects open these from a shared link, so they
+  // carry no session; the page is found by its slug.
+  app.get('/api/book/:slug', async (req, res) => {
     try {
-      const { eventId } = req.params;
-      const success = await calendarService.sendMeetingReminder(eventId);
-      
-      if (success) {
-        res.json({ success: true, message: "Reminder sent successfully" });
-      } else {
-        res.status(400).json({ success: false, message: "Failed to send reminder" });
+      const found = await bookingService.findPage(req.params.slug);
+      if (!found) {
+        return res.status(404).json({ message: 'Booking page not found' });
       }
+      res.json(await bookingService.publicPage(found.page, found.types));
     } catch (error) {
-      console.error('Error sending meeting reminder:', error);
-      res.status(500).json({ message: 'Failed to send reminder' });
+      console.error('Error fetching public booking page:', error);
+      res.status(500).json({ message: 'Failed to fetch booking page' });
     }
   });
 
-  app.patch('/api/calendar/meeting/:eventId/status', isAuthenticated, async (req, res) => {
+  app.get('/api/book/:slug/:typeSlug/slots', async (req, res) => {
     try {
-      const { eventId } = req.params;
-      const { status } = req.body;
-      
-      const success = await calendarService.updateMeetingStatus(eventId, status);
-      
-      if (success) {
-        res.json({ success: true, message: "Meeting status updated" });
-      } else {
-        res.status(404).json({ success: false, message: "Meeting not found" });
+      const found = await bookingService.findPage(req.params.slug);
+      const type = found?.types.find(option => option.slug === req.params.typeSlug);
+      if (!found || !type) {
+        return res.status(404).json({ message: 'Meeting type not found' });
       }
+
+      const { from, to } = z.object({ from: z.coerce.date(), to: z.coerce.date() }).parse(req.query);
+      res.json(await bookingService.availableSlots(found.page, type, from, to));
     } catch (error) {
-      console.error('Error updating meeting status:', error);
-      res.status(500).json({ message: 'Failed to update meeting status' });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid date range', errors: error.errors });
+      }
+      console.error('Error fetching booking slots:', error);
+      res.status(500).json({ message: 'Failed to fetch available times' });
     }
   });
 
-  app.post('/api/calendar/auto-schedule-follow-up', isAuthenticated, async (req: any, res) => {
+  app.post('/api/book/:slug/:typeSlug', publicBookingLimit, async (req, res) => {
     try {
-      const { contactId, urgency } = req.body;
-      const contact = await storage.getContact(contactId);
-      
-      if (!contact) {
-        return res.status(404).json({ message: "Contact not found" });
+      const found = await bookingService.findPage(req.params.slug);
+      const type = found?.types.find(option => option.slug === req.params.typeSlug);
+      if (!found || !type) {
+        return res.status(404).json({ message: 'Meeting type not found' });
       }
 
-      const eventId = await calendarService.autoScheduleFollowUp(contact, urgency || 'medium');
-      
-      if (eventId) {
-        await storage.createActivity({
-          contactId,
-          type: "meeting",
-          title: "Auto-scheduled follow-up",
-          description: `Automatically scheduled follow-up meeting based on ${urgency} priority`,
-          date: new Date(),
-          organizationId: contact.organizationId,
-          createdBy: req.user.claims.sub
-        });
-        
-        res.json({ 
-          success: true, 
-          eventId, 
-          message: "Follow-up meeting auto-scheduled successfully" 
-        });
-      } else {
-        res.status(400).json({ 
-          success: false, 
-          message: "No available slots for auto-scheduling" 
-        });
+      const request = bookingRequestSchema.parse(req.body);
+      const issue = await bookingService.bookingIssue(found.page, type, request);
+      if (issue) {
+        return res.status(409).json({ message: issue });
+      }
+
+      const { event, message } = await bookingService.book(found.page, type, request);
+      if (!event) {
+        return res.status(409).json({ message });
       }
+      await enqueueMeetingReminder(found.page.organizationId, event, { idempotencyKey: `meeting-reminder:${event.id}`, createdBy: found.page.userId });
+
+      res.status(201).json({
+        title: event.title,
+        startTime: event.startTime,
+        endTime: event.endTime,
+        meetingLink: event.meetingLink,
+        location: event.location,
+      });
     } catch (error) {
-      console.error('Error auto-scheduling follow-up:', error);
-      res.status(500).json({ message: 'Failed to auto-schedule follow-up' });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid booking', errors: error.errors });
+      }
+      console.error('Error booking meeting:', error);
+      res.status(500).json({ message: 'Failed to book meeting' });
     }
   });
 
@@ -2266,33 +4272,33 @@ export async function registerRoutes(app: Express): Promise<Server> {
           switch (action) {
             case 'update-status':
               if (data.leadStatus) {
-                await storage.updateContact(leadId, { leadStatus: data.leadStatus });
+                await storage.updateContact(req.organizationId, leadId, { leadStatus: data.leadStatus });
                 processed++;
               }
               break;
             
             case 'score':
-              const contactForScore = await storage.getContact(leadId);
+              const contactForScore = await storage.getContact(req.organizationId, leadId);
               if (contactForScore) {
                 const newScore = Math.min((contactForScore.leadScore || 0) + (data.leadScore || 10), 100);
-                await storage.updateContact(leadId, { leadScore: newScore });
+                await storage.updateContact(req.organizationId, leadId, { leadScore: newScore });
                 processed++;
               }
               break;
             
             case 'email':
-              const contactForEmail = await storage.getContact(leadId);
+              const contactForEmail = await storage.getContact(req.organizationId, leadId);
               if (contactForEmail && contactForEmail.email) {
                 try {
                   const success = await emailService.sendFollowUpEmail(contactForEmail, 
-                    data.customMessage || "Thank you for your interest in our services. We'd love to discuss how we can help your business grow."
+                    data.customMessage || "Thank you for your interest in our services. We'd love to discuss how we can help your business grow.",
+                    req.user.claims.sub
                   );
                   if (success) {
                     processed++;
                     // Log activity
-                    await storage.createActivity({
+                    await storage.createActivity(req.organizationId, {
                       contactId: leadId,
-                      organizationId: contactForEmail.organizationId,
                       type: 'email',
                       title: 'Bulk follow-up email sent',
                       description: 'Bulk follow-up email sent via leads management',
@@ -2307,15 +4313,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
               break;
             
             case 'schedule':
-              const contactForSchedule = await storage.getContact(leadId);
+              const contactForSchedule = await storage.getContact(req.organizationId, leadId);
               if (contactForSchedule) {
                 try {
                   // Create a follow-up task
-                  await storage.createTask({
+                  await storage.createTask(req.organizationId, {
                     title: `Follow-up with ${contactForSchedule.firstName} ${contactForSchedule.lastName}`,
                     description: `Schedule follow-up meeting or call with ${contactForSchedule.company || 'this lead'}`,
                     contactId: leadId,
-                    organizationId: contactForSchedule.organizationId,
                     priority: data.priority || 'medium',
                     status: 'pending',
                     assignedTo: req.user.claims.sub,
@@ -2349,7 +4354,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Simple WhatsApp routes (no API key needed - uses wa.me links)
-  app.get('/api/whatsapp/simple/templates', isAuthenticated, async (req, res) => {
+  app.get('/api/whatsapp/simple/templates', isAuthenticated, async (req: any, res) => {
     try {
       const templates = simpleWhatsAppService.getTemplates();
       res.json(templates);
@@ -2359,11 +4364,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/whatsapp/simple/generate-link', isAuthenticated, async (req, res) => {
+  app.post('/api/whatsapp/simple/generate-link', isAuthenticated, async (req: any, res) => {
     try {
       const { contactId, templateId, variables } = req.body;
       
-      const contact = await storage.getContact(contactId);
+      const contact = await storage.getContact(req.organizationId, contactId);
       if (!contact) {
         return res.status(404).json({ message: 'Contact not found' });
       }
@@ -2387,12 +4392,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Log activity
-      await storage.createActivity({
+      await storage.createActivity(req.organizationId, {
         contactId: contact.id,
         type: 'whatsapp',
         title: 'WhatsApp Link Generated',
         description: `wa.me link created for ${templateId}`,
-        organizationId: contact.organizationId,
       });
 
       res.json({ 
@@ -2410,7 +4414,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/whatsapp/simple/bulk-links', isAuthenticated, async (req, res) => {
+  app.post('/api/whatsapp/simple/bulk-links', isAuthenticated, async (req: any, res) => {
     try {
       const { contactIds, message, templateId, variables } = req.body;
       
@@ -2419,7 +4423,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       const contacts = await Promise.all(
-        contactIds.map((id: number) => storage.getContact(id))
+        contactIds.map((id: number) => storage.getContact(req.organizationId, id))
       );
 
       const validContacts = contacts.filter(contact => 
@@ -2456,12 +4460,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       // Log activities
       for (const contact of validContacts) {
-        await storage.createActivity({
+        await storage.createActivity(req.organizationId, {
           contactId: contact.id,
           type: 'whatsapp',
           title: 'Bulk WhatsApp Link',
           description: `Bulk wa.me link generated: ${message ? message.substring(0, 50) : 'template message'}...`,
-          organizationId: contact.organizationId,
         });
       }
 
@@ -2477,7 +4480,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/whatsapp/simple/instructions', isAuthenticated, async (req, res) => {
+  app.get('/api/whatsapp/simple/instructions', isAuthenticated, async (req: any, res) => {
     try {
       const instructions = simpleWhatsAppService.getUsageInstructions();
       res.json({ instructions });
@@ -2488,9 +4491,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // WhatsApp Template CRUD routes
-  app.get('/api/whatsapp/templates/custom', isAuthenticated, async (req, res) => {
+  app.get('/api/whatsapp/templates/custom', isAuthenticated, async (req: any, res) => {
     try {
-      let templates = await storage.getAllWhatsappTemplates();
+      let templates = await storage.getAllWhatsappTemplates(req.organizationId);
       
       // Seed default templates if none exist
       if (templates.length === 0) {
@@ -2518,7 +4521,6 @@ Terima kasih! 🙏`,
             category: 'order_confirmation',
             description: 'Template konfirmasi pesanan untuk toko online UMKM',
             isActive: true,
-            organizationId: 1,
             createdBy: 'system',
           },
           {
@@ -2541,7 +4543,6 @@ Terima kasih! 🙏`,
             category: 'payment_reminder',
             description: 'Mengingatkan customer untuk melakukan pembayaran',
             isActive: true,
-            organizationId: 1,
             createdBy: 'system',
           },
           {
@@ -2561,7 +4562,6 @@ Terima kasih banyak! ⭐⭐⭐⭐⭐`,
             category: 'follow_up',
             description: 'Follow-up kepuasan customer setelah menerima produk',
             isActive: true,
-            organizationId: 1,
             createdBy: 'system',
           },
           {
@@ -2587,18 +4587,17 @@ Lihat katalog lengkap: {{link_catalog}}
             category: 'promotion',
             description: 'Template broadcast promo untuk menarik customer',
             isActive: true,
-            organizationId: 1,
             createdBy: 'system',
           }
         ];
 
         // Create default templates
         for (const template of defaultTemplates) {
-          await storage.createWhatsappTemplate(template);
+          await storage.createWhatsappTemplate(req.organizationId, template);
         }
         
         // Fetch templates again after seeding
-        templates = await storage.getAllWhatsappTemplates();
+        templates = await storage.getAllWhatsappTemplates(req.organizationId);
       }
       
       res.json(templates);
@@ -2608,10 +4607,10 @@ Lihat katalog lengkap: {{link_catalog}}
     }
   });
 
-  app.get('/api/whatsapp/templates/custom/:id', isAuthenticated, async (req, res) => {
+  app.get('/api/whatsapp/templates/custom/:id', isAuthenticated, async (req: any, res) => {
     try {
       const id = parseInt(req.params.id);
-      const template = await storage.getWhatsappTemplate(id);
+      const template = await storage.getWhatsappTemplate(req.organizationId, id);
       
       if (!template) {
         return res.status(404).json({ message: 'Template not found' });
@@ -2624,14 +4623,13 @@ Lihat katalog lengkap: {{link_catalog}}
     }
   });
 
-  app.post('/api/whatsapp/templates/custom', isAuthenticated, async (req: any, res) => {
+  app.post('/api/whatsapp/templates/custom', isAuthenticated, requirePermission('templates:manage'), async (req: any, res) => {
     try {
       const validatedData = insertWhatsappTemplateSchema.parse(req.body);
       
-      const template = await storage.createWhatsappTemplate({
+      const template = await storage.createWhatsappTemplate(req.organizationId, {
         ...validatedData,
         createdBy: req.user?.claims?.sub || 'unknown',
-        organizationId: 1,
       });
       
       res.status(201).json(template);
@@ -2644,12 +4642,12 @@ Lihat katalog lengkap: {{link_catalog}}
     }
   });
 
-  app.put('/api/whatsapp/templates/custom/:id', isAuthenticated, async (req, res) => {
+  app.put('/api/whatsapp/templates/custom/:id', isAuthenticated, requirePermission('templates:manage'), async (req: any, res) => {
     try {
       const id = parseInt(req.params.id);
       const validatedData = insertWhatsappTemplateSchema.partial().parse(req.body);
       
-      const template = await storage.updateWhatsappTemplate(id, validatedData);
+      const template = await storage.updateWhatsappTemplate(req.organizationId, id, validatedData);
       
       if (!template) {
         return res.status(404).json({ message: 'Template not found' });
@@ -2665,10 +4663,10 @@ Lihat katalog lengkap: {{link_catalog}}
     }
   });
 
-  app.delete('/api/whatsapp/templates/custom/:id', isAuthenticated, async (req, res) => {
+  app.delete('/api/whatsapp/templates/custom/:id', isAuthenticated, requirePermission('templates:manage'), async (req: any, res) => {
     try {
       const id = parseInt(req.params.id);
-      const success = await storage.deleteWhatsappTemplate(id);
+      const success = await storage.deleteWhatsappTemplate(req.organizationId, id);
       
       if (!success) {
         return res.status(404).json({ message: 'Template not found' });
@@ -2682,7 +4680,7 @@ Lihat katalog lengkap: {{link_catalog}}
   });
 
   // WhatsApp Business API routes (advanced - requires API key)
-  app.get('/api/whatsapp/templates', isAuthenticated, async (req, res) => {
+  app.get('/api/whatsapp/templates', isAuthenticated, async (req: any, res) => {
     try {
       const templates = await whatsappService.getTemplates();
       res.json(templates);
@@ -2692,7 +4690,7 @@ Lihat katalog lengkap: {{link_catalog}}
     }
   });
 
-  app.post('/api/whatsapp/send-message', isAuthenticated, async (req, res) => {
+  app.post('/api/whatsapp/send-message', isAuthenticated, async (req: any, res) => {
     try {
       const { contactId, message, type = 'text', templateName, templateParams } = req.body;
       
@@ -2700,7 +4698,7 @@ Lihat katalog lengkap: {{link_catalog}}
         return res.status(400).json({ message: 'Contact ID and message are required' });
       }
 
-      const contact = await storage.getContact(contactId);
+      const contact = await storage.getContact(req.organizationId, contactId);
       if (!contact) {
         return res.status(404).json({ message: 'Contact not found' });
       }
@@ -2715,23 +4713,27 @@ Lihat katalog lengkap: {{link_catalog}}
           contact.phone,
           templateName,
           templateParams || {},
-          contact.id
+          contact,
+          req.user.claims.sub
         );
       } else {
         result = await whatsappService.sendTextMessage(
           contact.phone,
           message,
-          contact.id
+          contact,
+          req.user.claims.sub
         );
       }
+      if (result.status === 'suppressed') {
+        return res.status(409).json({ message: result.errorMessage });
+      }
 
       // Log as activity
-      await storage.createActivity({
+      await storage.createActivity(req.organizationId, {
         contactId: contact.id,
         type: 'whatsapp',
         title: 'WhatsApp Message',
         description: `WhatsApp message sent: ${message.substring(0, 50)}...`,
-        organizationId: contact.organizationId,
       });
 
       res.json({ success: true, message: 'WhatsApp message sent', data: result });
@@ -2741,23 +4743,25 @@ Lihat katalog lengkap: {{link_catalog}}
     }
   });
 
-  app.post('/api/whatsapp/send-order-confirmation', isAuthenticated, async (req, res) => {
+  app.post('/api/whatsapp/send-order-confirmation', isAuthenticated, async (req: any, res) => {
     try {
       const { contactId, orderDetails } = req.body;
       
-      const contact = await storage.getContact(contactId);
+      const contact = await storage.getContact(req.organizationId, contactId);
       if (!contact) {
         return res.status(404).json({ message: 'Contact not found' });
       }
 
       const result = await whatsappService.sendOrderConfirmation(contact, orderDetails);
+      if (result.status === 'suppressed') {
+        return res.status(409).json({ message: result.errorMessage });
+      }
 
-      await storage.createActivity({
+      await storage.createActivity(req.organizationId, {
         contactId: contact.id,
         type: 'whatsapp',
         title: 'Order Confirmation',
         description: `Order confirmation sent for order ${orderDetails.orderNumber}`,
-        organizationId: contact.organizationId,
       });
 
       res.json({ success: true, message: 'Order confirmation sent', data: result });
@@ -2767,23 +4771,25 @@ Lihat katalog lengkap: {{link_catalog}}
     }
   });
 
-  app.post('/api/whatsapp/send-payment-reminder', isAuthenticated, async (req, res) => {
+  app.post('/api/whatsapp/send-payment-reminder', isAuthenticated, async (req: any, res) => {
     try {
       const { contactId, orderDetails } = req.body;
       
-      const contact = await storage.getContact(contactId);
+      const contact = await storage.getContact(req.organizationId, contactId);
       if (!contact) {
         return res.status(404).json({ message: 'Contact not found' });
       }
 
       const result = await whatsappService.sendPaymentReminder(contact, orderDetails);
+      if (result.status === 'suppressed') {
+        return res.status(409).json({ message: result.errorMessage });
+      }
 
-      await storage.createActivity({
+      await storage.createActivity(req.organizationId, {
         contactId: contact.id,
         type: 'whatsapp',
         title: 'Payment Reminder',
         description: `Payment reminder sent for order ${orderDetails.orderNumber}`,
-        organizationId: contact.organizationId,
       });
 
       res.json({ success: true, message: 'Payment reminder sent', data: result });
@@ -2793,23 +4799,25 @@ Lihat katalog lengkap: {{link_catalog}}
     }
   });
 
-  app.post('/api/whatsapp/send-follow-up', isAuthenticated, async (req, res) => {
+  app.post('/api/whatsapp/send-follow-up', isAuthenticated, async (req: any, res) => {
     try {
       const { contactId, purchaseDate } = req.body;
       
-      const contact = await storage.getContact(contactId);
+      const contact = await storage.getContact(req.organizationId, contactId);
       if (!contact) {
         return res.status(404).json({ message: 'Contact not found' });
       }
 
       const result = await whatsappService.sendFollowUp(contact, purchaseDate);
+      if (result.status === 'suppressed') {
+        return res.status(409).json({ message: result.errorMessage });
+      }
 
-      await storage.createActivity({
+      await storage.createActivity(req.organizationId, {
         contactId: contact.id,
         type: 'whatsapp',
         title: 'Follow-up Message',
         description: `Follow-up message sent for purchase on ${purchaseDate}`,
-        organizationId: contact.organizationId,
       });
 
       res.json({ success: true, message: 'Follow-up message sent', data: result });
@@ -2819,7 +4827,7 @@ Lihat katalog lengkap: {{link_catalog}}
     }
   });
 
-  app.post('/api/whatsapp/broadcast', isAuthenticated, async (req, res) => {
+  app.post('/api/whatsapp/broadcast', isAuthenticated, requirePermission('campaigns:send'), async (req: any, res) => {
     try {
       const { contactIds, message, templateName, templateParams } = req.body;
       
@@ -2829,7 +4837,7 @@ Lihat katalog lengkap: {{link_catalog}}
 
       const contacts = [];
       for (const contactId of contactIds) {
-        const contact = await storage.getContact(contactId);
+        const contact = await storage.getContact(req.organizationId, contactId);
         if (contact && contact.phone) {
           contacts.push(contact);
         }
@@ -2846,29 +4854,30 @@ Lihat katalog lengkap: {{link_catalog}}
         templateParams
       );
 
-      // Log activities for each contact
+      // Log activities for each contact that was messaged
       for (const result of results) {
-        if (result.contactId) {
-          await storage.createActivity({
+        if (result.contactId && result.status !== 'suppressed') {
+          await storage.createActivity(req.organizationId, {
             contactId: result.contactId,
             type: 'whatsapp',
             title: 'Broadcast Message',
             description: `Broadcast message: ${message.substring(0, 50)}...`,
-            organizationId: 1,
           });
         }
       }
 
       const successCount = results.filter(r => r.status === 'sent').length;
       const failedCount = results.filter(r => r.status === 'failed').length;
+      const suppressedCount = results.filter(r => r.status === 'suppressed').length;
 
       res.json({ 
         success: true, 
-        message: `Broadcast completed. ${successCount} sent, ${failedCount} failed.`,
+        message: `Broadcast completed. ${successCount} sent, ${failedCount} failed, ${suppressedCount} opted out.`,
         results: {
           total: results.length,
           sent: successCount,
-          failed: failedCount
+          failed: failedCount,
+          suppressed: suppressedCount
         }
       });
     } catch (error) {
@@ -2877,7 +4886,7 @@ Lihat katalog lengkap: {{link_catalog}}
     }
   });
 
-  app.get('/api/whatsapp/templates', isAuthenticated, async (req, res) => {
+  app.get('/api/whatsapp/templates', isAuthenticated, async (req: any, res) => {
     try {
       const templates = whatsappService.getDefaultTemplates();
       res.json(templates);
@@ -2888,6 +4897,162 @@ Lihat katalog lengkap: {{link_catalog}}
   });
 
   // WhatsApp webhook for receiving messages and status updates
+  // Shared WhatsApp inbox. assignedTo filters by "me", "unassigned" or a user id.
+  app.get('/api/whatsapp/conversations', isAuthenticated, async (req: any, res) => {
+    try {
+      const status = whatsappConversationStatuses.find(option => option === req.query.status);
+      const assignedTo = req.query.assignedTo === 'me'
+        ? req.user.claims.sub
+        : req.query.assignedTo === 'unassigned'
+          ? null
+          : req.query.assignedTo || undefined;
+
+      const conversations = await storage.getWhatsappConversations(req.organizationId, { status, assignedTo });
+      const contacts = await storage.getAllContacts(req.organizationId);
+      const contactsById = new Map(contacts.map(contact => [contact.id, contact]));
+
+      res.json(conversations.map(conversation => {
+        const contact = contactsById.get(conversation.contactId);
+        return {
+          ...conversation,
+          contact: contact ? { id: contact.id, firstName: contact.firstName, lastName: contact.lastName, company: contact.company } : null,
+        };
+      }));
+    } catch (error) {
+      console.error('Error fetching WhatsApp conversations:', error);
+      res.status(500).json({ message: 'Failed to fetch conversations' });
+    }
+  });
+
+  app.get('/api/whatsapp/conversations/:id/messages', isAuthenticated, async (req: any, res) => {
+    try {
+      const conversation = await storage.getWhatsappConversation(req.organizationId, parseInt(req.params.id));
+      if (!conversation) {
+        return res.status(404).json({ message: 'Conversation not found' });
+      }
+      res.json(await storage.getWhatsappMessages(req.organizationId, conversation.id));
+    } catch (error) {
+      console.error('Error fetching WhatsApp messages:', error);
+      res.status(500).json({ message: 'Failed to fetch messages' });
+    }
+  });
+
+  app.post('/api/whatsapp/conversations/:id/messages', isAuthenticated, async (req: any, res) => {
+    try {
+      const { body } = whatsappReplySchema.parse(req.body);
+      const conversation = await storage.getWhatsappConversation(req.organizationId, parseInt(req.params.id));
+      if (!conversation) {
+        return res.status(404).json({ message: 'Conversation not found' });
+      }
+      if (!conversation.lastInboundAt || Date.now() - conversation.lastInboundAt.getTime() > WHATSAPP_REPLY_WINDOW_MS) {
+        return res.status(409).json({ message: 'The contact has not written in the last 24 hours; send a template message instead' });
+      }
+
+      const contact = await storage.getContact(req.organizationId, conversation.contactId);
+      if (!contact) {
+        return res.status(404).json({ message: 'Contact not found' });
+      }
+
+      const result = await whatsappService.sendTextMessage(conversation.phone, body, contact, req.user.claims.sub);
+      if (result.status === 'suppressed') {
+        return res.status(409).json({ message: result.errorMessage });
+      }
+      if (result.status === 'failed') {
+        return res.status(502).json({ message: result.errorMessage || 'WhatsApp did not accept the message' });
+      }
+
+      // Answering a conversation means it has been read
+      await storage.updateWhatsappConversation(req.organizationId, conversation.id, { unreadCount: 0 });
+      res.status(201).json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid reply', errors: error.errors });
+      }
+      console.error('WhatsApp reply error:', error);
+      res.status(500).json({ message: 'Failed to send WhatsApp message' });
+    }
+  });
+
+  app.patch('/api/whatsapp/conversations/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const update = whatsappConversationUpdateSchema.parse(req.body);
+      const conversation = await storage.getWhatsappConversation(req.organizationId, parseInt(req.params.id));
+      if (!conversation) {
+        return res.status(404).json({ message: 'Conversation not found' });
+      }
+
+      if (update.assignedTo) {
+        const assignee = await storage.getOrganizationUser(req.organizationId, update.assignedTo);
+        if (!assignee || !assignee.isActive) {
+          return res.status(400).json({ message: 'Conversations can only be assigned to team members' });
+        }
+      }
+
+      res.json(await storage.updateWhatsappConversation(req.organizationId, conversation.id, update));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid conversation update', errors: error.errors });
+      }
+      console.error('Error updating WhatsApp conversation:', error);
+      res.status(500).json({ message: 'Failed to update conversation' });
+    }
+  });
+
+  app.post('/api/whatsapp/conversations/:id/read', isAuthenticated, async (req: any, res) => {
+    try {
+      const conversation = await storage.updateWhatsappConversation(req.organizationId, parseInt(req.params.id), { unreadCount: 0 });
+      if (!conversation) {
+        return res.status(404).json({ message: 'Conversation not found' });
+      }
+      res.json(conversation);
+    } catch (error) {
+      console.error('Error marking WhatsApp conversation read:', error);
+      res.status(500).json({ message: 'Failed to mark conversation read' });
+    }
+  });
+
+  // The Cloud API number whose incoming messages land in this organization
+  app.get('/api/whatsapp/settings', isAuthenticated, async (req: any, res) => {
+    try {
+      const organization = await storage.getOrganization(req.organizationId);
+      res.json({ phoneNumberId: organization?.whatsappPhoneNumberId ?? null });
+    } catch (error) {
+      console.error('Error fetching WhatsApp settings:', error);
+      res.status(500).json({ message: 'Failed to fetch WhatsApp settings' });
+    }
+  });
+
+  app.put('/api/whatsapp/settings', isAuthenticated, requirePermission('campaigns:manage'), async (req: any, res) => {
+    try {
+      const { phoneNumberId, accessToken } = whatsappSettingsSchema.parse(req.body);
+      if (!phoneNumberId) {
+        await storage.updateOrganization(req.organizationId, { whatsappPhoneNumberId: null, whatsappEncryptedAccessToken: null });
+        return res.json({ phoneNumberId: null });
+      }
+
+      const owner = await storage.getOrganizationByWhatsappNumber(phoneNumberId);
+      if (owner && owner.id !== req.organizationId) {
+        return res.status(409).json({ message: 'This WhatsApp number is connected to another organization' });
+      }
+
+      const organization = await storage.getOrganization(req.organizationId);
+      if (!organization) {
+        return res.status(404).json({ message: 'Organization not found' });
+      }
+      const problem = await whatsappService.connectNumber(organization, phoneNumberId, accessToken);
+      if (problem) {
+        return res.status(400).json({ message: problem });
+      }
+      res.json({ phoneNumberId });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid WhatsApp settings', errors: error.errors });
+      }
+      console.error('Error updating WhatsApp settings:', error);
+      res.status(500).json({ message: 'Failed to update WhatsApp settings' });
+    }
+  });
+
   app.get('/api/whatsapp/webhook', (req, res) => {
     const mode = req.query['hub.mode'];
     const token = req.query['hub.verify_token'];
@@ -2901,7 +5066,10 @@ Lihat katalog lengkap: {{link_catalog}}
     }
   });
 
-  app.post('/api/whatsapp/webhook', async (req, res) => {
+  app.post('/api/whatsapp/webhook', async (req: any, res) => {
+    if (!whatsappService.verifySignature(req.rawBody, req.get('x-hub-signature-256'))) {
+      return res.status(401).send('Invalid signature');
+    }
     try {
       await whatsappService.processWebhook(req.body);
       res.status(200).send('OK');
@@ -2911,6 +5079,118 @@ Lihat katalog lengkap: {{link_catalog}}
     }
   });
 
+  // Email tracking. These are opened from the recipient's mail client, so
+  // they carry no session; the message is found by its tracking token.
+  app.get('/api/email/t/:token/o.gif', async (req, res) => {
+    try {
+      await emailTrackingService.recordOpen(req.params.token);
+    } catch (error) {
+      console.error('Email open tracking error:', error);
+    }
+    res.set({ 'Content-Type': 'image/gif', 'Cache-Control': 'no-store, max-age=0' });
+    res.send(TRACKING_PIXEL);
+  });
+
+  app.get('/api/email/t/:token/c/:index', async (req, res) => {
+    try {
+      const url = await emailTrackingService.recordClick(req.params.token, parseInt(req.params.index));
+      if (!url) {
+        return res.status(404).send('Link not found');
+      }
+      res.redirect(302, url);
+    } catch (error) {
+      console.error('Email click tracking error:', error);
+      res.status(500).send('Error');
+    }
+  });
+
+  // One-click unsubscribe (RFC 8058), posted by mail clients from the
+  // List-Unsubscribe header and by the preference center's unsubscribe link
+  app.post('/api/email/t/:token/unsubscribe', async (req, res) => {
+    try {
+      const message = await storage.getEmailMessageByToken(req.params.token);
+      if (!message) {
+        return res.status(404).json({ message: 'Link not found' });
+      }
+      await emailTrackingService.unsubscribe(message, 'unsubscribe_link');
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Email unsubscribe error:', error);
+      res.status(500).json({ message: 'Failed to unsubscribe' });
+    }
+  });
+
+  // Preference center. The token is the one in the email the recipient
+  // followed the link from.
+  const preferencesFor = async (message: EmailMessage) => {
+    const contact = message.contactId ? await storage.getContact(message.organizationId, message.contactId) : undefined;
+    if (!contact) return undefined;
+    const organization = await storage.getOrganization(message.organizationId);
+    return {
+      contact,
+      organizationName: organization?.name ?? '',
+      firstName: contact.firstName,
+      channels: await consentService.preferences(contact),
+    };
+  };
+
+  app.get('/api/preferences/:token', async (req, res) => {
+    try {
+      const message = await storage.getEmailMessageByToken(req.params.token);
+      const preferences = message && await preferencesFor(message);
+      if (!preferences) {
+        return res.status(404).json({ message: 'This link is no longer valid' });
+      }
+      const { contact, ...body } = preferences;
+      res.json(body);
+    } catch (error) {
+      console.error('Preference center error:', error);
+      res.status(500).json({ message: 'Failed to load preferences' });
+    }
+  });
+
+  app.put('/api/preferences/:token', async (req, res) => {
+    try {
+      const update = preferencesUpdateSchema.parse(req.body);
+      const message = await storage.getEmailMessageByToken(req.params.token);
+      const preferences = message && await preferencesFor(message);
+      if (!message || !preferences) {
+        return res.status(404).json({ message: 'This link is no longer valid' });
+      }
+
+      let contact = preferences.contact;
+      for (const { channel, status } of preferences.channels) {
+        const wanted = update[channel];
+        if (wanted === undefined || status === (wanted ? 'opted_in' : 'opted_out')) continue;
+        contact = await consentService.setConsent(contact, channel, wanted ? 'opted_in' : 'opted_out', {
+          source: 'preference_center',
+        });
+      }
+
+      const { contact: _contact, ...body } = (await preferencesFor(message))!;
+      res.json(body);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid preferences', errors: error.errors });
+      }
+      console.error('Preference center error:', error);
+      res.status(500).json({ message: 'Failed to save preferences' });
+    }
+  });
+
+  // Mailgun webhook for delivered, failed, complained and unsubscribed events
+  app.post('/api/webhooks/mailgun', async (req, res) => {
+    try {
+      if (!emailTrackingService.verifyMailgunSignature(req.body?.signature)) {
+        return res.status(406).json({ message: 'Invalid signature' });
+      }
+      res.json(await emailTrackingService.handleMailgunEvent(req.body));
+    } catch (error) {
+      console.error('Mailgun webhook processing error:', error);
+      res.status(500).json({ message: 'Failed to process webhook' });
+    }
+  });
+
   const httpServer = createServer(app);
   return httpServer;
 }
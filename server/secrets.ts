@@ -0,0 +1,27 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+
+// Passwords for services users connect, such as mailboxes and calendars, are
+// stored with AES-256-GCM under MAILBOX_ENCRYPTION_KEY, or the session secret
+// when that isn't set
+
+function key(): Buffer {
+  const secret = process.env.MAILBOX_ENCRYPTION_KEY || process.env.SESSION_SECRET;
+  if (!secret) {
+    throw new Error('MAILBOX_ENCRYPTION_KEY must be set to store passwords');
+  }
+  return createHash('sha256').update(secret).digest();
+}
+
+export function encryptSecret(value: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', key(), iv);
+  const encrypted = Buffer.concat([cipher.update(value, 'utf8'), cipher.final()]);
+  return [iv, cipher.getAuthTag(), encrypted].map(part => part.toString('base64')).join(':');
+}
+
+export function decryptSecret(value: string): string {
+  const [iv, tag, encrypted] = value.split(':').map(part => Buffer.from(part, 'base64'));
+  const decipher = createDecipheriv('aes-256-gcm', key(), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+}
@@ -1,5 +1,5 @@
-import { 
-  contacts, activities, tasks, deals, emailTemplates, whatsappTemplates, users, aiResults,
+import {
+  contacts, activities, tasks, deals, emailTemplates, whatsappTemplates, users, aiResults, organizations, invitations, customFieldDefinitions, exportLogs, pipelines, pipelineStages, dealStageTransitions, products, dealLineItems, quotes, jobs, campaignSequences, campaignEnrollments, campaignSends, emailMessages, suppressions, mailboxes, whatsappConversations, whatsappMessages, calendarEvents, bookingPages, bookingTypes, calendarFeeds, calendarAccounts, externalBusyTimes, holidayCalendars, holidays, userAvailability, availabilityOverrides, meetingAssignments,
   type Contact, type InsertContact,
   type Activity, type InsertActivity,
   type Task, type InsertTask,
@@ -7,601 +7,652 @@ import {
   type EmailTemplate, type InsertEmailTemplate,
   type WhatsappTemplate, type InsertWhatsappTemplate,
   type User, type UpsertUser,
-  type AiResult, type InsertAiResult
+  type AiResult, type InsertAiResult,
+  type Organization, type InsertOrganization,
+  type Invitation, type InsertInvitation,
+  type CustomFieldDefinition, type InsertCustomFieldDefinition,
+  type ExportLog, type InsertExportLog,
+  type Pipeline, type InsertPipeline, type PipelineStage, type InsertPipelineStage, type PipelineInput,
+  type DealStageTransition,
+  type Product, type InsertProduct, type DealLineItem, type InsertDealLineItem,
+  type Quote, type InsertQuote,
+  type Job, type InsertJob,
+  type CampaignSequenceRecord, type InsertCampaignSequence, type CampaignEnrollment, type InsertCampaignEnrollment, type EnrollmentStatus,
+  type CampaignSend, type InsertCampaignSend, type EmailMessage, type InsertEmailMessage, type EmailEngagement,
+  type Suppression, type InsertSuppression, type ContactConsent, type ConsentChannel,
+  type Mailbox, type InsertMailbox,
+  type WhatsappConversation, type InsertWhatsappConversation, type WhatsappConversationStatus, type WhatsappMessageRecord, type InsertWhatsappMessage,
+  type CalendarEvent, type InsertCalendarEvent, type CalendarEventStatus,
+  type BookingPage, type InsertBookingPage, type BookingType, type InsertBookingType,
+  type CalendarFeed, type CalendarAccount, type InsertCalendarAccount, type ExternalBusyTime, type InsertExternalBusyTime,
+  type HolidayCalendar, type Holiday, type UserAvailability, type AvailabilityOverride,
+  type MeetingAssignment, type InsertMeetingAssignment
 } from "@shared/schema";
+import type { AvailabilityInput, AvailabilityOverrideInput } from "@shared/availability";
 import { db } from "./db";
-import { eq, like, or, and, desc } from "drizzle-orm";
+import { eq, ne, ilike, or, and, desc, sql, inArray, notInArray, isNull, lt, lte, gt, gte } from "drizzle-orm";
+
+// Every tenant-owned method takes the caller's organizationId first. Reads,
+// updates and deletes filter on it, so a row from another organization looks
+// exactly like a missing row (undefined / false) and routes answer 404.
+
+// Line items are written together with their deal, which supplies both ids
+export type NewDealLineItem = Omit<InsertDealLineItem, "organizationId" | "dealId">;
+export type NewJob = Omit<InsertJob, "organizationId">;
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Meetings are booked and moved holding their hosts' advisory locks until
+// the transaction ends, so two requests for one time can't both find it
+// free. A meeting without a host is checked against every meeting, so it
+// waits for all of them. Returns whether the hosts are free at the time.
+async function lockHostsIfFree(
+  tx: Transaction,
+  organizationId: number,
+  start: Date,
+  end: Date,
+  hostIds: (string | null)[],
+  excludeId?: number
+): Promise<boolean> {
+  const hosts = Array.from(new Set(hostIds.filter((hostId): hostId is string => !!hostId))).sort();
+  if (hostIds.includes(null)) {
+    await tx.execute(sql`select pg_advisory_xact_lock(${organizationId})`);
+  } else {
+    await tx.execute(sql`select pg_advisory_xact_lock_shared(${organizationId})`);
+    for (const hostId of hosts) {
+      await tx.execute(sql`select pg_advisory_xact_lock(${organizationId}, hashtext(${hostId}))`);
+    }
+  }
 
+  const conditions = [
+    eq(calendarEvents.organizationId, organizationId),
+    ne(calendarEvents.status, "cancelled"),
+    lt(calendarEvents.startTime, end),
+    gt(calendarEvents.endTime, start),
+  ];
+  if (excludeId) {
+    conditions.push(ne(calendarEvents.id, excludeId));
+  }
+  if (!hostIds.includes(null)) {
+    conditions.push(or(...hosts.map(hostId =>
+      or(eq(calendarEvents.createdBy, hostId), sql`${hostId} = ANY(${calendarEvents.teamMemberIds})`)
+    ))!);
+  }
+  const [conflict] = await tx.select({ id: calendarEvents.id }).from(calendarEvents).where(and(...conditions)).limit(1);
+  return !conflict;
+}
 export interface IStorage {
   // Users - Updated for Replit Auth
   getUser(id: string): Promise<User | undefined>;
   upsertUser(user: UpsertUser): Promise<User>;
+  updateUser(id: string, user: Partial<UpsertUser>): Promise<User | undefined>;
+  getUserByEmail(email: string): Promise<User | undefined>;
+
+  // Organizations
+  getOrganization(id: number): Promise<Organization | undefined>;
+  getOrganizationByWhatsappNumber(phoneNumberId: string): Promise<Organization | undefined>;
+  createOrganization(organization: InsertOrganization): Promise<Organization>;
+  updateOrganization(id: number, organization: Partial<InsertOrganization>): Promise<Organization | undefined>;
+
+  // Team members and invitations
+  getOrganizationUsers(organizationId: number): Promise<User[]>;
+  getOrganizationUser(organizationId: number, id: string): Promise<User | undefined>;
+  updateOrganizationUser(organizationId: number, id: string, user: Partial<UpsertUser>): Promise<User | undefined>;
+  getPendingInvitations(organizationId: number): Promise<Invitation[]>;
+  getInvitation(organizationId: number, id: number): Promise<Invitation | undefined>;
+  getInvitationByToken(token: string): Promise<Invitation | undefined>;
+  createInvitation(organizationId: number, invitation: Omit<InsertInvitation, "organizationId">): Promise<Invitation>;
+  updateInvitation(organizationId: number, id: number, invitation: Partial<InsertInvitation>): Promise<Invitation | undefined>;
 
   // Contacts
-  getAllContacts(): Promise<Contact[]>;
-  getContact(id: number): Promise<Contact | undefined>;
-  createContact(contact: InsertContact): Promise<Contact>;
-  updateContact(id: number, contact: Partial<InsertContact>): Promise<Contact | undefined>;
-  deleteContact(id: number): Promise<boolean>;
-  searchContacts(query: string): Promise<Contact[]>;
+  getAllContacts(organizationId: number): Promise<Contact[]>;
+  getContact(organizationId: number, id: number): Promise<Contact | undefined>;
+  createContact(organizationId: number, contact: InsertContact): Promise<Contact>;
+  createContacts(organizationId: number, contacts: InsertContact[]): Promise<Contact[]>;
+  updateContact(organizationId: number, id: number, contact: Partial<InsertContact>): Promise<Contact | undefined>;
+  deleteContact(organizationId: number, id: number): Promise<boolean>;
+  searchContacts(organizationId: number, query: string): Promise<Contact[]>;
+  mergeContacts(organizationId: number, survivorId: number, mergedIds: number[], contact: Partial<InsertContact>): Promise<Contact | undefined>;
 
   // Activities
-  getAllActivities(): Promise<Activity[]>;
-  getContactActivities(contactId: number): Promise<Activity[]>;
-  createActivity(activity: InsertActivity): Promise<Activity>;
+  getAllActivities(organizationId: number): Promise<Activity[]>;
+  getContactActivities(organizationId: number, contactId: number): Promise<Activity[]>;
+  createActivity(organizationId: number, activity: InsertActivity): Promise<Activity>;
 
   // Tasks
-  getAllTasks(): Promise<Task[]>;
-  getContactTasks(contactId: number): Promise<Task[]>;
-  createTask(task: InsertTask): Promise<Task>;
-  updateTask(id: number, task: Partial<InsertTask>): Promise<Task | undefined>;
-  deleteTask(id: number): Promise<boolean>;
+  getAllTasks(organizationId: number): Promise<Task[]>;
+  getContactTasks(organizationId: number, contactId: number): Promise<Task[]>;
+  createTask(organizationId: number, task: InsertTask): Promise<Task>;
+  updateTask(organizationId: number, id: number, task: Partial<InsertTask>): Promise<Task | undefined>;
+  deleteTask(organizationId: number, id: number): Promise<boolean>;
 
   // Deals
-  getAllDeals(): Promise<Deal[]>;
-  getContactDeals(contactId: number): Promise<Deal[]>;
-  createDeal(deal: InsertDeal): Promise<Deal>;
-  updateDeal(id: number, deal: Partial<InsertDeal>): Promise<Deal | undefined>;
-  deleteDeal(id: number): Promise<boolean>;
+  getAllDeals(organizationId: number): Promise<Deal[]>;
+  getDeal(organizationId: number, id: number): Promise<Deal | undefined>;
+  getContactDeals(organizationId: number, contactId: number): Promise<Deal[]>;
+  // userId is recorded on the stage transition when the deal enters a stage.
+  // lineItems, when given, replace the deal's lines in the same transaction.
+  createDeal(organizationId: number, deal: InsertDeal, userId?: string, lineItems?: NewDealLineItem[]): Promise<Deal>;
+  updateDeal(organizationId: number, id: number, deal: Partial<InsertDeal>, userId?: string, lineItems?: NewDealLineItem[]): Promise<Deal | undefined>;
+  deleteDeal(organizationId: number, id: number): Promise<boolean>;
+  getDealStageTransitions(organizationId: number, dealId?: number): Promise<DealStageTransition[]>;
+  getDealLineItems(organizationId: number, dealId?: number): Promise<DealLineItem[]>;
+
+  // Products
+  getProducts(organizationId: number): Promise<Product[]>;
+  getProduct(organizationId: number, id: number): Promise<Product | undefined>;
+  createProduct(organizationId: number, product: InsertProduct): Promise<Product>;
+  updateProduct(organizationId: number, id: number, product: Partial<InsertProduct>): Promise<Product | undefined>;
+  deleteProduct(organizationId: number, id: number): Promise<boolean>;
+  isProductInUse(organizationId: number, id: number): Promise<boolean>;
+
+  // Quotes. A deal's first quote takes the organization's next quote number;
+  // later ones become new versions of it.
+  getDealQuotes(organizationId: number, dealId: number): Promise<Quote[]>;
+  getQuote(organizationId: number, id: number): Promise<Quote | undefined>;
+  createQuote(organizationId: number, quote: Omit<InsertQuote, "organizationId" | "quoteNumber" | "version">): Promise<Quote | undefined>;
+  updateQuote(organizationId: number, id: number, quote: Partial<InsertQuote>): Promise<Quote | undefined>;
+
+  // Pipelines
+  getPipelines(organizationId: number): Promise<Pipeline[]>;
+  getPipeline(organizationId: number, id: number): Promise<Pipeline | undefined>;
+  getPipelineStages(organizationId: number, pipelineId?: number): Promise<PipelineStage[]>;
+  getPipelineStage(organizationId: number, id: number): Promise<PipelineStage | undefined>;
+  createDefaultPipeline(organizationId: number, pipeline: InsertPipeline, stages: (InsertPipelineStage & { legacyKey: string })[]): Promise<boolean>;
+  savePipeline(organizationId: number, id: number | null, pipeline: PipelineInput): Promise<Pipeline | undefined>;
+  deletePipeline(organizationId: number, id: number): Promise<boolean>;
 
   // Email Templates
-  getAllEmailTemplates(): Promise<EmailTemplate[]>;
-  getEmailTemplate(id: number): Promise<EmailTemplate | undefined>;
-  createEmailTemplate(template: InsertEmailTemplate): Promise<EmailTemplate>;
-  updateEmailTemplate(id: number, template: Partial<InsertEmailTemplate>): Promise<EmailTemplate | undefined>;
-  deleteEmailTemplate(id: number): Promise<boolean>;
+  getAllEmailTemplates(organizationId: number): Promise<EmailTemplate[]>;
+  getEmailTemplate(organizationId: number, id: number): Promise<EmailTemplate | undefined>;
+  createEmailTemplate(organizationId: number, template: InsertEmailTemplate): Promise<EmailTemplate>;
+  updateEmailTemplate(organizationId: number, id: number, template: Partial<InsertEmailTemplate>): Promise<EmailTemplate | undefined>;
+  deleteEmailTemplate(organizationId: number, id: number): Promise<boolean>;
 
   // WhatsApp Templates
-  getAllWhatsappTemplates(): Promise<WhatsappTemplate[]>;
-  getWhatsappTemplate(id: number): Promise<WhatsappTemplate | undefined>;
-  createWhatsappTemplate(template: InsertWhatsappTemplate): Promise<WhatsappTemplate>;
-  updateWhatsappTemplate(id: number, template: Partial<InsertWhatsappTemplate>): Promise<WhatsappTemplate | undefined>;
-  deleteWhatsappTemplate(id: number): Promise<boolean>;
+  getAllWhatsappTemplates(organizationId: number): Promise<WhatsappTemplate[]>;
+  getWhatsappTemplate(organizationId: number, id: number): Promise<WhatsappTemplate | undefined>;
+  createWhatsappTemplate(organizationId: number, template: InsertWhatsappTemplate): Promise<WhatsappTemplate>;
+  updateWhatsappTemplate(organizationId: number, id: number, template: Partial<InsertWhatsappTemplate>): Promise<WhatsappTemplate | undefined>;
+  deleteWhatsappTemplate(organizationId: number, id: number): Promise<boolean>;
+
+  // Custom Field Definitions
+  getCustomFieldDefinitions(organizationId: number, entityType?: string): Promise<CustomFieldDefinition[]>;
+  createCustomFieldDefinition(organizationId: number, definition: InsertCustomFieldDefinition): Promise<CustomFieldDefinition>;
+  updateCustomFieldDefinition(organizationId: number, id: number, definition: Partial<InsertCustomFieldDefinition>): Promise<CustomFieldDefinition | undefined>;
+  deleteCustomFieldDefinition(organizationId: number, id: number): Promise<boolean>;
+
+  // Export audit log
+  getExportLogs(organizationId: number, limit?: number): Promise<ExportLog[]>;
+  createExportLog(organizationId: number, log: Omit<InsertExportLog, "organizationId">): Promise<ExportLog>;
+
+  // Background jobs. claimDueJobs is the worker's entry point and spans every
+  // organization; everything else is scoped like the rest of the storage.
+  enqueueJob(organizationId: number, job: Omit<InsertJob, "organizationId">): Promise<Job>;
+  getJobs(organizationId: number, status?: string, limit?: number): Promise<Job[]>;
+  getJob(organizationId: number, id: number): Promise<Job | undefined>;
+  updateJob(organizationId: number, id: number, job: Partial<InsertJob>): Promise<Job | undefined>;
+  retryJob(organizationId: number, id: number): Promise<Job | undefined>;
+  claimDueJobs(limit: number, staleBefore: Date): Promise<Job[]>;
+
+  // Campaign sequences and enrollments. Enrollment writes take the job that
+  // runs the enrollment's next step, if any, and insert it in the same
+  // transaction so the enrollment and its job can't disagree.
+  getCampaignSequences(organizationId: number): Promise<CampaignSequenceRecord[]>;
+  getCampaignSequence(organizationId: number, id: number): Promise<CampaignSequenceRecord | undefined>;
+  createDefaultCampaignSequences(organizationId: number, sequences: Omit<InsertCampaignSequence, "organizationId">[]): Promise<boolean>;
+  createCampaignSequence(organizationId: number, sequence: Omit<InsertCampaignSequence, "organizationId">): Promise<CampaignSequenceRecord>;
+  updateCampaignSequence(organizationId: number, id: number, sequence: Partial<InsertCampaignSequence>): Promise<CampaignSequenceRecord | undefined>;
+  deleteCampaignSequence(organizationId: number, id: number): Promise<boolean>;
+  getCampaignEnrollments(organizationId: number, filters?: { sequenceId?: number; contactId?: number; statuses?: EnrollmentStatus[] }): Promise<CampaignEnrollment[]>;
+  getCampaignEnrollment(organizationId: number, id: number): Promise<CampaignEnrollment | undefined>;
+  createCampaignEnrollment(organizationId: number, enrollment: Omit<InsertCampaignEnrollment, "organizationId">, firstJob: NewJob): Promise<CampaignEnrollment | undefined>;
+  updateCampaignEnrollment(organizationId: number, id: number, enrollment: Partial<InsertCampaignEnrollment>, nextJob: NewJob | null): Promise<CampaignEnrollment | undefined>;
+  createCampaignSend(organizationId: number, send: Omit<InsertCampaignSend, "organizationId">): Promise<CampaignSend>;
+  getCampaignSends(organizationId: number, sequenceId: number): Promise<CampaignSend[]>;
+  updateCampaignSend(organizationId: number, id: number, send: Partial<InsertCampaignSend>): Promise<CampaignSend | undefined>;
+  deleteCampaignSend(organizationId: number, id: number): Promise<boolean>;
+  markCampaignSendsConverted(organizationId: number, enrollmentId: number): Promise<number>;
+
+  // Email log. Tracking links and provider webhooks arrive without a session,
+  // so messages can also be found by their tracking token or provider id.
+  createEmailMessage(organizationId: number, message: Omit<InsertEmailMessage, "organizationId">): Promise<EmailMessage>;
+  getEmailMessage(organizationId: number, id: number): Promise<EmailMessage | undefined>;
+  getEmailMessageByToken(trackingToken: string): Promise<EmailMessage | undefined>;
+  getEmailMessageByProviderId(providerMessageId: string): Promise<EmailMessage | undefined>;
+  getContactEmailMessages(organizationId: number, contactId: number): Promise<EmailMessage[]>;
+  getEmailMessagesByHeaderIds(organizationId: number, messageIds: string[]): Promise<EmailMessage[]>;
+  createSyncedEmailMessage(organizationId: number, message: Omit<InsertEmailMessage, "organizationId">): Promise<EmailMessage | undefined>;
+  updateEmailMessage(organizationId: number, id: number, message: Partial<InsertEmailMessage>): Promise<EmailMessage | undefined>;
+  updateContactEmailEngagement(organizationId: number, contactId: number, engagement: EmailEngagement): Promise<void>;
+
+  // Consent and suppression list. Addresses are stored normalized; callers
+  // normalize before looking one up.
+  updateContactConsent(organizationId: number, contactId: number, consent: ContactConsent): Promise<Contact | undefined>;
+  getSuppressions(organizationId: number, channel?: ConsentChannel): Promise<Suppression[]>;
+  getSuppression(organizationId: number, channel: ConsentChannel, address: string): Promise<Suppression | undefined>;
+  getSuppressedAddresses(organizationId: number, channel: ConsentChannel, addresses: string[]): Promise<Set<string>>;
+  createSuppression(organizationId: number, suppression: Omit<InsertSuppression, "organizationId">): Promise<Suppression>;
+  deleteSuppression(organizationId: number, id: number): Promise<boolean>;
+  deleteSuppressionsForAddress(organizationId: number, channel: ConsentChannel, address: string, reasons: string[]): Promise<number>;
+
+  // Connected mailboxes, one per user
+  getMailbox(organizationId: number, userId: string): Promise<Mailbox | undefined>;
+  getMailboxById(organizationId: number, id: number): Promise<Mailbox | undefined>;
+  upsertMailbox(organizationId: number, userId: string, mailbox: Omit<InsertMailbox, "organizationId" | "userId">): Promise<Mailbox>;
+  updateMailbox(organizationId: number, id: number, mailbox: Partial<InsertMailbox>): Promise<Mailbox | undefined>;
+  deleteMailbox(organizationId: number, id: number): Promise<boolean>;
+  getContactsByEmails(organizationId: number, emails: string[]): Promise<Contact[]>;
+
+  // WhatsApp inbox. Status webhooks carry only the Cloud API's message id, so
+  // messages can also be found by it.
+  getContactsByPhoneSuffix(organizationId: number, digits: string): Promise<Contact[]>;
+  getWhatsappConversations(organizationId: number, filters?: { status?: WhatsappConversationStatus; assignedTo?: string | null }): Promise<WhatsappConversation[]>;
+  getWhatsappConversation(organizationId: number, id: number): Promise<WhatsappConversation | undefined>;
+  getOrCreateWhatsappConversation(organizationId: number, contactId: number, phone: string): Promise<WhatsappConversation>;
+  updateWhatsappConversation(organizationId: number, id: number, conversation: Partial<InsertWhatsappConversation>): Promise<WhatsappConversation | undefined>;
+  recordWhatsappConversationMessage(organizationId: number, id: number, message: { at: Date; preview: string; inbound: boolean }): Promise<void>;
+  getWhatsappMessages(organizationId: number, conversationId: number): Promise<WhatsappMessageRecord[]>;
+  getWhatsappMessageByWaId(waMessageId: string): Promise<WhatsappMessageRecord | undefined>;
+  createWhatsappMessage(organizationId: number, message: Omit<InsertWhatsappMessage, "organizationId">): Promise<WhatsappMessageRecord | undefined>;
+  updateWhatsappMessage(organizationId: number, id: number, message: Partial<InsertWhatsappMessage>): Promise<WhatsappMessageRecord | undefined>;
+
+  // Calendar events
+  // hostId matches meetings the member created or hosts with others
+  getCalendarEvents(organizationId: number, filters?: { from?: Date; to?: Date; contactId?: number; statuses?: CalendarEventStatus[]; hostId?: string }): Promise<CalendarEvent[]>;
+  getCalendarEvent(organizationId: number, id: number): Promise<CalendarEvent | undefined>;
+  getOverlappingCalendarEvents(organizationId: number, start: Date, end: Date, excludeId?: number, hostId?: string | null): Promise<CalendarEvent[]>;
+  createCalendarEvent(organizationId: number, event: Omit<InsertCalendarEvent, "organizationId">): Promise<CalendarEvent>;
+  // Undefined when one of the hosts already has a meeting at that time
+  createCalendarEventIfFree(organizationId: number, event: Omit<InsertCalendarEvent, "organizationId">, hostIds: (string | null)[]): Promise<CalendarEvent | undefined>;
+  moveCalendarEventIfFree(organizationId: number, id: number, start: Date, end: Date, hostIds: (string | null)[], event?: Partial<InsertCalendarEvent>): Promise<CalendarEvent | undefined>;
+  updateCalendarEvent(organizationId: number, id: number, event: Partial<InsertCalendarEvent>): Promise<CalendarEvent | undefined>;
+
+  // Calendar feeds and connected CalDAV calendars, one of each per user.
+  // Feeds are looked up by token alone, without an organization.
+  getCalendarFeed(organizationId: number, userId: string): Promise<CalendarFeed | undefined>;
+  getCalendarFeedByToken(token: string): Promise<CalendarFeed | undefined>;
+  upsertCalendarFeed(organizationId: number, userId: string, token: string): Promise<CalendarFeed>;
+  deleteCalendarFeed(organizationId: number, userId: string): Promise<boolean>;
+  getCalendarAccount(organizationId: number, userId: string): Promise<CalendarAccount | undefined>;
+  getCalendarAccountById(organizationId: number, id: number): Promise<CalendarAccount | undefined>;
+  upsertCalendarAccount(organizationId: number, userId: string, account: Omit<InsertCalendarAccount, "organizationId" | "userId">): Promise<CalendarAccount>;
+  updateCalendarAccount(organizationId: number, id: number, account: Partial<InsertCalendarAccount>): Promise<CalendarAccount | undefined>;
+  deleteCalendarAccount(organizationId: number, id: number): Promise<boolean>;
+  getExternalBusyTimes(organizationId: number, userId: string, start: Date, end: Date): Promise<ExternalBusyTime[]>;
+  replaceExternalBusyTimes(organizationId: number, accountId: number, times: Omit<InsertExternalBusyTime, "organizationId" | "accountId">[]): Promise<void>;
+  getUserAvailability(organizationId: number, userId: string): Promise<UserAvailability | undefined>;
+  upsertUserAvailability(organizationId: number, userId: string, availability: AvailabilityInput): Promise<UserAvailability>;
+  deleteUserAvailability(organizationId: number, userId: string): Promise<void>;
+  getAvailabilityOverrides(organizationId: number, userId: string, range?: { from?: string; to?: string }): Promise<AvailabilityOverride[]>;
+  upsertAvailabilityOverride(organizationId: number, userId: string, override: AvailabilityOverrideInput): Promise<AvailabilityOverride>;
+  deleteAvailabilityOverride(organizationId: number, userId: string, id: number): Promise<boolean>;
+  getHolidayCalendars(organizationId: number): Promise<HolidayCalendar[]>;
+  getHolidayCalendar(organizationId: number, id: number): Promise<HolidayCalendar | undefined>;
+  getDefaultHolidayCalendar(organizationId: number): Promise<HolidayCalendar | undefined>;
+  createHolidayCalendar(organizationId: number, calendar: { name: string; isDefault: boolean }, days?: { date: string; name: string }[]): Promise<HolidayCalendar>;
+  updateHolidayCalendar(organizationId: number, id: number, calendar: { name?: string; isDefault?: boolean }): Promise<HolidayCalendar | undefined>;
+  deleteHolidayCalendar(organizationId: number, id: number): Promise<boolean>;
+  getHolidays(organizationId: number, calendarId: number, range?: { from?: string; to?: string }): Promise<Holiday[]>;
+  upsertHoliday(organizationId: number, calendarId: number, holiday: { date: string; name: string }): Promise<Holiday>;
+  deleteHoliday(organizationId: number, calendarId: number, id: number): Promise<boolean>;
+
+  // Booking pages. Public pages are looked up by slug alone, without an organization.
+  getBookingPage(organizationId: number, userId: string): Promise<BookingPage | undefined>;
+  getBookingPageBySlug(slug: string): Promise<BookingPage | undefined>;
+  upsertBookingPage(organizationId: number, userId: string, page: Omit<InsertBookingPage, "organizationId" | "userId">): Promise<BookingPage>;
+  deleteBookingPage(organizationId: number, id: number): Promise<boolean>;
+  getBookingTypes(organizationId: number, pageId: number): Promise<BookingType[]>;
+  getBookingType(organizationId: number, id: number): Promise<BookingType | undefined>;
+  getBookingTypeBySlug(pageId: number, slug: string): Promise<BookingType | undefined>;
+  createBookingType(organizationId: number, type: Omit<InsertBookingType, "organizationId">): Promise<BookingType>;
+  updateBookingType(organizationId: number, id: number, type: Partial<InsertBookingType>): Promise<BookingType | undefined>;
+  deleteBookingType(organizationId: number, id: number): Promise<boolean>;
+  getTeamBookingTypes(organizationId: number): Promise<BookingType[]>;
+  removeBookingPoolMember(organizationId: number, userId: string): Promise<void>;
+  createMeetingAssignments(organizationId: number, assignments: Omit<InsertMeetingAssignment, "organizationId">[]): Promise<MeetingAssignment[]>;
+  getMeetingAssignments(organizationId: number, filters?: { since?: Date; bookingTypeId?: number }): Promise<MeetingAssignment[]>;
 
   // AI Results Cache
-  getCachedAiResult(contactId: number, resultType: string, purpose?: string): Promise<AiResult | undefined>;
-  saveAiResult(result: InsertAiResult): Promise<AiResult>;
-  invalidateAiResults(contactId: number): Promise<boolean>;
+  getCachedAiResult(organizationId: number, contactId: number, resultType: string, purpose?: string): Promise<AiResult | undefined>;
+  saveAiResult(organizationId: number, result: InsertAiResult): Promise<AiResult>;
+  invalidateAiResults(organizationId: number, contactId: number): Promise<boolean>;
 }
 
-export class MemStorage implements IStorage {
-  private users: Map<number, User>;
-  private contacts: Map<number, Contact>;
-  private activities: Map<number, Activity>;
-  private tasks: Map<number, Task>;
-  private deals: Map<number, Deal>;
-  private emailTemplates: Map<number, EmailTemplate>;
-  private currentId: number;
-
-  constructor() {
-    this.users = new Map();
-    this.contacts = new Map();
-    this.activities = new Map();
-    this.tasks = new Map();
-    this.deals = new Map();
-    this.emailTemplates = new Map();
-    this.currentId = 1;
-    this.initializeData();
-  }
-
-  private initializeData() {
-    // Initialize with some sample data for demonstration
-    const sampleContacts: Omit<Contact, "id">[] = [
-      {
-        firstName: "Sarah",
-        lastName: "Johnson",
-        email: "sarah.johnson@techstart.com",
-        phone: "+1 (555) 123-4567",
-        company: "TechStart Solutions",
-        position: "CEO",
-        leadScore: 85,
-        leadStatus: "hot",
-        source: "Website",
-        notes: "Interested in enterprise package",
-        tags: ["enterprise", "decision-maker"],
-        lastContactDate: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000),
-        createdAt: new Date(Date.now() - 15 * 24 * 60 * 60 * 1000),
-      },
-      {
-        firstName: "Michael",
-        lastName: "Chen",
-        email: "m.chen@digitalinnovations.com",
-        phone: "+1 (555) 987-6543",
-        company: "Digital Innovations Inc",
-        position: "CTO",
-        leadScore: 70,
-        leadStatus: "warm",
-        source: "Referral",
-        notes: "Looking for integration solutions",
-        tags: ["technical", "integration"],
-        lastContactDate: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000),
-        createdAt: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000),
-      },
-      {
-        firstName: "Emma",
-        lastName: "Rodriguez",
-        email: "emma.r@globalenterprise.com",
-        phone: "+1 (555) 456-7890",
-        company: "Global Enterprise Corp",
-        position: "VP Sales",
-        leadScore: 45,
-        leadStatus: "cold",
-        source: "Cold Call",
-        notes: "Budget constraints, follow up Q2",
-        tags: ["budget-sensitive"],
-        lastContactDate: new Date(Date.now() - 20 * 24 * 60 * 60 * 1000),
-        createdAt: new Date(Date.now() - 60 * 24 * 60 * 60 * 1000),
-      }
-    ];
-
-    // Initialize contacts
-    sampleContacts.forEach(contact => {
-      const id = this.currentId++;
-      this.contacts.set(id, { ...contact, id });
-    });
-
-    // Initialize activities
-    const sampleActivities: Omit<Activity, "id">[] = [
-      {
-        contactId: 1,
-        type: "call",
-        title: "Discovery call",
-        description: "Initial needs assessment and product demo",
-        date: new Date(Date.now() - 1 * 24 * 60 * 60 * 1000),
-        createdAt: new Date(Date.now() - 1 * 24 * 60 * 60 * 1000),
-      },
-      {
-        contactId: 1,
-        type: "email",
-        title: "Proposal sent",
-        description: "Sent enterprise package proposal with pricing",
-        date: new Date(Date.now() - 3 * 24 * 60 * 60 * 1000),
-        createdAt: new Date(Date.now() - 3 * 24 * 60 * 60 * 1000),
-      },
-      {
-        contactId: 2,
-        type: "meeting",
-        title: "Technical requirements review",
-        description: "Discussed integration capabilities and API access",
-        date: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000),
-        createdAt: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000),
-      }
-    ];
-
-    sampleActivities.forEach(activity => {
-      const id = this.currentId++;
-      this.activities.set(id, { ...activity, id });
-    });
-
-    // Initialize tasks
-    const sampleTasks: Omit<Task, "id">[] = [
-      {
-        contactId: 1,
-        title: "Follow up on proposal",
-        description: "Check if Sarah has reviewed the enterprise proposal",
-        dueDate: new Date(Date.now() + 2 * 24 * 60 * 60 * 1000),
-        priority: "high",
-        status: "pending",
-        assignedTo: "John Smith",
-        createdAt: new Date(),
-      },
-      {
-        contactId: 2,
-        title: "Prepare technical demo",
-        description: "Set up API integration demo for Michael",
-        dueDate: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
-        priority: "medium",
-        status: "pending",
-        assignedTo: "John Smith",
-        createdAt: new Date(),
-      },
-      {
-        contactId: null,
-        title: "Update CRM documentation",
-        description: "Add new features to user documentation",
-        dueDate: new Date(Date.now() + 14 * 24 * 60 * 60 * 1000),
-        priority: "low",
-        status: "pending",
-        assignedTo: "John Smith",
-        createdAt: new Date(),
-      }
-    ];
-
-    sampleTasks.forEach(task => {
-      const id = this.currentId++;
-      this.tasks.set(id, { ...task, id });
-    });
-
-    // Initialize deals
-    const sampleDeals: Omit<Deal, "id">[] = [
-      {
-        contactId: 1,
-        title: "TechStart Enterprise Package",
-        value: "75000.00",
-        stage: "proposal",
-        probability: 75,
-        expectedCloseDate: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000),
-        actualCloseDate: null,
-        notes: "High priority prospect, good budget fit",
-        createdAt: new Date(Date.now() - 10 * 24 * 60 * 60 * 1000),
-      },
-      {
-        contactId: 2,
-        title: "Digital Innovations Integration",
-        value: "45000.00",
-        stage: "qualified",
-        probability: 60,
-        expectedCloseDate: new Date(Date.now() + 45 * 24 * 60 * 60 * 1000),
-        actualCloseDate: null,
-        notes: "Technical evaluation in progress",
-        createdAt: new Date(Date.now() - 20 * 24 * 60 * 60 * 1000),
-      }
-    ];
-
-    sampleDeals.forEach(deal => {
-      const id = this.currentId++;
-      this.deals.set(id, { ...deal, id });
-    });
-
-    // Initialize email templates
-    const templates: Omit<EmailTemplate, "id">[] = [
-      {
-        name: "Welcome Email",
-        subject: "Welcome to our platform!",
-        body: "Hi {{firstName}},\n\nWelcome to our platform! We're excited to have you on board.\n\nBest regards,\nThe Team",
-        category: "welcome",
-        isActive: true,
-        createdAt: new Date(),
-      },
-      {
-        name: "Follow-up",
-        subject: "Following up on our conversation",
-        body: "Hi {{firstName}},\n\nI wanted to follow up on our recent conversation about {{topic}}.\n\nLet me know if you have any questions.\n\nBest regards,\n{{senderName}}",
-        category: "follow-up",
-        isActive: true,
-        createdAt: new Date(),
-      },
-      {
-        name: "Proposal Template",
-        subject: "Your {{company}} Proposal - {{proposalTitle}}",
-        body: "Dear {{firstName}},\n\nThank you for your interest in our services. Please find attached your customized proposal for {{company}}.\n\nProposal Details:\n- Solution: {{solutionName}}\n- Investment: {{proposalAmount}}\n- Timeline: {{timeline}}\n\nI'm available to discuss any questions you may have.\n\nBest regards,\n{{senderName}}\n{{senderTitle}}",
-        category: "proposal",
-        isActive: true,
-        createdAt: new Date(),
-      }
-    ];
-
-    templates.forEach(template => {
-      const id = this.currentId++;
-      this.emailTemplates.set(id, { ...template, id });
-    });
-  }
-
-  // Users
+// Database Storage Implementation
+export class DatabaseStorage implements IStorage {
   async getUser(id: string): Promise<User | undefined> {
-    return Array.from(this.users.values()).find(user => user.id === id);
+    const [user] = await db.select().from(users).where(eq(users.id, id));
+    return user || undefined;
   }
 
   async upsertUser(userData: UpsertUser): Promise<User> {
-    const existingUser = Array.from(this.users.values()).find(user => user.id === userData.id);
-    
-    if (existingUser) {
-      const updatedUser: User = {
-        ...existingUser,
-        ...userData,
-        updatedAt: new Date(),
-      };
-      this.users.set(Number(userData.id), updatedUser);
-      return updatedUser;
-    } else {
-      const newUser: User = {
-        ...userData,
-        role: userData.role || "user",
-        createdAt: new Date(),
-        updatedAt: new Date(),
-      };
-      this.users.set(Number(userData.id), newUser);
-      return newUser;
-    }
-  }
-
-  // Contacts
-  async getAllContacts(): Promise<Contact[]> {
-    return Array.from(this.contacts.values()).sort((a, b) => 
-      new Date(b.createdAt || 0).getTime() - new Date(a.createdAt || 0).getTime()
-    );
-  }
-
-  async getContact(id: number): Promise<Contact | undefined> {
-    return this.contacts.get(id);
-  }
-
-  async createContact(insertContact: InsertContact): Promise<Contact> {
-    const id = this.currentId++;
-    const contact: Contact = { 
-      ...insertContact, 
-      id, 
-      createdAt: new Date(),
-      leadScore: insertContact.leadScore || 0,
-      leadStatus: insertContact.leadStatus || "new",
-      source: insertContact.source || null,
-      phone: insertContact.phone || null,
-      company: insertContact.company || null,
-      position: insertContact.position || null,
-      notes: insertContact.notes || null,
-      tags: insertContact.tags || [],
-      lastContactDate: insertContact.lastContactDate || null
-    };
-    this.contacts.set(id, contact);
-    return contact;
-  }
-
-  async updateContact(id: number, contactUpdate: Partial<InsertContact>): Promise<Contact | undefined> {
-    const contact = this.contacts.get(id);
-    if (!contact) return undefined;
-    
-    const updatedContact = { ...contact, ...contactUpdate };
-    this.contacts.set(id, updatedContact);
-    return updatedContact;
-  }
-
-  async deleteContact(id: number): Promise<boolean> {
-    return this.contacts.delete(id);
-  }
-
-  async searchContacts(query: string): Promise<Contact[]> {
-    const lowercaseQuery = query.toLowerCase();
-    return Array.from(this.contacts.values()).filter(contact =>
-      contact.firstName.toLowerCase().includes(lowercaseQuery) ||
-      contact.lastName.toLowerCase().includes(lowercaseQuery) ||
-      contact.email.toLowerCase().includes(lowercaseQuery) ||
-      (contact.company && contact.company.toLowerCase().includes(lowercaseQuery))
-    );
+    const [user] = await db
+      .insert(users)
+      .values(userData)
+      .onConflictDoUpdate({
+        target: users.id,
+        set: {
+          ...userData,
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+    return user;
   }
 
-  // Activities
-  async getAllActivities(): Promise<Activity[]> {
-    return Array.from(this.activities.values()).sort((a, b) => 
-      new Date(b.date || 0).getTime() - new Date(a.date || 0).getTime()
-    );
-  }
-
-  async getContactActivities(contactId: number): Promise<Activity[]> {
-    return Array.from(this.activities.values())
-      .filter(activity => activity.contactId === contactId)
-      .sort((a, b) => new Date(b.date || 0).getTime() - new Date(a.date || 0).getTime());
-  }
-
-  async createActivity(insertActivity: InsertActivity): Promise<Activity> {
-    const id = this.currentId++;
-    const activity: Activity = { 
-      ...insertActivity, 
-      id, 
-      date: insertActivity.date || new Date(),
-      createdAt: new Date(),
-      contactId: insertActivity.contactId || null,
-      description: insertActivity.description || null
-    };
-    this.activities.set(id, activity);
-    return activity;
+  async updateUser(id: string, userUpdate: Partial<UpsertUser>): Promise<User | undefined> {
+    const [user] = await db
+      .update(users)
+      .set({
+        ...userUpdate,
+        updatedAt: new Date(),
+      })
+      .where(eq(users.id, id))
+      .returning();
+    return user || undefined;
   }
 
-  // Tasks
-  async getAllTasks(): Promise<Task[]> {
-    return Array.from(this.tasks.values()).sort((a, b) => 
-      new Date(b.createdAt || 0).getTime() - new Date(a.createdAt || 0).getTime()
-    );
-  }
-
-  async getContactTasks(contactId: number): Promise<Task[]> {
-    return Array.from(this.tasks.values())
-      .filter(task => task.contactId === contactId)
-      .sort((a, b) => new Date(b.createdAt || 0).getTime() - new Date(a.createdAt || 0).getTime());
-  }
-
-  async createTask(insertTask: InsertTask): Promise<Task> {
-    const id = this.currentId++;
-    const task: Task = { 
-      ...insertTask, 
-      id, 
-      createdAt: new Date(),
-      status: insertTask.status || "pending",
-      priority: insertTask.priority || "medium",
-      contactId: insertTask.contactId || null,
-      description: insertTask.description || null,
-      dueDate: insertTask.dueDate || null,
-      assignedTo: insertTask.assignedTo || null
-    };
-    this.tasks.set(id, task);
-    return task;
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const [user] = await db
+      .select()
+      .from(users)
+      .where(sql`lower(${users.email}) = ${email.toLowerCase()}`);
+    return user || undefined;
   }
 
-  async updateTask(id: number, taskUpdate: Partial<InsertTask>): Promise<Task | undefined> {
-    const task = this.tasks.get(id);
-    if (!task) return undefined;
-    
-    const updatedTask = { ...task, ...taskUpdate };
-    this.tasks.set(id, updatedTask);
-    return updatedTask;
+  // Organizations
+  async getOrganization(id: number): Promise<Organization | undefined> {
+    const [organization] = await db.select().from(organizations).where(eq(organizations.id, id));
+    return organization || undefined;
   }
 
-  async deleteTask(id: number): Promise<boolean> {
-    return this.tasks.delete(id);
+  async getOrganizationByWhatsappNumber(phoneNumberId: string): Promise<Organization | undefined> {
+    const [organization] = await db.select().from(organizations).where(eq(organizations.whatsappPhoneNumberId, phoneNumberId));
+    return organization || undefined;
   }
 
-  // Deals
-  async getAllDeals(): Promise<Deal[]> {
-    return Array.from(this.deals.values()).sort((a, b) => 
-      new Date(b.createdAt || 0).getTime() - new Date(a.createdAt || 0).getTime()
-    );
+  async updateOrganization(id: number, organizationUpdate: Partial<InsertOrganization>): Promise<Organization | undefined> {
+    const [organization] = await db
+      .update(organizations)
+      .set({ ...organizationUpdate, updatedAt: new Date() })
+      .where(eq(organizations.id, id))
+      .returning();
+    return organization || undefined;
   }
 
-  async getContactDeals(contactId: number): Promise<Deal[]> {
-    return Array.from(this.deals.values())
-      .filter(deal => deal.contactId === contactId)
-      .sort((a, b) => new Date(b.createdAt || 0).getTime() - new Date(a.createdAt || 0).getTime());
+  async createOrganization(insertOrganization: InsertOrganization): Promise<Organization> {
+    const [organization] = await db
+      .insert(organizations)
+      .values(insertOrganization)
+      .returning();
+    return organization;
   }
 
-  async createDeal(insertDeal: InsertDeal): Promise<Deal> {
-    const id = this.currentId++;
-    const deal: Deal = { 
-      ...insertDeal, 
-      id, 
-      createdAt: new Date(),
-      stage: insertDeal.stage || "prospecting",
-      probability: insertDeal.probability || 50,
-      value: insertDeal.value || null,
-      notes: insertDeal.notes || null,
-      contactId: insertDeal.contactId || null,
-      expectedCloseDate: insertDeal.expectedCloseDate || null,
-      actualCloseDate: insertDeal.actualCloseDate || null
-    };
-    this.deals.set(id, deal);
-    return deal;
+  // Team members and invitations
+  async getOrganizationUsers(organizationId: number): Promise<User[]> {
+    return await db
+      .select()
+      .from(users)
+      .where(and(eq(users.organizationId, organizationId), eq(users.isActive, true)))
+      .orderBy(users.createdAt);
   }
 
-  async updateDeal(id: number, dealUpdate: Partial<InsertDeal>): Promise<Deal | undefined> {
-    const deal = this.deals.get(id);
-    if (!deal) return undefined;
-    
-    const updatedDeal = { ...deal, ...dealUpdate };
-    this.deals.set(id, updatedDeal);
-    return updatedDeal;
+  async getOrganizationUser(organizationId: number, id: string): Promise<User | undefined> {
+    const [user] = await db
+      .select()
+      .from(users)
+      .where(and(eq(users.organizationId, organizationId), eq(users.id, id)));
+    return user || undefined;
   }
 
-  async deleteDeal(id: number): Promise<boolean> {
-    return this.deals.delete(id);
+  async updateOrganizationUser(organizationId: number, id: string, userUpdate: Partial<UpsertUser>): Promise<User | undefined> {
+    const [user] = await db
+      .update(users)
+      .set({
+        ...userUpdate,
+        updatedAt: new Date(),
+      })
+      .where(and(eq(users.organizationId, organizationId), eq(users.id, id)))
+      .returning();
+    return user || undefined;
   }
 
-  // Email Templates
-  async getAllEmailTemplates(): Promise<EmailTemplate[]> {
-    return Array.from(this.emailTemplates.values()).sort((a, b) => 
-      new Date(b.createdAt || 0).getTime() - new Date(a.createdAt || 0).getTime()
-    );
-  }
-
-  async getEmailTemplate(id: number): Promise<EmailTemplate | undefined> {
-    return this.emailTemplates.get(id);
-  }
-
-  async createEmailTemplate(insertTemplate: InsertEmailTemplate): Promise<EmailTemplate> {
-    const id = this.currentId++;
-    const template: EmailTemplate = { 
-      ...insertTemplate, 
-      id, 
-      createdAt: new Date(),
-      isActive: insertTemplate.isActive !== false,
-      category: insertTemplate.category || null
-    };
-    this.emailTemplates.set(id, template);
-    return template;
+  async getPendingInvitations(organizationId: number): Promise<Invitation[]> {
+    return await db
+      .select()
+      .from(invitations)
+      .where(and(eq(invitations.organizationId, organizationId), eq(invitations.status, "pending")))
+      .orderBy(invitations.createdAt);
   }
 
-  async updateEmailTemplate(id: number, templateUpdate: Partial<InsertEmailTemplate>): Promise<EmailTemplate | undefined> {
-    const template = this.emailTemplates.get(id);
-    if (!template) return undefined;
-    
-    const updatedTemplate = { ...template, ...templateUpdate };
-    this.emailTemplates.set(id, updatedTemplate);
-    return updatedTemplate;
+  async getInvitation(organizationId: number, id: number): Promise<Invitation | undefined> {
+    const [invitation] = await db
+      .select()
+      .from(invitations)
+      .where(and(eq(invitations.organizationId, organizationId), eq(invitations.id, id)));
+    return invitation || undefined;
   }
 
-  async deleteEmailTemplate(id: number): Promise<boolean> {
-    return this.emailTemplates.delete(id);
+  // Not tenant-scoped: the token itself is the credential on the public accept page
+  async getInvitationByToken(token: string): Promise<Invitation | undefined> {
+    const [invitation] = await db.select().from(invitations).where(eq(invitations.token, token));
+    return invitation || undefined;
   }
-}
 
-// Database Storage Implementation
-export class DatabaseStorage implements IStorage {
-  async getUser(id: string): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.id, id));
-    return user || undefined;
+  async createInvitation(organizationId: number, insertInvitation: Omit<InsertInvitation, "organizationId">): Promise<Invitation> {
+    const [invitation] = await db
+      .insert(invitations)
+      .values({
+        ...insertInvitation,
+        organizationId,
+        createdAt: new Date(),
+      })
+      .returning();
+    return invitation;
   }
 
-  async upsertUser(userData: UpsertUser): Promise<User> {
-    const [user] = await db
-      .insert(users)
-      .values(userData)
-      .onConflictDoUpdate({
-        target: users.id,
-        set: {
-          ...userData,
-          updatedAt: new Date(),
-        },
-      })
+  async updateInvitation(organizationId: number, id: number, invitationUpdate: Partial<InsertInvitation>): Promise<Invitation | undefined> {
+    const [invitation] = await db
+      .update(invitations)
+      .set(invitationUpdate)
+      .where(and(eq(invitations.organizationId, organizationId), eq(invitations.id, id)))
       .returning();
-    return user;
+    return invitation || undefined;
   }
 
   // Contacts
-  async getAllContacts(): Promise<Contact[]> {
-    return await db.select().from(contacts).orderBy(contacts.id);
+  async getAllContacts(organizationId: number): Promise<Contact[]> {
+    return await db
+      .select()
+      .from(contacts)
+      .where(eq(contacts.organizationId, organizationId))
+      .orderBy(contacts.id);
   }
 
-  async getContact(id: number): Promise<Contact | undefined> {
-    const [contact] = await db.select().from(contacts).where(eq(contacts.id, id));
+  async getContact(organizationId: number, id: number): Promise<Contact | undefined> {
+    const [contact] = await db
+      .select()
+      .from(contacts)
+      .where(and(eq(contacts.organizationId, organizationId), eq(contacts.id, id)));
     return contact || undefined;
   }
 
-  async createContact(insertContact: InsertContact): Promise<Contact> {
+  async createContact(organizationId: number, insertContact: InsertContact): Promise<Contact> {
     const [contact] = await db
       .insert(contacts)
       .values({
         ...insertContact,
-        organizationId: 1, // Default organization for now
+        organizationId,
         createdAt: new Date(),
       })
       .returning();
     return contact;
   }
 
-  async updateContact(id: number, contactUpdate: Partial<InsertContact>): Promise<Contact | undefined> {
+  async createContacts(organizationId: number, insertContacts: InsertContact[]): Promise<Contact[]> {
+    if (insertContacts.length === 0) return [];
+    return await db
+      .insert(contacts)
+      .values(insertContacts.map(contact => ({
+        ...contact,
+        organizationId,
+        createdAt: new Date(),
+      })))
+      .returning();
+  }
+
+  async updateContact(organizationId: number, id: number, contactUpdate: Partial<InsertContact>): Promise<Contact | undefined> {
     const [contact] = await db
       .update(contacts)
       .set(contactUpdate)
-      .where(eq(contacts.id, id))
+      .where(and(eq(contacts.organizationId, organizationId), eq(contacts.id, id)))
       .returning();
     return contact || undefined;
   }
 
-  async deleteContact(id: number): Promise<boolean> {
-    const result = await db.delete(contacts).where(eq(contacts.id, id));
+  async deleteContact(organizationId: number, id: number): Promise<boolean> {
+    const result = await db
+      .delete(contacts)
+      .where(and(eq(contacts.organizationId, organizationId), eq(contacts.id, id)));
     return (result.rowCount ?? 0) > 0;
   }
 
-  async searchContacts(query: string): Promise<Contact[]> {
+  async searchContacts(organizationId: number, query: string): Promise<Contact[]> {
     return await db
       .select()
       .from(contacts)
       .where(
-        or(
-          like(contacts.firstName, `%${query}%`),
-          like(contacts.lastName, `%${query}%`),
-          like(contacts.email, `%${query}%`),
-          like(contacts.company, `%${query}%`)
+        and(
+          eq(contacts.organizationId, organizationId),
+          or(
+            ilike(contacts.firstName, `%${query}%`),
+            ilike(contacts.lastName, `%${query}%`),
+            ilike(contacts.email, `%${query}%`),
+            ilike(contacts.company, `%${query}%`)
+          )
         )
       );
   }
 
+  // Moves everything that points at the merged contacts onto the survivor, then
+  // deletes them. Runs in one transaction so a failure leaves both sides intact.
+  async mergeContacts(organizationId: number, survivorId: number, mergedIds: number[], contactUpdate: Partial<InsertContact>): Promise<Contact | undefined> {
+    return await db.transaction(async (tx) => {
+      const found = await tx
+        .select({ id: contacts.id })
+        .from(contacts)
+        .where(and(eq(contacts.organizationId, organizationId), inArray(contacts.id, [survivorId, ...mergedIds])));
+      if (found.length !== mergedIds.length + 1) {
+        return undefined;
+      }
+
+      const reparent = { contactId: survivorId };
+      await tx.update(activities).set(reparent)
+        .where(and(eq(activities.organizationId, organizationId), inArray(activities.contactId, mergedIds)));
+      await tx.update(tasks).set(reparent)
+        .where(and(eq(tasks.organizationId, organizationId), inArray(tasks.contactId, mergedIds)));
+      await tx.update(deals).set(reparent)
+        .where(and(eq(deals.organizationId, organizationId), inArray(deals.contactId, mergedIds)));
+      await tx.update(aiResults).set(reparent)
+        .where(and(eq(aiResults.organizationId, organizationId), inArray(aiResults.contactId, mergedIds)));
+      await tx.update(quotes).set(reparent)
+        .where(and(eq(quotes.organizationId, organizationId), inArray(quotes.contactId, mergedIds)));
+      // The survivor may already be in the same sequences, so open enrollments
+      // of merged contacts end instead of moving over
+      await tx.update(campaignEnrollments)
+        .set({ status: "exited", exitReason: "merged", nextRunAt: null, nextJobId: null, endedAt: new Date() })
+        .where(and(
+          eq(campaignEnrollments.organizationId, organizationId),
+          inArray(campaignEnrollments.contactId, mergedIds),
+          inArray(campaignEnrollments.status, ["active", "paused"])
+        ));
+      await tx.update(campaignEnrollments).set(reparent)
+        .where(and(eq(campaignEnrollments.organizationId, organizationId), inArray(campaignEnrollments.contactId, mergedIds)));
+      await tx.update(campaignSends).set(reparent)
+        .where(and(eq(campaignSends.organizationId, organizationId), inArray(campaignSends.contactId, mergedIds)));
+      await tx.update(emailMessages).set(reparent)
+        .where(and(eq(emailMessages.organizationId, organizationId), inArray(emailMessages.contactId, mergedIds)));
+      await tx.update(suppressions).set(reparent)
+        .where(and(eq(suppressions.organizationId, organizationId), inArray(suppressions.contactId, mergedIds)));
+
+      // A contact has one WhatsApp conversation, so the merged contacts'
+      // messages move into the survivor's, which takes over the first of
+      // theirs when it has none
+      const conversations = await tx
+        .select()
+        .from(whatsappConversations)
+        .where(and(
+          eq(whatsappConversations.organizationId, organizationId),
+          inArray(whatsappConversations.contactId, [survivorId, ...mergedIds])
+        ));
+      const kept = conversations.find(conversation => conversation.contactId === survivorId) ?? conversations[0];
+      if (kept) {
+        const folded = conversations.filter(conversation => conversation.id !== kept.id);
+        if (folded.length > 0) {
+          const foldedIds = folded.map(conversation => conversation.id);
+          await tx.update(whatsappMessages).set({ conversationId: kept.id })
+            .where(and(eq(whatsappMessages.organizationId, organizationId), inArray(whatsappMessages.conversationId, foldedIds)));
+          await tx.delete(whatsappConversations)
+            .where(and(eq(whatsappConversations.organizationId, organizationId), inArray(whatsappConversations.id, foldedIds)));
+        }
+        const latest = (field: "lastMessageAt" | "lastInboundAt") =>
+          conversations.reduce<Date | null>((max, conversation) => {
+            const value = conversation[field];
+            return value && (!max || value > max) ? value : max;
+          }, null);
+        const newest = conversations.reduce((a, b) => ((b.lastMessageAt ?? 0) > (a.lastMessageAt ?? 0) ? b : a));
+        await tx.update(whatsappConversations)
+          .set({
+            contactId: survivorId,
+            unreadCount: conversations.reduce((sum, conversation) => sum + conversation.unreadCount, 0),
+            lastMessageAt: latest("lastMessageAt"),
+            lastInboundAt: latest("lastInboundAt"),
+            lastMessagePreview: newest.lastMessagePreview,
+            phone: newest.phone,
+          })
+          .where(eq(whatsappConversations.id, kept.id));
+      }
+      await tx.update(whatsappMessages).set(reparent)
+        .where(and(eq(whatsappMessages.organizationId, organizationId), inArray(whatsappMessages.contactId, mergedIds)));
+      await tx.update(calendarEvents).set(reparent)
+        .where(and(eq(calendarEvents.organizationId, organizationId), inArray(calendarEvents.contactId, mergedIds)));
+
+      await tx.delete(contacts)
+        .where(and(eq(contacts.organizationId, organizationId), inArray(contacts.id, mergedIds)));
+
+      const [contact] = await tx
+        .update(contacts)
+        .set(contactUpdate)
+        .where(and(eq(contacts.organizationId, organizationId), eq(contacts.id, survivorId)))
+        .returning();
+      return contact;
+    });
+  }
+
   // Activities
-  async getAllActivities(): Promise<Activity[]> {
-    return await db.select().from(activities).orderBy(activities.createdAt);
+  async getAllActivities(organizationId: number): Promise<Activity[]> {
+    return await db
+      .select()
+      .from(activities)
+      .where(eq(activities.organizationId, organizationId))
+      .orderBy(activities.createdAt);
   }
 
-  async getContactActivities(contactId: number): Promise<Activity[]> {
+  async getContactActivities(organizationId: number, contactId: number): Promise<Activity[]> {
     return await db
       .select()
       .from(activities)
-      .where(eq(activities.contactId, contactId))
+      .where(and(eq(activities.organizationId, organizationId), eq(activities.contactId, contactId)))
       .orderBy(activities.createdAt);
   }
 
-  async createActivity(insertActivity: InsertActivity): Promise<Activity> {
+  async createActivity(organizationId: number, insertActivity: InsertActivity): Promise<Activity> {
     const [activity] = await db
       .insert(activities)
       .values({
         ...insertActivity,
-        organizationId: 1, // Default organization for now
+        organizationId,
         createdAt: new Date(),
       })
       .returning();
@@ -609,187 +660,1851 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Tasks
-  async getAllTasks(): Promise<Task[]> {
-    return await db.select().from(tasks).orderBy(tasks.createdAt);
+  async getAllTasks(organizationId: number): Promise<Task[]> {
+    return await db
+      .select()
+      .from(tasks)
+      .where(eq(tasks.organizationId, organizationId))
+      .orderBy(tasks.createdAt);
   }
 
-  async getContactTasks(contactId: number): Promise<Task[]> {
+  async getContactTasks(organizationId: number, contactId: number): Promise<Task[]> {
     return await db
       .select()
       .from(tasks)
-      .where(eq(tasks.contactId, contactId))
+      .where(and(eq(tasks.organizationId, organizationId), eq(tasks.contactId, contactId)))
       .orderBy(tasks.createdAt);
   }
 
-  async createTask(insertTask: InsertTask): Promise<Task> {
+  async createTask(organizationId: number, insertTask: InsertTask): Promise<Task> {
     const [task] = await db
       .insert(tasks)
       .values({
         ...insertTask,
-        organizationId: 1, // Default organization for now
+        organizationId,
         createdAt: new Date(),
       })
       .returning();
     return task;
   }
 
-  async updateTask(id: number, taskUpdate: Partial<InsertTask>): Promise<Task | undefined> {
+  async updateTask(organizationId: number, id: number, taskUpdate: Partial<InsertTask>): Promise<Task | undefined> {
     const [task] = await db
       .update(tasks)
       .set(taskUpdate)
-      .where(eq(tasks.id, id))
+      .where(and(eq(tasks.organizationId, organizationId), eq(tasks.id, id)))
       .returning();
     return task || undefined;
   }
 
-  async deleteTask(id: number): Promise<boolean> {
-    const result = await db.delete(tasks).where(eq(tasks.id, id));
+  async deleteTask(organizationId: number, id: number): Promise<boolean> {
+    const result = await db
+      .delete(tasks)
+      .where(and(eq(tasks.organizationId, organizationId), eq(tasks.id, id)));
     return (result.rowCount ?? 0) > 0;
   }
 
   // Deals
-  async getAllDeals(): Promise<Deal[]> {
-    return await db.select().from(deals).orderBy(deals.createdAt);
+  async getAllDeals(organizationId: number): Promise<Deal[]> {
+    return await db
+      .select()
+      .from(deals)
+      .where(eq(deals.organizationId, organizationId))
+      .orderBy(deals.createdAt);
+  }
+
+  async getDeal(organizationId: number, id: number): Promise<Deal | undefined> {
+    const [deal] = await db
+      .select()
+      .from(deals)
+      .where(and(eq(deals.organizationId, organizationId), eq(deals.id, id)));
+    return deal || undefined;
   }
 
-  async getContactDeals(contactId: number): Promise<Deal[]> {
+  async getContactDeals(organizationId: number, contactId: number): Promise<Deal[]> {
     return await db
       .select()
       .from(deals)
-      .where(eq(deals.contactId, contactId))
+      .where(and(eq(deals.organizationId, organizationId), eq(deals.contactId, contactId)))
       .orderBy(deals.createdAt);
   }
 
-  async createDeal(insertDeal: InsertDeal): Promise<Deal> {
-    const [deal] = await db
-      .insert(deals)
-      .values({
-        ...insertDeal,
-        organizationId: 1, // Default organization for now
-        createdAt: new Date(),
-      })
-      .returning();
-    return deal;
+  async createDeal(organizationId: number, insertDeal: InsertDeal, userId?: string, lineItems?: NewDealLineItem[]): Promise<Deal> {
+    return await db.transaction(async (tx) => {
+      const [deal] = await tx
+        .insert(deals)
+        .values({
+          ...insertDeal,
+          organizationId,
+          createdAt: new Date(),
+        })
+        .returning();
+
+      if (deal.stageId) {
+        const [stage] = await tx.select().from(pipelineStages).where(eq(pipelineStages.id, deal.stageId));
+        await tx.insert(dealStageTransitions).values({
+          organizationId,
+          dealId: deal.id,
+          toStageId: deal.stageId,
+          toStageName: stage?.name ?? "",
+          userId: userId ?? null,
+          value: deal.value,
+          createdAt: deal.createdAt ?? new Date(),
+        });
+      }
+      if (lineItems?.length) {
+        await tx.insert(dealLineItems).values(
+          lineItems.map((line, index) => ({ ...line, organizationId, dealId: deal.id, sortOrder: index }))
+        );
+      }
+      return deal;
+    });
   }
 
-  async updateDeal(id: number, dealUpdate: Partial<InsertDeal>): Promise<Deal | undefined> {
-    const [deal] = await db
-      .update(deals)
-      .set(dealUpdate)
-      .where(eq(deals.id, id))
-      .returning();
-    return deal || undefined;
+  // The previous stage is read under a row lock so concurrent moves each log
+  // the stage they actually left
+  async updateDeal(organizationId: number, id: number, dealUpdate: Partial<InsertDeal>, userId?: string, lineItems?: NewDealLineItem[]): Promise<Deal | undefined> {
+    return await db.transaction(async (tx) => {
+      const [existing] = await tx
+        .select()
+        .from(deals)
+        .where(and(eq(deals.organizationId, organizationId), eq(deals.id, id)))
+        .for("update");
+      if (!existing) {
+        return undefined;
+      }
+
+      const [deal] = await tx
+        .update(deals)
+        .set(dealUpdate)
+        .where(and(eq(deals.organizationId, organizationId), eq(deals.id, id)))
+        .returning();
+
+      if (deal.stageId && deal.stageId !== existing.stageId) {
+        const stageIds = [deal.stageId, existing.stageId].filter((stageId): stageId is number => !!stageId);
+        const stages = await tx.select().from(pipelineStages).where(inArray(pipelineStages.id, stageIds));
+        const stageName = (stageId: number | null) => stages.find(stage => stage.id === stageId)?.name ?? null;
+
+        await tx.insert(dealStageTransitions).values({
+          organizationId,
+          dealId: deal.id,
+          fromStageId: existing.stageId,
+          fromStageName: stageName(existing.stageId),
+          toStageId: deal.stageId,
+          toStageName: stageName(deal.stageId) ?? "",
+          userId: userId ?? null,
+          value: deal.value,
+          createdAt: new Date(),
+        });
+      }
+      if (lineItems) {
+        await tx
+          .delete(dealLineItems)
+          .where(and(eq(dealLineItems.organizationId, organizationId), eq(dealLineItems.dealId, id)));
+        if (lineItems.length) {
+          await tx.insert(dealLineItems).values(
+            lineItems.map((line, index) => ({ ...line, organizationId, dealId: id, sortOrder: index }))
+          );
+        }
+      }
+      return deal;
+    });
   }
 
-  async deleteDeal(id: number): Promise<boolean> {
-    const result = await db.delete(deals).where(eq(deals.id, id));
-    return (result.rowCount ?? 0) > 0;
+  async deleteDeal(organizationId: number, id: number): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      await tx
+        .delete(dealStageTransitions)
+        .where(and(eq(dealStageTransitions.organizationId, organizationId), eq(dealStageTransitions.dealId, id)));
+      await tx
+        .delete(dealLineItems)
+        .where(and(eq(dealLineItems.organizationId, organizationId), eq(dealLineItems.dealId, id)));
+      await tx
+        .delete(quotes)
+        .where(and(eq(quotes.organizationId, organizationId), eq(quotes.dealId, id)));
+      // Meetings about the deal stay on the contact's calendar
+      await tx
+        .update(calendarEvents)
+        .set({ dealId: null })
+        .where(and(eq(calendarEvents.organizationId, organizationId), eq(calendarEvents.dealId, id)));
+      const result = await tx
+        .delete(deals)
+        .where(and(eq(deals.organizationId, organizationId), eq(deals.id, id)));
+      return (result.rowCount ?? 0) > 0;
+    });
   }
 
-  // Email Templates
-  async getAllEmailTemplates(): Promise<EmailTemplate[]> {
-    return await db.select().from(emailTemplates).orderBy(emailTemplates.createdAt);
+  // Oldest first, so each deal's transitions read as its path through the pipeline
+  async getDealStageTransitions(organizationId: number, dealId?: number): Promise<DealStageTransition[]> {
+    const conditions = [eq(dealStageTransitions.organizationId, organizationId)];
+    if (dealId) {
+      conditions.push(eq(dealStageTransitions.dealId, dealId));
+    }
+    return await db
+      .select()
+      .from(dealStageTransitions)
+      .where(and(...conditions))
+      .orderBy(dealStageTransitions.createdAt, dealStageTransitions.id);
   }
 
-  async getEmailTemplate(id: number): Promise<EmailTemplate | undefined> {
-    const [template] = await db.select().from(emailTemplates).where(eq(emailTemplates.id, id));
-    return template || undefined;
+  async getDealLineItems(organizationId: number, dealId?: number): Promise<DealLineItem[]> {
+    const conditions = [eq(dealLineItems.organizationId, organizationId)];
+    if (dealId) {
+      conditions.push(eq(dealLineItems.dealId, dealId));
+    }
+    return await db
+      .select()
+      .from(dealLineItems)
+      .where(and(...conditions))
+      .orderBy(dealLineItems.dealId, dealLineItems.sortOrder, dealLineItems.id);
   }
 
-  async createEmailTemplate(insertTemplate: InsertEmailTemplate): Promise<EmailTemplate> {
-    const [template] = await db
-      .insert(emailTemplates)
+  // Products
+  async getProducts(organizationId: number): Promise<Product[]> {
+    return await db
+      .select()
+      .from(products)
+      .where(eq(products.organizationId, organizationId))
+      .orderBy(products.name);
+  }
+
+  async getProduct(organizationId: number, id: number): Promise<Product | undefined> {
+    const [product] = await db
+      .select()
+      .from(products)
+      .where(and(eq(products.organizationId, organizationId), eq(products.id, id)));
+    return product || undefined;
+  }
+
+  async createProduct(organizationId: number, insertProduct: InsertProduct): Promise<Product> {
+    const [product] = await db
+      .insert(products)
       .values({
-        ...insertTemplate,
+        ...insertProduct,
+        organizationId,
         createdAt: new Date(),
       })
       .returning();
-    return template;
+    return product;
   }
 
-  async updateEmailTemplate(id: number, templateUpdate: Partial<InsertEmailTemplate>): Promise<EmailTemplate | undefined> {
-    const [template] = await db
-      .update(emailTemplates)
-      .set(templateUpdate)
-      .where(eq(emailTemplates.id, id))
+  async updateProduct(organizationId: number, id: number, productUpdate: Partial<InsertProduct>): Promise<Product | undefined> {
+    const [product] = await db
+      .update(products)
+      .set(productUpdate)
+      .where(and(eq(products.organizationId, organizationId), eq(products.id, id)))
       .returning();
-    return template || undefined;
+    return product || undefined;
   }
 
-  async deleteEmailTemplate(id: number): Promise<boolean> {
-    const result = await db.delete(emailTemplates).where(eq(emailTemplates.id, id));
+  async deleteProduct(organizationId: number, id: number): Promise<boolean> {
+    const result = await db
+      .delete(products)
+      .where(and(eq(products.organizationId, organizationId), eq(products.id, id)));
     return (result.rowCount ?? 0) > 0;
   }
 
-  // WhatsApp Templates
-  async getAllWhatsappTemplates(): Promise<WhatsappTemplate[]> {
-    return await db.select().from(whatsappTemplates).orderBy(whatsappTemplates.createdAt);
+  async isProductInUse(organizationId: number, id: number): Promise<boolean> {
+    const [line] = await db
+      .select({ id: dealLineItems.id })
+      .from(dealLineItems)
+      .where(and(eq(dealLineItems.organizationId, organizationId), eq(dealLineItems.productId, id)))
+      .limit(1);
+    return !!line;
   }
 
-  async getWhatsappTemplate(id: number): Promise<WhatsappTemplate | undefined> {
-    const [template] = await db
+  // Quotes
+  async getDealQuotes(organizationId: number, dealId: number): Promise<Quote[]> {
+    return await db
       .select()
-      .from(whatsappTemplates)
-      .where(eq(whatsappTemplates.id, id));
-    return template || undefined;
+      .from(quotes)
+      .where(and(eq(quotes.organizationId, organizationId), eq(quotes.dealId, dealId)))
+      .orderBy(desc(quotes.version));
   }
 
-  async createWhatsappTemplate(insertTemplate: InsertWhatsappTemplate): Promise<WhatsappTemplate> {
-    const [template] = await db
-      .insert(whatsappTemplates)
-      .values({
-        ...insertTemplate,
-        organizationId: 1, // Default organization for now
-        createdAt: new Date(),
-      })
-      .returning();
-    return template;
+  async getQuote(organizationId: number, id: number): Promise<Quote | undefined> {
+    const [quote] = await db
+      .select()
+      .from(quotes)
+      .where(and(eq(quotes.organizationId, organizationId), eq(quotes.id, id)));
+    return quote || undefined;
   }
 
-  async updateWhatsappTemplate(id: number, templateUpdate: Partial<InsertWhatsappTemplate>): Promise<WhatsappTemplate | undefined> {
-    const [template] = await db
-      .update(whatsappTemplates)
-      .set({
-        ...templateUpdate,
-        updatedAt: new Date(),
-      })
-      .where(eq(whatsappTemplates.id, id))
+  // The deal row is locked so two quotes generated at once get distinct versions,
+  // and the sequence is bumped in place so numbers are never handed out twice
+  async createQuote(organizationId: number, insertQuote: Omit<InsertQuote, "organizationId" | "quoteNumber" | "version">): Promise<Quote | undefined> {
+    return await db.transaction(async (tx) => {
+      const [deal] = await tx
+        .select({ id: deals.id })
+        .from(deals)
+        .where(and(eq(deals.organizationId, organizationId), eq(deals.id, insertQuote.dealId)))
+        .for("update");
+      if (!deal) {
+        return undefined;
+      }
+
+      const [latest] = await tx
+        .select({ quoteNumber: quotes.quoteNumber, version: quotes.version })
+        .from(quotes)
+        .where(and(eq(quotes.organizationId, organizationId), eq(quotes.dealId, deal.id)))
+        .orderBy(desc(quotes.version))
+        .limit(1);
+
+      let quoteNumber = latest?.quoteNumber;
+      if (!quoteNumber) {
+        const [organization] = await tx
+          .update(organizations)
+          .set({ quoteSequence: sql`${organizations.quoteSequence} + 1` })
+          .where(eq(organizations.id, organizationId))
+          .returning({ quoteSequence: organizations.quoteSequence });
+        quoteNumber = `Q-${String(organization.quoteSequence).padStart(5, "0")}`;
+      }
+
+      const [quote] = await tx
+        .insert(quotes)
+        .values({
+          ...insertQuote,
+          organizationId,
+          quoteNumber,
+          version: (latest?.version ?? 0) + 1,
+          createdAt: new Date(),
+        })
+        .returning();
+      return quote;
+    });
+  }
+
+  async updateQuote(organizationId: number, id: number, quoteUpdate: Partial<InsertQuote>): Promise<Quote | undefined> {
+    const [quote] = await db
+      .update(quotes)
+      .set(quoteUpdate)
+      .where(and(eq(quotes.organizationId, organizationId), eq(quotes.id, id)))
       .returning();
-    return template || undefined;
+    return quote || undefined;
   }
 
-  async deleteWhatsappTemplate(id: number): Promise<boolean> {
-    const result = await db.delete(whatsappTemplates).where(eq(whatsappTemplates.id, id));
-    return (result.rowCount ?? 0) > 0;
+  // Pipelines
+  async getPipelines(organizationId: number): Promise<Pipeline[]> {
+    return await db
+      .select()
+      .from(pipelines)
+      .where(eq(pipelines.organizationId, organizationId))
+      .orderBy(pipelines.sortOrder, pipelines.id);
   }
 
-  // AI Results Cache
-  async getCachedAiResult(contactId: number, resultType: string, purpose?: string): Promise<AiResult | undefined> {
-    const conditions = [
-      eq(aiResults.contactId, contactId),
-      eq(aiResults.resultType, resultType)
-    ];
-    
-    if (purpose) {
-      conditions.push(eq(aiResults.purpose, purpose));
+  async getPipeline(organizationId: number, id: number): Promise<Pipeline | undefined> {
+    const [pipeline] = await db
+      .select()
+      .from(pipelines)
+      .where(and(eq(pipelines.organizationId, organizationId), eq(pipelines.id, id)));
+    return pipeline || undefined;
+  }
+
+  async getPipelineStages(organizationId: number, pipelineId?: number): Promise<PipelineStage[]> {
+    const conditions = [eq(pipelineStages.organizationId, organizationId)];
+
+    if (pipelineId) {
+      conditions.push(eq(pipelineStages.pipelineId, pipelineId));
     }
 
-    const [result] = await db
+    return await db
       .select()
-      .from(aiResults)
+      .from(pipelineStages)
       .where(and(...conditions))
-      .orderBy(desc(aiResults.createdAt))
-      .limit(1);
-    
+      .orderBy(pipelineStages.pipelineId, pipelineStages.sortOrder, pipelineStages.id);
+  }
+
+  async getPipelineStage(organizationId: number, id: number): Promise<PipelineStage | undefined> {
+    const [stage] = await db
+      .select()
+      .from(pipelineStages)
+      .where(and(eq(pipelineStages.organizationId, organizationId), eq(pipelineStages.id, id)));
+    return stage || undefined;
+  }
+
+  // Creates the first pipeline for an organization and moves its existing deals
+  // onto it by their old stage key. The organization row is locked so two
+  // concurrent first requests can't both create one. Returns false if a
+  // pipeline already existed.
+  async createDefaultPipeline(
+    organizationId: number,
+    insertPipeline: InsertPipeline,
+    insertStages: (InsertPipelineStage & { legacyKey: string })[]
+  ): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      await tx.select({ id: organizations.id }).from(organizations).where(eq(organizations.id, organizationId)).for("update");
+
+      const [existing] = await tx.select({ id: pipelines.id }).from(pipelines).where(eq(pipelines.organizationId, organizationId)).limit(1);
+      if (existing) {
+        return false;
+      }
+
+      const [pipeline] = await tx
+        .insert(pipelines)
+        .values({ ...insertPipeline, organizationId, isDefault: true, createdAt: new Date() })
+        .returning();
+
+      const stages = await tx
+        .insert(pipelineStages)
+        .values(insertStages.map(({ legacyKey, ...stage }, index) => ({
+          ...stage,
+          organizationId,
+          pipelineId: pipeline.id,
+          sortOrder: index,
+          createdAt: new Date(),
+        })))
+        .returning();
+
+      for (let index = 0; index < stages.length; index++) {
+        const stage = stages[index];
+        await tx
+          .update(deals)
+          .set({ stageId: stage.id })
+          .where(and(
+            eq(deals.organizationId, organizationId),
+            isNull(deals.stageId),
+            eq(deals.legacyStage, insertStages[index].legacyKey)
+          ));
+      }
+
+      // Anything with an unknown or missing stage starts at the beginning
+      await tx
+        .update(deals)
+        .set({ stageId: stages[0].id })
+        .where(and(eq(deals.organizationId, organizationId), isNull(deals.stageId)));
+
+      return true;
+    });
+  }
+
+  // Saves a pipeline and its ordered stages in one transaction. Callers check
+  // beforehand that removed stages have no deals.
+  async savePipeline(organizationId: number, id: number | null, input: PipelineInput): Promise<Pipeline | undefined> {
+    return await db.transaction(async (tx) => {
+      const { stages: inputStages, ...pipelineData } = input;
+
+      let pipeline: Pipeline | undefined;
+      if (id === null) {
+        [pipeline] = await tx
+          .insert(pipelines)
+          .values({ ...pipelineData, organizationId, createdAt: new Date() })
+          .returning();
+      } else {
+        [pipeline] = await tx
+          .update(pipelines)
+          .set(pipelineData)
+          .where(and(eq(pipelines.organizationId, organizationId), eq(pipelines.id, id)))
+          .returning();
+      }
+      if (!pipeline) {
+        return undefined;
+      }
+
+      if (pipelineData.isDefault) {
+        await tx
+          .update(pipelines)
+          .set({ isDefault: false })
+          .where(and(eq(pipelines.organizationId, organizationId), ne(pipelines.id, pipeline.id)));
+      }
+
+      const keptIds = inputStages.map(stage => stage.id).filter((stageId): stageId is number => !!stageId);
+      await tx
+        .delete(pipelineStages)
+        .where(and(
+          eq(pipelineStages.organizationId, organizationId),
+          eq(pipelineStages.pipelineId, pipeline.id),
+          keptIds.length > 0 ? notInArray(pipelineStages.id, keptIds) : undefined
+        ));
+
+      for (let index = 0; index < inputStages.length; index++) {
+        const { id: stageId, ...stage } = inputStages[index];
+        if (stageId) {
+          await tx
+            .update(pipelineStages)
+            .set({ ...stage, sortOrder: index })
+            .where(and(
+              eq(pipelineStages.organizationId, organizationId),
+              eq(pipelineStages.pipelineId, pipeline.id),
+              eq(pipelineStages.id, stageId)
+            ));
+        } else {
+          await tx
+            .insert(pipelineStages)
+            .values({ ...stage, organizationId, pipelineId: pipeline.id, sortOrder: index, createdAt: new Date() });
+        }
+      }
+
+      return pipeline;
+    });
+  }
+
+  async deletePipeline(organizationId: number, id: number): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      await tx
+        .delete(pipelineStages)
+        .where(and(eq(pipelineStages.organizationId, organizationId), eq(pipelineStages.pipelineId, id)));
+      const result = await tx
+        .delete(pipelines)
+        .where(and(eq(pipelines.organizationId, organizationId), eq(pipelines.id, id)));
+      return (result.rowCount ?? 0) > 0;
+    });
+  }
+
+  // Email Templates
+  async getAllEmailTemplates(organizationId: number): Promise<EmailTemplate[]> {
+    return await db
+      .select()
+      .from(emailTemplates)
+      .where(eq(emailTemplates.organizationId, organizationId))
+      .orderBy(emailTemplates.createdAt);
+  }
+
+  async getEmailTemplate(organizationId: number, id: number): Promise<EmailTemplate | undefined> {
+    const [template] = await db
+      .select()
+      .from(emailTemplates)
+      .where(and(eq(emailTemplates.organizationId, organizationId), eq(emailTemplates.id, id)));
+    return template || undefined;
+  }
+
+  async createEmailTemplate(organizationId: number, insertTemplate: InsertEmailTemplate): Promise<EmailTemplate> {
+    const [template] = await db
+      .insert(emailTemplates)
+      .values({
+        ...insertTemplate,
+        organizationId,
+        createdAt: new Date(),
+      })
+      .returning();
+    return template;
+  }
+
+  async updateEmailTemplate(organizationId: number, id: number, templateUpdate: Partial<InsertEmailTemplate>): Promise<EmailTemplate | undefined> {
+    const [template] = await db
+      .update(emailTemplates)
+      .set(templateUpdate)
+      .where(and(eq(emailTemplates.organizationId, organizationId), eq(emailTemplates.id, id)))
+      .returning();
+    return template || undefined;
+  }
+
+  async deleteEmailTemplate(organizationId: number, id: number): Promise<boolean> {
+    const result = await db
+      .delete(emailTemplates)
+      .where(and(eq(emailTemplates.organizationId, organizationId), eq(emailTemplates.id, id)));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  // WhatsApp Templates
+  async getAllWhatsappTemplates(organizationId: number): Promise<WhatsappTemplate[]> {
+    return await db
+      .select()
+      .from(whatsappTemplates)
+      .where(eq(whatsappTemplates.organizationId, organizationId))
+      .orderBy(whatsappTemplates.createdAt);
+  }
+
+  async getWhatsappTemplate(organizationId: number, id: number): Promise<WhatsappTemplate | undefined> {
+    const [template] = await db
+      .select()
+      .from(whatsappTemplates)
+      .where(and(eq(whatsappTemplates.organizationId, organizationId), eq(whatsappTemplates.id, id)));
+    return template || undefined;
+  }
+
+  async createWhatsappTemplate(organizationId: number, insertTemplate: InsertWhatsappTemplate): Promise<WhatsappTemplate> {
+    const [template] = await db
+      .insert(whatsappTemplates)
+      .values({
+        ...insertTemplate,
+        organizationId,
+        createdAt: new Date(),
+      })
+      .returning();
+    return template;
+  }
+
+  async updateWhatsappTemplate(organizationId: number, id: number, templateUpdate: Partial<InsertWhatsappTemplate>): Promise<WhatsappTemplate | undefined> {
+    const [template] = await db
+      .update(whatsappTemplates)
+      .set({
+        ...templateUpdate,
+        updatedAt: new Date(),
+      })
+      .where(and(eq(whatsappTemplates.organizationId, organizationId), eq(whatsappTemplates.id, id)))
+      .returning();
+    return template || undefined;
+  }
+
+  async deleteWhatsappTemplate(organizationId: number, id: number): Promise<boolean> {
+    const result = await db
+      .delete(whatsappTemplates)
+      .where(and(eq(whatsappTemplates.organizationId, organizationId), eq(whatsappTemplates.id, id)));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  // Custom Field Definitions
+  async getCustomFieldDefinitions(organizationId: number, entityType?: string): Promise<CustomFieldDefinition[]> {
+    const conditions = [eq(customFieldDefinitions.organizationId, organizationId)];
+
+    if (entityType) {
+      conditions.push(eq(customFieldDefinitions.entityType, entityType));
+    }
+
+    return await db
+      .select()
+      .from(customFieldDefinitions)
+      .where(and(...conditions))
+      .orderBy(customFieldDefinitions.sortOrder, customFieldDefinitions.id);
+  }
+
+  async createCustomFieldDefinition(organizationId: number, insertDefinition: InsertCustomFieldDefinition): Promise<CustomFieldDefinition> {
+    const [definition] = await db
+      .insert(customFieldDefinitions)
+      .values({
+        ...insertDefinition,
+        organizationId,
+        createdAt: new Date(),
+      })
+      .returning();
+    return definition;
+  }
+
+  async updateCustomFieldDefinition(organizationId: number, id: number, definitionUpdate: Partial<InsertCustomFieldDefinition>): Promise<CustomFieldDefinition | undefined> {
+    const [definition] = await db
+      .update(customFieldDefinitions)
+      .set(definitionUpdate)
+      .where(and(eq(customFieldDefinitions.organizationId, organizationId), eq(customFieldDefinitions.id, id)))
+      .returning();
+    return definition || undefined;
+  }
+
+  async deleteCustomFieldDefinition(organizationId: number, id: number): Promise<boolean> {
+    const result = await db
+      .delete(customFieldDefinitions)
+      .where(and(eq(customFieldDefinitions.organizationId, organizationId), eq(customFieldDefinitions.id, id)));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  // Export audit log
+  async getExportLogs(organizationId: number, limit = 100): Promise<ExportLog[]> {
+    return await db
+      .select()
+      .from(exportLogs)
+      .where(eq(exportLogs.organizationId, organizationId))
+      .orderBy(desc(exportLogs.createdAt))
+      .limit(limit);
+  }
+
+  async createExportLog(organizationId: number, insertLog: Omit<InsertExportLog, "organizationId">): Promise<ExportLog> {
+    const [log] = await db
+      .insert(exportLogs)
+      .values({
+        ...insertLog,
+        organizationId,
+        createdAt: new Date(),
+      })
+      .returning();
+    return log;
+  }
+
+  // Background jobs
+  // A job whose idempotency key was already used is not inserted again; the
+  // existing job is returned so callers can report on it
+  async enqueueJob(organizationId: number, insertJob: Omit<InsertJob, "organizationId">): Promise<Job> {
+    const [job] = await db
+      .insert(jobs)
+      .values({
+        ...insertJob,
+        organizationId,
+        createdAt: new Date(),
+      })
+      .onConflictDoNothing({ target: [jobs.organizationId, jobs.idempotencyKey] })
+      .returning();
+    if (job) {
+      return job;
+    }
+
+    const [existing] = await db
+      .select()
+      .from(jobs)
+      .where(and(eq(jobs.organizationId, organizationId), eq(jobs.idempotencyKey, insertJob.idempotencyKey!)));
+    return existing;
+  }
+
+  async getJobs(organizationId: number, status?: string, limit = 100): Promise<Job[]> {
+    const conditions = [eq(jobs.organizationId, organizationId)];
+    if (status) {
+      conditions.push(eq(jobs.status, status));
+    }
+
+    return await db
+      .select()
+      .from(jobs)
+      .where(and(...conditions))
+      .orderBy(desc(jobs.createdAt))
+      .limit(limit);
+  }
+
+  async getJob(organizationId: number, id: number): Promise<Job | undefined> {
+    const [job] = await db
+      .select()
+      .from(jobs)
+      .where(and(eq(jobs.organizationId, organizationId), eq(jobs.id, id)));
+    return job || undefined;
+  }
+
+  async updateJob(organizationId: number, id: number, jobUpdate: Partial<InsertJob>): Promise<Job | undefined> {
+    const [job] = await db
+      .update(jobs)
+      .set(jobUpdate)
+      .where(and(eq(jobs.organizationId, organizationId), eq(jobs.id, id)))
+      .returning();
+    return job || undefined;
+  }
+
+  // Only dead jobs can be retried; they start over with a fresh attempt count
+  async retryJob(organizationId: number, id: number): Promise<Job | undefined> {
+    const [job] = await db
+      .update(jobs)
+      .set({ status: "queued", attempts: 0, runAt: new Date(), lastError: null, lockedAt: null })
+      .where(and(eq(jobs.organizationId, organizationId), eq(jobs.id, id), eq(jobs.status, "dead")))
+      .returning();
+    return job || undefined;
+  }
+
+  // Claims queued jobs that are due, plus running jobs locked before
+  // staleBefore (their worker died). SKIP LOCKED lets several workers claim
+  // side by side without handing the same job out twice.
+  async claimDueJobs(limit: number, staleBefore: Date): Promise<Job[]> {
+    return await db.transaction(async (tx) => {
+      const now = new Date();
+      const due = await tx
+        .select({ id: jobs.id })
+        .from(jobs)
+        .where(or(
+          and(eq(jobs.status, "queued"), lte(jobs.runAt, now)),
+          and(eq(jobs.status, "running"), lt(jobs.lockedAt, staleBefore))
+        ))
+        .orderBy(jobs.runAt)
+        .limit(limit)
+        .for("update", { skipLocked: true });
+      if (due.length === 0) {
+        return [];
+      }
+
+      return await tx
+        .update(jobs)
+        .set({ status: "running", lockedAt: now, attempts: sql`${jobs.attempts} + 1` })
+        .where(inArray(jobs.id, due.map(job => job.id)))
+        .returning();
+    });
+  }
+
+  // Campaign sequences
+  async getCampaignSequences(organizationId: number): Promise<CampaignSequenceRecord[]> {
+    return await db
+      .select()
+      .from(campaignSequences)
+      .where(eq(campaignSequences.organizationId, organizationId))
+      .orderBy(campaignSequences.id);
+  }
+
+  async getCampaignSequence(organizationId: number, id: number): Promise<CampaignSequenceRecord | undefined> {
+    const [sequence] = await db
+      .select()
+      .from(campaignSequences)
+      .where(and(eq(campaignSequences.organizationId, organizationId), eq(campaignSequences.id, id)));
+    return sequence || undefined;
+  }
+
+  // Locks the organization row so two first requests can't both seed
+  async createDefaultCampaignSequences(organizationId: number, insertSequences: Omit<InsertCampaignSequence, "organizationId">[]): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      await tx.select({ id: organizations.id }).from(organizations).where(eq(organizations.id, organizationId)).for("update");
+
+      const [existing] = await tx.select({ id: campaignSequences.id }).from(campaignSequences).where(eq(campaignSequences.organizationId, organizationId)).limit(1);
+      if (existing) {
+        return false;
+      }
+
+      await tx
+        .insert(campaignSequences)
+        .values(insertSequences.map(sequence => ({ ...sequence, organizationId, createdAt: new Date(), updatedAt: new Date() })));
+      return true;
+    });
+  }
+
+  async createCampaignSequence(organizationId: number, insertSequence: Omit<InsertCampaignSequence, "organizationId">): Promise<CampaignSequenceRecord> {
+    const [sequence] = await db
+      .insert(campaignSequences)
+      .values({
+        ...insertSequence,
+        organizationId,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .returning();
+    return sequence;
+  }
+
+  async updateCampaignSequence(organizationId: number, id: number, sequenceUpdate: Partial<InsertCampaignSequence>): Promise<CampaignSequenceRecord | undefined> {
+    const [sequence] = await db
+      .update(campaignSequences)
+      .set({ ...sequenceUpdate, updatedAt: new Date() })
+      .where(and(eq(campaignSequences.organizationId, organizationId), eq(campaignSequences.id, id)))
+      .returning();
+    return sequence || undefined;
+  }
+
+  // Finished enrollments go with the sequence; callers check for open ones first
+  async deleteCampaignSequence(organizationId: number, id: number): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const sequenceSends = tx.select({ id: campaignSends.id }).from(campaignSends)
+        .where(and(eq(campaignSends.organizationId, organizationId), eq(campaignSends.sequenceId, id)));
+      await tx.update(emailMessages).set({ campaignSendId: null })
+        .where(and(eq(emailMessages.organizationId, organizationId), inArray(emailMessages.campaignSendId, sequenceSends)));
+      await tx.delete(campaignSends)
+        .where(and(eq(campaignSends.organizationId, organizationId), eq(campaignSends.sequenceId, id)));
+      await tx.delete(campaignEnrollments)
+        .where(and(eq(campaignEnrollments.organizationId, organizationId), eq(campaignEnrollments.sequenceId, id)));
+      await tx.update(bookingTypes).set({ sequenceId: null })
+        .where(and(eq(bookingTypes.organizationId, organizationId), eq(bookingTypes.sequenceId, id)));
+      const result = await tx
+        .delete(campaignSequences)
+        .where(and(eq(campaignSequences.organizationId, organizationId), eq(campaignSequences.id, id)));
+      return (result.rowCount ?? 0) > 0;
+    });
+  }
+
+  // Campaign enrollments
+  async getCampaignEnrollments(
+    organizationId: number,
+    filters: { sequenceId?: number; contactId?: number; statuses?: EnrollmentStatus[] } = {}
+  ): Promise<CampaignEnrollment[]> {
+    const conditions = [eq(campaignEnrollments.organizationId, organizationId)];
+    if (filters.sequenceId) {
+      conditions.push(eq(campaignEnrollments.sequenceId, filters.sequenceId));
+    }
+    if (filters.contactId) {
+      conditions.push(eq(campaignEnrollments.contactId, filters.contactId));
+    }
+    if (filters.statuses) {
+      conditions.push(inArray(campaignEnrollments.status, filters.statuses));
+    }
+
+    return await db
+      .select()
+      .from(campaignEnrollments)
+      .where(and(...conditions))
+      .orderBy(desc(campaignEnrollments.enrolledAt));
+  }
+
+  async getCampaignEnrollment(organizationId: number, id: number): Promise<CampaignEnrollment | undefined> {
+    const [enrollment] = await db
+      .select()
+      .from(campaignEnrollments)
+      .where(and(eq(campaignEnrollments.organizationId, organizationId), eq(campaignEnrollments.id, id)));
+    return enrollment || undefined;
+  }
+
+  // Returns undefined when the contact already has an open enrollment in the
+  // sequence. The first job gets the new enrollment's id in its payload.
+  async createCampaignEnrollment(organizationId: number, insertEnrollment: Omit<InsertCampaignEnrollment, "organizationId">, firstJob: NewJob): Promise<CampaignEnrollment | undefined> {
+    return await db.transaction(async (tx) => {
+      const [enrollment] = await tx
+        .insert(campaignEnrollments)
+        .values({ ...insertEnrollment, organizationId, enrolledAt: new Date() })
+        .onConflictDoNothing()
+        .returning();
+      if (!enrollment) {
+        return undefined;
+      }
+
+      const [job] = await tx
+        .insert(jobs)
+        .values({ ...firstJob, organizationId, payload: { ...firstJob.payload, enrollmentId: enrollment.id }, createdAt: new Date() })
+        .returning();
+      const [scheduled] = await tx
+        .update(campaignEnrollments)
+        .set({ nextJobId: job.id })
+        .where(eq(campaignEnrollments.id, enrollment.id))
+        .returning();
+      return scheduled;
+    });
+  }
+
+  // nextJob replaces whatever job the enrollment was waiting on; null leaves it waiting on nothing
+  async updateCampaignEnrollment(organizationId: number, id: number, enrollmentUpdate: Partial<InsertCampaignEnrollment>, nextJob: NewJob | null): Promise<CampaignEnrollment | undefined> {
+    return await db.transaction(async (tx) => {
+      const [existing] = await tx
+        .select({ id: campaignEnrollments.id })
+        .from(campaignEnrollments)
+        .where(and(eq(campaignEnrollments.organizationId, organizationId), eq(campaignEnrollments.id, id)))
+        .for("update");
+      if (!existing) {
+        return undefined;
+      }
+
+      const [job] = nextJob
+        ? await tx.insert(jobs).values({ ...nextJob, organizationId, createdAt: new Date() }).returning()
+        : [];
+      const [enrollment] = await tx
+        .update(campaignEnrollments)
+        .set({ ...enrollmentUpdate, nextJobId: job?.id ?? null })
+        .where(eq(campaignEnrollments.id, existing.id))
+        .returning();
+      return enrollment;
+    });
+  }
+
+  // Campaign sends
+  async createCampaignSend(organizationId: number, insertSend: Omit<InsertCampaignSend, "organizationId">): Promise<CampaignSend> {
+    const [send] = await db
+      .insert(campaignSends)
+      .values({ ...insertSend, organizationId })
+      .returning();
+    return send;
+  }
+
+  async getCampaignSends(organizationId: number, sequenceId: number): Promise<CampaignSend[]> {
+    return await db
+      .select()
+      .from(campaignSends)
+      .where(and(eq(campaignSends.organizationId, organizationId), eq(campaignSends.sequenceId, sequenceId)));
+  }
+
+  async updateCampaignSend(organizationId: number, id: number, sendUpdate: Partial<InsertCampaignSend>): Promise<CampaignSend | undefined> {
+    const [send] = await db
+      .update(campaignSends)
+      .set(sendUpdate)
+      .where(and(eq(campaignSends.organizationId, organizationId), eq(campaignSends.id, id)))
+      .returning();
+    return send || undefined;
+  }
+
+  // The email logged for the send stays, without the link back to it
+  async deleteCampaignSend(organizationId: number, id: number): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      await tx.update(emailMessages).set({ campaignSendId: null })
+        .where(and(eq(emailMessages.organizationId, organizationId), eq(emailMessages.campaignSendId, id)));
+      const result = await tx
+        .delete(campaignSends)
+        .where(and(eq(campaignSends.organizationId, organizationId), eq(campaignSends.id, id)));
+      return (result.rowCount ?? 0) > 0;
+    });
+  }
+
+  // Every step the enrollment has received so far shares the conversion
+  async markCampaignSendsConverted(organizationId: number, enrollmentId: number): Promise<number> {
+    const result = await db
+      .update(campaignSends)
+      .set({ convertedAt: new Date() })
+      .where(and(
+        eq(campaignSends.organizationId, organizationId),
+        eq(campaignSends.enrollmentId, enrollmentId),
+        isNull(campaignSends.convertedAt)
+      ));
+    return result.rowCount ?? 0;
+  }
+
+  // Email log
+  async createEmailMessage(organizationId: number, insertMessage: Omit<InsertEmailMessage, "organizationId">): Promise<EmailMessage> {
+    const [message] = await db
+      .insert(emailMessages)
+      .values({ ...insertMessage, organizationId })
+      .returning();
+    return message;
+  }
+
+  async getEmailMessage(organizationId: number, id: number): Promise<EmailMessage | undefined> {
+    const [message] = await db
+      .select()
+      .from(emailMessages)
+      .where(and(eq(emailMessages.organizationId, organizationId), eq(emailMessages.id, id)));
+    return message || undefined;
+  }
+
+  async getEmailMessageByToken(trackingToken: string): Promise<EmailMessage | undefined> {
+    const [message] = await db
+      .select()
+      .from(emailMessages)
+      .where(eq(emailMessages.trackingToken, trackingToken));
+    return message || undefined;
+  }
+
+  async getEmailMessageByProviderId(providerMessageId: string): Promise<EmailMessage | undefined> {
+    const [message] = await db
+      .select()
+      .from(emailMessages)
+      .where(eq(emailMessages.providerMessageId, providerMessageId));
+    return message || undefined;
+  }
+
+  async getContactEmailMessages(organizationId: number, contactId: number): Promise<EmailMessage[]> {
+    return await db
+      .select()
+      .from(emailMessages)
+      .where(and(eq(emailMessages.organizationId, organizationId), eq(emailMessages.contactId, contactId)))
+      .orderBy(desc(emailMessages.sentAt));
+  }
+
+  // Mailbox emails thread onto earlier ones by Message-ID. Emails sent through
+  // Mailgun are known by the id Mailgun gave them, which replies quote back.
+  async getEmailMessagesByHeaderIds(organizationId: number, messageIds: string[]): Promise<EmailMessage[]> {
+    if (messageIds.length === 0) return [];
+    return await db
+      .select()
+      .from(emailMessages)
+      .where(and(
+        eq(emailMessages.organizationId, organizationId),
+        or(inArray(emailMessages.messageIdHeader, messageIds), inArray(emailMessages.providerMessageId, messageIds))
+      ));
+  }
+
+  // An email already logged under the same Message-ID, e.g. one two users
+  // both received, is not logged again; undefined is returned instead
+  async createSyncedEmailMessage(organizationId: number, insertMessage: Omit<InsertEmailMessage, "organizationId">): Promise<EmailMessage | undefined> {
+    const [message] = await db
+      .insert(emailMessages)
+      .values({ ...insertMessage, organizationId })
+      .onConflictDoNothing({ target: [emailMessages.organizationId, emailMessages.messageIdHeader] })
+      .returning();
+    return message || undefined;
+  }
+
+  async updateEmailMessage(organizationId: number, id: number, messageUpdate: Partial<InsertEmailMessage>): Promise<EmailMessage | undefined> {
+    const [message] = await db
+      .update(emailMessages)
+      .set(messageUpdate)
+      .where(and(eq(emailMessages.organizationId, organizationId), eq(emailMessages.id, id)))
+      .returning();
+    return message || undefined;
+  }
+
+  async updateContactEmailEngagement(organizationId: number, contactId: number, engagement: EmailEngagement): Promise<void> {
+    await db
+      .update(contacts)
+      .set({ emailEngagement: engagement })
+      .where(and(eq(contacts.organizationId, organizationId), eq(contacts.id, contactId)));
+  }
+
+  // Consent and suppression list
+  async updateContactConsent(organizationId: number, contactId: number, consent: ContactConsent): Promise<Contact | undefined> {
+    const [contact] = await db
+      .update(contacts)
+      .set({ consent })
+      .where(and(eq(contacts.organizationId, organizationId), eq(contacts.id, contactId)))
+      .returning();
+    return contact || undefined;
+  }
+
+  async getSuppressions(organizationId: number, channel?: ConsentChannel): Promise<Suppression[]> {
+    const conditions = [eq(suppressions.organizationId, organizationId)];
+    if (channel) conditions.push(eq(suppressions.channel, channel));
+    return await db
+      .select()
+      .from(suppressions)
+      .where(and(...conditions))
+      .orderBy(desc(suppressions.createdAt));
+  }
+
+  async getSuppression(organizationId: number, channel: ConsentChannel, address: string): Promise<Suppression | undefined> {
+    const [suppression] = await db
+      .select()
+      .from(suppressions)
+      .where(and(
+        eq(suppressions.organizationId, organizationId),
+        eq(suppressions.channel, channel),
+        eq(suppressions.address, address)
+      ));
+    return suppression || undefined;
+  }
+
+  async getSuppressedAddresses(organizationId: number, channel: ConsentChannel, addresses: string[]): Promise<Set<string>> {
+    if (addresses.length === 0) return new Set();
+    const rows = await db
+      .select({ address: suppressions.address })
+      .from(suppressions)
+      .where(and(
+        eq(suppressions.organizationId, organizationId),
+        eq(suppressions.channel, channel),
+        inArray(suppressions.address, addresses)
+      ));
+    return new Set(rows.map(row => row.address));
+  }
+
+  // An address is on the list once; suppressing it again records the latest reason
+  async createSuppression(organizationId: number, insertSuppression: Omit<InsertSuppression, "organizationId">): Promise<Suppression> {
+    const [suppression] = await db
+      .insert(suppressions)
+      .values({ ...insertSuppression, organizationId })
+      .onConflictDoUpdate({
+        target: [suppressions.organizationId, suppressions.channel, suppressions.address],
+        set: {
+          reason: insertSuppression.reason,
+          source: insertSuppression.source ?? null,
+          contactId: sql`coalesce(excluded.contact_id, ${suppressions.contactId})`,
+        },
+      })
+      .returning();
+    return suppression;
+  }
+
+  async deleteSuppression(organizationId: number, id: number): Promise<boolean> {
+    const result = await db
+      .delete(suppressions)
+      .where(and(eq(suppressions.organizationId, organizationId), eq(suppressions.id, id)));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async deleteSuppressionsForAddress(organizationId: number, channel: ConsentChannel, address: string, reasons: string[]): Promise<number> {
+    const result = await db
+      .delete(suppressions)
+      .where(and(
+        eq(suppressions.organizationId, organizationId),
+        eq(suppressions.channel, channel),
+        eq(suppressions.address, address),
+        inArray(suppressions.reason, reasons)
+      ));
+    return result.rowCount ?? 0;
+  }
+
+  // Connected mailboxes
+  async getMailbox(organizationId: number, userId: string): Promise<Mailbox | undefined> {
+    const [mailbox] = await db
+      .select()
+      .from(mailboxes)
+      .where(and(eq(mailboxes.organizationId, organizationId), eq(mailboxes.userId, userId)));
+    return mailbox || undefined;
+  }
+
+  async getMailboxById(organizationId: number, id: number): Promise<Mailbox | undefined> {
+    const [mailbox] = await db
+      .select()
+      .from(mailboxes)
+      .where(and(eq(mailboxes.organizationId, organizationId), eq(mailboxes.id, id)));
+    return mailbox || undefined;
+  }
+
+  async upsertMailbox(organizationId: number, userId: string, insertMailbox: Omit<InsertMailbox, "organizationId" | "userId">): Promise<Mailbox> {
+    const [mailbox] = await db
+      .insert(mailboxes)
+      .values({ ...insertMailbox, organizationId, userId })
+      .onConflictDoUpdate({
+        target: mailboxes.userId,
+        set: { ...insertMailbox, organizationId, updatedAt: new Date() },
+      })
+      .returning();
+    return mailbox;
+  }
+
+  async updateMailbox(organizationId: number, id: number, mailboxUpdate: Partial<InsertMailbox>): Promise<Mailbox | undefined> {
+    const [mailbox] = await db
+      .update(mailboxes)
+      .set({ ...mailboxUpdate, updatedAt: new Date() })
+      .where(and(eq(mailboxes.organizationId, organizationId), eq(mailboxes.id, id)))
+      .returning();
+    return mailbox || undefined;
+  }
+
+  // Synced emails stay on their contacts after the mailbox is disconnected
+  async deleteMailbox(organizationId: number, id: number): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      await tx.update(emailMessages).set({ mailboxId: null })
+        .where(and(eq(emailMessages.organizationId, organizationId), eq(emailMessages.mailboxId, id)));
+      const result = await tx
+        .delete(mailboxes)
+        .where(and(eq(mailboxes.organizationId, organizationId), eq(mailboxes.id, id)));
+      return (result.rowCount ?? 0) > 0;
+    });
+  }
+
+  // Emails are matched case-insensitively; pass them lowercased
+  async getContactsByEmails(organizationId: number, emails: string[]): Promise<Contact[]> {
+    if (emails.length === 0) return [];
+    return await db
+      .select()
+      .from(contacts)
+      .where(and(eq(contacts.organizationId, organizationId), inArray(sql`lower(${contacts.email})`, emails)));
+  }
+
+  // Phone numbers are stored as typed; this narrows the contacts down to
+  // those whose digits end the same, and callers compare them normalized
+  async getContactsByPhoneSuffix(organizationId: number, digits: string): Promise<Contact[]> {
+    return await db
+      .select()
+      .from(contacts)
+      .where(and(
+        eq(contacts.organizationId, organizationId),
+        sql`regexp_replace(${contacts.phone}, '\\D', '', 'g') like ${`%${digits}`}`
+      ));
+  }
+
+  // Most recent conversation first
+  async getWhatsappConversations(organizationId: number, filters: { status?: WhatsappConversationStatus; assignedTo?: string | null } = {}): Promise<WhatsappConversation[]> {
+    const conditions = [eq(whatsappConversations.organizationId, organizationId)];
+    if (filters.status) {
+      conditions.push(eq(whatsappConversations.status, filters.status));
+    }
+    if (filters.assignedTo === null) {
+      conditions.push(isNull(whatsappConversations.assignedTo));
+    } else if (filters.assignedTo) {
+      conditions.push(eq(whatsappConversations.assignedTo, filters.assignedTo));
+    }
+
+    return await db
+      .select()
+      .from(whatsappConversations)
+      .where(and(...conditions))
+      .orderBy(sql`${whatsappConversations.lastMessageAt} desc nulls last`);
+  }
+
+  async getWhatsappConversation(organizationId: number, id: number): Promise<WhatsappConversation | undefined> {
+    const [conversation] = await db
+      .select()
+      .from(whatsappConversations)
+      .where(and(eq(whatsappConversations.organizationId, organizationId), eq(whatsappConversations.id, id)));
+    return conversation || undefined;
+  }
+
+  // A contact has one conversation; the number is updated to the one they
+  // last wrote from or were written to
+  async getOrCreateWhatsappConversation(organizationId: number, contactId: number, phone: string): Promise<WhatsappConversation> {
+    const [conversation] = await db
+      .insert(whatsappConversations)
+      .values({ organizationId, contactId, phone })
+      .onConflictDoUpdate({
+        target: [whatsappConversations.organizationId, whatsappConversations.contactId],
+        set: { phone },
+      })
+      .returning();
+    return conversation;
+  }
+
+  async updateWhatsappConversation(organizationId: number, id: number, conversationUpdate: Partial<InsertWhatsappConversation>): Promise<WhatsappConversation | undefined> {
+    const [conversation] = await db
+      .update(whatsappConversations)
+      .set({ ...conversationUpdate, updatedAt: new Date() })
+      .where(and(eq(whatsappConversations.organizationId, organizationId), eq(whatsappConversations.id, id)))
+      .returning();
+    return conversation || undefined;
+  }
+
+  // A message from the contact counts as unread and reopens the conversation
+  async recordWhatsappConversationMessage(organizationId: number, id: number, message: { at: Date; preview: string; inbound: boolean }): Promise<void> {
+    const conversation = await this.getWhatsappConversation(organizationId, id);
+    if (!conversation) return;
+
+    // Webhooks can deliver messages out of order; only a newer one moves the preview
+    const newer = !conversation.lastMessageAt || conversation.lastMessageAt <= message.at;
+    await db
+      .update(whatsappConversations)
+      .set({
+        ...(newer ? { lastMessageAt: message.at, lastMessagePreview: message.preview } : {}),
+        ...(message.inbound
+          ? {
+              lastInboundAt: !conversation.lastInboundAt || conversation.lastInboundAt < message.at ? message.at : conversation.lastInboundAt,
+              unreadCount: sql`${whatsappConversations.unreadCount} + 1`,
+              status: "open",
+            }
+          : {}),
+        updatedAt: new Date(),
+      })
+      .where(and(eq(whatsappConversations.organizationId, organizationId), eq(whatsappConversations.id, id)));
+  }
+
+  async getWhatsappMessages(organizationId: number, conversationId: number): Promise<WhatsappMessageRecord[]> {
+    return await db
+      .select()
+      .from(whatsappMessages)
+      .where(and(eq(whatsappMessages.organizationId, organizationId), eq(whatsappMessages.conversationId, conversationId)))
+      .orderBy(whatsappMessages.sentAt, whatsappMessages.id);
+  }
+
+  async getWhatsappMessageByWaId(waMessageId: string): Promise<WhatsappMessageRecord | undefined> {
+    const [message] = await db
+      .select()
+      .from(whatsappMessages)
+      .where(eq(whatsappMessages.waMessageId, waMessageId));
+    return message || undefined;
+  }
+
+  // The Cloud API retries webhooks, so a message already stored under the
+  // same id is not stored again; undefined is returned instead
+  async createWhatsappMessage(organizationId: number, insertMessage: Omit<InsertWhatsappMessage, "organizationId">): Promise<WhatsappMessageRecord | undefined> {
+    const [message] = await db
+      .insert(whatsappMessages)
+      .values({ ...insertMessage, organizationId })
+      .onConflictDoNothing({ target: whatsappMessages.waMessageId })
+      .returning();
+    return message || undefined;
+  }
+
+  async updateWhatsappMessage(organizationId: number, id: number, messageUpdate: Partial<InsertWhatsappMessage>): Promise<WhatsappMessageRecord | undefined> {
+    const [message] = await db
+      .update(whatsappMessages)
+      .set(messageUpdate)
+      .where(and(eq(whatsappMessages.organizationId, organizationId), eq(whatsappMessages.id, id)))
+      .returning();
+    return message || undefined;
+  }
+
+  // Calendar events, earliest first
+  async getCalendarEvents(organizationId: number, filters: { from?: Date; to?: Date; contactId?: number; statuses?: CalendarEventStatus[]; hostId?: string } = {}): Promise<CalendarEvent[]> {
+    const conditions = [eq(calendarEvents.organizationId, organizationId)];
+    if (filters.from) {
+      conditions.push(gte(calendarEvents.startTime, filters.from));
+    }
+    if (filters.to) {
+      conditions.push(lte(calendarEvents.startTime, filters.to));
+    }
+    if (filters.contactId) {
+      conditions.push(eq(calendarEvents.contactId, filters.contactId));
+    }
+    if (filters.statuses?.length) {
+      conditions.push(inArray(calendarEvents.status, filters.statuses));
+    }
+    if (filters.hostId) {
+      conditions.push(or(eq(calendarEvents.createdBy, filters.hostId), sql`${filters.hostId} = ANY(${calendarEvents.teamMemberIds})`)!);
+    }
+
+    return await db
+      .select()
+      .from(calendarEvents)
+      .where(and(...conditions))
+      .orderBy(calendarEvents.startTime);
+  }
+
+  async getCalendarEvent(organizationId: number, id: number): Promise<CalendarEvent | undefined> {
+    const [event] = await db
+      .select()
+      .from(calendarEvents)
+      .where(and(eq(calendarEvents.organizationId, organizationId), eq(calendarEvents.id, id)));
+    return event || undefined;
+  }
+
+  // Events that aren't cancelled and overlap [start, end), leaving out
+  // excludeId (a meeting being moved doesn't clash with itself)
+  // Without a host, every meeting in the organization
+  async getOverlappingCalendarEvents(organizationId: number, start: Date, end: Date, excludeId?: number, hostId?: string | null): Promise<CalendarEvent[]> {
+    const conditions = [
+      eq(calendarEvents.organizationId, organizationId),
+      ne(calendarEvents.status, "cancelled"),
+      lt(calendarEvents.startTime, end),
+      gt(calendarEvents.endTime, start),
+    ];
+    if (excludeId) {
+      conditions.push(ne(calendarEvents.id, excludeId));
+    }
+    if (hostId) {
+      conditions.push(or(eq(calendarEvents.createdBy, hostId), sql`${hostId} = ANY(${calendarEvents.teamMemberIds})`)!);
+    }
+
+    return await db
+      .select()
+      .from(calendarEvents)
+      .where(and(...conditions))
+      .orderBy(calendarEvents.startTime);
+  }
+
+  async createCalendarEvent(organizationId: number, insertEvent: Omit<InsertCalendarEvent, "organizationId">): Promise<CalendarEvent> {
+    const [event] = await db
+      .insert(calendarEvents)
+      .values({ ...insertEvent, organizationId })
+      .returning();
+    return event;
+  }
+
+  // Checks the hosts are still free and books the meeting in one transaction
+  async createCalendarEventIfFree(
+    organizationId: number,
+    insertEvent: Omit<InsertCalendarEvent, "organizationId">,
+    hostIds: (string | null)[]
+  ): Promise<CalendarEvent | undefined> {
+    return await db.transaction(async (tx) => {
+      if (!(await lockHostsIfFree(tx, organizationId, insertEvent.startTime, insertEvent.endTime, hostIds))) {
+        return undefined;
+      }
+
+      const [event] = await tx
+        .insert(calendarEvents)
+        .values({ ...insertEvent, organizationId })
+        .returning();
+      return event;
+    });
+  }
+
+  // Checks the hosts are still free and moves the upcoming meeting in one
+  // transaction, counting its SEQUENCE up
+  async moveCalendarEventIfFree(
+    organizationId: number,
+    id: number,
+    start: Date,
+    end: Date,
+    hostIds: (string | null)[],
+    eventUpdate: Partial<InsertCalendarEvent> = {}
+  ): Promise<CalendarEvent | undefined> {
+    return await db.transaction(async (tx) => {
+      if (!(await lockHostsIfFree(tx, organizationId, start, end, hostIds, id))) {
+        return undefined;
+      }
+
+      const [event] = await tx
+        .update(calendarEvents)
+        .set({ ...eventUpdate, startTime: start, endTime: end, sequence: sql`${calendarEvents.sequence} + 1`, updatedAt: new Date() })
+        .where(and(
+          eq(calendarEvents.organizationId, organizationId),
+          eq(calendarEvents.id, id),
+          inArray(calendarEvents.status, ["scheduled", "confirmed"])
+        ))
+        .returning();
+      return event || undefined;
+    });
+  }
+
+  async updateCalendarEvent(organizationId: number, id: number, eventUpdate: Partial<InsertCalendarEvent>): Promise<CalendarEvent | undefined> {
+    const [event] = await db
+      .update(calendarEvents)
+      .set({ ...eventUpdate, updatedAt: new Date() })
+      .where(and(eq(calendarEvents.organizationId, organizationId), eq(calendarEvents.id, id)))
+      .returning();
+    return event || undefined;
+  }
+
+  async getCalendarFeed(organizationId: number, userId: string): Promise<CalendarFeed | undefined> {
+    const [feed] = await db
+      .select()
+      .from(calendarFeeds)
+      .where(and(eq(calendarFeeds.organizationId, organizationId), eq(calendarFeeds.userId, userId)));
+    return feed || undefined;
+  }
+
+  async getCalendarFeedByToken(token: string): Promise<CalendarFeed | undefined> {
+    const [feed] = await db.select().from(calendarFeeds).where(eq(calendarFeeds.token, token));
+    return feed || undefined;
+  }
+
+  async upsertCalendarFeed(organizationId: number, userId: string, token: string): Promise<CalendarFeed> {
+    const [feed] = await db
+      .insert(calendarFeeds)
+      .values({ organizationId, userId, token })
+      .onConflictDoUpdate({
+        target: calendarFeeds.userId,
+        set: { organizationId, token, createdAt: new Date() },
+      })
+      .returning();
+    return feed;
+  }
+
+  async deleteCalendarFeed(organizationId: number, userId: string): Promise<boolean> {
+    const result = await db
+      .delete(calendarFeeds)
+      .where(and(eq(calendarFeeds.organizationId, organizationId), eq(calendarFeeds.userId, userId)));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async getCalendarAccount(organizationId: number, userId: string): Promise<CalendarAccount | undefined> {
+    const [account] = await db
+      .select()
+      .from(calendarAccounts)
+      .where(and(eq(calendarAccounts.organizationId, organizationId), eq(calendarAccounts.userId, userId)));
+    return account || undefined;
+  }
+
+  async getCalendarAccountById(organizationId: number, id: number): Promise<CalendarAccount | undefined> {
+    const [account] = await db
+      .select()
+      .from(calendarAccounts)
+      .where(and(eq(calendarAccounts.organizationId, organizationId), eq(calendarAccounts.id, id)));
+    return account || undefined;
+  }
+
+  async upsertCalendarAccount(organizationId: number, userId: string, insertAccount: Omit<InsertCalendarAccount, "organizationId" | "userId">): Promise<CalendarAccount> {
+    const [account] = await db
+      .insert(calendarAccounts)
+      .values({ ...insertAccount, organizationId, userId })
+      .onConflictDoUpdate({
+        target: calendarAccounts.userId,
+        set: { ...insertAccount, organizationId, updatedAt: new Date() },
+      })
+      .returning();
+    return account;
+  }
+
+  async updateCalendarAccount(organizationId: number, id: number, accountUpdate: Partial<InsertCalendarAccount>): Promise<CalendarAccount | undefined> {
+    const [account] = await db
+      .update(calendarAccounts)
+      .set({ ...accountUpdate, updatedAt: new Date() })
+      .where(and(eq(calendarAccounts.organizationId, organizationId), eq(calendarAccounts.id, id)))
+      .returning();
+    return account || undefined;
+  }
+
+  // The busy times read from the calendar go with it
+  async deleteCalendarAccount(organizationId: number, id: number): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      await tx.delete(externalBusyTimes)
+        .where(and(eq(externalBusyTimes.organizationId, organizationId), eq(externalBusyTimes.accountId, id)));
+      const result = await tx
+        .delete(calendarAccounts)
+        .where(and(eq(calendarAccounts.organizationId, organizationId), eq(calendarAccounts.id, id)));
+      return (result.rowCount ?? 0) > 0;
+    });
+  }
+
+  // The user's external events overlapping [start, end)
+  async getExternalBusyTimes(organizationId: number, userId: string, start: Date, end: Date): Promise<ExternalBusyTime[]> {
+    return await db
+      .select()
+      .from(externalBusyTimes)
+      .where(and(
+        eq(externalBusyTimes.organizationId, organizationId),
+        eq(externalBusyTimes.userId, userId),
+        lt(externalBusyTimes.startTime, end),
+        gt(externalBusyTimes.endTime, start)
+      ))
+      .orderBy(externalBusyTimes.startTime);
+  }
+
+  async replaceExternalBusyTimes(organizationId: number, accountId: number, times: Omit<InsertExternalBusyTime, "organizationId" | "accountId">[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(externalBusyTimes)
+        .where(and(eq(externalBusyTimes.organizationId, organizationId), eq(externalBusyTimes.accountId, accountId)));
+      if (times.length > 0) {
+        await tx.insert(externalBusyTimes).values(times.map(time => ({ ...time, organizationId, accountId })));
+      }
+    });
+  }
+
+  async getUserAvailability(organizationId: number, userId: string): Promise<UserAvailability | undefined> {
+    const [availability] = await db
+      .select()
+      .from(userAvailability)
+      .where(and(eq(userAvailability.organizationId, organizationId), eq(userAvailability.userId, userId)));
+    return availability || undefined;
+  }
+
+  async upsertUserAvailability(organizationId: number, userId: string, availability: AvailabilityInput): Promise<UserAvailability> {
+    const [saved] = await db
+      .insert(userAvailability)
+      .values({ ...availability, organizationId, userId })
+      .onConflictDoUpdate({
+        target: userAvailability.userId,
+        set: { ...availability, organizationId, updatedAt: new Date() },
+      })
+      .returning();
+    return saved;
+  }
+
+  // Working hours and date overrides go together
+  async deleteUserAvailability(organizationId: number, userId: string): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(availabilityOverrides)
+        .where(and(eq(availabilityOverrides.organizationId, organizationId), eq(availabilityOverrides.userId, userId)));
+      await tx.delete(userAvailability)
+        .where(and(eq(userAvailability.organizationId, organizationId), eq(userAvailability.userId, userId)));
+    });
+  }
+
+  // Dates are "YYYY-MM-DD", so they compare as strings
+  async getAvailabilityOverrides(organizationId: number, userId: string, range: { from?: string; to?: string } = {}): Promise<AvailabilityOverride[]> {
+    const conditions = [eq(availabilityOverrides.organizationId, organizationId), eq(availabilityOverrides.userId, userId)];
+    if (range.from) conditions.push(gte(availabilityOverrides.date, range.from));
+    if (range.to) conditions.push(lte(availabilityOverrides.date, range.to));
+    return await db
+      .select()
+      .from(availabilityOverrides)
+      .where(and(...conditions))
+      .orderBy(availabilityOverrides.date);
+  }
+
+  // One override per day; a new one for the same day replaces it
+  async upsertAvailabilityOverride(organizationId: number, userId: string, override: AvailabilityOverrideInput): Promise<AvailabilityOverride> {
+    const values = { date: override.date, periods: override.periods, reason: override.reason ?? null };
+    const [saved] = await db
+      .insert(availabilityOverrides)
+      .values({ ...values, organizationId, userId })
+      .onConflictDoUpdate({
+        target: [availabilityOverrides.userId, availabilityOverrides.date],
+        set: { ...values, organizationId },
+      })
+      .returning();
+    return saved;
+  }
+
+  async deleteAvailabilityOverride(organizationId: number, userId: string, id: number): Promise<boolean> {
+    const result = await db
+      .delete(availabilityOverrides)
+      .where(and(
+        eq(availabilityOverrides.organizationId, organizationId),
+        eq(availabilityOverrides.userId, userId),
+        eq(availabilityOverrides.id, id)
+      ));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async getHolidayCalendars(organizationId: number): Promise<HolidayCalendar[]> {
+    return await db
+      .select()
+      .from(holidayCalendars)
+      .where(eq(holidayCalendars.organizationId, organizationId))
+      .orderBy(holidayCalendars.name);
+  }
+
+  async getHolidayCalendar(organizationId: number, id: number): Promise<HolidayCalendar | undefined> {
+    const [calendar] = await db
+      .select()
+      .from(holidayCalendars)
+      .where(and(eq(holidayCalendars.organizationId, organizationId), eq(holidayCalendars.id, id)));
+    return calendar || undefined;
+  }
+
+  async getDefaultHolidayCalendar(organizationId: number): Promise<HolidayCalendar | undefined> {
+    const [calendar] = await db
+      .select()
+      .from(holidayCalendars)
+      .where(and(eq(holidayCalendars.organizationId, organizationId), eq(holidayCalendars.isDefault, true)));
+    return calendar || undefined;
+  }
+
+  // Only one calendar is the default; making another one the default clears it
+  async createHolidayCalendar(organizationId: number, calendar: { name: string; isDefault: boolean }, days: { date: string; name: string }[] = []): Promise<HolidayCalendar> {
+    return await db.transaction(async (tx) => {
+      if (calendar.isDefault) {
+        await tx.update(holidayCalendars).set({ isDefault: false }).where(eq(holidayCalendars.organizationId, organizationId));
+      }
+      const [created] = await tx.insert(holidayCalendars).values({ ...calendar, organizationId }).returning();
+      if (days.length > 0) {
+        await tx.insert(holidays).values(days.map(day => ({ ...day, organizationId, calendarId: created.id })));
+      }
+      return created;
+    });
+  }
+
+  async updateHolidayCalendar(organizationId: number, id: number, calendarUpdate: { name?: string; isDefault?: boolean }): Promise<HolidayCalendar | undefined> {
+    return await db.transaction(async (tx) => {
+      if (calendarUpdate.isDefault) {
+        await tx.update(holidayCalendars)
+          .set({ isDefault: false })
+          .where(and(eq(holidayCalendars.organizationId, organizationId), ne(holidayCalendars.id, id)));
+      }
+      const [calendar] = await tx
+        .update(holidayCalendars)
+        .set(calendarUpdate)
+        .where(and(eq(holidayCalendars.organizationId, organizationId), eq(holidayCalendars.id, id)))
+        .returning();
+      return calendar || undefined;
+    });
+  }
+
+  // Members who followed the calendar are left without holidays
+  async deleteHolidayCalendar(organizationId: number, id: number): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      await tx.update(userAvailability)
+        .set({ holidayCalendarId: null })
+        .where(and(eq(userAvailability.organizationId, organizationId), eq(userAvailability.holidayCalendarId, id)));
+      await tx.delete(holidays)
+        .where(and(eq(holidays.organizationId, organizationId), eq(holidays.calendarId, id)));
+      const result = await tx
+        .delete(holidayCalendars)
+        .where(and(eq(holidayCalendars.organizationId, organizationId), eq(holidayCalendars.id, id)));
+      return (result.rowCount ?? 0) > 0;
+    });
+  }
+
+  async getHolidays(organizationId: number, calendarId: number, range: { from?: string; to?: string } = {}): Promise<Holiday[]> {
+    const conditions = [eq(holidays.organizationId, organizationId), eq(holidays.calendarId, calendarId)];
+    if (range.from) conditions.push(gte(holidays.date, range.from));
+    if (range.to) conditions.push(lte(holidays.date, range.to));
+    return await db.select().from(holidays).where(and(...conditions)).orderBy(holidays.date);
+  }
+
+  // A calendar has one holiday per day; adding another renames it
+  async upsertHoliday(organizationId: number, calendarId: number, holiday: { date: string; name: string }): Promise<Holiday> {
+    const [saved] = await db
+      .insert(holidays)
+      .values({ ...holiday, organizationId, calendarId })
+      .onConflictDoUpdate({
+        target: [holidays.calendarId, holidays.date],
+        set: { name: holiday.name },
+      })
+      .returning();
+    return saved;
+  }
+
+  async deleteHoliday(organizationId: number, calendarId: number, id: number): Promise<boolean> {
+    const result = await db
+      .delete(holidays)
+      .where(and(eq(holidays.organizationId, organizationId), eq(holidays.calendarId, calendarId), eq(holidays.id, id)));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async getBookingPage(organizationId: number, userId: string): Promise<BookingPage | undefined> {
+    const [page] = await db
+      .select()
+      .from(bookingPages)
+      .where(and(eq(bookingPages.organizationId, organizationId), eq(bookingPages.userId, userId)));
+    return page || undefined;
+  }
+
+  async getBookingPageBySlug(slug: string): Promise<BookingPage | undefined> {
+    const [page] = await db.select().from(bookingPages).where(eq(bookingPages.slug, slug));
+    return page || undefined;
+  }
+
+  async upsertBookingPage(organizationId: number, userId: string, page: Omit<InsertBookingPage, "organizationId" | "userId">): Promise<BookingPage> {
+    const [saved] = await db
+      .insert(bookingPages)
+      .values({ ...page, organizationId, userId })
+      .onConflictDoUpdate({
+        target: bookingPages.userId,
+        set: { ...page, updatedAt: new Date() },
+      })
+      .returning();
+    return saved;
+  }
+
+  // Meetings already booked through the page keep their record of it
+  async deleteBookingPage(organizationId: number, id: number): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const pageTypes = tx.select({ id: bookingTypes.id }).from(bookingTypes)
+        .where(and(eq(bookingTypes.organizationId, organizationId), eq(bookingTypes.pageId, id)));
+      await tx.update(calendarEvents).set({ bookingTypeId: null })
+        .where(and(eq(calendarEvents.organizationId, organizationId), inArray(calendarEvents.bookingTypeId, pageTypes)));
+      await tx.update(meetingAssignments).set({ bookingTypeId: null })
+        .where(and(eq(meetingAssignments.organizationId, organizationId), inArray(meetingAssignments.bookingTypeId, pageTypes)));
+      await tx.delete(bookingTypes)
+        .where(and(eq(bookingTypes.organizationId, organizationId), eq(bookingTypes.pageId, id)));
+      const result = await tx
+        .delete(bookingPages)
+        .where(and(eq(bookingPages.organizationId, organizationId), eq(bookingPages.id, id)));
+      return (result.rowCount ?? 0) > 0;
+    });
+  }
+
+  async getBookingTypes(organizationId: number, pageId: number): Promise<BookingType[]> {
+    return await db
+      .select()
+      .from(bookingTypes)
+      .where(and(eq(bookingTypes.organizationId, organizationId), eq(bookingTypes.pageId, pageId)))
+      .orderBy(bookingTypes.duration, bookingTypes.id);
+  }
+
+  async getBookingType(organizationId: number, id: number): Promise<BookingType | undefined> {
+    const [type] = await db
+      .select()
+      .from(bookingTypes)
+      .where(and(eq(bookingTypes.organizationId, organizationId), eq(bookingTypes.id, id)));
+    return type || undefined;
+  }
+
+  async getBookingTypeBySlug(pageId: number, slug: string): Promise<BookingType | undefined> {
+    const [type] = await db
+      .select()
+      .from(bookingTypes)
+      .where(and(eq(bookingTypes.pageId, pageId), eq(bookingTypes.slug, slug)));
+    return type || undefined;
+  }
+
+  async createBookingType(organizationId: number, insertType: Omit<InsertBookingType, "organizationId">): Promise<BookingType> {
+    const [type] = await db
+      .insert(bookingTypes)
+      .values({ ...insertType, organizationId })
+      .returning();
+    return type;
+  }
+
+  async updateBookingType(organizationId: number, id: number, typeUpdate: Partial<InsertBookingType>): Promise<BookingType | undefined> {
+    const [type] = await db
+      .update(bookingTypes)
+      .set({ ...typeUpdate, updatedAt: new Date() })
+      .where(and(eq(bookingTypes.organizationId, organizationId), eq(bookingTypes.id, id)))
+      .returning();
+    return type || undefined;
+  }
+
+  async deleteBookingType(organizationId: number, id: number): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      await tx.update(calendarEvents).set({ bookingTypeId: null })
+        .where(and(eq(calendarEvents.organizationId, organizationId), eq(calendarEvents.bookingTypeId, id)));
+      await tx.update(meetingAssignments).set({ bookingTypeId: null })
+        .where(and(eq(meetingAssignments.organizationId, organizationId), eq(meetingAssignments.bookingTypeId, id)));
+      const result = await tx
+        .delete(bookingTypes)
+        .where(and(eq(bookingTypes.organizationId, organizationId), eq(bookingTypes.id, id)));
+      return (result.rowCount ?? 0) > 0;
+    });
+  }
+
+  // Round-robin and collective types across every page in the organization
+  async getTeamBookingTypes(organizationId: number): Promise<BookingType[]> {
+    return await db
+      .select()
+      .from(bookingTypes)
+      .where(and(eq(bookingTypes.organizationId, organizationId), ne(bookingTypes.hostMode, "owner")))
+      .orderBy(bookingTypes.name);
+  }
+
+  async removeBookingPoolMember(organizationId: number, userId: string): Promise<void> {
+    await db
+      .update(bookingTypes)
+      .set({ poolUserIds: sql`array_remove(${bookingTypes.poolUserIds}, ${userId})`, updatedAt: new Date() })
+      .where(and(eq(bookingTypes.organizationId, organizationId), sql`${userId} = ANY(${bookingTypes.poolUserIds})`));
+  }
+
+  async createMeetingAssignments(organizationId: number, assignments: Omit<InsertMeetingAssignment, "organizationId">[]): Promise<MeetingAssignment[]> {
+    if (assignments.length === 0) return [];
+    return await db
+      .insert(meetingAssignments)
+      .values(assignments.map(assignment => ({ ...assignment, organizationId })))
+      .returning();
+  }
+
+  async getMeetingAssignments(organizationId: number, filters: { since?: Date; bookingTypeId?: number } = {}): Promise<MeetingAssignment[]> {
+    const conditions = [eq(meetingAssignments.organizationId, organizationId)];
+    if (filters.since) {
+      conditions.push(gte(meetingAssignments.createdAt, filters.since));
+    }
+    if (filters.bookingTypeId) {
+      conditions.push(eq(meetingAssignments.bookingTypeId, filters.bookingTypeId));
+    }
+
+    return await db
+      .select()
+      .from(meetingAssignments)
+      .where(and(...conditions))
+      .orderBy(meetingAssignments.createdAt);
+  }
+
+  // AI Results Cache
+  async getCachedAiResult(organizationId: number, contactId: number, resultType: string, purpose?: string): Promise<AiResult | undefined> {
+    const conditions = [
+      eq(aiResults.organizationId, organizationId),
+      eq(aiResults.contactId, contactId),
+      eq(aiResults.resultType, resultType)
+    ];
+
+    if (purpose) {
+      conditions.push(eq(aiResults.purpose, purpose));
+    }
+
+    const [result] = await db
+      .select()
+      .from(aiResults)
+      .where(and(...conditions))
+      .orderBy(desc(aiResults.createdAt))
+      .limit(1);
+
     return result || undefined;
   }
 
-  async saveAiResult(result: InsertAiResult): Promise<AiResult> {
+  async saveAiResult(organizationId: number, result: InsertAiResult): Promise<AiResult> {
     const [savedResult] = await db
       .insert(aiResults)
       .values({
         ...result,
-        organizationId: 1, // Default organization for now
+        organizationId,
         createdAt: new Date(),
         updatedAt: new Date(),
       })
@@ -797,10 +2512,10 @@ export class DatabaseStorage implements IStorage {
     return savedResult;
   }
 
-  async invalidateAiResults(contactId: number): Promise<boolean> {
+  async invalidateAiResults(organizationId: number, contactId: number): Promise<boolean> {
     const result = await db
       .delete(aiResults)
-      .where(eq(aiResults.contactId, contactId));
+      .where(and(eq(aiResults.organizationId, organizationId), eq(aiResults.contactId, contactId)));
     return (result.rowCount ?? 0) > 0;
   }
 }
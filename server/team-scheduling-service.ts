@@ -0,0 +1,252 @@
+import type { BookingType, CalendarEvent, Contact, MeetingAssignment, MeetingType, User } from '@shared/schema';
+import type { AssignmentReason, BookingHostMode } from '@shared/booking';
+import { storage } from './storage';
+import { calendarService, type TeamAvailabilityMode, type TeamTimeSlot } from './calendar-service';
+
+// Meetings that go to a pool of members rather than one person. A
+// round-robin type gives each meeting to one member free at the time; a
+// collective type needs the whole pool free and books everyone. Each
+// assignment is recorded with the members who were free, so managers can
+// see whether meetings are spread fairly.
+
+// What the meeting is, whoever ends up hosting it
+export interface TeamMeetingDetails {
+  contact: Contact;
+  meetingType: MeetingType;
+  title?: string;
+  description?: string;
+  location?: string;
+  bookingTypeId?: number; // set when booked from a public page
+  intakeAnswers?: Record<string, string>;
+  // Organizes collective meetings when they're in the pool
+  organizerId: string | null;
+}
+
+// One meeting type's assignments over the report period
+export interface AssignmentDistribution {
+  bookingTypeId: number | null;
+  name: string;
+  hostMode: BookingHostMode;
+  meetings: number;
+  members: {
+    userId: string;
+    name: string;
+    assigned: number;
+    eligible: number; // meetings they were free for
+    leadOwner: number; // assigned as the contact's lead owner
+  }[];
+}
+
+// How far back the last assignment counts when breaking a tie in load
+const TIE_BREAK_DAYS = 90;
+
+class TeamSchedulingService {
+  availabilityMode(type: BookingType): TeamAvailabilityMode {
+    return type.hostMode === 'collective' ? 'all' : 'any';
+  }
+
+  // Pool members still active in the organization, in the pool's order
+  async activePool(organizationId: number, type: BookingType): Promise<User[]> {
+    const members = await storage.getOrganizationUsers(organizationId);
+    return type.poolUserIds
+      .map(userId => members.find(member => member.id === userId))
+      .filter((member): member is User => !!member);
+  }
+
+  async availableSlots(organizationId: number, type: BookingType, start: Date, end: Date): Promise<TeamTimeSlot[]> {
+    const pool = await this.activePool(organizationId, type);
+    return await calendarService.getTeamTimeSlots(
+      organizationId, start, end, type.duration, pool.map(member => member.id), this.availabilityMode(type)
+    );
+  }
+
+  async isSlotAvailable(organizationId: number, type: BookingType, start: Date): Promise<boolean> {
+    const pool = await this.activePool(organizationId, type);
+    const free = await calendarService.freeHostsAt(
+      organizationId, start, type.duration, pool.map(member => member.id), this.availabilityMode(type)
+    );
+    return free.length > 0;
+  }
+
+  // Books the first proposed time the pool can take: with round-robin the
+  // member the type's balancing picks among those free, with collective
+  // everyone, each other member invited as an attendee
+  async schedule(
+    organizationId: number,
+    type: BookingType,
+    proposedTimes: Date[],
+    details: TeamMeetingDetails
+  ): Promise<{ event?: CalendarEvent; message: string }> {
+    const pool = await this.activePool(organizationId, type);
+    const poolIds = pool.map(member => member.id);
+
+    for (const start of proposedTimes) {
+      const free = await calendarService.freeHostsAt(organizationId, start, type.duration, poolIds, this.availabilityMode(type));
+      if (free.length === 0) continue;
+
+      let hostId: string;
+      let teamMemberIds: string[] = [];
+      let reason: AssignmentReason = 'collective';
+      if (type.hostMode === 'collective') {
+        hostId = details.organizerId && free.includes(details.organizerId) ? details.organizerId : free[0];
+        teamMemberIds = free.filter(userId => userId !== hostId);
+      } else {
+        ({ userId: hostId, reason } = await this.pickHost(organizationId, type, free, details.contact));
+      }
+
+      const result = await calendarService.scheduleFollowUpMeeting(organizationId, {
+        contactId: details.contact.id,
+        contact: details.contact,
+        proposedTimes: [start],
+        meetingType: details.meetingType,
+        duration: type.duration,
+        title: details.title,
+        description: details.description,
+        location: details.location,
+        attendees: pool
+          .filter(member => teamMemberIds.includes(member.id) && member.email)
+          .map(member => ({ email: member.email!, name: this.memberName(member) })),
+        createdBy: hostId,
+        teamMemberIds,
+        bookingTypeId: details.bookingTypeId,
+        intakeAnswers: details.intakeAnswers,
+      });
+      if (!result.event) continue;
+
+      await storage.createMeetingAssignments(organizationId, [hostId, ...teamMemberIds].map(userId => ({
+        eventId: result.event!.id,
+        bookingTypeId: type.id,
+        userId,
+        hostMode: type.hostMode,
+        reason,
+        candidateIds: free,
+      })));
+      return result;
+    }
+
+    return { message: 'Nobody in the team is free at the proposed times' };
+  }
+
+  // A follow-up with the pool in the urgency's range of days, counted in
+  // the organizer's time zone, as calendarService.autoScheduleFollowUp does
+  // for one member
+  async autoScheduleFollowUp(
+    organizationId: number,
+    contact: Contact,
+    urgency: 'high' | 'medium' | 'low',
+    type: BookingType,
+    organizerId: string | null
+  ): Promise<CalendarEvent | null> {
+    const schedule = await calendarService.getSchedule(organizationId, organizerId);
+    const range = calendarService.followUpRange(urgency, schedule.timeZone);
+    const slots = await this.availableSlots(organizationId, type, range.start, range.end);
+
+    const result = await this.schedule(organizationId, type, slots.filter(slot => slot.available).map(slot => slot.start), {
+      contact,
+      meetingType: 'follow-up',
+      title: `${type.name} with ${contact.firstName} ${contact.lastName}`.trim(),
+      description: `Follow-up meeting with ${contact.firstName} from ${contact.company}`,
+      location: type.location ?? undefined,
+      organizerId,
+    });
+    return result.event ?? null;
+  }
+
+  // With lead-owner balancing the contact's owner takes the meeting when
+  // they're free. Otherwise the member with the fewest upcoming meetings,
+  // then whoever was assigned a team meeting longest ago.
+  private async pickHost(
+    organizationId: number,
+    type: BookingType,
+    free: string[],
+    contact: Contact
+  ): Promise<{ userId: string; reason: AssignmentReason }> {
+    if (type.balanceBy === 'lead-owner') {
+      const owner = await this.leadOwner(organizationId, contact);
+      if (owner && free.includes(owner)) {
+        return { userId: owner, reason: 'lead-owner' };
+      }
+    }
+
+    const [upcoming, assignments] = await Promise.all([
+      storage.getCalendarEvents(organizationId, { from: new Date(), statuses: ['scheduled', 'confirmed'] }),
+      storage.getMeetingAssignments(organizationId, { since: new Date(Date.now() - TIE_BREAK_DAYS * 24 * 60 * 60 * 1000) }),
+    ]);
+    const load = (userId: string) =>
+      upcoming.filter(event => event.createdBy === userId || event.teamMemberIds.includes(userId)).length;
+    // Assignments come oldest first, so the last one found is the latest
+    const lastAssigned = (userId: string) =>
+      assignments.filter(assignment => assignment.userId === userId).pop()?.createdAt.getTime() ?? 0;
+
+    const [userId] = [...free].sort((a, b) => load(a) - load(b) || lastAssigned(a) - lastAssigned(b));
+    return { userId, reason: 'fewest-meetings' };
+  }
+
+  // The owner of the contact's latest deal that has one, else whoever
+  // added the contact
+  private async leadOwner(organizationId: number, contact: Contact): Promise<string | null> {
+    const deals = await storage.getContactDeals(organizationId, contact.id);
+    const owned = deals.filter(deal => deal.ownerId).pop();
+    return owned?.ownerId ?? contact.createdBy ?? null;
+  }
+
+  // Assignments since the date grouped by meeting type, with every current
+  // pool member listed even when they got nothing
+  async distribution(organizationId: number, since: Date): Promise<AssignmentDistribution[]> {
+    const [assignments, types, members] = await Promise.all([
+      storage.getMeetingAssignments(organizationId, { since }),
+      storage.getTeamBookingTypes(organizationId),
+      storage.getOrganizationUsers(organizationId),
+    ]);
+
+    // Types that stopped being team types still show their past meetings
+    const groups = new Map<number | null, { type?: BookingType; rows: MeetingAssignment[] }>(
+      types.map(type => [type.id, { type, rows: [] }])
+    );
+    for (const assignment of assignments) {
+      let group = groups.get(assignment.bookingTypeId);
+      if (!group) {
+        const type = assignment.bookingTypeId ? await storage.getBookingType(organizationId, assignment.bookingTypeId) : undefined;
+        group = { type, rows: [] };
+        groups.set(assignment.bookingTypeId, group);
+      }
+      group.rows.push(assignment);
+    }
+
+    const nameOf = (userId: string) => {
+      const member = members.find(candidate => candidate.id === userId);
+      return member ? this.memberName(member) : 'Former member';
+    };
+
+    return Array.from(groups.entries()).map(([bookingTypeId, { type, rows }]) => {
+      const userIds = Array.from(new Set([
+        ...(type?.poolUserIds ?? []),
+        ...rows.map(row => row.userId),
+      ]));
+      const meetings = new Map<number, MeetingAssignment[]>();
+      for (const row of rows) {
+        meetings.set(row.eventId, [...(meetings.get(row.eventId) ?? []), row]);
+      }
+
+      return {
+        bookingTypeId,
+        name: type?.name ?? 'Deleted meeting types',
+        hostMode: type?.hostMode ?? rows[0].hostMode,
+        meetings: meetings.size,
+        members: userIds.map(userId => ({
+          userId,
+          name: nameOf(userId),
+          assigned: rows.filter(row => row.userId === userId).length,
+          eligible: Array.from(meetings.values()).filter(meeting => meeting[0].candidateIds.includes(userId)).length,
+          leadOwner: rows.filter(row => row.userId === userId && row.reason === 'lead-owner').length,
+        })),
+      };
+    });
+  }
+
+  private memberName(member: User): string {
+    return [member.firstName, member.lastName].filter(Boolean).join(' ') || member.email || member.id;
+  }
+}
+
+export const teamSchedulingService = new TeamSchedulingService();
@@ -1,4 +1,9 @@
-import { Contact } from "@shared/schema";
+import { createHmac, timingSafeEqual } from "crypto";
+import { Contact, type Organization, type WhatsappMessageStatus } from "@shared/schema";
+import { consentService } from "./consent-service";
+import { storage } from "./storage";
+import { campaignService } from "./campaign-service";
+import { encryptSecret, decryptSecret } from "./secrets";
 
 export interface WhatsAppMessage {
   id: string;
@@ -6,7 +11,7 @@ export interface WhatsAppMessage {
   phoneNumber: string;
   message: string;
   type: 'text' | 'template' | 'media';
-  status: 'pending' | 'sent' | 'delivered' | 'read' | 'failed';
+  status: 'pending' | 'sent' | 'delivered' | 'read' | 'failed' | 'suppressed'; // suppressed: never sent, the contact opted out
   templateName?: string;
   templateParams?: Record<string, string>;
   sentAt: Date;
@@ -64,6 +69,7 @@ class WhatsAppService {
   private accessToken = process.env.WHATSAPP_ACCESS_TOKEN;
   private phoneNumberId = process.env.WHATSAPP_PHONE_NUMBER_ID;
   private verifyToken = process.env.WHATSAPP_VERIFY_TOKEN;
+  private appSecret = process.env.WHATSAPP_APP_SECRET;
 
   constructor() {
     if (!this.accessToken || !this.phoneNumberId) {
@@ -71,12 +77,84 @@ class WhatsAppService {
     }
   }
 
+  // The number and token messages to the contact go out with: their
+  // organization's connected number, else the deployment's
+  private async senderFor(contact?: Contact): Promise<{ phoneNumberId?: string; accessToken?: string }> {
+    const organization = contact ? await storage.getOrganization(contact.organizationId) : undefined;
+    if (organization?.whatsappPhoneNumberId && organization.whatsappEncryptedAccessToken) {
+      return {
+        phoneNumberId: organization.whatsappPhoneNumberId,
+        accessToken: decryptSecret(organization.whatsappEncryptedAccessToken),
+      };
+    }
+    return { phoneNumberId: this.phoneNumberId, accessToken: this.accessToken };
+  }
+
+  // Connects the number to the organization once the Cloud API accepts the
+  // token for it, so only someone holding a token for the number can route
+  // its messages to their inbox. Saving the connected number again reuses
+  // its token. Returns what went wrong, or null.
+  async connectNumber(organization: Organization, phoneNumberId: string, accessToken?: string): Promise<string | null> {
+    const token = accessToken
+      || (organization.whatsappPhoneNumberId === phoneNumberId && organization.whatsappEncryptedAccessToken
+        ? decryptSecret(organization.whatsappEncryptedAccessToken)
+        : '');
+    if (!token) {
+      return 'Enter the access token for this number';
+    }
+
+    try {
+      const response = await fetch(`${this.apiUrl}/${phoneNumberId}?fields=display_phone_number`, {
+        headers: { 'Authorization': `Bearer ${token}` },
+      });
+      if (!response.ok) {
+        const result = await response.json().catch(() => ({}));
+        return `WhatsApp did not accept the token for this number: ${result.error?.message ?? `HTTP ${response.status}`}`;
+      }
+    } catch (error) {
+      return `Could not reach WhatsApp: ${error instanceof Error ? error.message : String(error)}`;
+    }
+
+    await storage.updateOrganization(organization.id, {
+      whatsappPhoneNumberId: phoneNumberId,
+      whatsappEncryptedAccessToken: encryptSecret(token),
+    });
+    return null;
+  }
+
+  // Messages to a contact that opted out of WhatsApp, or whose number is on
+  // the organization's suppression list, are not sent
+  private async suppressedMessage(
+    contact: Contact | undefined,
+    phoneNumber: string,
+    message: string,
+    type: WhatsAppMessage['type']
+  ): Promise<WhatsAppMessage | null> {
+    if (!contact || await consentService.canContact(contact, 'whatsapp')) {
+      return null;
+    }
+    return {
+      id: Date.now().toString(),
+      contactId: contact.id,
+      phoneNumber: this.cleanPhoneNumber(phoneNumber),
+      message,
+      type,
+      status: 'suppressed',
+      sentAt: new Date(),
+      errorMessage: 'Contact has opted out of WhatsApp messages',
+    };
+  }
+
   // Send text message
   async sendTextMessage(
     phoneNumber: string, 
     message: string, 
-    contactId?: number
+    contact?: Contact,
+    sentBy?: string
   ): Promise<WhatsAppMessage> {
+    const suppressed = await this.suppressedMessage(contact, phoneNumber, message, 'text');
+    if (suppressed) return suppressed;
+
     try {
       const cleanPhoneNumber = this.cleanPhoneNumber(phoneNumber);
       
@@ -89,10 +167,11 @@ class WhatsAppService {
         }
       };
 
-      const response = await fetch(`${this.apiUrl}/${this.phoneNumberId}/messages`, {
+      const sender = await this.senderFor(contact);
+      const response = await fetch(`${this.apiUrl}/${sender.phoneNumberId}/messages`, {
         method: 'POST',
         headers: {
-          'Authorization': `Bearer ${this.accessToken}`,
+          'Authorization': `Bearer ${sender.accessToken}`,
           'Content-Type': 'application/json',
         },
         body: JSON.stringify(messageData),
@@ -102,7 +181,7 @@ class WhatsAppService {
 
       const whatsappMessage: WhatsAppMessage = {
         id: result.messages?.[0]?.id || Date.now().toString(),
-        contactId: contactId || 0,
+        contactId: contact?.id || 0,
         phoneNumber: cleanPhoneNumber,
         message,
         type: 'text',
@@ -111,6 +190,9 @@ class WhatsAppService {
         errorMessage: response.ok ? undefined : result.error?.message,
       };
 
+      if (contact) {
+        await this.recordOutbound(contact, whatsappMessage, response.ok ? result.messages?.[0]?.id : undefined, sentBy);
+      }
       return whatsappMessage;
     } catch (error) {
       console.error('WhatsApp send message error:', error);
@@ -123,8 +205,12 @@ class WhatsAppService {
     phoneNumber: string,
     templateName: string,
     parameters: Record<string, string> = {},
-    contactId?: number
+    contact?: Contact,
+    sentBy?: string
   ): Promise<WhatsAppMessage> {
+    const suppressed = await this.suppressedMessage(contact, phoneNumber, `Template: ${templateName}`, 'template');
+    if (suppressed) return suppressed;
+
     try {
       const cleanPhoneNumber = this.cleanPhoneNumber(phoneNumber);
       
@@ -155,10 +241,11 @@ class WhatsAppService {
         }
       };
 
-      const response = await fetch(`${this.apiUrl}/${this.phoneNumberId}/messages`, {
+      const sender = await this.senderFor(contact);
+      const response = await fetch(`${this.apiUrl}/${sender.phoneNumberId}/messages`, {
         method: 'POST',
         headers: {
-          'Authorization': `Bearer ${this.accessToken}`,
+          'Authorization': `Bearer ${sender.accessToken}`,
           'Content-Type': 'application/json',
         },
         body: JSON.stringify(messageData),
@@ -168,7 +255,7 @@ class WhatsAppService {
 
       const whatsappMessage: WhatsAppMessage = {
         id: result.messages?.[0]?.id || Date.now().toString(),
-        contactId: contactId || 0,
+        contactId: contact?.id || 0,
         phoneNumber: cleanPhoneNumber,
         message: `Template: ${templateName}`,
         type: 'template',
@@ -179,6 +266,9 @@ class WhatsAppService {
         errorMessage: response.ok ? undefined : result.error?.message,
       };
 
+      if (contact) {
+        await this.recordOutbound(contact, whatsappMessage, response.ok ? result.messages?.[0]?.id : undefined, sentBy);
+      }
       return whatsappMessage;
     } catch (error) {
       console.error('WhatsApp send template error:', error);
@@ -207,7 +297,7 @@ Kami akan segera memproses pesanan Anda. Jika ada pertanyaan, silakan balas pesa
 
 Terima kasih! 🙏`;
 
-    return this.sendTextMessage(contact.phone || '', message, contact.id);
+    return this.sendTextMessage(contact.phone || '', message, contact);
   }
 
   // Send payment reminder
@@ -232,7 +322,7 @@ Mohon lakukan pembayaran sebelum jatuh tempo. Hubungi kami jika ada kendala.
 
 Terima kasih! 🙏`;
 
-    return this.sendTextMessage(contact.phone || '', message, contact.id);
+    return this.sendTextMessage(contact.phone || '', message, contact);
   }
 
   // Send follow-up message
@@ -255,7 +345,7 @@ Balas pesan ini atau rating kami di:
 
 Terima kasih! 🙏`;
 
-    return this.sendTextMessage(contact.phone || '', message, contact.id);
+    return this.sendTextMessage(contact.phone || '', message, contact);
   }
 
   // Send promotional message
@@ -282,7 +372,7 @@ Jangan sampai terlewat! Hubungi kami sekarang untuk order.
 
 Salam hangat! 🛍️`;
 
-    return this.sendTextMessage(contact.phone || '', message, contact.id);
+    return this.sendTextMessage(contact.phone || '', message, contact);
   }
 
   // Broadcast message to multiple contacts
@@ -303,20 +393,22 @@ Salam hangat! 🛍️`;
             contact.phone || '',
             templateName,
             templateParams,
-            contact.id
+            contact
           );
         } else {
           result = await this.sendTextMessage(
             contact.phone || '',
             message,
-            contact.id
+            contact
           );
         }
         
         results.push(result);
         
         // Rate limiting - wait 1 second between messages
-        await new Promise(resolve => setTimeout(resolve, 1000));
+        if (result.status !== 'suppressed') {
+          await new Promise(resolve => setTimeout(resolve, 1000));
+        }
       } catch (error) {
         console.error(`Failed to send to ${contact.phone}:`, error);
         results.push({
@@ -401,7 +493,7 @@ Salam hangat! 🛍️`;
   }
 
   // Clean phone number to international format
-  private cleanPhoneNumber(phoneNumber: string): string {
+  cleanPhoneNumber(phoneNumber: string): string {
     // Remove all non-digits
     let cleaned = phoneNumber.replace(/\D/g, '');
     
@@ -422,52 +514,189 @@ Salam hangat! 🛍️`;
     return token === this.verifyToken;
   }
 
-  // Process incoming webhook
+  // Meta signs each webhook with the app secret; without one configured
+  // every webhook is rejected, since none can be checked
+  verifySignature(rawBody: Buffer | undefined, signature: string | undefined): boolean {
+    if (!this.appSecret) {
+      console.error('WHATSAPP_APP_SECRET is not set; rejecting WhatsApp webhook');
+      return false;
+    }
+    if (!rawBody || !signature?.startsWith('sha256=')) return false;
+
+    const expected = Buffer.from(createHmac('sha256', this.appSecret).update(rawBody).digest('hex'));
+    const received = Buffer.from(signature.slice('sha256='.length));
+    return expected.length === received.length && timingSafeEqual(expected, received);
+  }
+
+  // Process incoming webhook. Each change names the business number it is
+  // for, which is how the organization is found.
   async processWebhook(webhookData: any): Promise<void> {
-    try {
-      const entry = webhookData.entry?.[0];
-      const changes = entry?.changes?.[0];
-      const value = changes?.value;
+    for (const entry of webhookData.entry ?? []) {
+      for (const change of entry.changes ?? []) {
+        try {
+          const value = change.value;
+          const phoneNumberId = value?.metadata?.phone_number_id;
+          const organization = phoneNumberId ? await storage.getOrganizationByWhatsappNumber(phoneNumberId) : undefined;
+
+          if (value?.messages) {
+            if (!organization) {
+              console.warn(`WhatsApp message for unknown number ${phoneNumberId}`);
+            } else {
+              for (const message of value.messages) {
+                const profile = value.contacts?.find((contact: any) => contact.wa_id === message.from) ?? value.contacts?.[0];
+                await this.handleIncomingMessage(organization.id, message, profile);
+              }
+            }
+          }
 
-      if (value?.messages) {
-        for (const message of value.messages) {
-          await this.handleIncomingMessage(message, value.contacts?.[0]);
+          if (value?.statuses) {
+            for (const status of value.statuses) {
+              await this.handleMessageStatus(status);
+            }
+          }
+        } catch (error) {
+          console.error('WhatsApp webhook processing error:', error);
         }
       }
+    }
+  }
 
-      if (value?.statuses) {
-        for (const status of value.statuses) {
-          await this.handleMessageStatus(status);
-        }
-      }
-    } catch (error) {
-      console.error('WhatsApp webhook processing error:', error);
+  // Stores a message from a contact in their conversation, creating the
+  // contact if the number is new, and logs it as a reply
+  private async handleIncomingMessage(organizationId: number, message: any, profile: any): Promise<void> {
+    const phone = this.cleanPhoneNumber(message.from ?? '');
+    if (!message.id || phone.length < 6) return;
+
+    const contact = await this.findOrCreateContact(organizationId, phone, profile?.profile?.name);
+    const conversation = await storage.getOrCreateWhatsappConversation(organizationId, contact.id, phone);
+    const body = this.incomingBody(message);
+    const sentAt = message.timestamp ? new Date(Number(message.timestamp) * 1000) : new Date();
+
+    const stored = await storage.createWhatsappMessage(organizationId, {
+      conversationId: conversation.id,
+      contactId: contact.id,
+      direction: 'inbound',
+      waMessageId: message.id,
+      type: message.type ?? 'text',
+      body,
+      status: 'received',
+      sentAt,
+    });
+    // Already stored on an earlier delivery of the same webhook
+    if (!stored) return;
+
+    await storage.recordWhatsappConversationMessage(organizationId, conversation.id, { at: sentAt, preview: body.slice(0, 200), inbound: true });
+    await storage.createActivity(organizationId, {
+      contactId: contact.id,
+      type: 'reply',
+      title: `WhatsApp from ${contact.firstName}`,
+      description: body.slice(0, 1000),
+      date: sentAt,
+      createdBy: null,
+    });
+    if (!contact.lastContactDate || contact.lastContactDate < sentAt) {
+      await storage.updateContact(organizationId, contact.id, { lastContactDate: sentAt });
     }
+    await campaignService.checkExits(organizationId, contact.id);
   }
 
-  private async handleIncomingMessage(message: any, contact: any): Promise<void> {
-    console.log('Incoming WhatsApp message:', {
-      from: message.from,
-      type: message.type,
-      text: message.text?.body,
-      timestamp: message.timestamp,
+  // Numbers are stored however they were typed, so candidates sharing the
+  // last digits are compared in normalized form
+  private async findOrCreateContact(organizationId: number, phone: string, profileName?: string): Promise<Contact> {
+    const candidates = await storage.getContactsByPhoneSuffix(organizationId, phone.slice(-8));
+    const existing = candidates
+      .filter(contact => contact.phone && this.cleanPhoneNumber(contact.phone) === phone)
+      .sort((a, b) => a.id - b.id)[0];
+    if (existing) return existing;
+
+    const [firstName, ...rest] = (profileName?.trim() || `+${phone}`).split(/\s+/);
+    return await storage.createContact(organizationId, {
+      firstName,
+      lastName: rest.join(' '),
+      email: '',
+      phone: `+${phone}`,
+      source: 'whatsapp',
     });
+  }
 
-    // Here you can integrate with your CRM to:
-    // 1. Find or create contact
-    // 2. Log the message as an activity
-    // 3. Trigger automated responses
-    // 4. Update lead scoring
+  // A readable body for each kind of message; media is stored as a caption
+  // or a placeholder, since the files themselves are not downloaded
+  private incomingBody(message: any): string {
+    switch (message.type) {
+      case 'text':
+        return message.text?.body ?? '';
+      case 'button':
+        return message.button?.text ?? '';
+      case 'interactive':
+        return message.interactive?.button_reply?.title ?? message.interactive?.list_reply?.title ?? '[Interactive reply]';
+      case 'location': {
+        const { latitude, longitude, name } = message.location ?? {};
+        return `[Location] ${name ? `${name} ` : ''}(${latitude}, ${longitude})`;
+      }
+      case 'image':
+      case 'video':
+      case 'document':
+      case 'audio':
+      case 'sticker': {
+        const caption = message[message.type]?.caption ?? message[message.type]?.filename;
+        return caption ? `[${message.type}] ${caption}` : `[${message.type}]`;
+      }
+      default:
+        return `[${message.type ?? 'unknown'}]`;
+    }
   }
 
+  // Delivery and read receipts only move a message's status forward; they
+  // can arrive out of order
   private async handleMessageStatus(status: any): Promise<void> {
-    console.log('WhatsApp message status update:', {
-      id: status.id,
-      status: status.status,
-      timestamp: status.timestamp,
+    if (!status.id) return;
+    const message = await storage.getWhatsappMessageByWaId(status.id);
+    if (!message || message.direction !== 'outbound') return;
+
+    const at = status.timestamp ? new Date(Number(status.timestamp) * 1000) : new Date();
+    const next = status.status as WhatsappMessageStatus;
+    const rank: Partial<Record<WhatsappMessageStatus, number>> = { sent: 1, delivered: 2, read: 3 };
+
+    if (next === 'failed') {
+      await storage.updateWhatsappMessage(message.organizationId, message.id, {
+        status: 'failed',
+        errorMessage: status.errors?.[0]?.title ?? status.errors?.[0]?.message ?? 'Delivery failed',
+      });
+      return;
+    }
+    if (!rank[next]) return;
+
+    await storage.updateWhatsappMessage(message.organizationId, message.id, {
+      ...((rank[next] ?? 0) > (rank[message.status as WhatsappMessageStatus] ?? 0) ? { status: next } : {}),
+      ...(rank[next]! >= 2 && !message.deliveredAt ? { deliveredAt: at } : {}),
+      ...(next === 'read' && !message.readAt ? { readAt: at } : {}),
     });
+  }
 
-    // Update message status in your database
+  // Messages sent to a contact are kept in their conversation in the inbox
+  private async recordOutbound(contact: Contact, sent: WhatsAppMessage, waMessageId: string | undefined, sentBy?: string): Promise<void> {
+    try {
+      const conversation = await storage.getOrCreateWhatsappConversation(contact.organizationId, contact.id, sent.phoneNumber);
+      await storage.createWhatsappMessage(contact.organizationId, {
+        conversationId: conversation.id,
+        contactId: contact.id,
+        direction: 'outbound',
+        waMessageId: waMessageId ?? null,
+        type: sent.type,
+        body: sent.message,
+        status: sent.status === 'sent' ? 'sent' : 'failed',
+        errorMessage: sent.errorMessage ?? null,
+        sentBy: sentBy ?? null,
+        sentAt: sent.sentAt,
+      });
+      await storage.recordWhatsappConversationMessage(contact.organizationId, conversation.id, {
+        at: sent.sentAt,
+        preview: sent.message.slice(0, 200),
+        inbound: false,
+      });
+    } catch (error) {
+      console.error('Failed to record WhatsApp message:', error);
+    }
   }
 
   // Get default templates for UMKM
@@ -0,0 +1,177 @@
+import { z } from "zod";
+
+// When each team member can be booked. Working hours are set per weekday in
+// the member's own time zone; date overrides and the organization's holiday
+// calendars change single days. Dates are calendar days ("2026-03-20") in
+// that zone, so a holiday is the same day wherever the server runs.
+
+// "09:00" to "17:00" on a weekday (0 is Sunday). A day can have several
+// periods, for example around a lunch break.
+export interface WorkingPeriod {
+  start: string;
+  end: string;
+}
+
+export interface WeeklyPeriod extends WorkingPeriod {
+  day: number;
+}
+
+export type WeeklyHours = WeeklyPeriod[];
+
+export const DEFAULT_TIME_ZONE = "UTC";
+
+// Monday to Friday, 9 to 5
+export const defaultWeeklyHours: WeeklyHours = [1, 2, 3, 4, 5].map((day) => ({ day, start: "09:00", end: "17:00" }));
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Milliseconds the time zone is ahead of UTC at the instant
+export function timeZoneOffset(at: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(new Date(at));
+  const get = (type: string) => Number(parts.find((part) => part.type === type)?.value);
+  return Date.UTC(get("year"), get("month") - 1, get("day"), get("hour"), get("minute"), get("second")) - Math.floor(at / 1000) * 1000;
+}
+
+// The instant a wall-clock time (given as if it were UTC) happens in the
+// zone, tried with the offsets a day either side of it. A time that happens
+// twice when clocks go back is the earlier one; a time skipped when they go
+// forward is read with the offset from before the change, which moves it
+// forward by the gap (Temporal's "compatible").
+export function wallTimeToUtc(wall: number, timeZone: string): Date {
+  const day = 24 * 60 * 60 * 1000;
+  const before = wall - timeZoneOffset(wall - day, timeZone);
+  const after = wall - timeZoneOffset(wall + day, timeZone);
+  const valid = [before, after].filter((at) => timeZoneOffset(at, timeZone) === wall - at);
+  return new Date(valid.length > 0 ? Math.min(...valid) : before);
+}
+
+// "2026-03-20" and "09:30" in the zone
+export function zonedTimeToUtc(date: string, time: string, timeZone: string): Date {
+  return wallTimeToUtc(Date.parse(`${date}T${time}:00Z`), timeZone);
+}
+
+// The calendar day, time of day and weekday of an instant in the zone
+export function zonedParts(at: Date, timeZone: string): { date: string; time: string; weekday: number } {
+  const wall = new Date(at.getTime() + timeZoneOffset(at.getTime(), timeZone));
+  const iso = wall.toISOString();
+  return { date: iso.slice(0, 10), time: iso.slice(11, 16), weekday: wall.getUTCDay() };
+}
+
+export function shiftDate(date: string, days: number): string {
+  const day = new Date(`${date}T00:00:00Z`);
+  day.setUTCDate(day.getUTCDate() + days);
+  return day.toISOString().slice(0, 10);
+}
+
+export function weekdayOf(date: string): number {
+  return new Date(`${date}T00:00:00Z`).getUTCDay();
+}
+
+// "14:30 (Asia/Jakarta)" style labels for emails and the UI
+export function formatInTimeZone(at: Date, timeZone: string, options: Intl.DateTimeFormatOptions = { dateStyle: "medium", timeStyle: "short" }): string {
+  return `${at.toLocaleString("en-US", { ...options, timeZone })} (${timeZone})`;
+}
+
+const timeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Use HH:MM");
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD");
+export const timeZoneSchema = z.string().refine(isValidTimeZone, "Unknown time zone");
+
+const workingPeriodSchema = z
+  .object({ start: timeSchema, end: timeSchema })
+  .refine((period) => period.start < period.end, "The end must be after the start");
+
+export const availabilityInputSchema = z.object({
+  timeZone: timeZoneSchema,
+  weeklyHours: z.array(workingPeriodSchema.and(z.object({ day: z.number().int().min(0).max(6) }))).max(21),
+  // null for no holidays
+  holidayCalendarId: z.number().int().nullable(),
+});
+export type AvailabilityInput = z.infer<typeof availabilityInputSchema>;
+
+// A day off when periods is empty, otherwise that day's hours instead of the usual ones
+export const availabilityOverrideInputSchema = z.object({
+  date: dateSchema,
+  periods: z.array(workingPeriodSchema).max(3).default([]),
+  reason: z.string().trim().max(200).nullable().optional(),
+});
+export type AvailabilityOverrideInput = z.infer<typeof availabilityOverrideInputSchema>;
+
+export const holidayCalendarInputSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  isDefault: z.boolean().default(false),
+  // Fills a new calendar with a preset's holidays
+  preset: z.string().optional(),
+});
+
+export const holidayInputSchema = z.object({
+  date: dateSchema,
+  name: z.string().trim().min(1, "Name is required").max(200),
+});
+
+export interface HolidayPreset {
+  id: string;
+  name: string;
+  holidays: { date: string; name: string }[];
+}
+
+// National public holidays set by the joint ministerial decree (SKB 3
+// Menteri), cuti bersama excluded. Dates following the lunar calendars are
+// as decreed and may be moved by later decrees.
+export const holidayPresets: HolidayPreset[] = [
+  {
+    id: "id",
+    name: "Indonesia public holidays",
+    holidays: [
+      { date: "2025-01-01", name: "Tahun Baru Masehi" },
+      { date: "2025-01-27", name: "Isra Mikraj Nabi Muhammad SAW" },
+      { date: "2025-01-29", name: "Tahun Baru Imlek" },
+      { date: "2025-03-29", name: "Hari Suci Nyepi" },
+      { date: "2025-03-31", name: "Idul Fitri" },
+      { date: "2025-04-01", name: "Idul Fitri" },
+      { date: "2025-04-18", name: "Wafat Yesus Kristus" },
+      { date: "2025-04-20", name: "Kebangkitan Yesus Kristus (Paskah)" },
+      { date: "2025-05-01", name: "Hari Buruh Internasional" },
+      { date: "2025-05-12", name: "Hari Raya Waisak" },
+      { date: "2025-05-29", name: "Kenaikan Yesus Kristus" },
+      { date: "2025-06-01", name: "Hari Lahir Pancasila" },
+      { date: "2025-06-06", name: "Idul Adha" },
+      { date: "2025-06-27", name: "Tahun Baru Islam" },
+      { date: "2025-08-17", name: "Hari Kemerdekaan Republik Indonesia" },
+      { date: "2025-09-05", name: "Maulid Nabi Muhammad SAW" },
+      { date: "2025-12-25", name: "Hari Raya Natal" },
+      { date: "2026-01-01", name: "Tahun Baru Masehi" },
+      { date: "2026-01-16", name: "Isra Mikraj Nabi Muhammad SAW" },
+      { date: "2026-02-17", name: "Tahun Baru Imlek" },
+      { date: "2026-03-19", name: "Hari Suci Nyepi" },
+      { date: "2026-03-21", name: "Idul Fitri" },
+      { date: "2026-03-22", name: "Idul Fitri" },
+      { date: "2026-04-03", name: "Wafat Yesus Kristus" },
+      { date: "2026-04-05", name: "Kebangkitan Yesus Kristus (Paskah)" },
+      { date: "2026-05-01", name: "Hari Buruh Internasional" },
+      { date: "2026-05-14", name: "Kenaikan Yesus Kristus" },
+      { date: "2026-05-27", name: "Idul Adha" },
+      { date: "2026-05-31", name: "Hari Raya Waisak" },
+      { date: "2026-06-01", name: "Hari Lahir Pancasila" },
+      { date: "2026-06-16", name: "Tahun Baru Islam" },
+      { date: "2026-08-17", name: "Hari Kemerdekaan Republik Indonesia" },
+      { date: "2026-08-25", name: "Maulid Nabi Muhammad SAW" },
+      { date: "2026-12-25", name: "Hari Raya Natal" },
+    ],
+  },
+];
@@ -0,0 +1,92 @@
+import { z } from "zod";
+import { meetingTypes } from "./schema";
+
+// Public booking pages. Each team member has one page at /book/<slug>
+// listing their meeting types; a type is booked at /book/<slug>/<type slug>.
+
+export const bookingQuestionTypes = ["text", "textarea"] as const;
+export type BookingQuestionType = typeof bookingQuestionTypes[number];
+
+// Asked on the booking form; the answers are kept on the meeting
+export interface BookingQuestion {
+  id: string;
+  label: string;
+  type: BookingQuestionType;
+  required: boolean;
+}
+
+// Who hosts a meeting type's meetings: the page owner, one member of a
+// pool picked round-robin, or every member of the pool together, at a time
+// they're all free
+export const bookingHostModes = ["owner", "round-robin", "collective"] as const;
+export type BookingHostMode = typeof bookingHostModes[number];
+
+// How round-robin picks among the members free at the booked time: fewest
+// upcoming meetings, or the contact's lead owner first when they're free
+export const roundRobinBalances = ["load", "lead-owner"] as const;
+export type RoundRobinBalance = typeof roundRobinBalances[number];
+
+// Why a member got a team meeting, kept on the assignment record
+export const assignmentReasons = ["fewest-meetings", "lead-owner", "collective"] as const;
+export type AssignmentReason = typeof assignmentReasons[number];
+
+const slugSchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .regex(/^[a-z0-9]+(-[a-z0-9]+)*$/, "Use lowercase letters, numbers and single hyphens")
+  .max(60);
+
+export const bookingPageInputSchema = z.object({
+  slug: slugSchema,
+  title: z.string().trim().min(1, "Title is required").max(120),
+  description: z.string().max(2000).nullable().optional(),
+  isActive: z.boolean().default(true),
+});
+export type BookingPageInput = z.infer<typeof bookingPageInputSchema>;
+
+export const bookingQuestionSchema = z.object({
+  id: z.string().min(1),
+  label: z.string().trim().min(1, "Question is required").max(200),
+  type: z.enum(bookingQuestionTypes).default("text"),
+  required: z.boolean().default(false),
+});
+
+export const bookingTypeInputSchema = z.object({
+  slug: slugSchema,
+  name: z.string().trim().min(1, "Name is required").max(120),
+  description: z.string().max(2000).nullable().optional(),
+  meetingType: z.enum(meetingTypes).default("call"),
+  duration: z.number().int().min(15).max(480),
+  location: z.string().max(500).nullable().optional(),
+  questions: z.array(bookingQuestionSchema).max(10).default([]),
+  // Sequence the contact is enrolled in once they book
+  sequenceId: z.number().int().nullable().optional(),
+  isActive: z.boolean().default(true),
+  hostMode: z.enum(bookingHostModes).default("owner"),
+  // Members who can host; the page owner only takes part when listed
+  poolUserIds: z.array(z.string().min(1)).max(20).default([]),
+  balanceBy: z.enum(roundRobinBalances).default("load"),
+}).refine((type) => type.hostMode === "owner" || new Set(type.poolUserIds).size >= 2, {
+  message: "A team meeting type needs at least two members",
+  path: ["poolUserIds"],
+});
+export type BookingTypeInput = z.infer<typeof bookingTypeInputSchema>;
+
+// What a prospect submits from the public page
+export const bookingRequestSchema = z.object({
+  start: z.coerce.date(),
+  name: z.string().trim().min(1, "Name is required").max(200),
+  email: z.string().trim().toLowerCase().email("Enter a valid email"),
+  phone: z.string().trim().max(40).optional(),
+  company: z.string().trim().max(200).optional(),
+  answers: z.record(z.string(), z.string().max(5000)).default({}),
+});
+export type BookingRequest = z.infer<typeof bookingRequestSchema>;
+
+// Campaign merge tags map to booking.<slug> or booking.<slug>/<type slug>
+export const BOOKING_MERGE_TAG_PREFIX = "booking.";
+
+export function bookingPath(pageSlug: string, typeSlug?: string): string {
+  return typeSlug ? `/book/${pageSlug}/${typeSlug}` : `/book/${pageSlug}`;
+}
@@ -0,0 +1,327 @@
+import { z } from "zod";
+
+// Campaign sequence definitions, shared by the automation engine, the
+// campaign_sequences table and the sequence editor.
+// Message channels send to the contact; task steps create a task for the
+// rep who enrolled them and wait steps only add their delay
+export const messageChannels = ["email", "sms", "whatsapp", "push"] as const;
+export const campaignChannels = [...messageChannels, "task", "wait"] as const;
+export type CampaignChannel = typeof campaignChannels[number];
+export type MessageChannel = typeof messageChannels[number];
+
+export const isMessageChannel = (channel: CampaignChannel): channel is MessageChannel =>
+  (messageChannels as readonly string[]).includes(channel);
+
+// SMS and push have no sender. They stay valid so saved sequences still
+// load, but the editor doesn't offer them and a sequence using one can't be
+// activated.
+export const unsentChannels: readonly MessageChannel[] = ["sms", "push"];
+
+export const isUnsentChannel = (channel: CampaignChannel): boolean =>
+  (unsentChannels as readonly string[]).includes(channel);
+
+// What a step does when its conditions don't match the contact
+export const stepFallbackActions = ["skip", "exit", "jump"] as const;
+export type StepFallbackAction = typeof stepFallbackActions[number];
+
+export const stepConditionOperators = ["equals", "not_equals", "greater_than", "less_than", "contains"] as const;
+export type StepConditionOperator = typeof stepConditionOperators[number];
+
+export interface CampaignSequence {
+  id: string;
+  name: string;
+  channels: MessageChannel[];
+  triggers: CampaignTrigger[];
+  steps: CampaignStep[];
+  personalization: PersonalizationRules;
+  abTesting: ABTestConfig;
+  status: "active" | "paused" | "draft";
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CampaignTrigger {
+  type: "lead_score_change" | "activity_completed" | "time_based" | "stage_change";
+  conditions: Record<string, any>;
+  delay: number; // minutes
+}
+
+export interface CampaignStep {
+  id: string;
+  sequence: number;
+  channel: CampaignChannel;
+  delay: number; // minutes from previous step
+  content: CampaignContent;
+  sendTimeOptimization: boolean;
+  conditions?: StepCondition[];
+  otherwise?: StepFallback; // skip when absent
+}
+
+export interface StepFallback {
+  action: StepFallbackAction;
+  stepId?: string; // the later step to jump to
+}
+
+export interface CampaignContent {
+  subject?: string; // for email, the title for tasks
+  message: string; // the description for tasks, empty for waits
+  mergeTags: string[];
+  abVariants?: ContentVariant[];
+  abWinner?: ABWinner; // set once a test is decided; the content is the winner's from then on
+}
+
+export interface ABWinner {
+  variantId: string;
+  criteria: ABTestConfig["winnerCriteria"];
+  confidence: number; // percent
+  decidedAt: string;
+}
+
+export interface ContentVariant {
+  id: string;
+  weight: number; // percentage
+  subject?: string;
+  message: string;
+}
+
+export interface PersonalizationRules {
+  mergeTags: Record<string, string>;
+  dynamicContent: DynamicContentRule[];
+  sendTimeOptimization: SendTimeConfig;
+}
+
+export interface DynamicContentRule {
+  condition: string;
+  content: string;
+  fallback: string;
+}
+
+export interface SendTimeConfig {
+  enabled: boolean;
+  timezone: string;
+  preferredHours: { start: number; end: number };
+  excludeDays: number[]; // 0-6, Sunday = 0
+}
+
+export interface ABTestConfig {
+  enabled: boolean;
+  testType: "subject" | "content" | "send_time";
+  variants: ABVariant[];
+  splitPercentage: number;
+  winnerCriteria: "open_rate" | "click_rate" | "conversion_rate";
+}
+
+export interface ABVariant {
+  id: string;
+  name: string;
+  percentage: number;
+  content: any;
+}
+
+export interface StepCondition {
+  field: string;
+  operator: StepConditionOperator;
+  value: any;
+}
+
+export interface CampaignMetrics {
+  sent: number;
+  delivered: number;
+  opened: number;
+  clicked: number;
+  converted: number;
+  unsubscribed: number;
+  bounced: number;
+  openRate: number;
+  clickRate: number;
+  conversionRate: number;
+}
+
+// An A/B-tested step as the results view shows it
+export interface VariantResult {
+  id: string;
+  weight: number;
+  subject?: string;
+  metrics: CampaignMetrics;
+}
+
+export interface StepTestResult {
+  stepId: string;
+  stepNumber: number;
+  channel: CampaignChannel;
+  criteria: ABTestConfig["winnerCriteria"];
+  leaderId: string | null;
+  confidence: number; // percent that the leader beats every other variant
+  significant: boolean;
+  winner: ABWinner | null;
+  variants: VariantResult[];
+}
+
+// How many of a sequence's enrollments are in each status
+export interface EnrollmentCounts {
+  active: number;
+  paused: number;
+  completed: number;
+  exited: number;
+}
+
+// Sequences as they are created and edited through the API. Channels are
+// derived from the steps, so they are not part of the input.
+const stepConditionSchema = z.object({
+  field: z.string().min(1),
+  operator: z.enum(stepConditionOperators),
+  value: z.union([z.string(), z.number(), z.boolean()]),
+});
+
+const contentVariantSchema = z.object({
+  id: z.string().min(1),
+  weight: z.number().min(0).max(100),
+  subject: z.string().optional(),
+  message: z.string(),
+});
+
+export const campaignStepSchema = z.object({
+  id: z.string().min(1),
+  sequence: z.number().int(),
+  channel: z.enum(campaignChannels),
+  delay: z.number().int().min(0),
+  content: z.object({
+    subject: z.string().optional(),
+    message: z.string(),
+    mergeTags: z.array(z.string()).default([]),
+    abVariants: z.array(contentVariantSchema).optional(),
+    abWinner: z.object({
+      variantId: z.string(),
+      criteria: z.enum(["open_rate", "click_rate", "conversion_rate"]),
+      confidence: z.number(),
+      decidedAt: z.string(),
+    }).optional(),
+  }),
+  sendTimeOptimization: z.boolean().default(false),
+  conditions: z.array(stepConditionSchema).optional(),
+  otherwise: z.object({
+    action: z.enum(stepFallbackActions),
+    stepId: z.string().optional(),
+  }).optional(),
+}).refine(step => step.channel === "wait" || step.content.message.trim().length > 0, "Message is required");
+
+export const campaignSequenceInputSchema = z.object({
+  name: z.string().trim().min(1, "Name is required"),
+  status: z.enum(["active", "paused", "draft"]).default("draft"),
+  triggers: z.array(z.object({
+    type: z.enum(["lead_score_change", "activity_completed", "time_based", "stage_change"]),
+    conditions: z.record(z.any()).default({}),
+    delay: z.number().int().min(0).default(0),
+  })).default([]),
+  steps: z.array(campaignStepSchema),
+  personalization: z.object({
+    mergeTags: z.record(z.string()).default({}),
+    dynamicContent: z.array(z.object({
+      condition: z.string(),
+      content: z.string(),
+      fallback: z.string(),
+    })).default([]),
+    sendTimeOptimization: z.object({
+      enabled: z.boolean(),
+      timezone: z.string(),
+      preferredHours: z.object({ start: z.number().int().min(0).max(23), end: z.number().int().min(1).max(24) }),
+      excludeDays: z.array(z.number().int().min(0).max(6)),
+    }).default({ enabled: false, timezone: "UTC", preferredHours: { start: 9, end: 17 }, excludeDays: [] }),
+  }).default({}),
+  abTesting: z.object({
+    enabled: z.boolean(),
+    testType: z.enum(["subject", "content", "send_time"]),
+    variants: z.array(z.object({
+      id: z.string(),
+      name: z.string(),
+      percentage: z.number(),
+      content: z.record(z.any()).default({}),
+    })),
+    splitPercentage: z.number(),
+    winnerCriteria: z.enum(["open_rate", "click_rate", "conversion_rate"]),
+  }).default({ enabled: false, testType: "subject", variants: [], splitPercentage: 0, winnerCriteria: "open_rate" }),
+});
+
+export type CampaignSequenceInput = z.infer<typeof campaignSequenceInputSchema>;
+
+// {{tag}} placeholders used in a piece of content, in order of first use
+export function extractMergeTags(text: string): string[] {
+  const tags = Array.from(text.matchAll(/{{([\w.]+)}}/g), match => match[1]);
+  return Array.from(new Set(tags));
+}
+
+export interface SequenceIssue {
+  stepId?: string;
+  message: string;
+}
+
+// Problems that keep a sequence from being activated. Drafts may have them;
+// the editor shows them and the API rejects activating a sequence with any.
+export function sequenceIssues(sequence: Pick<CampaignSequenceInput, "steps" | "personalization" | "abTesting">): SequenceIssue[] {
+  const issues: SequenceIssue[] = [];
+  const { steps } = sequence;
+  const knownTags = new Set(Object.keys(sequence.personalization.mergeTags));
+
+  if (!steps.some(step => step.channel !== "wait")) {
+    issues.push({ message: "Add at least one step that sends a message or creates a task" });
+  }
+  if (steps.length > 0 && steps[steps.length - 1].channel === "wait") {
+    issues.push({ stepId: steps[steps.length - 1].id, message: "The last step can't be a wait" });
+  }
+
+  steps.forEach((step, index) => {
+    const label = `Step ${index + 1}`;
+    const issue = (message: string) => issues.push({ stepId: step.id, message: `${label}: ${message}` });
+
+    if (isUnsentChannel(step.channel)) {
+      issue(`${step.channel === "sms" ? "SMS" : "push"} messages can't be sent; use email or WhatsApp`);
+    }
+    if (step.channel !== "wait" && !step.content.message.trim()) {
+      issue(step.channel === "task" ? "describe the task" : "write a message");
+    }
+    if (step.channel === "email" && !step.content.subject?.trim()) {
+      issue("add a subject");
+    }
+    if (step.channel === "task" && !step.content.subject?.trim()) {
+      issue("give the task a title");
+    }
+
+    const texts = [step.content, ...(step.content.abVariants ?? [])].map(content => `${content.subject ?? ""} ${content.message}`);
+    const unknownTags = extractMergeTags(texts.join(" "))
+      .filter(tag => !knownTags.has(tag) && !tag.startsWith("custom.") && tag !== "dynamicContent");
+    if (unknownTags.length > 0) {
+      issue(`unknown merge tag${unknownTags.length > 1 ? "s" : ""} ${unknownTags.map(tag => `{{${tag}}}`).join(", ")}`);
+    }
+
+    const variants = step.content.abVariants ?? [];
+    if (variants.length === 1) {
+      issue("an A/B test needs at least two variants");
+    }
+    if (variants.length > 0 && variants.reduce((sum, variant) => sum + variant.weight, 0) !== 100) {
+      issue("variant weights must add up to 100");
+    }
+    if (sequence.abTesting.testType === "subject" && variants.length > 0) {
+      if (step.channel !== "email") {
+        issue("subject tests only work on email steps");
+      } else if (variants.some(variant => !variant.subject?.trim())) {
+        issue("every variant needs a subject");
+      }
+    }
+    if (sequence.abTesting.testType === "content" && variants.some(variant => !variant.message.trim())) {
+      issue("every variant needs a message");
+    }
+
+    if (step.conditions?.some(condition => !condition.field.trim())) {
+      issue("every condition needs a field");
+    }
+    // Jumps only go forward so an enrollment always reaches the end
+    if (step.otherwise?.action === "jump") {
+      const target = steps.findIndex(other => other.id === step.otherwise?.stepId);
+      if (target <= index) {
+        issue("conditions can only jump to a later step");
+      }
+    }
+  });
+
+  return issues;
+}
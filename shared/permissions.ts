@@ -0,0 +1,55 @@
+// Organization roles (users.organizationRole) and what each one may do.
+// Shared so the server can enforce and the client can hide the same actions.
+export const organizationRoles = ["owner", "admin", "member"] as const;
+export type OrganizationRole = typeof organizationRoles[number];
+
+export type Permission =
+  | "contacts:delete"
+  | "contacts:import"
+  | "contacts:merge"
+  | "deals:delete"
+  | "templates:manage"
+  | "customFields:manage"
+  | "pipelines:manage"
+  | "holidays:manage"
+  | "products:manage"
+  | "campaigns:manage"
+  | "campaigns:send"
+  | "jobs:manage"
+  | "team:invite"
+  | "team:manage"
+  | "billing:view"
+  | "exports:view"
+  | "assignments:view"
+  | "billing:manage";
+
+const adminPermissions: Permission[] = [
+  "contacts:delete",
+  "contacts:import",
+  "contacts:merge",
+  "deals:delete",
+  "templates:manage",
+  "customFields:manage",
+  "pipelines:manage",
+  "holidays:manage",
+  "products:manage",
+  "campaigns:manage",
+  "campaigns:send",
+  "jobs:manage",
+  "team:invite",
+  "team:manage",
+  "billing:view",
+  "exports:view",
+  "assignments:view",
+];
+
+export const rolePermissions: Record<OrganizationRole, Permission[]> = {
+  owner: [...adminPermissions, "billing:manage"],
+  admin: adminPermissions,
+  member: [],
+};
+
+export function hasPermission(role: string | null | undefined, permission: Permission): boolean {
+  const permissions = rolePermissions[role as OrganizationRole];
+  return !!permissions && permissions.includes(permission);
+}
@@ -0,0 +1,48 @@
+// Line item arithmetic, shared so the deal forms preview exactly what the
+// server stores. Discount and tax rates are percentages.
+export interface LinePricing {
+  quantity: number;
+  unitPrice: number;
+  discount: number;
+  taxRate: number;
+}
+
+export interface LineAmounts {
+  subtotal: number;
+  discountAmount: number;
+  amount: number;
+  taxAmount: number;
+  total: number;
+}
+
+export interface DealTotals {
+  subtotal: number;
+  discountAmount: number;
+  // What the deal is worth: the sum of line amounts after discount, before tax
+  amount: number;
+  taxAmount: number;
+  total: number;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export function calculateLine(line: LinePricing): LineAmounts {
+  const subtotal = round2(line.quantity * line.unitPrice);
+  const discountAmount = round2((subtotal * line.discount) / 100);
+  const amount = round2(subtotal - discountAmount);
+  const taxAmount = round2((amount * line.taxRate) / 100);
+  return { subtotal, discountAmount, amount, taxAmount, total: round2(amount + taxAmount) };
+}
+
+export function calculateTotals(lines: LinePricing[]): DealTotals {
+  const totals: DealTotals = { subtotal: 0, discountAmount: 0, amount: 0, taxAmount: 0, total: 0 };
+  for (const line of lines) {
+    const amounts = calculateLine(line);
+    totals.subtotal = round2(totals.subtotal + amounts.subtotal);
+    totals.discountAmount = round2(totals.discountAmount + amounts.discountAmount);
+    totals.amount = round2(totals.amount + amounts.amount);
+    totals.taxAmount = round2(totals.taxAmount + amounts.taxAmount);
+    totals.total = round2(totals.total + amounts.total);
+  }
+  return totals;
+}
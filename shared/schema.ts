@@ -1,7 +1,42 @@
-import { pgTable, text, serial, integer, boolean, timestamp, decimal, varchar, jsonb, index } from "drizzle-orm/pg-core";
-import { relations } from "drizzle-orm";
+import { pgTable, text, serial, integer, boolean, timestamp, decimal, varchar, jsonb, index, uniqueIndex } from "drizzle-orm/pg-core";
+import { relations, sql } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import type { ABTestConfig, CampaignStep, CampaignTrigger, MessageChannel, PersonalizationRules } from "./campaigns";
+import type { AssignmentReason, BookingHostMode, BookingQuestion, RoundRobinBalance } from "./booking";
+import { timeZoneSchema, type WeeklyHours, type WorkingPeriod } from "./availability";
+
+// Custom field values live on the record, keyed by customFieldDefinitions.key
+export type CustomFieldValue = string | number | boolean | string[] | null;
+export type CustomFieldValues = Record<string, CustomFieldValue>;
+
+// Totals over the emails logged for a contact, kept on the contact for lead scoring
+export interface EmailEngagement {
+  sent: number;
+  delivered: number;
+  opened: number;
+  clicked: number;
+  bounced: number;
+  complained: number;
+  lastOpenedAt: string | null;
+  lastClickedAt: string | null;
+}
+
+// Consent is per channel; a channel without an entry has never been asked.
+// Opting out of a channel also puts the contact's address on the
+// organization's suppression list, which is what sends check.
+export const consentChannels = ["email", "whatsapp", "sms"] as const;
+export type ConsentChannel = typeof consentChannels[number];
+
+export const consentStatuses = ["opted_in", "opted_out"] as const;
+export type ConsentStatus = typeof consentStatuses[number];
+
+export interface ChannelConsent {
+  status: ConsentStatus;
+  source: string; // manual, preference_center, unsubscribe_link, mailgun, spam_complaint
+  updatedAt: string;
+}
+export type ContactConsent = Partial<Record<ConsentChannel, ChannelConsent>>;
 
 export const contacts = pgTable("contacts", {
   id: serial("id").primaryKey(),
@@ -17,6 +52,10 @@ export const contacts = pgTable("contacts", {
   source: text("source"), // website, referral, cold-call, etc
   tags: text("tags").array().default([]),
   notes: text("notes"),
+  customFields: jsonb("custom_fields").$type<CustomFieldValues>().default({}),
+  emailEngagement: jsonb("email_engagement").$type<EmailEngagement>(), // rolled up from email_messages
+  consent: jsonb("consent").$type<ContactConsent>().notNull().default({}),
+  timeZone: varchar("time_zone", { length: 64 }), // IANA zone, for showing times in the contact's local time
   lastContactDate: timestamp("last_contact_date"),
   createdBy: varchar("created_by").references(() => users.id),
   createdAt: timestamp("created_at").defaultNow(),
@@ -26,7 +65,7 @@ export const activities = pgTable("activities", {
   id: serial("id").primaryKey(),
   organizationId: integer("organization_id").references(() => organizations.id).notNull(),
   contactId: integer("contact_id").references(() => contacts.id),
-  type: text("type").notNull(), // call, email, meeting, note
+  type: text("type").notNull(), // call, email, meeting, note, reply (a message from the contact)
   title: text("title").notNull(),
   description: text("description"),
   date: timestamp("date").defaultNow(),
@@ -54,16 +93,141 @@ export const deals = pgTable("deals", {
   contactId: integer("contact_id").references(() => contacts.id),
   title: text("title").notNull(),
   value: decimal("value", { precision: 10, scale: 2 }),
-  stage: text("stage").default("prospecting"), // prospecting, qualified, proposal, negotiation, closed-won, closed-lost
+  stageId: integer("stage_id").references(() => pipelineStages.id), // the stage's pipeline is the deal's pipeline
+  // Stage key from before pipelines were configurable; only read to backfill stageId
+  legacyStage: text("stage"),
   probability: integer("probability").default(50),
+  ownerId: varchar("owner_id").references(() => users.id), // the rep the deal's revenue is attributed to
+  forecastCategory: text("forecast_category").notNull().default("pipeline"), // pipeline, best_case, commit
   expectedCloseDate: timestamp("expected_close_date"),
   actualCloseDate: timestamp("actual_close_date"),
   notes: text("notes"),
+  customFields: jsonb("custom_fields").$type<CustomFieldValues>().default({}),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// How confident the owner is that an open deal closes in its expected period
+export const forecastCategories = ["pipeline", "best_case", "commit"] as const;
+export type ForecastCategory = typeof forecastCategories[number];
+
+// Organization-defined sales pipelines, each with its own ordered stages
+export const stageOutcomes = ["open", "won", "lost"] as const;
+export type StageOutcome = typeof stageOutcomes[number];
+
+export const pipelines = pgTable("pipelines", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").references(() => organizations.id).notNull(),
+  name: text("name").notNull(),
+  isDefault: boolean("is_default").default(false), // new deals without a stage land in this pipeline
+  sortOrder: integer("sort_order").default(0),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const pipelineStages = pgTable("pipeline_stages", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").references(() => organizations.id).notNull(),
+  pipelineId: integer("pipeline_id").references(() => pipelines.id).notNull(),
+  name: text("name").notNull(),
+  sortOrder: integer("sort_order").default(0),
+  probability: integer("probability").notNull().default(0), // applied to deals entering the stage
+  outcome: text("outcome").notNull().default("open"), // open, won, lost
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("pipeline_stages_pipeline_idx").on(table.pipelineId, table.sortOrder),
+]);
+
+// Append-only log of every stage a deal enters, starting with the one it is
+// created in. Stage names are copied so history survives stages being renamed
+// or removed, which is also why the stage ids are not foreign keys.
+export const dealStageTransitions = pgTable("deal_stage_transitions", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").references(() => organizations.id).notNull(),
+  dealId: integer("deal_id").references(() => deals.id).notNull(),
+  fromStageId: integer("from_stage_id"), // null for the stage a deal was created in
+  fromStageName: text("from_stage_name"),
+  toStageId: integer("to_stage_id").notNull(),
+  toStageName: text("to_stage_name").notNull(),
+  userId: varchar("user_id").references(() => users.id),
+  value: decimal("value", { precision: 10, scale: 2 }), // deal value at the time of the move
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("deal_stage_transitions_deal_idx").on(table.dealId, table.createdAt),
+]);
+
+// The organization's price book. Products used on deals are archived rather
+// than deleted so past line items keep pointing at them.
+export const products = pgTable("products", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").references(() => organizations.id).notNull(),
+  name: text("name").notNull(),
+  sku: text("sku"),
+  description: text("description"),
+  unitPrice: decimal("unit_price", { precision: 10, scale: 2 }).notNull(),
+  taxRate: decimal("tax_rate", { precision: 5, scale: 2 }).notNull().default("0"), // percent
+  isActive: boolean("is_active").default(true),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// What a deal sells. Name and prices are copied from the product when the line
+// is added, so later price book changes don't rewrite existing deals.
+export const dealLineItems = pgTable("deal_line_items", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").references(() => organizations.id).notNull(),
+  dealId: integer("deal_id").references(() => deals.id).notNull(),
+  productId: integer("product_id").references(() => products.id), // null for one-off lines
+  name: text("name").notNull(),
+  quantity: decimal("quantity", { precision: 10, scale: 2 }).notNull().default("1"),
+  unitPrice: decimal("unit_price", { precision: 10, scale: 2 }).notNull(),
+  discount: decimal("discount", { precision: 5, scale: 2 }).notNull().default("0"), // percent off the line
+  taxRate: decimal("tax_rate", { precision: 5, scale: 2 }).notNull().default("0"), // percent
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(), // after discount, before tax
+  taxAmount: decimal("tax_amount", { precision: 10, scale: 2 }).notNull().default("0"),
+  sortOrder: integer("sort_order").default(0),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("deal_line_items_deal_idx").on(table.dealId, table.sortOrder),
+]);
+
+// Everything printed on a quote, frozen when the version is generated so an old
+// version always renders exactly as it was sent
+export interface QuoteSnapshot {
+  organization: { name: string; domain: string | null; email: string | null };
+  deal: { title: string };
+  contact: { name: string; email: string; company: string | null; phone: string | null } | null;
+  owner: { name: string; email: string | null } | null;
+  lines: { name: string; quantity: number; unitPrice: number; discount: number; taxRate: number; amount: number; taxAmount: number }[];
+  totals: { subtotal: number; discountAmount: number; amount: number; taxAmount: number; total: number };
+}
+
+export const quoteStatuses = ["draft", "sent"] as const;
+export type QuoteStatus = typeof quoteStatuses[number];
+
+// Quotes generated from a deal. Every version of a deal's quote shares the
+// quote number, which comes from organizations.quoteSequence.
+export const quotes = pgTable("quotes", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").references(() => organizations.id).notNull(),
+  dealId: integer("deal_id").references(() => deals.id).notNull(),
+  contactId: integer("contact_id").references(() => contacts.id),
+  quoteNumber: text("quote_number").notNull(),
+  version: integer("version").notNull().default(1),
+  status: text("status").notNull().default("draft"), // draft, sent
+  snapshot: jsonb("snapshot").$type<QuoteSnapshot>().notNull(),
+  total: decimal("total", { precision: 10, scale: 2 }).notNull(), // including tax
+  terms: text("terms"),
+  expiresAt: timestamp("expires_at").notNull(),
+  sentAt: timestamp("sent_at"),
+  sentTo: text("sent_to"),
+  createdBy: varchar("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("quotes_number_version_idx").on(table.organizationId, table.quoteNumber, table.version),
+  index("quotes_deal_idx").on(table.dealId, table.version),
+]);
+
 export const emailTemplates = pgTable("email_templates", {
   id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").references(() => organizations.id),
   name: text("name").notNull(),
   subject: text("subject").notNull(),
   body: text("body").notNull(),
@@ -89,36 +253,171 @@ export const aiResults = pgTable("ai_results", {
   index("ai_results_purpose_idx").on(table.contactId, table.resultType, table.purpose),
 ]);
 
+// Organization-defined fields for contacts and deals
+export const customFieldTypes = ["text", "number", "date", "select", "multi-select", "boolean"] as const;
+export type CustomFieldType = typeof customFieldTypes[number];
+
+export const customFieldDefinitions = pgTable("custom_field_definitions", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").references(() => organizations.id).notNull(),
+  entityType: text("entity_type").notNull(), // contact, deal
+  key: text("key").notNull(), // used in customFields, /api/leads filters and {{custom.key}} merge tags
+  label: text("label").notNull(),
+  fieldType: text("field_type").notNull(), // text, number, date, select, multi-select, boolean
+  options: text("options").array().default([]), // choices for select and multi-select
+  isRequired: boolean("is_required").default(false),
+  sortOrder: integer("sort_order").default(0),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("custom_field_definitions_key_idx").on(table.organizationId, table.entityType, table.key),
+]);
+
+const customFieldValuesSchema = z.record(
+  z.union([z.string(), z.number(), z.boolean(), z.array(z.string()), z.null()])
+);
+
 // Insert schemas
+// organizationId is never accepted from the client; storage stamps it from the session
 export const insertContactSchema = createInsertSchema(contacts).omit({
   id: true,
+  organizationId: true,
+  emailEngagement: true,
+  consent: true,
   createdAt: true,
 }).extend({
-  organizationId: z.number().default(1),
+  customFields: customFieldValuesSchema.optional(),
+  timeZone: timeZoneSchema.nullable().optional(),
 });
 
 export const insertActivitySchema = createInsertSchema(activities).omit({
   id: true,
+  organizationId: true,
   createdAt: true,
 });
 
 export const insertTaskSchema = createInsertSchema(tasks).omit({
   id: true,
+  organizationId: true,
   createdAt: true,
 });
 
 export const insertDealSchema = createInsertSchema(deals).omit({
   id: true,
+  organizationId: true,
+  legacyStage: true,
   createdAt: true,
 }).extend({
   expectedCloseDate: z.string().transform((val) => new Date(val)).optional(),
+  forecastCategory: z.enum(forecastCategories).optional(),
+  customFields: customFieldValuesSchema.optional(),
 });
 
 export const insertEmailTemplateSchema = createInsertSchema(emailTemplates).omit({
   id: true,
+  organizationId: true,
   createdAt: true,
 });
 
+export const insertCustomFieldDefinitionSchema = createInsertSchema(customFieldDefinitions).omit({
+  id: true,
+  organizationId: true,
+  createdAt: true,
+}).extend({
+  entityType: z.enum(["contact", "deal"]),
+  key: z.string().regex(/^[a-z][a-z0-9_]*$/, "Key must start with a letter and use lowercase letters, numbers and underscores"),
+  label: z.string().min(1, "Label is required"),
+  fieldType: z.enum(customFieldTypes),
+  options: z.array(z.string().min(1)).optional(),
+});
+
+export const insertPipelineStageSchema = createInsertSchema(pipelineStages).omit({
+  id: true,
+  organizationId: true,
+  pipelineId: true,
+  createdAt: true,
+}).extend({
+  name: z.string().min(1, "Stage name is required"),
+  probability: z.number().int().min(0).max(100),
+  outcome: z.enum(stageOutcomes),
+});
+
+export const insertPipelineSchema = createInsertSchema(pipelines).omit({
+  id: true,
+  organizationId: true,
+  createdAt: true,
+}).extend({
+  name: z.string().min(1, "Pipeline name is required"),
+});
+
+// A pipeline is always saved together with its full, ordered stage list.
+// Stages with an id are updated, new ones are created and missing ones removed.
+export const pipelineWithStagesSchema = insertPipelineSchema.extend({
+  stages: z.array(insertPipelineStageSchema.omit({ sortOrder: true }).extend({ id: z.number().int().optional() }))
+    .min(1, "A pipeline needs at least one stage")
+    .refine(stages => stages.some(stage => stage.outcome === "open"), "A pipeline needs at least one open stage")
+    .refine(stages => new Set(stages.map(stage => stage.name.trim().toLowerCase())).size === stages.length, "Stage names must be unique"),
+});
+
+export const insertProductSchema = createInsertSchema(products).omit({
+  id: true,
+  organizationId: true,
+  createdAt: true,
+}).extend({
+  name: z.string().min(1, "Product name is required"),
+  unitPrice: z.coerce.number().min(0, "Price can't be negative").transform(String),
+  taxRate: z.coerce.number().min(0).max(100).transform(String).optional(),
+});
+
+// Line items are always saved as the deal's full list; amounts are computed on
+// the server. Name and unit price fall back to the product's when left out.
+export const dealLineItemInputSchema = z.object({
+  productId: z.number().int().nullable().optional(),
+  name: z.string().optional(),
+  quantity: z.coerce.number().positive("Quantity must be greater than zero"),
+  unitPrice: z.coerce.number().min(0, "Price can't be negative").optional(),
+  discount: z.coerce.number().min(0).max(100, "Discount can't exceed 100%").default(0),
+  taxRate: z.coerce.number().min(0).max(100).optional(),
+}).refine(line => line.productId || (line.name?.trim() && line.unitPrice !== undefined), "Lines without a product need a name and unit price");
+
+// The shape of customFields depends on each organization's definitions, so it is
+// built at runtime. Unknown keys (e.g. from deleted definitions) are stripped.
+export function buildCustomFieldsSchema(definitions: CustomFieldDefinition[]) {
+  const shape: Record<string, z.ZodTypeAny> = {};
+
+  for (const definition of definitions) {
+    const options = (definition.options ?? []) as [string, ...string[]];
+    let field: z.ZodTypeAny;
+
+    switch (definition.fieldType) {
+      case "number":
+        field = z.number();
+        break;
+      case "date":
+        field = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, `${definition.label} must be a date (YYYY-MM-DD)`);
+        break;
+      case "boolean":
+        field = z.boolean();
+        break;
+      case "select":
+        field = options.length ? z.enum(options) : z.string();
+        break;
+      case "multi-select":
+        field = z.array(options.length ? z.enum(options) : z.string());
+        break;
+      default:
+        field = z.string();
+    }
+
+    if (definition.isRequired) {
+      shape[definition.key] = definition.fieldType === "text" ? (field as z.ZodString).min(1, `${definition.label} is required`) : field;
+    } else {
+      shape[definition.key] = field.nullable().optional();
+    }
+  }
+
+  return z.object(shape);
+}
+
 export const whatsappTemplates = pgTable("whatsapp_templates", {
   id: serial("id").primaryKey(),
   name: text("name").notNull(),
@@ -136,12 +435,14 @@ export const whatsappTemplates = pgTable("whatsapp_templates", {
 
 export const insertAiResultSchema = createInsertSchema(aiResults).omit({
   id: true,
+  organizationId: true,
   createdAt: true,
   updatedAt: true,
 });
 
 export const insertWhatsappTemplateSchema = createInsertSchema(whatsappTemplates).omit({
   id: true,
+  organizationId: true,
   createdAt: true,
   updatedAt: true,
 });
@@ -159,6 +460,25 @@ export type EmailTemplate = typeof emailTemplates.$inferSelect;
 export type InsertEmailTemplate = z.infer<typeof insertEmailTemplateSchema>;
 export type WhatsappTemplate = typeof whatsappTemplates.$inferSelect;
 export type InsertWhatsappTemplate = z.infer<typeof insertWhatsappTemplateSchema>;
+export type CustomFieldDefinition = typeof customFieldDefinitions.$inferSelect;
+export type InsertCustomFieldDefinition = z.infer<typeof insertCustomFieldDefinitionSchema>;
+export type Pipeline = typeof pipelines.$inferSelect;
+export type InsertPipeline = z.infer<typeof insertPipelineSchema>;
+export type PipelineStage = typeof pipelineStages.$inferSelect;
+export type InsertPipelineStage = z.infer<typeof insertPipelineStageSchema>;
+export type PipelineWithStages = Pipeline & { stages: PipelineStage[] };
+export type PipelineInput = z.infer<typeof pipelineWithStagesSchema>;
+// Deals as handed to scoring and AI prompts, with their stage resolved
+export type DealWithStage = Deal & { stage: PipelineStage | null };
+export type DealStageTransition = typeof dealStageTransitions.$inferSelect;
+export type InsertDealStageTransition = typeof dealStageTransitions.$inferInsert;
+export type Product = typeof products.$inferSelect;
+export type InsertProduct = z.infer<typeof insertProductSchema>;
+export type DealLineItem = typeof dealLineItems.$inferSelect;
+export type InsertDealLineItem = typeof dealLineItems.$inferInsert;
+export type DealLineItemInput = z.infer<typeof dealLineItemInputSchema>;
+export type Quote = typeof quotes.$inferSelect;
+export type InsertQuote = typeof quotes.$inferInsert;
 export type AiResult = typeof aiResults.$inferSelect;
 export type InsertAiResult = z.infer<typeof insertAiResultSchema>;
 
@@ -186,6 +506,9 @@ export const organizations = pgTable("organizations", {
   stripeCustomerId: varchar("stripe_customer_id"),
   stripeSubscriptionId: varchar("stripe_subscription_id"),
   billingEmail: varchar("billing_email"),
+  quoteSequence: integer("quote_sequence").notNull().default(0), // last quote number issued
+  whatsappPhoneNumberId: varchar("whatsapp_phone_number_id", { length: 50 }).unique(), // Cloud API number whose incoming messages land in this organization's inbox and that its messages go out from
+  whatsappEncryptedAccessToken: text("whatsapp_encrypted_access_token"), // Cloud API token for that number
   trialEndsAt: timestamp("trial_ends_at"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
@@ -201,6 +524,7 @@ export const users = pgTable("users", {
   role: varchar("role").default("user").notNull(),
   organizationId: integer("organization_id").references(() => organizations.id),
   organizationRole: varchar("organization_role", { length: 50 }).default("member"), // owner, admin, member
+  passwordHash: varchar("password_hash"), // set for members who joined through an invitation
   isActive: boolean("is_active").default(true),
   lastLoginAt: timestamp("last_login_at"),
   createdAt: timestamp("created_at").defaultNow(),
@@ -241,13 +565,482 @@ export const invitations = pgTable("invitations", {
   organizationId: integer("organization_id").references(() => organizations.id).notNull(),
   email: varchar("email", { length: 255 }).notNull(),
   role: varchar("role", { length: 50 }).notNull().default("member"),
-  token: varchar("token", { length: 255 }).notNull(),
+  token: varchar("token", { length: 255 }).unique().notNull(),
   invitedBy: varchar("invited_by").references(() => users.id),
   status: varchar("status", { length: 20 }).notNull().default("pending"), // pending, accepted, expired
   expiresAt: timestamp("expires_at").notNull(),
+  acceptedAt: timestamp("accepted_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Audit trail of data exports, visible to owners and admins
+export const exportLogs = pgTable("export_logs", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").references(() => organizations.id).notNull(),
+  userId: varchar("user_id").references(() => users.id),
+  entityType: varchar("entity_type", { length: 20 }).notNull(), // contacts, leads, deals
+  format: varchar("format", { length: 10 }).notNull(), // csv, xlsx, vcf
+  filters: jsonb("filters").$type<Record<string, unknown>>().default({}),
+  rowCount: integer("row_count").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Durable background jobs. The worker claims due rows with SKIP LOCKED, so any
+// number of server processes can share the queue. Failed jobs go back to
+// queued with a backoff until maxAttempts, then become dead (the dead-letter list).
+export const jobStatuses = ["queued", "running", "completed", "dead"] as const;
+export type JobStatus = typeof jobStatuses[number];
+export const jobTypes = ["campaign.step", "meeting.reminder", "leads.score", "leads.ai-score", "mailbox.sync", "calendar.sync"] as const;
+export type JobType = typeof jobTypes[number];
+
+export interface JobProgress {
+  done: number;
+  total: number;
+}
+
+export const jobs = pgTable("jobs", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").references(() => organizations.id).notNull(),
+  type: varchar("type", { length: 50 }).notNull(), // campaign.step, meeting.reminder, leads.score, leads.ai-score, mailbox.sync, calendar.sync
+  payload: jsonb("payload").$type<Record<string, any>>().notNull().default({}),
+  status: varchar("status", { length: 20 }).notNull().default("queued"), // queued, running, completed, dead
+  runAt: timestamp("run_at").notNull().defaultNow(),
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull().default(5),
+  lastError: text("last_error"),
+  idempotencyKey: varchar("idempotency_key", { length: 255 }), // enqueueing the same key again returns the existing job
+  progress: jsonb("progress").$type<JobProgress>(),
+  result: jsonb("result").$type<Record<string, any>>(),
+  lockedAt: timestamp("locked_at"),
+  completedAt: timestamp("completed_at"),
+  createdBy: varchar("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("jobs_idempotency_key_idx").on(table.organizationId, table.idempotencyKey),
+  index("jobs_due_idx").on(table.status, table.runAt),
+]);
+
+// Campaign sequences owned by an organization. New organizations start with
+// copies of the built-in sequences; templateKey records which one.
+export const campaignSequences = pgTable("campaign_sequences", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").references(() => organizations.id).notNull(),
+  name: text("name").notNull(),
+  status: varchar("status", { length: 20 }).notNull().default("draft"), // draft, active, paused
+  channels: text("channels").array().$type<MessageChannel[]>().notNull().default([]),
+  triggers: jsonb("triggers").$type<CampaignTrigger[]>().notNull().default([]),
+  steps: jsonb("steps").$type<CampaignStep[]>().notNull().default([]),
+  personalization: jsonb("personalization").$type<PersonalizationRules>().notNull(),
+  abTesting: jsonb("ab_testing").$type<ABTestConfig>().notNull(),
+  templateKey: varchar("template_key", { length: 50 }),
+  createdBy: varchar("created_by").references(() => users.id),
   createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// A contact's progress through a sequence. Active enrollments wait on the job
+// in nextJobId; a job that finds itself no longer referenced does nothing, so
+// pausing or exiting never has to chase queued jobs.
+export const enrollmentStatuses = ["active", "paused", "completed", "exited"] as const;
+export type EnrollmentStatus = typeof enrollmentStatuses[number];
+
+export const enrollmentExitReasons = ["replied", "meeting_booked", "deal_won", "manual", "merged", "conditions_not_met", "unsubscribed"] as const;
+export type EnrollmentExitReason = typeof enrollmentExitReasons[number];
+
+export const campaignEnrollments = pgTable("campaign_enrollments", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").references(() => organizations.id).notNull(),
+  sequenceId: integer("sequence_id").references(() => campaignSequences.id).notNull(),
+  contactId: integer("contact_id").references(() => contacts.id).notNull(),
+  status: varchar("status", { length: 20 }).notNull().default("active"), // active, paused, completed, exited
+  currentStep: integer("current_step").notNull().default(0), // index of the next step to run
+  nextRunAt: timestamp("next_run_at"),
+  nextJobId: integer("next_job_id").references(() => jobs.id),
+  lastStepAt: timestamp("last_step_at"),
+  exitReason: varchar("exit_reason", { length: 20 }), // replied, meeting_booked, deal_won, manual, merged, conditions_not_met, unsubscribed
+  enrolledBy: varchar("enrolled_by").references(() => users.id),
+  enrolledAt: timestamp("enrolled_at").notNull().defaultNow(),
+  endedAt: timestamp("ended_at"),
+}, (table) => [
+  // A contact can only be in a sequence once at a time
+  uniqueIndex("campaign_enrollments_open_idx")
+    .on(table.sequenceId, table.contactId)
+    .where(sql`${table.status} in ('active', 'paused')`),
+  index("campaign_enrollments_contact_idx").on(table.contactId, table.status),
+]);
+
+// One row per step that ran for an enrollment, with the A/B variant the
+// contact got. Engagement timestamps are filled in as events arrive, and are
+// what per-variant campaign metrics are counted from.
+export const campaignSends = pgTable("campaign_sends", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").references(() => organizations.id).notNull(),
+  sequenceId: integer("sequence_id").references(() => campaignSequences.id).notNull(),
+  enrollmentId: integer("enrollment_id").references(() => campaignEnrollments.id).notNull(),
+  contactId: integer("contact_id").references(() => contacts.id).notNull(),
+  stepId: varchar("step_id", { length: 50 }).notNull(),
+  channel: varchar("channel", { length: 20 }).notNull(),
+  variantId: varchar("variant_id", { length: 50 }), // null when the step has no test running
+  sentAt: timestamp("sent_at").notNull().defaultNow(),
+  deliveredAt: timestamp("delivered_at"),
+  openedAt: timestamp("opened_at"),
+  clickedAt: timestamp("clicked_at"),
+  convertedAt: timestamp("converted_at"),
+  unsubscribedAt: timestamp("unsubscribed_at"),
+  bouncedAt: timestamp("bounced_at"),
+}, (table) => [
+  index("campaign_sends_step_idx").on(table.sequenceId, table.stepId),
+  index("campaign_sends_enrollment_idx").on(table.enrollmentId),
+]);
+
+// Every email sent to a contact, and every email to or from one found in a
+// connected mailbox. The tracking token identifies the message in its open
+// pixel and click links; links holds the original URLs the click links
+// redirect to. Mailgun webhooks find the message by providerMessageId.
+// Mailbox emails carry their Message-ID header, and threadId is the
+// Message-ID of the first email in their thread.
+export const emailMessageSources = ["campaign", "bulk", "follow_up", "welcome", "quote", "mailbox", "synced"] as const;
+export type EmailMessageSource = typeof emailMessageSources[number];
+
+export const emailMessageStatuses = ["sent", "failed", "delivered", "opened", "clicked", "unsubscribed", "complained", "bounced", "received"] as const;
+export type EmailMessageStatus = typeof emailMessageStatuses[number];
+
+export const emailDirections = ["outbound", "inbound"] as const;
+export type EmailDirection = typeof emailDirections[number];
+
+export const emailMessages = pgTable("email_messages", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").references(() => organizations.id).notNull(),
+  contactId: integer("contact_id").references(() => contacts.id),
+  campaignSendId: integer("campaign_send_id").references(() => campaignSends.id),
+  mailboxId: integer("mailbox_id").references(() => mailboxes.id),
+  source: varchar("source", { length: 20 }).notNull(), // campaign, bulk, follow_up, welcome, quote, mailbox (sent from a user's mailbox), synced (found in one)
+  direction: varchar("direction", { length: 10 }).notNull().default("outbound"), // outbound, inbound
+  fromEmail: text("from_email"),
+  toEmail: text("to_email").notNull(),
+  subject: text("subject").notNull(),
+  body: text("body"), // plain text, kept for mailbox emails
+  messageIdHeader: text("message_id_header"), // without angle brackets
+  inReplyTo: text("in_reply_to"),
+  threadId: text("thread_id"),
+  status: varchar("status", { length: 20 }).notNull().default("sent"),
+  trackingToken: varchar("tracking_token", { length: 64 }).notNull(),
+  links: text("links").array().notNull().default([]),
+  providerMessageId: text("provider_message_id"),
+  errorMessage: text("error_message"),
+  sentAt: timestamp("sent_at").notNull().defaultNow(),
+  deliveredAt: timestamp("delivered_at"),
+  openedAt: timestamp("opened_at"), // first open
+  openCount: integer("open_count").notNull().default(0),
+  clickedAt: timestamp("clicked_at"), // first click
+  clickCount: integer("click_count").notNull().default(0),
+  bouncedAt: timestamp("bounced_at"),
+  complainedAt: timestamp("complained_at"),
+  unsubscribedAt: timestamp("unsubscribed_at"),
+  createdBy: varchar("created_by").references(() => users.id),
+}, (table) => [
+  uniqueIndex("email_messages_tracking_token_idx").on(table.trackingToken),
+  index("email_messages_provider_id_idx").on(table.providerMessageId),
+  index("email_messages_contact_idx").on(table.contactId),
+  uniqueIndex("email_messages_message_id_idx").on(table.organizationId, table.messageIdHeader),
+  index("email_messages_thread_idx").on(table.organizationId, table.threadId),
+]);
+
+// A user's own mailbox, connected over IMAP to sync mail with contacts and
+// SMTP to send from their address. The password is stored encrypted.
+// syncState holds, per IMAP folder, the UIDVALIDITY it was synced under and
+// the highest UID seen; a changed UIDVALIDITY means the folder is read again.
+export interface MailboxFolderState {
+  uidValidity: string;
+  lastUid: number;
+}
+
+export const mailboxStatuses = ["active", "error"] as const;
+export type MailboxStatus = typeof mailboxStatuses[number];
+
+export const mailboxes = pgTable("mailboxes", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").references(() => organizations.id).notNull(),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  emailAddress: text("email_address").notNull(),
+  displayName: text("display_name"),
+  imapHost: text("imap_host").notNull(),
+  imapPort: integer("imap_port").notNull().default(993),
+  imapSecure: boolean("imap_secure").notNull().default(true),
+  smtpHost: text("smtp_host").notNull(),
+  smtpPort: integer("smtp_port").notNull().default(465),
+  smtpSecure: boolean("smtp_secure").notNull().default(true),
+  username: text("username").notNull(),
+  encryptedPassword: text("encrypted_password").notNull(),
+  syncState: jsonb("sync_state").$type<Record<string, MailboxFolderState>>().notNull().default({}),
+  status: varchar("status", { length: 20 }).notNull().default("active"), // active, error
+  lastError: text("last_error"),
+  lastSyncedAt: timestamp("last_synced_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("mailboxes_user_idx").on(table.userId),
+]);
+
+// Addresses the organization must not message on a channel. Emails are
+// stored lowercased and phone numbers as digits only, so lookups match
+// however the address was typed.
+export const suppressionReasons = ["unsubscribed", "bounced", "complained", "manual"] as const;
+export type SuppressionReason = typeof suppressionReasons[number];
+
+export const suppressions = pgTable("suppressions", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").references(() => organizations.id).notNull(),
+  channel: varchar("channel", { length: 20 }).notNull(), // email, whatsapp, sms
+  address: text("address").notNull(),
+  reason: varchar("reason", { length: 20 }).notNull(),
+  source: text("source"),
+  contactId: integer("contact_id").references(() => contacts.id),
+  createdBy: varchar("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("suppressions_address_idx").on(table.organizationId, table.channel, table.address),
+]);
+
+// The shared WhatsApp inbox: one conversation per contact, holding every
+// message to and from them. lastInboundAt starts WhatsApp's 24-hour window
+// in which free-form replies are allowed; outside it only templates are.
+export const whatsappConversationStatuses = ["open", "closed"] as const;
+export type WhatsappConversationStatus = typeof whatsappConversationStatuses[number];
+
+export const whatsappConversations = pgTable("whatsapp_conversations", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").references(() => organizations.id).notNull(),
+  contactId: integer("contact_id").references(() => contacts.id).notNull(),
+  phone: text("phone").notNull(), // the number the contact messages from, digits only
+  status: varchar("status", { length: 20 }).notNull().default("open"), // open, closed
+  assignedTo: varchar("assigned_to").references(() => users.id),
+  unreadCount: integer("unread_count").notNull().default(0),
+  lastMessageAt: timestamp("last_message_at"),
+  lastMessagePreview: text("last_message_preview"),
+  lastInboundAt: timestamp("last_inbound_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("whatsapp_conversations_contact_idx").on(table.organizationId, table.contactId),
+]);
+
+// Statuses reported by the Cloud API only move forward: sent, delivered, read
+export const whatsappMessageStatuses = ["received", "sent", "delivered", "read", "failed"] as const;
+export type WhatsappMessageStatus = typeof whatsappMessageStatuses[number];
+
+export const whatsappMessages = pgTable("whatsapp_messages", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").references(() => organizations.id).notNull(),
+  conversationId: integer("conversation_id").references(() => whatsappConversations.id).notNull(),
+  contactId: integer("contact_id").references(() => contacts.id),
+  direction: varchar("direction", { length: 10 }).notNull(), // inbound, outbound
+  waMessageId: text("wa_message_id"), // the Cloud API's id; null for sends it refused
+  type: varchar("type", { length: 20 }).notNull().default("text"), // text, template, image, document, audio, video, location, ...
+  body: text("body").notNull(),
+  status: varchar("status", { length: 20 }).notNull(),
+  errorMessage: text("error_message"),
+  sentBy: varchar("sent_by").references(() => users.id),
+  sentAt: timestamp("sent_at").notNull().defaultNow(),
+  deliveredAt: timestamp("delivered_at"),
+  readAt: timestamp("read_at"),
+}, (table) => [
+  uniqueIndex("whatsapp_messages_wa_id_idx").on(table.waMessageId),
+  index("whatsapp_messages_conversation_idx").on(table.conversationId),
+]);
+
+// Meetings booked with contacts. The contact and any other attendees are kept
+// with their responses, and every status change is appended to statusHistory.
+// sequence is the iCalendar SEQUENCE, raised each time invitees are sent a
+// new version of the meeting.
+export const meetingTypes = ["call", "video", "in-person", "demo", "follow-up"] as const;
+export type MeetingType = typeof meetingTypes[number];
+
+export const calendarEventStatuses = ["scheduled", "confirmed", "completed", "cancelled", "no-show"] as const;
+export type CalendarEventStatus = typeof calendarEventStatuses[number];
+
+export interface CalendarEventAttendee {
+  email: string;
+  name: string;
+  status: "pending" | "accepted" | "declined";
+}
+
+export interface CalendarEventStatusChange {
+  status: CalendarEventStatus;
+  at: string; // ISO timestamp
+  by: string | null; // user id; null when changed by the system
+}
+
+// Public booking pages, one per team member, each offering meeting types
+// prospects can book themselves
+export const bookingPages = pgTable("booking_pages", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").references(() => organizations.id).notNull(),
+  userId: varchar("user_id").references(() => users.id).notNull().unique(),
+  slug: varchar("slug", { length: 60 }).notNull().unique(), // the page is at /book/<slug>
+  title: text("title").notNull(),
+  description: text("description"),
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const bookingTypes = pgTable("booking_types", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").references(() => organizations.id).notNull(),
+  pageId: integer("page_id").references(() => bookingPages.id).notNull(),
+  slug: varchar("slug", { length: 60 }).notNull(),
+  name: text("name").notNull(),
+  description: text("description"),
+  meetingType: varchar("meeting_type", { length: 20 }).notNull(),
+  duration: integer("duration").notNull(), // minutes
+  location: text("location"),
+  questions: jsonb("questions").$type<BookingQuestion[]>().notNull().default([]),
+  sequenceId: integer("sequence_id").references(() => campaignSequences.id), // follow-up sequence bookers are enrolled in
+  isActive: boolean("is_active").notNull().default(true),
+  hostMode: varchar("host_mode", { length: 20 }).$type<BookingHostMode>().notNull().default("owner"),
+  poolUserIds: text("pool_user_ids").array().notNull().default([]), // members round-robin or collective meetings go to
+  balanceBy: varchar("balance_by", { length: 20 }).$type<RoundRobinBalance>().notNull().default("load"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("booking_types_slug_idx").on(table.pageId, table.slug),
+]);
+
+export const calendarEvents = pgTable("calendar_events", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").references(() => organizations.id).notNull(),
+  title: text("title").notNull(),
+  description: text("description"),
+  startTime: timestamp("start_time").notNull(),
+  endTime: timestamp("end_time").notNull(),
+  contactId: integer("contact_id").references(() => contacts.id),
+  dealId: integer("deal_id").references(() => deals.id),
+  meetingType: varchar("meeting_type", { length: 20 }).notNull(), // call, video, in-person, demo, follow-up
+  status: varchar("status", { length: 20 }).notNull().default("scheduled"),
+  statusHistory: jsonb("status_history").$type<CalendarEventStatusChange[]>().notNull().default([]),
+  attendees: jsonb("attendees").$type<CalendarEventAttendee[]>().notNull().default([]),
+  reminderSent: boolean("reminder_sent").notNull().default(false),
+  meetingLink: text("meeting_link"),
+  location: text("location"),
+  createdBy: varchar("created_by").references(() => users.id), // null for meetings the system booked
+  teamMemberIds: text("team_member_ids").array().notNull().default([]), // members hosting a collective meeting with createdBy
+  bookingTypeId: integer("booking_type_id").references(() => bookingTypes.id), // set when booked from a public page
+  intakeAnswers: jsonb("intake_answers").$type<Record<string, string>>(), // booking question id to answer
+  sequence: integer("sequence").notNull().default(0),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  index("calendar_events_time_idx").on(table.organizationId, table.startTime),
+  index("calendar_events_contact_idx").on(table.contactId),
+]);
+
+// A user's meetings as an iCalendar feed at /api/calendar/feed/<token>.ics,
+// for subscribing from any calendar app. A new token retires the old URL.
+export const calendarFeeds = pgTable("calendar_feeds", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").references(() => organizations.id).notNull(),
+  userId: varchar("user_id").references(() => users.id).notNull().unique(),
+  token: varchar("token", { length: 64 }).notNull().unique(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// A user's external calendar, connected over CalDAV. Their meetings are
+// written to it, and its events are read back as busy times that block
+// booking slots. The password is stored encrypted like a mailbox's.
+export const calendarAccountStatuses = ["active", "error"] as const;
+export type CalendarAccountStatus = typeof calendarAccountStatuses[number];
+
+export const calendarAccounts = pgTable("calendar_accounts", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").references(() => organizations.id).notNull(),
+  userId: varchar("user_id").references(() => users.id).notNull().unique(),
+  serverUrl: text("server_url").notNull(), // as entered
+  calendarUrl: text("calendar_url").notNull(), // the calendar collection found from it
+  username: text("username").notNull(),
+  encryptedPassword: text("encrypted_password").notNull(),
+  status: varchar("status", { length: 20 }).notNull().default("active"), // active, error
+  lastError: text("last_error"),
+  lastSyncedAt: timestamp("last_synced_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// Events read from a connected calendar. Only their times are kept; each
+// sync replaces the account's rows.
+export const externalBusyTimes = pgTable("external_busy_times", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").references(() => organizations.id).notNull(),
+  accountId: integer("account_id").references(() => calendarAccounts.id).notNull(),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  externalUid: text("external_uid").notNull(),
+  startTime: timestamp("start_time").notNull(),
+  endTime: timestamp("end_time").notNull(),
+}, (table) => [
+  index("external_busy_times_user_idx").on(table.userId, table.startTime),
+]);
+
+// Organization holiday calendars. Each member follows one; its holidays
+// are days off for booking. Members who haven't chosen follow the default.
+export const holidayCalendars = pgTable("holiday_calendars", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").references(() => organizations.id).notNull(),
+  name: text("name").notNull(),
+  isDefault: boolean("is_default").notNull().default(false),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const holidays = pgTable("holidays", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").references(() => organizations.id).notNull(),
+  calendarId: integer("calendar_id").references(() => holidayCalendars.id).notNull(),
+  date: varchar("date", { length: 10 }).notNull(), // "2026-08-17"
+  name: text("name").notNull(),
+}, (table) => [
+  uniqueIndex("holidays_calendar_date_idx").on(table.calendarId, table.date),
+]);
+
+// A member's time zone and working hours. Members without a row work the
+// default hours in UTC and follow the default holiday calendar.
+export const userAvailability = pgTable("user_availability", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").references(() => organizations.id).notNull(),
+  userId: varchar("user_id").references(() => users.id).notNull().unique(),
+  timeZone: varchar("time_zone", { length: 64 }).notNull(),
+  weeklyHours: jsonb("weekly_hours").$type<WeeklyHours>().notNull(),
+  holidayCalendarId: integer("holiday_calendar_id").references(() => holidayCalendars.id), // null for no holidays
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// Days that differ from a member's usual hours: no periods is a day off
+export const availabilityOverrides = pgTable("availability_overrides", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").references(() => organizations.id).notNull(),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  date: varchar("date", { length: 10 }).notNull(), // in the member's time zone
+  periods: jsonb("periods").$type<WorkingPeriod[]>().notNull().default([]),
+  reason: text("reason"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("availability_overrides_user_date_idx").on(table.userId, table.date),
+]);
+
+// Who each team meeting went to, for checking how fairly round-robin spreads
+// meetings. Collective meetings get a row per member.
+export const meetingAssignments = pgTable("meeting_assignments", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").references(() => organizations.id).notNull(),
+  eventId: integer("event_id").references(() => calendarEvents.id).notNull(),
+  bookingTypeId: integer("booking_type_id").references(() => bookingTypes.id), // null once the type is deleted
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  hostMode: varchar("host_mode", { length: 20 }).$type<BookingHostMode>().notNull(),
+  reason: varchar("reason", { length: 20 }).$type<AssignmentReason>().notNull(),
+  candidateIds: text("candidate_ids").array().notNull().default([]), // pool members free at the time
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("meeting_assignments_org_idx").on(table.organizationId, table.createdAt),
+]);
+
 // Export types for SaaS
 export type Organization = typeof organizations.$inferSelect;
 export type InsertOrganization = typeof organizations.$inferInsert;
@@ -257,6 +1050,43 @@ export type UsageMetric = typeof usageMetrics.$inferSelect;
 export type InsertUsageMetric = typeof usageMetrics.$inferInsert;
 export type Invitation = typeof invitations.$inferSelect;
 export type InsertInvitation = typeof invitations.$inferInsert;
+export type ExportLog = typeof exportLogs.$inferSelect;
+export type InsertExportLog = typeof exportLogs.$inferInsert;
+export type Job = typeof jobs.$inferSelect;
+export type InsertJob = typeof jobs.$inferInsert;
+export type CampaignSequenceRecord = typeof campaignSequences.$inferSelect;
+export type InsertCampaignSequence = typeof campaignSequences.$inferInsert;
+export type CampaignEnrollment = typeof campaignEnrollments.$inferSelect;
+export type InsertCampaignEnrollment = typeof campaignEnrollments.$inferInsert;
+export type CampaignSend = typeof campaignSends.$inferSelect;
+export type InsertCampaignSend = typeof campaignSends.$inferInsert;
+export type EmailMessage = typeof emailMessages.$inferSelect;
+export type InsertEmailMessage = typeof emailMessages.$inferInsert;
+export type Suppression = typeof suppressions.$inferSelect;
+export type InsertSuppression = typeof suppressions.$inferInsert;
+export type Mailbox = typeof mailboxes.$inferSelect;
+export type InsertMailbox = typeof mailboxes.$inferInsert;
+export type WhatsappConversation = typeof whatsappConversations.$inferSelect;
+export type InsertWhatsappConversation = typeof whatsappConversations.$inferInsert;
+export type WhatsappMessageRecord = typeof whatsappMessages.$inferSelect;
+export type InsertWhatsappMessage = typeof whatsappMessages.$inferInsert;
+export type BookingPage = typeof bookingPages.$inferSelect;
+export type InsertBookingPage = typeof bookingPages.$inferInsert;
+export type BookingType = typeof bookingTypes.$inferSelect;
+export type InsertBookingType = typeof bookingTypes.$inferInsert;
+export type CalendarEvent = typeof calendarEvents.$inferSelect;
+export type InsertCalendarEvent = typeof calendarEvents.$inferInsert;
+export type CalendarFeed = typeof calendarFeeds.$inferSelect;
+export type CalendarAccount = typeof calendarAccounts.$inferSelect;
+export type InsertCalendarAccount = typeof calendarAccounts.$inferInsert;
+export type ExternalBusyTime = typeof externalBusyTimes.$inferSelect;
+export type InsertExternalBusyTime = typeof externalBusyTimes.$inferInsert;
+export type HolidayCalendar = typeof holidayCalendars.$inferSelect;
+export type Holiday = typeof holidays.$inferSelect;
+export type UserAvailability = typeof userAvailability.$inferSelect;
+export type AvailabilityOverride = typeof availabilityOverrides.$inferSelect;
+export type MeetingAssignment = typeof meetingAssignments.$inferSelect;
+export type InsertMeetingAssignment = typeof meetingAssignments.$inferInsert;
 
 export type UpsertUser = typeof users.$inferInsert;
 export type User = typeof users.$inferSelect;
@@ -266,6 +1096,18 @@ export const contactsRelations = relations(contacts, ({ many }) => ({
   activities: many(activities),
   tasks: many(tasks),
   deals: many(deals),
+  calendarEvents: many(calendarEvents),
+}));
+
+export const calendarEventsRelations = relations(calendarEvents, ({ one }) => ({
+  contact: one(contacts, {
+    fields: [calendarEvents.contactId],
+    references: [contacts.id],
+  }),
+  deal: one(deals, {
+    fields: [calendarEvents.dealId],
+    references: [deals.id],
+  }),
 }));
 
 export const activitiesRelations = relations(activities, ({ one }) => ({
@@ -282,9 +1124,103 @@ export const tasksRelations = relations(tasks, ({ one }) => ({
   }),
 }));
 
-export const dealsRelations = relations(deals, ({ one }) => ({
+export const dealsRelations = relations(deals, ({ one, many }) => ({
   contact: one(contacts, {
     fields: [deals.contactId],
     references: [contacts.id],
   }),
+  stage: one(pipelineStages, {
+    fields: [deals.stageId],
+    references: [pipelineStages.id],
+  }),
+  stageTransitions: many(dealStageTransitions),
+  lineItems: many(dealLineItems),
+  quotes: many(quotes),
+}));
+
+export const pipelinesRelations = relations(pipelines, ({ many }) => ({
+  stages: many(pipelineStages),
+}));
+
+export const pipelineStagesRelations = relations(pipelineStages, ({ one, many }) => ({
+  pipeline: one(pipelines, {
+    fields: [pipelineStages.pipelineId],
+    references: [pipelines.id],
+  }),
+  deals: many(deals),
+}));
+
+export const dealStageTransitionsRelations = relations(dealStageTransitions, ({ one }) => ({
+  deal: one(deals, {
+    fields: [dealStageTransitions.dealId],
+    references: [deals.id],
+  }),
+}));
+
+export const productsRelations = relations(products, ({ many }) => ({
+  lineItems: many(dealLineItems),
+}));
+
+export const dealLineItemsRelations = relations(dealLineItems, ({ one }) => ({
+  deal: one(deals, {
+    fields: [dealLineItems.dealId],
+    references: [deals.id],
+  }),
+  product: one(products, {
+    fields: [dealLineItems.productId],
+    references: [products.id],
+  }),
+}));
+
+export const quotesRelations = relations(quotes, ({ one }) => ({
+  deal: one(deals, {
+    fields: [quotes.dealId],
+    references: [deals.id],
+  }),
+  contact: one(contacts, {
+    fields: [quotes.contactId],
+    references: [contacts.id],
+  }),
+}));
+
+export const campaignSequencesRelations = relations(campaignSequences, ({ many }) => ({
+  enrollments: many(campaignEnrollments),
+}));
+
+export const campaignEnrollmentsRelations = relations(campaignEnrollments, ({ one, many }) => ({
+  sequence: one(campaignSequences, {
+    fields: [campaignEnrollments.sequenceId],
+    references: [campaignSequences.id],
+  }),
+  contact: one(contacts, {
+    fields: [campaignEnrollments.contactId],
+    references: [contacts.id],
+  }),
+  sends: many(campaignSends),
+}));
+
+export const campaignSendsRelations = relations(campaignSends, ({ one }) => ({
+  enrollment: one(campaignEnrollments, {
+    fields: [campaignSends.enrollmentId],
+    references: [campaignEnrollments.id],
+  }),
+  contact: one(contacts, {
+    fields: [campaignSends.contactId],
+    references: [contacts.id],
+  }),
+}));
+
+export const emailMessagesRelations = relations(emailMessages, ({ one }) => ({
+  contact: one(contacts, {
+    fields: [emailMessages.contactId],
+    references: [contacts.id],
+  }),
+  campaignSend: one(campaignSends, {
+    fields: [emailMessages.campaignSendId],
+    references: [campaignSends.id],
+  }),
+  mailbox: one(mailboxes, {
+    fields: [emailMessages.mailboxId],
+    references: [mailboxes.id],
+  }),
 }));